@@ -358,6 +358,11 @@ export default function App() {
                     component={lazyLoad(() => import('./pages/MatchHistoryPage'))} 
                     pageTitle="Match History"
                   />
+                  <ProtectedRouteWithLayout 
+                    path="/points-history" 
+                    component={lazyLoad(() => import('./pages/PointsHistoryPage'))} 
+                    pageTitle="Points History"
+                  />
                   <ProtectedRouteWithLayout 
                     path="/tournaments" 
                     component={lazyLoad(() => import('./pages/tournaments/index'))} 
@@ -392,6 +397,13 @@ export default function App() {
                     pageTitle="Communities"
                   />
                   
+                  {/* OAuth consent screen for partner apps */}
+                  <ProtectedRouteWithLayout 
+                    path="/oauth/consent" 
+                    component={lazyLoad(() => import('./pages/OAuthConsentPage'))} 
+                    pageTitle="Authorize App"
+                  />
+                  
                   {/* Settings Page */}
                   <ProtectedRouteWithLayout 
                     path="/settings" 
@@ -6,6 +6,7 @@ import { User, Users, Shuffle, Trophy, Target, AlertCircle, Swords } from 'lucid
 import { motion } from 'framer-motion';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { MatchPredictionCard } from '@/components/match/MatchPredictionCard';
 
 type RankingType = 'singles' | 'doubles' | 'mixed';
 
@@ -294,6 +295,18 @@ export default function SmartChallengeModal({
             </div>
           </motion.div>
 
+          {/* Match Odds (singles only; the opposing partner is chosen when they accept) */}
+          {selectedMatchType === 'singles' && (
+            <MatchPredictionCard
+              team1Ids={[parseInt(currentPlayer.id)].filter(id => !isNaN(id))}
+              team2Ids={[parseInt(opponent.id)].filter(id => !isNaN(id))}
+              team1Label="You"
+              team2Label={opponent.name}
+              team1Color="#f97316"
+              team2Color="#64748b"
+            />
+          )}
+
           {/* Partner Selection (for Doubles/Mixed) */}
           {requiresPartner && (
             <motion.div
@@ -0,0 +1,133 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Target, Scale, History, Loader2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+interface MatchFormat {
+  pointsToWin: number;
+  winByTwo: boolean;
+  gamesToWin: number;
+}
+
+interface PredictionSide {
+  playerIds: number[];
+  rating: number;
+  deviation: number;
+  provisional: boolean;
+}
+
+export interface MatchPredictionData {
+  format: MatchFormat;
+  team1WinProbability: number;
+  gameWinProbability: number;
+  expectedScore: { team1: number; team2: number };
+  handicap: { team: 1 | 2 | null; points: number; team1WinProbability: number };
+  team1: PredictionSide;
+  team2: PredictionSide;
+  headToHead: { matches: number; team1Wins: number; team2Wins: number };
+}
+
+interface MatchPredictionCardProps {
+  team1Ids: number[];
+  team2Ids: number[];
+  team1Label: string;
+  team2Label: string;
+  format?: Partial<MatchFormat>;
+  team1Color?: string;
+  team2Color?: string;
+}
+
+function percent(probability: number): string {
+  return `${Math.round(probability * 100)}%`;
+}
+
+/**
+ * Win probability, expected score and fair handicap for a match before it is played
+ */
+export function MatchPredictionCard({
+  team1Ids,
+  team2Ids,
+  team1Label,
+  team2Label,
+  format,
+  team1Color = '#3b82f6',
+  team2Color = '#ef4444'
+}: MatchPredictionCardProps) {
+  const ready = team1Ids.length > 0 && team2Ids.length > 0;
+
+  const { data: prediction, isLoading, isError } = useQuery<MatchPredictionData>({
+    queryKey: ['/api/match-predictions/predict', team1Ids, team2Ids, format],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/match-predictions/predict', {
+        team1: team1Ids,
+        team2: team2Ids,
+        format
+      });
+      return response.json();
+    },
+    enabled: ready
+  });
+
+  if (!ready || isError) return null;
+
+  if (isLoading || !prediction) {
+    return (
+      <div className="flex items-center justify-center gap-2 p-3 text-xs text-slate-400">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Calculating odds...
+      </div>
+    );
+  }
+
+  const handicapLabel = prediction.handicap.team === 1 ? team1Label : team2Label;
+  const { headToHead } = prediction;
+
+  return (
+    <div className="rounded-lg border border-slate-700 bg-slate-900/60 p-3 space-y-3">
+      <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+        <Target className="h-3 w-3" />
+        Match Odds
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm font-bold text-white mb-1">
+          <span>{team1Label} {percent(prediction.team1WinProbability)}</span>
+          <span>{percent(1 - prediction.team1WinProbability)} {team2Label}</span>
+        </div>
+        <div className="flex h-2 overflow-hidden rounded-full bg-slate-700">
+          <div style={{ width: percent(prediction.team1WinProbability), backgroundColor: team1Color }} />
+          <div className="flex-1" style={{ backgroundColor: team2Color }} />
+        </div>
+      </div>
+
+      <div className="text-xs text-slate-300">
+        Expected game score{' '}
+        <span className="font-mono text-white">
+          {Math.round(prediction.expectedScore.team1)}–{Math.round(prediction.expectedScore.team2)}
+        </span>
+        {(prediction.team1.provisional || prediction.team2.provisional) && (
+          <span className="text-slate-500"> · provisional ratings, odds are rough</span>
+        )}
+      </div>
+
+      {prediction.handicap.team && (
+        <div className="flex items-start gap-2 text-xs text-amber-300">
+          <Scale className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          <span>
+            For a closer recreational game, start {handicapLabel} at {prediction.handicap.points}
+            {' '}({team1Label} {percent(prediction.handicap.team1WinProbability)})
+          </span>
+        </div>
+      )}
+
+      {headToHead.matches > 0 && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <History className="h-3 w-3" />
+          Head to head: {team1Label} {headToHead.team1Wins}–{headToHead.team2Wins} {team2Label}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MatchPredictionCard;
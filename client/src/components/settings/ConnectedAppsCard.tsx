@@ -0,0 +1,109 @@
+/**
+ * Connected Apps
+ *
+ * The partner apps the player has allowed to act on their behalf, what each
+ * may access, and a way to remove that access. Removing an app revokes every
+ * token it holds for the player.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { KeyRound } from 'lucide-react';
+
+interface ConnectedApp {
+  id: number;
+  client: {
+    name: string;
+    websiteUrl: string | null;
+    logoUrl: string | null;
+  };
+  scopes: { scope: string; name: string; description: string }[];
+  authorizedAt: string;
+  lastUsedAt: string | null;
+}
+
+export function ConnectedAppsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ data: ConnectedApp[] }>({
+    queryKey: ['/api/oauth/authorizations']
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (authorizationId: number) => {
+      const response = await apiRequest('DELETE', `/api/oauth/authorizations/${authorizationId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Access removed',
+        description: 'The app can no longer access your account.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/oauth/authorizations'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could not remove access',
+        description: error.message || 'Please try again.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const apps = data?.data || [];
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="h-5 w-5 mr-2" />
+          Connected Apps
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : apps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No apps have access to your account.</p>
+        ) : (
+          apps.map(app => (
+            <div key={app.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1">
+                <p className="font-medium">{app.client.name}</p>
+                <div className="flex flex-wrap gap-1">
+                  {app.scopes.map(scope => (
+                    <Badge key={scope.scope} variant="secondary" title={scope.description}>
+                      {scope.name}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Allowed {format(parseISO(app.authorizedAt), 'MMM d, yyyy')}
+                  {app.lastUsedAt && ` · Last used ${format(parseISO(app.lastUsedAt), 'MMM d, yyyy')}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={revokeMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Remove ${app.client.name}'s access to your account?`)) {
+                    revokeMutation.mutate(app.id);
+                  }
+                }}
+              >
+                Remove
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
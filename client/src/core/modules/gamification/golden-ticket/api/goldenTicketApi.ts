@@ -66,6 +66,12 @@ async function debugApiRequest<T>(method: "GET" | "POST" | "PUT" | "PATCH" | "DE
 
 // Ticket Management API
 
+// Fields the server fills in or that have server-side defaults
+type ServerManagedField = 'id' | 'createdAt' | 'updatedAt' | 'currentClaims' | 'perUserClaimLimit' | 'perDeviceClaimLimit'
+  | 'approvalStatus' | 'submittedById' | 'submittedAt' | 'reviewedById' | 'reviewedAt' | 'reviewNotes';
+
+type NewGoldenTicket = Omit<GoldenTicket, ServerManagedField> & Partial<Pick<GoldenTicket, 'perUserClaimLimit' | 'perDeviceClaimLimit'>>;
+
 /**
  * Fetch all available golden tickets
  * @returns List of golden tickets
@@ -89,7 +95,7 @@ export async function getMyGoldenTickets(): Promise<GoldenTicket[]> {
  * @param ticket The ticket data
  * @returns The created ticket
  */
-export async function createGoldenTicket(ticket: Omit<GoldenTicket, 'id' | 'createdAt' | 'updatedAt' | 'currentClaims'>): Promise<GoldenTicket> {
+export async function createGoldenTicket(ticket: NewGoldenTicket): Promise<GoldenTicket> {
   return debugApiRequest<GoldenTicket>("POST", `${API_BASE}/admin/tickets`, ticket);
 }
 
@@ -111,15 +117,61 @@ export async function deleteGoldenTicket(id: number): Promise<void> {
   return debugApiRequest<void>("DELETE", `${API_BASE}/admin/tickets/${id}`);
 }
 
+// Ticket Draws API
+
+const DEVICE_ID_KEY = 'goldenTicketDeviceId';
+
+/**
+ * Random ID for this browser, sent with draws and claims for the per-device limits
+ */
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export type GoldenTicketDrawResult =
+  | { result: 'show-ticket'; ticketId: number; drawId: number; claimBy: string }
+  | { result: 'no-ticket' }
+  | { result: 'cooldown'; retryAfterSeconds: number };
+
+/**
+ * Ask the server to draw for a golden ticket on the current page
+ * @returns Whether a ticket appears, and the draw to claim it with
+ */
+export async function checkForGoldenTicket(): Promise<GoldenTicketDrawResult> {
+  return debugApiRequest<GoldenTicketDrawResult>("POST", `${API_BASE}/draw`, {
+    deviceId: getDeviceId(),
+    page: window.location.pathname
+  });
+}
+
+/**
+ * Fetch an available ticket with its sponsor details
+ * @param id The ticket ID
+ * @returns The ticket
+ */
+export async function getGoldenTicketById(id: number): Promise<GoldenTicket & {
+  sponsorName?: string;
+  sponsorLogoUrl?: string;
+  sponsorWebsite?: string;
+}> {
+  return debugApiRequest("GET", `${API_BASE}/tickets/${id}`);
+}
+
 // Ticket Claims API
 
 /**
  * Claim a golden ticket
  * @param ticketId The ticket ID to claim
+ * @param drawId The draw that showed the ticket
  * @returns The claim record
  */
-export async function claimGoldenTicket(ticketId: number): Promise<GoldenTicketClaim> {
-  return debugApiRequest<GoldenTicketClaim>("POST", `${API_BASE}/tickets/${ticketId}/claim`);
+export async function claimGoldenTicket(ticketId: number, drawId: number): Promise<GoldenTicketClaim> {
+  return debugApiRequest<GoldenTicketClaim>("POST", `${API_BASE}/tickets/${ticketId}/claim`, { drawId, deviceId: getDeviceId() });
 }
 
 /**
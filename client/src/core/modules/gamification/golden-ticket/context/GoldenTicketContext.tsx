@@ -46,6 +46,7 @@ export const GoldenTicketProvider: React.FC<{children: React.ReactNode}> = ({ ch
     sponsorLogoUrl?: string;
     sponsorWebsite?: string;
   }) | null>(null);
+  const [drawId, setDrawId] = useState<number | null>(null);
   const [isTicketVisible, setIsTicketVisible] = useState(false);
   const [hasChecked, setHasChecked] = useState(false);
   const [isClaimLoading, setIsClaimLoading] = useState(false);
@@ -77,10 +78,12 @@ export const GoldenTicketProvider: React.FC<{children: React.ReactNode}> = ({ ch
         refetch().then(result => {
           setHasChecked(true);
           
-          if (result.data?.result === 'show-ticket' && result.data.ticketId) {
+          if (result.data?.result === 'show-ticket') {
+            const { drawId: shownDrawId } = result.data;
             getGoldenTicketById(result.data.ticketId).then(ticket => {
               if (ticket) {
                 setCurrentTicket(ticket);
+                setDrawId(shownDrawId);
                 // Auto-show after a short delay to let the page load
                 setTimeout(() => {
                   setIsTicketVisible(true);
@@ -127,11 +130,11 @@ export const GoldenTicketProvider: React.FC<{children: React.ReactNode}> = ({ ch
   
   // Claim a golden ticket
   const claimTicket = useCallback(async (): Promise<GoldenTicketClaim | null> => {
-    if (!currentTicket) return null;
+    if (!currentTicket || drawId === null) return null;
     
     setIsClaimLoading(true);
     try {
-      const claim = await claimGoldenTicket(currentTicket.id);
+      const claim = await claimGoldenTicket(currentTicket.id, drawId);
       setIsClaimLoading(false);
       
       if (claim) {
@@ -158,7 +161,7 @@ export const GoldenTicketProvider: React.FC<{children: React.ReactNode}> = ({ ch
       
       return null;
     }
-  }, [currentTicket, queryClient, toast]);
+  }, [currentTicket, drawId, queryClient, toast]);
   
   // Clear the current ticket when the user changes
   useEffect(() => {
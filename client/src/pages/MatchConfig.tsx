@@ -16,6 +16,7 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { VersusScreen } from '@/components/match/VersusScreen';
 import { PulsingScoreButton } from '@/components/match/PulsingScoreButton';
+import { MatchPredictionCard } from '@/components/match/MatchPredictionCard';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
@@ -403,6 +404,36 @@ export default function MatchConfig() {
     }
   };
 
+  // Player IDs on each side for the match odds; demo and unknown players are left out
+  const getPredictionTeams = (): { team1: number[], team2: number[] } => {
+    const toIds = (players: any[]) => players
+      .filter(Boolean)
+      .map(player => player.id === 'current-user' ? user?.id : Number(player.id))
+      .filter((id): id is number => typeof id === 'number' && Number.isInteger(id) && id > 0);
+
+    try {
+      const currentMatch = sessionStorage.getItem('currentMatch');
+      if (!currentMatch) return { team1: [], team2: [] };
+
+      const matchData = JSON.parse(currentMatch);
+      if (matchData.pairings?.team1 && matchData.pairings?.team2) {
+        return { team1: toIds(matchData.pairings.team1), team2: toIds(matchData.pairings.team2) };
+      }
+    } catch (error) {
+      console.log('Could not load prediction teams from session storage:', error);
+      return { team1: [], team2: [] };
+    }
+
+    return { team1: toIds([playerData.player1]), team2: toIds([playerData.player2]) };
+  };
+
+  const predictionTeams = getPredictionTeams();
+  const predictionFormat = {
+    pointsToWin: config.pointTarget,
+    winByTwo: config.winByTwo,
+    gamesToWin: config.matchFormat === 'best-of-5' ? 3 : config.matchFormat === 'best-of-3' ? 2 : 1
+  };
+
   // Check if current user is the initiating player (challenger)
   const isInitiatingPlayer = isChallenge && user && challengeData && user.id === challengeData.challenger.id;
   
@@ -421,6 +452,16 @@ export default function MatchConfig() {
     // Save scoring preference to localStorage
     localStorage.setItem('pkl:lastScoringMode', config.scoringType);
 
+    // Keep the odds shown for calibration; challenges were recorded when sent
+    if (!isChallenge && predictionTeams.team1.length > 0 && predictionTeams.team2.length > 0) {
+      apiRequest('POST', '/api/match-predictions/predict', {
+        team1: predictionTeams.team1,
+        team2: predictionTeams.team2,
+        format: predictionFormat,
+        record: true
+      }).catch(error => console.log('Could not record match prediction:', error));
+    }
+
     try {
       // Try to create match with backend API
       const response = await fetch('/api/matches/create', {
@@ -630,6 +671,19 @@ export default function MatchConfig() {
                 </div>
               </div>
             </div>
+
+            {/* Match Odds */}
+            <div className="mt-4 text-left">
+              <MatchPredictionCard
+                team1Ids={predictionTeams.team1}
+                team2Ids={predictionTeams.team2}
+                team1Label={playerData.player1.displayName || playerData.player1.name}
+                team2Label={playerData.player2.displayName || playerData.player2.name}
+                format={predictionFormat}
+                team1Color={teamTheme.team1.color}
+                team2Color={teamTheme.team2.color}
+              />
+            </div>
           </div>
 
           <div className="space-y-6">
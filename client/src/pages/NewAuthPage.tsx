@@ -77,6 +77,17 @@ const slideIn = {
   }
 };
 
+// Where to go after signing in: a same-site path passed as returnTo, such as
+// an app's OAuth authorization request, which needs a full page load
+const redirectAfterAuth = (setLocation: (path: string) => void) => {
+  const returnTo = new URLSearchParams(window.location.search).get('returnTo');
+  if (returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//')) {
+    window.location.assign(returnTo);
+  } else {
+    setLocation("/unified-prototype");
+  }
+};
+
 export default function NewAuthPage() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
@@ -127,7 +138,7 @@ export default function NewAuthPage() {
         description: "Successfully logged in to your player passport.",
         variant: "success",
       });
-      setLocation("/unified-prototype");
+      redirectAfterAuth(setLocation);
     } catch (error: any) {
       toast({
         title: "Login Failed",
@@ -156,7 +167,7 @@ export default function NewAuthPage() {
         description: "Your player passport has been created successfully.",
         variant: "success",
       });
-      setLocation("/unified-prototype");
+      redirectAfterAuth(setLocation);
     } catch (error: any) {
       toast({
         title: "Registration Failed",
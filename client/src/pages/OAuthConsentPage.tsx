@@ -0,0 +1,164 @@
+/**
+ * OAUTH CONSENT PAGE
+ *
+ * Shown when a partner app asks to act on the player's behalf: who is
+ * asking, what each requested scope lets the app see, and where the player
+ * will be sent back to. Allowing or denying returns the player to the app.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ExternalLink, KeyRound, ShieldCheck } from 'lucide-react';
+
+interface ConsentScope {
+  scope: string;
+  name: string;
+  description: string;
+  dataAccess: string[];
+}
+
+interface ConsentRequest {
+  requestId: string;
+  client: {
+    name: string;
+    description: string | null;
+    websiteUrl: string | null;
+    logoUrl: string | null;
+    privacyPolicyUrl: string | null;
+    termsOfServiceUrl: string | null;
+  };
+  redirectHost: string;
+  scopes: ConsentScope[];
+  previouslyGranted: string[];
+}
+
+const formatDataAccess = (field: string) => field.replace(/_/g, ' ');
+
+export default function OAuthConsentPage() {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState<'allow' | 'deny' | null>(null);
+
+  const { data: request, isLoading, error } = useQuery<ConsentRequest>({
+    queryKey: ['/api/oauth/consent'],
+    retry: false
+  });
+
+  const decide = async (decision: 'allow' | 'deny') => {
+    if (!request) return;
+    setSubmitting(decision);
+    try {
+      const response = await apiRequest('POST', '/api/oauth/consent', {
+        request_id: request.requestId,
+        decision
+      });
+      const { redirectTo } = await response.json();
+      window.location.assign(redirectTo);
+    } catch (err: any) {
+      setSubmitting(null);
+      toast({
+        title: 'Authorization failed',
+        description: err.message || 'Start again from the application.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="container mx-auto py-12 px-4 max-w-lg text-center text-muted-foreground">Loading…</div>;
+  }
+
+  if (error || !request) {
+    return (
+      <div className="container mx-auto py-12 px-4 max-w-lg">
+        <Card>
+          <CardHeader>
+            <CardTitle>No authorization request</CardTitle>
+            <CardDescription>
+              This request has expired or was already answered. Start again from the application.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { client } = request;
+
+  return (
+    <div className="container mx-auto py-12 px-4 max-w-lg">
+      <Card>
+        <CardHeader className="text-center">
+          {client.logoUrl ? (
+            <img src={client.logoUrl} alt="" className="h-16 w-16 rounded-lg mx-auto mb-3 object-cover" />
+          ) : (
+            <KeyRound className="h-12 w-12 text-primary mx-auto mb-3" />
+          )}
+          <CardTitle>{client.name} wants to access your Pickle+ account</CardTitle>
+          {client.description && <CardDescription>{client.description}</CardDescription>}
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <p className="text-sm font-medium">This will allow {client.name} to:</p>
+          <ul className="space-y-3">
+            {request.scopes.map(scope => (
+              <li key={scope.scope} className="rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 text-primary" />
+                    {scope.name}
+                  </span>
+                  {request.previouslyGranted.includes(scope.scope) && (
+                    <Badge variant="secondary">Already allowed</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">{scope.description}</p>
+                {scope.dataAccess.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Includes: {scope.dataAccess.map(formatDataAccess).join(', ')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <p className="text-xs text-muted-foreground">
+            You will be returned to <span className="font-medium">{request.redirectHost}</span>. You can
+            remove this access at any time from Settings.
+          </p>
+
+          <div className="flex flex-wrap gap-3 text-xs">
+            {client.websiteUrl && (
+              <a href={client.websiteUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 underline">
+                Website <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+            {client.privacyPolicyUrl && (
+              <a href={client.privacyPolicyUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 underline">
+                Privacy policy <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+            {client.termsOfServiceUrl && (
+              <a href={client.termsOfServiceUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 underline">
+                Terms of service <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex gap-3">
+          <Button variant="outline" className="flex-1" disabled={submitting !== null} onClick={() => decide('deny')}>
+            {submitting === 'deny' ? 'Cancelling…' : 'Cancel'}
+          </Button>
+          <Button className="flex-1" disabled={submitting !== null} onClick={() => decide('allow')}>
+            {submitting === 'allow' ? 'Allowing…' : 'Allow'}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * POINTS HISTORY PAGE
+ *
+ * Shows every ranking points and Pickle Points credit or debit from the
+ * points ledger, how each amount was calculated, and the balance on any
+ * chosen date.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Scale, TrendingDown, TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Currency = 'ranking' | 'pickle';
+
+interface LedgerEntry {
+  id: number;
+  entryType: string;
+  amount: number;
+  balanceAfter: number;
+  division: string | null;
+  sourceType: string | null;
+  sourceId: number | null;
+  rulesetVersion: number | null;
+  calculationDetails: string | null;
+  reason: string | null;
+  occurredAt: string;
+}
+
+interface LedgerHistory {
+  openingBalance: number;
+  closingBalance: number;
+  entries: LedgerEntry[];
+}
+
+interface LedgerBalance {
+  balance: number;
+  storedBalance?: number;
+}
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  opening_balance: 'Opening balance',
+  match_award: 'Match',
+  decay: 'Decay',
+  admin_adjustment: 'Adjustment',
+  replay_adjustment: 'Recalculation',
+  redemption: 'Redemption'
+};
+
+export default function PointsHistoryPage() {
+  const [currency, setCurrency] = useState<Currency>('ranking');
+  const [balanceDate, setBalanceDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: history, isLoading } = useQuery<LedgerHistory>({
+    queryKey: [`/api/points-ledger/me?currency=${currency}`]
+  });
+
+  // End of the chosen day
+  const balanceAt = new Date(`${balanceDate}T23:59:59`).toISOString();
+
+  const { data: balance } = useQuery<LedgerBalance>({
+    queryKey: [`/api/points-ledger/me/balance?currency=${currency}&at=${encodeURIComponent(balanceAt)}`],
+    enabled: !!balanceDate
+  });
+
+  const entries = [...(history?.entries || [])].reverse();
+  const currencyLabel = currency === 'ranking' ? 'Ranking Points' : 'Pickle Points';
+
+  return (
+    <div className="container mx-auto py-6 px-4 max-w-5xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          <History className="h-8 w-8 text-primary" />
+          Points History
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Every change to your points, where it came from and how it was calculated
+        </p>
+      </div>
+
+      <Tabs value={currency} onValueChange={(value) => setCurrency(value as Currency)} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="ranking">Ranking Points</TabsTrigger>
+          <TabsTrigger value="pickle">Pickle Points</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="grid gap-6 md:grid-cols-2 mb-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Current Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-primary">
+              {(history?.closingBalance ?? 0).toFixed(2)}
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">{currencyLabel}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Scale className="h-4 w-4" />
+              Balance On A Date
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="balance-date" className="sr-only">Date</Label>
+            <Input
+              id="balance-date"
+              type="date"
+              value={balanceDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(event) => setBalanceDate(event.target.value)}
+            />
+            <div className="text-2xl font-bold">
+              {(balance?.balance ?? 0).toFixed(2)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+          <CardDescription>Newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No points activity yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(entry.occurredAt), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ENTRY_TYPE_LABELS[entry.entryType] || entry.entryType}</Badge>
+                      {entry.rulesetVersion !== null && (
+                        <span className="ml-2 text-xs text-muted-foreground">rules v{entry.rulesetVersion}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {entry.calculationDetails || entry.reason || '—'}
+                      {entry.sourceType === 'match' && entry.sourceId && (
+                        <span className="block text-xs">Match #{entry.sourceId}{entry.division ? ` · ${entry.division}` : ''}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={cn(
+                      'text-right font-medium whitespace-nowrap',
+                      entry.amount >= 0 ? 'text-green-600' : 'text-red-600'
+                    )}>
+                      {entry.amount >= 0
+                        ? <TrendingUp className="inline h-4 w-4 mr-1" />
+                        : <TrendingDown className="inline h-4 w-4 mr-1" />}
+                      {entry.amount >= 0 ? '+' : ''}{entry.amount.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">{entry.balanceAfter.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
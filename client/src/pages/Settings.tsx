@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { LanguageToggle } from '@/components/LanguageToggle';
+import { ConnectedAppsCard } from '@/components/settings/ConnectedAppsCard';
 import { 
   Settings as SettingsIcon, 
   Bell, 
@@ -145,6 +146,8 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          <ConnectedAppsCard />
         </div>
       </div>
     </StandardLayout>
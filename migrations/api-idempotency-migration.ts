@@ -0,0 +1,49 @@
+/**
+ * API Idempotency Migration
+ *
+ * Creates the table the gateway stores the responses to writes sent with an
+ * Idempotency-Key header in, so retried writes are replayed rather than
+ * repeated.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateApiIdempotency(): Promise<void> {
+  console.log("Starting API Idempotency migration...");
+
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_idempotency_keys" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "credential_key" VARCHAR(100) NOT NULL,
+        "idempotency_key" VARCHAR(255) NOT NULL,
+        "method" VARCHAR(10) NOT NULL,
+        "path" VARCHAR(255) NOT NULL,
+        "request_hash" VARCHAR(64) NOT NULL,
+        "status" VARCHAR(20) NOT NULL DEFAULT 'processing',
+        "response_status" INTEGER,
+        "response_body" JSONB,
+        "locked_until" TIMESTAMP NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "completed_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "api_idempotency_keys_credential_key_idx" ON "api_idempotency_keys" ("credential_key", "idempotency_key");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "api_idempotency_keys_expires_idx" ON "api_idempotency_keys" ("expires_at");
+    `);
+    console.log("Created api_idempotency_keys table.");
+
+    console.log("API Idempotency migration completed successfully.");
+  } catch (error) {
+    console.error("Error during API Idempotency migration:", error);
+    throw error;
+  }
+}
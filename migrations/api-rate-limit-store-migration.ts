@@ -0,0 +1,72 @@
+/**
+ * API Rate Limit Store Migration
+ *
+ * Creates the tables the gateway keeps rate limit windows, token buckets,
+ * concurrency leases and monthly quota usage in, and adds the algorithm and
+ * burst size to configured rate limits.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateApiRateLimitStore(): Promise<void> {
+  console.log("Starting API Rate Limit Store migration...");
+
+  try {
+    await db.execute(sql`
+      ALTER TABLE "api_rate_limits"
+        ADD COLUMN IF NOT EXISTS "algorithm" VARCHAR(20) NOT NULL DEFAULT 'sliding_window',
+        ADD COLUMN IF NOT EXISTS "burst_limit" INTEGER;
+    `);
+    console.log("Added algorithm and burst limit to api_rate_limits.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_rate_limit_state" (
+        "key" VARCHAR(255) PRIMARY KEY NOT NULL,
+        "algorithm" VARCHAR(20) NOT NULL,
+        "state" JSONB NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "api_rate_limit_state_expires_idx" ON "api_rate_limit_state" ("expires_at");
+    `);
+    console.log("Created api_rate_limit_state table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_concurrency_leases" (
+        "id" VARCHAR(64) PRIMARY KEY NOT NULL,
+        "key" VARCHAR(255) NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "api_concurrency_leases_key_idx" ON "api_concurrency_leases" ("key", "expires_at");
+    `);
+    console.log("Created api_concurrency_leases table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_quota_usage" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "key" VARCHAR(255) NOT NULL,
+        "period_start" TIMESTAMP NOT NULL,
+        "request_count" INTEGER NOT NULL DEFAULT 0,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "api_quota_usage_key_period_idx" ON "api_quota_usage" ("key", "period_start");
+    `);
+    console.log("Created api_quota_usage table.");
+
+    console.log("API Rate Limit Store migration completed successfully.");
+  } catch (error) {
+    console.error("Error during API Rate Limit Store migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Booking Cancellation Policy Migration
+ * 
+ * Adds coach and facility cancellation policies and the booking_cancellations
+ * table that records how each cancelled or missed booking was settled.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateBookingCancellationPolicies(): Promise<void> {
+  console.log("Starting Booking Cancellation Policy migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "cancellation_policies" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "scope" VARCHAR(20) NOT NULL,
+        "coach_id" INTEGER,
+        "facility_id" INTEGER,
+        "name" VARCHAR(100),
+        "full_refund_hours" INTEGER NOT NULL DEFAULT 24,
+        "partial_refund_hours" INTEGER NOT NULL DEFAULT 6,
+        "partial_refund_percent" INTEGER NOT NULL DEFAULT 50,
+        "late_cancel_fee_percent" INTEGER NOT NULL DEFAULT 100,
+        "no_show_fee_percent" INTEGER NOT NULL DEFAULT 100,
+        "is_active" BOOLEAN NOT NULL DEFAULT TRUE,
+        "updated_by_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "cancellation_policies_coach_unique"
+        ON "cancellation_policies" ("coach_id");
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "cancellation_policies_facility_unique"
+        ON "cancellation_policies" ("facility_id");
+    `);
+    console.log("Created cancellation_policies table.");
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "booking_cancellations" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "booking_type" VARCHAR(30) NOT NULL,
+        "booking_id" INTEGER NOT NULL,
+        "student_id" INTEGER,
+        "coach_id" INTEGER,
+        "facility_id" INTEGER,
+        "policy_id" INTEGER,
+        "tier" VARCHAR(30) NOT NULL,
+        "initiated_by" VARCHAR(20) NOT NULL,
+        "cancelled_by_id" INTEGER,
+        "hours_before_start" DECIMAL(8, 2) NOT NULL,
+        "price_cents" INTEGER NOT NULL,
+        "paid_cents" INTEGER NOT NULL,
+        "refund_cents" INTEGER NOT NULL DEFAULT 0,
+        "fee_cents" INTEGER NOT NULL DEFAULT 0,
+        "fee_charged_cents" INTEGER NOT NULL DEFAULT 0,
+        "fee_outstanding_cents" INTEGER NOT NULL DEFAULT 0,
+        "coach_earnings_change_cents" INTEGER NOT NULL DEFAULT 0,
+        "refund_transaction_id" INTEGER,
+        "fee_transaction_id" INTEGER,
+        "reason" TEXT,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "booking_cancellations_booking_unique"
+        ON "booking_cancellations" ("booking_type", "booking_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "booking_cancellations_student_idx"
+        ON "booking_cancellations" ("student_id", "created_at");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "booking_cancellations_coach_idx"
+        ON "booking_cancellations" ("coach_id", "created_at");
+    `);
+    console.log("Created booking_cancellations table.");
+    
+    console.log("Booking Cancellation Policy migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Booking Cancellation Policy migration:", error);
+    throw error;
+  }
+}
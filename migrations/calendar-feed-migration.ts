@@ -0,0 +1,35 @@
+/**
+ * Calendar Feed Migration
+ * 
+ * Adds the calendar_feed_tokens table holding each user's secret iCalendar
+ * subscription token.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateCalendarFeeds(): Promise<void> {
+  console.log("Starting Calendar Feed migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "calendar_feed_tokens" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "user_id" INTEGER NOT NULL UNIQUE,
+        "token" VARCHAR(64) NOT NULL UNIQUE,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "rotated_at" TIMESTAMP,
+        "last_accessed_at" TIMESTAMP
+      );
+    `);
+    console.log("Created calendar_feed_tokens table.");
+    
+    console.log("Calendar Feed migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Calendar Feed migration:", error);
+    throw error;
+  }
+}
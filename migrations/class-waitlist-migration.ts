@@ -0,0 +1,56 @@
+/**
+ * Class Waitlist Migration
+ * 
+ * Adds the class_waitlist_offers table logging every spot offered to a
+ * waitlisted player and every player passed over for the class level.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateClassWaitlist(): Promise<void> {
+  console.log("Starting Class Waitlist migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "class_waitlist_offers" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "class_instance_id" INTEGER NOT NULL,
+        "center_id" INTEGER NOT NULL,
+        "waitlist_entry_id" INTEGER NOT NULL,
+        "player_id" INTEGER NOT NULL,
+        "position" INTEGER NOT NULL,
+        "outcome" VARCHAR(20) NOT NULL DEFAULT 'pending',
+        "offered_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "expires_at" TIMESTAMP,
+        "responded_at" TIMESTAMP,
+        "enrollment_id" INTEGER,
+        "credits_charged" INTEGER NOT NULL DEFAULT 0,
+        "credit_transaction_id" INTEGER,
+        "reason" TEXT,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "class_waitlist_offers_class_idx"
+        ON "class_waitlist_offers" ("class_instance_id", "offered_at");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "class_waitlist_offers_center_idx"
+        ON "class_waitlist_offers" ("center_id", "offered_at");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "class_waitlist_offers_entry_idx"
+        ON "class_waitlist_offers" ("waitlist_entry_id", "outcome");
+    `);
+    console.log("Created class_waitlist_offers table.");
+    
+    console.log("Class Waitlist migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Class Waitlist migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Coach Slot Materialization Migration
+ * 
+ * Adds the coach_time_off table, a time zone for availability rules, and the
+ * unique (availability, start time) index that makes slot generation from
+ * recurring availability idempotent.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateCoachSlotMaterialization(): Promise<void> {
+  console.log("Starting Coach Slot Materialization migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "coach_time_off" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "coach_id" INTEGER NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "ends_at" TIMESTAMP NOT NULL,
+        "reason" VARCHAR(255),
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "coach_time_off_coach_idx"
+        ON "coach_time_off" ("coach_id", "starts_at");
+    `);
+    console.log("Created coach_time_off table.");
+    
+    await db.execute(sql`
+      ALTER TABLE "coach_availability" ADD COLUMN IF NOT EXISTS "timezone" VARCHAR(50);
+    `);
+    console.log("Added coach_availability.timezone column.");
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "booking_slots_availability_start_unique"
+        ON "booking_slots" ("availability_id", "start_time");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "booking_slots_coach_start_idx"
+        ON "booking_slots" ("coach_id", "start_time");
+    `);
+    console.log("Created booking_slots indexes.");
+    
+    console.log("Coach Slot Materialization migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Coach Slot Materialization migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Decay Policies Migration
+ * 
+ * Creates the decay_policies table for regional/divisional decay rules,
+ * adds the region column to users that policies are matched on, and indexes
+ * user notifications so decay warnings are only sent once per run.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateDecayPolicies(): Promise<void> {
+  console.log("Starting Decay Policies migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "decay_policies" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "region" VARCHAR(50),
+        "division" VARCHAR(20),
+        "rules" JSONB NOT NULL,
+        "is_active" BOOLEAN NOT NULL DEFAULT TRUE,
+        "notes" TEXT,
+        "created_by_id" INTEGER,
+        "updated_by_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log("Created decay_policies table.");
+    
+    await db.execute(sql`
+      ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "region" VARCHAR(50);
+    `);
+    console.log("Added region column to users.");
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "user_notifications_type_reference_idx"
+        ON "user_notifications" ("type", "reference_type", "reference_id");
+    `);
+    console.log("Indexed user_notifications by type and reference.");
+    
+    console.log("Decay Policies migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Decay Policies migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Golden Ticket Fairness Migration
+ *
+ * Adds claim limits to golden tickets and draw, device and IP details to
+ * claims, and creates the seed, draw and audit event tables used to prove
+ * draws were fair.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateGoldenTicketFairness(): Promise<void> {
+  console.log("Starting Golden Ticket Fairness migration...");
+
+  try {
+    await db.execute(sql`
+      ALTER TABLE "golden_tickets"
+        ADD COLUMN IF NOT EXISTS "per_user_claim_limit" INTEGER NOT NULL DEFAULT 1,
+        ADD COLUMN IF NOT EXISTS "per_device_claim_limit" INTEGER NOT NULL DEFAULT 1;
+    `);
+    console.log("Added claim limits to golden_tickets.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "golden_ticket_seeds" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "ticket_id" INTEGER NOT NULL REFERENCES "golden_tickets"("id"),
+        "seed_hash" TEXT NOT NULL,
+        "server_seed" TEXT NOT NULL,
+        "draw_count" INTEGER NOT NULL DEFAULT 0,
+        "status" TEXT NOT NULL DEFAULT 'active',
+        "committed_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "revealed_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "golden_ticket_seeds_active_idx" ON "golden_ticket_seeds" ("ticket_id") WHERE status = 'active';
+    `);
+    console.log("Created golden_ticket_seeds table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "golden_ticket_draws" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "ticket_id" INTEGER NOT NULL REFERENCES "golden_tickets"("id"),
+        "seed_id" INTEGER NOT NULL REFERENCES "golden_ticket_seeds"("id"),
+        "nonce" INTEGER NOT NULL,
+        "user_id" INTEGER NOT NULL REFERENCES "users"("id"),
+        "player_ref" TEXT NOT NULL,
+        "roll" INTEGER NOT NULL,
+        "threshold" INTEGER NOT NULL,
+        "outcome" TEXT NOT NULL,
+        "device_hash" TEXT,
+        "ip_hash" TEXT,
+        "page" TEXT,
+        "drawn_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "golden_ticket_draws_seed_nonce_idx" ON "golden_ticket_draws" ("seed_id", "nonce");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "golden_ticket_draws_user_idx" ON "golden_ticket_draws" ("user_id", "drawn_at");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "golden_ticket_draws_device_idx" ON "golden_ticket_draws" ("device_hash", "drawn_at");
+    `);
+    console.log("Created golden_ticket_draws table.");
+
+    await db.execute(sql`
+      ALTER TABLE "golden_ticket_claims"
+        ADD COLUMN IF NOT EXISTS "draw_id" INTEGER,
+        ADD COLUMN IF NOT EXISTS "device_hash" TEXT,
+        ADD COLUMN IF NOT EXISTS "ip_hash" TEXT,
+        ADD COLUMN IF NOT EXISTS "risk_flags" TEXT[];
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "golden_ticket_claims_draw_idx" ON "golden_ticket_claims" ("draw_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "golden_ticket_claims_ticket_user_idx" ON "golden_ticket_claims" ("ticket_id", "user_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "golden_ticket_claims_ticket_device_idx" ON "golden_ticket_claims" ("ticket_id", "device_hash");
+    `);
+    console.log("Added draw and device details to golden_ticket_claims.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "golden_ticket_audit_events" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "campaign_id" TEXT NOT NULL,
+        "ticket_id" INTEGER NOT NULL REFERENCES "golden_tickets"("id"),
+        "event_type" TEXT NOT NULL,
+        "actor_id" INTEGER,
+        "details" JSONB NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "golden_ticket_audit_events_campaign_idx" ON "golden_ticket_audit_events" ("campaign_id", "created_at");
+    `);
+    console.log("Created golden_ticket_audit_events table.");
+
+    console.log("Golden Ticket Fairness migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Golden Ticket Fairness migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Ledger Migration
+ *
+ * Creates the double-entry ledger tables (accounts, journal entries and
+ * lines, invariant checks), makes journal entries and lines append-only, and
+ * posts the wallet and gift card balances that existed before the ledger as
+ * one opening balance entry against opening balance equity.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateLedger(): Promise<void> {
+  console.log("Starting Ledger migration...");
+
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ledger_accounts" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "code" VARCHAR(60) NOT NULL,
+        "name" VARCHAR(120) NOT NULL,
+        "type" VARCHAR(20) NOT NULL,
+        "owner_user_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "ledger_accounts_code_idx" ON "ledger_accounts" ("code");
+    `);
+    console.log("Created ledger_accounts table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ledger_journal_entries" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "entry_type" VARCHAR(40) NOT NULL,
+        "source_key" VARCHAR(120) NOT NULL,
+        "reference_type" VARCHAR(50),
+        "reference_id" INTEGER,
+        "description" TEXT,
+        "created_by_id" INTEGER,
+        "posted_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "ledger_journal_entries_source_idx" ON "ledger_journal_entries" ("source_key");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "ledger_journal_entries_posted_idx" ON "ledger_journal_entries" ("posted_at");
+    `);
+    console.log("Created ledger_journal_entries table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ledger_journal_lines" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "entry_id" INTEGER NOT NULL,
+        "account_id" INTEGER NOT NULL,
+        "debit_cents" INTEGER NOT NULL DEFAULT 0,
+        "credit_cents" INTEGER NOT NULL DEFAULT 0,
+        "memo" TEXT,
+        CONSTRAINT "ledger_journal_lines_one_side" CHECK (
+          "debit_cents" >= 0 AND "credit_cents" >= 0 AND ("debit_cents" = 0) <> ("credit_cents" = 0)
+        )
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "ledger_journal_lines_entry_idx" ON "ledger_journal_lines" ("entry_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "ledger_journal_lines_account_idx" ON "ledger_journal_lines" ("account_id");
+    `);
+    console.log("Created ledger_journal_lines table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ledger_invariant_checks" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "status" VARCHAR(20) NOT NULL,
+        "wallets_checked" INTEGER NOT NULL DEFAULT 0,
+        "wallet_mismatches" INTEGER NOT NULL DEFAULT 0,
+        "gift_card_difference_cents" INTEGER NOT NULL DEFAULT 0,
+        "unbalanced_entries" INTEGER NOT NULL DEFAULT 0,
+        "details" JSONB,
+        "checked_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "ledger_invariant_checks_checked_idx" ON "ledger_invariant_checks" ("checked_at");
+    `);
+    console.log("Created ledger_invariant_checks table.");
+
+    // Entries are corrected with new entries, never edited
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION ledger_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+    for (const table of ['ledger_journal_entries', 'ledger_journal_lines']) {
+      await db.execute(sql.raw(`DROP TRIGGER IF EXISTS "${table}_no_change" ON "${table}";`));
+      await db.execute(sql.raw(`
+        CREATE TRIGGER "${table}_no_change"
+          BEFORE UPDATE OR DELETE ON "${table}"
+          FOR EACH ROW EXECUTE FUNCTION ledger_append_only();
+      `));
+    }
+    console.log("Made journal entries and lines append-only.");
+
+    await db.execute(sql`
+      INSERT INTO "ledger_accounts" ("code", "name", "type") VALUES
+        ('wise_clearing', 'Wise clearing', 'asset'),
+        ('gift_card_liability', 'Gift card liability', 'liability'),
+        ('platform_revenue', 'Platform revenue', 'revenue'),
+        ('credit_bonus_expense', 'Top-up bonus credits', 'expense'),
+        ('coach_earnings_expense', 'Coach earnings', 'expense'),
+        ('opening_balance_equity', 'Opening balances', 'equity')
+      ON CONFLICT ("code") DO NOTHING;
+    `);
+    await db.execute(sql`
+      INSERT INTO "ledger_accounts" ("code", "name", "type", "owner_user_id")
+      SELECT 'user_wallet:' || a.user_id, 'Wallet of user ' || a.user_id, 'liability', a.user_id
+      FROM digital_credits_accounts a
+      WHERE a.balance <> 0
+      ON CONFLICT ("code") DO NOTHING;
+    `);
+    console.log("Created the chart of accounts.");
+
+    // Wallets and outstanding gift cards are credits; equity takes the other side
+    await db.execute(sql`
+      WITH balances AS (
+        SELECT 'user_wallet:' || a.user_id AS code, a.balance::bigint AS amount
+        FROM digital_credits_accounts a
+        WHERE a.balance <> 0
+        UNION ALL
+        SELECT 'gift_card_liability', COALESCE(SUM(g.remaining_balance), 0)
+        FROM digital_gift_cards g
+        WHERE g.code <> 'PENDING'
+      ),
+      opening AS (
+        SELECT code, amount FROM balances WHERE amount <> 0
+        UNION ALL
+        SELECT 'opening_balance_equity', -SUM(amount) FROM balances HAVING SUM(amount) <> 0
+      ),
+      entry AS (
+        INSERT INTO "ledger_journal_entries" ("entry_type", "source_key", "description")
+        SELECT 'opening_balance', 'opening_balance', 'Wallet and gift card balances before the ledger'
+        WHERE EXISTS (SELECT 1 FROM opening)
+        ON CONFLICT ("source_key") DO NOTHING
+        RETURNING id
+      )
+      INSERT INTO "ledger_journal_lines" ("entry_id", "account_id", "debit_cents", "credit_cents", "memo")
+      SELECT entry.id, acc.id, GREATEST(-o.amount, 0), GREATEST(o.amount, 0), 'Opening balance'
+      FROM entry
+      CROSS JOIN opening o
+      JOIN "ledger_accounts" acc ON acc.code = o.code;
+    `);
+    console.log("Recorded opening balances.");
+
+    console.log("Ledger migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Ledger migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Match Idempotency Migration
+ *
+ * Puts a unique constraint on matches.idempotency_key and backfills keys for
+ * matches recorded before every entry point went through the match ingestion
+ * service. Where older imports stored the same key twice, the earliest match
+ * keeps it.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+import { generateMatchIdempotencyKey } from "../shared/utils/matchIdempotency";
+
+interface UnkeyedMatchRow {
+  id: number;
+  serial: string | null;
+  match_date: string | Date | null;
+  created_at: string | Date | null;
+  score_player_one: string;
+  score_player_two: string;
+  player_one: string;
+  player_one_partner: string | null;
+  player_two: string;
+  player_two_partner: string | null;
+}
+
+/**
+ * Main migration function
+ */
+export async function migrateMatchIdempotency(): Promise<void> {
+  console.log("Starting Match Idempotency migration...");
+
+  try {
+    const cleared = await db.execute(sql`
+      UPDATE "matches" m
+      SET "idempotency_key" = NULL
+      WHERE "idempotency_key" IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM "matches" earlier
+          WHERE earlier."idempotency_key" = m."idempotency_key"
+            AND earlier."id" < m."id"
+        )
+    `);
+    console.log(`Cleared ${cleared.rowCount ?? 0} repeated idempotency keys`);
+
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "matches_idempotency_key_unique"
+      ON "matches" ("idempotency_key")
+    `);
+    console.log("Created matches_idempotency_key_unique index");
+
+    // Players are keyed by passport code as normalizeMatchPassportCode writes it, or by user ID without one
+    const identity = (column: string) => sql.raw(`
+      COALESCE(NULLIF(regexp_replace(regexp_replace(upper(trim(${column}.passport_code)), '^PKL-', ''), '[^A-Z0-9]', '', 'g'), ''), 'U' || ${column}.id)
+    `);
+
+    const unkeyed = await db.execute(sql`
+      SELECT m."id", m."serial", m."match_date", m."created_at", m."score_player_one", m."score_player_two",
+        ${identity('p1')} AS player_one,
+        CASE WHEN p1p.id IS NULL THEN NULL ELSE ${identity('p1p')} END AS player_one_partner,
+        ${identity('p2')} AS player_two,
+        CASE WHEN p2p.id IS NULL THEN NULL ELSE ${identity('p2p')} END AS player_two_partner
+      FROM "matches" m
+      JOIN "users" p1 ON p1.id = m."player_one_id"
+      JOIN "users" p2 ON p2.id = m."player_two_id"
+      LEFT JOIN "users" p1p ON p1p.id = m."player_one_partner_id"
+      LEFT JOIN "users" p2p ON p2p.id = m."player_two_partner_id"
+      WHERE m."idempotency_key" IS NULL
+      ORDER BY m."id"
+    `);
+
+    let backfilled = 0;
+    let skipped = 0;
+
+    for (const row of unkeyed.rows as unknown as UnkeyedMatchRow[]) {
+      const matchDate = row.match_date || row.created_at;
+      if (!matchDate) {
+        skipped++;
+        continue;
+      }
+
+      const scheduled = row.score_player_one === 'pending' || row.score_player_two === 'pending';
+      const key = generateMatchIdempotencyKey({
+        team1: [row.player_one, row.player_one_partner].filter((code): code is string => !!code),
+        team2: [row.player_two, row.player_two_partner].filter((code): code is string => !!code),
+        team1Score: scheduled ? null : row.score_player_one,
+        team2Score: scheduled ? null : row.score_player_two,
+        matchDate,
+        sourceReference: row.serial ? `serial:${row.serial}` : null
+      });
+
+      // A match that repeats an earlier one stays unkeyed
+      const updated = await db.execute(sql`
+        UPDATE "matches" SET "idempotency_key" = ${key}
+        WHERE "id" = ${row.id}
+          AND NOT EXISTS (SELECT 1 FROM "matches" WHERE "idempotency_key" = ${key})
+      `);
+
+      if (updated.rowCount) {
+        backfilled++;
+      } else {
+        skipped++;
+      }
+    }
+
+    console.log(`Backfilled ${backfilled} idempotency keys, ${skipped} matches left unkeyed`);
+    console.log("Match Idempotency migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Match Idempotency migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Match Predictions Migration
+ * 
+ * Creates the match_predictions table holding the win probability, expected
+ * scoreline and suggested handicap shown before a match, and the actual
+ * result once the match is recorded.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateMatchPredictions(): Promise<void> {
+  console.log("Starting Match Predictions migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "match_predictions" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "context" VARCHAR(20) NOT NULL,
+        "context_id" INTEGER,
+        "format" VARCHAR(20) NOT NULL,
+        "team1_player_ids" JSONB NOT NULL,
+        "team2_player_ids" JSONB NOT NULL,
+        "team1_rating" DECIMAL(8, 2) NOT NULL,
+        "team1_deviation" DECIMAL(8, 2) NOT NULL,
+        "team2_rating" DECIMAL(8, 2) NOT NULL,
+        "team2_deviation" DECIMAL(8, 2) NOT NULL,
+        "points_to_win" INTEGER NOT NULL,
+        "win_by_two" BOOLEAN NOT NULL,
+        "games_to_win" INTEGER NOT NULL,
+        "team1_win_probability" DECIMAL(6, 4) NOT NULL,
+        "expected_team1_points" DECIMAL(5, 2) NOT NULL,
+        "expected_team2_points" DECIMAL(5, 2) NOT NULL,
+        "handicap_team" INTEGER,
+        "handicap_points" INTEGER NOT NULL DEFAULT 0,
+        "match_id" INTEGER,
+        "team1_won" BOOLEAN,
+        "resolved_at" TIMESTAMP,
+        "created_by_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "match_predictions_context_idx"
+        ON "match_predictions" ("context", "context_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "match_predictions_match_idx"
+        ON "match_predictions" ("match_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "match_predictions_unresolved_idx"
+        ON "match_predictions" ("format", "resolved_at", "created_at");
+    `);
+    console.log("Created match_predictions table.");
+    
+    console.log("Match Predictions migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Match Predictions migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Multi-Currency Migration
+ *
+ * Creates the per-currency wallet balances, exchange rate sources, fallback
+ * rates and rate snapshots tables, adds the native currency columns to
+ * digital credits transactions, and seeds the fallback table with the rates
+ * the currency service used to hardcode.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateMultiCurrency(): Promise<void> {
+  console.log("Starting Multi-Currency migration...");
+
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "wallet_currency_balances" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "user_id" INTEGER NOT NULL,
+        "currency" VARCHAR(3) NOT NULL,
+        "balance_minor" INTEGER NOT NULL DEFAULT 0,
+        "usd_cents" INTEGER NOT NULL DEFAULT 0,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "wallet_currency_balances_user_currency_idx" ON "wallet_currency_balances" ("user_id", "currency");
+    `);
+    console.log("Created wallet_currency_balances table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "fx_rate_sources" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "kind" VARCHAR(20) NOT NULL,
+        "url" TEXT,
+        "rates_path" VARCHAR(100) DEFAULT 'rates',
+        "manual_rates" JSONB,
+        "priority" INTEGER NOT NULL DEFAULT 100,
+        "enabled" BOOLEAN NOT NULL DEFAULT TRUE,
+        "last_fetched_at" TIMESTAMP,
+        "last_error" TEXT,
+        "created_by_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "fx_rate_sources_name_idx" ON "fx_rate_sources" ("name");
+    `);
+    console.log("Created fx_rate_sources table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "fx_fallback_rates" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "base_currency" VARCHAR(3) NOT NULL,
+        "quote_currency" VARCHAR(3) NOT NULL,
+        "rate" DECIMAL(18, 8) NOT NULL,
+        "updated_by_id" INTEGER,
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "fx_fallback_rates_pair_idx" ON "fx_fallback_rates" ("base_currency", "quote_currency");
+    `);
+    console.log("Created fx_fallback_rates table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "fx_rate_snapshots" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "base_currency" VARCHAR(3) NOT NULL,
+        "quote_currency" VARCHAR(3) NOT NULL,
+        "rate" DECIMAL(18, 8) NOT NULL,
+        "source" VARCHAR(100) NOT NULL,
+        "source_kind" VARCHAR(20) NOT NULL,
+        "rate_fetched_at" TIMESTAMP NOT NULL,
+        "purpose" VARCHAR(40) NOT NULL,
+        "user_id" INTEGER,
+        "amount_minor" INTEGER NOT NULL,
+        "converted_minor" INTEGER NOT NULL,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "fx_rate_snapshots_user_idx" ON "fx_rate_snapshots" ("user_id", "created_at");
+    `);
+    console.log("Created fx_rate_snapshots table.");
+
+    await db.execute(sql`
+      ALTER TABLE "digital_credits_transactions"
+        ADD COLUMN IF NOT EXISTS "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+        ADD COLUMN IF NOT EXISTS "native_amount" INTEGER,
+        ADD COLUMN IF NOT EXISTS "fx_snapshot_id" INTEGER;
+    `);
+    console.log("Added currency columns to digital_credits_transactions.");
+
+    await db.execute(sql`
+      INSERT INTO "fx_fallback_rates" ("base_currency", "quote_currency", "rate") VALUES
+        ('USD', 'SGD', 1.35), ('USD', 'AUD', 1.55), ('USD', 'MYR', 4.70), ('USD', 'CNY', 7.25),
+        ('SGD', 'USD', 0.74), ('SGD', 'AUD', 1.15), ('SGD', 'MYR', 3.48), ('SGD', 'CNY', 5.37),
+        ('AUD', 'USD', 0.65), ('AUD', 'SGD', 0.87), ('AUD', 'MYR', 3.03), ('AUD', 'CNY', 4.68),
+        ('MYR', 'USD', 0.21), ('MYR', 'SGD', 0.29), ('MYR', 'AUD', 0.33), ('MYR', 'CNY', 1.54),
+        ('CNY', 'USD', 0.14), ('CNY', 'SGD', 0.19), ('CNY', 'AUD', 0.21), ('CNY', 'MYR', 0.65)
+      ON CONFLICT ("base_currency", "quote_currency") DO NOTHING;
+    `);
+    console.log("Seeded fallback rates.");
+
+    console.log("Multi-Currency migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Multi-Currency migration:", error);
+    throw error;
+  }
+}
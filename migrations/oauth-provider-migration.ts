@@ -0,0 +1,41 @@
+/**
+ * OAuth Provider Migration
+ *
+ * Links OAuth clients to the developer portal application their API calls
+ * count against, and indexes tokens by grant so revoking a player's
+ * authorization or a client stays quick.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateOAuthProvider(): Promise<void> {
+  console.log("Starting OAuth Provider migration...");
+
+  try {
+    await db.execute(sql`
+      ALTER TABLE "oauth_clients"
+        ADD COLUMN IF NOT EXISTS "application_id" INTEGER REFERENCES "api_applications"("id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "oauth_clients_application_idx" ON "oauth_clients" ("application_id");
+    `);
+    console.log("Added application_id to oauth_clients.");
+
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "oauth_access_tokens_grant_idx" ON "oauth_access_tokens" ("user_id", "client_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "oauth_refresh_tokens_access_token_idx" ON "oauth_refresh_tokens" ("access_token_id");
+    `);
+    console.log("Created OAuth token grant indexes.");
+
+    console.log("OAuth Provider migration completed successfully.");
+  } catch (error) {
+    console.error("Error during OAuth Provider migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Payout Batch Migration
+ * 
+ * Adds the payout_statement_items table holding the sessions and
+ * adjustments behind each coach payout, for statements.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migratePayoutBatches(): Promise<void> {
+  console.log("Starting Payout Batch migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "payout_statement_items" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "payout_id" INTEGER NOT NULL,
+        "kind" VARCHAR(20) NOT NULL,
+        "reference_id" INTEGER NOT NULL,
+        "item_date" TIMESTAMP,
+        "description" TEXT NOT NULL,
+        "gross_amount" DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        "commission_rate" DECIMAL(5, 2),
+        "platform_fee" DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        "net_amount" DECIMAL(10, 2) NOT NULL,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "payout_statement_items_payout_idx"
+        ON "payout_statement_items" ("payout_id");
+    `);
+    console.log("Created payout_statement_items table.");
+    
+    console.log("Payout Batch migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Payout Batch migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Points Ledger Migration
+ * 
+ * Creates the append-only points_ledger_entries table and records each
+ * player's current ranking and Pickle Points totals as opening balances,
+ * so balances reconstructed from the ledger match the stored totals.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migratePointsLedger(): Promise<void> {
+  console.log("Starting Points Ledger migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "points_ledger_entries" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "user_id" INTEGER NOT NULL,
+        "currency" VARCHAR(20) NOT NULL,
+        "entry_type" VARCHAR(30) NOT NULL,
+        "amount" DECIMAL(12, 2) NOT NULL,
+        "division" VARCHAR(50),
+        "source_type" VARCHAR(50),
+        "source_id" INTEGER,
+        "ruleset_version" INTEGER,
+        "multipliers" JSONB,
+        "calculation_details" TEXT,
+        "reason" TEXT,
+        "metadata" JSONB,
+        "created_by_id" INTEGER,
+        "occurred_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log("Created points_ledger_entries table.");
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "points_ledger_entries_user_idx"
+        ON "points_ledger_entries" ("user_id", "currency", "occurred_at");
+    `);
+    console.log("Indexed points_ledger_entries by user.");
+    
+    // Entries are corrected with new entries, never edited
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION points_ledger_entries_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'points_ledger_entries is append-only';
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+    await db.execute(sql`
+      DROP TRIGGER IF EXISTS "points_ledger_entries_no_change" ON "points_ledger_entries";
+    `);
+    await db.execute(sql`
+      CREATE TRIGGER "points_ledger_entries_no_change"
+        BEFORE UPDATE OR DELETE ON "points_ledger_entries"
+        FOR EACH ROW EXECUTE FUNCTION points_ledger_entries_append_only();
+    `);
+    console.log("Made points_ledger_entries append-only.");
+    
+    await db.execute(sql`
+      INSERT INTO "points_ledger_entries" ("user_id", "currency", "entry_type", "amount", "source_type", "reason")
+      SELECT u.id, 'ranking', 'opening_balance', COALESCE(u.ranking_points, 0), 'migration', 'Ranking points before the ledger'
+      FROM users u
+      WHERE COALESCE(u.ranking_points, 0) <> 0
+        AND NOT EXISTS (
+          SELECT 1 FROM "points_ledger_entries" e
+          WHERE e.user_id = u.id AND e.currency = 'ranking' AND e.entry_type = 'opening_balance'
+        );
+    `);
+    await db.execute(sql`
+      INSERT INTO "points_ledger_entries" ("user_id", "currency", "entry_type", "amount", "source_type", "reason")
+      SELECT u.id, 'pickle', 'opening_balance', COALESCE(u.pickle_points, 0), 'migration', 'Pickle Points before the ledger'
+      FROM users u
+      WHERE COALESCE(u.pickle_points, 0) <> 0
+        AND NOT EXISTS (
+          SELECT 1 FROM "points_ledger_entries" e
+          WHERE e.user_id = u.id AND e.currency = 'pickle' AND e.entry_type = 'opening_balance'
+        );
+    `);
+    console.log("Recorded opening balances.");
+    
+    console.log("Points Ledger migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Points Ledger migration:", error);
+    throw error;
+  }
+}
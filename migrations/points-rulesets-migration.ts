@@ -0,0 +1,48 @@
+/**
+ * Points Rulesets Migration
+ * 
+ * Creates the points_rulesets table for versioned ranking points rules and
+ * records which ruleset version awarded each match's points.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migratePointsRulesets(): Promise<void> {
+  console.log("Starting Points Rulesets migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "points_rulesets" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "version" INTEGER NOT NULL UNIQUE,
+        "name" VARCHAR(100) NOT NULL,
+        "status" VARCHAR(20) NOT NULL DEFAULT 'draft',
+        "rules" JSONB NOT NULL,
+        "effective_from" TIMESTAMP,
+        "effective_to" TIMESTAMP,
+        "notes" TEXT,
+        "created_by_id" INTEGER,
+        "activated_by_id" INTEGER,
+        "activated_at" TIMESTAMP,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log("Created points_rulesets table.");
+    
+    await db.execute(sql`
+      ALTER TABLE "matches"
+        ADD COLUMN IF NOT EXISTS "points_ruleset_version" INTEGER;
+    `);
+    console.log("Added points_ruleset_version to matches.");
+    
+    console.log("Points Rulesets migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Points Rulesets migration:", error);
+    throw error;
+  }
+}
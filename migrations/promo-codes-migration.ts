@@ -0,0 +1,101 @@
+/**
+ * Promo Codes Migration
+ *
+ * Creates the promo campaign, promo code and promo redemption tables. Each
+ * booking, class enrollment or tournament entry can carry one redemption.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migratePromoCodes(): Promise<void> {
+  console.log("Starting Promo Codes migration...");
+
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "promo_campaigns" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "name" VARCHAR(120) NOT NULL,
+        "description" TEXT,
+        "sponsor_id" INTEGER,
+        "status" VARCHAR(20) NOT NULL DEFAULT 'active',
+        "discount_type" VARCHAR(20) NOT NULL,
+        "discount_value" INTEGER NOT NULL DEFAULT 0,
+        "max_discount_cents" INTEGER,
+        "applies_to" VARCHAR(30) NOT NULL DEFAULT 'any',
+        "first_booking_only" BOOLEAN NOT NULL DEFAULT FALSE,
+        "coach_ids" JSONB,
+        "tournament_ids" JSONB,
+        "starts_at" TIMESTAMP,
+        "ends_at" TIMESTAMP,
+        "min_amount_cents" INTEGER NOT NULL DEFAULT 0,
+        "stacks_with_credits" BOOLEAN NOT NULL DEFAULT TRUE,
+        "stacks_with_gift_cards" BOOLEAN NOT NULL DEFAULT FALSE,
+        "created_by_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "promo_campaigns_sponsor_idx" ON "promo_campaigns" ("sponsor_id");
+    `);
+    console.log("Created promo_campaigns table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "promo_codes" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "campaign_id" INTEGER NOT NULL,
+        "code" VARCHAR(40) NOT NULL,
+        "usage" VARCHAR(20) NOT NULL DEFAULT 'multi_use',
+        "max_redemptions" INTEGER,
+        "per_user_limit" INTEGER NOT NULL DEFAULT 1,
+        "redemption_count" INTEGER NOT NULL DEFAULT 0,
+        "active" BOOLEAN NOT NULL DEFAULT TRUE,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "promo_codes_code_idx" ON "promo_codes" ("code");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "promo_codes_campaign_idx" ON "promo_codes" ("campaign_id");
+    `);
+    console.log("Created promo_codes table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "promo_redemptions" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "code_id" INTEGER NOT NULL,
+        "campaign_id" INTEGER NOT NULL,
+        "user_id" INTEGER NOT NULL,
+        "target_type" VARCHAR(30) NOT NULL,
+        "target_id" INTEGER NOT NULL,
+        "payment_method" VARCHAR(20) NOT NULL,
+        "original_amount_cents" INTEGER NOT NULL,
+        "discount_cents" INTEGER NOT NULL,
+        "final_amount_cents" INTEGER NOT NULL,
+        "status" VARCHAR(20) NOT NULL DEFAULT 'applied',
+        "redeemed_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "reversed_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "promo_redemptions_target_idx" ON "promo_redemptions" ("target_type", "target_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "promo_redemptions_code_user_idx" ON "promo_redemptions" ("code_id", "user_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "promo_redemptions_campaign_idx" ON "promo_redemptions" ("campaign_id", "redeemed_at");
+    `);
+    console.log("Created promo_redemptions table.");
+
+    console.log("Promo Codes migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Promo Codes migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Ranking Replay Migration
+ * 
+ * Creates the ranking_replay_runs table that records each replay of the
+ * match history and its diff report, and indexes ranking transactions by
+ * source so recorded decay can be loaded for replay.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateRankingReplay(): Promise<void> {
+  console.log("Starting Ranking Replay migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ranking_replay_runs" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "mode" VARCHAR(20) NOT NULL DEFAULT 'preview',
+        "status" VARCHAR(20) NOT NULL DEFAULT 'completed',
+        "matches_replayed" INTEGER NOT NULL DEFAULT 0,
+        "decay_events_replayed" INTEGER NOT NULL DEFAULT 0,
+        "users_checked" INTEGER NOT NULL DEFAULT 0,
+        "users_with_differences" INTEGER NOT NULL DEFAULT 0,
+        "ruleset_versions" JSONB,
+        "fields" JSONB,
+        "report" JSONB,
+        "initiated_by_id" INTEGER,
+        "applied_at" TIMESTAMP,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    console.log("Created ranking_replay_runs table.");
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "ranking_transactions_source_idx"
+        ON "ranking_transactions" ("source");
+    `);
+    console.log("Indexed ranking_transactions by source.");
+    
+    console.log("Ranking Replay migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Ranking Replay migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Skill Ratings Migration
+ * 
+ * Creates the player_skill_ratings table holding each player's Glicko-2
+ * rating, deviation and volatility per format, and the skill_rating_history
+ * table recording every per-match change. Run the admin backfill afterwards
+ * to rate existing matches.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateSkillRatings(): Promise<void> {
+  console.log("Starting Skill Ratings migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "player_skill_ratings" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "user_id" INTEGER NOT NULL,
+        "format" VARCHAR(20) NOT NULL,
+        "rating" DECIMAL(8, 2) NOT NULL DEFAULT 1500,
+        "deviation" DECIMAL(8, 2) NOT NULL DEFAULT 350,
+        "volatility" DECIMAL(10, 8) NOT NULL DEFAULT 0.06,
+        "matches_played" INTEGER NOT NULL DEFAULT 0,
+        "wins" INTEGER NOT NULL DEFAULT 0,
+        "losses" INTEGER NOT NULL DEFAULT 0,
+        "last_match_id" INTEGER,
+        "last_match_at" TIMESTAMP,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "player_skill_ratings_user_format_unique"
+        ON "player_skill_ratings" ("user_id", "format");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "player_skill_ratings_format_rating_idx"
+        ON "player_skill_ratings" ("format", "rating");
+    `);
+    console.log("Created player_skill_ratings table.");
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "skill_rating_history" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "user_id" INTEGER NOT NULL,
+        "match_id" INTEGER NOT NULL,
+        "format" VARCHAR(20) NOT NULL,
+        "rating_before" DECIMAL(8, 2) NOT NULL,
+        "rating_after" DECIMAL(8, 2) NOT NULL,
+        "deviation_before" DECIMAL(8, 2) NOT NULL,
+        "deviation_after" DECIMAL(8, 2) NOT NULL,
+        "volatility_after" DECIMAL(10, 8) NOT NULL,
+        "expected_score" DECIMAL(6, 4) NOT NULL,
+        "actual_score" DECIMAL(6, 4) NOT NULL,
+        "played_at" TIMESTAMP NOT NULL,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "skill_rating_history_user_match_unique"
+        ON "skill_rating_history" ("user_id", "match_id");
+    `);
+    console.log("Created skill_rating_history table.");
+    
+    console.log("Skill Ratings migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Skill Ratings migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Sponsor Portal Migration
+ *
+ * Creates the sponsor member table that gives users portal access for a
+ * sponsor, and adds the approval fields sponsor-drafted golden tickets go
+ * through. Existing tickets were created by admins and count as approved.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateSponsorPortal(): Promise<void> {
+  console.log("Starting Sponsor Portal migration...");
+
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "sponsor_members" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "sponsor_id" INTEGER NOT NULL REFERENCES "sponsors"("id"),
+        "user_id" INTEGER NOT NULL REFERENCES "users"("id"),
+        "role" TEXT NOT NULL DEFAULT 'manager',
+        "active" BOOLEAN NOT NULL DEFAULT TRUE,
+        "added_by_id" INTEGER,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "sponsor_members_sponsor_user_idx" ON "sponsor_members" ("sponsor_id", "user_id");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "sponsor_members_user_idx" ON "sponsor_members" ("user_id");
+    `);
+    console.log("Created sponsor_members table.");
+
+    await db.execute(sql`
+      ALTER TABLE "golden_tickets"
+        ADD COLUMN IF NOT EXISTS "approval_status" TEXT NOT NULL DEFAULT 'approved',
+        ADD COLUMN IF NOT EXISTS "submitted_by_id" INTEGER,
+        ADD COLUMN IF NOT EXISTS "submitted_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "reviewed_by_id" INTEGER,
+        ADD COLUMN IF NOT EXISTS "reviewed_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "review_notes" TEXT;
+    `);
+    console.log("Added approval fields to golden_tickets.");
+
+    console.log("Sponsor Portal migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Sponsor Portal migration:", error);
+    throw error;
+  }
+}
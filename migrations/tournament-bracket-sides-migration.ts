@@ -0,0 +1,38 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Tournament Bracket Sides Migration
+ * 
+ * Adds the columns needed for double elimination and consolation brackets:
+ * the bracket side of rounds/matches and explicit winner/loser routing slots.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateTournamentBracketSides(): Promise<void> {
+  console.log("Starting Tournament Bracket sides migration...");
+  
+  try {
+    await db.execute(sql`
+      ALTER TABLE "tournament_rounds"
+        ADD COLUMN IF NOT EXISTS "bracket_side" VARCHAR(50) NOT NULL DEFAULT 'winners';
+    `);
+    console.log("Added bracket_side to tournament_rounds.");
+    
+    await db.execute(sql`
+      ALTER TABLE "tournament_bracket_matches"
+        ADD COLUMN IF NOT EXISTS "bracket_side" VARCHAR(50) NOT NULL DEFAULT 'winners',
+        ADD COLUMN IF NOT EXISTS "next_match_slot" INTEGER,
+        ADD COLUMN IF NOT EXISTS "consolation_match_slot" INTEGER;
+    `);
+    console.log("Added bracket_side, next_match_slot and consolation_match_slot to tournament_bracket_matches.");
+    
+    console.log("Tournament Bracket sides migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Tournament Bracket sides migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Tournament Ladders Migration
+ * 
+ * Creates the challenge ladder tables: ladders, player rungs and challenges.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateTournamentLadders(): Promise<void> {
+  console.log("Starting Tournament Ladders migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "tournament_ladders" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "tournament_id" INTEGER NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "max_challenge_rungs" INTEGER NOT NULL DEFAULT 3,
+        "response_window_hours" INTEGER NOT NULL DEFAULT 48,
+        "play_window_days" INTEGER NOT NULL DEFAULT 7,
+        "match_type" VARCHAR(50) NOT NULL DEFAULT 'league',
+        "status" VARCHAR(50) NOT NULL DEFAULT 'active',
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT "tournament_ladders_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "tournaments"("id")
+      );
+    `);
+    console.log("Created tournament_ladders table.");
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ladder_rungs" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "ladder_id" INTEGER NOT NULL,
+        "user_id" INTEGER NOT NULL,
+        "position" INTEGER NOT NULL,
+        "wins" INTEGER NOT NULL DEFAULT 0,
+        "losses" INTEGER NOT NULL DEFAULT 0,
+        "last_match_at" TIMESTAMP,
+        "joined_at" TIMESTAMP DEFAULT NOW(),
+        "status" VARCHAR(50) NOT NULL DEFAULT 'active',
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT "ladder_rungs_ladder_id_fkey" FOREIGN KEY ("ladder_id") REFERENCES "tournament_ladders"("id"),
+        CONSTRAINT "ladder_rungs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      );
+    `);
+    console.log("Created ladder_rungs table.");
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ladder_challenges" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "ladder_id" INTEGER NOT NULL,
+        "challenger_id" INTEGER NOT NULL,
+        "defender_id" INTEGER NOT NULL,
+        "challenger_position" INTEGER NOT NULL,
+        "defender_position" INTEGER NOT NULL,
+        "status" VARCHAR(50) NOT NULL DEFAULT 'pending',
+        "respond_by" TIMESTAMP NOT NULL,
+        "play_by" TIMESTAMP,
+        "accepted_at" TIMESTAMP,
+        "completed_at" TIMESTAMP,
+        "winner_id" INTEGER,
+        "score" VARCHAR(100),
+        "reported_by_id" INTEGER,
+        "reported_at" TIMESTAMP,
+        "match_id" INTEGER,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT "ladder_challenges_ladder_id_fkey" FOREIGN KEY ("ladder_id") REFERENCES "tournament_ladders"("id"),
+        CONSTRAINT "ladder_challenges_challenger_id_fkey" FOREIGN KEY ("challenger_id") REFERENCES "users"("id"),
+        CONSTRAINT "ladder_challenges_defender_id_fkey" FOREIGN KEY ("defender_id") REFERENCES "users"("id"),
+        CONSTRAINT "ladder_challenges_winner_id_fkey" FOREIGN KEY ("winner_id") REFERENCES "users"("id"),
+        CONSTRAINT "ladder_challenges_reported_by_id_fkey" FOREIGN KEY ("reported_by_id") REFERENCES "users"("id"),
+        CONSTRAINT "ladder_challenges_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "matches"("id")
+      );
+    `);
+    console.log("Created ladder_challenges table.");
+
+    // Tables created before reported results needed the opponent to confirm
+    await db.execute(sql`
+      ALTER TABLE "ladder_challenges"
+        ADD COLUMN IF NOT EXISTS "reported_by_id" INTEGER REFERENCES "users"("id"),
+        ADD COLUMN IF NOT EXISTS "reported_at" TIMESTAMP;
+    `);
+    
+    console.log("Tournament Ladders migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Tournament Ladders migration:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Tournament Pools Migration
+ * 
+ * Creates the tournament_pools table for round robin pool play and links
+ * pool matches to their pool.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateTournamentPools(): Promise<void> {
+  console.log("Starting Tournament Pools migration...");
+  
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "tournament_pools" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "bracket_id" INTEGER NOT NULL,
+        "pool_number" INTEGER NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "team_ids" JSON NOT NULL,
+        "advance_count" INTEGER NOT NULL DEFAULT 2,
+        "status" VARCHAR(50) NOT NULL DEFAULT 'active',
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "updated_at" TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT "tournament_pools_bracket_id_fkey" FOREIGN KEY ("bracket_id") REFERENCES "tournament_brackets"("id")
+      );
+    `);
+    console.log("Created tournament_pools table.");
+    
+    await db.execute(sql`
+      ALTER TABLE "tournament_bracket_matches"
+        ADD COLUMN IF NOT EXISTS "pool_id" INTEGER REFERENCES "tournament_pools"("id");
+    `);
+    console.log("Added pool_id to tournament_bracket_matches.");
+    
+    console.log("Tournament Pools migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Tournament Pools migration:", error);
+    throw error;
+  }
+}
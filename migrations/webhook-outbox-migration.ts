@@ -0,0 +1,86 @@
+/**
+ * Webhook Outbox Migration
+ *
+ * Creates the outbox that webhook events are written to alongside the domain
+ * change they describe, the per-endpoint delivery queue the worker retries
+ * from, and adds failure tracking to webhooks and attempt details to the
+ * delivery log.
+ */
+
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+
+/**
+ * Main migration function
+ */
+export async function migrateWebhookOutbox(): Promise<void> {
+  console.log("Starting Webhook Outbox migration...");
+
+  try {
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_webhook_outbox" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "event_id" VARCHAR(64) NOT NULL UNIQUE,
+        "event_type" VARCHAR(50) NOT NULL,
+        "application_id" INTEGER REFERENCES "api_applications"("id"),
+        "payload" JSONB NOT NULL,
+        "dispatched_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "api_webhook_outbox_undispatched_idx" ON "api_webhook_outbox" ("id") WHERE "dispatched_at" IS NULL;
+    `);
+    console.log("Created api_webhook_outbox table.");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_webhook_deliveries" (
+        "id" SERIAL PRIMARY KEY NOT NULL,
+        "outbox_id" INTEGER NOT NULL REFERENCES "api_webhook_outbox"("id"),
+        "webhook_id" INTEGER NOT NULL REFERENCES "api_webhooks"("id") ON DELETE CASCADE,
+        "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+        "attempt_count" INTEGER NOT NULL DEFAULT 0,
+        "next_attempt_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "locked_until" TIMESTAMP,
+        "last_attempt_at" TIMESTAMP,
+        "last_status_code" INTEGER,
+        "last_error" TEXT,
+        "dead_reason" TEXT,
+        "redelivery_of" INTEGER,
+        "requested_by_id" INTEGER REFERENCES "users"("id"),
+        "completed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "api_webhook_deliveries_queue_idx" ON "api_webhook_deliveries" ("webhook_id", "outbox_id", "id") WHERE "status" IN ('pending', 'retrying');
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "api_webhook_deliveries_outbox_webhook_idx" ON "api_webhook_deliveries" ("outbox_id", "webhook_id") WHERE "redelivery_of" IS NULL;
+    `);
+    console.log("Created api_webhook_deliveries table.");
+
+    await db.execute(sql`
+      ALTER TABLE "api_webhooks"
+        ADD COLUMN IF NOT EXISTS "failing_since" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "disabled_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "disabled_reason" TEXT;
+    `);
+    console.log("Added failure tracking to api_webhooks.");
+
+    await db.execute(sql`
+      ALTER TABLE "api_webhook_delivery_logs"
+        ADD COLUMN IF NOT EXISTS "delivery_id" INTEGER REFERENCES "api_webhook_deliveries"("id") ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS "duration_ms" INTEGER;
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "api_webhook_delivery_logs_delivery_idx" ON "api_webhook_delivery_logs" ("delivery_id");
+    `);
+    console.log("Added attempt details to api_webhook_delivery_logs.");
+
+    console.log("Webhook Outbox migration completed successfully.");
+  } catch (error) {
+    console.error("Error during Webhook Outbox migration:", error);
+    throw error;
+  }
+}
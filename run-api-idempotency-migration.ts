@@ -0,0 +1,22 @@
+/**
+ * API Idempotency Migration Runner
+ *
+ * This script creates the table that stores responses to idempotent API writes
+ * Run with: npx tsx run-api-idempotency-migration.ts
+ */
+
+import { migrateApiIdempotency } from "./migrations/api-idempotency-migration";
+
+async function main() {
+  try {
+    console.log("Starting API Idempotency migration...");
+    await migrateApiIdempotency();
+    console.log("API Idempotency migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("API Idempotency migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,22 @@
+/**
+ * API Rate Limit Store Migration Runner
+ *
+ * This script creates the shared rate limit, concurrency and quota tables
+ * Run with: npx tsx run-api-rate-limit-store-migration.ts
+ */
+
+import { migrateApiRateLimitStore } from "./migrations/api-rate-limit-store-migration";
+
+async function main() {
+  try {
+    console.log("Starting API Rate Limit Store migration...");
+    await migrateApiRateLimitStore();
+    console.log("API Rate Limit Store migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("API Rate Limit Store migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
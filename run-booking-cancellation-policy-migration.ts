@@ -0,0 +1,22 @@
+/**
+ * Booking Cancellation Policy Migration Runner
+ * 
+ * This script creates the cancellation policy and booking cancellation tables
+ * Run with: npx tsx run-booking-cancellation-policy-migration.ts
+ */
+
+import { migrateBookingCancellationPolicies } from "./migrations/booking-cancellation-policy-migration";
+
+async function main() {
+  try {
+    console.log("Starting Booking Cancellation Policy migration...");
+    await migrateBookingCancellationPolicies();
+    console.log("Booking Cancellation Policy migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Booking Cancellation Policy migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
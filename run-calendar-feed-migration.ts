@@ -0,0 +1,22 @@
+/**
+ * Calendar Feed Migration Runner
+ * 
+ * This script creates the calendar feed token table
+ * Run with: npx tsx run-calendar-feed-migration.ts
+ */
+
+import { migrateCalendarFeeds } from "./migrations/calendar-feed-migration";
+
+async function main() {
+  try {
+    console.log("Starting Calendar Feed migration...");
+    await migrateCalendarFeeds();
+    console.log("Calendar Feed migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Calendar Feed migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
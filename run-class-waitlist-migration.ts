@@ -0,0 +1,22 @@
+/**
+ * Class Waitlist Migration Runner
+ * 
+ * This script creates the class waitlist offer log table
+ * Run with: npx tsx run-class-waitlist-migration.ts
+ */
+
+import { migrateClassWaitlist } from "./migrations/class-waitlist-migration";
+
+async function main() {
+  try {
+    console.log("Starting Class Waitlist migration...");
+    await migrateClassWaitlist();
+    console.log("Class Waitlist migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Class Waitlist migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
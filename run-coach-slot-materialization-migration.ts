@@ -0,0 +1,22 @@
+/**
+ * Coach Slot Materialization Migration Runner
+ * 
+ * This script creates the coach time off table and booking slot indexes
+ * Run with: npx tsx run-coach-slot-materialization-migration.ts
+ */
+
+import { migrateCoachSlotMaterialization } from "./migrations/coach-slot-materialization-migration";
+
+async function main() {
+  try {
+    console.log("Starting Coach Slot Materialization migration...");
+    await migrateCoachSlotMaterialization();
+    console.log("Coach Slot Materialization migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Coach Slot Materialization migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
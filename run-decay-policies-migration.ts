@@ -0,0 +1,22 @@
+/**
+ * Decay Policies Migration Runner
+ * 
+ * This script creates the decay policy table and the users region column
+ * Run with: npx tsx run-decay-policies-migration.ts
+ */
+
+import { migrateDecayPolicies } from "./migrations/decay-policies-migration";
+
+async function main() {
+  try {
+    console.log("Starting Decay Policies migration...");
+    await migrateDecayPolicies();
+    console.log("Decay Policies migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Decay Policies migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
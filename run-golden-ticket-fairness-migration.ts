@@ -0,0 +1,22 @@
+/**
+ * Golden Ticket Fairness Migration Runner
+ *
+ * This script adds golden ticket claim limits and the seed, draw and audit tables
+ * Run with: npx tsx run-golden-ticket-fairness-migration.ts
+ */
+
+import { migrateGoldenTicketFairness } from "./migrations/golden-ticket-fairness-migration";
+
+async function main() {
+  try {
+    console.log("Starting Golden Ticket Fairness migration...");
+    await migrateGoldenTicketFairness();
+    console.log("Golden Ticket Fairness migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Golden Ticket Fairness migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
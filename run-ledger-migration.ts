@@ -0,0 +1,22 @@
+/**
+ * Ledger Migration Runner
+ * 
+ * This script creates the double-entry ledger tables and opening balances
+ * Run with: npx tsx run-ledger-migration.ts
+ */
+
+import { migrateLedger } from "./migrations/ledger-migration";
+
+async function main() {
+  try {
+    console.log("Starting Ledger migration...");
+    await migrateLedger();
+    console.log("Ledger migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Ledger migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,22 @@
+/**
+ * Match Idempotency Migration Runner
+ *
+ * This script adds the unique match idempotency key constraint and backfills keys
+ * Run with: npx tsx run-match-idempotency-migration.ts
+ */
+
+import { migrateMatchIdempotency } from "./migrations/match-idempotency-migration";
+
+async function main() {
+  try {
+    console.log("Starting Match Idempotency migration...");
+    await migrateMatchIdempotency();
+    console.log("Match Idempotency migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Match Idempotency migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
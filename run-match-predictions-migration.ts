@@ -0,0 +1,22 @@
+/**
+ * Match Predictions Migration Runner
+ * 
+ * This script creates the match predictions table
+ * Run with: npx tsx run-match-predictions-migration.ts
+ */
+
+import { migrateMatchPredictions } from "./migrations/match-predictions-migration";
+
+async function main() {
+  try {
+    console.log("Starting Match Predictions migration...");
+    await migrateMatchPredictions();
+    console.log("Match Predictions migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Match Predictions migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,22 @@
+/**
+ * Multi-Currency Migration Runner
+ * 
+ * This script creates the multi-currency wallet and FX rate tables
+ * Run with: npx tsx run-multi-currency-migration.ts
+ */
+
+import { migrateMultiCurrency } from "./migrations/multi-currency-migration";
+
+async function main() {
+  try {
+    console.log("Starting Multi-Currency migration...");
+    await migrateMultiCurrency();
+    console.log("Multi-Currency migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Multi-Currency migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
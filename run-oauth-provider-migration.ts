@@ -0,0 +1,22 @@
+/**
+ * OAuth Provider Migration Runner
+ *
+ * This script links OAuth clients to developer applications and indexes tokens by grant
+ * Run with: npx tsx run-oauth-provider-migration.ts
+ */
+
+import { migrateOAuthProvider } from "./migrations/oauth-provider-migration";
+
+async function main() {
+  try {
+    console.log("Starting OAuth Provider migration...");
+    await migrateOAuthProvider();
+    console.log("OAuth Provider migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("OAuth Provider migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
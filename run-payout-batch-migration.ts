@@ -0,0 +1,22 @@
+/**
+ * Payout Batch Migration Runner
+ * 
+ * This script creates the payout statement item table
+ * Run with: npx tsx run-payout-batch-migration.ts
+ */
+
+import { migratePayoutBatches } from "./migrations/payout-batch-migration";
+
+async function main() {
+  try {
+    console.log("Starting Payout Batch migration...");
+    await migratePayoutBatches();
+    console.log("Payout Batch migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Payout Batch migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
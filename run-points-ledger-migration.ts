@@ -0,0 +1,22 @@
+/**
+ * Points Ledger Migration Runner
+ * 
+ * This script creates the append-only points ledger table
+ * Run with: npx tsx run-points-ledger-migration.ts
+ */
+
+import { migratePointsLedger } from "./migrations/points-ledger-migration";
+
+async function main() {
+  try {
+    console.log("Starting Points Ledger migration...");
+    await migratePointsLedger();
+    console.log("Points Ledger migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Points Ledger migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,22 @@
+/**
+ * Points Rulesets Migration Runner
+ * 
+ * This script creates the versioned points ruleset table
+ * Run with: npx tsx run-points-rulesets-migration.ts
+ */
+
+import { migratePointsRulesets } from "./migrations/points-rulesets-migration";
+
+async function main() {
+  try {
+    console.log("Starting Points Rulesets migration...");
+    await migratePointsRulesets();
+    console.log("Points Rulesets migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Points Rulesets migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
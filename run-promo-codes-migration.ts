@@ -0,0 +1,22 @@
+/**
+ * Promo Codes Migration Runner
+ * 
+ * This script creates the promo campaign, code and redemption tables
+ * Run with: npx tsx run-promo-codes-migration.ts
+ */
+
+import { migratePromoCodes } from "./migrations/promo-codes-migration";
+
+async function main() {
+  try {
+    console.log("Starting Promo Codes migration...");
+    await migratePromoCodes();
+    console.log("Promo Codes migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Promo Codes migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
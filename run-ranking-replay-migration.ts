@@ -0,0 +1,22 @@
+/**
+ * Ranking Replay Migration Runner
+ * 
+ * This script creates the ranking replay run table
+ * Run with: npx tsx run-ranking-replay-migration.ts
+ */
+
+import { migrateRankingReplay } from "./migrations/ranking-replay-migration";
+
+async function main() {
+  try {
+    console.log("Starting Ranking Replay migration...");
+    await migrateRankingReplay();
+    console.log("Ranking Replay migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Ranking Replay migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
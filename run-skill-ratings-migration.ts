@@ -0,0 +1,22 @@
+/**
+ * Skill Ratings Migration Runner
+ * 
+ * This script creates the skill rating and rating history tables
+ * Run with: npx tsx run-skill-ratings-migration.ts
+ */
+
+import { migrateSkillRatings } from "./migrations/skill-ratings-migration";
+
+async function main() {
+  try {
+    console.log("Starting Skill Ratings migration...");
+    await migrateSkillRatings();
+    console.log("Skill Ratings migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Skill Ratings migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,22 @@
+/**
+ * Sponsor Portal Migration Runner
+ *
+ * This script creates the sponsor member table and golden ticket approval fields
+ * Run with: npx tsx run-sponsor-portal-migration.ts
+ */
+
+import { migrateSponsorPortal } from "./migrations/sponsor-portal-migration";
+
+async function main() {
+  try {
+    console.log("Starting Sponsor Portal migration...");
+    await migrateSponsorPortal();
+    console.log("Sponsor Portal migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Sponsor Portal migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
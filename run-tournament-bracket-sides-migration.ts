@@ -0,0 +1,23 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Tournament Bracket Sides Migration Runner
+ * 
+ * This script adds double elimination / consolation columns to the bracket tables
+ * Run with: npx tsx run-tournament-bracket-sides-migration.ts
+ */
+
+import { migrateTournamentBracketSides } from "./migrations/tournament-bracket-sides-migration";
+
+async function main() {
+  try {
+    console.log("Starting Tournament Bracket sides migration...");
+    await migrateTournamentBracketSides();
+    console.log("Tournament Bracket sides migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Tournament Bracket sides migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
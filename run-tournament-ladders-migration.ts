@@ -0,0 +1,23 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Tournament Ladders Migration Runner
+ * 
+ * This script creates the challenge ladder tables
+ * Run with: npx tsx run-tournament-ladders-migration.ts
+ */
+
+import { migrateTournamentLadders } from "./migrations/tournament-ladders-migration";
+
+async function main() {
+  try {
+    console.log("Starting Tournament Ladders migration...");
+    await migrateTournamentLadders();
+    console.log("Tournament Ladders migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Tournament Ladders migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,23 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Tournament Pools Migration Runner
+ * 
+ * This script creates the round robin pool table
+ * Run with: npx tsx run-tournament-pools-migration.ts
+ */
+
+import { migrateTournamentPools } from "./migrations/tournament-pools-migration";
+
+async function main() {
+  try {
+    console.log("Starting Tournament Pools migration...");
+    await migrateTournamentPools();
+    console.log("Tournament Pools migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Tournament Pools migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,22 @@
+/**
+ * Webhook Outbox Migration Runner
+ *
+ * This script creates the webhook outbox and delivery queue tables
+ * Run with: npx tsx run-webhook-outbox-migration.ts
+ */
+
+import { migrateWebhookOutbox } from "./migrations/webhook-outbox-migration";
+
+async function main() {
+  try {
+    console.log("Starting Webhook Outbox migration...");
+    await migrateWebhookOutbox();
+    console.log("Webhook Outbox migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("Webhook Outbox migration failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
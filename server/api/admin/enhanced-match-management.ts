@@ -4,6 +4,7 @@
 import { Router } from 'express';
 import { eq, desc, asc, and, or, sql } from 'drizzle-orm';
 import { db } from '../../db';
+import { recordPointsLedgerEntries } from '../../services/points-ledger-service';
 import { requireAuth, requireAdmin } from '../../middleware/auth';
 import {
   competitions,
@@ -250,6 +251,17 @@ router.post('/matches/:matchId/complete', requireAuth, requireAdmin, async (req,
           rankingPoints: sql`${users.rankingPoints} + ${result.pointsAwarded}`
         })
         .where(eq(users.id, result.playerId));
+
+      await recordPointsLedgerEntries([{
+        userId: result.playerId,
+        currency: 'ranking',
+        entryType: 'match_award',
+        amount: result.pointsAwarded,
+        sourceType: 'admin_match',
+        sourceId: matchId,
+        reason: 'Admin match completed',
+        createdById: (req.user as any)?.id
+      }]);
     }
     
     res.json({ 
@@ -468,6 +480,17 @@ router.patch('/matches/:matchId/update', requireAuth, requireAdmin, async (req,
           rankingPoints: sql`${users.rankingPoints} - ${result.pointsAwarded}`
         })
         .where(eq(users.id, result.playerId));
+
+      await recordPointsLedgerEntries([{
+        userId: result.playerId,
+        currency: 'ranking',
+        entryType: 'admin_adjustment',
+        amount: -result.pointsAwarded,
+        sourceType: 'admin_match',
+        sourceId: matchId,
+        reason: 'Reversed before match edit',
+        createdById: (req.user as any)?.id
+      }]);
     }
     
     // Update match scores
@@ -550,6 +573,17 @@ router.patch('/matches/:matchId/update', requireAuth, requireAdmin, async (req,
             rankingPoints: sql`${users.rankingPoints} + ${result.pointsAwarded}`
           })
           .where(eq(users.id, result.playerId));
+
+        await recordPointsLedgerEntries([{
+          userId: result.playerId,
+          currency: 'ranking',
+          entryType: 'match_award',
+          amount: result.pointsAwarded,
+          sourceType: 'admin_match',
+          sourceId: matchId,
+          reason: 'Recalculated after match edit',
+          createdById: (req.user as any)?.id
+        }]);
       }
     }
     
@@ -602,6 +636,17 @@ router.delete('/matches/:matchId', requireAuth, requireAdmin, async (req, res) =
           rankingPoints: sql`${users.rankingPoints} - ${result.pointsAwarded}`
         })
         .where(eq(users.id, result.playerId));
+
+      await recordPointsLedgerEntries([{
+        userId: result.playerId,
+        currency: 'ranking',
+        entryType: 'admin_adjustment',
+        amount: -result.pointsAwarded,
+        sourceType: 'admin_match',
+        sourceId: matchId,
+        reason: 'Reversed on match deletion',
+        createdById: (req.user as any)?.id
+      }]);
       
       console.log(`[Admin] Reversed ${result.pointsAwarded} points for player ${result.playerId}`);
     }
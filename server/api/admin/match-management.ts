@@ -4,6 +4,7 @@
 import { Router } from 'express';
 import { eq, desc, asc, and, or, sql } from 'drizzle-orm';
 import { db } from '../../db';
+import { recordPointsLedgerEntries } from '../../services/points-ledger-service';
 import { requireAuth, requireAdmin } from '../../middleware/auth';
 import { users } from '../../../shared/schema';
 import multer from 'multer';
@@ -21,6 +22,27 @@ import {
 
 const router = Router();
 
+/**
+ * Add ranking points for an admin-managed match and record them in the points ledger
+ */
+async function awardRankingPoints(userId: number, points: number, matchId: number, allocatedById?: number) {
+  await db.update(users)
+    .set({
+      rankingPoints: sql`${users.rankingPoints} + ${points}`
+    })
+    .where(eq(users.id, userId));
+
+  await recordPointsLedgerEntries([{
+    userId,
+    currency: 'ranking',
+    entryType: 'match_award',
+    amount: points,
+    sourceType: 'admin_match',
+    sourceId: matchId,
+    createdById: allocatedById
+  }]);
+}
+
 // Configure multer for file uploads
 const storage = multer.memoryStorage();
 const upload = multer({
@@ -403,28 +425,16 @@ router.patch('/matches/:id/scores', requireAuth, requireAdmin, async (req, res)
         const finalLoserId = updatedMatch.player1Id === finalWinnerId ? updatedMatch.player2Id : updatedMatch.player1Id;
 
         if (finalWinnerId) {
-          await db.update(users)
-            .set({
-              rankingPoints: sql`${users.rankingPoints} + ${winnerPoints}`
-            })
-            .where(eq(users.id, finalWinnerId));
+          await awardRankingPoints(finalWinnerId, winnerPoints, matchId, req.user!.id);
         }
 
         if (finalLoserId) {
-          await db.update(users)
-            .set({
-              rankingPoints: sql`${users.rankingPoints} + ${loserPoints}`
-            })
-            .where(eq(users.id, finalLoserId));
+          await awardRankingPoints(finalLoserId, loserPoints, matchId, req.user!.id);
         }
 
         // For doubles matches, update both team members
         if (winningTeamPlayer2Id) {
-          await db.update(users)
-            .set({
-              rankingPoints: sql`${users.rankingPoints} + ${winnerPoints}`
-            })
-            .where(eq(users.id, winningTeamPlayer2Id));
+          await awardRankingPoints(winningTeamPlayer2Id, winnerPoints, matchId, req.user!.id);
         }
       }
     }
@@ -505,28 +515,16 @@ router.post('/matches/:id/allocate-points', requireAuth, requireAdmin, async (re
     const loserId = match[0].player1Id === winnerId ? match[0].player2Id : match[0].player1Id;
 
     if (winnerId) {
-      await db.update(users)
-        .set({
-          rankingPoints: sql`${users.rankingPoints} + ${pointsData.winnerPoints}`
-        })
-        .where(eq(users.id, winnerId));
+      await awardRankingPoints(winnerId, pointsData.winnerPoints, matchId, req.user!.id);
     }
 
     if (loserId) {
-      await db.update(users)
-        .set({
-          rankingPoints: sql`${users.rankingPoints} + ${pointsData.loserPoints}`
-        })
-        .where(eq(users.id, loserId));
+      await awardRankingPoints(loserId, pointsData.loserPoints, matchId, req.user!.id);
     }
 
     // For doubles matches, update both team members
     if (match[0].winningTeamPlayer2Id) {
-      await db.update(users)
-        .set({
-          rankingPoints: sql`${users.rankingPoints} + ${pointsData.winnerPoints}`
-        })
-        .where(eq(users.id, match[0].winningTeamPlayer2Id));
+      await awardRankingPoints(match[0].winningTeamPlayer2Id, pointsData.winnerPoints, matchId, req.user!.id);
     }
 
     res.json({
@@ -1038,6 +1036,27 @@ router.post('/bulk-upload', requireAuth, requireAdmin, upload.single('file'), as
             .where(eq(users.id, loserPartner.id));
         }
         
+        const winners = [winner.id];
+        const losers = [loser.id];
+        if (matchData.format === 'doubles' && player1Partner && player2Partner) {
+          winners.push((player1Wins > player2Wins ? player1Partner : player2Partner).id);
+          losers.push((player1Wins > player2Wins ? player2Partner : player1Partner).id);
+        }
+        
+        await recordPointsLedgerEntries([
+          ...winners.map(userId => ({ userId, amount: 3 })),
+          ...losers.map(userId => ({ userId, amount: 1 }))
+        ].map(award => ({
+          ...award,
+          currency: 'ranking' as const,
+          entryType: 'match_award' as const,
+          division: matchData.format,
+          sourceType: 'admin_match',
+          sourceId: insertedMatch[0].id,
+          reason: 'Bulk upload',
+          createdById: req.user!.id
+        })));
+        
         results.processed++;
         
       } catch (error) {
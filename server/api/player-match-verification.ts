@@ -1,7 +1,7 @@
 // Player match verification API for both singles and doubles matches
 import { Router } from 'express';
 import { db } from '../db';
-import { eq, and, or, inArray } from 'drizzle-orm';
+import { eq, and, or, inArray, sql } from 'drizzle-orm';
 import { users } from '@shared/schema';
 import { POINT_ALLOCATION_RULES, calculateAgeGroup } from '@shared/schema/admin-match-management';
 import { 
@@ -13,6 +13,7 @@ import {
   verifyMatchSchema
 } from '@shared/schema/match-verification';
 import { requireAuth } from '../middleware/auth';
+import { recordPointsLedgerEntries } from '../services/points-ledger-service';
 
 const router = Router();
 
@@ -375,46 +376,50 @@ async function allocatePointsForVerifiedMatch(matchId: number) {
         competitionType
       });
 
-    // Update player ranking points
-    if (match.winnerId) {
+    // Update a player's ranking points and record the award in the points ledger
+    const awardRankingPoints = async (userId: number, points: number) => {
       await db.update(users)
         .set({
-          rankingPoints: sql`${users.rankingPoints} + ${winnerPoints}`
+          rankingPoints: sql`${users.rankingPoints} + ${points}`
         })
-        .where(eq(users.id, match.winnerId));
+        .where(eq(users.id, userId));
+
+      await recordPointsLedgerEntries([{
+        userId,
+        currency: 'ranking',
+        entryType: 'match_award',
+        amount: points,
+        division: match.format,
+        sourceType: 'player_match',
+        sourceId: matchId,
+        reason: `${competitionType} player match`
+      }]);
+    };
+
+    // Update player ranking points
+    if (match.winnerId) {
+      await awardRankingPoints(match.winnerId, winnerPoints);
     }
 
     // Update loser points (subtract from their total or add lesser amount)
     const loserId = match.player1Id === match.winnerId ? match.player2Id : match.player1Id;
     if (loserId) {
-      await db.update(users)
-        .set({
-          rankingPoints: sql`${users.rankingPoints} + ${loserPoints}`
-        })
-        .where(eq(users.id, loserId));
+      await awardRankingPoints(loserId, loserPoints);
     }
 
     // For doubles, update all team members
     if (match.format === 'doubles') {
-      const winningTeam = [match.winningTeamPlayer1Id, match.winningTeamPlayer2Id].filter(id => id);
+      const winningTeam = [match.winningTeamPlayer1Id, match.winningTeamPlayer2Id].filter((id): id is number => !!id);
       const losingTeam = playerIds.filter(id => !winningTeam.includes(id));
 
       // Update winning team members
       for (const playerId of winningTeam) {
-        await db.update(users)
-          .set({
-            rankingPoints: sql`${users.rankingPoints} + ${winnerPoints}`
-          })
-          .where(eq(users.id, playerId));
+        await awardRankingPoints(playerId, winnerPoints);
       }
 
       // Update losing team members  
       for (const playerId of losingTeam) {
-        await db.update(users)
-          .set({
-            rankingPoints: sql`${users.rankingPoints} + ${loserPoints}`
-          })
-          .where(eq(users.id, playerId));
+        await awardRankingPoints(playerId, loserPoints);
       }
     }
 
@@ -14,6 +14,7 @@ import {
   type PlayerSkillProfile,
   type IndividualSkillRating
 } from '../../shared/utils/pcpCalculation';
+import { publishDomainEvent } from '../core/events/domain-events';
 
 /**
  * Get player's current skill profile with individual skill ratings
@@ -158,20 +159,32 @@ export async function updateSkillsFromAssessment(req: Request, res: Response) {
     // Calculate updated PCP rating
     const pcpResult = calculatePCPRatingFromProfile(skillProfile);
 
-    // Store PCP assessment result
-    await db.insert(pcpAssessmentResults).values({
-      playerId: parseInt(playerId),
-      coachId: parseInt(coachId),
-      calculatedPcpRating: pcpResult.pcpRating.toString(),
-      rawWeightedScore: pcpResult.rawWeightedScore.toString(),
-      touchAverage: pcpResult.categoryAverages.touch.toString(),
-      technicalAverage: pcpResult.categoryAverages.technical.toString(),
-      mentalAverage: pcpResult.categoryAverages.mental.toString(),
-      athleticAverage: pcpResult.categoryAverages.athletic.toString(),
-      powerAverage: pcpResult.categoryAverages.power.toString(),
-      skillsAssessedCount: skills.length,
-      isCompleteAssessment: pcpResult.isComplete,
-      confidenceScore: pcpResult.confidenceScore.toString()
+    // Store PCP assessment result and announce it together
+    await db.transaction(async (tx) => {
+      const [assessment] = await tx.insert(pcpAssessmentResults).values({
+        playerId: parseInt(playerId),
+        coachId: parseInt(coachId),
+        calculatedPcpRating: pcpResult.pcpRating.toString(),
+        rawWeightedScore: pcpResult.rawWeightedScore.toString(),
+        touchAverage: pcpResult.categoryAverages.touch.toString(),
+        technicalAverage: pcpResult.categoryAverages.technical.toString(),
+        mentalAverage: pcpResult.categoryAverages.mental.toString(),
+        athleticAverage: pcpResult.categoryAverages.athletic.toString(),
+        powerAverage: pcpResult.categoryAverages.power.toString(),
+        skillsAssessedCount: skills.length,
+        isCompleteAssessment: pcpResult.isComplete,
+        confidenceScore: pcpResult.confidenceScore.toString()
+      }).returning();
+
+      await publishDomainEvent(tx, 'assessment.completed', {
+        player_user_id: parseInt(playerId),
+        coach_id: parseInt(coachId),
+        assessment_type: assessmentType,
+        skills_assessed: skills.length,
+        complete: pcpResult.isComplete,
+        pcp_rating: pcpResult.pcpRating,
+        assessed_at: assessment.createdAt.toISOString()
+      });
     });
 
     res.json({
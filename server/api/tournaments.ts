@@ -11,10 +11,10 @@ import { eq, and, gte, lte, desc, asc, sql } from 'drizzle-orm';
 import { 
   tournaments, 
   tournamentRegistrations,
-  insertTournamentSchema,
-  insertTournamentRegistrationSchema
+  insertTournamentSchema
 } from '@shared/schema';
 import { isAuthenticated, isAdmin } from '../middleware/auth';
+import { publishTournamentJoined, registerForTournament } from '../services/tournament-registration-service';
 
 const router = express.Router();
 
@@ -363,15 +363,19 @@ router.post('/:id/teams', isAuthenticated, async (req: Request, res: Response) =
       JSON.parse(tournament[0].teamEligibilityRules) : {};
     
     // Create team registration record
-    const teamRegistration = await db.insert(tournamentRegistrations).values({
-      tournamentId: parseInt(id),
-      userId: req.user!.id,
-      teamName: teamName,
-      teamPlayers: JSON.stringify(players),
-      teamCaptain: captain,
-      registeredAt: new Date(),
-      status: 'pending'
-    }).returning();
+    const teamRegistration = await db.transaction(async (tx) => {
+      const created = await tx.insert(tournamentRegistrations).values({
+        tournamentId: parseInt(id),
+        userId: req.user!.id,
+        teamName: teamName,
+        teamPlayers: JSON.stringify(players),
+        teamCaptain: captain,
+        registeredAt: new Date(),
+        status: 'pending'
+      }).returning();
+      await publishTournamentJoined(tx, created[0]);
+      return created;
+    });
     
     res.status(201).json(teamRegistration[0]);
   } catch (error) {
@@ -484,73 +488,24 @@ router.get('/:id/registrations', isAuthenticated, async (req: Request, res: Resp
 
 /**
  * POST /api/tournaments/:id/register
- * Register for a tournament
+ * Register for a tournament, optionally with an entry promo code
  */
 router.post('/:id/register', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const userId = req.user!.id;
-    
-    // Check if tournament exists
-    const tournamentData = await db.select().from(tournaments)
-      .where(eq(tournaments.id, parseInt(id)));
-    
-    if (tournamentData.length === 0) {
-      return res.status(404).json({ message: 'Tournament not found' });
-    }
-    
-    const tournament = tournamentData[0];
-    
-    // Check if registration is open
-    const now = new Date();
-    if (tournament.registrationStartDate && new Date(tournament.registrationStartDate) > now) {
-      return res.status(400).json({ message: 'Registration is not open yet' });
-    }
-    
-    if (tournament.registrationEndDate && new Date(tournament.registrationEndDate) < now) {
-      return res.status(400).json({ message: 'Registration is closed' });
-    }
-    
-    // Check if user is already registered
-    const existingRegistration = await db.select().from(tournamentRegistrations)
-      .where(and(
-        eq(tournamentRegistrations.tournamentId, parseInt(id)),
-        eq(tournamentRegistrations.userId, userId)
-      ));
-    
-    if (existingRegistration.length > 0) {
-      return res.status(400).json({ message: 'You are already registered for this tournament' });
+    const promoCode = typeof req.body?.promoCode === 'string' ? req.body.promoCode : undefined;
+    const { registration, promo } = await registerForTournament(parseInt(req.params.id), req.user!.id, promoCode);
+
+    res.status(201).json(promo ? { ...registration, promo } : registration);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Tournament not found') {
+      return res.status(404).json({ message: error.message });
     }
-    
-    // Check if tournament is full
-    const registrationsCount = await db.select({ count: sql<number>`count(*)` }).from(tournamentRegistrations)
-      .where(eq(tournamentRegistrations.tournamentId, parseInt(id)));
-    
-    if (tournament.maxParticipants && registrationsCount[0].count >= tournament.maxParticipants) {
-      // TODO: Add to waitlist instead
-      return res.status(400).json({ message: 'Tournament is full' });
+    if (error instanceof Error && /not open yet|closed|already registered|full/.test(error.message)) {
+      return res.status(400).json({ message: error.message });
     }
-    
-    // Register for the tournament
-    const validated = insertTournamentRegistrationSchema.safeParse({
-      tournamentId: parseInt(id),
-      userId,
-      status: 'registered'
-    });
-    
-    if (!validated.success) {
-      return res.status(400).json({ errors: validated.error.format() });
+    if (error instanceof Error && error.message.startsWith('Promo code not applied')) {
+      return res.status(409).json({ message: error.message });
     }
-    
-    const registration = await db.insert(tournamentRegistrations).values(validated.data).returning();
-    
-    // Update the tournament's current participants count
-    await db.update(tournaments)
-      .set({ currentParticipants: (tournament.currentParticipants || 0) + 1 })
-      .where(eq(tournaments.id, parseInt(id)));
-    
-    res.status(201).json(registration[0]);
-  } catch (error) {
     console.error('Error registering for tournament:', error);
     res.status(500).json({ message: 'Failed to register for tournament' });
   }
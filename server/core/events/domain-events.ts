@@ -0,0 +1,60 @@
+/**
+ * PKL-278651-API-0001-SYNC - Domain Events
+ *
+ * Typed events for changes partners and other modules care about: matches,
+ * rankings, tournaments, profiles, bookings, coaching sessions, assessments
+ * and communities. The event names and payloads are the webhook catalogue
+ * (api-gateway/config/webhook-events.ts).
+ *
+ * Publishing writes the event to the webhook outbox with the caller's
+ * transaction, so it is sent only if the change commits. Once committed the
+ * outbox worker delivers it to subscribed webhooks and emits it on the
+ * in-process event bus under the same name, where subscribeToDomainEvent()
+ * listeners receive the full webhook payload.
+ */
+
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import { getEventBus } from './event-bus';
+import {
+  parseWebhookEventData,
+  type WebhookApiVersion,
+  type WebhookEventData,
+  type WebhookEventType
+} from '../../modules/api-gateway/config/webhook-events';
+import { enqueueWebhookEvent } from '../../modules/api-gateway/utils/webhook-delivery';
+
+type Writer = PgDatabase<any, any, any>;
+
+export interface PublishedDomainEvent<T extends WebhookEventType> {
+  id: string;
+  event: T;
+  timestamp: string;
+  data: WebhookEventData<T>;
+  api_version: WebhookApiVersion;
+}
+
+/**
+ * Publish a domain event. Pass the transaction making the change whenever
+ * there is one; `applicationId` limits delivery to one API application.
+ */
+export async function publishDomainEvent<T extends WebhookEventType>(
+  writer: Writer,
+  eventType: T,
+  data: WebhookEventData<T>,
+  options: { applicationId?: number } = {}
+): Promise<string> {
+  const eventId = await enqueueWebhookEvent(writer, eventType, parseWebhookEventData(eventType, data), options.applicationId);
+  console.log(`[DomainEvents] Published ${eventType} (${eventId})`);
+  return eventId;
+}
+
+/**
+ * Listen for a domain event in this process once it has committed
+ * @returns Unsubscribe function
+ */
+export function subscribeToDomainEvent<T extends WebhookEventType>(
+  eventType: T,
+  listener: (event: PublishedDomainEvent<T>) => void
+): () => void {
+  return getEventBus().subscribe(eventType, listener);
+}
@@ -13,6 +13,7 @@ import ws from "ws";
 import * as schema from "../shared/schema";
 import * as bounceAutomationSchema from "../shared/schema/bounce-automation";
 import * as courtiqSchema from "../shared/schema/courtiq";
+import * as goldenTicketSchema from "../shared/golden-ticket.schema";
 
 // Fix for Neon + WebSocket: Patch error handling
 // This addresses the TypeError: Cannot set property message of #<ErrorEvent> which has only a getter
@@ -65,7 +66,7 @@ process.on('SIGINT', () => {
 });
 
 // Merge all schema objects for a complete database schema
-const mergedSchema = { ...schema, ...bounceAutomationSchema, ...courtiqSchema };
+const mergedSchema = { ...schema, ...bounceAutomationSchema, ...courtiqSchema, ...goldenTicketSchema };
 
 // Create Drizzle instance
 const db = drizzle({ client: pool, schema: mergedSchema });
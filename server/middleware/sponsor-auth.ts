@@ -0,0 +1,76 @@
+/**
+ * Sponsor Portal Authentication Middleware
+ *
+ * Scopes sponsor portal routes to the sponsor in the :sponsorId parameter:
+ * - isSponsorMember: any active member of the sponsor (managers and analysts)
+ * - isSponsorManager: members who may draft campaigns, upload creatives and
+ *   download fulfilment lists
+ * Site admins can act for any sponsor.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { db } from '../db';
+import { eq, and } from 'drizzle-orm';
+import { sponsors, sponsorMembers } from '../../shared/golden-ticket.schema';
+
+function requireSponsorRole(roles: string[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated || !req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const sponsorId = parseInt(req.params.sponsorId);
+      if (isNaN(sponsorId)) {
+        return res.status(400).json({ message: 'Invalid sponsor ID' });
+      }
+
+      const [sponsor] = await db
+        .select({ id: sponsors.id })
+        .from(sponsors)
+        .where(eq(sponsors.id, sponsorId));
+
+      if (!sponsor) {
+        return res.status(404).json({ message: 'Sponsor not found' });
+      }
+
+      if ((req.user as any).isAdmin) {
+        return next();
+      }
+
+      const [membership] = await db
+        .select({ role: sponsorMembers.role })
+        .from(sponsorMembers)
+        .where(
+          and(
+            eq(sponsorMembers.sponsorId, sponsorId),
+            eq(sponsorMembers.userId, req.user.id),
+            eq(sponsorMembers.active, true)
+          )
+        );
+
+      if (!membership) {
+        return res.status(403).json({ message: 'User is not a member of this sponsor' });
+      }
+
+      if (!roles.includes(membership.role)) {
+        return res.status(403).json({ message: 'This needs a sponsor manager' });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Error in sponsor portal middleware:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * Middleware to check if a user is a member of the sponsor
+ */
+export const isSponsorMember = requireSponsorRole(['manager', 'analyst']);
+
+/**
+ * Middleware to check if a user manages the sponsor's campaigns
+ */
+export const isSponsorManager = requireSponsorRole(['manager']);
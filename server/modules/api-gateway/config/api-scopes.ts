@@ -145,6 +145,16 @@ export const API_SCOPES: ApiScope[] = [
     tierLevel: 'advanced'
   },
 
+  {
+    scope: 'match:write',
+    name: 'Match Results Submit',
+    description: 'Submit match results for players to certify',
+    dataAccess: ['submitted_results', 'certification_status'],
+    restrictions: ['pending_player_certification', 'no_points_until_certified', 'duplicate_results_refused'],
+    requiresApproval: true,
+    tierLevel: 'basic'
+  },
+
   // TOURNAMENT SCOPES
   {
     scope: 'tournament:read',
@@ -175,6 +185,16 @@ export const API_SCOPES: ApiScope[] = [
     tierLevel: 'advanced'
   },
 
+  {
+    scope: 'tournament:write',
+    name: 'Tournament Registration',
+    description: 'Register players for tournaments',
+    dataAccess: ['registrations', 'entry_fees'],
+    restrictions: ['open_registration_only', 'consenting_player_only_with_oauth'],
+    requiresApproval: true,
+    tierLevel: 'basic'
+  },
+
   // COURTIQ PERFORMANCE SCOPES
   {
     scope: 'courtiq:read',
@@ -216,6 +236,17 @@ export const API_SCOPES: ApiScope[] = [
     tierLevel: 'premium'
   },
 
+  // BOOKING SCOPES
+  {
+    scope: 'booking:write',
+    name: 'Session Booking',
+    description: 'Book coaching sessions for players',
+    dataAccess: ['bookings', 'session_details', 'payment_status'],
+    restrictions: ['available_slots_only', 'consenting_player_only_with_oauth'],
+    requiresApproval: true,
+    tierLevel: 'basic'
+  },
+
   // SOCIAL & COMMUNITY SCOPES
   {
     scope: 'social:read',
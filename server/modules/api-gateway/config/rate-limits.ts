@@ -0,0 +1,50 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Rate Limit Defaults
+ *
+ * Limits used when `api_rate_limits` has no row for a developer's tier, the
+ * monthly request quota that comes with each tier, and the fixed limits
+ * algorithm protection applies to ranking data.
+ */
+
+import type { RateLimitRule } from '../../../../shared/utils/rateLimit';
+
+export const DEVELOPER_TIERS = ['free', 'basic', 'professional', 'enterprise'] as const;
+export type DeveloperTier = typeof DEVELOPER_TIERS[number];
+
+// Applied when neither an endpoint nor a global limit is configured for a tier
+export const DEFAULT_RATE_LIMIT: RateLimitRule = {
+  algorithm: 'sliding_window',
+  limit: 100,
+  windowSeconds: 60
+};
+export const DEFAULT_CONCURRENT_LIMIT = 5;
+
+// Monthly requests included with each tier; an account's own monthlyQuota
+// overrides these
+export const TIER_MONTHLY_QUOTAS: Record<DeveloperTier, number> = {
+  free: 10000,
+  basic: 100000,
+  professional: 1000000,
+  enterprise: 10000000
+};
+
+// Algorithm endpoints are limited per key per hour; bulk extraction is
+// limited by the number of records asked for per day
+export const ALGORITHM_RATE_LIMIT: RateLimitRule = {
+  algorithm: 'sliding_window',
+  limit: 100,
+  windowSeconds: 60 * 60
+};
+export const BULK_EXTRACTION_RATE_LIMIT: RateLimitRule = {
+  algorithm: 'sliding_window',
+  limit: 500,
+  windowSeconds: 24 * 60 * 60
+};
+
+/**
+ * The monthly quota for a tier
+ */
+export function monthlyQuotaForTier(tier: string): number {
+  return TIER_MONTHLY_QUOTAS[tier as DeveloperTier] ?? TIER_MONTHLY_QUOTAS.free;
+}
@@ -0,0 +1,251 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * V1 API Operations
+ *
+ * Every v1 gateway route's method, path, required scopes and request
+ * schemas, in one place. Routes validate requests with these schemas and
+ * check these scopes, and the published OpenAPI document is generated from
+ * the same definitions, so the two cannot drift apart.
+ */
+
+import { z } from 'zod';
+
+export interface ApiOperation {
+  operationId: string;
+  method: 'get' | 'post';
+  path: string; // Express path under /api/v1
+  tag: string;
+  summary: string;
+  description?: string;
+  scopes: string[];
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  idempotent?: boolean; // Accepts an Idempotency-Key header
+  success: { status: number, description: string };
+  errors?: Record<number, string>; // Responses particular to the operation
+}
+
+const userIdParam = z.coerce.number().int().positive()
+  .describe('The player; defaults to the player who granted the token for OAuth requests')
+  .optional();
+
+const pagination = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+};
+
+export const playerQuerySchema = z.object({
+  user_id: userIdParam
+});
+
+export const matchesQuerySchema = z.object(pagination);
+
+export const tournamentsQuerySchema = z.object({
+  status: z.string().max(50).optional(),
+  start_date: z.string().date().optional().describe('Earliest start date, YYYY-MM-DD'),
+  end_date: z.string().date().optional().describe('Latest start date, YYYY-MM-DD')
+});
+
+export const rankingsQuerySchema = z.object({
+  tier: z.string().max(50).optional(),
+  page: pagination.page,
+  limit: z.coerce.number().int().min(1).default(10).describe('At most 50 rankings are returned')
+});
+
+/**
+ * A player, by user ID or passport code
+ */
+export const playerRefSchema = z.union([
+  z.object({ user_id: z.number().int().positive() }).strict(),
+  z.object({ passport_code: z.string().trim().min(1).max(40) }).strict()
+]).describe('A player, by Pickle+ user ID or passport code');
+
+export type PlayerRefInput = z.infer<typeof playerRefSchema>;
+
+const actingPlayer = playerRefSchema.optional()
+  .describe('Required with an API key; OAuth requests act for the player who granted the token');
+
+const promoCode = z.string().trim().min(1).max(40).optional().describe('Promo code to apply to the price');
+
+const gameSchema = z.object({
+  team1: z.number().int().min(0).max(99),
+  team2: z.number().int().min(0).max(99)
+}).strict().refine(game => game.team1 !== game.team2, { message: 'A game cannot end in a tie' });
+
+export const submitMatchSchema = z.object({
+  team1: z.array(playerRefSchema).min(1).max(2).describe('One player for singles, two for doubles'),
+  team2: z.array(playerRefSchema).min(1).max(2),
+  games: z.array(gameSchema).min(1).max(5).describe('Points each team scored, game by game'),
+  match_date: z.string().datetime({ offset: true }).optional().describe('When the match was played; defaults to now'),
+  match_type: z.enum(['casual', 'league', 'tournament']).default('casual'),
+  tournament_id: z.number().int().positive().optional(),
+  location: z.string().trim().max(255).optional(),
+  notes: z.string().trim().max(1000).optional(),
+  external_id: z.string().trim().min(1).max(100).optional()
+    .describe('Your own ID for the match; a second match with the same ID is refused as a duplicate')
+}).refine(match => match.team1.length === match.team2.length, {
+  message: 'Both teams need the same number of players',
+  path: ['team2']
+});
+
+export const tournamentParamsSchema = z.object({
+  id: z.coerce.number().int().positive().describe('Tournament ID')
+});
+
+export const registerTournamentSchema = z.object({
+  player: actingPlayer,
+  promo_code: promoCode
+});
+
+export const createBookingSchema = z.object({
+  slot_id: z.number().int().positive().describe('A coach session slot, as listed by the coach availability endpoint'),
+  player: actingPlayer,
+  payment_method: z.enum(['external', 'wechat_pay']).default('external')
+    .describe('How the session is paid for outside Pickle+; the booking stays pending payment until it is'),
+  promo_code: promoCode,
+  student_info: z.object({
+    skill_level: z.string().trim().max(50).optional(),
+    goals: z.string().trim().max(1000).optional(),
+    medical_notes: z.string().trim().max(1000).optional(),
+    emergency_contact: z.string().trim().max(100).optional()
+  }).strict().optional()
+});
+
+export const getUserProfile: ApiOperation = {
+  operationId: 'getUserProfile',
+  method: 'get',
+  path: '/users/profile',
+  tag: 'Users',
+  summary: 'Get a player profile',
+  scopes: ['user:read'],
+  query: playerQuerySchema,
+  success: { status: 200, description: 'The player profile' }
+};
+
+export const listMatches: ApiOperation = {
+  operationId: 'listMatches',
+  method: 'get',
+  path: '/matches',
+  tag: 'Matches',
+  summary: 'List completed matches',
+  scopes: ['match:read'],
+  query: matchesQuerySchema,
+  success: { status: 200, description: 'A page of matches' }
+};
+
+export const submitMatch: ApiOperation = {
+  operationId: 'submitMatch',
+  method: 'post',
+  path: '/matches',
+  tag: 'Matches',
+  summary: 'Submit a match result',
+  description: 'Records the result the way a player does in the app: it is validated and checked for ' +
+    'duplicates, then waits for the players to certify it before any ranking points are awarded. ' +
+    'OAuth requests may only submit matches the consenting player took part in.',
+  scopes: ['match:write'],
+  body: submitMatchSchema,
+  idempotent: true,
+  success: { status: 201, description: 'The match, pending certification by its players' },
+  errors: {
+    403: 'The consenting player did not take part in the match',
+    404: 'The tournament does not exist',
+    409: 'The same result was already recorded (duplicate_match)'
+  }
+};
+
+export const listTournaments: ApiOperation = {
+  operationId: 'listTournaments',
+  method: 'get',
+  path: '/tournaments',
+  tag: 'Tournaments',
+  summary: 'List tournaments',
+  scopes: ['tournament:read'],
+  query: tournamentsQuerySchema,
+  success: { status: 200, description: 'Tournaments matching the filters' }
+};
+
+export const registerTournamentPlayer: ApiOperation = {
+  operationId: 'registerTournamentPlayer',
+  method: 'post',
+  path: '/tournaments/:id/registrations',
+  tag: 'Tournaments',
+  summary: 'Register a player for a tournament',
+  description: 'Registration must be open, the player not already registered and the tournament not full. ' +
+    'A promo code is applied to the entry fee or the registration is refused.',
+  scopes: ['tournament:write'],
+  params: tournamentParamsSchema,
+  body: registerTournamentSchema,
+  idempotent: true,
+  success: { status: 201, description: 'The registration' },
+  errors: {
+    403: 'An OAuth request named a player other than the consenting player',
+    404: 'The tournament or player does not exist',
+    409: 'Registration is closed, the tournament is full, the player is already registered or the promo code does not apply'
+  }
+};
+
+export const createBooking: ApiOperation = {
+  operationId: 'createBooking',
+  method: 'post',
+  path: '/bookings',
+  tag: 'Bookings',
+  summary: 'Book a coaching session',
+  description: 'Books the player into an open coach session slot. A promo code is applied to the price ' +
+    'or the booking is refused.',
+  scopes: ['booking:write'],
+  body: createBookingSchema,
+  idempotent: true,
+  success: { status: 201, description: 'The booking, with session details and a calendar file link' },
+  errors: {
+    403: 'An OAuth request named a player other than the consenting player',
+    404: 'The slot or player does not exist',
+    409: 'The slot is full or closed, or the promo code does not apply'
+  }
+};
+
+export const getRankings: ApiOperation = {
+  operationId: 'getRankings',
+  method: 'get',
+  path: '/rankings',
+  tag: 'Rankings',
+  summary: 'Get ranking positions',
+  description: 'Trend insights are included with the ranking:advanced scope and algorithm metadata with ranking:algorithm.',
+  scopes: ['ranking:read'],
+  query: rankingsQuerySchema,
+  success: { status: 200, description: 'A page of ranking positions' }
+};
+
+export const getCourtIQPerformance: ApiOperation = {
+  operationId: 'getCourtIQPerformance',
+  method: 'get',
+  path: '/courtiq/performance',
+  tag: 'CourtIQ',
+  summary: "Get a player's CourtIQ performance",
+  scopes: ['courtiq:read'],
+  query: playerQuerySchema,
+  success: { status: 200, description: 'CourtIQ performance scores' }
+};
+
+export const getMultiRankingPosition: ApiOperation = {
+  operationId: 'getMultiRankingPosition',
+  method: 'get',
+  path: '/multi-rankings/position',
+  tag: 'Rankings',
+  summary: "Get a player's position in each ranking category",
+  scopes: ['ranking:read'],
+  query: playerQuerySchema,
+  success: { status: 200, description: 'Positions by ranking category' }
+};
+
+export const V1_OPERATIONS: ApiOperation[] = [
+  getUserProfile,
+  listMatches,
+  submitMatch,
+  listTournaments,
+  registerTournamentPlayer,
+  createBooking,
+  getRankings,
+  getCourtIQPerformance,
+  getMultiRankingPosition
+];
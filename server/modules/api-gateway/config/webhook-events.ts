@@ -0,0 +1,254 @@
+/**
+ * PKL-278651-API-0001-SYNC
+ * Webhook Event Catalogue
+ *
+ * Every event partners can subscribe to, with the schema of its `data` for
+ * each webhook api_version. Events are validated against the current
+ * version's schema when published; fields a schema doesn't list are dropped,
+ * so nothing reaches partners that isn't documented here.
+ *
+ * Changing a payload incompatibly means adding a new api_version with its
+ * own schemas, never editing an existing version's.
+ */
+
+import { z } from 'zod';
+
+export const WEBHOOK_API_VERSIONS = ['v1'] as const;
+export type WebhookApiVersion = typeof WEBHOOK_API_VERSIONS[number];
+export const CURRENT_WEBHOOK_API_VERSION: WebhookApiVersion = 'v1';
+
+// Define webhook event types for real-time sync
+export const WEBHOOK_EVENTS = {
+  // User events
+  USER_CREATED: 'user.created',
+  USER_UPDATED: 'user.updated',
+  USER_RANKING_CHANGED: 'user.ranking_changed',
+
+  // Match events
+  MATCH_COMPLETED: 'match.completed',
+  MATCH_RANKINGS_UPDATED: 'match.rankings_updated',
+
+  // Tournament events
+  TOURNAMENT_JOINED: 'tournament.joined',
+  TOURNAMENT_RESULT: 'tournament.result',
+
+  // Booking events
+  BOOKING_CREATED: 'booking.created',
+  BOOKING_CANCELLED: 'booking.cancelled',
+
+  // Coaching session events
+  COACHING_SESSION_REQUESTED: 'coaching_session.requested',
+  COACHING_SESSION_SCHEDULED: 'coaching_session.scheduled',
+  COACHING_SESSION_COMPLETED: 'coaching_session.completed',
+
+  // Assessment events
+  ASSESSMENT_COMPLETED: 'assessment.completed',
+  ASSESSMENT_COACH_RATED: 'assessment.coach_rated',
+
+  // Community events
+  COMMUNITY_MEMBER_JOINED: 'community.member_joined',
+  COMMUNITY_MEMBER_LEFT: 'community.member_left',
+
+  // WeChat specific events
+  WECHAT_USER_LINKED: 'wechat.user_linked',
+  WECHAT_PROFILE_SYNCED: 'wechat.profile_synced'
+} as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS];
+
+const timestamp = z.string().datetime();
+const teamSchema = z.object({
+  team_id: z.number().int(),
+  user_ids: z.array(z.number().int())
+});
+
+const v1Schemas = {
+  'user.created': z.object({
+    user_id: z.number().int(),
+    username: z.string(),
+    display_name: z.string().nullable(),
+    passport_code: z.string().nullable(),
+    created_at: timestamp
+  }),
+  'user.updated': z.object({
+    user_id: z.number().int(),
+    changed_fields: z.array(z.string()),
+    updated_at: timestamp
+  }),
+  'user.ranking_changed': z.object({
+    user_id: z.number().int(),
+    match_id: z.number().int().nullable(),
+    points_change: z.number(),
+    ranking_points: z.number(),
+    changed_at: timestamp
+  }),
+  'match.completed': z.object({
+    match_id: z.number().int(),
+    format: z.enum(['singles', 'doubles']),
+    match_type: z.string().nullable(),
+    team1: z.array(z.number().int()),
+    team2: z.array(z.number().int()),
+    team1_score: z.string(),
+    team2_score: z.string(),
+    winning_team: z.union([z.literal(1), z.literal(2)]),
+    tournament_id: z.number().int().nullable(),
+    match_date: timestamp
+  }),
+  'match.rankings_updated': z.object({
+    match_id: z.number().int(),
+    players: z.array(z.object({
+      user_id: z.number().int(),
+      points_change: z.number(),
+      ranking_points: z.number()
+    })),
+    updated_at: timestamp
+  }),
+  'tournament.joined': z.object({
+    tournament_id: z.number().int(),
+    registration_id: z.number().int(),
+    user_id: z.number().int(),
+    team_name: z.string().nullable(),
+    status: z.string(),
+    registered_at: timestamp
+  }),
+  'tournament.result': z.object({
+    tournament_id: z.number().int(),
+    bracket_id: z.number().int(),
+    bracket_match_id: z.number().int(),
+    winner: teamSchema,
+    loser: teamSchema,
+    score: z.string(),
+    recorded_at: timestamp
+  }),
+  'booking.created': z.object({
+    booking_id: z.number().int(),
+    booking_type: z.enum(['session_booking', 'coaching_session', 'facility_booking']),
+    student_user_id: z.number().int(),
+    coach_id: z.number().int().nullable(),
+    session_date: timestamp,
+    status: z.string(),
+    created_at: timestamp
+  }),
+  'booking.cancelled': z.object({
+    booking_id: z.number().int(),
+    booking_type: z.enum(['session_booking', 'coaching_session', 'facility_booking']),
+    student_user_id: z.number().int().nullable(),
+    coach_id: z.number().int().nullable(),
+    facility_id: z.number().int().nullable(),
+    outcome: z.string(), // provider_cancelled, full_refund, partial_refund, late_cancel, no_show
+    initiated_by: z.string(),
+    cancelled_at: timestamp
+  }),
+  'coaching_session.requested': z.object({
+    request_id: z.number().int().nullable(),
+    coach_id: z.number().int(),
+    student_user_id: z.number().int(),
+    session_type: z.string().nullable(),
+    requested_at: timestamp
+  }),
+  'coaching_session.scheduled': z.object({
+    session_id: z.number().int(),
+    request_id: z.number().int().nullable(),
+    coach_id: z.number().int(),
+    student_user_id: z.number().int(),
+    session_type: z.string(),
+    scheduled_at: timestamp,
+    duration_minutes: z.number().int()
+  }),
+  'coaching_session.completed': z.object({
+    session_id: z.number().int(),
+    coach_id: z.number().int(),
+    student_user_id: z.number().int(),
+    completed_at: timestamp
+  }),
+  'assessment.completed': z.object({
+    player_user_id: z.number().int(),
+    coach_id: z.number().int(),
+    assessment_type: z.string(),
+    skills_assessed: z.number().int(),
+    complete: z.boolean(),
+    pcp_rating: z.number(),
+    assessed_at: timestamp
+  }),
+  'assessment.coach_rated': z.object({
+    coach_id: z.number().int(),
+    student_user_id: z.number().int(),
+    booking_id: z.number().int().nullable(),
+    overall_rating: z.number(),
+    rated_at: timestamp
+  }),
+  'community.member_joined': z.object({
+    community_id: z.number().int(),
+    user_id: z.number().int(),
+    role: z.string(),
+    joined_at: timestamp
+  }),
+  'community.member_left': z.object({
+    community_id: z.number().int(),
+    user_id: z.number().int(),
+    left_at: timestamp
+  }),
+  'wechat.user_linked': z.object({
+    pickle_user_id: z.number().int(),
+    passport_code: z.string().nullable(),
+    wechat_data: z.object({
+      openid: z.string(),
+      unionid: z.string().nullable().optional(),
+      nickname: z.string().nullable().optional(),
+      profile_image: z.string().nullable().optional()
+    }),
+    linked_at: timestamp,
+    registration_source: z.string().optional(),
+    language: z.string().optional()
+  }),
+  'wechat.profile_synced': z.object({
+    pickle_user_id: z.number().int(),
+    wechat_openid: z.string(),
+    updated_fields: z.array(z.string()),
+    sync_timestamp: z.string(),
+    conflict_resolution: z.string().optional()
+  })
+} satisfies Record<WebhookEventType, z.ZodTypeAny>;
+
+export const WEBHOOK_EVENT_SCHEMAS: Record<WebhookApiVersion, Record<WebhookEventType, z.ZodTypeAny>> = {
+  v1: v1Schemas
+};
+
+// What publishers pass for each event under the current api_version
+export type WebhookEventData<T extends WebhookEventType> = z.input<typeof v1Schemas[T]>;
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  'user.created': 'A player account was created',
+  'user.updated': 'A player changed their profile; lists the fields that changed',
+  'user.ranking_changed': 'A player\'s ranking points changed after a match',
+  'match.completed': 'A match result was recorded',
+  'match.rankings_updated': 'Ranking points were awarded for a match',
+  'tournament.joined': 'A player or team registered for a tournament',
+  'tournament.result': 'A tournament bracket match result was recorded',
+  'booking.created': 'A coaching slot was booked',
+  'booking.cancelled': 'A booking was cancelled or the student did not show',
+  'coaching_session.requested': 'A student asked a coach for a session',
+  'coaching_session.scheduled': 'A coach accepted a session request',
+  'coaching_session.completed': 'A coach completed a session',
+  'assessment.completed': 'A coach assessed a player\'s skills',
+  'assessment.coach_rated': 'A student rated their coach',
+  'community.member_joined': 'A player joined a community',
+  'community.member_left': 'A player left a community',
+  'wechat.user_linked': 'A WeChat account was linked to a player',
+  'wechat.profile_synced': 'A player\'s profile was synced from WeChat'
+};
+
+/**
+ * Whether a name is a catalogue event or the '*' wildcard
+ */
+export function isKnownWebhookEvent(event: string): boolean {
+  return event === '*' || Object.values(WEBHOOK_EVENTS).includes(event as WebhookEventType);
+}
+
+/**
+ * Check an event's data against the current version's schema, dropping
+ * fields the schema doesn't list
+ */
+export function parseWebhookEventData<T extends WebhookEventType>(eventType: T, data: WebhookEventData<T>): unknown {
+  return WEBHOOK_EVENT_SCHEMAS[CURRENT_WEBHOOK_API_VERSION][eventType].parse(data);
+}
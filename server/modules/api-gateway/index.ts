@@ -9,7 +9,9 @@ import express from 'express';
 import cors from 'cors';
 import apiGatewayRouter from './routes';
 import { apiKeyAuth } from './middleware/api-key-auth';
+import { gatewayAuth, requireScopes } from './middleware/gateway-auth';
 import { apiRateLimiter } from './middleware/rate-limiter';
+import { idempotency } from './middleware/idempotency';
 
 /**
  * Initialize the API Gateway module
@@ -22,8 +24,8 @@ export function initApiGateway(app: express.Express): void {
   const apiCorsOptions = {
     origin: '*', // In production, this should be more restrictive
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
-    exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+    exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'Idempotent-Replayed'],
     maxAge: 3600 // Cache preflight request for 1 hour
   };
   
@@ -37,4 +39,4 @@ export function initApiGateway(app: express.Express): void {
 }
 
 // Expose middleware for use in other modules
-export { apiKeyAuth, apiRateLimiter };
\ No newline at end of file
+export { apiKeyAuth, gatewayAuth, requireScopes, apiRateLimiter, idempotency };
\ No newline at end of file
@@ -6,6 +6,11 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { rateLimitHeaders } from '../../../../shared/utils/rateLimit';
+import { ALGORITHM_RATE_LIMIT, BULK_EXTRACTION_RATE_LIMIT } from '../config/rate-limits';
+import { getRateLimitStore, type RateLimitStore } from '../utils/rate-limit-store';
+import { credentialKey } from './api-key-auth';
+
 // Suspicious usage pattern detection
 const suspiciousPatterns = new Map<string, {
   requestCount: number;
@@ -15,46 +20,12 @@ const suspiciousPatterns = new Map<string, {
   flagged: boolean;
 }>();
 
-// Simple rate limiting using Map-based tracking
-const rateLimitTracking = new Map<string, {
-  algorithmRequests: { count: number; resetTime: number };
-  bulkRequests: { count: number; resetTime: number };
-}>();
-
-function checkRateLimit(keyId: string, type: 'algorithm' | 'bulk', points: number = 1): { allowed: boolean; resetTime?: number } {
-  const now = Date.now();
-  const tracking = rateLimitTracking.get(keyId) || {
-    algorithmRequests: { count: 0, resetTime: now + 3600000 }, // 1 hour
-    bulkRequests: { count: 0, resetTime: now + 86400000 } // 24 hours
-  };
-  
-  const limit = type === 'algorithm' ? 100 : 500;
-  const window = type === 'algorithm' ? 3600000 : 86400000;
-  const current = tracking[`${type}Requests`];
-  
-  // Reset if window expired
-  if (now > current.resetTime) {
-    current.count = 0;
-    current.resetTime = now + window;
-  }
-  
-  // Check if adding points would exceed limit
-  if (current.count + points > limit) {
-    return { allowed: false, resetTime: current.resetTime };
-  }
-  
-  // Increment and update
-  current.count += points;
-  rateLimitTracking.set(keyId, tracking);
-  
-  return { allowed: true };
-}
-
 export interface AlgorithmProtectionOptions {
   enableSuspiciousPatternDetection?: boolean;
   enableDataObfuscation?: boolean;
   enableUsageAuditing?: boolean;
   maxBulkRequestSize?: number;
+  store?: RateLimitStore; // Where algorithm and bulk limits are counted; defaults to the shared store
 }
 
 /**
@@ -65,17 +36,19 @@ export function algorithmProtection(options: AlgorithmProtectionOptions = {}) {
     enableSuspiciousPatternDetection = true,
     enableDataObfuscation = true,
     enableUsageAuditing = true,
-    maxBulkRequestSize = 50
+    maxBulkRequestSize = 50,
+    store
   } = options;
 
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const apiKey = (req as any).apiKey;
+      const apiKey = req.apiKey;
       if (!apiKey) {
         return next(); // Skip if no API key (handled by auth middleware)
       }
 
-      const keyId = apiKey.keyPrefix || 'unknown';
+      const keyId = credentialKey(apiKey);
+      const limitStore = store ?? await getRateLimitStore();
       const endpoint = req.path;
       const method = req.method;
 
@@ -133,15 +106,15 @@ export function algorithmProtection(options: AlgorithmProtectionOptions = {}) {
                                  endpoint.includes('/multi-rankings');
 
       if (isAlgorithmEndpoint) {
-        const rateCheck = checkRateLimit(keyId, 'algorithm');
+        const rateCheck = await limitStore.consume(`algorithm:${keyId}`, ALGORITHM_RATE_LIMIT, new Date());
         if (!rateCheck.allowed) {
-          const remainingTime = Math.round((rateCheck.resetTime! - Date.now()) / 1000);
+          res.set(rateLimitHeaders(rateCheck));
           return res.status(429).json({
             error: 'algorithm_rate_limit',
             error_description: 'Algorithm access rate limit exceeded',
-            retry_after: remainingTime,
+            retry_after: rateCheck.retryAfterSeconds,
             limit_info: {
-              limit: 100,
+              limit: ALGORITHM_RATE_LIMIT.limit,
               window: '1 hour'
             }
           });
@@ -155,13 +128,13 @@ export function algorithmProtection(options: AlgorithmProtectionOptions = {}) {
       );
 
       if (requestLimit > 10) {
-        const rateCheck = checkRateLimit(keyId, 'bulk', requestLimit);
+        const rateCheck = await limitStore.consume(`bulk:${keyId}`, BULK_EXTRACTION_RATE_LIMIT, new Date(), requestLimit);
         if (!rateCheck.allowed) {
-          const remainingTime = Math.round((rateCheck.resetTime! - Date.now()) / 1000);
+          res.set(rateLimitHeaders(rateCheck));
           return res.status(429).json({
             error: 'bulk_extraction_limit',
             error_description: 'Daily bulk data extraction limit exceeded',
-            retry_after: remainingTime,
+            retry_after: rateCheck.retryAfterSeconds,
             suggestion: 'Consider upgrading to a higher tier plan for increased limits'
           });
         }
@@ -178,11 +178,24 @@ declare global {
   namespace Express {
     interface Request {
       apiKey?: {
-        id: number;
+        id: number; // The API key, or for OAuth requests the access token
         applicationId: number;
         developerId: number;
         scopes: string[];
+        // Set when a partner app calls on behalf of a player with an OAuth
+        // access token (see gateway-auth.ts)
+        oauth?: {
+          clientId: string;
+          userId: number;
+        };
       };
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The key rate limits and usage patterns are tracked under: the API key, or
+ * for OAuth requests the client, whichever player it is acting for
+ */
+export const credentialKey = (apiKey: NonNullable<Request['apiKey']>): string =>
+  apiKey.oauth ? `oauth:${apiKey.oauth.clientId}` : `key:${apiKey.id}`;
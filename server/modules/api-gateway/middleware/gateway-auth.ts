@@ -0,0 +1,109 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Gateway Authentication Middleware
+ *
+ * The v1 gateway accepts either credential a partner can hold: an API key,
+ * for calls made as the application itself, or an OAuth access token, for
+ * calls made on behalf of the player who consented to it. Either way the
+ * request carries `req.apiKey` with the scopes granted, and OAuth requests
+ * count against the client's application and developer account.
+ *
+ * Each route then states the scopes it needs with requireScopes().
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { db } from '../../../db';
+import { apiUsageLogs } from '../../../../shared/schema/oauth';
+import { tokenService } from '../../../oauth/services/oauth-service';
+import { apiKeyAuth } from './api-key-auth';
+
+/**
+ * Record an OAuth client's API call once the response is sent
+ */
+const logOAuthUsage = (req: Request, res: Response, clientId: string, userId: number): void => {
+  const startTime = Date.now();
+  res.on('finish', () => {
+    db.insert(apiUsageLogs)
+      .values({
+        clientId,
+        userId,
+        endpoint: req.path,
+        method: req.method as typeof apiUsageLogs.$inferInsert.method,
+        statusCode: res.statusCode,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        responseTime: Date.now() - startTime
+      })
+      .catch(err => console.error('Failed to log OAuth API usage:', err));
+  });
+};
+
+/**
+ * API key or OAuth access token authentication for gateway routes
+ */
+export const gatewayAuth = () => {
+  const keyAuth = apiKeyAuth();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // OAuth access tokens are JWTs; any other credential is an API key
+    const authHeader = req.headers.authorization;
+    const bearer = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
+    if (!bearer || bearer.split('.').length !== 3) {
+      return keyAuth(req, res, next);
+    }
+
+    try {
+      const grant = await tokenService.authenticateAccessToken(bearer);
+      if (!grant) {
+        res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+        return res.status(401).json({
+          error: 'invalid_token',
+          error_description: 'Access token is invalid, expired or revoked'
+        });
+      }
+
+      req.apiKey = {
+        id: grant.accessTokenId,
+        applicationId: grant.applicationId,
+        developerId: grant.developerId,
+        scopes: grant.scopes,
+        oauth: {
+          clientId: grant.clientId,
+          userId: grant.userId
+        }
+      };
+
+      logOAuthUsage(req, res, grant.clientId, grant.userId);
+      next();
+    } catch (error) {
+      console.error('OAuth access token authentication error:', error);
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'An error occurred during access token authentication'
+      });
+    }
+  };
+};
+
+/**
+ * Require every one of the given scopes on the request's credential
+ */
+export const requireScopes = (...scopes: string[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const granted = req.apiKey?.scopes ?? [];
+    const missing = scopes.filter(scope => !granted.includes(scope));
+
+    if (missing.length > 0) {
+      if (req.apiKey?.oauth) {
+        res.set('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scopes.join(' ')}"`);
+      }
+      return res.status(403).json({
+        error: 'insufficient_scope',
+        error_description: `Requires ${missing.join(' and ')} scope${missing.length > 1 ? 's' : ''}`,
+        required_scopes: scopes
+      });
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Idempotency Middleware
+ *
+ * Makes a gateway write safe to retry. A request sent with an Idempotency-Key
+ * header is processed once per credential; retrying it returns the stored
+ * response with an Idempotent-Replayed header instead of repeating the write.
+ * Reusing a key for a different request is refused, as is a retry that
+ * arrives while the first request is still being processed. Requests without
+ * the header are processed as usual.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_LOCK_SECONDS,
+  idempotencyRequestHash,
+  isStorableResponse,
+  isValidIdempotencyKey
+} from '../../../../shared/utils/apiIdempotency';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '../utils/idempotency-store';
+import { credentialKey } from './api-key-auth';
+
+/**
+ * Replay the stored response to an Idempotency-Key, for routes after gateway authentication
+ */
+export const idempotency = () => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey === undefined || !req.apiKey) {
+      return next();
+    }
+
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return res.status(400).json({
+        error: 'invalid_idempotency_key',
+        error_description: 'Idempotency-Key must be 1 to 255 printable characters without spaces'
+      });
+    }
+
+    const path = `${req.baseUrl}${req.path}`;
+
+    try {
+      const claim = await claimIdempotencyKey({
+        credentialKey: credentialKey(req.apiKey),
+        idempotencyKey,
+        method: req.method,
+        path,
+        requestHash: idempotencyRequestHash(req.method, path, req.body)
+      });
+
+      if (!claim.claimed) {
+        if (claim.outcome === 'mismatch') {
+          return res.status(422).json({
+            error: 'idempotency_key_reused',
+            error_description: 'This Idempotency-Key was already used for a different request'
+          });
+        }
+
+        if (claim.outcome === 'in_progress') {
+          res.set('Retry-After', String(IDEMPOTENCY_LOCK_SECONDS));
+          return res.status(409).json({
+            error: 'idempotency_key_in_use',
+            error_description: 'A request with this Idempotency-Key is still being processed'
+          });
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(claim.stored.responseStatus ?? 200).json(claim.stored.responseBody);
+      }
+
+      // Store the response before sending it, so a retry never repeats the write
+      const send = res.json.bind(res);
+      res.json = (body?: any) => {
+        const settled = isStorableResponse(res.statusCode)
+          ? completeIdempotencyKey(claim.id, res.statusCode, body)
+          : releaseIdempotencyKey(claim.id);
+
+        settled
+          .catch(error => console.error('Failed to store idempotent response:', error))
+          .finally(() => send(body));
+        return res;
+      };
+
+      next();
+    } catch (error) {
+      console.error('Idempotency key error:', error);
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'An error occurred checking the Idempotency-Key'
+      });
+    }
+  };
+};
@@ -1,43 +1,82 @@
 /**
  * PKL-278651-API-0001-GATEWAY
  * API Rate Limiting Middleware
- * 
+ *
  * This middleware enforces rate limits for API requests based on developer tier and endpoint.
+ *
+ * Each API key (or OAuth client) is limited by its tier's global limit and, where one is
+ * configured in `api_rate_limits`, the endpoint's own limit, using the
+ * limit's sliding window or token bucket algorithm. Requests in flight are
+ * capped by the tier's concurrent limit, and every request counts against the
+ * developer's monthly quota. Counts live in the rate limit store, so they are
+ * shared by every instance and survive restarts.
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { eq, and, or, isNull } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import NodeCache from 'node-cache';
 import { db } from '../../../db';
-import { apiRateLimits, apiDeveloperAccounts } from '../../../../shared/schema/api-gateway';
+import { apiRateLimits, apiDeveloperAccounts, type ApiRateLimit } from '../../../../shared/schema/api-gateway';
+import {
+  mostRestrictive,
+  quotaPeriod,
+  rateLimitHeaders,
+  RATE_LIMIT_ALGORITHMS,
+  type RateLimitAlgorithm,
+  type RateLimitRule
+} from '../../../../shared/utils/rateLimit';
+import { DEFAULT_CONCURRENT_LIMIT, DEFAULT_RATE_LIMIT, monthlyQuotaForTier } from '../config/rate-limits';
+import { getRateLimitStore, type RateLimitStore } from '../utils/rate-limit-store';
+import { credentialKey } from './api-key-auth';
 
 // Cache rate limit configurations to reduce database queries
 const rateLimitCache = new NodeCache({ stdTTL: 300 }); // Cache for 5 minutes
 
-// Cache to track API request counts
-const requestCountCache = new NodeCache({ stdTTL: 60 }); // Default TTL of 60 seconds
+// A request holds its concurrency slot at most this long if it never finishes
+const CONCURRENCY_LEASE_MS = 60 * 1000;
 
 // Interface for rate limiting options
 export interface RateLimitOptions {
   defaultLimit?: number;
   defaultTimeWindow?: number; // in seconds
   excludePaths?: string[];
+  store?: RateLimitStore; // Defaults to the shared Postgres store
 }
 
+interface TierLimits {
+  global: RateLimitRule;
+  endpoint: RateLimitRule | null;
+  concurrentLimit: number;
+}
+
+interface DeveloperLimits {
+  tier: string;
+  monthlyQuota: number;
+}
+
+const toRule = (row: ApiRateLimit): RateLimitRule => ({
+  algorithm: RATE_LIMIT_ALGORITHMS.includes(row.algorithm as RateLimitAlgorithm)
+    ? row.algorithm as RateLimitAlgorithm
+    : 'sliding_window',
+  limit: row.requestLimit,
+  windowSeconds: row.timeWindow,
+  burst: row.burstLimit
+});
+
 /**
  * Get rate limit configuration for a developer tier and endpoint
  */
-const getRateLimit = async (developerTier: string, endpoint: string) => {
+const getRateLimits = async (developerTier: string, endpoint: string, fallback: RateLimitRule): Promise<TierLimits> => {
   const cacheKey = `${developerTier}:${endpoint}`;
-  
+
   // Check cache first
-  let rateLimit = rateLimitCache.get(cacheKey);
-  if (rateLimit) {
-    return rateLimit as { requestLimit: number; timeWindow: number; concurrentLimit?: number };
+  const cached = rateLimitCache.get<TierLimits>(cacheKey);
+  if (cached) {
+    return cached;
   }
-  
+
   // Query database for specific endpoint limit
-  const endpointLimit = await db.select()
+  const [endpointLimit] = await db.select()
     .from(apiRateLimits)
     .where(
       and(
@@ -46,19 +85,9 @@ const getRateLimit = async (developerTier: string, endpoint: string) => {
       )
     )
     .limit(1);
-  
-  if (endpointLimit.length > 0) {
-    const result = {
-      requestLimit: endpointLimit[0].requestLimit,
-      timeWindow: endpointLimit[0].timeWindow,
-      concurrentLimit: endpointLimit[0].concurrentLimit
-    };
-    rateLimitCache.set(cacheKey, result);
-    return result;
-  }
-  
-  // No specific endpoint limit, query for global tier limit
-  const globalLimit = await db.select()
+
+  // And the tier's global limit, which applies alongside it
+  const [globalLimit] = await db.select()
     .from(apiRateLimits)
     .where(
       and(
@@ -67,69 +96,62 @@ const getRateLimit = async (developerTier: string, endpoint: string) => {
       )
     )
     .limit(1);
-  
-  if (globalLimit.length > 0) {
-    const result = {
-      requestLimit: globalLimit[0].requestLimit,
-      timeWindow: globalLimit[0].timeWindow,
-      concurrentLimit: globalLimit[0].concurrentLimit
-    };
-    rateLimitCache.set(cacheKey, result);
-    return result;
-  }
-  
-  // Default fallback limit
-  const defaultLimit = {
-    requestLimit: 100,
-    timeWindow: 60,
-    concurrentLimit: 5
+
+  const result: TierLimits = {
+    global: globalLimit ? toRule(globalLimit) : fallback,
+    endpoint: endpointLimit ? toRule(endpointLimit) : null,
+    concurrentLimit: endpointLimit?.concurrentLimit ?? globalLimit?.concurrentLimit ?? DEFAULT_CONCURRENT_LIMIT
   };
-  rateLimitCache.set(cacheKey, defaultLimit);
-  return defaultLimit;
+  rateLimitCache.set(cacheKey, result);
+  return result;
 };
 
 /**
- * Get developer tier for API key
+ * Get developer tier and monthly quota for API key
  */
-const getDeveloperTier = async (developerId: number): Promise<string> => {
-  const cacheKey = `developer_tier:${developerId}`;
-  
+const getDeveloperLimits = async (developerId: number): Promise<DeveloperLimits> => {
+  const cacheKey = `developer_limits:${developerId}`;
+
   // Check cache first
-  const cachedTier = rateLimitCache.get(cacheKey);
-  if (cachedTier) {
-    return cachedTier as string;
+  const cached = rateLimitCache.get<DeveloperLimits>(cacheKey);
+  if (cached) {
+    return cached;
   }
-  
+
   // Query database
-  const developer = await db.select({ tier: apiDeveloperAccounts.developerTier })
+  const [developer] = await db.select({
+    tier: apiDeveloperAccounts.developerTier,
+    monthlyQuota: apiDeveloperAccounts.monthlyQuota
+  })
     .from(apiDeveloperAccounts)
     .where(eq(apiDeveloperAccounts.id, developerId))
     .limit(1);
-  
-  if (developer.length > 0) {
-    rateLimitCache.set(cacheKey, developer[0].tier);
-    return developer[0].tier;
-  }
-  
+
   // Default tier
-  return 'free';
+  const tier = developer?.tier ?? 'free';
+  const result = { tier, monthlyQuota: developer?.monthlyQuota ?? monthlyQuotaForTier(tier) };
+  rateLimitCache.set(cacheKey, result);
+  return result;
 };
 
 /**
  * API rate limiting middleware
  */
 export const apiRateLimiter = (options: RateLimitOptions = {}) => {
-  const defaultLimit = options.defaultLimit || 100;
-  const defaultTimeWindow = options.defaultTimeWindow || 60;
+  const fallback: RateLimitRule = {
+    ...DEFAULT_RATE_LIMIT,
+    limit: options.defaultLimit || DEFAULT_RATE_LIMIT.limit,
+    windowSeconds: options.defaultTimeWindow || DEFAULT_RATE_LIMIT.windowSeconds
+  };
   const excludePaths = options.excludePaths || [];
-  
+
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Skip rate limiting for excluded paths
       if (excludePaths.some(path => req.path.startsWith(path))) {
         return next();
       }
-      
+
       // Require API key authentication
       if (!req.apiKey) {
         return res.status(401).json({
@@ -137,47 +159,77 @@ export const apiRateLimiter = (options: RateLimitOptions = {}) => {
           error_description: 'API key authentication required for rate limiting'
         });
       }
-      
+
+      const store = options.store ?? await getRateLimitStore();
       const { developerId } = req.apiKey;
+      const subject = credentialKey(req.apiKey);
       const endpoint = req.path;
-      
-      // Get developer tier
-      const developerTier = await getDeveloperTier(developerId);
-      
-      // Get rate limit configuration
-      const rateLimit = await getRateLimit(developerTier, endpoint);
-      const { requestLimit, timeWindow, concurrentLimit } = rateLimit;
-      
-      // Create unique key for this developer and endpoint
-      const rateLimitKey = `${developerId}:${endpoint}`;
-      
-      // Get current request count
-      let currentCount = requestCountCache.get(rateLimitKey) as number || 0;
-      
-      // Check rate limit
-      if (currentCount >= requestLimit) {
+      const now = new Date();
+
+      const developer = await getDeveloperLimits(developerId);
+      const limits = await getRateLimits(developer.tier, endpoint, fallback);
+
+      // Rate limits for this key, overall and for the endpoint
+      const decisions = [await store.consume(subject, limits.global, now)];
+      if (limits.endpoint) {
+        decisions.push(await store.consume(`${subject}:${endpoint}`, limits.endpoint, now));
+      }
+      const decision = mostRestrictive(decisions);
+      res.set(rateLimitHeaders(decision));
+
+      if (!decision.allowed) {
         return res.status(429).json({
           error: 'rate_limit_exceeded',
           error_description: 'API rate limit exceeded',
-          limit: requestLimit,
-          time_window_seconds: timeWindow,
-          retry_after: Math.ceil(timeWindow - (requestCountCache.getTtl(rateLimitKey) || 0) / 1000)
+          limit: decision.limit,
+          retry_after: decision.retryAfterSeconds
         });
       }
-      
-      // Increment request count
-      currentCount++;
-      requestCountCache.set(rateLimitKey, currentCount, timeWindow);
-      
-      // Add rate limit headers
-      res.setHeader('X-RateLimit-Limit', requestLimit.toString());
-      res.setHeader('X-RateLimit-Remaining', (requestLimit - currentCount).toString());
-      res.setHeader('X-RateLimit-Reset', Math.ceil((requestCountCache.getTtl(rateLimitKey) || 0) / 1000).toString());
-      
+
+      // Monthly quota, shared by all of the developer's keys
+      const period = quotaPeriod(now);
+      const quota = await store.incrementQuota(`developer:${developerId}`, period.start, developer.monthlyQuota);
+      res.set({
+        'X-Quota-Limit': String(developer.monthlyQuota),
+        'X-Quota-Remaining': String(Math.max(0, developer.monthlyQuota - quota.used)),
+        'X-Quota-Reset': String(Math.ceil(period.end.getTime() / 1000))
+      });
+
+      if (!quota.allowed) {
+        return res.status(429).json({
+          error: 'quota_exceeded',
+          error_description: 'Monthly API quota exceeded for your developer tier',
+          tier: developer.tier,
+          monthly_quota: developer.monthlyQuota,
+          resets_at: period.end.toISOString()
+        });
+      }
+
+      // Concurrent requests for this key
+      const lease = await store.acquireConcurrency(subject, limits.concurrentLimit, CONCURRENCY_LEASE_MS, now);
+      if (!lease.acquired) {
+        res.set('Retry-After', '1');
+        return res.status(429).json({
+          error: 'concurrency_limit_exceeded',
+          error_description: 'Too many concurrent requests for this API key',
+          concurrent_limit: limits.concurrentLimit
+        });
+      }
+
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        store.releaseConcurrency(subject, lease.leaseId!)
+          .catch(error => console.error('Failed to release API concurrency slot:', error));
+      };
+      res.on('finish', release);
+      res.on('close', release);
+
       next();
     } catch (error) {
       console.error('API rate limiting error:', error);
       next(); // Continue in case of error to avoid breaking the API
     }
   };
-};
\ No newline at end of file
+};
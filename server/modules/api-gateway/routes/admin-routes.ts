@@ -12,6 +12,8 @@ import { db } from '../../../db';
 import { apiDeveloperAccounts, apiApplications, apiKeys } from '../../../../shared/schema/api-gateway';
 import { users } from '../../../../shared/schema';
 import { isAuthenticated, isAdmin } from '../../../auth';
+import { DEVELOPER_TIERS, monthlyQuotaForTier } from '../config/rate-limits';
+import { oauthClientService } from '../../../oauth/services/oauth-service';
 
 const router = Router();
 
@@ -211,7 +213,7 @@ router.patch('/:id/tier', async (req: Request, res: Response) => {
     
     // Validate request body
     const schema = z.object({
-      developerTier: z.enum(['free', 'basic', 'professional', 'enterprise']),
+      developerTier: z.enum(DEVELOPER_TIERS),
       monthlyQuota: z.number().int().positive().optional()
     });
     
@@ -231,23 +233,7 @@ router.patch('/:id/tier', async (req: Request, res: Response) => {
     }
     
     // Set default monthly quota based on tier if not provided
-    let monthlyQuota = validatedData.monthlyQuota;
-    if (!monthlyQuota) {
-      switch (validatedData.developerTier) {
-        case 'free':
-          monthlyQuota = 10000;
-          break;
-        case 'basic':
-          monthlyQuota = 100000;
-          break;
-        case 'professional':
-          monthlyQuota = 1000000;
-          break;
-        case 'enterprise':
-          monthlyQuota = 10000000;
-          break;
-      }
-    }
+    const monthlyQuota = validatedData.monthlyQuota ?? monthlyQuotaForTier(validatedData.developerTier);
     
     // Update developer tier and quota
     const [updatedAccount] = await db.update(apiDeveloperAccounts)
@@ -397,4 +383,74 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get OAuth clients waiting for review (admin only)
+ * GET /api/admin/developers/oauth-clients/pending
+ */
+router.get('/oauth-clients/pending', async (req: Request, res: Response) => {
+  try {
+    const clients = await oauthClientService.getPendingClients();
+
+    res.json({
+      data: clients.map(({ clientSecret, ...client }) => client)
+    });
+  } catch (error) {
+    console.error('Error getting pending OAuth clients:', error);
+    res.status(500).json({ 
+      error: 'server_error',
+      message: 'Failed to retrieve pending OAuth clients' 
+    });
+  }
+});
+
+/**
+ * Approve, reject or revoke an OAuth client (admin only)
+ * PATCH /api/admin/developers/oauth-clients/:clientId/status
+ */
+router.patch('/oauth-clients/:clientId/status', async (req: Request, res: Response) => {
+  try {
+    // Validate request body
+    const schema = z.object({
+      status: z.enum(['approved', 'rejected', 'revoked'])
+    });
+    
+    const validatedData = schema.parse(req.body);
+    
+    const client = await oauthClientService.getClientById(req.params.clientId);
+    if (!client) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'OAuth client not found'
+      });
+    }
+    
+    // Rejecting or revoking also revokes every token issued to the client
+    const { clientSecret, ...updated } = await oauthClientService.updateClientStatus(
+      client.clientId,
+      validatedData.status,
+      req.user!.id
+    );
+    
+    res.json({
+      message: `OAuth client ${validatedData.status} successfully`,
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error updating OAuth client status:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'validation_error',
+        message: 'Validation error',
+        details: error.errors 
+      });
+    }
+    
+    res.status(500).json({ 
+      error: 'server_error',
+      message: 'Failed to update OAuth client status' 
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
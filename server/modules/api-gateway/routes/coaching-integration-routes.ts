@@ -9,14 +9,17 @@
 import { Router, Request, Response } from 'express';
 import { apiKeyAuth } from '../middleware/api-key-auth';
 import { algorithmProtection } from '../middleware/algorithm-protection';
-import { triggerWeChatWebhook, triggerUserWebhook } from '../utils/webhook-delivery';
+import { publishDomainEvent } from '../../../core/events/domain-events';
 import { storage } from '../../../storage';
 import { db } from '../../../db';
 import { eq, and, or, like, desc, asc, gte, lte, inArray } from 'drizzle-orm';
 import { users } from '../../../../shared/schema';
 import { coachMarketplaceProfiles } from '../../../../shared/schema/coach-marketplace';
 import { coachProfiles } from '../../../../shared/schema/coach-management';
-import { bookingSlots, bookings } from '../../../../shared/schema/session-booking';
+import { bookingSlots } from '../../../../shared/schema/session-booking';
+import { bookSessionSlot } from '../../../services/session-slot-booking-service';
+import { bookingResponseData } from '../utils/booking-response';
+import { serviceErrorResponse } from '../utils/service-errors';
 
 const router = Router();
 
@@ -495,7 +498,8 @@ router.post('/coaching/book-session', async (req: Request, res: Response) => {
       student_info,
       wechat_user_id,
       payment_method,
-      special_requests
+      special_requests,
+      promo_code
     } = req.body;
 
     if (!slot_id || !student_info || !wechat_user_id) {
@@ -507,31 +511,7 @@ router.post('/coaching/book-session', async (req: Request, res: Response) => {
 
     console.log(`[COACHING API] Session booking request for slot: ${slot_id}`);
 
-    // Get slot details
-    const slot = await db
-      .select()
-      .from(bookingSlots)
-      .where(eq(bookingSlots.id, Number(slot_id)))
-      .limit(1);
-
-    if (slot.length === 0) {
-      return res.status(404).json({
-        error: 'slot_not_found',
-        error_description: 'Booking slot not found'
-      });
-    }
-
-    const bookingSlot = slot[0];
-
-    // Check availability
-    if (!bookingSlot.isAvailable || bookingSlot.currentBookings >= bookingSlot.maxStudents) {
-      return res.status(409).json({
-        error: 'slot_unavailable',
-        error_description: 'Booking slot is no longer available'
-      });
-    }
-
-    // Find or create student user
+    // Find the student user
     let studentUser;
     try {
       // Try to find existing WeChat user
@@ -551,70 +531,33 @@ router.post('/coaching/book-session', async (req: Request, res: Response) => {
       });
     }
 
-    // Create booking record
-    const newBooking = await db.insert(bookings).values({
-      slotId: Number(slot_id),
-      studentId: studentUser.id,
-      coachId: bookingSlot.coachId,
-      sessionDate: bookingSlot.sessionDate,
-      amountPaid: bookingSlot.pricePerStudent,
-      paymentStatus: 'pending',
-      paymentMethod: payment_method || 'wechat_pay',
-      status: 'confirmed',
-      skillLevel: student_info.skill_level,
-      goals: student_info.goals,
-      medicalNotes: student_info.medical_notes,
-      emergencyContact: student_info.emergency_contact
-    }).returning();
-
-    // Update slot capacity
-    await db
-      .update(bookingSlots)
-      .set({
-        currentBookings: bookingSlot.currentBookings + 1,
-        isAvailable: (bookingSlot.currentBookings + 1) < bookingSlot.maxStudents,
-        updatedAt: new Date()
-      })
-      .where(eq(bookingSlots.id, Number(slot_id)));
-
-    // Trigger webhooks for session booking
-    await triggerWeChatWebhook('session_booked', {
-      booking_id: newBooking[0].id,
-      student_user_id: studentUser.id,
-      coach_id: bookingSlot.coachId,
-      session_date: bookingSlot.sessionDate.toISOString(),
-      amount_paid: Number(bookingSlot.pricePerStudent),
-      booking_status: 'confirmed'
-    });
+    // Book the slot; a promo code is redeemed with the booking or not at all
+    const paymentMethod = payment_method || 'wechat_pay';
+    let booked;
+    try {
+      booked = await bookSessionSlot({
+        slotId: Number(slot_id),
+        studentId: studentUser.id,
+        paymentMethod,
+        promoCode: promo_code ? String(promo_code) : undefined,
+        studentInfo: {
+          skillLevel: student_info.skill_level,
+          goals: student_info.goals,
+          medicalNotes: student_info.medical_notes,
+          emergencyContact: student_info.emergency_contact
+        }
+      });
+    } catch (error) {
+      const rejection = serviceErrorResponse(error);
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.body);
+      }
+      throw error;
+    }
 
     const bookingResponse = {
       api_version: 'v1',
-      data: {
-        booking_id: newBooking[0].id,
-        status: 'confirmed',
-        session_details: {
-          date: bookingSlot.sessionDate.toISOString().split('T')[0],
-          start_time: bookingSlot.startTime.toISOString(),
-          end_time: bookingSlot.endTime.toISOString(),
-          location: bookingSlot.location,
-          court_number: bookingSlot.courtNumber
-        },
-        coach_info: {
-          coach_id: bookingSlot.coachId,
-          session_type: bookingSlot.sessionType,
-          focus: bookingSlot.focus
-        },
-        payment_info: {
-          amount_paid: Number(bookingSlot.pricePerStudent),
-          payment_status: 'pending',
-          payment_method: payment_method || 'wechat_pay'
-        },
-        booking_confirmation: {
-          confirmation_code: `PKL-${newBooking[0].id.toString().padStart(6, '0')}`,
-          booking_time: new Date().toISOString(),
-          cancellation_deadline: new Date(bookingSlot.sessionDate.getTime() - 24 * 60 * 60 * 1000).toISOString()
-        }
-      }
+      data: await bookingResponseData(booked, `${req.protocol}://${req.get('host')}`)
     };
 
     res.json(bookingResponse);
@@ -815,11 +758,12 @@ router.post('/coaching/connect', async (req: Request, res: Response) => {
     };
 
     // Trigger webhook for connection request
-    await triggerWeChatWebhook('coach_connection_requested', {
-      student_user_id: studentUser.id,
+    await publishDomainEvent(db, 'coaching_session.requested', {
+      request_id: null,
       coach_id: Number(coach_id),
-      connection_type,
-      request_message: message
+      student_user_id: studentUser.id,
+      session_type: connection_type ?? null,
+      requested_at: connectionResponse.data.created_at
     });
 
     res.json(connectionResponse);
@@ -926,17 +870,12 @@ router.post('/coaching/assess/:coachId', async (req: Request, res: Response) =>
     };
 
     // Trigger webhook for assessment submission
-    await triggerWeChatWebhook('coach_assessed', {
+    await publishDomainEvent(db, 'assessment.coach_rated', {
       coach_id: Number(coachId),
       student_user_id: studentUser.id,
-      overall_rating: rating,
-      booking_id,
-      assessment_data: {
-        technical_skills,
-        communication,
-        reliability,
-        value_for_money
-      }
+      booking_id: booking_id ? Number(booking_id) : null,
+      overall_rating: Number(rating),
+      rated_at: assessmentResponse.data.assessment_metadata.submitted_at
     });
 
     res.json(assessmentResponse);
@@ -12,6 +12,9 @@ import { db } from '../../../db';
 import { apiDeveloperAccounts, apiApplications, insertApiDeveloperAccountSchema, insertApiApplicationSchema } from '../../../../shared/schema/api-gateway';
 import { users } from '../../../../shared/schema';
 import { isAuthenticated } from '../../../auth';
+import { quotaPeriod } from '../../../../shared/utils/rateLimit';
+import { monthlyQuotaForTier } from '../config/rate-limits';
+import { getRateLimitStore } from '../utils/rate-limit-store';
 
 const router = Router();
 
@@ -126,8 +129,21 @@ router.get('/profile', isAuthenticated, async (req: Request, res: Response) => {
       });
     }
     
+    // This month's usage against the tier's quota
+    const account = developerAccount[0];
+    const period = quotaPeriod(new Date());
+    const store = await getRateLimitStore();
+    const used = await store.getQuotaUsage(`developer:${account.id}`, period.start);
+    
     res.json({
-      data: developerAccount[0]
+      data: {
+        ...account,
+        quota: {
+          monthlyQuota: account.monthlyQuota ?? monthlyQuotaForTier(account.developerTier ?? 'free'),
+          used,
+          resetsAt: period.end.toISOString()
+        }
+      }
     });
   } catch (error) {
     console.error('Error getting developer profile:', error);
@@ -157,8 +173,10 @@ router.patch('/profile', isAuthenticated, async (req: Request, res: Response) =>
       });
     }
     
-    // Validate request body (partial)
-    const updateSchema = insertApiDeveloperAccountSchema.partial();
+    // Validate request body (partial); tier, quota and approval are set by admins
+    const updateSchema = insertApiDeveloperAccountSchema.omit({
+      userId: true, developerTier: true, monthlyQuota: true, isApproved: true, approvalDate: true, isTestAccount: true
+    }).partial();
     const validatedData = updateSchema.parse(req.body);
     
     // Update developer account
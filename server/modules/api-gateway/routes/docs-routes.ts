@@ -10,6 +10,7 @@ import { z } from 'zod';
 import { eq, and, asc, sql } from 'drizzle-orm';
 import { db } from '../../../db';
 import { apiDocumentation } from '../../../../shared/schema/api-gateway';
+import { buildV1OpenApiDocument } from '../utils/openapi-document';
 
 const router = Router();
 
@@ -177,23 +178,12 @@ router.get('/tags', async (req: Request, res: Response) => {
 });
 
 /**
- * Generate OpenAPI specification
+ * OpenAPI specification for the v1 API, generated from its route definitions
  * GET /api/docs/openapi
  */
-router.get('/openapi', async (req: Request, res: Response) => {
+router.get('/openapi', (req: Request, res: Response) => {
   try {
-    // Get all documentation
-    const endpoints = await db.select()
-      .from(apiDocumentation)
-      .orderBy(
-        asc(apiDocumentation.endpoint),
-        asc(apiDocumentation.method)
-      );
-    
-    // Generate OpenAPI specification
-    const openApiSpec = generateOpenApiSpec(endpoints);
-    
-    res.json(openApiSpec);
+    res.json(buildV1OpenApiDocument(`${req.protocol}://${req.get('host')}`));
   } catch (error) {
     console.error('Error generating OpenAPI specification:', error);
     res.status(500).json({ 
@@ -203,122 +193,6 @@ router.get('/openapi', async (req: Request, res: Response) => {
   }
 });
 
-/**
- * Generate OpenAPI specification from documentation
- */
-function generateOpenApiSpec(endpoints: any[]): any {
-  // Group endpoints by version
-  const endpointsByVersion: Record<string, any[]> = {};
-  
-  endpoints.forEach(endpoint => {
-    const version = endpoint.version || 'latest';
-    if (!endpointsByVersion[version]) {
-      endpointsByVersion[version] = [];
-    }
-    endpointsByVersion[version].push(endpoint);
-  });
-  
-  // Get the latest version
-  const latestVersion = Object.keys(endpointsByVersion).sort().pop() || 'latest';
-  const latestEndpoints = endpointsByVersion[latestVersion];
-  
-  // Build paths object
-  const paths: Record<string, any> = {};
-  
-  latestEndpoints.forEach(endpoint => {
-    const path = `/api/v1${endpoint.endpoint}`;
-    
-    if (!paths[path]) {
-      paths[path] = {};
-    }
-    
-    const method = endpoint.method.toLowerCase();
-    
-    // Transform request and response schemas
-    const requestSchema = endpoint.requestSchema || null;
-    const responseSchema = endpoint.responseSchema || null;
-    
-    paths[path][method] = {
-      summary: endpoint.summary,
-      description: endpoint.description,
-      tags: endpoint.tags ? endpoint.tags.split(',') : [],
-      security: endpoint.authRequired ? [
-        {
-          ApiKeyAuth: endpoint.requiredScopes ? endpoint.requiredScopes.split(',') : []
-        }
-      ] : [],
-      deprecated: endpoint.deprecated,
-      ...(requestSchema && {
-        requestBody: {
-          content: {
-            'application/json': {
-              schema: requestSchema
-            }
-          }
-        }
-      }),
-      responses: {
-        '200': {
-          description: 'Successful response',
-          ...(responseSchema && {
-            content: {
-              'application/json': {
-                schema: responseSchema
-              }
-            }
-          })
-        },
-        '401': {
-          description: 'Unauthorized - Missing or invalid API key'
-        },
-        '403': {
-          description: 'Forbidden - Insufficient scope'
-        },
-        '429': {
-          description: 'Too Many Requests - Rate limit exceeded'
-        }
-      }
-    };
-  });
-  
-  // Build components object
-  const components = {
-    securitySchemes: {
-      ApiKeyAuth: {
-        type: 'apiKey',
-        in: 'header',
-        name: 'X-API-Key'
-      },
-      BearerAuth: {
-        type: 'http',
-        scheme: 'bearer'
-      }
-    }
-  };
-  
-  // Build final OpenAPI specification
-  return {
-    openapi: '3.0.0',
-    info: {
-      title: 'Pickle+ API',
-      description: 'API for accessing Pickle+ functionality',
-      version: latestVersion
-    },
-    servers: [
-      {
-        url: 'https://api.pickleplus.com',
-        description: 'Production server'
-      },
-      {
-        url: 'https://sandbox.pickleplus.com',
-        description: 'Sandbox server'
-      }
-    ],
-    paths,
-    components
-  };
-}
-
 /**
  * Render API documentation UI
  * GET /api/docs
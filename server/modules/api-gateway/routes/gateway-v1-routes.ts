@@ -3,18 +3,152 @@
  * Gateway V1 Routes
  * 
  * Main gateway routes that expose Pickle+ functionality to external applications.
+ *
+ * Callers authenticate with an API key or with an OAuth access token granted
+ * by a player; each route states the scopes it needs. Player-specific routes
+ * default to the consenting player for OAuth requests.
+ *
+ * Routes are declared from the operations in config/v1-operations.ts, which
+ * the OpenAPI document is generated from. Writes go through the same services
+ * as the app and accept an Idempotency-Key header so partners can retry them.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { apiKeyAuth } from '../middleware/api-key-auth';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db } from '../../../db';
+import { tournaments } from '../../../../shared/schema';
+import { gatewayAuth, requireScopes } from '../middleware/gateway-auth';
+import { credentialKey } from '../middleware/api-key-auth';
 import { apiRateLimiter } from '../middleware/rate-limiter';
 import { algorithmProtection, sanitizeAlgorithmData } from '../middleware/algorithm-protection';
-import { getScopeDetails, requiresApproval } from '../config/api-scopes';
+import { idempotency } from '../middleware/idempotency';
+import {
+  createBooking,
+  getCourtIQPerformance,
+  getMultiRankingPosition,
+  getRankings,
+  getUserProfile,
+  listMatches,
+  listTournaments,
+  registerTournamentPlayer,
+  submitMatch,
+  createBookingSchema,
+  matchesQuerySchema,
+  playerQuerySchema,
+  rankingsQuerySchema,
+  registerTournamentSchema,
+  submitMatchSchema,
+  tournamentParamsSchema,
+  tournamentsQuerySchema,
+  type ApiOperation,
+  type PlayerRefInput
+} from '../config/v1-operations';
+import { serviceErrorResponse, type ServiceErrorResponse } from '../utils/service-errors';
+import { bookingResponseData } from '../utils/booking-response';
+import {
+  ingestMatch,
+  PENDING_CERTIFICATION_VALUES,
+  resolvePlayerRefs,
+  resultFromGames,
+  type MatchPlayerRef
+} from '../../../services/match-ingestion-service';
+import { registerForTournament } from '../../../services/tournament-registration-service';
+import { bookSessionSlot } from '../../../services/session-slot-booking-service';
 
 const router = Router();
 
+/**
+ * Checks the operation's scopes, replays retried writes, then validates the
+ * path, query and body against the operation's schemas. Parsed values are
+ * left in res.locals.params, res.locals.query and res.locals.body.
+ */
+const operation = (op: ApiOperation) => [
+  requireScopes(...op.scopes),
+  ...(op.idempotent ? [idempotency()] : []),
+  (req: Request, res: Response, next: NextFunction) => {
+    const parts = [
+      ['params', op.params, req.params],
+      ['query', op.query, req.query],
+      ['body', op.body, req.body]
+    ] as const;
+
+    for (const [part, schema, value] of parts) {
+      if (!schema) continue;
+
+      const parsed = schema.safeParse(value ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'invalid_request',
+          error_description: parsed.error.issues
+            .map(issue => `${[part, ...issue.path].join('.')}: ${issue.message}`)
+            .join('; ')
+        });
+      }
+      res.locals[part] = parsed.data;
+    }
+
+    next();
+  }
+];
+
+/**
+ * The player a request is about: the user_id parameter, or for OAuth
+ * requests without one, the player who granted the token
+ */
+const requestedUserId = (req: Request, res: Response) =>
+  (res.locals.query as z.infer<typeof playerQuerySchema>).user_id || req.apiKey?.oauth?.userId;
+
+const toPlayerRef = (player: PlayerRefInput): MatchPlayerRef =>
+  'user_id' in player ? { userId: player.user_id } : { passportCode: player.passport_code };
+
+/**
+ * The player a write acts for. OAuth requests act for the consenting player
+ * and may not name anyone else; API key requests must name the player.
+ */
+async function actingPlayer(req: Request, player?: PlayerRefInput): Promise<{ userId: number } | ServiceErrorResponse> {
+  const consentingUserId = req.apiKey?.oauth?.userId;
+
+  if (!player) {
+    return consentingUserId
+      ? { userId: consentingUserId }
+      : { status: 400, body: { error: 'invalid_request', error_description: 'player is required when calling with an API key' } };
+  }
+
+  const [userId] = await resolvePlayerRefs([toPlayerRef(player)]);
+  if (!userId) {
+    return { status: 404, body: { error: 'player_not_found', error_description: 'Player not found' } };
+  }
+
+  if (consentingUserId && userId !== consentingUserId) {
+    return {
+      status: 403,
+      body: { error: 'player_not_authorized', error_description: 'An OAuth token can only act for the player who granted it' }
+    };
+  }
+
+  return { userId };
+}
+
+/**
+ * Responds to a failed write: service rejections partners can act on keep
+ * their status, anything else is a server error
+ */
+function handleWriteError(res: Response, error: unknown, context: string) {
+  const rejection = serviceErrorResponse(error);
+  if (rejection) {
+    return res.status(rejection.status).json(rejection.body);
+  }
+
+  console.error(`Error in gateway ${context} endpoint:`, error);
+  res.status(500).json({
+    error: 'server_error',
+    error_description: 'An error occurred processing your request'
+  });
+}
+
 // Apply comprehensive protection to all gateway routes
-router.use(apiKeyAuth());
+router.use(gatewayAuth());
 router.use(apiRateLimiter());
 router.use(algorithmProtection({
   enableSuspiciousPatternDetection: true,
@@ -30,10 +164,10 @@ router.use((req: Request, res: Response, next: NextFunction) => {
 });
 
 // User endpoints
-router.get('/users/profile', async (req: Request, res: Response) => {
+router.get(getUserProfile.path, operation(getUserProfile), async (req: Request, res: Response) => {
   try {
     // Proxy to internal API with limited/filtered fields
-    const userId = req.query.user_id || req.query.userId;
+    const userId = requestedUserId(req, res);
     if (!userId) {
       return res.status(400).json({
         error: 'bad_request',
@@ -41,14 +175,6 @@ router.get('/users/profile', async (req: Request, res: Response) => {
       });
     }
     
-    // Forward to internal API with appropriate scopes
-    if (!req.apiKey || !req.apiKey.scopes.includes('user:read')) {
-      return res.status(403).json({
-        error: 'insufficient_scope',
-        error_description: 'Requires user:read scope'
-      });
-    }
-    
     // Internal API call would go here
     // For now, return a placeholder response
     res.json({
@@ -67,19 +193,10 @@ router.get('/users/profile', async (req: Request, res: Response) => {
 });
 
 // Match endpoints
-router.get('/matches', async (req: Request, res: Response) => {
+router.get(listMatches.path, operation(listMatches), async (req: Request, res: Response) => {
   try {
-    // Check required scope
-    if (!req.apiKey || !req.apiKey.scopes.includes('match:read')) {
-      return res.status(403).json({
-        error: 'insufficient_scope',
-        error_description: 'Requires match:read scope'
-      });
-    }
-    
     // Handle pagination parameters
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
+    const { page, limit } = res.locals.query as z.infer<typeof matchesQuerySchema>;
     
     // Internal API call would go here
     // For now, return a placeholder response
@@ -102,21 +219,106 @@ router.get('/matches', async (req: Request, res: Response) => {
   }
 });
 
-// Tournament endpoints
-router.get('/tournaments', async (req: Request, res: Response) => {
+router.post(submitMatch.path, operation(submitMatch), async (req: Request, res: Response) => {
   try {
-    // Check required scope
-    if (!req.apiKey || !req.apiKey.scopes.includes('tournament:read')) {
-      return res.status(403).json({
-        error: 'insufficient_scope',
-        error_description: 'Requires tournament:read scope'
+    const body = res.locals.body as z.infer<typeof submitMatchSchema>;
+    const team1 = body.team1.map(toPlayerRef);
+    const team2 = body.team2.map(toPlayerRef);
+
+    // OAuth tokens only submit the consenting player's own matches
+    const consentingUserId = req.apiKey?.oauth?.userId;
+    if (consentingUserId) {
+      const userIds = await resolvePlayerRefs([...team1, ...team2]);
+      if (!userIds.includes(consentingUserId)) {
+        return res.status(403).json({
+          error: 'player_not_authorized',
+          error_description: 'An OAuth token can only submit matches the player who granted it took part in'
+        });
+      }
+    }
+
+    if (body.tournament_id) {
+      const [tournament] = await db.select({ id: tournaments.id })
+        .from(tournaments)
+        .where(eq(tournaments.id, body.tournament_id));
+
+      if (!tournament) {
+        return res.status(404).json({
+          error: 'tournament_not_found',
+          error_description: 'Tournament not found'
+        });
+      }
+    }
+
+    // Recorded the way a player records a match in the app: pending until
+    // its players certify it, and no points until they have
+    const result = resultFromGames(body.games);
+    const ingestion = await ingestMatch({
+      team1,
+      team2,
+      team1Score: result.team1Score,
+      team2Score: result.team2Score,
+      games: body.games,
+      winner: result.winner,
+      matchDate: body.match_date ?? new Date(),
+      // The partner's own ID makes a resubmission of the same match a duplicate
+      sourceReference: body.external_id ? `api:${req.apiKey!.applicationId}:${body.external_id}` : null,
+      values: {
+        matchType: body.match_type,
+        ...PENDING_CERTIFICATION_VALUES,
+        notes: `${body.notes || ''} [Game Scores: ${result.gameScores}]`.trim(),
+        location: body.location ?? null,
+        tournamentId: body.tournament_id ?? null
+      }
+    }, { source: 'api-v1' });
+
+    if (ingestion.status === 'duplicate') {
+      return res.status(409).json({
+        error: 'duplicate_match',
+        error_description: 'This result was already recorded',
+        duplicate_of_match_id: ingestion.duplicateOfMatchId
       });
     }
-    
+
+    if (ingestion.status === 'rejected') {
+      return res.status(400).json({
+        error: 'invalid_match',
+        error_description: ingestion.message,
+        reason: ingestion.reason
+      });
+    }
+
+    const match = ingestion.match;
+    res.status(201).json({
+      api_version: 'v1',
+      data: {
+        match_id: match.id,
+        certification_status: match.certificationStatus,
+        format: match.formatType,
+        match_type: match.matchType,
+        match_date: match.matchDate?.toISOString() ?? null,
+        team1: [match.playerOneId, match.playerOnePartnerId].filter(Boolean),
+        team2: [match.playerTwoId, match.playerTwoPartnerId].filter(Boolean),
+        winning_team: result.winner,
+        game_scores: result.gameScores,
+        tournament_id: match.tournamentId,
+        external_id: body.external_id ?? null
+      }
+    });
+  } catch (error) {
+    handleWriteError(res, error, 'match submission');
+  }
+});
+
+// Tournament endpoints
+router.get(listTournaments.path, operation(listTournaments), async (req: Request, res: Response) => {
+  try {
     // Handle filter parameters
-    const status = req.query.status;
-    const startDate = req.query.start_date;
-    const endDate = req.query.end_date;
+    const {
+      status,
+      start_date: startDate,
+      end_date: endDate
+    } = res.locals.query as z.infer<typeof tournamentsQuerySchema>;
     
     // Internal API call would go here
     // For now, return a placeholder response
@@ -141,25 +343,85 @@ router.get('/tournaments', async (req: Request, res: Response) => {
   }
 });
 
+router.post(registerTournamentPlayer.path, operation(registerTournamentPlayer), async (req: Request, res: Response) => {
+  try {
+    const { id: tournamentId } = res.locals.params as z.infer<typeof tournamentParamsSchema>;
+    const body = res.locals.body as z.infer<typeof registerTournamentSchema>;
+
+    const player = await actingPlayer(req, body.player);
+    if ('status' in player) {
+      return res.status(player.status).json(player.body);
+    }
+
+    const { registration, promo } = await registerForTournament(tournamentId, player.userId, body.promo_code);
+
+    res.status(201).json({
+      api_version: 'v1',
+      data: {
+        registration_id: registration.id,
+        tournament_id: registration.tournamentId,
+        user_id: registration.userId,
+        status: registration.status,
+        registered_at: (registration.registrationDate ?? new Date()).toISOString(),
+        promo: promo && {
+          code: promo.code,
+          original_cents: promo.originalCents,
+          discount_cents: promo.discountCents,
+          entry_fee_cents: promo.entryFeeCents
+        }
+      }
+    });
+  } catch (error) {
+    handleWriteError(res, error, 'tournament registration');
+  }
+});
+
+// Booking endpoints
+router.post(createBooking.path, operation(createBooking), async (req: Request, res: Response) => {
+  try {
+    const body = res.locals.body as z.infer<typeof createBookingSchema>;
+
+    const player = await actingPlayer(req, body.player);
+    if ('status' in player) {
+      return res.status(player.status).json(player.body);
+    }
+
+    // Booked the way a student books in the app; a promo code is redeemed
+    // with the booking or not at all
+    const booked = await bookSessionSlot({
+      slotId: body.slot_id,
+      studentId: player.userId,
+      paymentMethod: body.payment_method,
+      promoCode: body.promo_code,
+      studentInfo: body.student_info && {
+        skillLevel: body.student_info.skill_level,
+        goals: body.student_info.goals,
+        medicalNotes: body.student_info.medical_notes,
+        emergencyContact: body.student_info.emergency_contact
+      }
+    });
+
+    res.status(201).json({
+      api_version: 'v1',
+      data: await bookingResponseData(booked, `${req.protocol}://${req.get('host')}`)
+    });
+  } catch (error) {
+    handleWriteError(res, error, 'booking');
+  }
+});
+
 // Rankings endpoints - IP PROTECTED
-router.get('/rankings', async (req: Request, res: Response) => {
+router.get(getRankings.path, operation(getRankings), async (req: Request, res: Response) => {
   try {
     // Multi-tier scope validation for algorithm protection
-    const hasBasicRead = req.apiKey?.scopes.includes('ranking:read');
     const hasAdvancedRead = req.apiKey?.scopes.includes('ranking:advanced');
     const hasAlgorithmAccess = req.apiKey?.scopes.includes('ranking:algorithm'); // Restricted scope
     
-    if (!hasBasicRead) {
-      return res.status(403).json({
-        error: 'insufficient_scope',
-        error_description: 'Requires ranking:read scope'
-      });
-    }
-    
     // Handle filter parameters with rate limiting for bulk extraction protection
-    const tier = req.query.tier;
-    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50); // Max 50 to prevent bulk extraction
-    const page = parseInt(req.query.page as string) || 1;
+    const query = res.locals.query as z.infer<typeof rankingsQuerySchema>;
+    const tier = query.tier;
+    const limit = Math.min(query.limit, 50); // Max 50 to prevent bulk extraction
+    const page = query.page;
     
     // Algorithm Protection Logic
     let responseData: any = {
@@ -173,11 +435,11 @@ router.get('/rankings', async (req: Request, res: Response) => {
           total: 0
         },
         // Basic tier: Only show final positions
-        metadata: hasBasicRead ? {
+        metadata: {
           tier,
           last_updated: new Date().toISOString(),
           data_freshness: "live" // Don't reveal calculation frequency
-        } : undefined
+        }
       }
     };
     
@@ -207,7 +469,7 @@ router.get('/rankings', async (req: Request, res: Response) => {
       };
       
       // Log high-privilege access for monitoring
-      console.log(`[SECURITY] Algorithm access used by API key: ${(req as any).apiKey?.keyPrefix} for rankings`);
+      console.log(`[SECURITY] Algorithm access used by ${credentialKey(req.apiKey!)} for rankings`);
     }
     
     // Add data obfuscation timestamp to prevent reverse engineering
@@ -224,17 +486,9 @@ router.get('/rankings', async (req: Request, res: Response) => {
 });
 
 // CourtIQ Performance endpoints
-router.get('/courtiq/performance', async (req: Request, res: Response) => {
+router.get(getCourtIQPerformance.path, operation(getCourtIQPerformance), async (req: Request, res: Response) => {
   try {
-    // Check required scope
-    if (!req.apiKey || !req.apiKey.scopes.includes('courtiq:read')) {
-      return res.status(403).json({
-        error: 'insufficient_scope',
-        error_description: 'Requires courtiq:read scope'
-      });
-    }
-    
-    const userId = req.query.user_id || req.query.userId;
+    const userId = requestedUserId(req, res);
     if (!userId) {
       return res.status(400).json({
         error: 'bad_request',
@@ -261,17 +515,9 @@ router.get('/courtiq/performance', async (req: Request, res: Response) => {
 });
 
 // Multi-dimensional rankings position endpoint
-router.get('/multi-rankings/position', async (req: Request, res: Response) => {
+router.get(getMultiRankingPosition.path, operation(getMultiRankingPosition), async (req: Request, res: Response) => {
   try {
-    // Check required scope
-    if (!req.apiKey || !req.apiKey.scopes.includes('ranking:read')) {
-      return res.status(403).json({
-        error: 'insufficient_scope',
-        error_description: 'Requires ranking:read scope'
-      });
-    }
-    
-    const userId = req.query.user_id || req.query.userId;
+    const userId = requestedUserId(req, res);
     if (!userId) {
       return res.status(400).json({
         error: 'bad_request',
@@ -8,6 +8,7 @@
 import { Router, Request, Response } from 'express';
 import developerRoutes from './developer-routes';
 import keyManagementRoutes from './key-management-routes';
+import oauthClientRoutes from './oauth-client-routes';
 import gatewayV1Routes from './gateway-v1-routes';
 import webhookRoutes from './webhook-routes';
 import adminRoutes from './admin-routes';
@@ -25,6 +26,7 @@ const API_BASE_PATH = `/api/${API_VERSION}`;
 // Register all routes
 apiGatewayRouter.use('/api/developer', developerRoutes);
 apiGatewayRouter.use('/api/developer/keys', keyManagementRoutes);
+apiGatewayRouter.use('/api/developer/oauth-clients', oauthClientRoutes);
 apiGatewayRouter.use('/api/developer/webhooks', webhookRoutes);
 apiGatewayRouter.use('/api/admin/developers', adminRoutes);
 apiGatewayRouter.use('/api/docs', docsRoutes);
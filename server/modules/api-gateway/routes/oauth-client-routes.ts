@@ -0,0 +1,314 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * OAuth Client Routes
+ *
+ * Routes for registering OAuth clients, which let a developer's application
+ * call the gateway on behalf of players who consent. A client belongs to one
+ * of the developer's applications, and its calls count against that
+ * application's tier, rate limits and quota. Clients may only request scopes
+ * their developer tier allows; clients needing scopes that require approval
+ * wait for an admin before players can authorize them.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { eq, and } from 'drizzle-orm';
+import { db } from '../../../db';
+import { apiDeveloperAccounts, apiApplications } from '../../../../shared/schema/api-gateway';
+import type { OAuthClient } from '../../../../shared/schema/oauth';
+import { isAuthenticated } from '../../../auth';
+import { isValidRedirectUri } from '../../../../shared/utils/oauthGrant';
+import { API_SCOPES, requiresApproval, validateScopesForTier } from '../config/api-scopes';
+import { oauthClientService } from '../../../oauth/services/oauth-service';
+
+const router = Router();
+
+const KNOWN_SCOPES = API_SCOPES.map(scope => scope.scope);
+
+const redirectUrisSchema = z.array(
+  z.string().refine(isValidRedirectUri, {
+    message: 'Redirect URIs must be absolute HTTPS URLs without a fragment (HTTP is allowed for localhost)'
+  })
+).min(1).max(10);
+
+const allowedScopesSchema = z.array(
+  z.string().refine(scope => KNOWN_SCOPES.includes(scope), { message: 'Unknown scope' })
+).min(1);
+
+// Schema for registering an OAuth client
+const createClientSchema = z.object({
+  applicationId: z.number().int().positive(),
+  name: z.string().min(3).max(100),
+  description: z.string().max(1000).optional(),
+  websiteUrl: z.string().url().optional(),
+  logoUrl: z.string().url().optional(),
+  privacyPolicyUrl: z.string().url().optional(),
+  termsOfServiceUrl: z.string().url().optional(),
+  redirectUris: redirectUrisSchema,
+  allowedScopes: allowedScopesSchema,
+  isPublicClient: z.boolean().optional().default(false)
+});
+
+// Schema for updating an OAuth client
+const updateClientSchema = createClientSchema.omit({ applicationId: true, isPublicClient: true }).partial();
+
+/**
+ * A client as shown to its developer, never with the secret hash
+ */
+const toClientResponse = ({ clientSecret, ...client }: OAuthClient) => client;
+
+/**
+ * Get the current user's developer account
+ */
+const getDeveloperAccount = async (userId: number) => {
+  const [developerAccount] = await db.select()
+    .from(apiDeveloperAccounts)
+    .where(eq(apiDeveloperAccounts.userId, userId))
+    .limit(1);
+  return developerAccount;
+};
+
+/**
+ * Check requested scopes against the developer's tier
+ */
+const checkScopesForTier = (res: Response, scopes: string[], developerTier: string | null): boolean => {
+  const validation = validateScopesForTier(scopes, developerTier || 'free');
+  if (!validation.valid) {
+    res.status(403).json({
+      error: 'scope_not_allowed',
+      message: 'Some scopes are not available for your developer tier',
+      denied_scopes: validation.deniedScopes
+    });
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Get one of the current user's clients
+ */
+const getOwnClient = async (req: Request, res: Response): Promise<OAuthClient | null> => {
+  const client = await oauthClientService.getClientById(req.params.clientId);
+  if (!client || client.developerId !== req.user!.id) {
+    res.status(404).json({
+      error: 'not_found',
+      message: 'OAuth client not found'
+    });
+    return null;
+  }
+  return client;
+};
+
+/**
+ * Get all OAuth clients for current developer
+ * GET /api/developer/oauth-clients
+ */
+router.get('/', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const clients = await oauthClientService.getClientsByDeveloper(req.user!.id);
+
+    res.json({
+      data: clients.map(toClientResponse)
+    });
+  } catch (error) {
+    console.error('Error getting OAuth clients:', error);
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to retrieve OAuth clients'
+    });
+  }
+});
+
+/**
+ * Register a new OAuth client
+ * POST /api/developer/oauth-clients
+ */
+router.post('/', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    // Validate request body
+    const validatedData = createClientSchema.parse(req.body);
+
+    const developerAccount = await getDeveloperAccount(req.user!.id);
+    if (!developerAccount) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Developer account not found'
+      });
+    }
+
+    // Verify application belongs to developer
+    const [application] = await db.select()
+      .from(apiApplications)
+      .where(
+        and(
+          eq(apiApplications.id, validatedData.applicationId),
+          eq(apiApplications.developerId, developerAccount.id)
+        )
+      )
+      .limit(1);
+
+    if (!application) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Application not found'
+      });
+    }
+
+    if (!checkScopesForTier(res, validatedData.allowedScopes, developerAccount.developerTier)) {
+      return;
+    }
+
+    // Ready for players once the application is approved, unless a scope needs review
+    const needsReview = application.status !== 'approved' ||
+      !developerAccount.isApproved ||
+      validatedData.allowedScopes.some(requiresApproval);
+
+    const { client, clientSecret } = await oauthClientService.createClient(
+      validatedData,
+      req.user!.id,
+      needsReview ? 'pending' : 'approved'
+    );
+
+    // Return the secret only once
+    res.status(201).json({
+      message: 'OAuth client registered successfully',
+      data: {
+        ...toClientResponse(client),
+        clientSecret
+      },
+      important: clientSecret
+        ? 'Save this client secret securely. This is the only time it will be shown.'
+        : 'Public clients have no secret and must use PKCE for every authorization.'
+    });
+  } catch (error) {
+    console.error('Error registering OAuth client:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Validation error',
+        details: error.errors
+      });
+    }
+
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to register OAuth client'
+    });
+  }
+});
+
+/**
+ * Update an OAuth client
+ * PATCH /api/developer/oauth-clients/:clientId
+ */
+router.patch('/:clientId', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validatedData = updateClientSchema.parse(req.body);
+
+    const client = await getOwnClient(req, res);
+    if (!client) return;
+
+    if (client.status === 'revoked' || client.status === 'rejected') {
+      return res.status(409).json({
+        error: 'client_inactive',
+        message: `OAuth client has been ${client.status}`
+      });
+    }
+
+    let status: 'pending' | undefined;
+    if (validatedData.allowedScopes) {
+      const developerAccount = await getDeveloperAccount(req.user!.id);
+      if (!checkScopesForTier(res, validatedData.allowedScopes, developerAccount?.developerTier ?? null)) {
+        return;
+      }
+
+      // New scopes that need approval send the client back for review
+      const added = validatedData.allowedScopes.filter(scope => !client.allowedScopes.includes(scope));
+      if (added.some(requiresApproval)) {
+        status = 'pending';
+      }
+    }
+
+    const updated = await oauthClientService.updateClient(client.clientId, { ...validatedData, status });
+
+    res.json({
+      message: status === 'pending'
+        ? 'OAuth client updated; the new scopes need approval before players can grant them'
+        : 'OAuth client updated successfully',
+      data: toClientResponse(updated)
+    });
+  } catch (error) {
+    console.error('Error updating OAuth client:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Validation error',
+        details: error.errors
+      });
+    }
+
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to update OAuth client'
+    });
+  }
+});
+
+/**
+ * Replace a confidential client's secret
+ * POST /api/developer/oauth-clients/:clientId/rotate-secret
+ */
+router.post('/:clientId/rotate-secret', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const client = await getOwnClient(req, res);
+    if (!client) return;
+
+    if (client.isPublicClient) {
+      return res.status(400).json({
+        error: 'public_client',
+        message: 'Public clients have no secret'
+      });
+    }
+
+    const clientSecret = await oauthClientService.rotateClientSecret(client.clientId);
+
+    res.json({
+      message: 'Client secret rotated successfully',
+      data: { clientId: client.clientId, clientSecret },
+      important: 'Save this client secret securely. This is the only time it will be shown.'
+    });
+  } catch (error) {
+    console.error('Error rotating OAuth client secret:', error);
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to rotate client secret'
+    });
+  }
+});
+
+/**
+ * Revoke an OAuth client and every token issued to it
+ * DELETE /api/developer/oauth-clients/:clientId
+ */
+router.delete('/:clientId', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const client = await getOwnClient(req, res);
+    if (!client) return;
+
+    await oauthClientService.revokeClient(client.clientId);
+
+    res.json({
+      message: 'OAuth client revoked successfully'
+    });
+  } catch (error) {
+    console.error('Error revoking OAuth client:', error);
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to revoke OAuth client'
+    });
+  }
+});
+
+export default router;
@@ -7,20 +7,99 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc, asc, inArray } from 'drizzle-orm';
 import { db } from '../../../db';
-import { apiDeveloperAccounts, apiApplications, apiWebhooks, apiWebhookDeliveryLogs, insertApiWebhookSchema } from '../../../../shared/schema/api-gateway';
+import {
+  apiDeveloperAccounts,
+  apiApplications,
+  apiWebhooks,
+  apiWebhookDeliveries,
+  apiWebhookDeliveryLogs,
+  apiWebhookOutbox,
+  insertApiWebhookSchema
+} from '../../../../shared/schema/api-gateway';
 import { isAuthenticated } from '../../../auth';
 import { prepareApiKey } from '../utils/key-generator';
+import { redeliverWebhookDelivery, replayDeadDeliveries } from '../utils/webhook-delivery';
+import { resolveWebhookTarget } from '../utils/webhook-target';
+import {
+  CURRENT_WEBHOOK_API_VERSION,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  isKnownWebhookEvent
+} from '../config/webhook-events';
 import crypto from 'crypto';
 
 const router = Router();
 
-// Schema for creating a new webhook
-const createWebhookSchema = insertApiWebhookSchema.extend({
+// Subscriptions must name catalogue events (or '*'); stored comma-separated
+const webhookEventsSchema = z.array(
+  z.string().refine(isKnownWebhookEvent, event => ({ message: `Unknown webhook event: ${event}` }))
+).min(1).transform(events => events.join(','));
+
+// Schema for creating a new webhook; the secret is generated here
+const createWebhookSchema = insertApiWebhookSchema.omit({ secret: true }).extend({
   applicationId: z.number().int().positive(),
   url: z.string().url(),
-  events: z.array(z.string()).min(1)
+  events: webhookEventsSchema
+});
+
+const updateWebhookSchema = insertApiWebhookSchema.omit({ secret: true, applicationId: true }).partial().extend({
+  url: z.string().url().optional(),
+  events: webhookEventsSchema.optional()
+});
+
+/**
+ * Reject webhook URLs that aren't https or don't resolve to a public address
+ * @returns A 400 body, or null if the URL is allowed
+ */
+async function checkWebhookUrl(url: string) {
+  try {
+    await resolveWebhookTarget(url);
+    return null;
+  } catch (error) {
+    return {
+      error: 'invalid_url',
+      message: error instanceof Error ? error.message : 'Webhook URL is not allowed'
+    };
+  }
+}
+
+const deliveryListQuerySchema = z.object({
+  status: z.enum(['pending', 'retrying', 'succeeded', 'dead']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+const replaySchema = z.object({
+  since: z.coerce.date().optional()
+});
+
+/**
+ * Find a webhook that belongs to one of the user's applications
+ */
+async function findDeveloperWebhook(userId: number, webhookId: number) {
+  const [row] = await db.select({ webhook: apiWebhooks })
+    .from(apiWebhooks)
+    .innerJoin(apiApplications, eq(apiWebhooks.applicationId, apiApplications.id))
+    .innerJoin(apiDeveloperAccounts, eq(apiApplications.developerId, apiDeveloperAccounts.id))
+    .where(and(eq(apiWebhooks.id, webhookId), eq(apiDeveloperAccounts.userId, userId)))
+    .limit(1);
+
+  return row?.webhook ?? null;
+}
+
+/**
+ * List the events webhooks can subscribe to
+ * GET /api/developer/webhooks/events
+ */
+router.get('/events', isAuthenticated, (req: Request, res: Response) => {
+  res.json({
+    api_version: CURRENT_WEBHOOK_API_VERSION,
+    data: Object.values(WEBHOOK_EVENTS).map(event => ({
+      event,
+      description: WEBHOOK_EVENT_DESCRIPTIONS[event]
+    }))
+  });
 });
 
 /**
@@ -64,10 +143,12 @@ router.get('/', isAuthenticated, async (req: Request, res: Response) => {
       failureCount: apiWebhooks.failureCount,
       lastFailure: apiWebhooks.lastFailure,
       lastSuccess: apiWebhooks.lastSuccess,
+      disabledAt: apiWebhooks.disabledAt,
+      disabledReason: apiWebhooks.disabledReason,
       createdAt: apiWebhooks.createdAt
     })
     .from(apiWebhooks)
-    .where(apiWebhooks.applicationId.in(applicationIds));
+    .where(inArray(apiWebhooks.applicationId, applicationIds));
     
     res.json({
       data: webhooks.map(webhook => ({
@@ -90,14 +171,14 @@ router.get('/', isAuthenticated, async (req: Request, res: Response) => {
  */
 router.post('/', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    // Transform the events array to a comma-separated string
-    if (req.body.events && Array.isArray(req.body.events)) {
-      req.body.events = req.body.events.join(',');
-    }
-    
     // Validate request body
     const validatedData = createWebhookSchema.parse(req.body);
     
+    const urlError = await checkWebhookUrl(validatedData.url);
+    if (urlError) {
+      return res.status(400).json(urlError);
+    }
+    
     // Get developer account for current user
     const developerAccount = await db.select()
       .from(apiDeveloperAccounts)
@@ -137,9 +218,7 @@ router.post('/', isAuthenticated, async (req: Request, res: Response) => {
       .values({
         applicationId: validatedData.applicationId,
         url: validatedData.url,
-        events: typeof validatedData.events === 'string' 
-          ? validatedData.events 
-          : validatedData.events.join(','),
+        events: validatedData.events,
         isActive: true,
         secret,
         createdAt: new Date(),
@@ -223,7 +302,7 @@ router.patch('/:id', isAuthenticated, async (req: Request, res: Response) => {
         apiApplications,
         and(
           eq(apiWebhooks.applicationId, apiApplications.id),
-          apiApplications.id.in(applicationIds)
+          inArray(apiApplications.id, applicationIds)
         )
       )
       .where(eq(apiWebhooks.id, webhookId))
@@ -236,19 +315,27 @@ router.patch('/:id', isAuthenticated, async (req: Request, res: Response) => {
       });
     }
     
-    // Transform the events array to a comma-separated string
-    if (req.body.events && Array.isArray(req.body.events)) {
-      req.body.events = req.body.events.join(',');
-    }
-    
     // Validate request body (partial)
-    const updateSchema = insertApiWebhookSchema.partial();
-    const validatedData = updateSchema.parse(req.body);
+    const validatedData = updateWebhookSchema.parse(req.body);
     
+    if (validatedData.url) {
+      const urlError = await checkWebhookUrl(validatedData.url);
+      if (urlError) {
+        return res.status(400).json(urlError);
+      }
+    }
+    
+    // Re-enabling a webhook starts its failure count afresh; deliveries queued
+    // while it was disabled go out in order
+    const reenabled = validatedData.isActive === true
+      ? { failureCount: 0, failingSince: null, disabledAt: null, disabledReason: null }
+      : {};
+
     // Update webhook
     const [updatedWebhook] = await db.update(apiWebhooks)
       .set({
         ...validatedData,
+        ...reenabled,
         updatedAt: new Date()
       })
       .where(eq(apiWebhooks.id, webhookId))
@@ -327,7 +414,7 @@ router.delete('/:id', isAuthenticated, async (req: Request, res: Response) => {
         apiApplications,
         and(
           eq(apiWebhooks.applicationId, apiApplications.id),
-          apiApplications.id.in(applicationIds)
+          inArray(apiApplications.id, applicationIds)
         )
       )
       .where(eq(apiWebhooks.id, webhookId))
@@ -357,7 +444,7 @@ router.delete('/:id', isAuthenticated, async (req: Request, res: Response) => {
 });
 
 /**
- * Get webhook delivery logs
+ * Get webhook deliveries, newest first
  * GET /api/developer/webhooks/:id/deliveries
  */
 router.get('/:id/deliveries', isAuthenticated, async (req: Request, res: Response) => {
@@ -371,63 +458,236 @@ router.get('/:id/deliveries', isAuthenticated, async (req: Request, res: Respons
       });
     }
     
-    // Get developer account for current user
-    const developerAccount = await db.select()
-      .from(apiDeveloperAccounts)
-      .where(eq(apiDeveloperAccounts.userId, req.user!.id))
-      .limit(1);
+    const { status, limit } = deliveryListQuerySchema.parse(req.query);
     
-    if (developerAccount.length === 0) {
+    const webhook = await findDeveloperWebhook(req.user!.id, webhookId);
+    if (!webhook) {
       return res.status(404).json({
         error: 'not_found',
-        message: 'Developer account not found'
+        message: 'Webhook not found'
       });
     }
     
-    // Get all applications for this developer
-    const applications = await db.select({ id: apiApplications.id })
-      .from(apiApplications)
-      .where(eq(apiApplications.developerId, developerAccount[0].id));
+    const deliveries = await db.select({
+      id: apiWebhookDeliveries.id,
+      eventId: apiWebhookOutbox.eventId,
+      eventType: apiWebhookOutbox.eventType,
+      status: apiWebhookDeliveries.status,
+      attemptCount: apiWebhookDeliveries.attemptCount,
+      nextAttemptAt: apiWebhookDeliveries.nextAttemptAt,
+      lastAttemptAt: apiWebhookDeliveries.lastAttemptAt,
+      lastStatusCode: apiWebhookDeliveries.lastStatusCode,
+      lastError: apiWebhookDeliveries.lastError,
+      deadReason: apiWebhookDeliveries.deadReason,
+      redeliveryOf: apiWebhookDeliveries.redeliveryOf,
+      completedAt: apiWebhookDeliveries.completedAt,
+      createdAt: apiWebhookDeliveries.createdAt
+    })
+    .from(apiWebhookDeliveries)
+    .innerJoin(apiWebhookOutbox, eq(apiWebhookDeliveries.outboxId, apiWebhookOutbox.id))
+    .where(and(
+      eq(apiWebhookDeliveries.webhookId, webhookId),
+      status ? eq(apiWebhookDeliveries.status, status) : undefined
+    ))
+    .orderBy(desc(apiWebhookDeliveries.id))
+    .limit(limit);
     
-    const applicationIds = applications.map(app => app.id);
+    res.json({
+      data: deliveries
+    });
+  } catch (error) {
+    console.error('Error getting webhook deliveries:', error);
     
-    // Get the webhook and verify it belongs to one of developer's applications
-    const webhook = await db.select()
-      .from(apiWebhooks)
-      .innerJoin(
-        apiApplications,
-        and(
-          eq(apiWebhooks.applicationId, apiApplications.id),
-          apiApplications.id.in(applicationIds)
-        )
-      )
-      .where(eq(apiWebhooks.id, webhookId))
-      .limit(1);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'validation_error',
+        message: 'Validation error',
+        details: error.errors 
+      });
+    }
     
-    if (webhook.length === 0) {
+    res.status(500).json({ 
+      error: 'server_error',
+      message: 'Failed to retrieve webhook deliveries' 
+    });
+  }
+});
+
+/**
+ * Get one delivery with the payload sent and every attempt made
+ * GET /api/developer/webhooks/:id/deliveries/:deliveryId
+ */
+router.get('/:id/deliveries/:deliveryId', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const webhookId = parseInt(req.params.id);
+    const deliveryId = parseInt(req.params.deliveryId);
+    
+    if (isNaN(webhookId) || isNaN(deliveryId)) {
+      return res.status(400).json({
+        error: 'invalid_id',
+        message: 'Invalid webhook or delivery ID'
+      });
+    }
+    
+    const webhook = await findDeveloperWebhook(req.user!.id, webhookId);
+    if (!webhook) {
       return res.status(404).json({
         error: 'not_found',
         message: 'Webhook not found'
       });
     }
     
-    // Get delivery logs
-    const deliveryLogs = await db.select()
-      .from(apiWebhookDeliveryLogs)
-      .where(eq(apiWebhookDeliveryLogs.webhookId, webhookId))
-      .orderBy(apiWebhookDeliveryLogs.deliveredAt, 'desc')
-      .limit(50); // Limit to 50 most recent logs
+    const [delivery] = await db.select({
+      delivery: apiWebhookDeliveries,
+      eventId: apiWebhookOutbox.eventId,
+      eventType: apiWebhookOutbox.eventType,
+      payload: apiWebhookOutbox.payload
+    })
+    .from(apiWebhookDeliveries)
+    .innerJoin(apiWebhookOutbox, eq(apiWebhookDeliveries.outboxId, apiWebhookOutbox.id))
+    .where(and(
+      eq(apiWebhookDeliveries.id, deliveryId),
+      eq(apiWebhookDeliveries.webhookId, webhookId)
+    ));
+    
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Webhook delivery not found'
+      });
+    }
     
+    const attempts = await db.select({
+      attempt: apiWebhookDeliveryLogs.attemptCount,
+      statusCode: apiWebhookDeliveryLogs.statusCode,
+      success: apiWebhookDeliveryLogs.success,
+      errorMessage: apiWebhookDeliveryLogs.errorMessage,
+      durationMs: apiWebhookDeliveryLogs.durationMs,
+      attemptedAt: apiWebhookDeliveryLogs.deliveredAt
+    })
+    .from(apiWebhookDeliveryLogs)
+    .where(eq(apiWebhookDeliveryLogs.deliveryId, deliveryId))
+    .orderBy(asc(apiWebhookDeliveryLogs.id));
+    
+    const { lockedUntil, requestedById, ...details } = delivery.delivery;
     res.json({
-      data: deliveryLogs
+      data: {
+        ...details,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        payload: delivery.payload,
+        attempts
+      }
     });
   } catch (error) {
-    console.error('Error getting webhook deliveries:', error);
+    console.error('Error getting webhook delivery:', error);
     res.status(500).json({ 
       error: 'server_error',
-      message: 'Failed to retrieve webhook deliveries' 
+      message: 'Failed to retrieve webhook delivery' 
     });
   }
 });
 
+/**
+ * Send a delivery again
+ * POST /api/developer/webhooks/:id/deliveries/:deliveryId/redeliver
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const webhookId = parseInt(req.params.id);
+    const deliveryId = parseInt(req.params.deliveryId);
+    
+    if (isNaN(webhookId) || isNaN(deliveryId)) {
+      return res.status(400).json({
+        error: 'invalid_id',
+        message: 'Invalid webhook or delivery ID'
+      });
+    }
+    
+    const webhook = await findDeveloperWebhook(req.user!.id, webhookId);
+    if (!webhook) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Webhook not found'
+      });
+    }
+    
+    const redelivery = await redeliverWebhookDelivery(webhookId, deliveryId, req.user!.id);
+    
+    res.status(202).json({
+      message: 'Redelivery queued',
+      data: redelivery
+    });
+  } catch (error) {
+    handleRedeliveryError(res, error);
+  }
+});
+
+/**
+ * Send every dead-lettered delivery again, optionally only those since a date
+ * POST /api/developer/webhooks/:id/deliveries/replay
+ */
+router.post('/:id/deliveries/replay', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const webhookId = parseInt(req.params.id);
+    
+    if (isNaN(webhookId)) {
+      return res.status(400).json({
+        error: 'invalid_id',
+        message: 'Invalid webhook ID'
+      });
+    }
+    
+    const { since } = replaySchema.parse(req.body ?? {});
+    
+    const webhook = await findDeveloperWebhook(req.user!.id, webhookId);
+    if (!webhook) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Webhook not found'
+      });
+    }
+    
+    const queued = await replayDeadDeliveries(webhookId, req.user!.id, since);
+    
+    res.status(202).json({
+      message: `${queued} deliveries queued for redelivery`,
+      data: { queued }
+    });
+  } catch (error) {
+    handleRedeliveryError(res, error);
+  }
+});
+
+function handleRedeliveryError(res: Response, error: unknown) {
+  console.error('Error redelivering webhook:', error);
+  
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ 
+      error: 'validation_error',
+      message: 'Validation error',
+      details: error.errors 
+    });
+  }
+  
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return res.status(404).json({
+      error: 'not_found',
+      message
+    });
+  }
+  if (message.startsWith('Webhook is disabled')) {
+    return res.status(409).json({
+      error: 'webhook_disabled',
+      message
+    });
+  }
+  
+  res.status(500).json({ 
+    error: 'server_error',
+    message: 'Failed to redeliver webhook' 
+  });
+}
+
 export default router;
\ No newline at end of file
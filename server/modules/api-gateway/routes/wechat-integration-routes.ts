@@ -13,7 +13,7 @@ import { generatePassportId } from '../../../../shared/utils/passport-utils';
 import { storage } from '../../../storage';
 import { hashPassword } from '../../../auth';
 import { type InsertUser } from '@shared/schema';
-import { triggerWeChatWebhook, triggerUserWebhook } from '../utils/webhook-delivery';
+import { publishDomainEvent } from '../../../core/events/domain-events';
 import { db } from '../../../db';
 import { eq } from 'drizzle-orm';
 
@@ -445,21 +445,50 @@ router.post('/wechat/register-user', async (req: Request, res: Response) => {
       avatarInitials: `${(user_profile_data?.firstName || nickname || 'W').charAt(0)}${(user_profile_data?.lastName || 'U').charAt(0)}`.toUpperCase()
     };
 
+    // Store additional WeChat-specific data (if needed, could be in separate WeChat integration table)
+    // For now, we'll include WeChat data in the response
+    const wechatMetadata = {
+      wechatOpenId: openid,
+      wechatUnionId: unionid,
+      wechatNickname: nickname,
+      profileImageUrl: headimgurl,
+      registrationSource: registration_source || 'wechat_app',
+      preferredLanguage: preferred_language || 'zh-CN'
+    };
+
     // ===== CREATE USER IN DATABASE =====
     try {
-      const createdUser = await storage.createUser(insertUserData);
+      const linkedAt = new Date().toISOString();
+
+      // The user and the webhooks announcing it are committed together
+      const createdUser = await db.transaction(async (tx) => {
+        const user = await storage.createUser(insertUserData, tx);
+
+        await publishDomainEvent(tx, 'user.created', {
+          user_id: user.id,
+          username: user.username,
+          display_name: user.displayName ?? null,
+          passport_code: user.passportCode ?? null,
+          created_at: linkedAt
+        });
+
+        await publishDomainEvent(tx, 'wechat.user_linked', {
+          pickle_user_id: user.id,
+          passport_code: user.passportCode,
+          wechat_data: {
+            openid: wechatMetadata.wechatOpenId,
+            unionid: wechatMetadata.wechatUnionId,
+            nickname: wechatMetadata.wechatNickname,
+            profile_image: wechatMetadata.profileImageUrl
+          },
+          linked_at: linkedAt,
+          registration_source: wechatMetadata.registrationSource,
+          language: wechatMetadata.preferredLanguage
+        });
+
+        return user;
+      });
       console.log(`[WECHAT API] User successfully created in database with ID: ${createdUser.id} and passport: ${createdUser.passportCode}`);
-      
-      // Store additional WeChat-specific data (if needed, could be in separate WeChat integration table)
-      // For now, we'll include WeChat data in the response
-      const wechatMetadata = {
-        wechatOpenId: openid,
-        wechatUnionId: unionid,
-        wechatNickname: nickname,
-        profileImageUrl: headimgurl,
-        registrationSource: registration_source || 'wechat_app',
-        preferredLanguage: preferred_language || 'zh-CN'
-      };
 
       const registrationResponse = {
         api_version: 'v1',
@@ -490,7 +519,7 @@ router.post('/wechat/register-user', async (req: Request, res: Response) => {
             openid: wechatMetadata.wechatOpenId,
             unionid: wechatMetadata.wechatUnionId,
             nickname: wechatMetadata.wechatNickname,
-            linked_at: new Date().toISOString(),
+            linked_at: linkedAt,
             sync_preferences: {
               auto_match_sync: true,
               ranking_notifications: true,
@@ -512,45 +541,6 @@ router.post('/wechat/register-user', async (req: Request, res: Response) => {
 
       console.log(`[WECHAT API] User registration completed: ${createdUser.id} with passport code: ${createdUser.passportCode}`);
 
-      // ===== REAL-TIME SYNC: TRIGGER WEBHOOKS =====
-      // Notify external apps about new user creation and WeChat linking
-      try {
-        // Trigger user creation webhook
-        await triggerUserWebhook('created', createdUser.id, {
-          user_id: createdUser.id,
-          username: createdUser.username,
-          display_name: createdUser.displayName,
-          passport_code: createdUser.passportCode,
-          email: createdUser.email,
-          ranking_points: {
-            singles: createdUser.singlesRankingPoints,
-            doubles: createdUser.doublesRankingPoints
-          },
-          profile_completion: createdUser.profileCompletionPct,
-          created_at: new Date().toISOString()
-        });
-
-        // Trigger WeChat-specific linking webhook
-        await triggerWeChatWebhook('user_linked', {
-          pickle_user_id: createdUser.id,
-          passport_code: createdUser.passportCode,
-          wechat_data: {
-            openid: wechatMetadata.wechatOpenId,
-            unionid: wechatMetadata.wechatUnionId,
-            nickname: wechatMetadata.wechatNickname,
-            profile_image: wechatMetadata.profileImageUrl
-          },
-          linked_at: new Date().toISOString(),
-          registration_source: wechatMetadata.registrationSource,
-          language: wechatMetadata.preferredLanguage
-        });
-
-        console.log(`[WEBHOOK] Real-time sync webhooks triggered for user: ${createdUser.id}`);
-      } catch (webhookError) {
-        // Don't fail the registration if webhooks fail
-        console.error('[WEBHOOK] Error triggering webhooks:', webhookError);
-      }
-
       res.json(registrationResponse);
       
     } catch (error: any) {
@@ -709,16 +699,19 @@ router.patch('/wechat/sync-user-profile', async (req: Request, res: Response) =>
       }
     }
 
-    // Update user profile in database
-    const updatedUser = await storage.updateUserProfile(user.id, updatedFields);
+    // Update user profile in database, with the profile sync webhook in the same transaction
+    const updatedUser = await db.transaction(async (tx) => {
+      const updated = await storage.updateUserProfile(user.id, updatedFields, tx);
+
+      await publishDomainEvent(tx, 'wechat.profile_synced', {
+        pickle_user_id: updated.id,
+        wechat_openid: wechat_openid,
+        updated_fields: Object.keys(updatedFields),
+        sync_timestamp: sync_timestamp || new Date().toISOString(),
+        conflict_resolution: conflict_resolution
+      });
 
-    // Trigger webhook for profile sync
-    await triggerWeChatWebhook('profile_synced', {
-      pickle_user_id: updatedUser.id,
-      wechat_openid: wechat_openid,
-      updated_fields: Object.keys(updatedFields),
-      sync_timestamp: sync_timestamp || new Date().toISOString(),
-      conflict_resolution: conflict_resolution
+      return updated;
     });
 
     const syncResponse = {
@@ -0,0 +1,54 @@
+/**
+ * PKL-278651-API-0002-COACHING
+ * Booking Response
+ *
+ * The v1 representation of a booked coaching session, shared by every
+ * gateway route that books one.
+ */
+
+import type { SlotBookingResult } from '../../../services/session-slot-booking-service';
+import { getOrCreateCalendarFeedToken } from '../../../services/calendar-feed-service';
+import { fromCents } from '../../../../shared/utils/cancellationPolicy';
+
+/**
+ * Booking details, payment and confirmation for the student's booking
+ *
+ * @param baseUrl - Origin the calendar file link is built on, e.g. https://pickleplus.com
+ */
+export async function bookingResponseData({ booking, slot, promo }: SlotBookingResult, baseUrl: string) {
+  // Lets the student add the session to a calendar without a web session
+  const calendarFeed = await getOrCreateCalendarFeedToken(booking.studentId);
+
+  return {
+    booking_id: booking.id,
+    status: booking.status,
+    session_details: {
+      date: slot.sessionDate.toISOString().split('T')[0],
+      start_time: slot.startTime.toISOString(),
+      end_time: slot.endTime.toISOString(),
+      location: slot.location,
+      court_number: slot.courtNumber
+    },
+    coach_info: {
+      coach_id: slot.coachId,
+      session_type: slot.sessionType,
+      focus: slot.focus
+    },
+    payment_info: {
+      amount_paid: Number(booking.amountPaid),
+      payment_status: booking.paymentStatus,
+      payment_method: booking.paymentMethod,
+      promo: promo && {
+        code: promo.code,
+        original_amount: Number(fromCents(promo.originalCents)),
+        discount: Number(fromCents(promo.discountCents))
+      }
+    },
+    booking_confirmation: {
+      confirmation_code: `PKL-${booking.id.toString().padStart(6, '0')}`,
+      booking_time: (booking.createdAt ?? new Date()).toISOString(),
+      cancellation_deadline: new Date(slot.sessionDate.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+      calendar_file_url: `${baseUrl}/api/calendar-feeds/${calendarFeed.token}/bookings/${booking.id}.ics`
+    }
+  };
+}
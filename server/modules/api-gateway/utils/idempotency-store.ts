@@ -0,0 +1,152 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Idempotency Key Store
+ *
+ * Keeps the response to each gateway write sent with an Idempotency-Key
+ * header in Postgres, so a retry reaching any instance gets the same answer.
+ * A request claims its key before it is processed; a later request with the
+ * key sees the claim, the stored response, or a key that has lapsed and may
+ * be claimed again, which the row lock lets only one request do.
+ */
+
+import { and, eq, lte } from 'drizzle-orm';
+import { db } from '../../../db';
+import { apiIdempotencyKeys, type ApiIdempotencyKey } from '../../../../shared/schema/api-gateway';
+import {
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_LOCK_SECONDS,
+  idempotencyOutcome,
+  type IdempotencyOutcome
+} from '../../../../shared/utils/apiIdempotency';
+
+export interface IdempotentRequest {
+  credentialKey: string;
+  idempotencyKey: string;
+  method: string;
+  path: string;
+  requestHash: string;
+}
+
+export type IdempotencyClaim =
+  | { claimed: true, id: number }
+  | { claimed: false, outcome: Exclude<IdempotencyOutcome, 'restart'>, stored: ApiIdempotencyKey };
+
+const claimTimes = (now: Date) => ({
+  lockedUntil: new Date(now.getTime() + IDEMPOTENCY_LOCK_SECONDS * 1000),
+  expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000)
+});
+
+/**
+ * Claim a key for a request, or report what the key already holds
+ */
+export async function claimIdempotencyKey(request: IdempotentRequest, now: Date = new Date()): Promise<IdempotencyClaim> {
+  return await db.transaction(async (tx) => {
+    const [inserted] = await tx.insert(apiIdempotencyKeys)
+      .values({ ...request, status: 'processing', ...claimTimes(now), createdAt: now })
+      .onConflictDoNothing({ target: [apiIdempotencyKeys.credentialKey, apiIdempotencyKeys.idempotencyKey] })
+      .returning({ id: apiIdempotencyKeys.id });
+
+    if (inserted) {
+      return { claimed: true as const, id: inserted.id };
+    }
+
+    const [stored] = await tx.select()
+      .from(apiIdempotencyKeys)
+      .where(and(
+        eq(apiIdempotencyKeys.credentialKey, request.credentialKey),
+        eq(apiIdempotencyKeys.idempotencyKey, request.idempotencyKey)
+      ))
+      .for('update');
+
+    if (!stored) {
+      throw new Error(`Idempotency key ${request.idempotencyKey} not found after conflict`);
+    }
+
+    const outcome = idempotencyOutcome({
+      requestHash: stored.requestHash,
+      status: stored.status === 'completed' ? 'completed' : 'processing',
+      lockedUntil: stored.lockedUntil,
+      expiresAt: stored.expiresAt
+    }, request.requestHash, now);
+
+    if (outcome !== 'restart') {
+      return { claimed: false as const, outcome, stored };
+    }
+
+    // The key lapsed or its request was abandoned; it now belongs to this one
+    await tx.update(apiIdempotencyKeys)
+      .set({
+        method: request.method,
+        path: request.path,
+        requestHash: request.requestHash,
+        status: 'processing',
+        responseStatus: null,
+        responseBody: null,
+        ...claimTimes(now),
+        createdAt: now,
+        completedAt: null
+      })
+      .where(eq(apiIdempotencyKeys.id, stored.id));
+
+    return { claimed: true as const, id: stored.id };
+  });
+}
+
+/**
+ * Store the response to a claimed request for replay
+ */
+export async function completeIdempotencyKey(id: number, responseStatus: number, responseBody: unknown): Promise<void> {
+  await db.update(apiIdempotencyKeys)
+    .set({
+      status: 'completed',
+      responseStatus,
+      responseBody: responseBody ?? null,
+      completedAt: new Date()
+    })
+    .where(eq(apiIdempotencyKeys.id, id));
+}
+
+/**
+ * Give up a claim without a stored response, so the request can be retried
+ */
+export async function releaseIdempotencyKey(id: number): Promise<void> {
+  await db.delete(apiIdempotencyKeys).where(eq(apiIdempotencyKeys.id, id));
+}
+
+export async function pruneIdempotencyKeys(now: Date): Promise<void> {
+  await db.delete(apiIdempotencyKeys).where(lte(apiIdempotencyKeys.expiresAt, now));
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Clears expired idempotency keys every hour
+ */
+export function startIdempotencyKeyPruner(intervalMs: number = PRUNE_INTERVAL_MS): void {
+  if (pruneTimer) {
+    return;
+  }
+
+  const schedule = () => {
+    pruneTimer = setTimeout(() => {
+      pruneIdempotencyKeys(new Date())
+        .catch(error => console.error('[IDEMPOTENCY] Prune failed:', error))
+        .finally(() => {
+          if (pruneTimer) {
+            schedule();
+          }
+        });
+    }, intervalMs);
+  };
+
+  console.log(`[IDEMPOTENCY] Starting idempotency key pruner (every ${intervalMs / 60000}m)`);
+  schedule();
+}
+
+export function stopIdempotencyKeyPruner(): void {
+  if (pruneTimer) {
+    clearTimeout(pruneTimer);
+    pruneTimer = null;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * In-Memory Rate Limit Store
+ *
+ * Keeps rate limit state in this process only. For tests and local tools;
+ * the gateway itself uses the Postgres store.
+ */
+
+import crypto from 'crypto';
+import {
+  applyRateLimit,
+  rateLimitStateTtlMs,
+  type RateLimitDecision,
+  type RateLimitRule,
+  type RateLimitState
+} from '../../../../shared/utils/rateLimit';
+import type { ConcurrencyLease, QuotaResult, RateLimitStore } from './rate-limit-store';
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private states = new Map<string, { state: RateLimitState, expiresAt: number }>();
+  private leases = new Map<string, Map<string, number>>(); // key -> leaseId -> expiresAt
+  private quotas = new Map<string, number>();
+
+  async consume(key: string, rule: RateLimitRule, now: Date, cost: number = 1): Promise<RateLimitDecision> {
+    const stored = this.states.get(key);
+    const current = stored && stored.expiresAt > now.getTime() ? stored.state : null;
+    const { decision, state } = applyRateLimit(rule, current, now, cost);
+    this.states.set(key, { state, expiresAt: now.getTime() + rateLimitStateTtlMs(rule) });
+    return decision;
+  }
+
+  async acquireConcurrency(key: string, limit: number, leaseMs: number, now: Date): Promise<ConcurrencyLease> {
+    const held = this.leases.get(key) ?? new Map<string, number>();
+    held.forEach((expiresAt, leaseId) => {
+      if (expiresAt <= now.getTime()) held.delete(leaseId);
+    });
+    this.leases.set(key, held);
+
+    if (held.size >= limit) {
+      return { acquired: false, active: held.size, leaseId: null };
+    }
+    const leaseId = crypto.randomUUID();
+    held.set(leaseId, now.getTime() + leaseMs);
+    return { acquired: true, active: held.size, leaseId };
+  }
+
+  async releaseConcurrency(key: string, leaseId: string): Promise<void> {
+    this.leases.get(key)?.delete(leaseId);
+  }
+
+  async incrementQuota(key: string, periodStart: Date, limit: number): Promise<QuotaResult> {
+    const quotaKey = `${key}@${periodStart.toISOString()}`;
+    const used = this.quotas.get(quotaKey) ?? 0;
+    if (used >= limit) {
+      return { allowed: false, used };
+    }
+    this.quotas.set(quotaKey, used + 1);
+    return { allowed: true, used: used + 1 };
+  }
+
+  async getQuotaUsage(key: string, periodStart: Date): Promise<number> {
+    return this.quotas.get(`${key}@${periodStart.toISOString()}`) ?? 0;
+  }
+
+  async prune(now: Date): Promise<void> {
+    this.states.forEach(({ expiresAt }, key) => {
+      if (expiresAt <= now.getTime()) this.states.delete(key);
+    });
+    this.leases.forEach((held, key) => {
+      held.forEach((expiresAt, leaseId) => {
+        if (expiresAt <= now.getTime()) held.delete(leaseId);
+      });
+      if (held.size === 0) this.leases.delete(key);
+    });
+  }
+}
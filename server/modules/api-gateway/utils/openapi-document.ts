@@ -0,0 +1,162 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * V1 OpenAPI Document
+ *
+ * Builds the OpenAPI 3.0 document for the v1 gateway from the operation
+ * definitions its routes use: paths, parameters and request bodies come from
+ * the route schemas, and each operation lists the scopes it requires. Callers
+ * may use an API key or an OAuth access token granted by a player.
+ */
+
+import {
+  toOpenApiPath,
+  zodToOpenApi,
+  zodToOpenApiParameters,
+  type OpenApiParameter
+} from '../../../../shared/utils/openApi';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  IDEMPOTENCY_KEY_TTL_HOURS
+} from '../../../../shared/utils/apiIdempotency';
+import { API_SCOPES } from '../config/api-scopes';
+import { V1_OPERATIONS, type ApiOperation } from '../config/v1-operations';
+
+export const V1_API_VERSION = '1.0';
+
+const ERROR_RESPONSE = { $ref: '#/components/schemas/Error' };
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ERROR_RESPONSE } }
+});
+
+const idempotencyKeyParameter: OpenApiParameter = {
+  name: IDEMPOTENCY_KEY_HEADER,
+  in: 'header',
+  required: false,
+  description: `Makes the request safe to retry: a retry with the same key within ${IDEMPOTENCY_KEY_TTL_HOURS} hours ` +
+    'returns the first response, marked with an Idempotent-Replayed header, instead of repeating the write',
+  schema: { type: 'string', maxLength: IDEMPOTENCY_KEY_MAX_LENGTH }
+};
+
+function operationObject(operation: ApiOperation) {
+  const parameters: OpenApiParameter[] = [
+    ...(operation.params ? zodToOpenApiParameters(operation.params, 'path') : []),
+    ...(operation.query ? zodToOpenApiParameters(operation.query, 'query') : []),
+    ...(operation.idempotent ? [idempotencyKeyParameter] : [])
+  ];
+
+  // Several causes can share a status, so descriptions are collected per status
+  const errors: Record<number, string[]> = {
+    400: ['The request failed validation (invalid_request)'],
+    401: ['Missing or invalid API key or access token'],
+    403: ['The credential lacks a required scope (insufficient_scope)'],
+    429: ['Rate limit or monthly quota exceeded']
+  };
+
+  for (const [status, description] of Object.entries(operation.errors ?? {})) {
+    (errors[Number(status)] ??= []).push(description);
+  }
+
+  if (operation.idempotent) {
+    (errors[409] ??= []).push('A request with the same Idempotency-Key is still being processed (idempotency_key_in_use)');
+    (errors[422] ??= []).push('The Idempotency-Key was already used for a different request (idempotency_key_reused)');
+  }
+
+  const responses: Record<string, unknown> = {
+    [operation.success.status]: {
+      description: operation.success.description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Envelope' } } }
+    }
+  };
+
+  for (const [status, descriptions] of Object.entries(errors)) {
+    responses[status] = errorResponse(descriptions.join('. '));
+  }
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    description: [operation.description, `Requires scopes: ${operation.scopes.join(', ')}.`].filter(Boolean).join('\n\n'),
+    tags: [operation.tag],
+    security: [
+      { ApiKeyAuth: [] },
+      { OAuth2: operation.scopes }
+    ],
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: zodToOpenApi(operation.body) } }
+      }
+    }),
+    responses
+  };
+}
+
+/**
+ * The v1 OpenAPI document
+ *
+ * @param origin - Where the API is served, e.g. https://pickleplus.com
+ */
+export function buildV1OpenApiDocument(origin: string, operations: ApiOperation[] = V1_OPERATIONS) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = { ...paths[path], [operation.method]: operationObject(operation) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Pickle+ API',
+      description: 'Read Pickle+ data and submit matches, tournament registrations and session bookings. ' +
+        'Call as your application with an API key, or on behalf of a player with an OAuth access token.',
+      version: V1_API_VERSION
+    },
+    servers: [
+      { url: `${origin}/api/v1` }
+    ],
+    tags: Array.from(new Set(operations.map(operation => operation.tag))).map(name => ({ name })),
+    paths,
+    components: {
+      schemas: {
+        Envelope: {
+          type: 'object',
+          properties: {
+            api_version: { type: 'string', enum: ['v1'] },
+            data: {}
+          },
+          required: ['api_version', 'data']
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            error_description: { type: 'string' }
+          },
+          required: ['error']
+        }
+      },
+      securitySchemes: {
+        ApiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key'
+        },
+        OAuth2: {
+          type: 'oauth2',
+          flows: {
+            authorizationCode: {
+              authorizationUrl: `${origin}/oauth/authorize`,
+              tokenUrl: `${origin}/oauth/token`,
+              refreshUrl: `${origin}/oauth/token`,
+              scopes: Object.fromEntries(API_SCOPES.map(scope => [scope.scope, scope.description]))
+            }
+          }
+        }
+      }
+    }
+  };
+}
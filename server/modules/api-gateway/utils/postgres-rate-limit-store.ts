@@ -0,0 +1,119 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Postgres Rate Limit Store
+ *
+ * Keeps rate limit state in Postgres so every gateway instance sees the same
+ * counts. Each key's state is read and written under a transaction-scoped
+ * advisory lock on the key, so concurrent requests for a key are applied one
+ * at a time; quotas are a single conditional upsert.
+ */
+
+import crypto from 'crypto';
+import { and, eq, gt, lte, sql } from 'drizzle-orm';
+import { db } from '../../../db';
+import {
+  apiConcurrencyLeases,
+  apiQuotaUsage,
+  apiRateLimitState
+} from '../../../../shared/schema/api-gateway';
+import {
+  applyRateLimit,
+  rateLimitStateTtlMs,
+  type RateLimitDecision,
+  type RateLimitRule,
+  type RateLimitState
+} from '../../../../shared/utils/rateLimit';
+import type { ConcurrencyLease, QuotaResult, RateLimitStore } from './rate-limit-store';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function lockKey(tx: Tx, key: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${key}))`);
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  async consume(key: string, rule: RateLimitRule, now: Date, cost: number = 1): Promise<RateLimitDecision> {
+    return db.transaction(async (tx) => {
+      await lockKey(tx, key);
+
+      const [stored] = await tx.select()
+        .from(apiRateLimitState)
+        .where(eq(apiRateLimitState.key, key))
+        .limit(1);
+
+      // State from a different algorithm (the limit was reconfigured) or past
+      // its expiry starts afresh
+      const current = stored && stored.algorithm === rule.algorithm && stored.expiresAt > now
+        ? stored.state as RateLimitState
+        : null;
+      const { decision, state } = applyRateLimit(rule, current, now, cost);
+
+      const expiresAt = new Date(now.getTime() + rateLimitStateTtlMs(rule));
+      await tx.insert(apiRateLimitState)
+        .values({ key, algorithm: rule.algorithm, state, expiresAt, updatedAt: now })
+        .onConflictDoUpdate({
+          target: apiRateLimitState.key,
+          set: { algorithm: rule.algorithm, state, expiresAt, updatedAt: now }
+        });
+
+      return decision;
+    });
+  }
+
+  async acquireConcurrency(key: string, limit: number, leaseMs: number, now: Date): Promise<ConcurrencyLease> {
+    return db.transaction(async (tx) => {
+      await lockKey(tx, `concurrency:${key}`);
+
+      const [{ active }] = await tx.select({ active: sql<number>`count(*)::int` })
+        .from(apiConcurrencyLeases)
+        .where(and(eq(apiConcurrencyLeases.key, key), gt(apiConcurrencyLeases.expiresAt, now)));
+
+      if (active >= limit) {
+        return { acquired: false, active, leaseId: null };
+      }
+
+      const leaseId = crypto.randomUUID();
+      await tx.insert(apiConcurrencyLeases).values({
+        id: leaseId,
+        key,
+        expiresAt: new Date(now.getTime() + leaseMs)
+      });
+      return { acquired: true, active: active + 1, leaseId };
+    });
+  }
+
+  async releaseConcurrency(key: string, leaseId: string): Promise<void> {
+    await db.delete(apiConcurrencyLeases)
+      .where(and(eq(apiConcurrencyLeases.id, leaseId), eq(apiConcurrencyLeases.key, key)));
+  }
+
+  async incrementQuota(key: string, periodStart: Date, limit: number): Promise<QuotaResult> {
+    // Nothing is returned when the row exists and is already at the limit
+    const [counted] = await db.insert(apiQuotaUsage)
+      .values({ key, periodStart, requestCount: 1 })
+      .onConflictDoUpdate({
+        target: [apiQuotaUsage.key, apiQuotaUsage.periodStart],
+        set: { requestCount: sql`${apiQuotaUsage.requestCount} + 1`, updatedAt: new Date() },
+        setWhere: sql`${apiQuotaUsage.requestCount} < ${limit}`
+      })
+      .returning({ requestCount: apiQuotaUsage.requestCount });
+
+    if (counted) {
+      return { allowed: true, used: counted.requestCount };
+    }
+    return { allowed: false, used: await this.getQuotaUsage(key, periodStart) };
+  }
+
+  async getQuotaUsage(key: string, periodStart: Date): Promise<number> {
+    const [usage] = await db.select({ requestCount: apiQuotaUsage.requestCount })
+      .from(apiQuotaUsage)
+      .where(and(eq(apiQuotaUsage.key, key), eq(apiQuotaUsage.periodStart, periodStart)))
+      .limit(1);
+    return usage?.requestCount ?? 0;
+  }
+
+  async prune(now: Date): Promise<void> {
+    await db.delete(apiRateLimitState).where(lte(apiRateLimitState.expiresAt, now));
+    await db.delete(apiConcurrencyLeases).where(lte(apiConcurrencyLeases.expiresAt, now));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Rate Limit Store
+ *
+ * Where rate limit state lives. The gateway uses the Postgres store by
+ * default so limits survive restarts and are shared by every instance; tests
+ * swap in the in-memory store with setRateLimitStore().
+ */
+
+import type { RateLimitDecision, RateLimitRule } from '../../../../shared/utils/rateLimit';
+
+export interface ConcurrencyLease {
+  acquired: boolean;
+  active: number; // Requests in flight for the key, including this one if acquired
+  leaseId: string | null;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  used: number; // Requests counted this period, including this one if allowed
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a request of the given cost against a limit
+   */
+  consume(key: string, rule: RateLimitRule, now: Date, cost?: number): Promise<RateLimitDecision>;
+
+  /**
+   * Take one of `limit` concurrent slots for a key, held until released or
+   * until `leaseMs` passes
+   */
+  acquireConcurrency(key: string, limit: number, leaseMs: number, now: Date): Promise<ConcurrencyLease>;
+  releaseConcurrency(key: string, leaseId: string): Promise<void>;
+
+  /**
+   * Count a request against a quota for the period starting `periodStart`,
+   * refusing it once `limit` requests have been counted
+   */
+  incrementQuota(key: string, periodStart: Date, limit: number): Promise<QuotaResult>;
+  getQuotaUsage(key: string, periodStart: Date): Promise<number>;
+
+  /**
+   * Drop state and leases that have expired
+   */
+  prune(now: Date): Promise<void>;
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+export async function getRateLimitStore(): Promise<RateLimitStore> {
+  if (!rateLimitStore) {
+    const { PostgresRateLimitStore } = await import('./postgres-rate-limit-store');
+    rateLimitStore = new PostgresRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Replace the store, e.g. with a MemoryRateLimitStore in tests
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Clears expired rate limit state and leases every few minutes
+ */
+export function startRateLimitPruner(intervalMs: number = PRUNE_INTERVAL_MS): void {
+  if (pruneTimer) {
+    return;
+  }
+
+  const schedule = () => {
+    pruneTimer = setTimeout(() => {
+      getRateLimitStore()
+        .then(store => store.prune(new Date()))
+        .catch(error => console.error('[RATE LIMIT] Prune failed:', error))
+        .finally(() => {
+          if (pruneTimer) {
+            schedule();
+          }
+        });
+    }, intervalMs);
+  };
+
+  console.log(`[RATE LIMIT] Starting rate limit pruner (every ${intervalMs / 60000}m)`);
+  schedule();
+}
+
+export function stopRateLimitPruner(): void {
+  if (pruneTimer) {
+    clearTimeout(pruneTimer);
+    pruneTimer = null;
+  }
+}
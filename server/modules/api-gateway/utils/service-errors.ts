@@ -0,0 +1,41 @@
+/**
+ * PKL-278651-API-0001-GATEWAY
+ * Service Error Responses
+ *
+ * Gateway writes go through the same services as the app, which reject a
+ * write by throwing an error with a readable message. This maps the
+ * rejections partners can act on to a status and machine-readable error
+ * code; anything else is a server error.
+ */
+
+export interface ServiceErrorResponse {
+  status: number;
+  body: {
+    error: string;
+    error_description: string;
+  };
+}
+
+const SERVICE_ERRORS: Array<{ pattern: RegExp, status: number, error: string }> = [
+  { pattern: /^Booking slot not found/, status: 404, error: 'slot_not_found' },
+  { pattern: /^Booking slot is no longer available/, status: 409, error: 'slot_unavailable' },
+  { pattern: /^Tournament not found/, status: 404, error: 'tournament_not_found' },
+  { pattern: /^Registration is (not open yet|closed)/, status: 409, error: 'registration_closed' },
+  { pattern: /already registered/, status: 409, error: 'already_registered' },
+  { pattern: /^Tournament is full/, status: 409, error: 'tournament_full' },
+  { pattern: /^Promo code not applied/, status: 409, error: 'promo_code_rejected' }
+];
+
+/**
+ * The v1 error response for a service rejection, or null for an unexpected error
+ */
+export function serviceErrorResponse(error: unknown): ServiceErrorResponse | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  const known = SERVICE_ERRORS.find(({ pattern }) => pattern.test(error.message));
+  return known
+    ? { status: known.status, body: { error: known.error, error_description: error.message } }
+    : null;
+}
@@ -1,292 +1,453 @@
 /**
  * PKL-278651-API-0001-SYNC
  * Webhook Delivery System
- * 
+ *
  * Handles real-time sync by sending webhooks to external apps when data changes.
+ *
+ * Events go through a transactional outbox: domain code publishes the event
+ * (see core/events/domain-events.ts) using the same transaction as the
+ * change it describes, so an event exists if and only if the change
+ * committed. The worker fans each event out into one delivery per subscribed
+ * webhook, announces it on the in-process event bus, and sends the
+ * deliveries with exponential backoff (see shared/utils/webhookRetry.ts).
+ *
+ * Each endpoint receives its events in outbox order: only the oldest
+ * unfinished delivery of a webhook is ever in flight, so a delivery waiting
+ * to be retried holds back the ones behind it until it succeeds or is
+ * dead-lettered. Deliveries for a disabled webhook stay queued and resume in
+ * order once it is enabled again.
+ *
+ * Each send re-checks that the URL is https and resolves to a public address
+ * (see webhook-target.ts). What the endpoint answers is not kept: only its
+ * status code is recorded, so the worker can't be used to read responses
+ * from hosts the developer chose.
  */
 
 import axios from 'axios';
+import crypto from 'crypto';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
 import { db } from '../../../db';
-import { eq, and } from 'drizzle-orm';
-import { apiWebhooks, apiWebhookDeliveryLogs, apiApplications } from '../../../../shared/schema/api-gateway';
+import { eq, and, asc, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import {
+  apiWebhooks,
+  apiWebhookDeliveries,
+  apiWebhookDeliveryLogs,
+  apiWebhookOutbox,
+  type ApiWebhookDelivery
+} from '../../../../shared/schema/api-gateway';
 import { getWebhookSignatureHeaders } from './webhook-signature';
-
-// Define webhook event types for real-time sync
-export const WEBHOOK_EVENTS = {
-  // User events
-  USER_CREATED: 'user.created',
-  USER_UPDATED: 'user.updated',
-  USER_RANKING_CHANGED: 'user.ranking_changed',
-  
-  // Match events  
-  MATCH_COMPLETED: 'match.completed',
-  MATCH_RANKINGS_UPDATED: 'match.rankings_updated',
-  
-  // Tournament events
-  TOURNAMENT_JOINED: 'tournament.joined',
-  TOURNAMENT_RESULT: 'tournament.result',
-  
-  // WeChat specific events
-  WECHAT_USER_LINKED: 'wechat.user_linked',
-  WECHAT_PROFILE_SYNCED: 'wechat.profile_synced'
-} as const;
-
-export type WebhookEventType = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS];
+import { pinnedAgent, resolveWebhookTarget } from './webhook-target';
+import { CURRENT_WEBHOOK_API_VERSION, type WebhookEventType } from '../config/webhook-events';
+import { getEventBus } from '../../../core/events/event-bus';
+import { isSubscribedTo, planNextAttempt, shouldDisableEndpoint } from '../../../../shared/utils/webhookRetry';
 
 interface WebhookPayload {
+  id: string; // Stable across retries and redeliveries, for de-duplication
   event: WebhookEventType;
   timestamp: string;
-  data: any;
+  data: unknown;
   api_version: string;
 }
 
+type Writer = PgDatabase<any, any, any>;
+
+const WORKER_INTERVAL_MS = 5000;
+const DISPATCH_BATCH_SIZE = 100;
+const MAX_PARALLEL_DELIVERIES = 20; // Each to a different webhook
+const DELIVERY_LEASE_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const REPLAY_LIMIT = 1000;
+
 /**
- * Trigger webhooks for a specific event
+ * Write an event to the outbox. Pass the transaction that makes the domain
+ * change so the event is only sent if that change commits. Data is expected
+ * to have been checked against the event catalogue already.
  */
-export async function triggerWebhook(
+export async function enqueueWebhookEvent(
+  writer: Writer,
   eventType: WebhookEventType,
-  data: any,
+  data: unknown,
   applicationId?: number
-): Promise<void> {
-  try {
-    console.log(`[WEBHOOK] Triggering webhook event: ${eventType}`);
-    
-    // Get all webhooks subscribed to this event
-    let webhooksQuery = db.select({
+): Promise<string> {
+  const payload: WebhookPayload = {
+    id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+    event: eventType,
+    timestamp: new Date().toISOString(),
+    data,
+    api_version: CURRENT_WEBHOOK_API_VERSION
+  };
+
+  await writer.insert(apiWebhookOutbox).values({
+    eventId: payload.id,
+    eventType,
+    applicationId: applicationId ?? null,
+    payload
+  });
+
+  return payload.id;
+}
+
+/**
+ * Create deliveries for undispatched outbox events, one per active webhook
+ * subscribed to the event, then announce the events in-process. Returns how
+ * many events were dispatched.
+ */
+async function dispatchOutboxEvents(): Promise<number> {
+  const dispatched = await db.transaction(async (tx) => {
+    const events = await tx.select({
+      id: apiWebhookOutbox.id,
+      eventType: apiWebhookOutbox.eventType,
+      applicationId: apiWebhookOutbox.applicationId,
+      payload: apiWebhookOutbox.payload
+    })
+    .from(apiWebhookOutbox)
+    .where(isNull(apiWebhookOutbox.dispatchedAt))
+    .orderBy(asc(apiWebhookOutbox.id))
+    .limit(DISPATCH_BATCH_SIZE)
+    .for('update', { skipLocked: true });
+
+    if (events.length === 0) {
+      return events;
+    }
+
+    const webhooks = await tx.select({
       id: apiWebhooks.id,
       applicationId: apiWebhooks.applicationId,
-      url: apiWebhooks.url,
-      secret: apiWebhooks.secret,
-      events: apiWebhooks.events,
-      isActive: apiWebhooks.isActive
+      events: apiWebhooks.events
     })
     .from(apiWebhooks)
-    .where(apiWebhooks.isActive.eq(true));
-    
-    // Filter by application if specified
-    if (applicationId) {
-      webhooksQuery = webhooksQuery.where(
-        and(
-          eq(apiWebhooks.applicationId, applicationId),
-          apiWebhooks.isActive.eq(true)
-        )
-      );
-    }
-    
-    const webhooks = await webhooksQuery;
-    
-    if (webhooks.length === 0) {
-      console.log(`[WEBHOOK] No active webhooks found for event: ${eventType}`);
-      return;
+    .where(eq(apiWebhooks.isActive, true));
+
+    const deliveries = events.flatMap(event => webhooks
+      .filter(webhook => !event.applicationId || webhook.applicationId === event.applicationId)
+      .filter(webhook => isSubscribedTo(webhook.events, event.eventType))
+      .map(webhook => ({ outboxId: event.id, webhookId: webhook.id })));
+
+    if (deliveries.length > 0) {
+      await tx.insert(apiWebhookDeliveries).values(deliveries).onConflictDoNothing();
     }
-    
-    // Filter webhooks that are subscribed to this event
-    const subscribedWebhooks = webhooks.filter(webhook => {
-      const events = webhook.events ? webhook.events.split(',') : [];
-      return events.includes(eventType) || events.includes('*'); // '*' means all events
-    });
-    
-    if (subscribedWebhooks.length === 0) {
-      console.log(`[WEBHOOK] No webhooks subscribed to event: ${eventType}`);
-      return;
+
+    await tx.update(apiWebhookOutbox)
+      .set({ dispatchedAt: new Date() })
+      .where(inArray(apiWebhookOutbox.id, events.map(event => event.id)));
+
+    return events;
+  });
+
+  // Listeners only hear about changes that committed
+  const eventBus = getEventBus();
+  for (const event of dispatched) {
+    eventBus.emit(event.eventType, event.payload);
+  }
+
+  return dispatched.length;
+}
+
+/**
+ * Take the lease on the next delivery of each active webhook that is due.
+ * A webhook whose head delivery is leased or not yet due is skipped, which
+ * keeps its later deliveries waiting behind it.
+ */
+async function claimDueDeliveries(now: Date): Promise<ApiWebhookDelivery[]> {
+  const heads = await db.selectDistinctOn([apiWebhookDeliveries.webhookId], {
+    id: apiWebhookDeliveries.id,
+    nextAttemptAt: apiWebhookDeliveries.nextAttemptAt,
+    lockedUntil: apiWebhookDeliveries.lockedUntil
+  })
+  .from(apiWebhookDeliveries)
+  .innerJoin(apiWebhooks, eq(apiWebhookDeliveries.webhookId, apiWebhooks.id))
+  .where(and(
+    inArray(apiWebhookDeliveries.status, ['pending', 'retrying']),
+    eq(apiWebhooks.isActive, true)
+  ))
+  .orderBy(apiWebhookDeliveries.webhookId, apiWebhookDeliveries.outboxId, apiWebhookDeliveries.id);
+
+  const due = heads
+    .filter(head => head.nextAttemptAt <= now && (!head.lockedUntil || head.lockedUntil < now))
+    .slice(0, MAX_PARALLEL_DELIVERIES);
+
+  const claimed: ApiWebhookDelivery[] = [];
+  for (const head of due) {
+    // Another worker may have taken it since we looked
+    const [delivery] = await db.update(apiWebhookDeliveries)
+      .set({ lockedUntil: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+      .where(and(
+        eq(apiWebhookDeliveries.id, head.id),
+        inArray(apiWebhookDeliveries.status, ['pending', 'retrying']),
+        or(isNull(apiWebhookDeliveries.lockedUntil), lt(apiWebhookDeliveries.lockedUntil, now))
+      ))
+      .returning();
+    if (delivery) {
+      claimed.push(delivery);
     }
-    
-    // Prepare webhook payload
-    const payload: WebhookPayload = {
-      event: eventType,
-      timestamp: new Date().toISOString(),
-      data,
-      api_version: 'v1'
-    };
-    
-    // Send webhooks to all subscribers
-    const deliveryPromises = subscribedWebhooks.map(webhook => 
-      deliverWebhook(webhook, payload)
-    );
-    
-    await Promise.allSettled(deliveryPromises);
-    
-    console.log(`[WEBHOOK] Delivered ${subscribedWebhooks.length} webhooks for event: ${eventType}`);
-    
-  } catch (error) {
-    console.error(`[WEBHOOK] Error triggering webhook for event ${eventType}:`, error);
   }
+  return claimed;
 }
 
 /**
- * Deliver a single webhook to an endpoint
+ * Make one attempt at a claimed delivery and record what happened
  */
-async function deliverWebhook(
-  webhook: {
-    id: number;
-    applicationId: number;
-    url: string;
-    secret: string | null;
-    events: string | null;
-  },
-  payload: WebhookPayload
-): Promise<void> {
-  const deliveryId = `delivery_${Date.now()}_${webhook.id}`;
-  
+async function attemptDelivery(delivery: ApiWebhookDelivery): Promise<void> {
+  const [target] = await db.select({
+    url: apiWebhooks.url,
+    secret: apiWebhooks.secret,
+    eventType: apiWebhookOutbox.eventType,
+    payload: apiWebhookOutbox.payload
+  })
+  .from(apiWebhookDeliveries)
+  .innerJoin(apiWebhooks, eq(apiWebhookDeliveries.webhookId, apiWebhooks.id))
+  .innerJoin(apiWebhookOutbox, eq(apiWebhookDeliveries.outboxId, apiWebhookOutbox.id))
+  .where(eq(apiWebhookDeliveries.id, delivery.id));
+
+  if (!target) {
+    return;
+  }
+
+  const attemptCount = delivery.attemptCount + 1;
+  const body = JSON.stringify(target.payload);
+
+  // Prepare headers
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Pickle+ Webhook/1.0',
+    'X-Pickle-Event': target.eventType,
+    'X-Pickle-Event-Id': (target.payload as WebhookPayload).id,
+    'X-Pickle-Delivery': String(delivery.id),
+    'X-Pickle-Attempt': String(attemptCount)
+  };
+
+  // Sign the exact body we send
+  if (target.secret) {
+    Object.assign(headers, getWebhookSignatureHeaders(body, target.secret));
+  }
+
+  let statusCode: number | null = null;
+  let retryAfter: string | null = null;
+  let errorMessage: string | null = null;
+  const startTime = Date.now();
+
   try {
-    console.log(`[WEBHOOK] Delivering webhook ${deliveryId} to ${webhook.url}`);
-    
-    // Prepare headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'User-Agent': 'Pickle+ Webhook/1.0'
-    };
-    
-    // Add signature headers if secret is provided
-    if (webhook.secret) {
-      const signatureHeaders = getWebhookSignatureHeaders(payload, webhook.secret);
-      Object.assign(headers, signatureHeaders);
-    }
-    
-    // Make the webhook request
-    const startTime = Date.now();
-    const response = await axios.post(webhook.url, payload, {
+    const destination = await resolveWebhookTarget(target.url);
+    const response = await axios.post(destination.url, body, {
       headers,
-      timeout: 10000, // 10 second timeout
-      validateStatus: (status) => status >= 200 && status < 300
+      httpsAgent: pinnedAgent(destination),
+      proxy: false,
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true
     });
-    
-    const endTime = Date.now();
-    const duration = endTime - startTime;
-    
-    // Log successful delivery
-    await logWebhookDelivery({
-      webhookId: webhook.id,
-      deliveryId,
-      success: true,
-      statusCode: response.status,
-      responseTime: duration,
-      payload: JSON.stringify(payload),
-      response: JSON.stringify(response.data),
-      error: null
-    });
-    
-    console.log(`[WEBHOOK] Successfully delivered webhook ${deliveryId} (${duration}ms)`);
-    
+    statusCode = response.status;
+    retryAfter = response.headers['retry-after'] ?? null;
+    if (statusCode < 200 || statusCode >= 300) {
+      errorMessage = `Endpoint responded ${statusCode}`;
+    }
   } catch (error: any) {
-    console.error(`[WEBHOOK] Failed to deliver webhook ${deliveryId}:`, error.message);
-    
-    // Log failed delivery
-    await logWebhookDelivery({
-      webhookId: webhook.id,
-      deliveryId,
-      success: false,
-      statusCode: error.response?.status || null,
-      responseTime: null,
-      payload: JSON.stringify(payload),
-      response: error.response?.data ? JSON.stringify(error.response.data) : null,
-      error: error.message
+    errorMessage = error.message || 'Request failed';
+  }
+
+  const now = new Date();
+  const durationMs = now.getTime() - startTime;
+  const outcome = planNextAttempt({ attemptCount, statusCode, retryAfter }, now);
+
+  await db.transaction(async (tx) => {
+    await tx.insert(apiWebhookDeliveryLogs).values({
+      webhookId: delivery.webhookId,
+      deliveryId: delivery.id,
+      eventType: target.eventType,
+      payloadSnapshot: target.payload,
+      statusCode,
+      success: outcome.status === 'succeeded',
+      errorMessage,
+      durationMs,
+      attemptCount,
+      deliveredAt: now
     });
-    
-    // Update webhook failure count
-    await updateWebhookFailureCount(webhook.id);
+
+    await tx.update(apiWebhookDeliveries)
+      .set({
+        status: outcome.status,
+        attemptCount,
+        lastAttemptAt: now,
+        lastStatusCode: statusCode,
+        lastError: errorMessage,
+        lockedUntil: null,
+        nextAttemptAt: outcome.status === 'retrying' ? outcome.nextAttemptAt : now,
+        deadReason: outcome.status === 'dead' ? outcome.reason : null,
+        completedAt: outcome.status === 'succeeded' || outcome.status === 'dead' ? now : null
+      })
+      .where(eq(apiWebhookDeliveries.id, delivery.id));
+
+    if (outcome.status === 'succeeded') {
+      await tx.update(apiWebhooks)
+        .set({ failureCount: 0, failingSince: null, lastSuccess: now })
+        .where(eq(apiWebhooks.id, delivery.webhookId));
+      return;
+    }
+
+    const [webhook] = await tx.update(apiWebhooks)
+      .set({
+        failureCount: sql`COALESCE(${apiWebhooks.failureCount}, 0) + 1`,
+        failingSince: sql`COALESCE(${apiWebhooks.failingSince}, ${now})`,
+        lastFailure: now
+      })
+      .where(eq(apiWebhooks.id, delivery.webhookId))
+      .returning({ failureCount: apiWebhooks.failureCount, failingSince: apiWebhooks.failingSince });
+
+    const gone = outcome.status === 'dead' && outcome.disableEndpoint;
+    if (webhook && (gone || shouldDisableEndpoint({ failureCount: webhook.failureCount ?? 0, failingSince: webhook.failingSince }, now))) {
+      const reason = gone
+        ? 'Endpoint responded 410 Gone'
+        : `Every attempt failed since ${webhook.failingSince!.toISOString()}`;
+      await tx.update(apiWebhooks)
+        .set({ isActive: false, disabledAt: now, disabledReason: reason, updatedAt: now })
+        .where(eq(apiWebhooks.id, delivery.webhookId));
+      console.warn(`[WEBHOOK] Webhook ${delivery.webhookId} disabled: ${reason}`);
+    }
+  });
+
+  if (outcome.status === 'succeeded') {
+    console.log(`[WEBHOOK] Delivered ${target.eventType} delivery ${delivery.id} (${durationMs}ms)`);
+  } else if (outcome.status === 'dead') {
+    console.warn(`[WEBHOOK] Dead-lettered delivery ${delivery.id}: ${outcome.reason}`);
+  } else {
+    console.log(`[WEBHOOK] Delivery ${delivery.id} attempt ${attemptCount} failed (${errorMessage}), retrying at ${outcome.nextAttemptAt.toISOString()}`);
   }
 }
 
 /**
- * Log webhook delivery attempt
+ * One pass of the worker: dispatch new events, then send what is due
  */
-async function logWebhookDelivery(log: {
-  webhookId: number;
-  deliveryId: string;
-  success: boolean;
-  statusCode: number | null;
-  responseTime: number | null;
-  payload: string;
-  response: string | null;
-  error: string | null;
-}): Promise<void> {
-  try {
-    await db.insert(apiWebhookDeliveryLogs).values({
-      webhookId: log.webhookId,
-      deliveryId: log.deliveryId,
-      success: log.success,
-      statusCode: log.statusCode,
-      responseTime: log.responseTime,
-      payload: log.payload,
-      response: log.response,
-      error: log.error,
-      attemptedAt: new Date()
-    });
-  } catch (error) {
-    console.error('[WEBHOOK] Failed to log webhook delivery:', error);
-  }
+export async function runWebhookWorker(): Promise<{ dispatched: number, attempted: number }> {
+  let dispatched = 0;
+  let batch: number;
+  do {
+    batch = await dispatchOutboxEvents();
+    dispatched += batch;
+  } while (batch === DISPATCH_BATCH_SIZE);
+
+  const deliveries = await claimDueDeliveries(new Date());
+  const results = await Promise.allSettled(deliveries.map(attemptDelivery));
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`[WEBHOOK] Error sending delivery ${deliveries[i].id}:`, result.reason);
+    }
+  });
+
+  return { dispatched, attempted: deliveries.length };
 }
 
 /**
- * Update webhook failure count
+ * Queue a delivery to be sent again. It takes its event's place in the
+ * outbox order, so it goes out ahead of newer events waiting for the endpoint.
  */
-async function updateWebhookFailureCount(webhookId: number): Promise<void> {
-  try {
-    // Get current failure count
-    const webhook = await db.select({
-      failureCount: apiWebhooks.failureCount
-    })
-    .from(apiWebhooks)
-    .where(eq(apiWebhooks.id, webhookId))
-    .limit(1);
-    
-    if (webhook.length === 0) return;
-    
-    const newFailureCount = (webhook[0].failureCount || 0) + 1;
-    
-    // Update failure count and last failure time
-    await db.update(apiWebhooks)
-      .set({
-        failureCount: newFailureCount,
-        lastFailure: new Date(),
-        // Disable webhook after 10 consecutive failures
-        isActive: newFailureCount < 10
-      })
-      .where(eq(apiWebhooks.id, webhookId));
-    
-    if (newFailureCount >= 10) {
-      console.warn(`[WEBHOOK] Webhook ${webhookId} disabled after 10 consecutive failures`);
-    }
-    
-  } catch (error) {
-    console.error('[WEBHOOK] Failed to update webhook failure count:', error);
+export async function redeliverWebhookDelivery(
+  webhookId: number,
+  deliveryId: number,
+  requestedById: number
+): Promise<ApiWebhookDelivery> {
+  const [original] = await db.select({
+    delivery: apiWebhookDeliveries,
+    isActive: apiWebhooks.isActive
+  })
+  .from(apiWebhookDeliveries)
+  .innerJoin(apiWebhooks, eq(apiWebhookDeliveries.webhookId, apiWebhooks.id))
+  .where(and(eq(apiWebhookDeliveries.id, deliveryId), eq(apiWebhookDeliveries.webhookId, webhookId)));
+
+  if (!original) {
+    throw new Error('Webhook delivery not found');
   }
+  if (!original.isActive) {
+    throw new Error('Webhook is disabled; enable it before redelivering');
+  }
+
+  const [redelivery] = await db.insert(apiWebhookDeliveries)
+    .values({
+      outboxId: original.delivery.outboxId,
+      webhookId,
+      redeliveryOf: original.delivery.id,
+      requestedById
+    })
+    .returning();
+
+  console.log(`[WEBHOOK] Delivery ${deliveryId} queued for redelivery as ${redelivery.id}`);
+  return redelivery;
 }
 
 /**
- * Trigger user-related webhooks
+ * Redeliver every dead-lettered delivery of a webhook that hasn't been
+ * redelivered yet, optionally only those created since a given time
  */
-export async function triggerUserWebhook(
-  eventType: 'created' | 'updated' | 'ranking_changed',
-  userId: number,
-  userData: any,
-  applicationId?: number
-): Promise<void> {
-  const eventMap = {
-    created: WEBHOOK_EVENTS.USER_CREATED,
-    updated: WEBHOOK_EVENTS.USER_UPDATED,
-    ranking_changed: WEBHOOK_EVENTS.USER_RANKING_CHANGED
-  };
-  
-  await triggerWebhook(eventMap[eventType], {
-    user_id: userId,
-    user_data: userData
-  }, applicationId);
+export async function replayDeadDeliveries(
+  webhookId: number,
+  requestedById: number,
+  since?: Date
+): Promise<number> {
+  const [webhook] = await db.select({ isActive: apiWebhooks.isActive })
+    .from(apiWebhooks)
+    .where(eq(apiWebhooks.id, webhookId));
+
+  if (!webhook) {
+    throw new Error('Webhook not found');
+  }
+  if (!webhook.isActive) {
+    throw new Error('Webhook is disabled; enable it before redelivering');
+  }
+
+  const dead = await db.select({ id: apiWebhookDeliveries.id, outboxId: apiWebhookDeliveries.outboxId })
+    .from(apiWebhookDeliveries)
+    .where(and(
+      eq(apiWebhookDeliveries.webhookId, webhookId),
+      eq(apiWebhookDeliveries.status, 'dead'),
+      since ? sql`${apiWebhookDeliveries.createdAt} >= ${since}` : undefined,
+      sql`NOT EXISTS (SELECT 1 FROM api_webhook_deliveries r WHERE r.redelivery_of = ${apiWebhookDeliveries.id})`
+    ))
+    .orderBy(asc(apiWebhookDeliveries.outboxId), asc(apiWebhookDeliveries.id))
+    .limit(REPLAY_LIMIT);
+
+  if (dead.length > 0) {
+    await db.insert(apiWebhookDeliveries).values(dead.map(delivery => ({
+      outboxId: delivery.outboxId,
+      webhookId,
+      redeliveryOf: delivery.id,
+      requestedById
+    })));
+  }
+
+  console.log(`[WEBHOOK] Replaying ${dead.length} dead-lettered deliveries for webhook ${webhookId}`);
+  return dead.length;
 }
 
+let workerTimer: NodeJS.Timeout | null = null;
+
 /**
- * Trigger WeChat-specific webhooks
+ * Runs the outbox worker every few seconds
  */
-export async function triggerWeChatWebhook(
-  eventType: 'user_linked' | 'profile_synced',
-  data: any,
-  applicationId?: number
-): Promise<void> {
-  const eventMap = {
-    user_linked: WEBHOOK_EVENTS.WECHAT_USER_LINKED,
-    profile_synced: WEBHOOK_EVENTS.WECHAT_PROFILE_SYNCED
+export function startWebhookDeliveryWorker(intervalMs: number = WORKER_INTERVAL_MS): void {
+  if (workerTimer) {
+    return;
+  }
+
+  const schedule = () => {
+    workerTimer = setTimeout(() => {
+      runWebhookWorker()
+        .catch(error => console.error('[WEBHOOK] Worker pass failed:', error))
+        .finally(() => {
+          if (workerTimer) {
+            schedule();
+          }
+        });
+    }, intervalMs);
   };
-  
-  await triggerWebhook(eventMap[eventType], data, applicationId);
-}
\ No newline at end of file
+
+  console.log(`[WEBHOOK] Starting webhook delivery worker (every ${intervalMs / 1000}s)`);
+  schedule();
+}
+
+export function stopWebhookDeliveryWorker(): void {
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+    workerTimer = null;
+  }
+}
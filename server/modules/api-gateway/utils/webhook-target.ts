@@ -0,0 +1,123 @@
+/**
+ * PKL-278651-API-0001-SYNC
+ * Webhook Target Checks
+ *
+ * Webhook URLs are chosen by developers but requested by our servers, so
+ * they must not reach anything that is only reachable from inside: the URL
+ * has to be https and every address its host resolves to has to be public.
+ * The check runs when a webhook is registered and again before each send,
+ * and the send connects to the address that was checked so a DNS change in
+ * between cannot redirect it.
+ */
+
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+
+export interface WebhookTarget {
+  url: string;
+  address: string;
+  family: 4 | 6;
+}
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+// carrier-grade NAT, multicast and other reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * Whether an address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  if (family === 6) {
+    // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return isPublicAddress(mapped[1]);
+    }
+    return !BLOCKED_ADDRESSES.check(address, 'ipv6');
+  }
+  return !BLOCKED_ADDRESSES.check(address, 'ipv4');
+}
+
+/**
+ * Check a webhook URL and resolve the address to send to
+ * @throws Error when the URL is not https or its host is not public
+ */
+export async function resolveWebhookTarget(url: string): Promise<WebhookTarget> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Webhook URL is not a valid URL');
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error('Webhook URL must use https');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [{ address: hostname, family: net.isIP(hostname) }]
+      : await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Webhook host ${hostname} could not be resolved`);
+  }
+
+  // Every address must be public, or a host could list one of each
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new Error(`Webhook host ${hostname} is not a public address`);
+  }
+
+  return { url, address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+/**
+ * An agent that connects to the checked address whatever the host resolves to now
+ */
+export function pinnedAgent(target: WebhookTarget): https.Agent {
+  return new https.Agent({
+    lookup: (_hostname, options, callback) => {
+      if ((options as dns.LookupAllOptions).all) {
+        (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, [{ address: target.address, family: target.family }]);
+      } else {
+        callback(null, target.address, target.family);
+      }
+    }
+  });
+}
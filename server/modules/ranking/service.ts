@@ -255,8 +255,10 @@ export class MultiDimensionalRankingService {
       eventType: 'casual' as const
     };
     
-    // Calculate points WITH all bonuses applied
-    const matchResults = calculateMatchPoints([winnerMatchData, loserMatchData], format === 'mixed' ? 'doubles' : format);
+    // Calculate points WITH all bonuses applied, under the points ruleset currently in force
+    const { getActivePointsRuleset } = await import('../../services/points-ruleset-service');
+    const ruleset = await getActivePointsRuleset();
+    const matchResults = calculateMatchPoints([winnerMatchData, loserMatchData], format === 'mixed' ? 'doubles' : format, ruleset);
     const winnerCalculation = matchResults.find(r => r.playerId === winnerId)!;
     const loserCalculation = matchResults.find(r => r.playerId === loserId)!;
     
@@ -272,7 +274,7 @@ export class MultiDimensionalRankingService {
       winnerCalculation.rankingPointsEarned, // Using calculated points with bonuses!
       matchId,
       tournamentId,
-      "match_win"
+      `match_win [rules v${ruleset.version}]`
     );
     
     const loserResult = await this.updateMultiAgeGroupRankings(
@@ -283,7 +285,7 @@ export class MultiDimensionalRankingService {
       loserCalculation.rankingPointsEarned, // Using calculated points with bonuses!
       matchId,
       tournamentId,
-      "match_participation"
+      `match_participation [rules v${ruleset.version}]`
     );
     
     console.log(`[Multi-Age Ranking] Complete - Winner: ${winnerResult.updatedRankings.length} rankings updated, Loser: ${loserResult.updatedRankings.length} rankings updated`);
@@ -296,8 +298,16 @@ export class MultiDimensionalRankingService {
       const legacyFormat = format === 'singles' ? 'singles' : 'doubles';
       
       // TRANSACTIONAL SYNC: Update both players' legacy ranking fields
-      await storage.updateUserRankingPoints(winnerId, winnerCalculation.rankingPointsEarned, legacyFormat);
-      await storage.updateUserRankingPoints(loserId, loserCalculation.rankingPointsEarned, legacyFormat);
+      for (const calculation of [winnerCalculation, loserCalculation]) {
+        await storage.updateUserRankingPoints(calculation.playerId, calculation.rankingPointsEarned, legacyFormat, {
+          division: format,
+          sourceType: 'match',
+          sourceId: matchId,
+          rulesetVersion: calculation.rulesetVersion,
+          multipliers: { age: calculation.multipliers.age, gender: calculation.multipliers.gender, event: calculation.multipliers.event },
+          calculationDetails: calculation.calculationDetails
+        });
+      }
       
       console.log(`[UDF RULE 26 SYNC] LEGACY SYNC SUCCESS - Winner: +${winnerCalculation.rankingPointsEarned} ${legacyFormat} points, Loser: +${loserCalculation.rankingPointsEarned} ${legacyFormat} points`);
       console.log(`[UDF RULE 26 SYNC] Both playerRankings and users.${legacyFormat}_ranking_points updated for Match ${matchId}`);
@@ -315,6 +325,7 @@ export class MultiDimensionalRankingService {
       loserValidation: loserResult.validationResult,
       pointsAwarded: winnerCalculation.rankingPointsEarned,
       participationPoints: loserCalculation.rankingPointsEarned,
+      rulesetVersion: ruleset.version,
       // Enhanced response with bonus breakdown
       winnerCalculationDetails: winnerCalculation.calculationDetails,
       loserCalculationDetails: loserCalculation.calculationDetails
@@ -1,168 +1,236 @@
 /**
  * PKL-278651-OAUTH-001 - OAuth Controller
- * 
+ *
  * Handles the HTTP requests for OAuth endpoints.
- * This controller implements the OAuth 2.0 flows.
- * 
+ * This controller implements the OAuth 2.0 authorization code flow with
+ * PKCE, refresh token rotation and revocation.
+ *
+ * The consent screen is a client page (/oauth/consent): the authorize
+ * endpoint validates the request, keeps it in the session and sends the
+ * player there, and the page reads and answers it through the JSON consent
+ * endpoints. Players review and revoke the apps they have authorized from
+ * account settings through the authorizations endpoints.
+ *
  * @framework Framework5.3
- * @version 1.0.0
- * @lastModified 2025-04-30
+ * @version 1.1.0
+ * @lastModified 2026-10-19
  */
 
-import { Request, Response } from 'express';
-import { 
-  oauthClientService, 
-  authorizationCodeService, 
-  tokenService, 
-  authorizationService 
+// Extend the express session interface at file scope
+declare module 'express-session' {
+  interface SessionData {
+    csrfToken?: string;
+    oauthAuthorizationRequest?: PendingAuthorizationRequest;
+  }
+}
+
+import { Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../../db';
+import { users } from '../../../shared/schema';
+import {
+  oauthClientService,
+  authorizationCodeService,
+  tokenService,
+  authorizationService,
+  ACCESS_TOKEN_EXPIRATION
 } from '../services/oauth-service';
-import { AVAILABLE_SCOPES } from '../../../shared/schema/oauth';
-import { URL } from 'url';
+import { API_SCOPES, getScopeDetails } from '../../modules/api-gateway/config/api-scopes';
+import {
+  buildRedirectUrl,
+  isRegisteredRedirectUri,
+  isValidCodeChallenge,
+  parseScopeParam,
+  resolveRequestedScopes
+} from '../../../shared/utils/oauthGrant';
+
+interface PendingAuthorizationRequest {
+  requestId: string;
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+const KNOWN_SCOPES = API_SCOPES.map(scope => scope.scope);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+/**
+ * How a scope is described to the player on the consent screen and in
+ * account settings
+ */
+function describeScopes(scopes: string[]) {
+  return scopes.map(scope => {
+    const details = getScopeDetails(scope);
+    return {
+      scope,
+      name: details?.name ?? scope,
+      description: details?.description ?? '',
+      dataAccess: details?.dataAccess ?? []
+    };
+  });
+}
+
+/**
+ * Issue a code for an approved request and build the redirect back to the
+ * client
+ */
+async function approveRequest(userId: number, request: PendingAuthorizationRequest): Promise<string> {
+  const authCode = await authorizationCodeService.createAuthorizationCode({
+    userId,
+    clientId: request.clientId,
+    redirectUri: request.redirectUri,
+    scopes: request.scopes,
+    codeChallenge: request.codeChallenge,
+    codeChallengeMethod: 'S256',
+    nonce: request.nonce
+  });
+
+  return buildRedirectUrl(request.redirectUri, { code: authCode.code, state: request.state });
+}
+
+/**
+ * Client authentication for the token and revocation endpoints, from HTTP
+ * Basic credentials or the request body. Public clients send only their ID.
+ */
+async function authenticateClient(req: Request) {
+  let clientId = asString(req.body?.client_id);
+  let clientSecret = asString(req.body?.client_secret);
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.substring(6), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      clientId = decodeURIComponent(decoded.substring(0, separator));
+      clientSecret = decodeURIComponent(decoded.substring(separator + 1));
+    }
+  }
+
+  if (!clientId) return null;
+  const client = await oauthClientService.getClientById(clientId);
+  if (!client || client.status !== 'approved') return null;
+
+  if (!client.isPublicClient && !(await oauthClientService.verifyClientSecret(clientId, clientSecret))) {
+    return null;
+  }
+  return client;
+}
+
+/**
+ * The consent and account settings endpoints change what a partner app can
+ * do with the player's account, so they need the session's CSRF token
+ */
+export function requireCsrfToken(req: Request, res: Response, next: NextFunction) {
+  const csrfToken = req.headers['x-csrf-token'];
+  if (!csrfToken || !req.session?.csrfToken || req.session.csrfToken !== csrfToken) {
+    return res.status(403).json({
+      error: 'csrf_invalid',
+      message: 'CSRF token validation failed'
+    });
+  }
+  next();
+}
 
 /**
  * Handles the authorization request (authorization code flow first step)
  * GET /oauth/authorize
  */
 export async function authorizeHandler(req: Request, res: Response) {
-  const { 
-    client_id, 
-    redirect_uri, 
-    response_type, 
-    scope, 
-    state, 
-    code_challenge,
-    code_challenge_method,
-    nonce
-  } = req.query;
-  
+  const clientId = asString(req.query.client_id);
+  const redirectUri = asString(req.query.redirect_uri);
+  const state = asString(req.query.state);
+
   try {
     // Verify required parameters
-    if (!client_id || !redirect_uri || !response_type) {
-      return res.render('oauth/error', { 
+    if (!clientId || !redirectUri) {
+      return res.status(400).json({
         error: 'invalid_request',
         error_description: 'Missing required parameters'
       });
     }
-    
+
     // Check if client exists
-    const client = await oauthClientService.getClientById(client_id as string);
+    const client = await oauthClientService.getClientById(clientId);
     if (!client) {
-      return res.render('oauth/error', { 
+      return res.status(400).json({
         error: 'invalid_client',
         error_description: 'Client not found'
       });
     }
-    
-    // Verify client status
-    if (client.status !== 'approved') {
-      return res.render('oauth/error', { 
-        error: 'unauthorized_client',
-        error_description: 'Client is not authorized'
-      });
-    }
-    
-    // Verify redirect URI
-    if (!client.redirectUris.includes(redirect_uri as string)) {
-      return res.render('oauth/error', { 
+
+    // Verify redirect URI. Until it is verified, errors cannot be sent back
+    // to the client.
+    if (!isRegisteredRedirectUri(client.redirectUris, redirectUri)) {
+      return res.status(400).json({
         error: 'invalid_request',
         error_description: 'Invalid redirect URI'
       });
     }
-    
+
+    const redirectWithError = (error: string, description: string) =>
+      res.redirect(buildRedirectUrl(redirectUri, { error, error_description: description, state }));
+
+    // Verify client status
+    if (client.status !== 'approved') {
+      return redirectWithError('unauthorized_client', 'Client is not authorized');
+    }
+
     // Verify response type (only 'code' supported for now)
-    if (response_type !== 'code') {
-      const redirectUrl = new URL(redirect_uri as string);
-      redirectUrl.searchParams.append('error', 'unsupported_response_type');
-      redirectUrl.searchParams.append('error_description', 'Only authorization code flow is supported');
-      if (state) redirectUrl.searchParams.append('state', state as string);
-      return res.redirect(redirectUrl.toString());
+    if (req.query.response_type !== 'code') {
+      return redirectWithError('unsupported_response_type', 'Only authorization code flow is supported');
+    }
+
+    // Every client must use PKCE with S256
+    const codeChallenge = asString(req.query.code_challenge);
+    if (!codeChallenge || !isValidCodeChallenge(codeChallenge) || req.query.code_challenge_method !== 'S256') {
+      return redirectWithError('invalid_request', 'A code_challenge with code_challenge_method S256 is required');
     }
-    
-    // Parse and validate scopes
-    const requestedScopes = scope ? (scope as string).split(' ') : ['profile'];
-    const validScopes = requestedScopes.filter(s => AVAILABLE_SCOPES[s]);
-    
-    // Verify PKCE parameters if provided
-    if (code_challenge && (!code_challenge_method || !['plain', 'S256'].includes(code_challenge_method as string))) {
-      const redirectUrl = new URL(redirect_uri as string);
-      redirectUrl.searchParams.append('error', 'invalid_request');
-      redirectUrl.searchParams.append('error_description', 'Invalid code challenge method');
-      if (state) redirectUrl.searchParams.append('state', state as string);
-      return res.redirect(redirectUrl.toString());
+
+    // Parse and validate scopes against the gateway's scopes and the client's registration
+    const requested = parseScopeParam(req.query.scope);
+    const { granted, unknown, notAllowed } = resolveRequestedScopes(requested, client.allowedScopes, KNOWN_SCOPES);
+    if (granted.length === 0 || unknown.length > 0 || notAllowed.length > 0) {
+      const rejected = [...unknown, ...notAllowed];
+      return redirectWithError(
+        'invalid_scope',
+        rejected.length > 0 ? `Scopes not available to this client: ${rejected.join(' ')}` : 'At least one scope is required'
+      );
     }
-    
+
     // Check user authentication
-    if (!req.isAuthenticated()) {
-      // Store authorization request in session for after login
-      req.session.authRequest = {
-        client_id,
-        redirect_uri,
-        response_type,
-        scope: validScopes.join(' '),
-        state,
-        code_challenge,
-        code_challenge_method,
-        nonce
-      };
-      
-      // Redirect to login
-      return res.redirect(`/login?returnTo=${encodeURIComponent('/oauth/authorize')}`);
+    if (!req.isAuthenticated() || !req.user) {
+      // Come back to this request after login
+      return res.redirect(`/auth?returnTo=${encodeURIComponent(req.originalUrl)}`);
     }
-    
-    // At this point, user is authenticated
-    const userId = req.user.id;
-    
+
+    const request: PendingAuthorizationRequest = {
+      requestId: randomBytes(16).toString('hex'),
+      clientId,
+      redirectUri,
+      scopes: granted,
+      state,
+      codeChallenge,
+      nonce: asString(req.query.nonce)
+    };
+
     // Check if user has already authorized this application with these scopes
-    const authCheck = await authorizationService.checkAuthorization(
-      userId,
-      client_id as string,
-      validScopes
-    );
-    
+    const authCheck = await authorizationService.checkAuthorization(req.user.id, clientId, granted);
     if (authCheck.authorized) {
-      // User has already authorized, proceed directly
-      const authCode = await authorizationCodeService.createAuthorizationCode(
-        userId,
-        client_id as string,
-        redirect_uri as string,
-        validScopes,
-        code_challenge as string,
-        code_challenge_method as string,
-        nonce as string
-      );
-      
-      // Redirect back to client with authorization code
-      const redirectUrl = new URL(redirect_uri as string);
-      redirectUrl.searchParams.append('code', authCode.code);
-      if (state) redirectUrl.searchParams.append('state', state as string);
-      
-      return res.redirect(redirectUrl.toString());
+      return res.redirect(await approveRequest(req.user.id, request));
     }
-    
+
     // User hasn't authorized yet, show consent screen
-    res.render('oauth/consent', {
-      client,
-      scopes: validScopes.map(scope => ({
-        id: scope,
-        description: AVAILABLE_SCOPES[scope]
-      })),
-      redirectUri: redirect_uri,
-      userId,
-      // Pass along all parameters for the authorization
-      authParams: {
-        client_id,
-        redirect_uri,
-        response_type,
-        scope: validScopes.join(' '),
-        state,
-        code_challenge,
-        code_challenge_method,
-        nonce
-      }
-    });
+    req.session.oauthAuthorizationRequest = request;
+    res.redirect('/oauth/consent');
   } catch (error) {
     console.error('[OAUTH] Authorization error:', error);
-    res.render('oauth/error', { 
+    res.status(500).json({
       error: 'server_error',
       error_description: 'An error occurred processing the request'
     });
@@ -170,69 +238,111 @@ export async function authorizeHandler(req: Request, res: Response) {
 }
 
 /**
- * Handles the consent form submission
- * POST /oauth/consent
+ * The pending authorization request, for the consent screen
+ * GET /api/oauth/consent
  */
-export async function consentHandler(req: Request, res: Response) {
-  const { 
-    client_id, 
-    redirect_uri, 
-    scope,
-    state,
-    code_challenge,
-    code_challenge_method,
-    nonce,
-    consent
-  } = req.body;
-  
-  // Handle user denying access
-  if (consent !== 'allow') {
-    const redirectUrl = new URL(redirect_uri);
-    redirectUrl.searchParams.append('error', 'access_denied');
-    redirectUrl.searchParams.append('error_description', 'User denied the request');
-    if (state) redirectUrl.searchParams.append('state', state);
-    return res.redirect(redirectUrl.toString());
+export async function getConsentHandler(req: Request, res: Response) {
+  try {
+    const request = req.session.oauthAuthorizationRequest;
+    if (!request) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'No authorization request is waiting for consent'
+      });
+    }
+
+    const client = await oauthClientService.getClientById(request.clientId);
+    if (!client || client.status !== 'approved') {
+      delete req.session.oauthAuthorizationRequest;
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'The application is no longer available'
+      });
+    }
+
+    const { existingScopes } = await authorizationService.checkAuthorization(req.user!.id, client.clientId, request.scopes);
+
+    res.json({
+      requestId: request.requestId,
+      client: {
+        name: client.name,
+        description: client.description,
+        websiteUrl: client.websiteUrl,
+        logoUrl: client.logoUrl,
+        privacyPolicyUrl: client.privacyPolicyUrl,
+        termsOfServiceUrl: client.termsOfServiceUrl
+      },
+      redirectHost: new URL(request.redirectUri).host,
+      scopes: describeScopes(request.scopes),
+      previouslyGranted: existingScopes
+    });
+  } catch (error) {
+    console.error('[OAUTH] Consent lookup error:', error);
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to load the authorization request'
+    });
   }
-  
+}
+
+/**
+ * Handles the consent decision
+ * POST /api/oauth/consent
+ */
+export async function consentHandler(req: Request, res: Response) {
+  const { request_id, decision } = req.body ?? {};
+
   try {
-    if (!req.isAuthenticated()) {
-      return res.redirect('/login');
+    const request = req.session.oauthAuthorizationRequest;
+    if (!request || request.requestId !== request_id) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'This authorization request has expired; start again from the application'
+      });
+    }
+
+    // Each request is answered once
+    delete req.session.oauthAuthorizationRequest;
+
+    // Handle user denying access
+    if (decision !== 'allow') {
+      return res.json({
+        redirectTo: buildRedirectUrl(request.redirectUri, {
+          error: 'access_denied',
+          error_description: 'User denied the request',
+          state: request.state
+        })
+      });
+    }
+
+    const client = await oauthClientService.getClientById(request.clientId);
+    if (!client || client.status !== 'approved') {
+      return res.json({
+        redirectTo: buildRedirectUrl(request.redirectUri, {
+          error: 'unauthorized_client',
+          error_description: 'Client is not authorized',
+          state: request.state
+        })
+      });
     }
-    
-    const userId = req.user.id;
-    const scopes = scope.split(' ');
-    
+
+    const userId = req.user!.id;
+
     // Record the user's authorization
     await authorizationService.recordAuthorization(
       userId,
-      client_id,
-      scopes,
+      request.clientId,
+      request.scopes,
       req.ip,
       req.get('user-agent')
     );
-    
-    // Generate an authorization code
-    const authCode = await authorizationCodeService.createAuthorizationCode(
-      userId,
-      client_id,
-      redirect_uri,
-      scopes,
-      code_challenge,
-      code_challenge_method,
-      nonce
-    );
-    
-    // Redirect back to client with authorization code
-    const redirectUrl = new URL(redirect_uri);
-    redirectUrl.searchParams.append('code', authCode.code);
-    if (state) redirectUrl.searchParams.append('state', state);
-    
-    return res.redirect(redirectUrl.toString());
+
+    res.json({ redirectTo: await approveRequest(userId, request) });
   } catch (error) {
     console.error('[OAUTH] Consent error:', error);
-    res.render('oauth/error', { 
+    res.status(500).json({
       error: 'server_error',
-      error_description: 'An error occurred processing the consent'
+      message: 'An error occurred processing the consent'
     });
   }
 }
@@ -242,73 +352,48 @@ export async function consentHandler(req: Request, res: Response) {
  * POST /oauth/token
  */
 export async function tokenHandler(req: Request, res: Response) {
-  const { grant_type, code, redirect_uri, client_id, client_secret, refresh_token, code_verifier } = req.body;
-  
+  const { grant_type, code, redirect_uri, refresh_token, code_verifier } = req.body ?? {};
+
+  // Token responses must never be cached
+  res.set({ 'Cache-Control': 'no-store', 'Pragma': 'no-cache' });
+
   try {
     // Validate client credentials
-    const client = await oauthClientService.getClientById(client_id);
+    const client = await authenticateClient(req);
     if (!client) {
       return res.status(401).json({
         error: 'invalid_client',
         error_description: 'Invalid client credentials'
       });
     }
-    
-    // Public clients don't need to provide a client secret
-    if (!client.isPublicClient) {
-      // Verify client secret
-      const validSecret = await oauthClientService.verifyClientSecret(client_id, client_secret);
-      if (!validSecret) {
-        return res.status(401).json({
-          error: 'invalid_client',
-          error_description: 'Invalid client credentials'
-        });
-      }
-    }
-    
+
+    let tokens;
+
     // Handle different grant types
     if (grant_type === 'authorization_code') {
       // Authorization code flow
-      if (!code || !redirect_uri) {
+      if (!code || !redirect_uri || !code_verifier) {
         return res.status(400).json({
           error: 'invalid_request',
-          error_description: 'Missing required parameters'
+          error_description: 'code, redirect_uri and code_verifier are required'
         });
       }
-      
-      // Validate the authorization code
-      const authCode = await authorizationCodeService.validateAuthorizationCode(
-        code,
-        client_id,
-        redirect_uri,
-        code_verifier
+
+      tokens = await tokenService.exchangeAuthorizationCode(
+        String(code),
+        client.clientId,
+        String(redirect_uri),
+        String(code_verifier),
+        req.ip,
+        req.get('user-agent')
       );
-      
-      if (!authCode) {
+
+      if (!tokens) {
         return res.status(400).json({
           error: 'invalid_grant',
           error_description: 'Invalid authorization code'
         });
       }
-      
-      // Generate tokens
-      const tokens = await tokenService.createTokens(
-        authCode.userId,
-        client_id,
-        authCode.scopes,
-        req.ip,
-        req.get('user-agent')
-      );
-      
-      // Return the tokens
-      return res.json({
-        access_token: tokens.accessToken.token,
-        token_type: 'Bearer',
-        expires_in: ACCESS_TOKEN_EXPIRATION,
-        refresh_token: tokens.refreshToken.token,
-        scope: authCode.scopes.join(' ')
-      });
-      
     } else if (grant_type === 'refresh_token') {
       // Refresh token flow
       if (!refresh_token) {
@@ -317,37 +402,35 @@ export async function tokenHandler(req: Request, res: Response) {
           error_description: 'Missing refresh token'
         });
       }
-      
-      // Refresh the token
-      const tokens = await tokenService.refreshAccessToken(
-        refresh_token,
-        client_id,
+
+      tokens = await tokenService.refreshAccessToken(
+        String(refresh_token),
+        client.clientId,
         req.ip,
         req.get('user-agent')
       );
-      
+
       if (!tokens) {
         return res.status(400).json({
           error: 'invalid_grant',
           error_description: 'Invalid refresh token'
         });
       }
-      
-      // Return the new tokens
-      return res.json({
-        access_token: tokens.accessToken.token,
-        token_type: 'Bearer',
-        expires_in: ACCESS_TOKEN_EXPIRATION,
-        refresh_token: tokens.refreshToken.token,
-        scope: tokens.accessToken.scopes.join(' ')
-      });
-      
     } else {
       return res.status(400).json({
         error: 'unsupported_grant_type',
         error_description: 'Unsupported grant type'
       });
     }
+
+    // Return the tokens
+    return res.json({
+      access_token: tokens.accessToken.token,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_EXPIRATION,
+      refresh_token: tokens.refreshToken.token,
+      scope: tokens.accessToken.scopes.join(' ')
+    });
   } catch (error) {
     console.error('[OAUTH] Token error:', error);
     res.status(500).json({
@@ -362,36 +445,30 @@ export async function tokenHandler(req: Request, res: Response) {
  * POST /oauth/revoke
  */
 export async function revokeHandler(req: Request, res: Response) {
-  const { token, token_type_hint, client_id, client_secret } = req.body;
-  
+  const token = asString(req.body?.token);
+
   try {
     // Validate client credentials
-    const client = await oauthClientService.getClientById(client_id);
+    const client = await authenticateClient(req);
     if (!client) {
       return res.status(401).json({
         error: 'invalid_client',
         error_description: 'Invalid client credentials'
       });
     }
-    
-    // Public clients don't need to provide a client secret
-    if (!client.isPublicClient) {
-      // Verify client secret
-      const validSecret = await oauthClientService.verifyClientSecret(client_id, client_secret);
-      if (!validSecret) {
-        return res.status(401).json({
-          error: 'invalid_client',
-          error_description: 'Invalid client credentials'
-        });
-      }
+
+    if (!token) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'Missing token'
+      });
     }
-    
+
     // Revoke the token
-    await tokenService.revokeToken(token);
-    
+    await tokenService.revokeToken(token, client.clientId);
+
     // According to spec, revoke token should always return 200 even if token is invalid
     res.status(200).json({});
-    
   } catch (error) {
     console.error('[OAUTH] Revoke error:', error);
     res.status(500).json({
@@ -415,9 +492,9 @@ export async function userInfoHandler(req: Request, res: Response) {
         error_description: 'Missing or invalid token'
       });
     }
-    
+
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
+
     // Validate the token
     const validation = await tokenService.validateToken(token);
     if (!validation.valid) {
@@ -426,54 +503,42 @@ export async function userInfoHandler(req: Request, res: Response) {
         error_description: 'Invalid or expired token'
       });
     }
-    
+
     // Get user data
-    const { userId, scopes } = validation;
+    const { userId, scopes = [] } = validation;
     const [user] = await db.select({
       id: users.id,
       username: users.username,
-      email: users.email,
+      displayName: users.displayName,
       firstName: users.firstName,
       lastName: users.lastName,
-      avatarUrl: users.avatarUrl,
-      createdAt: users.createdAt
+      avatarUrl: users.avatarUrl
     })
     .from(users)
-    .where(eq(users.id, userId));
-    
+    .where(eq(users.id, userId!));
+
     if (!user) {
       return res.status(404).json({
         error: 'not_found',
         error_description: 'User not found'
       });
     }
-    
+
     // Return user data based on authorized scopes
-    const response: any = {
+    const response: Record<string, unknown> = {
       sub: user.id.toString(), // Per OpenID Connect spec
     };
-    
-    // Basic profile scope
-    if (scopes.includes('profile')) {
-      response.username = user.username;
-      response.name = [user.firstName, user.lastName].filter(Boolean).join(' ');
-    }
-    
-    // Email scope
-    if (scopes.includes('email')) {
-      response.email = user.email;
-    }
-    
-    // Profile picture
-    if (scopes.includes('profile.avatar') && user.avatarUrl) {
-      response.picture = user.avatarUrl;
+
+    // Profile fields need user:read, which never includes contact details
+    if (scopes.includes('user:read')) {
+      response.preferred_username = user.username;
+      response.name = user.displayName || [user.firstName, user.lastName].filter(Boolean).join(' ');
+      if (user.avatarUrl) {
+        response.picture = user.avatarUrl;
+      }
     }
-    
-    // Add other user data based on scopes
-    // ...
-    
+
     return res.json(response);
-    
   } catch (error) {
     console.error('[OAUTH] UserInfo error:', error);
     res.status(500).json({
@@ -483,4 +548,64 @@ export async function userInfoHandler(req: Request, res: Response) {
   }
 }
 
-// Other controller methods as needed
\ No newline at end of file
+/**
+ * The apps the current user has authorized, for account settings
+ * GET /api/oauth/authorizations
+ */
+export async function listAuthorizationsHandler(req: Request, res: Response) {
+  try {
+    const authorizations = await authorizationService.getUserAuthorizations(req.user!.id);
+
+    res.json({
+      data: authorizations.map(({ authorization, client }) => ({
+        id: authorization.id,
+        client: {
+          name: client.name,
+          websiteUrl: client.websiteUrl,
+          logoUrl: client.logoUrl
+        },
+        scopes: describeScopes(authorization.scopes),
+        authorizedAt: authorization.createdAt,
+        lastUsedAt: authorization.lastUsedAt
+      }))
+    });
+  } catch (error) {
+    console.error('[OAUTH] Authorization list error:', error);
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to retrieve connected apps'
+    });
+  }
+}
+
+/**
+ * Revoke an app's access to the current user's account
+ * DELETE /api/oauth/authorizations/:id
+ */
+export async function revokeAuthorizationHandler(req: Request, res: Response) {
+  try {
+    const authorizationId = parseInt(req.params.id);
+    if (isNaN(authorizationId)) {
+      return res.status(400).json({
+        error: 'invalid_id',
+        message: 'Invalid authorization ID'
+      });
+    }
+
+    const revoked = await authorizationService.revokeAuthorization(req.user!.id, authorizationId, 'revoked_by_user');
+    if (!revoked) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Authorization not found'
+      });
+    }
+
+    res.json({ message: 'Access revoked' });
+  } catch (error) {
+    console.error('[OAUTH] Authorization revoke error:', error);
+    res.status(500).json({
+      error: 'server_error',
+      message: 'Failed to revoke access'
+    });
+  }
+}
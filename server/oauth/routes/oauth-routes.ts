@@ -0,0 +1,42 @@
+/**
+ * PKL-278651-OAUTH-001 - OAuth Routes
+ *
+ * The OAuth 2.0 provider endpoints partner apps call, and the JSON endpoints
+ * behind the consent screen and the connected apps list in account settings.
+ *
+ * @framework Framework5.3
+ * @version 1.0.0
+ * @lastModified 2026-10-19
+ */
+
+import { Router } from 'express';
+import { isAuthenticated } from '../../auth';
+import {
+  authorizeHandler,
+  consentHandler,
+  getConsentHandler,
+  listAuthorizationsHandler,
+  requireCsrfToken,
+  revokeAuthorizationHandler,
+  revokeHandler,
+  tokenHandler,
+  userInfoHandler
+} from '../controllers/oauth-controller';
+
+const router = Router();
+
+// Provider endpoints
+router.get('/oauth/authorize', authorizeHandler);
+router.post('/oauth/token', tokenHandler);
+router.post('/oauth/revoke', revokeHandler);
+router.get('/oauth/userinfo', userInfoHandler);
+
+// Consent screen
+router.get('/api/oauth/consent', isAuthenticated, getConsentHandler);
+router.post('/api/oauth/consent', isAuthenticated, requireCsrfToken, consentHandler);
+
+// Connected apps in account settings
+router.get('/api/oauth/authorizations', isAuthenticated, listAuthorizationsHandler);
+router.delete('/api/oauth/authorizations/:id', isAuthenticated, requireCsrfToken, revokeAuthorizationHandler);
+
+export default router;
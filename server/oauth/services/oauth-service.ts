@@ -1,51 +1,48 @@
 /**
  * PKL-278651-OAUTH-001 - OAuth Service
- * 
+ *
  * Core service layer for OAuth server functionality.
  * This contains the business logic for handling OAuth flows.
- * 
+ *
+ * Clients are registered against a developer portal application, and the
+ * scopes they request are the API gateway's scopes (api-scopes.ts). Access
+ * tokens issued here are accepted by the v1 gateway alongside API keys, so a
+ * partner app can call it on behalf of the player who consented.
+ *
  * @framework Framework5.3
- * @version 1.0.0
- * @lastModified 2025-04-30
+ * @version 1.1.0
+ * @lastModified 2026-10-19
  */
 
 import { db } from '../../db';
-import { eq, and, isNull } from 'drizzle-orm';
-import { randomBytes, createHash } from 'crypto';
+import { eq, and, isNull, inArray } from 'drizzle-orm';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import { randomBytes } from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { 
-  accessTokens, 
-  refreshTokens, 
-  oauthClients, 
-  userAuthorizations, 
+import {
+  accessTokens,
+  refreshTokens,
+  oauthClients,
+  userAuthorizations,
   authorizationCodes,
   OAuthClient,
   AccessToken,
   RefreshToken,
   AuthorizationCode,
-  UserAuthorization,
-  AVAILABLE_SCOPES
+  UserAuthorization
 } from '../../../shared/schema/oauth';
-import { users } from '../../../shared/schema';
+import { apiApplications, apiDeveloperAccounts } from '../../../shared/schema/api-gateway';
+import { verifyPkce } from '../../../shared/utils/oauthGrant';
+
+type Writer = PgDatabase<any, any, any>;
 
 // Default token expiration times (in seconds)
-const ACCESS_TOKEN_EXPIRATION = 60 * 60; // 1 hour
-const REFRESH_TOKEN_EXPIRATION = 30 * 24 * 60 * 60; // 30 days
-const AUTHORIZATION_CODE_EXPIRATION = 10 * 60; // 10 minutes
+export const ACCESS_TOKEN_EXPIRATION = 60 * 60; // 1 hour
+export const REFRESH_TOKEN_EXPIRATION = 30 * 24 * 60 * 60; // 30 days
+export const AUTHORIZATION_CODE_EXPIRATION = 10 * 60; // 10 minutes
 
-/**
- * Validates that the requested scopes are valid and allowed
- */
-function validateScopes(requestedScopes: string[], allowedScopes: string[]): string[] {
-  // Filter out any scopes that are invalid or not allowed
-  const validScopes = requestedScopes.filter(scope => 
-    AVAILABLE_SCOPES[scope] && allowedScopes.includes(scope)
-  );
-  
-  // Return at least the basic profile scope if nothing valid was requested
-  return validScopes.length > 0 ? validScopes : ['profile'];
-}
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * Creates a secure random string
@@ -55,26 +52,54 @@ function generateSecureToken(length = 32): string {
 }
 
 /**
- * Generates a new client secret
+ * Revokes every access and refresh token a user has granted a client
  */
-function generateClientSecret(): string {
-  const secret = generateSecureToken(32);
-  // Hash client secret to prevent using it directly
-  return bcrypt.hashSync(secret, 10);
-  // Note: The original unhashed secret will be returned to the developer once
+async function revokeGrant(writer: Writer, userId: number, clientId: string): Promise<void> {
+  const now = new Date();
+  const grantTokens = writer.select({ id: accessTokens.id })
+    .from(accessTokens)
+    .where(and(eq(accessTokens.userId, userId), eq(accessTokens.clientId, clientId)));
+
+  await writer.update(refreshTokens)
+    .set({ revokedAt: now })
+    .where(and(inArray(refreshTokens.accessTokenId, grantTokens), isNull(refreshTokens.revokedAt)));
+  await writer.update(accessTokens)
+    .set({ revokedAt: now })
+    .where(and(
+      eq(accessTokens.userId, userId),
+      eq(accessTokens.clientId, clientId),
+      isNull(accessTokens.revokedAt)
+    ));
 }
 
 /**
- * Verifies a code challenge (for PKCE)
+ * Revokes every token issued to a client, for any user
  */
-function verifyCodeChallenge(codeVerifier: string, challenge: string, method: string): boolean {
-  if (method === 'S256') {
-    const hash = createHash('sha256').update(codeVerifier).digest('base64url');
-    return hash === challenge;
-  }
-  
-  // Plain method
-  return codeVerifier === challenge;
+async function revokeClientTokens(writer: Writer, clientId: string): Promise<void> {
+  const now = new Date();
+  const clientTokens = writer.select({ id: accessTokens.id })
+    .from(accessTokens)
+    .where(eq(accessTokens.clientId, clientId));
+
+  await writer.update(refreshTokens)
+    .set({ revokedAt: now })
+    .where(and(inArray(refreshTokens.accessTokenId, clientTokens), isNull(refreshTokens.revokedAt)));
+  await writer.update(accessTokens)
+    .set({ revokedAt: now })
+    .where(and(eq(accessTokens.clientId, clientId), isNull(accessTokens.revokedAt)));
+}
+
+export interface NewOAuthClient {
+  applicationId: number;
+  name: string;
+  description?: string;
+  websiteUrl?: string;
+  logoUrl?: string;
+  privacyPolicyUrl?: string;
+  termsOfServiceUrl?: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  isPublicClient: boolean;
 }
 
 /**
@@ -82,71 +107,124 @@ function verifyCodeChallenge(codeVerifier: string, challenge: string, method: st
  */
 export class OAuthClientService {
   /**
-   * Creates a new OAuth client registration
+   * Creates a new OAuth client registration. Public clients (mobile and
+   * single-page apps) cannot keep a secret, so none is returned for them.
    */
-  async createClient(data: any, developerId: number): Promise<{ client: OAuthClient, clientSecret: string }> {
+  async createClient(
+    data: NewOAuthClient,
+    developerId: number,
+    status: 'pending' | 'approved'
+  ): Promise<{ client: OAuthClient, clientSecret: string | null }> {
     // Generate client secret (unhashed version to return to developer)
     const rawClientSecret = generateSecureToken(32);
     // Hash the client secret for storage
-    const hashedSecret = bcrypt.hashSync(rawClientSecret, 10);
-    
+    const hashedSecret = await bcrypt.hash(rawClientSecret, 10);
+
     // Insert the new client
     const [client] = await db.insert(oauthClients).values({
       ...data,
       clientSecret: hashedSecret,
       developerId,
-      status: 'pending', // Start as pending until approved by admin
+      status
     }).returning();
-    
+
     // Return both client data and raw (unhashed) client secret
-    return { 
+    return {
       client,
-      clientSecret: rawClientSecret
+      clientSecret: data.isPublicClient ? null : rawClientSecret
     };
   }
-  
+
   /**
    * Gets a client by ID
    */
   async getClientById(clientId: string): Promise<OAuthClient | undefined> {
+    if (!UUID_PATTERN.test(clientId)) {
+      return undefined;
+    }
     const [client] = await db.select().from(oauthClients).where(eq(oauthClients.clientId, clientId));
     return client;
   }
-  
+
   /**
    * Verifies that a client secret is valid
    */
-  async verifyClientSecret(clientId: string, secret: string): Promise<boolean> {
+  async verifyClientSecret(clientId: string, secret: string | undefined): Promise<boolean> {
     const client = await this.getClientById(clientId);
-    if (!client) return false;
-    
+    if (!client || !secret) return false;
+
     // Use bcrypt to compare the provided secret with the stored hash
-    return bcrypt.compareSync(secret, client.clientSecret);
+    return bcrypt.compare(secret, client.clientSecret);
   }
-  
+
   /**
-   * Updates a client's status (approve/reject)
+   * Replaces a confidential client's secret, returning the new one once
    */
-  async updateClientStatus(clientId: string, status: 'approved' | 'rejected' | 'revoked', adminId: number): Promise<OAuthClient> {
+  async rotateClientSecret(clientId: string): Promise<string> {
+    const rawClientSecret = generateSecureToken(32);
+    await db.update(oauthClients)
+      .set({ clientSecret: await bcrypt.hash(rawClientSecret, 10), updatedAt: new Date() })
+      .where(eq(oauthClients.clientId, clientId));
+    return rawClientSecret;
+  }
+
+  /**
+   * Updates a client's registration details
+   */
+  async updateClient(
+    clientId: string,
+    changes: Partial<Omit<NewOAuthClient, 'applicationId' | 'isPublicClient'>> & { status?: 'pending' | 'approved' }
+  ): Promise<OAuthClient> {
     const [updated] = await db.update(oauthClients)
-      .set({ 
-        status, 
-        verifiedAt: new Date(),
-        verifiedBy: adminId
-      })
+      .set({ ...changes, updatedAt: new Date() })
       .where(eq(oauthClients.clientId, clientId))
       .returning();
-    
+
     return updated;
   }
-  
+
+  /**
+   * Updates a client's status (approve/reject). Rejecting or revoking a
+   * client also revokes every token issued to it.
+   */
+  async updateClientStatus(clientId: string, status: 'approved' | 'rejected' | 'revoked', adminId: number): Promise<OAuthClient> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(oauthClients)
+        .set({
+          status,
+          verifiedAt: new Date(),
+          verifiedBy: adminId,
+          updatedAt: new Date()
+        })
+        .where(eq(oauthClients.clientId, clientId))
+        .returning();
+
+      if (updated && status !== 'approved') {
+        await revokeClientTokens(tx, clientId);
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Revokes a client at its developer's request
+   */
+  async revokeClient(clientId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(oauthClients)
+        .set({ status: 'revoked', updatedAt: new Date() })
+        .where(eq(oauthClients.clientId, clientId));
+      await revokeClientTokens(tx, clientId);
+    });
+  }
+
   /**
    * Lists all clients for a developer
    */
   async getClientsByDeveloper(developerId: number): Promise<OAuthClient[]> {
     return db.select().from(oauthClients).where(eq(oauthClients.developerId, developerId));
   }
-  
+
   /**
    * Lists all pending client registrations (for admin review)
    */
@@ -155,6 +233,16 @@ export class OAuthClientService {
   }
 }
 
+export interface AuthorizationCodeRequest {
+  userId: number;
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  codeChallengeMethod: 'S256';
+  nonce?: string;
+}
+
 /**
  * Service for managing authorization codes
  */
@@ -162,108 +250,109 @@ export class AuthorizationCodeService {
   /**
    * Creates a new authorization code
    */
-  async createAuthorizationCode(
-    userId: number, 
-    clientId: string,
-    redirectUri: string,
-    scopes: string[],
-    codeChallenge?: string,
-    codeChallengeMethod?: string,
-    nonce?: string
-  ): Promise<AuthorizationCode> {
+  async createAuthorizationCode(request: AuthorizationCodeRequest, writer: Writer = db): Promise<AuthorizationCode> {
     const code = generateSecureToken(32);
     const expiresAt = new Date(Date.now() + AUTHORIZATION_CODE_EXPIRATION * 1000);
-    
-    const [authCode] = await db.insert(authorizationCodes).values({
+
+    const [authCode] = await writer.insert(authorizationCodes).values({
+      ...request,
       code,
-      userId,
-      clientId,
-      redirectUri,
-      scopes,
       expiresAt,
-      codeChallenge,
-      codeChallengeMethod,
-      nonce,
       used: false
     }).returning();
-    
+
     return authCode;
   }
-  
+
   /**
-   * Validates and consumes an authorization code
+   * Validates and consumes an authorization code. A code presented a second
+   * time has probably been stolen, so everything issued for the user and
+   * client is revoked.
    */
-  async validateAuthorizationCode(
+  async redeemAuthorizationCode(
+    writer: Writer,
     code: string,
     clientId: string,
     redirectUri: string,
-    codeVerifier?: string
+    codeVerifier: string | undefined
   ): Promise<AuthorizationCode | null> {
     // Find the authorization code
-    const [authCode] = await db.select().from(authorizationCodes).where(
-      and(
-        eq(authorizationCodes.code, code),
-        eq(authorizationCodes.clientId, clientId),
-        eq(authorizationCodes.used, false)
-      )
-    );
-    
+    const [authCode] = await writer.select().from(authorizationCodes)
+      .where(and(eq(authorizationCodes.code, code), eq(authorizationCodes.clientId, clientId)))
+      .for('update');
+
     if (!authCode) return null;
-    
+
+    if (authCode.used) {
+      await revokeGrant(writer, authCode.userId, clientId);
+      return null;
+    }
+
+    // Mark code as used to prevent replay attacks
+    await writer.update(authorizationCodes)
+      .set({ used: true })
+      .where(eq(authorizationCodes.id, authCode.id));
+
     // Check if code has expired
     if (new Date() > authCode.expiresAt) return null;
-    
+
     // Verify the redirect URI
     if (authCode.redirectUri !== redirectUri) return null;
-    
-    // Verify PKCE code challenge if present
-    if (authCode.codeChallenge && codeVerifier) {
-      if (!verifyCodeChallenge(
-        codeVerifier, 
-        authCode.codeChallenge, 
-        authCode.codeChallengeMethod || 'plain'
-      )) {
-        return null;
-      }
-    } else if (authCode.codeChallenge && !codeVerifier) {
-      // Code challenge was provided during authorization but no verifier during token request
+
+    // Every code is issued with a PKCE challenge, which the verifier must answer
+    if (!authCode.codeChallenge || !codeVerifier ||
+        !verifyPkce(codeVerifier, authCode.codeChallenge, authCode.codeChallengeMethod || '')) {
       return null;
     }
-    
-    // Mark code as used to prevent replay attacks
-    await db.update(authorizationCodes)
-      .set({ used: true })
-      .where(eq(authorizationCodes.id, authCode.id));
-    
+
     return authCode;
   }
 }
 
+export interface IssuedTokens {
+  accessToken: AccessToken;
+  refreshToken: RefreshToken;
+}
+
+/**
+ * A valid access token, with the application and developer account its
+ * client's API calls count against
+ */
+export interface AccessTokenGrant {
+  accessTokenId: number;
+  userId: number;
+  clientId: string;
+  scopes: string[];
+  applicationId: number;
+  developerId: number;
+}
+
 /**
  * Service for managing tokens
  */
 export class TokenService {
   private readonly jwtSecret: string;
-  
+
   constructor() {
     // In production, use environment variable for JWT secret
     this.jwtSecret = process.env.JWT_SECRET || 'pickle-plus-oauth-jwt-secret';
   }
-  
+
   /**
    * Creates a new access token and refresh token pair
    */
   async createTokens(
+    writer: Writer,
     userId: number,
     clientId: string,
     scopes: string[],
     ipAddress?: string,
     userAgent?: string
-  ): Promise<{ accessToken: AccessToken, refreshToken: RefreshToken }> {
+  ): Promise<IssuedTokens> {
     // Create expiration dates
     const accessTokenExpiresAt = new Date(Date.now() + ACCESS_TOKEN_EXPIRATION * 1000);
     const refreshTokenExpiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRATION * 1000);
-    
+
     // Generate access token as JWT
     const tokenPayload = {
       sub: userId.toString(),
@@ -273,11 +362,11 @@ export class TokenService {
       exp: Math.floor(accessTokenExpiresAt.getTime() / 1000),
       jti: generateSecureToken(16)
     };
-    
+
     const jwtToken = jwt.sign(tokenPayload, this.jwtSecret);
-    
+
     // Store token in database
-    const [accessToken] = await db.insert(accessTokens).values({
+    const [accessToken] = await writer.insert(accessTokens).values({
       token: jwtToken,
       userId,
       clientId,
@@ -286,31 +375,54 @@ export class TokenService {
       ipAddress,
       userAgent
     }).returning();
-    
+
     // Create refresh token
     const refreshTokenValue = generateSecureToken(48);
-    const [refreshToken] = await db.insert(refreshTokens).values({
+    const [refreshToken] = await writer.insert(refreshTokens).values({
       token: refreshTokenValue,
       accessTokenId: accessToken.id,
       expiresAt: refreshTokenExpiresAt
     }).returning();
-    
+
     return { accessToken, refreshToken };
   }
-  
+
+  /**
+   * Exchanges an authorization code for tokens
+   */
+  async exchangeAuthorizationCode(
+    code: string,
+    clientId: string,
+    redirectUri: string,
+    codeVerifier: string | undefined,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<IssuedTokens | null> {
+    return db.transaction(async (tx) => {
+      const authCode = await authorizationCodeService.redeemAuthorizationCode(
+        tx, code, clientId, redirectUri, codeVerifier
+      );
+      if (!authCode) {
+        return null;
+      }
+      return this.createTokens(tx, authCode.userId, clientId, authCode.scopes, ipAddress, userAgent);
+    });
+  }
+
   /**
    * Validates an access token
    */
   async validateToken(token: string): Promise<{
     valid: boolean,
+    accessTokenId?: number,
     userId?: number,
     clientId?: string,
     scopes?: string[]
   }> {
     try {
       // First verify JWT signature and expiration
-      const decoded = jwt.verify(token, this.jwtSecret) as jwt.JwtPayload;
-      
+      jwt.verify(token, this.jwtSecret);
+
       // Then check if token exists and hasn't been revoked
       const [tokenRecord] = await db.select().from(accessTokens).where(
         and(
@@ -318,13 +430,14 @@ export class TokenService {
           isNull(accessTokens.revokedAt)
         )
       );
-      
-      if (!tokenRecord) {
+
+      if (!tokenRecord || new Date() > tokenRecord.expiresAt) {
         return { valid: false };
       }
-      
+
       return {
         valid: true,
+        accessTokenId: tokenRecord.id,
         userId: tokenRecord.userId,
         clientId: tokenRecord.clientId,
         scopes: tokenRecord.scopes
@@ -334,85 +447,159 @@ export class TokenService {
       return { valid: false };
     }
   }
-  
+
+  /**
+   * Validates an access token presented to the API gateway. The client, its
+   * application and its developer account must all still be approved.
+   */
+  async authenticateAccessToken(token: string): Promise<AccessTokenGrant | null> {
+    const validation = await this.validateToken(token);
+    if (!validation.valid) {
+      return null;
+    }
+
+    const [client] = await db.select({
+      status: oauthClients.status,
+      allowedScopes: oauthClients.allowedScopes,
+      applicationId: apiApplications.id,
+      applicationStatus: apiApplications.status,
+      developerId: apiDeveloperAccounts.id,
+      developerApproved: apiDeveloperAccounts.isApproved
+    })
+      .from(oauthClients)
+      .innerJoin(apiApplications, eq(oauthClients.applicationId, apiApplications.id))
+      .innerJoin(apiDeveloperAccounts, eq(apiApplications.developerId, apiDeveloperAccounts.id))
+      .where(eq(oauthClients.clientId, validation.clientId!))
+      .limit(1);
+
+    if (!client || client.status !== 'approved' || client.applicationStatus !== 'approved' || !client.developerApproved) {
+      return null;
+    }
+
+    return {
+      accessTokenId: validation.accessTokenId!,
+      userId: validation.userId!,
+      clientId: validation.clientId!,
+      // Scopes since removed from the client's registration no longer apply
+      scopes: validation.scopes!.filter(scope => client.allowedScopes.includes(scope)),
+      applicationId: client.applicationId,
+      developerId: client.developerId
+    };
+  }
+
   /**
-   * Refreshes an access token using a refresh token
+   * Refreshes an access token using a refresh token. Refresh tokens are
+   * single use: each refresh replaces the pair, and presenting a replaced
+   * refresh token again revokes everything the user granted the client.
    */
   async refreshAccessToken(
     refreshToken: string,
     clientId: string,
     ipAddress?: string,
     userAgent?: string
-  ): Promise<{ accessToken: AccessToken, refreshToken: RefreshToken } | null> {
-    // Find the refresh token and ensure it's not expired or revoked
-    const [refreshTokenRecord] = await db.select().from(refreshTokens)
-      .where(
-        and(
-          eq(refreshTokens.token, refreshToken),
-          isNull(refreshTokens.revokedAt)
-        )
+  ): Promise<IssuedTokens | null> {
+    return db.transaction(async (tx) => {
+      // Find the refresh token, holding it so concurrent refreshes queue
+      const [refreshTokenRecord] = await tx.select().from(refreshTokens)
+        .where(eq(refreshTokens.token, refreshToken))
+        .for('update');
+
+      if (!refreshTokenRecord) {
+        return null;
+      }
+
+      // Get the associated access token to retrieve userId and scopes
+      const [oldAccessToken] = await tx.select().from(accessTokens)
+        .where(eq(accessTokens.id, refreshTokenRecord.accessTokenId));
+
+      if (!oldAccessToken || oldAccessToken.clientId !== clientId) {
+        return null;
+      }
+
+      if (refreshTokenRecord.revokedAt) {
+        if (refreshTokenRecord.replacedByTokenId) {
+          console.warn(`[OAUTH] Refresh token reused for client ${clientId}, revoking grant for user ${oldAccessToken.userId}`);
+          await revokeGrant(tx, oldAccessToken.userId, clientId);
+        }
+        return null;
+      }
+
+      if (new Date() > refreshTokenRecord.expiresAt) {
+        return null;
+      }
+
+      // Create new tokens
+      const tokens = await this.createTokens(
+        tx,
+        oldAccessToken.userId,
+        clientId,
+        oldAccessToken.scopes,
+        ipAddress,
+        userAgent
       );
-    
-    if (!refreshTokenRecord || new Date() > refreshTokenRecord.expiresAt) {
-      return null;
-    }
-    
-    // Get the associated access token to retrieve userId and scopes
-    const [oldAccessToken] = await db.select().from(accessTokens)
-      .where(eq(accessTokens.id, refreshTokenRecord.accessTokenId));
-    
-    if (!oldAccessToken || oldAccessToken.clientId !== clientId) {
-      return null;
-    }
-    
-    // Create new tokens
-    const tokens = await this.createTokens(
-      oldAccessToken.userId,
-      clientId,
-      oldAccessToken.scopes,
-      ipAddress,
-      userAgent
-    );
-    
-    // Invalidate the old refresh token and link to the new one
-    await db.update(refreshTokens)
-      .set({
-        revokedAt: new Date(),
-        replacedByTokenId: tokens.refreshToken.id
-      })
-      .where(eq(refreshTokens.id, refreshTokenRecord.id));
-    
-    return tokens;
+
+      // Invalidate the old pair and link the refresh token to its replacement
+      const now = new Date();
+      await tx.update(refreshTokens)
+        .set({ revokedAt: now, replacedByTokenId: tokens.refreshToken.id })
+        .where(eq(refreshTokens.id, refreshTokenRecord.id));
+      await tx.update(accessTokens)
+        .set({ revokedAt: now })
+        .where(and(eq(accessTokens.id, oldAccessToken.id), isNull(accessTokens.revokedAt)));
+
+      await tx.update(userAuthorizations)
+        .set({ lastUsedAt: now })
+        .where(and(
+          eq(userAuthorizations.userId, oldAccessToken.userId),
+          eq(userAuthorizations.clientId, clientId),
+          isNull(userAuthorizations.revokedAt)
+        ));
+
+      return tokens;
+    });
   }
-  
+
   /**
-   * Revokes an access token and its associated refresh token
+   * Revokes an access token or refresh token issued to a client, along with
+   * the rest of its pair
    */
-  async revokeToken(token: string): Promise<boolean> {
-    // First find the access token
-    const [accessToken] = await db.select().from(accessTokens)
-      .where(eq(accessTokens.token, token));
-    
-    if (!accessToken) {
-      return false;
-    }
-    
-    // Mark the access token as revoked
-    await db.update(accessTokens)
-      .set({ revokedAt: new Date() })
-      .where(eq(accessTokens.id, accessToken.id));
-    
-    // Also revoke any associated refresh tokens
-    await db.update(refreshTokens)
-      .set({ revokedAt: new Date() })
-      .where(
-        and(
-          eq(refreshTokens.accessTokenId, accessToken.id),
-          isNull(refreshTokens.revokedAt)
-        )
-      );
-    
-    return true;
+  async revokeToken(token: string, clientId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+
+      // First try an access token
+      const [accessToken] = await tx.select().from(accessTokens)
+        .where(and(eq(accessTokens.token, token), eq(accessTokens.clientId, clientId)));
+
+      let accessTokenId = accessToken?.id;
+      if (!accessTokenId) {
+        const [refresh] = await tx.select({ accessTokenId: refreshTokens.accessTokenId, clientId: accessTokens.clientId })
+          .from(refreshTokens)
+          .innerJoin(accessTokens, eq(refreshTokens.accessTokenId, accessTokens.id))
+          .where(eq(refreshTokens.token, token));
+        if (!refresh || refresh.clientId !== clientId) {
+          return false;
+        }
+        accessTokenId = refresh.accessTokenId;
+      }
+
+      // Mark the access token as revoked
+      await tx.update(accessTokens)
+        .set({ revokedAt: now })
+        .where(and(eq(accessTokens.id, accessTokenId), isNull(accessTokens.revokedAt)));
+
+      // Also revoke any associated refresh tokens
+      await tx.update(refreshTokens)
+        .set({ revokedAt: now })
+        .where(
+          and(
+            eq(refreshTokens.accessTokenId, accessTokenId),
+            isNull(refreshTokens.revokedAt)
+          )
+        );
+
+      return true;
+    });
   }
 }
 
@@ -428,32 +615,33 @@ export class AuthorizationService {
     clientId: string,
     scopes: string[],
     ipAddress?: string,
-    userAgent?: string
+    userAgent?: string,
+    writer: Writer = db
   ): Promise<UserAuthorization> {
     // First check if authorization already exists
-    const [existingAuth] = await db.select().from(userAuthorizations).where(
+    const [existingAuth] = await writer.select().from(userAuthorizations).where(
       and(
         eq(userAuthorizations.userId, userId),
         eq(userAuthorizations.clientId, clientId),
         isNull(userAuthorizations.revokedAt)
       )
     );
-    
+
     if (existingAuth) {
       // Update existing authorization with new scopes and usage timestamp
-      const [updated] = await db.update(userAuthorizations)
+      const [updated] = await writer.update(userAuthorizations)
         .set({
-          scopes: [...new Set([...existingAuth.scopes, ...scopes])], // Merge and deduplicate scopes
+          scopes: Array.from(new Set([...existingAuth.scopes, ...scopes])), // Merge and deduplicate scopes
           lastUsedAt: new Date()
         })
         .where(eq(userAuthorizations.id, existingAuth.id))
         .returning();
-        
+
       return updated;
     }
-    
+
     // Create new authorization
-    const [authorization] = await db.insert(userAuthorizations).values({
+    const [authorization] = await writer.insert(userAuthorizations).values({
       userId,
       clientId,
       scopes,
@@ -461,10 +649,10 @@ export class AuthorizationService {
       userAgent,
       lastUsedAt: new Date()
     }).returning();
-    
+
     return authorization;
   }
-  
+
   /**
    * Checks if user has already authorized an application with specified scopes
    */
@@ -480,20 +668,20 @@ export class AuthorizationService {
         isNull(userAuthorizations.revokedAt)
       )
     );
-    
+
     if (!existingAuth) {
       return { authorized: false, existingScopes: [] };
     }
-    
+
     // Check if all requested scopes are already authorized
     const authorized = scopes.every(scope => existingAuth.scopes.includes(scope));
-    
+
     return {
       authorized,
       existingScopes: existingAuth.scopes
     };
   }
-  
+
   /**
    * List all authorizations for a user
    */
@@ -510,22 +698,35 @@ export class AuthorizationService {
         isNull(userAuthorizations.revokedAt)
       )
     );
-    
+
     return authorizations;
   }
-  
+
   /**
-   * Revoke an authorization
+   * Revoke one of a user's authorizations, and every token the application
+   * holds for them
    */
-  async revokeAuthorization(id: number, reason?: string): Promise<boolean> {
-    await db.update(userAuthorizations)
-      .set({
-        revokedAt: new Date(),
-        revokedReason: reason
-      })
-      .where(eq(userAuthorizations.id, id));
-      
-    return true;
+  async revokeAuthorization(userId: number, id: number, reason?: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [revoked] = await tx.update(userAuthorizations)
+        .set({
+          revokedAt: new Date(),
+          revokedReason: reason
+        })
+        .where(and(
+          eq(userAuthorizations.id, id),
+          eq(userAuthorizations.userId, userId),
+          isNull(userAuthorizations.revokedAt)
+        ))
+        .returning();
+
+      if (!revoked) {
+        return false;
+      }
+
+      await revokeGrant(tx, userId, revoked.clientId);
+      return true;
+    });
   }
 }
 
@@ -533,4 +734,4 @@ export class AuthorizationService {
 export const oauthClientService = new OAuthClientService();
 export const authorizationCodeService = new AuthorizationCodeService();
 export const tokenService = new TokenService();
-export const authorizationService = new AuthorizationService();
\ No newline at end of file
+export const authorizationService = new AuthorizationService();
@@ -1352,6 +1352,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error("[ROUTES] Error registering UDF-Compliant Bulk Processor:", error);
   }
 
+  // === POINTS RULESETS (versioned ranking points rules) ===
+  console.log("[ROUTES] Registering Points Rules admin routes...");
+  try {
+    const pointsRulesRoutes = await import('./routes/points-rules-routes');
+    app.use('/api/admin/points-rules', isAuthenticated, isAdmin, pointsRulesRoutes.default);
+    console.log("[ROUTES] Points Rules admin routes registered successfully");
+  } catch (error) {
+    console.error("[ROUTES] Error registering Points Rules admin routes:", error);
+  }
+
+  // === RANKING REPLAY (rebuild points from match history) ===
+  console.log("[ROUTES] Registering Ranking Replay admin routes...");
+  try {
+    const rankingReplayRoutes = await import('./routes/ranking-replay-routes');
+    app.use('/api/admin/ranking-replay', isAuthenticated, isAdmin, rankingReplayRoutes.default);
+    console.log("[ROUTES] Ranking Replay admin routes registered successfully");
+  } catch (error) {
+    console.error("[ROUTES] Error registering Ranking Replay admin routes:", error);
+  }
+
+  // === DECAY POLICIES (regional decay rules, dry run and warnings) ===
+  console.log("[ROUTES] Registering Decay Policy admin routes...");
+  try {
+    const decayPolicyRoutes = await import('./routes/decay-policy-routes');
+    app.use('/api/admin/decay-policies', isAuthenticated, isAdmin, decayPolicyRoutes.default);
+    console.log("[ROUTES] Decay Policy admin routes registered successfully");
+  } catch (error) {
+    console.error("[ROUTES] Error registering Decay Policy admin routes:", error);
+  }
+
   // === MODULAR ROUTE REGISTRATION ===
   console.log("[ROUTES] Registering modular route systems...");
   
@@ -1539,7 +1569,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const challengeRoutes = await import('./routes/challenge-routes');
     app.use('/api/challenges', challengeRoutes.default);
     console.log("[ROUTES] Match Challenge routes registered successfully");
-    
+
+    // Tournament Challenge Ladders
+    console.log("[ROUTES] Registering Challenge Ladder routes...");
+    const ladderRoutes = await import('./routes/ladder-routes');
+    app.use('/api/ladders', ladderRoutes.default);
+    const { startLadderChallengeScheduler } = await import('./services/ladder-service');
+    startLadderChallengeScheduler(); // Forfeits and expires lapsed challenge windows
+    console.log("[ROUTES] Challenge Ladder routes registered successfully");
+
+    // Ranking and Pickle Points ledger
+    console.log("[ROUTES] Registering Points Ledger routes...");
+    const pointsLedgerRoutes = await import('./routes/points-ledger-routes');
+    app.use('/api/points-ledger', pointsLedgerRoutes.default);
+    console.log("[ROUTES] Points Ledger routes registered successfully");
+
+    // Glicko-2 skill ratings for matchmaking and seeding
+    console.log("[ROUTES] Registering Skill Rating routes...");
+    const skillRatingRoutes = await import('./routes/skill-rating-routes');
+    app.use('/api/skill-ratings', skillRatingRoutes.default);
+    console.log("[ROUTES] Skill Rating routes registered successfully");
+
+    // Match outcome predictions and handicap suggestions
+    console.log("[ROUTES] Registering Match Prediction routes...");
+    const matchPredictionRoutes = await import('./routes/match-prediction-routes');
+    app.use('/api/match-predictions', matchPredictionRoutes.default);
+    console.log("[ROUTES] Match Prediction routes registered successfully");
+
+    // Coach availability, time off and generated booking slots
+    console.log("[ROUTES] Registering Coach Availability routes...");
+    const coachAvailabilityRoutes = await import('./routes/coach-availability-routes');
+    app.use('/api/coach-availability', coachAvailabilityRoutes.default);
+    const { startSlotMaterializationScheduler } = await import('./services/slot-materialization-service');
+    startSlotMaterializationScheduler(); // Keeps booking slots generated weeks ahead
+    console.log("[ROUTES] Coach Availability routes registered successfully");
+
+    // Cancellation policies, refunds and no-shows for bookings
+    console.log("[ROUTES] Registering Booking Cancellation routes...");
+    const bookingCancellationRoutes = await import('./routes/booking-cancellation-routes');
+    app.use('/api/booking-cancellations', bookingCancellationRoutes.default);
+    console.log("[ROUTES] Booking Cancellation routes registered successfully");
+
+    // iCalendar subscription feeds and booking .ics downloads
+    console.log("[ROUTES] Registering Calendar Feed routes...");
+    const calendarFeedRoutes = await import('./routes/calendar-feed-routes');
+    app.use('/api/calendar-feeds', calendarFeedRoutes.default);
+    console.log("[ROUTES] Calendar Feed routes registered successfully");
+
+    // Class enrollment and waitlist promotion with claim windows
+    console.log("[ROUTES] Registering Class Waitlist routes...");
+    const classWaitlistRoutes = await import('./routes/class-waitlist-routes');
+    app.use('/api/class-waitlist', classWaitlistRoutes.default);
+    const { startClassWaitlistScheduler } = await import('./services/class-waitlist-service');
+    startClassWaitlistScheduler(); // Passes spots on when claim windows lapse
+    console.log("[ROUTES] Class Waitlist routes registered successfully");
+
+    // Coach payout batches, statements and Wise reconciliation
+    console.log("[ROUTES] Registering Payout Batch routes...");
+    const payoutBatchRoutes = await import('./routes/payout-batch-routes');
+    app.use('/api/payout-batches', payoutBatchRoutes.default);
+    console.log("[ROUTES] Payout Batch routes registered successfully");
+
+    // Double-entry ledger: trial balance and nightly wallet invariant check
+    console.log("[ROUTES] Registering Ledger routes...");
+    const ledgerRoutes = await import('./routes/ledger-routes');
+    app.use('/api/ledger', ledgerRoutes.default);
+    const { startLedgerInvariantScheduler } = await import('./services/ledger-service');
+    startLedgerInvariantScheduler(); // Wallets and gift cards against the ledger, 03:00 UTC
+    console.log("[ROUTES] Ledger routes registered successfully");
+
+    // Exchange rate sources, fallback rates and conversion snapshots
+    console.log("[ROUTES] Registering FX Rate routes...");
+    const fxRateRoutes = await import('./routes/fx-rate-routes');
+    app.use('/api/fx-rates', fxRateRoutes.default);
+    console.log("[ROUTES] FX Rate routes registered successfully");
+
+    // Promo code campaigns for bookings, classes and tournament entry
+    console.log("[ROUTES] Registering Promo Code routes...");
+    const promoCodeRoutes = await import('./routes/promo-code-routes');
+    app.use('/api/promo-codes', promoCodeRoutes.default);
+    console.log("[ROUTES] Promo Code routes registered successfully");
+
+    // Golden tickets with seeded draws, claim limits and sponsor audit export
+    console.log("[ROUTES] Registering Golden Ticket routes...");
+    const { registerGoldenTicketRoutes } = await import('./routes/golden-ticket-routes');
+    registerGoldenTicketRoutes(app);
+    console.log("[ROUTES] Golden Ticket routes registered successfully");
+
+    // Sponsor portal: campaign drafts for approval, funnels and fulfilment lists
+    console.log("[ROUTES] Registering Sponsor Portal routes...");
+    const sponsorPortalRoutes = await import('./routes/sponsor-portal-routes');
+    app.use('/api/sponsor-portal', sponsorPortalRoutes.default);
+    console.log("[ROUTES] Sponsor Portal routes registered successfully");
+
+    // API gateway: developer portal, public v1 API, the OAuth provider partner
+    // apps use to act for players, the webhook outbox worker and clean-up of
+    // shared rate limit state and stored idempotent responses
+    console.log("[ROUTES] Registering API Gateway routes...");
+    const { initApiGateway } = await import('./modules/api-gateway');
+    initApiGateway(app);
+    const oauthRoutes = await import('./oauth/routes/oauth-routes');
+    app.use(oauthRoutes.default);
+    const { startWebhookDeliveryWorker } = await import('./modules/api-gateway/utils/webhook-delivery');
+    startWebhookDeliveryWorker(); // Sends queued webhook deliveries with retries
+    const { startRateLimitPruner } = await import('./modules/api-gateway/utils/rate-limit-store');
+    startRateLimitPruner(); // Drops expired rate limit windows and concurrency leases
+    const { startIdempotencyKeyPruner } = await import('./modules/api-gateway/utils/idempotency-store');
+    startIdempotencyKeyPruner(); // Drops idempotency keys past their retention
+    console.log("[ROUTES] API Gateway routes registered successfully");
+
     console.log("[ROUTES] All modular route systems registered successfully");
     
   } catch (error) {
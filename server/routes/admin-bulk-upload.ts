@@ -6,6 +6,7 @@ import { storage } from '../storage';
 import { db } from '../db';
 import { users, matches } from '../../shared/schema';
 import { eq, and, or } from 'drizzle-orm';
+import { ingestMatch, type MatchIngestionResult } from '../services/match-ingestion-service';
 
 const router = Router();
 
@@ -228,8 +229,10 @@ router.post('/matches', isAuthenticated, upload.single('excelFile'), async (req,
 
     const results = {
       successful: 0,
+      duplicates: 0,
       failed: 0,
-      errors: [] as string[]
+      errors: [] as string[],
+      rows: [] as MatchIngestionResult[] // Ingestion result per row that reached match creation
     };
 
     // Process each row
@@ -397,27 +400,40 @@ router.post('/matches', isAuthenticated, upload.single('excelFile'), async (req,
         const detailedScores = gameScores.map(game => `${game.team1}-${game.team2}`).join(', ');
         
         // Create match record using the new scoring format (matches regular match creation)
-        const matchRecord = {
-          playerOneId: player1.id,
-          playerTwoId: player2.id,
-          playerOnePartnerId: player3?.id || null,
-          playerTwoPartnerId: player4?.id || null,
-          scorePlayerOne: `${matchData.team1Score}`, // Games won by Team 1
-          scorePlayerTwo: `${matchData.team2Score}`, // Games won by Team 2
-          winnerId: winnerId,
-          matchType: matchData.matchType || 'casual',
-          formatType: matchData.isDoubles ? 'doubles' : 'singles',
-          validationStatus: 'completed', // Admin bulk uploads are auto-completed
-          validationCompletedAt: new Date(),
-          notes: `BULK UPLOAD: ${matchData.notes || ''} [Game Scores: ${detailedScores}] [Location: ${matchData.location || 'N/A'}]`.trim(),
-          tournamentId: null,
-          scheduledDate: new Date(matchData.matchDate),
-          pointsAwarded: 3, // Winner gets 3 points per PICKLE_PLUS_ALGORITHM_DOCUMENT
-          category: matchData.isDoubles ? 'doubles' : 'singles'
-        };
+        const ingestion = await ingestMatch({
+          rowNumber: i + 2,
+          team1: [player1, player3].filter(Boolean).map(player => ({ userId: player!.id })),
+          team2: [player2, player4].filter(Boolean).map(player => ({ userId: player!.id })),
+          team1Score: `${matchData.team1Score}`, // Games won by Team 1
+          team2Score: `${matchData.team2Score}`, // Games won by Team 2
+          games: gameScores.map(game => ({ team1: Number(game.team1), team2: Number(game.team2) })),
+          winner: winnerId === player1.id ? 1 : 2,
+          matchDate: matchData.matchDate,
+          values: {
+            matchType: matchData.matchType || 'casual',
+            formatType: matchData.isDoubles ? 'doubles' : 'singles',
+            validationStatus: 'completed', // Admin bulk uploads are auto-completed
+            validationCompletedAt: new Date(),
+            notes: `BULK UPLOAD: ${matchData.notes || ''} [Game Scores: ${detailedScores}] [Location: ${matchData.location || 'N/A'}]`.trim(),
+            tournamentId: null,
+            pointsAwarded: 3 // Winner gets 3 points per PICKLE_PLUS_ALGORITHM_DOCUMENT
+          }
+        }, { source: 'admin-bulk-upload' });
+        results.rows.push(ingestion);
+
+        if (ingestion.status === 'duplicate') {
+          results.duplicates++;
+          console.log(`[ADMIN-BULK] Row ${i + 2} duplicates match ${ingestion.duplicateOfMatchId}, skipped`);
+          continue;
+        }
 
-        // Save match to database using the same interface as regular match creation
-        const match = await storage.createMatch(matchRecord);
+        if (ingestion.status === 'rejected') {
+          results.errors.push(`Row ${i + 2}: ${ingestion.message}`);
+          results.failed++;
+          continue;
+        }
+
+        const { match } = ingestion;
 
         // Update player statistics and points
         await updatePlayerStatsFromMatch(match);
@@ -433,7 +449,7 @@ router.post('/matches', isAuthenticated, upload.single('excelFile'), async (req,
       }
     }
 
-    console.log(`[ADMIN-BULK] Bulk upload completed: ${results.successful} successful, ${results.failed} failed`);
+    console.log(`[ADMIN-BULK] Bulk upload completed: ${results.successful} successful, ${results.duplicates} duplicates, ${results.failed} failed`);
 
     res.json({
       success: true,
@@ -479,10 +495,18 @@ async function updatePlayerStatsFromMatch(match: any) {
         
         // Award pickle points based on match type per PICKLE_PLUS_ALGORITHM_DOCUMENT
         const points = match.matchType === 'tournament' ? 5 : 3;
-        await storage.updateUserPicklePoints(playerId, points);
+        await storage.updateUserPicklePoints(playerId, points, {
+          sourceType: 'match',
+          sourceId: match.id,
+          reason: 'Bulk upload match win'
+        });
       } else {
         // Award consolation point for loss
-        await storage.updateUserPicklePoints(playerId, 1);
+        await storage.updateUserPicklePoints(playerId, 1, {
+          sourceType: 'match',
+          sourceId: match.id,
+          reason: 'Bulk upload match participation'
+        });
       }
     }
   } catch (error) {
@@ -786,9 +810,11 @@ async function parseAndValidateMatches(rawData: any[][], matchType: string): Pro
 async function processMatches(validMatches: ParsedMatch[], matchType: string) {
   let successCount = 0;
   let errorCount = 0;
+  let duplicateCount = 0;
   let totalPointsAllocated = 0;
   let totalPicklePointsAwarded = 0;
   const processingErrors: ValidationError[] = [];
+  const ingestionResults: MatchIngestionResult[] = [];
 
   // Get all users for lookup
   const allUsers = await db.select().from(users);
@@ -807,27 +833,48 @@ async function processMatches(validMatches: ParsedMatch[], matchType: string) {
       const team1Player2 = match.team1Player2 ? userLookup.get(match.team1Player2.toLowerCase()) : null;
       const team2Player2 = match.team2Player2 ? userLookup.get(match.team2Player2.toLowerCase()) : null;
 
-      // Create match using storage interface
-      const matchRecord = {
-        playerOneId: team1Player1.id,
-        playerTwoId: team2Player1.id,
-        playerOnePartnerId: team1Player2?.id || null,
-        playerTwoPartnerId: team2Player2?.id || null,
-        scorePlayerOne: `${match.team1Score}`,
-        scorePlayerTwo: `${match.team2Score}`,
-        winnerId: match.team1Score > match.team2Score ? team1Player1.id : team2Player1.id,
-        matchType: matchType || 'casual',
-        formatType: match.isDoubles ? 'doubles' : 'singles',
-        validationStatus: 'completed',
-        validationCompletedAt: new Date(),
-        notes: `BULK UPLOAD - Date: ${match.date}${match.genderOverride ? ` - Gender Override: ${match.genderOverride}` : ''}`,
-        tournamentId: null,
-        scheduledDate: new Date(match.date),
-        pointsAwarded: match.team1Score > match.team2Score ? 3 : 1, // Winner gets 3, loser gets 1
-        category: match.isDoubles ? 'doubles' : 'singles'
-      };
+      if (!team1Player1 || !team2Player1 || (match.team1Player2 && !team1Player2) || (match.team2Player2 && !team2Player2)) {
+        throw new Error('Player not found');
+      }
+
+      // Create match through the ingestion service
+      const ingestion = await ingestMatch({
+        rowNumber: match.row,
+        team1: [team1Player1, team1Player2].filter(Boolean).map(player => ({ userId: player.id })),
+        team2: [team2Player1, team2Player2].filter(Boolean).map(player => ({ userId: player.id })),
+        team1Score: `${match.team1Score}`,
+        team2Score: `${match.team2Score}`,
+        matchDate: match.date,
+        values: {
+          matchType: matchType || 'casual',
+          formatType: match.isDoubles ? 'doubles' : 'singles',
+          validationStatus: 'completed',
+          validationCompletedAt: new Date(),
+          notes: `BULK UPLOAD - Date: ${match.date}${match.genderOverride ? ` - Gender Override: ${match.genderOverride}` : ''}`,
+          tournamentId: null,
+          pointsAwarded: match.team1Score > match.team2Score ? 3 : 1 // Winner gets 3, loser gets 1
+        }
+      }, { source: 'admin-bulk-upload' });
+      ingestionResults.push(ingestion);
+
+      if (ingestion.status === 'duplicate') {
+        duplicateCount++;
+        continue;
+      }
+
+      if (ingestion.status === 'rejected') {
+        processingErrors.push({
+          row: match.row,
+          type: 'invalid_format',
+          message: 'Failed to process match',
+          severity: 'critical',
+          details: ingestion.message
+        });
+        errorCount++;
+        continue;
+      }
 
-      const createdMatch = await storage.createMatch(matchRecord);
+      const createdMatch = ingestion.match;
 
       // Apply UDF algorithm points using existing system
       await updatePlayerStatsFromMatch(createdMatch);
@@ -858,9 +905,11 @@ async function processMatches(validMatches: ParsedMatch[], matchType: string) {
   return {
     successCount,
     errorCount,
+    duplicateCount,
     pointsAllocated: Math.round(totalPointsAllocated * 100) / 100, // 2 decimal places
     picklePointsAwarded: Math.round(totalPicklePointsAwarded * 100) / 100,
-    errors: processingErrors
+    errors: processingErrors,
+    rows: ingestionResults
   };
 }
 
@@ -0,0 +1,203 @@
+/**
+ * Booking Cancellation Routes
+ * Coach and facility cancellation policies, refund quotes, and cancelling
+ * or recording no-shows on coach slot bookings
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import { insertCancellationPolicySchema } from '../../shared/schema';
+import {
+  cancelSessionBooking,
+  getCancellationPolicy,
+  getEffectiveCancellationPolicy,
+  listBookingCancellations,
+  quoteSessionBookingCancellation,
+  removeCancellationPolicy,
+  setCancellationPolicy
+} from '../services/cancellation-policy-service';
+
+const router = Router();
+
+const policySchema = insertCancellationPolicySchema.extend({
+  name: z.string().max(100).nullable().optional(),
+  fullRefundHours: z.number().int().min(0).max(24 * 30).optional(),
+  partialRefundHours: z.number().int().min(0).max(24 * 30).optional(),
+  partialRefundPercent: z.number().int().min(0).max(100).optional(),
+  lateCancelFeePercent: z.number().int().min(0).max(100).optional(),
+  noShowFeePercent: z.number().int().min(0).max(100).optional()
+});
+
+const effectivePolicyQuerySchema = z.object({
+  coachId: z.coerce.number().int().positive().optional(),
+  facilityId: z.coerce.number().int().positive().optional()
+});
+
+const cancelSchema = z.object({
+  reason: z.string().max(500).optional()
+});
+
+const idParamSchema = z.coerce.number().int().positive();
+
+function bookingUser(req: any) {
+  return { id: req.user.id as number, isAdmin: Boolean(req.user.isAdmin) };
+}
+
+/**
+ * Map known cancellation errors to 4xx responses
+ */
+function handleCancellationError(res: any, error: unknown, context: string) {
+  console.error(`[Cancellation] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error instanceof Error && error.message.startsWith('Not allowed')) {
+    return res.status(403).json({ error: error.message });
+  }
+
+  if (error instanceof Error && /Invalid cancellation policy|already|can only be recorded/.test(error.message)) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/booking-cancellations/policies/effective?coachId=&facilityId=
+ * The policy that applies to a coach's or facility's bookings
+ */
+router.get('/policies/effective', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getEffectiveCancellationPolicy(effectivePolicyQuerySchema.parse(req.query)));
+  } catch (error) {
+    handleCancellationError(res, error, 'loading the cancellation policy');
+  }
+});
+
+/**
+ * GET /api/booking-cancellations/policies/coach
+ * The signed-in coach's own policy, or null when the default applies
+ */
+router.get('/policies/coach', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getCancellationPolicy('coach', (req.user as any).id));
+  } catch (error) {
+    handleCancellationError(res, error, 'loading the cancellation policy');
+  }
+});
+
+/**
+ * PUT /api/booking-cancellations/policies/coach
+ * Set the signed-in coach's policy
+ */
+router.put('/policies/coach', isAuthenticated, async (req, res) => {
+  try {
+    if (!(req.user as any).coachLevel) {
+      return res.status(403).json({ error: 'Coach access required' });
+    }
+    const input = policySchema.parse(req.body);
+    const userId = (req.user as any).id;
+    res.json(await setCancellationPolicy('coach', userId, input, userId));
+  } catch (error) {
+    handleCancellationError(res, error, 'saving the cancellation policy');
+  }
+});
+
+/**
+ * DELETE /api/booking-cancellations/policies/coach
+ * Remove the signed-in coach's policy
+ */
+router.delete('/policies/coach', isAuthenticated, async (req, res) => {
+  try {
+    await removeCancellationPolicy('coach', (req.user as any).id);
+    res.json({ success: true });
+  } catch (error) {
+    handleCancellationError(res, error, 'removing the cancellation policy');
+  }
+});
+
+/**
+ * PUT /api/booking-cancellations/policies/facility/:facilityId
+ * Set a facility's policy (admin)
+ */
+router.put('/policies/facility/:facilityId', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const facilityId = idParamSchema.parse(req.params.facilityId);
+    const input = policySchema.parse(req.body);
+    res.json(await setCancellationPolicy('facility', facilityId, input, (req.user as any).id));
+  } catch (error) {
+    handleCancellationError(res, error, 'saving the facility cancellation policy');
+  }
+});
+
+/**
+ * DELETE /api/booking-cancellations/policies/facility/:facilityId
+ * Remove a facility's policy (admin)
+ */
+router.delete('/policies/facility/:facilityId', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    await removeCancellationPolicy('facility', idParamSchema.parse(req.params.facilityId));
+    res.json({ success: true });
+  } catch (error) {
+    handleCancellationError(res, error, 'removing the facility cancellation policy');
+  }
+});
+
+/**
+ * GET /api/booking-cancellations/bookings/:id/quote
+ * What cancelling the booking now would refund or charge
+ */
+router.get('/bookings/:id/quote', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await quoteSessionBookingCancellation(idParamSchema.parse(req.params.id), bookingUser(req)));
+  } catch (error) {
+    handleCancellationError(res, error, 'quoting the cancellation');
+  }
+});
+
+/**
+ * POST /api/booking-cancellations/bookings/:id/cancel
+ * Cancel a slot booking as its student, coach or an admin, and settle it
+ */
+router.post('/bookings/:id/cancel', isAuthenticated, async (req, res) => {
+  try {
+    const { reason } = cancelSchema.parse(req.body ?? {});
+    res.json(await cancelSessionBooking(idParamSchema.parse(req.params.id), bookingUser(req), { reason }));
+  } catch (error) {
+    handleCancellationError(res, error, 'cancelling the booking');
+  }
+});
+
+/**
+ * POST /api/booking-cancellations/bookings/:id/no-show
+ * Record that the student did not attend (coach or admin)
+ */
+router.post('/bookings/:id/no-show', isAuthenticated, async (req, res) => {
+  try {
+    const { reason } = cancelSchema.parse(req.body ?? {});
+    res.json(await cancelSessionBooking(idParamSchema.parse(req.params.id), bookingUser(req), { reason, noShow: true }));
+  } catch (error) {
+    handleCancellationError(res, error, 'recording the no-show');
+  }
+});
+
+/**
+ * GET /api/booking-cancellations/history
+ * Settled cancellations where the user was the student or the coach
+ */
+router.get('/history', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await listBookingCancellations((req.user as any).id));
+  } catch (error) {
+    handleCancellationError(res, error, 'loading cancellations');
+  }
+});
+
+export default router;
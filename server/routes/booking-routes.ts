@@ -6,6 +6,8 @@
 import { Router } from "express";
 import { z } from "zod";
 import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+import { settleFacilityBookingCancellation } from "../services/cancellation-policy-service";
 
 const router = Router();
 
@@ -42,7 +44,9 @@ router.post("/", async (req, res) => {
       return res.status(400).json({ error: "Requested time slot is not available" });
     }
 
-    // Create the booking
+    // Create the booking. The court is reserved until paid at the facility;
+    // only a signed-in player's booking is theirs to cancel for a refund
+    const user = req.user as any;
     const booking = await storage.createFacilityBooking({
       facilityId: bookingData.facilityId,
       date: bookingData.date,
@@ -55,8 +59,11 @@ router.post("/", async (req, res) => {
       playerEmail: bookingData.playerEmail,
       playerPhone: bookingData.playerPhone,
       specialRequests: bookingData.specialRequests,
+      userId: user?.id ?? null,
       status: 'confirmed',
       totalAmount: requestedSlot.price,
+      amountPaid: 0,
+      paymentStatus: 'pending',
       createdAt: new Date(),
       updatedAt: new Date()
     });
@@ -71,6 +78,7 @@ router.post("/", async (req, res) => {
         duration: bookingData.duration,
         totalAmount: requestedSlot.price,
         status: 'confirmed',
+        paymentStatus: 'pending',
         confirmationCode: `PKL-${booking.id.toString().padStart(6, '0')}`
       }
     });
@@ -106,8 +114,8 @@ router.get("/my-bookings", async (req, res) => {
   }
 });
 
-// Cancel a booking
-router.patch("/:id/cancel", async (req, res) => {
+// Cancel a booking: the player who booked it, or an admin
+router.patch("/:id/cancel", isAuthenticated, async (req, res) => {
   try {
     const bookingId = parseInt(req.params.id);
     
@@ -115,18 +123,34 @@ router.patch("/:id/cancel", async (req, res) => {
       return res.status(400).json({ error: "Invalid booking ID" });
     }
 
-    const booking = await storage.cancelFacilityBooking(bookingId);
-    if (!booking) {
+    const existing = await storage.getFacilityBooking(bookingId);
+    if (!existing) {
       return res.status(404).json({ error: "Booking not found" });
     }
+    if (existing.status === 'cancelled') {
+      return res.status(409).json({ error: "Booking is already cancelled" });
+    }
+
+    // Refund or late-cancel fee under the coach's or facility's cancellation policy
+    const user = req.user as any;
+    const { cancellation } = await settleFacilityBookingCancellation(existing, {
+      id: user.id,
+      isAdmin: user.isAdmin
+    }, { reason: req.body?.reason });
+
+    const booking = await storage.cancelFacilityBooking(bookingId);
 
     res.json({ 
       success: true, 
       message: "Booking cancelled successfully",
-      booking 
+      booking,
+      cancellation
     });
 
   } catch (error) {
+    if (error instanceof Error && error.message === 'Not allowed to cancel this booking') {
+      return res.status(403).json({ error: error.message });
+    }
     console.error("Booking cancellation error:", error);
     res.status(500).json({ error: "Failed to cancel booking" });
   }
@@ -0,0 +1,152 @@
+/**
+ * Calendar Feed Routes
+ * Token-protected iCalendar subscription feeds of a user's schedule, feed
+ * token management, and one-off .ics downloads of bookings
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../auth';
+import {
+  CALENDAR_FEED_REFRESH_HOURS,
+  buildBookingCalendarFile,
+  buildUserCalendarFeed,
+  findCalendarFeedUser,
+  getOrCreateCalendarFeedToken,
+  revokeCalendarFeedToken,
+  rotateCalendarFeedToken
+} from '../services/calendar-feed-service';
+import type { CalendarFeedToken } from '../../shared/schema';
+
+const router = Router();
+
+const idParamSchema = z.coerce.number().int().positive();
+
+function feedDetails(req: any, feed: CalendarFeedToken) {
+  const url = `${req.protocol}://${req.get('host')}/api/calendar-feeds/${feed.token}.ics`;
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    createdAt: feed.createdAt,
+    rotatedAt: feed.rotatedAt,
+    lastAccessedAt: feed.lastAccessedAt,
+    refreshIntervalHours: CALENDAR_FEED_REFRESH_HOURS
+  };
+}
+
+function sendCalendar(res: any, body: string, filename?: string) {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  if (filename) {
+    res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  }
+  res.send(body);
+}
+
+/**
+ * Map known calendar errors to 4xx responses
+ */
+function handleCalendarError(res: any, error: unknown, context: string) {
+  console.error(`[CalendarFeed] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error instanceof Error && error.message.startsWith('Not allowed')) {
+    return res.status(403).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/calendar-feeds/me
+ * The signed-in user's subscription URL, created on first request
+ */
+router.get('/me', isAuthenticated, async (req, res) => {
+  try {
+    res.json(feedDetails(req, await getOrCreateCalendarFeedToken((req.user as any).id)));
+  } catch (error) {
+    handleCalendarError(res, error, 'loading the calendar feed');
+  }
+});
+
+/**
+ * POST /api/calendar-feeds/me/rotate
+ * Issue a new subscription URL; the old one stops working
+ */
+router.post('/me/rotate', isAuthenticated, async (req, res) => {
+  try {
+    res.json(feedDetails(req, await rotateCalendarFeedToken((req.user as any).id)));
+  } catch (error) {
+    handleCalendarError(res, error, 'rotating the calendar feed');
+  }
+});
+
+/**
+ * DELETE /api/calendar-feeds/me
+ * Turn the subscription feed off
+ */
+router.delete('/me', isAuthenticated, async (req, res) => {
+  try {
+    await revokeCalendarFeedToken((req.user as any).id);
+    res.json({ success: true });
+  } catch (error) {
+    handleCalendarError(res, error, 'revoking the calendar feed');
+  }
+});
+
+/**
+ * GET /api/calendar-feeds/:token.ics
+ * The subscription feed; the token is the only credential
+ */
+router.get('/:token.ics', async (req, res) => {
+  try {
+    const userId = await findCalendarFeedUser(req.params.token);
+    if (!userId) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    sendCalendar(res, await buildUserCalendarFeed(userId));
+  } catch (error) {
+    handleCalendarError(res, error, 'building the calendar feed');
+  }
+});
+
+/**
+ * GET /api/calendar-feeds/:token/bookings/:id.ics
+ * Download one of the feed owner's bookings without signing in, as linked
+ * from booking confirmations
+ */
+router.get('/:token/bookings/:id.ics', async (req, res) => {
+  try {
+    const bookingId = idParamSchema.parse(req.params.id);
+    const userId = await findCalendarFeedUser(req.params.token);
+    if (!userId) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    sendCalendar(res, await buildBookingCalendarFile(bookingId, userId), `pickleplus-booking-${bookingId}.ics`);
+  } catch (error) {
+    handleCalendarError(res, error, 'building the booking calendar file');
+  }
+});
+
+/**
+ * GET /api/calendar-feeds/bookings/:id.ics
+ * Download one booking to add to a calendar
+ */
+router.get('/bookings/:id.ics', isAuthenticated, async (req, res) => {
+  try {
+    const bookingId = idParamSchema.parse(req.params.id);
+    sendCalendar(res, await buildBookingCalendarFile(bookingId, (req.user as any).id), `pickleplus-booking-${bookingId}.ics`);
+  } catch (error) {
+    handleCalendarError(res, error, 'building the booking calendar file');
+  }
+});
+
+export default router;
@@ -8,6 +8,7 @@
 
 import { Router } from "express";
 import { storage } from "../storage";
+import { processClassWaitlist } from "../services/class-waitlist-service";
 import { 
   insertClassTemplateSchema, 
   insertClassInstanceSchema, 
@@ -264,6 +265,9 @@ router.delete("/classes/:classId/enroll", async (req, res) => {
       return res.status(404).json({ error: "Enrollment not found" });
     }
 
+    // Offer the freed spot to the waitlist
+    await processClassWaitlist(classId);
+
     res.json({ 
       success: true,
       message: "Class enrollment cancelled" 
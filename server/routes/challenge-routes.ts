@@ -9,9 +9,26 @@ import { matchChallenges, users } from '../../shared/schema';
 import { insertMatchChallengeSchema, respondToChallengeSchema } from '../../shared/schema/match-challenges';
 import { eq, and, or, sql } from 'drizzle-orm';
 import { z } from 'zod';
+import { predictChallenge, type ChallengeSidesSource, type MatchPredictionSummary } from '../services/match-prediction-service';
 
 const router = Router();
 
+/**
+ * Prediction for a challenge, from the challenger's side (team 1).
+ * Predictions are informational; a failure never blocks the challenge.
+ */
+async function getChallengePrediction(
+  challenge: ChallengeSidesSource,
+  options: { record?: boolean, createdById?: number } = {}
+): Promise<MatchPredictionSummary | null> {
+  try {
+    return await predictChallenge(challenge, options);
+  } catch (error) {
+    console.error('[Challenge Routes] Error predicting challenge:', challenge.id, error);
+    return null;
+  }
+}
+
 /**
  * POST /api/challenges/create
  * Create a new match challenge
@@ -45,6 +62,9 @@ router.post('/create', async (req, res) => {
       })
       .returning();
 
+    // Odds shown to both players before the challenge is accepted
+    const prediction = await getChallengePrediction(challenge, { record: true, createdById: userId });
+
     // Get challenger details for notification
     const [challenger] = await db.select({
       id: users.id,
@@ -93,7 +113,8 @@ router.post('/create', async (req, res) => {
           challengerName: challenger.displayName || challenger.username,
           matchType: validatedData.matchType,
           partnerName,
-          expiresAt: challenge.expiresAt
+          expiresAt: challenge.expiresAt,
+          prediction
         }
       });
     }
@@ -104,7 +125,8 @@ router.post('/create', async (req, res) => {
         id: challenge.id,
         status: challenge.status,
         expiresAt: challenge.expiresAt
-      }
+      },
+      prediction
     });
 
   } catch (error) {
@@ -172,6 +194,11 @@ router.post('/:id/respond', async (req, res) => {
       .set(updateData)
       .where(eq(matchChallenges.id, challengeId));
 
+    // Doubles teams are only complete once the challenged partner is known
+    const prediction = action === 'accept'
+      ? await getChallengePrediction({ ...challenge, challengedPartnerId: updateData.challengedPartnerId ?? challenge.challengedPartnerId }, { record: true, createdById: userId })
+      : null;
+
     // Notify challenger
     const actionText = action === 'accept' ? 'accepted' : 'declined';
     const [challenged] = await db.select({
@@ -204,7 +231,8 @@ router.post('/:id/respond', async (req, res) => {
           challengeId: challenge.id,
           respondedBy: challenged.displayName || challenged.username,
           action,
-          matchType: challenge.matchType
+          matchType: challenge.matchType,
+          prediction
         }
       });
     }
@@ -214,7 +242,8 @@ router.post('/:id/respond', async (req, res) => {
       challenge: {
         id: challenge.id,
         status: newStatus
-      }
+      },
+      prediction
     });
 
   } catch (error) {
@@ -237,13 +266,17 @@ router.get('/incoming', async (req, res) => {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const challenges = await db.select({
+    const pending = await db.select({
       id: matchChallenges.id,
       matchType: matchChallenges.matchType,
       status: matchChallenges.status,
       message: matchChallenges.message,
       createdAt: matchChallenges.createdAt,
       expiresAt: matchChallenges.expiresAt,
+      challengerId: matchChallenges.challengerId,
+      challengedId: matchChallenges.challengedId,
+      challengerPartnerId: matchChallenges.challengerPartnerId,
+      challengedPartnerId: matchChallenges.challengedPartnerId,
       challengerName: users.displayName,
       challengerUsername: users.username
     })
@@ -255,6 +288,12 @@ router.get('/incoming', async (req, res) => {
     ))
     .orderBy(sql`${matchChallenges.createdAt} DESC`);
 
+    // Odds from the challenger's side so the challenged player sees them before accepting
+    const challenges = await Promise.all(pending.map(async (challenge) => ({
+      ...challenge,
+      prediction: await getChallengePrediction(challenge)
+    })));
+
     res.json({ challenges });
 
   } catch (error) {
@@ -348,6 +387,8 @@ router.get('/:id', async (req, res) => {
       [challengedPartner] = await db.select().from(users).where(eq(users.id, challenge.challengedPartnerId));
     }
 
+    const prediction = await getChallengePrediction(challenge);
+
     res.json({
       id: challenge.id,
       matchType: challenge.matchType,
@@ -383,7 +424,8 @@ router.get('/:id', async (req, res) => {
         username: challengedPartner.username,
         passportCode: challengedPartner.passportCode,
         rankingPoints: challengedPartner.rankingPoints
-      } : null
+      } : null,
+      prediction
     });
 
   } catch (error) {
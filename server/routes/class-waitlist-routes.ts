@@ -0,0 +1,187 @@
+/**
+ * Class Waitlist Routes
+ * Enrolling in and cancelling training center classes, joining and leaving
+ * class waitlists, claiming offered spots, and the offer log for center admins
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from '../auth';
+import {
+  acceptWaitlistOffer,
+  cancelClassEnrollment,
+  declineWaitlistOffer,
+  enrollInClass,
+  getClassWaitlist,
+  getPlayerWaitlistEntries,
+  joinClassWaitlist,
+  leaveClassWaitlist,
+  listWaitlistOffers
+} from '../services/class-waitlist-service';
+
+const router = Router();
+
+const idParamSchema = z.coerce.number().int().positive();
+
+const enrollSchema = z.object({
+  promoCode: z.string().trim().min(1).max(40).optional()
+});
+
+const offerLogQuerySchema = z.object({
+  classId: z.coerce.number().int().positive().optional(),
+  outcome: z.enum(['pending', 'accepted', 'declined', 'expired', 'withdrawn', 'skipped']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+function waitlistUser(req: any) {
+  return { id: req.user.id as number, isAdmin: Boolean(req.user.isAdmin) };
+}
+
+/**
+ * Map known waitlist errors to 4xx responses
+ */
+function handleWaitlistError(res: any, error: unknown, context: string) {
+  console.error(`[ClassWaitlist] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error instanceof Error && error.message.startsWith('Not allowed')) {
+    return res.status(403).json({ error: error.message });
+  }
+
+  if (error instanceof Error && /already|full|no longer open|no open offer|does not fit|Promo code not applied/.test(error.message)) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/class-waitlist/me
+ * The signed-in player's waitlist places and open offers
+ */
+router.get('/me', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getPlayerWaitlistEntries(waitlistUser(req).id));
+  } catch (error) {
+    handleWaitlistError(res, error, 'loading waitlist entries');
+  }
+});
+
+/**
+ * POST /api/class-waitlist/classes/:id/enroll
+ * Enroll in a class that has a free spot, optionally with a promo code
+ */
+router.post('/classes/:id/enroll', isAuthenticated, async (req, res) => {
+  try {
+    const classId = idParamSchema.parse(req.params.id);
+    const { promoCode } = enrollSchema.parse(req.body ?? {});
+    res.status(201).json(await enrollInClass(classId, waitlistUser(req).id, new Date(), promoCode));
+  } catch (error) {
+    handleWaitlistError(res, error, 'enrolling in the class');
+  }
+});
+
+/**
+ * DELETE /api/class-waitlist/classes/:id/enroll
+ * Cancel an enrollment; the spot is offered to the waitlist
+ */
+router.delete('/classes/:id/enroll', isAuthenticated, async (req, res) => {
+  try {
+    const classId = idParamSchema.parse(req.params.id);
+    res.json(await cancelClassEnrollment(classId, waitlistUser(req).id));
+  } catch (error) {
+    handleWaitlistError(res, error, 'cancelling the enrollment');
+  }
+});
+
+/**
+ * GET /api/class-waitlist/classes/:id
+ * A class's waitlist, for its coach and center admins
+ */
+router.get('/classes/:id', isAuthenticated, async (req, res) => {
+  try {
+    const classId = idParamSchema.parse(req.params.id);
+    res.json(await getClassWaitlist(classId, waitlistUser(req)));
+  } catch (error) {
+    handleWaitlistError(res, error, 'loading the class waitlist');
+  }
+});
+
+/**
+ * POST /api/class-waitlist/classes/:id/join
+ * Join a full class's waitlist
+ */
+router.post('/classes/:id/join', isAuthenticated, async (req, res) => {
+  try {
+    const classId = idParamSchema.parse(req.params.id);
+    res.status(201).json(await joinClassWaitlist(classId, waitlistUser(req).id));
+  } catch (error) {
+    handleWaitlistError(res, error, 'joining the waitlist');
+  }
+});
+
+/**
+ * DELETE /api/class-waitlist/classes/:id/join
+ * Leave a class's waitlist, giving up any offered spot
+ */
+router.delete('/classes/:id/join', isAuthenticated, async (req, res) => {
+  try {
+    const classId = idParamSchema.parse(req.params.id);
+    await leaveClassWaitlist(classId, waitlistUser(req).id);
+    res.json({ success: true });
+  } catch (error) {
+    handleWaitlistError(res, error, 'leaving the waitlist');
+  }
+});
+
+/**
+ * POST /api/class-waitlist/offers/:entryId/accept
+ * Claim an offered spot before its window closes
+ */
+router.post('/offers/:entryId/accept', isAuthenticated, async (req, res) => {
+  try {
+    const entryId = idParamSchema.parse(req.params.entryId);
+    res.json(await acceptWaitlistOffer(entryId, waitlistUser(req).id));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('expired')) {
+      return res.status(410).json({ error: error.message });
+    }
+    handleWaitlistError(res, error, 'accepting the offer');
+  }
+});
+
+/**
+ * POST /api/class-waitlist/offers/:entryId/decline
+ * Turn down an offered spot so the next player gets it
+ */
+router.post('/offers/:entryId/decline', isAuthenticated, async (req, res) => {
+  try {
+    const entryId = idParamSchema.parse(req.params.entryId);
+    await declineWaitlistOffer(entryId, waitlistUser(req).id);
+    res.json({ success: true });
+  } catch (error) {
+    handleWaitlistError(res, error, 'declining the offer');
+  }
+});
+
+/**
+ * GET /api/class-waitlist/centers/:centerId/offers?classId=&outcome=&limit=
+ * Every offer made at a training center, for its admins
+ */
+router.get('/centers/:centerId/offers', isAuthenticated, async (req, res) => {
+  try {
+    const centerId = idParamSchema.parse(req.params.centerId);
+    res.json(await listWaitlistOffers(centerId, waitlistUser(req), offerLogQuerySchema.parse(req.query)));
+  } catch (error) {
+    handleWaitlistError(res, error, 'loading waitlist offers');
+  }
+});
+
+export default router;
@@ -0,0 +1,207 @@
+/**
+ * Coach Availability Routes
+ * Weekly availability rules and time off for coaches, with the booking slots
+ * generated from them, and an admin run over every coach
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import { insertCoachAvailabilitySchema } from '../../shared/schema/session-booking';
+import {
+  SLOT_MATERIALIZATION_MAX_WEEKS,
+  addCoachTimeOff,
+  createCoachAvailability,
+  deactivateCoachAvailability,
+  listCoachAvailability,
+  listCoachTimeOff,
+  materializeAllCoachSlots,
+  materializeCoachSlots,
+  removeCoachTimeOff,
+  updateCoachAvailability
+} from '../services/slot-materialization-service';
+
+const router = Router();
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Use HH:MM');
+
+const availabilitySchema = insertCoachAvailabilitySchema
+  .omit({ coachId: true })
+  .extend({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: timeOfDay,
+    endTime: timeOfDay,
+    sessionDuration: z.number().int().min(15).max(240).optional(),
+    effectiveDate: z.coerce.date().optional(),
+    expiryDate: z.coerce.date().nullable().optional()
+  });
+
+const weeksSchema = z.coerce.number().int().min(1).max(SLOT_MATERIALIZATION_MAX_WEEKS).optional();
+
+const timeOffSchema = z.object({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().max(255).optional()
+});
+
+const idParamSchema = z.coerce.number().int().positive();
+
+/**
+ * Only coaches manage availability
+ */
+function requireCoach(req: any, res: any, next: any) {
+  if (!req.user?.coachLevel) {
+    return res.status(403).json({ error: 'Coach access required' });
+  }
+  next();
+}
+
+/**
+ * Map known slot materialization errors to 4xx responses
+ */
+function handleCoachAvailabilityError(res: any, error: unknown, context: string) {
+  console.error(`[CoachAvailability] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error instanceof Error && /must end after|Unknown time zone|Invalid time of day/.test(error.message)) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/coach-availability
+ * The coach's availability rules
+ */
+router.get('/', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    res.json(await listCoachAvailability((req.user as any).id));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'loading availability');
+  }
+});
+
+/**
+ * POST /api/coach-availability
+ * Add a weekly availability window and generate its slots
+ */
+router.post('/', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    const input = availabilitySchema.parse(req.body);
+    res.status(201).json(await createCoachAvailability((req.user as any).id, input));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'creating availability');
+  }
+});
+
+/**
+ * PATCH /api/coach-availability/:id
+ * Edit an availability window; unbooked slots are regenerated, booked slots kept
+ */
+router.patch('/:id', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    const input = availabilitySchema.partial().parse(req.body);
+    res.json(await updateCoachAvailability((req.user as any).id, idParamSchema.parse(req.params.id), input));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'updating availability');
+  }
+});
+
+/**
+ * DELETE /api/coach-availability/:id
+ * Deactivate an availability window and remove its unbooked slots
+ */
+router.delete('/:id', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    res.json(await deactivateCoachAvailability((req.user as any).id, idParamSchema.parse(req.params.id)));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'removing availability');
+  }
+});
+
+/**
+ * GET /api/coach-availability/slots/preview
+ * What regenerating the coach's slots would change, without changing anything
+ */
+router.get('/slots/preview', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    const weeks = weeksSchema.parse(req.query.weeks);
+    res.json(await materializeCoachSlots((req.user as any).id, { weeks, dryRun: true }));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'previewing slots');
+  }
+});
+
+/**
+ * POST /api/coach-availability/slots/materialize
+ * Regenerate the coach's slots now
+ */
+router.post('/slots/materialize', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    const weeks = weeksSchema.parse(req.body?.weeks);
+    res.json(await materializeCoachSlots((req.user as any).id, { weeks }));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'generating slots');
+  }
+});
+
+/**
+ * GET /api/coach-availability/time-off
+ * The coach's current and upcoming time off
+ */
+router.get('/time-off', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    res.json(await listCoachTimeOff((req.user as any).id));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'loading time off');
+  }
+});
+
+/**
+ * POST /api/coach-availability/time-off
+ * Block out time; booked sessions in the period are reported, not cancelled
+ */
+router.post('/time-off', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    const input = timeOffSchema.parse(req.body);
+    res.status(201).json(await addCoachTimeOff((req.user as any).id, input));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'adding time off');
+  }
+});
+
+/**
+ * DELETE /api/coach-availability/time-off/:id
+ * Remove time off and restore the slots it blocked
+ */
+router.delete('/time-off/:id', isAuthenticated, requireCoach, async (req, res) => {
+  try {
+    res.json(await removeCoachTimeOff((req.user as any).id, idParamSchema.parse(req.params.id)));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'removing time off');
+  }
+});
+
+/**
+ * POST /api/coach-availability/admin/materialize-all
+ * Regenerate slots for every coach (admin)
+ */
+router.post('/admin/materialize-all', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const weeks = weeksSchema.parse(req.body?.weeks);
+    const dryRun = z.boolean().optional().parse(req.body?.dryRun);
+    res.json(await materializeAllCoachSlots({ weeks, dryRun }));
+  } catch (error) {
+    handleCoachAvailabilityError(res, error, 'generating slots for all coaches');
+  }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+/**
+ * Decay Policy Admin Routes
+ * Manage regional/divisional decay policies, preview the weekly decay and
+ * warn players ahead of it
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  listDecayPolicies,
+  createDecayPolicy,
+  updateDecayPolicy,
+  setPlayerRegion
+} from '../services/decay-policy-service';
+import { DecayProtectionService } from '../services/DecayProtectionService';
+import { decayPolicyDefinitionSchema, DEFAULT_DECAY_POLICY } from '../../shared/utils/decayPolicyEngine';
+
+const router = Router();
+
+const policyBodySchema = z.object({
+  name: z.string().min(1).max(100),
+  region: z.string().max(50).nullable().optional(),
+  division: z.string().max(20).nullable().optional(),
+  rules: decayPolicyDefinitionSchema,
+  isActive: z.boolean().optional(),
+  notes: z.string().nullable().optional()
+});
+
+const warningsBodySchema = z.object({
+  decayDate: z.coerce.date().optional()
+});
+
+const regionBodySchema = z.object({
+  region: z.string().max(50).nullable()
+});
+
+/**
+ * Map known decay policy errors to 4xx responses
+ */
+function handleDecayPolicyError(res: any, error: unknown, context: string) {
+  console.error(`[DecayPolicies] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid decay policy data', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/admin/decay-policies
+ * All policies plus the built-in default
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json({ policies: await listDecayPolicies(), defaults: DEFAULT_DECAY_POLICY });
+  } catch (error) {
+    handleDecayPolicyError(res, error, 'listing decay policies');
+  }
+});
+
+/**
+ * POST /api/admin/decay-policies
+ * Create a policy
+ */
+router.post('/', async (req, res) => {
+  try {
+    const data = policyBodySchema.parse(req.body);
+    const policy = await createDecayPolicy(data, (req.user as any)?.id);
+
+    res.status(201).json(policy);
+  } catch (error) {
+    handleDecayPolicyError(res, error, 'creating decay policy');
+  }
+});
+
+/**
+ * PUT /api/admin/decay-policies/:id
+ * Update a policy (including activating or deactivating it)
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const data = policyBodySchema.partial().parse(req.body);
+    const policy = await updateDecayPolicy(parseInt(req.params.id), data, (req.user as any)?.id);
+
+    res.json(policy);
+  } catch (error) {
+    handleDecayPolicyError(res, error, 'updating decay policy');
+  }
+});
+
+/**
+ * GET /api/admin/decay-policies/preview
+ * Dry run of the weekly decay: every player who would lose points and how much
+ */
+router.get('/preview', async (req, res) => {
+  try {
+    res.json(await DecayProtectionService.processWeeklyDecay({ dryRun: true }));
+  } catch (error) {
+    handleDecayPolicyError(res, error, 'previewing weekly decay');
+  }
+});
+
+/**
+ * POST /api/admin/decay-policies/warnings
+ * Warn players who will decay at the next weekly run (or the given date)
+ */
+router.post('/warnings', async (req, res) => {
+  try {
+    const { decayDate } = warningsBodySchema.parse(req.body || {});
+    res.json(await DecayProtectionService.sendDecayWarnings(decayDate));
+  } catch (error) {
+    handleDecayPolicyError(res, error, 'sending decay warnings');
+  }
+});
+
+/**
+ * PUT /api/admin/decay-policies/players/:userId/region
+ * Set the region a player's decay policy is matched on
+ */
+router.put('/players/:userId/region', async (req, res) => {
+  try {
+    const { region } = regionBodySchema.parse(req.body);
+    res.json(await setPlayerRegion(parseInt(req.params.userId), region));
+  } catch (error) {
+    handleDecayPolicyError(res, error, 'setting player region');
+  }
+});
+
+export default router;
@@ -109,7 +109,8 @@ router.get("/my-status", requireAuth, async (req, res) => {
 
 /**
  * POST /api/decay-protection/process-weekly
- * Admin endpoint to manually trigger weekly decay processing
+ * Admin endpoint to manually trigger weekly decay processing.
+ * Pass { dryRun: true } to list who would decay without applying it.
  */
 router.post("/process-weekly", requireAuth, async (req, res) => {
   try {
@@ -118,11 +119,12 @@ router.post("/process-weekly", requireAuth, async (req, res) => {
       return res.status(403).json({ error: "Admin permission required" });
     }
 
-    const result = await StandardizedRankingService.processWeeklyDecay();
+    const dryRun = req.body?.dryRun === true;
+    const result = await StandardizedRankingService.processWeeklyDecay({ dryRun });
     
     res.json({
       success: true,
-      message: "Weekly decay processing completed",
+      message: dryRun ? "Weekly decay dry run completed" : "Weekly decay processing completed",
       data: result
     });
     
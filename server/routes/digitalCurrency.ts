@@ -20,6 +20,9 @@ import { z } from 'zod';
 import { digitalCurrencyService } from '../services/digitalCurrencyService';
 import { digitalCurrencyUDF } from '../../shared/utils/digitalCurrencyValidation';
 import { currencyService, SUPPORTED_CURRENCIES, type SupportedCurrency } from '../services/currencyService';
+import { getWalletCurrencyBalances } from '../services/wallet-currency-service';
+import { getRateSnapshots } from '../services/fx-rate-service';
+import { formatMinor } from '../../shared/utils/multiCurrencyWallet';
 import { 
   parseWebhookRawBody, 
   verifyWiseWebhookSignature, 
@@ -41,7 +44,7 @@ const financialRateLimit = rateLimit({
 
 // Validation schemas
 const topUpSchema = z.object({
-  amount: z.number().min(digitalCurrencyUDF.constants.MIN_TOP_UP_AMOUNT, 'Minimum top-up amount not met'),
+  amount: z.number().int().min(digitalCurrencyUDF.constants.MIN_TOP_UP_AMOUNT, 'Minimum top-up amount not met'),
   currency: z.enum(['USD', 'SGD', 'AUD', 'MYR', 'CNY']).default('USD'),
   customerEmail: z.string().email('Valid email required'),
 });
@@ -81,6 +84,7 @@ function requireAuth(req: any, res: any, next: any) {
 router.get('/account', requireAuth, async (req: any, res: any) => {
   try {
     const account = await digitalCurrencyService.getOrCreateAccount(req.user.id);
+    const pockets = await getWalletCurrencyBalances(req.user.id);
     
     res.json({
       success: true,
@@ -89,6 +93,11 @@ router.get('/account', requireAuth, async (req: any, res: any) => {
         totalPurchased: account.totalPurchased,
         totalSpent: account.totalSpent,
         balanceDisplay: `$${(account.balance / 100).toFixed(2)}`,
+        currencyBalances: pockets.map(pocket => ({
+          ...pocket,
+          balanceDisplay: `${formatMinor(pocket.balanceMinor)} ${pocket.currency}`,
+          usdDisplay: `$${formatMinor(pocket.usdCents)}`
+        })),
         createdAt: account.createdAt,
         updatedAt: account.updatedAt
       }
@@ -119,7 +128,22 @@ router.post('/top-up', financialRateLimit, requireAuth, async (req: any, res: an
       });
     }
 
-    const { amount, customerEmail } = validation.data;
+    const { amount: nativeAmount, currency, customerEmail } = validation.data;
+
+    // Credits are held in USD; other currencies are converted at a recorded rate
+    const conversion = currency === 'USD'
+      ? null
+      : await currencyService.convertWithSnapshot(nativeAmount, currency, 'USD', { purpose: 'top_up', userId: req.user.id });
+    const amount = conversion ? conversion.toAmountMinor : nativeAmount;
+
+    if (amount < digitalCurrencyUDF.constants.MIN_TOP_UP_AMOUNT) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: [{ path: ['amount'], message: 'Minimum top-up amount not met' }],
+        code: 'VALIDATION_ERROR'
+      });
+    }
 
     // Validate daily limits
     const limitValidation = await digitalCurrencyService.validateDailyLimits(
@@ -143,7 +167,10 @@ router.post('/top-up', financialRateLimit, requireAuth, async (req: any, res: an
       userId: req.user.id,
       amount,
       customerEmail,
-      description: `Pickle Credits top-up: $${(amount / 100).toFixed(2)}`
+      description: `Pickle Credits top-up: $${(amount / 100).toFixed(2)}`,
+      currency,
+      nativeAmount,
+      fxSnapshotId: conversion?.snapshotId
     });
 
     if (!pendingPayment.success) {
@@ -164,6 +191,11 @@ router.post('/top-up', financialRateLimit, requireAuth, async (req: any, res: an
         wiseTransactionId: pendingPayment.wiseTransactionId,
         amount: amount,
         amountDisplay: `$${(amount / 100).toFixed(2)}`,
+        currency,
+        nativeAmount,
+        nativeAmountDisplay: `${formatMinor(nativeAmount)} ${currency}`,
+        fxRate: conversion?.rate ?? 1,
+        fxSnapshotId: conversion?.snapshotId ?? null,
         status: 'pending',
         expectedBonusCredits: pendingPayment.expectedBonusCredits,
         expectedPicklePoints: pendingPayment.expectedPicklePoints
@@ -337,14 +369,29 @@ router.get('/history', requireAuth, async (req: any, res: any) => {
       offset
     );
 
+    const snapshotIds = result.transactions
+      .map(t => t.fxSnapshotId)
+      .filter((id): id is number => id !== null);
+    const snapshots = await getRateSnapshots(snapshotIds, req.user.id);
+
     res.json({
       success: true,
       data: {
-        transactions: result.transactions.map(t => ({
-          ...t,
-          amountDisplay: `${t.amount >= 0 ? '+' : ''}$${(t.amount / 100).toFixed(2)}`,
-          balanceAfterDisplay: `$${(t.balanceAfter / 100).toFixed(2)}`
-        })),
+        transactions: result.transactions.map(t => {
+          const nativeAmount = t.nativeAmount ?? t.amount;
+          const snapshot = t.fxSnapshotId !== null ? snapshots.get(t.fxSnapshotId) : undefined;
+          return {
+            ...t,
+            amountDisplay: `${t.amount >= 0 ? '+' : ''}$${(t.amount / 100).toFixed(2)}`,
+            balanceAfterDisplay: `$${(t.balanceAfter / 100).toFixed(2)}`,
+            nativeAmount,
+            nativeAmountDisplay: `${nativeAmount >= 0 ? '+' : ''}${formatMinor(nativeAmount)} ${t.currency}`,
+            usdAmountDisplay: `${t.amount >= 0 ? '+' : ''}$${formatMinor(t.amount)} USD`,
+            fxRate: snapshot ? Number(snapshot.rate) : null,
+            fxRateSource: snapshot?.source ?? null,
+            fxRateFetchedAt: snapshot?.rateFetchedAt ?? null
+          };
+        }),
         totalCount: result.totalCount,
         currentBalance: result.currentBalance,
         currentBalanceDisplay: `$${(result.currentBalance / 100).toFixed(2)}`,
@@ -551,6 +598,7 @@ router.post('/currencies/convert', async (req, res) => {
       });
     }
     
+    // A quote only reads the rate; snapshots are recorded when money moves
     const conversion = await currencyService.convertCurrency(
       parseFloat(amount),
       fromCurrency as SupportedCurrency,
@@ -0,0 +1,157 @@
+/**
+ * FX Rate Routes
+ * Exchange rate sources, the fallback rate table and the rate snapshots
+ * recorded with conversions (admin)
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import { SUPPORTED_CURRENCIES, currencyService, type SupportedCurrency } from '../services/currencyService';
+import {
+  createRateSource,
+  listFallbackRates,
+  listRateSnapshots,
+  listRateSources,
+  setFallbackRate,
+  updateRateSource
+} from '../services/fx-rate-service';
+
+const router = Router();
+
+const currencySchema = z.enum(Object.keys(SUPPORTED_CURRENCIES) as [SupportedCurrency, ...SupportedCurrency[]]);
+
+const rateSourceSchema = z.object({
+  name: z.string().min(1).max(100),
+  kind: z.enum(['http_json', 'manual']),
+  url: z.string().url().optional(),
+  ratesPath: z.string().max(100).optional(),
+  manualRates: z.record(z.string().length(3), z.number().positive()).optional(),
+  priority: z.number().int().min(0).default(100),
+  enabled: z.boolean().default(true)
+});
+
+const fallbackRateSchema = z.object({
+  baseCurrency: currencySchema,
+  quoteCurrency: currencySchema,
+  rate: z.number().positive()
+});
+
+const snapshotsQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(500).optional()
+});
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handleFxRateError(res: any, error: unknown, context: string) {
+  console.error(`[FX] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (/already exists|needs/.test(message)) {
+    return res.status(409).json({ error: message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/fx-rates/sources
+ * Configured rate sources in the order they are tried
+ */
+router.get('/sources', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await listRateSources());
+  } catch (error) {
+    handleFxRateError(res, error, 'loading rate sources');
+  }
+});
+
+/**
+ * POST /api/fx-rates/sources
+ * Add a rate source
+ */
+router.post('/sources', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const input = rateSourceSchema.parse(req.body);
+    res.status(201).json(await createRateSource(input, (req.user as any).id));
+  } catch (error) {
+    handleFxRateError(res, error, 'creating the rate source');
+  }
+});
+
+/**
+ * PATCH /api/fx-rates/sources/:id
+ * Change, reorder or disable a rate source
+ */
+router.patch('/sources/:id', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const id = z.coerce.number().int().positive().parse(req.params.id);
+    const changes = rateSourceSchema.partial().parse(req.body);
+    res.json(await updateRateSource(id, changes));
+  } catch (error) {
+    handleFxRateError(res, error, 'updating the rate source');
+  }
+});
+
+/**
+ * GET /api/fx-rates/fallback
+ * Local rates used when no source answers
+ */
+router.get('/fallback', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await listFallbackRates());
+  } catch (error) {
+    handleFxRateError(res, error, 'loading fallback rates');
+  }
+});
+
+/**
+ * PUT /api/fx-rates/fallback
+ * Set the fallback rate of a currency pair
+ */
+router.put('/fallback', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const { baseCurrency, quoteCurrency, rate } = fallbackRateSchema.parse(req.body);
+    res.json(await setFallbackRate(baseCurrency, quoteCurrency, rate, (req.user as any).id));
+  } catch (error) {
+    handleFxRateError(res, error, 'setting the fallback rate');
+  }
+});
+
+/**
+ * GET /api/fx-rates/quote
+ * Current rate between two currencies and where it comes from
+ */
+router.get('/quote', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const from = currencySchema.parse(req.query.from);
+    const to = currencySchema.parse(req.query.to);
+    res.json(await currencyService.getRateQuote(from, to));
+  } catch (error) {
+    handleFxRateError(res, error, 'quoting the rate');
+  }
+});
+
+/**
+ * GET /api/fx-rates/snapshots
+ * Recent rate snapshots, optionally for one user
+ */
+router.get('/snapshots', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const { userId, limit } = snapshotsQuerySchema.parse(req.query);
+    res.json(await listRateSnapshots({ userId, limit }));
+  } catch (error) {
+    handleFxRateError(res, error, 'loading rate snapshots');
+  }
+});
+
+export default router;
@@ -19,6 +19,14 @@ import {
   insertGoldenTicketSchema,
   insertGoldenTicketClaimSchema
 } from '../../shared/golden-ticket.schema';
+import {
+  claimGoldenTicket,
+  drawGoldenTicket,
+  getCampaignAuditLog,
+  getCampaignMultiAccountReport,
+  recordClaimReview,
+  revealTicketSeed
+} from '../services/golden-ticket-service';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -86,6 +94,58 @@ const extractFilterParams = (query: any, allowedParams: string[]) => {
 
 const router = Router();
 
+const drawSchema = z.object({
+  deviceId: z.string().min(8).max(200),
+  page: z.string().max(200).optional()
+});
+
+const claimSchema = z.object({
+  drawId: z.number().int().positive(),
+  deviceId: z.string().min(8).max(200),
+  shippingAddress: z.string().max(1000).optional()
+});
+
+/**
+ * Map golden ticket service errors to HTTP responses
+ */
+function handleGoldenTicketError(res: Response, error: unknown, context: string) {
+  console.error(`[GoldenTicket] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (message.startsWith('Golden ticket claim rejected')) {
+    return res.status(409).json({ error: message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+// DRAW ROUTES (USER)
+
+/**
+ * Draw for a golden ticket on the server; the client shows whatever comes back
+ */
+router.post('/draw', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { deviceId, page } = drawSchema.parse(req.body);
+    return res.json(await drawGoldenTicket(userId, { deviceId, page, ip: req.ip ?? null }));
+  } catch (error) {
+    return handleGoldenTicketError(res, error, 'drawing a golden ticket');
+  }
+});
+
 // CLAIM ROUTES (USER)
 
 /**
@@ -162,76 +222,62 @@ router.get('/tickets', isAuthenticated, async (req: Request, res: Response) => {
 });
 
 /**
- * Claim a ticket
+ * Get an available ticket with its sponsor, e.g. one that was just drawn
  */
-router.post('/tickets/:id/claim', isAuthenticated, async (req: Request, res: Response) => {
+router.get('/tickets/:id', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
     const ticketId = parseInt(req.params.id);
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
 
     if (isNaN(ticketId)) {
       return res.status(400).json({ error: 'Invalid ticket ID' });
     }
 
-    // Validate that ticket exists, is active, and can be claimed
     const ticket = await db.query.goldenTickets.findFirst({
-      where: and(
-        eq(goldenTickets.id, ticketId),
-        eq(goldenTickets.status, 'active'),
-        gt(goldenTickets.endDate, new Date()),
-        lt(goldenTickets.startDate, new Date())
-      )
+      where: and(eq(goldenTickets.id, ticketId), eq(goldenTickets.status, 'active')),
+      with: {
+        sponsor: true
+      }
     });
 
     if (!ticket) {
       return res.status(404).json({ error: 'Ticket not available or does not exist' });
     }
 
-    if (ticket.currentClaims >= ticket.maxClaims) {
-      return res.status(400).json({ error: 'Maximum claims reached for this ticket' });
+    const { sponsor, ...details } = ticket;
+    return res.json({
+      ...details,
+      sponsorName: sponsor?.name,
+      sponsorLogoUrl: sponsor?.logoUrl,
+      sponsorWebsite: sponsor?.website
+    });
+  } catch (error) {
+    console.error('Error fetching ticket:', error);
+    return res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Claim a ticket that a draw showed to the current user
+ */
+router.post('/tickets/:id/claim', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const ticketId = parseInt(req.params.id);
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    // Check if user already claimed this ticket
-    const existingClaim = await db.query.goldenTicketClaims.findFirst({
-      where: and(
-        eq(goldenTicketClaims.ticketId, ticketId),
-        eq(goldenTicketClaims.userId, userId)
-      )
-    });
+    if (isNaN(ticketId)) {
+      return res.status(400).json({ error: 'Invalid ticket ID' });
+    }
 
-    if (existingClaim) {
-      return res.status(400).json({ error: 'You have already claimed this ticket' });
-    }
-
-    // Create claim in a transaction
-    await db.transaction(async (tx) => {
-      // Increment current claims
-      await tx.update(goldenTickets)
-        .set({ currentClaims: sql`${goldenTickets.currentClaims} + 1` })
-        .where(eq(goldenTickets.id, ticketId));
-      
-      // Insert claim
-      const claim = await tx.insert(goldenTicketClaims)
-        .values({
-          ticketId,
-          userId,
-          status: 'pending'
-        })
-        .returning();
-
-      return claim[0];
-    });
+    const { drawId, deviceId, shippingAddress } = claimSchema.parse(req.body);
+    const claim = await claimGoldenTicket(userId, ticketId, { drawId, deviceId, shippingAddress, ip: req.ip ?? null });
 
     // Get the newly created claim with ticket information
     const newClaim = await db.query.goldenTicketClaims.findFirst({
-      where: and(
-        eq(goldenTicketClaims.ticketId, ticketId),
-        eq(goldenTicketClaims.userId, userId)
-      ),
+      where: eq(goldenTicketClaims.id, claim.id),
       with: {
         ticket: true
       }
@@ -239,8 +285,7 @@ router.post('/tickets/:id/claim', isAuthenticated, async (req: Request, res: Res
 
     return res.status(201).json(newClaim);
   } catch (error) {
-    console.error('Error claiming ticket:', error);
-    return res.status(500).json({ error: 'Server error' });
+    return handleGoldenTicketError(res, error, 'claiming the ticket');
   }
 });
 
@@ -518,6 +563,8 @@ router.patch('/admin/claims/:id', isAdmin, async (req: Request, res: Response) =
       return res.status(404).json({ error: 'Claim not found' });
     }
 
+    await recordClaimReview(updated[0], req.user?.id ?? null);
+
     return res.json(updated[0]);
   } catch (error) {
     console.error('Error updating claim:', error);
@@ -591,6 +638,11 @@ router.patch('/admin/tickets/:id', isAdmin, async (req: Request, res: Response)
       return res.status(404).json({ error: 'Ticket not found' });
     }
 
+    // An ended ticket draws no more, so its seed can be published
+    if (parsedData.data.status === 'completed' || parsedData.data.status === 'cancelled') {
+      await revealTicketSeed(ticketId, req.user?.id ?? null);
+    }
+
     return res.json(updated[0]);
   } catch (error) {
     console.error('Error updating ticket:', error);
@@ -598,6 +650,51 @@ router.patch('/admin/tickets/:id', isAdmin, async (req: Request, res: Response)
   }
 });
 
+/**
+ * Reveal the ticket's current seed and commit a new one (admin)
+ */
+router.post('/admin/tickets/:id/seed/rotate', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const ticketId = parseInt(req.params.id);
+
+    if (isNaN(ticketId)) {
+      return res.status(400).json({ error: 'Invalid ticket ID' });
+    }
+
+    const { revealed, committed } = await revealTicketSeed(ticketId, req.user?.id ?? null);
+    return res.json({
+      revealed: revealed && { id: revealed.id, seedHash: revealed.seedHash, serverSeed: revealed.serverSeed, drawCount: revealed.drawCount },
+      committed: committed && { id: committed.id, seedHash: committed.seedHash }
+    });
+  } catch (error) {
+    return handleGoldenTicketError(res, error, 'rotating the ticket seed');
+  }
+});
+
+/**
+ * Export a campaign's fair-draw audit log for its sponsor (admin)
+ */
+router.get('/admin/campaigns/:campaignId/audit', isAdmin, async (req: Request, res: Response) => {
+  try {
+    const log = await getCampaignAuditLog(req.params.campaignId);
+    res.set('Content-Disposition', `attachment; filename="golden-ticket-audit-${log.campaignId.replace(/[^A-Za-z0-9_-]/g, '_')}.json"`);
+    return res.json(log);
+  } catch (error) {
+    return handleGoldenTicketError(res, error, 'exporting the audit log');
+  }
+});
+
+/**
+ * Accounts that drew or claimed from the same device or IP in a campaign (admin)
+ */
+router.get('/admin/campaigns/:campaignId/multi-account', isAdmin, async (req: Request, res: Response) => {
+  try {
+    return res.json(await getCampaignMultiAccountReport(req.params.campaignId));
+  } catch (error) {
+    return handleGoldenTicketError(res, error, 'checking for multi-account claims');
+  }
+});
+
 /**
  * Delete ticket (admin)
  */
@@ -0,0 +1,213 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Challenge Ladder Routes
+ * Lets players join ladders, challenge players above them and report and
+ * confirm results. Lapsed challenge windows are closed by the scheduler in
+ * the ladder service.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  getLadderStandings,
+  joinLadder,
+  issueChallenge,
+  respondToChallenge,
+  reportLadderChallengeResult,
+  confirmLadderChallengeResult
+} from '../services/ladder-service';
+import { db } from '../db';
+import { ladderChallenges } from '../../shared/schema/tournament-brackets';
+import { eq } from 'drizzle-orm';
+
+const router = Router();
+
+/**
+ * Map known ladder rule violations to 400 responses
+ */
+function handleLadderError(res: any, error: unknown, context: string) {
+  console.error(`[Ladder] Error ${context}:`, error);
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message.includes('closed') ||
+        error.message.includes('already') ||
+        error.message.includes('must be on the ladder') ||
+        error.message.includes('only challenge') ||
+        error.message.includes('Only ') ||
+        error.message.includes('not part of') ||
+        error.message.includes('No result')) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/ladders/:id
+ * Ladder rungs from the top, plus open challenges
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const ladderId = parseInt(req.params.id);
+    if (isNaN(ladderId)) {
+      return res.status(400).json({ error: 'Invalid ladder ID' });
+    }
+
+    res.json(await getLadderStandings(ladderId));
+  } catch (error) {
+    handleLadderError(res, error, 'fetching ladder');
+  }
+});
+
+/**
+ * POST /api/ladders/:id/join
+ * Join a ladder at the bottom rung
+ */
+router.post('/:id/join', async (req, res) => {
+  try {
+    const userId = (req.user as any)?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const rung = await joinLadder(parseInt(req.params.id), userId);
+
+    res.status(201).json(rung);
+  } catch (error) {
+    handleLadderError(res, error, 'joining ladder');
+  }
+});
+
+/**
+ * POST /api/ladders/:id/challenges
+ * Challenge a player higher up the ladder
+ */
+router.post('/:id/challenges', async (req, res) => {
+  try {
+    const userId = (req.user as any)?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { defenderId } = z.object({ defenderId: z.number().int() }).parse(req.body);
+
+    const challenge = await issueChallenge(parseInt(req.params.id), userId, defenderId);
+
+    res.status(201).json(challenge);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid challenge data', details: error.errors });
+    }
+    handleLadderError(res, error, 'issuing challenge');
+  }
+});
+
+/**
+ * POST /api/ladders/challenges/:challengeId/respond
+ * Accept or decline a challenge (declining forfeits the rung)
+ */
+router.post('/challenges/:challengeId/respond', async (req, res) => {
+  try {
+    const userId = (req.user as any)?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { accept } = z.object({ accept: z.boolean() }).parse(req.body);
+
+    const challenge = await respondToChallenge(parseInt(req.params.challengeId), userId, accept);
+
+    res.json(challenge);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid response data', details: error.errors });
+    }
+    handleLadderError(res, error, 'responding to challenge');
+  }
+});
+
+/**
+ * Only the two players in a challenge may report or confirm its result
+ * @returns The challenge and player, or null once a response has been sent
+ */
+async function findPlayerChallenge(req: any, res: any): Promise<{ challengeId: number, userId: number } | null> {
+  const userId = (req.user as any)?.id;
+  if (!userId) {
+    res.status(401).json({ error: 'Not authenticated' });
+    return null;
+  }
+
+  const challengeId = parseInt(req.params.challengeId);
+  const [challenge] = await db.select()
+    .from(ladderChallenges)
+    .where(eq(ladderChallenges.id, challengeId))
+    .limit(1);
+
+  if (!challenge) {
+    res.status(404).json({ error: 'Challenge not found' });
+    return null;
+  }
+
+  if (challenge.challengerId !== userId && challenge.defenderId !== userId) {
+    res.status(403).json({ error: 'Only the players in this challenge can report or confirm its result' });
+    return null;
+  }
+
+  return { challengeId, userId };
+}
+
+/**
+ * POST /api/ladders/challenges/:challengeId/result
+ * Report the result of an accepted challenge; either player may report and
+ * the other confirms it
+ */
+router.post('/challenges/:challengeId/result', async (req, res) => {
+  try {
+    const { winnerId, score } = z.object({
+      winnerId: z.number().int(),
+      score: z.string().min(1)
+    }).parse(req.body);
+
+    const player = await findPlayerChallenge(req, res);
+    if (!player) return;
+
+    const updated = await reportLadderChallengeResult(player.challengeId, player.userId, winnerId, score);
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid result data', details: error.errors });
+    }
+    handleLadderError(res, error, 'recording challenge result');
+  }
+});
+
+/**
+ * POST /api/ladders/challenges/:challengeId/result/confirm
+ * The player who didn't report the result confirms or disputes it; a
+ * confirmed result moves the ladder and awards ranking points
+ */
+router.post('/challenges/:challengeId/result/confirm', async (req, res) => {
+  try {
+    const { confirm } = z.object({ confirm: z.boolean() }).parse(req.body);
+
+    const player = await findPlayerChallenge(req, res);
+    if (!player) return;
+
+    const updated = await confirmLadderChallengeResult(player.challengeId, player.userId, confirm);
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid confirmation data', details: error.errors });
+    }
+    handleLadderError(res, error, 'confirming challenge result');
+  }
+});
+
+export default router;
@@ -0,0 +1,91 @@
+/**
+ * Ledger Routes
+ * Trial balance, journal entries and wallet invariant checks of the
+ * double-entry ledger (admin)
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import {
+  getTrialBalance,
+  listJournalEntries,
+  listLedgerInvariantChecks,
+  runLedgerInvariantCheck
+} from '../services/ledger-service';
+
+const router = Router();
+
+const trialBalanceQuerySchema = z.object({
+  asOf: z.coerce.date().optional()
+});
+
+const entriesQuerySchema = z.object({
+  account: z.string().max(60).optional(),
+  limit: z.coerce.number().int().positive().max(500).optional()
+});
+
+/**
+ * Map invalid queries to 400 responses
+ */
+function handleLedgerError(res: any, error: unknown, context: string) {
+  console.error(`[Ledger] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/ledger/trial-balance
+ * Balance of every account, now or as of a date
+ */
+router.get('/trial-balance', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const { asOf } = trialBalanceQuerySchema.parse(req.query);
+    res.json(await getTrialBalance(asOf));
+  } catch (error) {
+    handleLedgerError(res, error, 'building the trial balance');
+  }
+});
+
+/**
+ * GET /api/ledger/entries
+ * Recent journal entries with their lines, optionally for one account
+ */
+router.get('/entries', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const { account, limit } = entriesQuerySchema.parse(req.query);
+    res.json(await listJournalEntries({ accountCode: account, limit }));
+  } catch (error) {
+    handleLedgerError(res, error, 'loading journal entries');
+  }
+});
+
+/**
+ * GET /api/ledger/invariant-checks
+ * Results of recent wallet and gift card checks
+ */
+router.get('/invariant-checks', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await listLedgerInvariantChecks());
+  } catch (error) {
+    handleLedgerError(res, error, 'loading invariant checks');
+  }
+});
+
+/**
+ * POST /api/ledger/invariant-checks
+ * Run the invariant check now
+ */
+router.post('/invariant-checks', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.status(201).json(await runLedgerInvariantCheck());
+  } catch (error) {
+    handleLedgerError(res, error, 'running the invariant check');
+  }
+});
+
+export default router;
@@ -0,0 +1,82 @@
+/**
+ * Match Prediction Routes
+ * Win probability, expected scoreline and handicap suggestions for singles
+ * and doubles matches, and an admin calibration report of past predictions
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import { MATCH_PREDICTION_CONTEXTS, SKILL_RATING_FORMATS } from '../../shared/schema';
+import { matchFormatOptionsSchema } from '../../shared/utils/matchPredictor';
+import { predictMatch, getPredictionCalibration } from '../services/match-prediction-service';
+
+const router = Router();
+
+const sideSchema = z.array(z.number().int().positive()).min(1).max(2);
+
+const predictSchema = z.object({
+  team1: sideSchema,
+  team2: sideSchema,
+  format: matchFormatOptionsSchema.partial().optional(),
+  record: z.boolean().optional() // Keep the prediction for calibration (match setup)
+}).refine(data => new Set([...data.team1, ...data.team2]).size === data.team1.length + data.team2.length, {
+  message: 'A player can only appear once in a match'
+});
+
+const calibrationQuerySchema = z.object({
+  context: z.enum(MATCH_PREDICTION_CONTEXTS).optional(),
+  format: z.enum(SKILL_RATING_FORMATS).optional(),
+  since: z.coerce.date().optional(),
+  buckets: z.coerce.number().int().min(2).max(20).optional()
+});
+
+/**
+ * Map known match prediction errors to 4xx responses
+ */
+function handleMatchPredictionError(res: any, error: unknown, context: string) {
+  console.error(`[MatchPrediction] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * POST /api/match-predictions/predict
+ * Win probability, expected score and handicap for two sides
+ */
+router.post('/predict', isAuthenticated, async (req, res) => {
+  try {
+    const { team1, team2, format, record } = predictSchema.parse(req.body);
+    const prediction = await predictMatch(
+      team1,
+      team2,
+      format,
+      record ? { context: 'match', createdById: (req.user as any).id } : undefined
+    );
+    res.json(prediction);
+  } catch (error) {
+    handleMatchPredictionError(res, error, 'predicting match');
+  }
+});
+
+/**
+ * GET /api/match-predictions/calibration
+ * Predicted vs observed win rates of resolved predictions (admin)
+ */
+router.get('/calibration', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await getPredictionCalibration(calibrationQuerySchema.parse(req.query)));
+  } catch (error) {
+    handleMatchPredictionError(res, error, 'loading prediction calibration');
+  }
+});
+
+export default router;
@@ -168,7 +168,8 @@ router.post('/matches/:id/result', validateToken, async (req, res) => {
       // Invalid teams
       if (error.message.includes('not playing') || 
           error.message.includes('invalid team') ||
-          error.message.includes('team not found')) {
+          error.message.includes('team not found') ||
+          error.message.includes('different teams')) {
         return res.status(400).json({ 
           code: 'INVALID_TEAMS',
           message: error.message 
@@ -177,7 +178,8 @@ router.post('/matches/:id/result', validateToken, async (req, res) => {
       
       // Match already completed
       if (error.message.includes('already completed') || 
-          error.message.includes('already finished')) {
+          error.message.includes('already finished') ||
+          error.message.includes('is already')) {
         return res.status(409).json({ 
           code: 'MATCH_ALREADY_COMPLETED',
           message: error.message 
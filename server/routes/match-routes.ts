@@ -11,6 +11,10 @@ import { eq, and, sql } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
 import { notifyPlayersForVerification, notifyMatchVerified } from '../utils/matchNotifications';
 import { calculateMatchPoints, type PlayerMatchData } from '../../shared/utils/matchPointsCalculator';
+import { getActivePointsRuleset } from '../services/points-ruleset-service';
+import { recordPointsLedgerEntries } from '../services/points-ledger-service';
+import { StandardizedRankingService } from '../services/StandardizedRankingService';
+import { ingestMatch, PENDING_CERTIFICATION_VALUES, resultFromGames } from '../services/match-ingestion-service';
 
 // Validation schemas
 const gameScoreSchema = z.object({
@@ -92,8 +96,9 @@ async function calculateAndAwardPoints(match: any): Promise<void> {
     eventType: 'casual' // Default for friendly matches
   }));
   
-  // Calculate points using official algorithm
-  const pointsResults = calculateMatchPoints(playersMatchData, matchFormat);
+  // Calculate points under the ruleset in force when the match was played
+  const ruleset = await getActivePointsRuleset(match.matchDate ? new Date(match.matchDate) : new Date());
+  const pointsResults = calculateMatchPoints(playersMatchData, matchFormat, ruleset);
   
   console.log('[Points] Calculated results:', pointsResults);
   
@@ -101,6 +106,7 @@ async function calculateAndAwardPoints(match: any): Promise<void> {
   const totalPoints = Math.round(pointsResults.reduce((sum, r) => sum + r.rankingPointsEarned, 0));
   
   // DRIZZLE TRANSACTION: All-or-nothing points awarding with atomic lock
+  let awarded = false;
   try {
     await db.transaction(async (tx) => {
       // ATOMIC LOCK: Lock match row and check if points already awarded
@@ -128,19 +134,49 @@ async function calculateAndAwardPoints(match: any): Promise<void> {
             ranking_points = ranking_points + ${result.rankingPointsEarned},
             pickle_points = pickle_points + ${result.picklePointsEarned},
             total_matches = total_matches + 1,
-            matches_won = matches_won + ${result.rankingPointsEarned >= 3 ? 1 : 0}
+            matches_won = matches_won + ${playersMatchData.find(player => player.playerId === result.playerId)?.isWin ? 1 : 0}
           WHERE id = ${result.playerId}
         `);
+        
+        const ledgerDetails = {
+          division: matchFormat,
+          sourceType: 'match',
+          sourceId: match.id,
+          rulesetVersion: result.rulesetVersion,
+          calculationDetails: result.calculationDetails,
+          occurredAt: match.matchDate ? new Date(match.matchDate) : undefined
+        };
+        
+        await recordPointsLedgerEntries([
+          {
+            ...ledgerDetails,
+            userId: result.playerId,
+            currency: 'ranking',
+            entryType: 'match_award',
+            amount: result.rankingPointsEarned,
+            multipliers: { age: result.multipliers.age, gender: result.multipliers.gender, event: result.multipliers.event }
+          },
+          {
+            ...ledgerDetails,
+            userId: result.playerId,
+            currency: 'pickle',
+            entryType: 'match_award',
+            amount: result.picklePointsEarned,
+            multipliers: { pickle: result.multipliers.pickle }
+          }
+        ], tx);
       }
       
       // Mark points as awarded (after all user updates succeed)
       await tx.execute(sql`
         UPDATE matches
-        SET points_awarded = ${totalPoints}
+        SET points_awarded = ${totalPoints},
+            points_ruleset_version = ${ruleset.version}
         WHERE id = ${match.id}
       `);
       
       console.log('[Points] Points awarded successfully');
+      awarded = true;
     });
     
   } catch (error: any) {
@@ -153,6 +189,11 @@ async function calculateAndAwardPoints(match: any): Promise<void> {
     console.error('[Points] Error awarding points, transaction rolled back:', error);
     throw error;
   }
+  
+  // Skill ratings and prediction results follow the points award
+  if (awarded) {
+    await StandardizedRankingService.updateSkillRatingsAndPredictions(match.id);
+  }
 }
 
 /**
@@ -198,25 +239,30 @@ export function registerMatchRoutes(app: express.Express): void {
       const formatType = playerIds.length === 2 ? 'singles' : 'doubles';
       
       // Create match record with PENDING certification status
-      const [match] = await db.insert(matches).values({
-        serial,
-        playerOneId: playerIds[0],
-        playerTwoId: playerIds[1],
-        playerOnePartnerId: playerIds[2] || null,
-        playerTwoPartnerId: playerIds[3] || null,
-        winnerId: playerIds[0], // Temporary placeholder - will be set after scoring
-        scorePlayerOne: 'pending',
-        scorePlayerTwo: 'pending',
-        formatType,
-        scoringSystem: config.scoringType || 'traditional',
-        pointsToWin: config.pointTarget || 11,
-        matchType: 'casual',
-        certificationStatus: 'pending', // Primary verification field
-        // DEPRECATED: Keeping validationStatus for backward compatibility
-        validationStatus: 'pending',
+      // (scores and winner stay placeholders until scoring)
+      const ingestion = await ingestMatch({
+        team1: [playerIds[0], playerIds[2]].filter(Boolean).map(id => ({ userId: id })),
+        team2: [playerIds[1], playerIds[3]].filter(Boolean).map(id => ({ userId: id })),
         matchDate: new Date(),
-        notes: JSON.stringify({ mode, config }) // Store config for later use
-      }).returning();
+        sourceReference: `serial:${serial}`,
+        values: {
+          serial,
+          formatType,
+          scoringSystem: config.scoringType || 'traditional',
+          pointsToWin: config.pointTarget || 11,
+          matchType: 'casual',
+          certificationStatus: 'pending', // Primary verification field
+          // DEPRECATED: Keeping validationStatus for backward compatibility
+          validationStatus: 'pending',
+          notes: JSON.stringify({ mode, config }) // Store config for later use
+        }
+      }, { source: 'match-create' });
+
+      if (ingestion.status === 'rejected') {
+        return res.status(400).json({ error: ingestion.message, reason: ingestion.reason });
+      }
+
+      const { match } = ingestion;
       
       // Create verification records for all players
       const verificationPromises = playerIds.map(playerId => 
@@ -672,29 +718,11 @@ export function registerMatchRoutes(app: express.Express): void {
         return res.status(400).json({ error: 'Missing required match data' });
       }
 
-      // Calculate overall winner based on games won
-      let playerOneGamesWon = 0;
-      let playerTwoGamesWon = 0;
-      
-      games.forEach((game: any) => {
-        if (game.playerOneScore > game.playerTwoScore) {
-          playerOneGamesWon++;
-        } else {
-          playerTwoGamesWon++;
-        }
-      });
-      
-      const winnerId = playerOneGamesWon > playerTwoGamesWon ? (playerOneId || (req.user as any)?.id) : playerTwoId;
-      
-      // Store the actual game scores from the last/final game for display
-      const finalGame = games[games.length - 1]; // Get the last game played
-      const playerOneScore = finalGame.playerOneScore;
-      const playerTwoScore = finalGame.playerTwoScore;
-      
-      // Format individual game results for storage
-      const detailedScores = games.map((game: any) => 
-        `${game.playerOneScore}-${game.playerTwoScore}`
-      ).join(', ');
+      // Overall winner by games won; the final game's score is the match score
+      const gameScores = games.map((game: any) => ({ team1: Number(game.playerOneScore), team2: Number(game.playerTwoScore) }));
+      const result = resultFromGames(gameScores);
+      const winnerId = result.winner === 1 ? (playerOneId || (req.user as any)?.id) : playerTwoId;
+      const detailedScores = result.gameScores;
       
       // For now, just set tournament ID to null if it would cause FK constraint error
       // This ensures match creation doesn't fail due to invalid tournament references
@@ -715,52 +743,50 @@ export function registerMatchRoutes(app: express.Express): void {
       // ALGORITHM COMPLIANCE: Points calculated only after verification or for admin matches
       // Regular matches must go through verification workflow before points are awarded
       
-      // CRITICAL DUPLICATE DETECTION: Check for duplicate matches
       const matchDate = scheduledDate ? new Date(scheduledDate) : new Date();
       const playerOneIdResolved = playerOneId || user?.id;
       
-      // Build a unique match signature to detect duplicates
-      const playerIds = [playerOneIdResolved, playerTwoId, playerOnePartnerId, playerTwoPartnerId]
-        .filter(id => id)
-        .sort(); // Sort to ensure consistent ordering
-      
-      // Check for existing matches with the same players within the last 5 minutes
-      const fiveMinutesAgo = new Date(matchDate.getTime() - 5 * 60 * 1000);
-      try {
-        const existingMatches = await storage.getRecentMatches(playerIds, fiveMinutesAgo);
-        
-        if (existingMatches.length > 0) {
-          console.log('[DUPLICATE DETECTION] Preventing duplicate match creation');
-          console.log('[DUPLICATE DETECTION] Found existing match:', existingMatches[0]);
-          return res.status(409).json({ 
-            error: 'Duplicate match detected. A match with the same players was already recorded within the last 5 minutes.' 
-          });
+      // CRITICAL DUPLICATE DETECTION: the ingestion service keys the match by
+      // players, game scores and a 5-minute window, so the same result can only
+      // be recorded once while a rematch later the same day is a new match
+      const ingestion = await ingestMatch({
+        team1: [playerOneIdResolved, playerOnePartnerId].filter(Boolean).map((id: number) => ({ userId: id })),
+        team2: [playerTwoId, playerTwoPartnerId].filter(Boolean).map((id: number) => ({ userId: id })),
+        team1Score: result.team1Score,
+        team2Score: result.team2Score,
+        games: gameScores,
+        winner: result.winner,
+        matchDate,
+        values: {
+          matchType: matchType || 'casual',
+          formatType: formatType || 'singles',
+          // Points calculated after verification; admin matches are auto-certified
+          ...PENDING_CERTIFICATION_VALUES,
+          ...(isAdmin && {
+            certificationStatus: 'certified',
+            isVerified: true,
+            // DEPRECATED: Keeping validationStatus for backward compatibility (use 'verified' not 'validated')
+            validationStatus: 'verified',
+            validationCompletedAt: new Date()
+          }),
+          notes: `${notes || ''} [Game Scores: ${detailedScores}]`.trim(),
+          tournamentId: validTournamentId
         }
-      } catch (error) {
-        console.log('[DUPLICATE DETECTION] Warning: Could not check for duplicates, proceeding with match creation');
+      }, { source: 'match-recording' });
+
+      if (ingestion.status === 'duplicate') {
+        console.log('[DUPLICATE DETECTION] Preventing duplicate match creation, existing match:', ingestion.duplicateOfMatchId);
+        return res.status(409).json({
+          error: 'Duplicate match detected. This result was already recorded.',
+          duplicateOfMatchId: ingestion.duplicateOfMatchId
+        });
       }
 
-      const newMatch = await storage.createMatch({
-        playerOneId: playerOneIdResolved,
-        playerTwoId,
-        playerOnePartnerId: playerOnePartnerId || null,
-        playerTwoPartnerId: playerTwoPartnerId || null,
-        scorePlayerOne: `${playerOneScore}`, // Games won by Team 1 (Player One + Partner)
-        scorePlayerTwo: `${playerTwoScore}`, // Games won by Team 2 (Player Two + Partner)
-        winnerId,
-        matchType: matchType || 'casual',
-        formatType: formatType || 'singles',
-        certificationStatus: isAdmin ? 'certified' : 'pending', // Admin matches auto-certified
-        isVerified: isAdmin,
-        // DEPRECATED: Keeping validationStatus for backward compatibility (use 'verified' not 'validated')
-        validationStatus: isAdmin ? 'verified' : 'pending',
-        validationCompletedAt: isAdmin ? new Date() : null,
-        notes: `${notes || ''} [Game Scores: ${detailedScores}]`.trim(),
-        tournamentId: validTournamentId,
-        matchDate: matchDate,
-        pointsAwarded: 0, // Points calculated after verification
-        xpAwarded: 0
-      });
+      if (ingestion.status === 'rejected') {
+        return res.status(400).json({ error: ingestion.message, reason: ingestion.reason });
+      }
+
+      const newMatch = ingestion.match;
 
       // ALGORITHM COMPLIANCE: Only award points for admin-verified matches
       // Regular matches must complete verification workflow first
@@ -905,7 +931,12 @@ export function registerMatchRoutes(app: express.Express): void {
           // Update pickle points (1.5x multiplier per match)
           const basePoints = isPartnerWinner ? 3 : 1;
           const picklePointsToAdd = Math.round(basePoints * 1.5);
-          await storage.updateUserPicklePoints(playerId, picklePointsToAdd);
+          await storage.updateUserPicklePoints(playerId, picklePointsToAdd, {
+            sourceType: 'match',
+            sourceId: newMatch.id,
+            multipliers: { pickle: 1.5 },
+            calculationDetails: `${isPartnerWinner ? 'WIN' : 'LOSS'}: ${basePoints} base × 1.5 = ${picklePointsToAdd} pickle`
+          });
           
           // Update match statistics
           await storage.updateUserMatchStatistics(playerId, isPartnerWinner);
@@ -914,6 +945,9 @@ export function registerMatchRoutes(app: express.Express): void {
         }
         
           console.log('[MULTI-AGE COMPLIANCE] Successfully processed all player rewards with multi-age group algorithm');
+          
+          // Skill ratings and prediction results follow the points award
+          await StandardizedRankingService.updateSkillRatingsAndPredictions(newMatch.id);
         }
       } catch (error) {
         if (isAdmin) {
@@ -1000,25 +1034,32 @@ export function registerMatchRoutes(app: express.Express): void {
         : null;
 
       // Create match in database with recording mode
-      const [match] = await db.insert(matches).values({
-        serial,
-        recordingMode: mode,
-        certificationExpiresAt,
-        certificationStatus: mode === 'quick' ? 'pending' : 'certified',
-        playerOneId: players?.player1?.id || userId,
-        playerTwoId: players?.player2?.id || userId,
-        playerOnePartnerId: players?.player1Partner?.id || null,
-        playerTwoPartnerId: players?.player2Partner?.id || null,
-        winnerId: userId, // Temporary, will be updated when match completes
-        scorePlayerOne: '0',
-        scorePlayerTwo: '0',
+      const ingestion = await ingestMatch({
+        team1: [players?.player1?.id || userId, players?.player1Partner?.id].filter(Boolean).map((id: number) => ({ userId: id })),
+        team2: [players?.player2?.id || userId, players?.player2Partner?.id].filter(Boolean).map((id: number) => ({ userId: id })),
         matchDate: new Date(),
-        formatType: config?.matchFormat === 'single' ? 'singles' : 'doubles',
-        scoringSystem: config?.scoringType || 'traditional',
-        pointsToWin: config?.pointTarget || 11,
-        // DEPRECATED: validationStatus replaced by certificationStatus
-        validationStatus: 'pending' // Kept for backward compatibility only
-      }).returning();
+        sourceReference: `serial:${serial}`,
+        values: {
+          serial,
+          recordingMode: mode,
+          certificationExpiresAt,
+          certificationStatus: mode === 'quick' ? 'pending' : 'certified',
+          winnerId: userId, // Temporary, will be updated when match completes
+          scorePlayerOne: '0',
+          scorePlayerTwo: '0',
+          formatType: config?.matchFormat === 'single' ? 'singles' : 'doubles',
+          scoringSystem: config?.scoringType || 'traditional',
+          pointsToWin: config?.pointTarget || 11,
+          // DEPRECATED: validationStatus replaced by certificationStatus
+          validationStatus: 'pending' // Kept for backward compatibility only
+        }
+      }, { source: 'match-arena' });
+
+      if (ingestion.status === 'rejected') {
+        return res.status(400).json({ error: ingestion.message, reason: ingestion.reason });
+      }
+
+      const { match } = ingestion;
 
       res.json({
         success: true,
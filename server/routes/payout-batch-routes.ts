@@ -0,0 +1,180 @@
+/**
+ * Payout Batch Routes
+ * Running, submitting and reconciling coach payout batches (admin), and
+ * coach payout statements as JSON, CSV or PDF
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import {
+  getPayoutBatch,
+  getPayoutStatement,
+  listCoachPayouts,
+  listPayoutBatches,
+  reconcilePayoutBatch,
+  runPayoutBatch,
+  submitPayoutBatch
+} from '../services/payout-batch-service';
+import { renderStatementCsv, statementTextLines } from '../../shared/utils/payoutCalculator';
+import { renderTextPdf } from '../utils/simple-pdf';
+
+const router = Router();
+
+const runBatchSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  coachIds: z.array(z.number().int().positive()).optional()
+});
+
+const idParamSchema = z.coerce.number().int().positive();
+
+function payoutUser(req: any) {
+  return { id: req.user.id as number, isAdmin: Boolean(req.user.isAdmin) };
+}
+
+/**
+ * Map known payout errors to 4xx responses
+ */
+function handlePayoutError(res: any, error: unknown, context: string) {
+  console.error(`[PayoutBatch] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error instanceof Error && error.message.startsWith('Not allowed')) {
+    return res.status(403).json({ error: error.message });
+  }
+
+  if (error instanceof Error && /already exists|must end after/.test(error.message)) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  if (error instanceof Error && error.message.startsWith('Wise payouts are not configured')) {
+    return res.status(503).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/payout-batches/statements/mine
+ * The signed-in coach's payouts, newest first
+ */
+router.get('/statements/mine', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await listCoachPayouts(payoutUser(req).id));
+  } catch (error) {
+    handlePayoutError(res, error, 'loading payouts');
+  }
+});
+
+/**
+ * GET /api/payout-batches/statements/:payoutId.csv
+ * A payout statement as CSV
+ */
+router.get('/statements/:payoutId.csv', isAuthenticated, async (req, res) => {
+  try {
+    const statement = await getPayoutStatement(idParamSchema.parse(req.params.payoutId), payoutUser(req));
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="${statement.statementNumber}.csv"`);
+    res.send(renderStatementCsv(statement));
+  } catch (error) {
+    handlePayoutError(res, error, 'building the payout statement');
+  }
+});
+
+/**
+ * GET /api/payout-batches/statements/:payoutId.pdf
+ * A payout statement as PDF
+ */
+router.get('/statements/:payoutId.pdf', isAuthenticated, async (req, res) => {
+  try {
+    const statement = await getPayoutStatement(idParamSchema.parse(req.params.payoutId), payoutUser(req));
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `attachment; filename="${statement.statementNumber}.pdf"`);
+    res.send(renderTextPdf('Pickle+ Coach Payout Statement', statementTextLines(statement)));
+  } catch (error) {
+    handlePayoutError(res, error, 'building the payout statement');
+  }
+});
+
+/**
+ * GET /api/payout-batches/statements/:payoutId
+ * A payout statement with its sessions and adjustments
+ */
+router.get('/statements/:payoutId', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getPayoutStatement(idParamSchema.parse(req.params.payoutId), payoutUser(req)));
+  } catch (error) {
+    handlePayoutError(res, error, 'loading the payout statement');
+  }
+});
+
+/**
+ * GET /api/payout-batches
+ * Recent payout batches (admin)
+ */
+router.get('/', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await listPayoutBatches());
+  } catch (error) {
+    handlePayoutError(res, error, 'loading payout batches');
+  }
+});
+
+/**
+ * POST /api/payout-batches
+ * Run the payouts for a period (admin)
+ */
+router.post('/', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const input = runBatchSchema.parse(req.body);
+    res.status(201).json(await runPayoutBatch({ ...input, processedBy: payoutUser(req).id }));
+  } catch (error) {
+    handlePayoutError(res, error, 'running the payout batch');
+  }
+});
+
+/**
+ * GET /api/payout-batches/:id
+ * A batch with its coach payouts (admin)
+ */
+router.get('/:id', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await getPayoutBatch(idParamSchema.parse(req.params.id)));
+  } catch (error) {
+    handlePayoutError(res, error, 'loading the payout batch');
+  }
+});
+
+/**
+ * POST /api/payout-batches/:id/submit
+ * Send the batch's pending payouts as Wise transfers (admin)
+ */
+router.post('/:id/submit', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await submitPayoutBatch(idParamSchema.parse(req.params.id), payoutUser(req).id));
+  } catch (error) {
+    handlePayoutError(res, error, 'submitting the payout batch');
+  }
+});
+
+/**
+ * POST /api/payout-batches/:id/reconcile
+ * Settle or release payouts from their Wise transfer outcomes (admin)
+ */
+router.post('/:id/reconcile', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await reconcilePayoutBatch(idParamSchema.parse(req.params.id)));
+  } catch (error) {
+    handlePayoutError(res, error, 'reconciling the payout batch');
+  }
+});
+
+export default router;
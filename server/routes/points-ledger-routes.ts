@@ -0,0 +1,155 @@
+/**
+ * Points Ledger Routes
+ * Ranking and Pickle Points history with provenance, balances at a date and
+ * admin adjustments
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { isAdmin, isAuthenticated } from '../auth';
+import { db } from '../db';
+import { users, POINTS_LEDGER_CURRENCIES } from '../../shared/schema';
+import {
+  getPointsLedgerHistory,
+  getPointsBalanceAt,
+  applyPointsAdjustment
+} from '../services/points-ledger-service';
+
+const router = Router();
+
+const historyQuerySchema = z.object({
+  currency: z.enum(POINTS_LEDGER_CURRENCIES).default('ranking'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional()
+});
+
+const balanceQuerySchema = z.object({
+  currency: z.enum(POINTS_LEDGER_CURRENCIES).default('ranking'),
+  at: z.coerce.date().optional()
+});
+
+const adjustmentBodySchema = z.object({
+  currency: z.enum(POINTS_LEDGER_CURRENCIES),
+  entryType: z.enum(['admin_adjustment', 'redemption']).default('admin_adjustment'),
+  amount: z.number().refine(amount => amount !== 0, 'Amount must not be zero'),
+  reason: z.string().min(1).max(500)
+});
+
+/**
+ * Map known ledger errors to 4xx responses
+ */
+function handleLedgerError(res: any, error: unknown, context: string) {
+  console.error(`[PointsLedger] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message.includes('Insufficient') ||
+        error.message.includes('must be') ||
+        error.message.includes('Only ')) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * Balance from the ledger, plus the stored total when asking about now
+ */
+async function getBalance(userId: number, query: unknown) {
+  const { currency, at } = balanceQuerySchema.parse(query);
+  const balance = await getPointsBalanceAt(userId, currency, at);
+
+  if (at) {
+    return { userId, currency, at, balance };
+  }
+
+  const [user] = await db.select({ rankingPoints: users.rankingPoints, picklePoints: users.picklePoints })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const storedBalance = currency === 'ranking' ? user?.rankingPoints : user?.picklePoints;
+
+  return { userId, currency, at: new Date(), balance, storedBalance: storedBalance ?? 0 };
+}
+
+/**
+ * GET /api/points-ledger/me
+ * The current player's ledger with running balances
+ */
+router.get('/me', isAuthenticated, async (req, res) => {
+  try {
+    const { currency, ...options } = historyQuerySchema.parse(req.query);
+    res.json(await getPointsLedgerHistory((req.user as any).id, currency, options));
+  } catch (error) {
+    handleLedgerError(res, error, 'loading points history');
+  }
+});
+
+/**
+ * GET /api/points-ledger/me/balance
+ * The current player's balance at a date (default: now)
+ */
+router.get('/me/balance', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getBalance((req.user as any).id, req.query));
+  } catch (error) {
+    handleLedgerError(res, error, 'loading points balance');
+  }
+});
+
+/**
+ * GET /api/points-ledger/users/:userId
+ * Any player's ledger (admin)
+ */
+router.get('/users/:userId', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const { currency, ...options } = historyQuerySchema.parse(req.query);
+    res.json(await getPointsLedgerHistory(parseInt(req.params.userId), currency, options));
+  } catch (error) {
+    handleLedgerError(res, error, 'loading points history');
+  }
+});
+
+/**
+ * GET /api/points-ledger/users/:userId/balance
+ * Any player's balance at a date (admin)
+ */
+router.get('/users/:userId/balance', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await getBalance(parseInt(req.params.userId), req.query));
+  } catch (error) {
+    handleLedgerError(res, error, 'loading points balance');
+  }
+});
+
+/**
+ * POST /api/points-ledger/users/:userId/adjustments
+ * Credit or debit a player's points with a reason (admin)
+ */
+router.post('/users/:userId/adjustments', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const data = adjustmentBodySchema.parse(req.body);
+    const entry = await applyPointsAdjustment({
+      ...data,
+      userId: parseInt(req.params.userId),
+      createdById: (req.user as any)?.id
+    });
+
+    res.status(201).json(entry);
+  } catch (error) {
+    handleLedgerError(res, error, 'adjusting points');
+  }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+/**
+ * Points Rules Admin Routes
+ * Draft, simulate and activate versioned ranking points rulesets
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  listPointsRulesets,
+  getActivePointsRuleset,
+  createPointsRulesetDraft,
+  updatePointsRulesetDraft,
+  activatePointsRuleset,
+  simulatePointsRuleset
+} from '../services/points-ruleset-service';
+import { pointsRuleDefinitionSchema, DEFAULT_POINTS_RULES } from '../../shared/utils/pointsRuleEngine';
+
+const router = Router();
+
+const rulesetBodySchema = z.object({
+  name: z.string().min(1).max(100),
+  rules: pointsRuleDefinitionSchema,
+  notes: z.string().nullable().optional()
+});
+
+/**
+ * Map known ruleset errors to 4xx responses
+ */
+function handleRulesetError(res: any, error: unknown, context: string) {
+  console.error(`[PointsRules] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid ruleset data', details: error.errors });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message.includes('can no longer be changed') ||
+        error.message.includes('already') ||
+        error.message.includes('must take effect after')) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/admin/points-rules
+ * All rulesets plus the one currently in force
+ */
+router.get('/', async (req, res) => {
+  try {
+    const [rulesets, active] = await Promise.all([listPointsRulesets(), getActivePointsRuleset()]);
+
+    res.json({ active, rulesets, defaults: DEFAULT_POINTS_RULES });
+  } catch (error) {
+    handleRulesetError(res, error, 'listing points rulesets');
+  }
+});
+
+/**
+ * POST /api/admin/points-rules
+ * Create a draft ruleset
+ */
+router.post('/', async (req, res) => {
+  try {
+    const data = rulesetBodySchema.parse(req.body);
+    const ruleset = await createPointsRulesetDraft(data, (req.user as any)?.id);
+
+    res.status(201).json(ruleset);
+  } catch (error) {
+    handleRulesetError(res, error, 'creating points ruleset');
+  }
+});
+
+/**
+ * PUT /api/admin/points-rules/:id
+ * Update a draft ruleset
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const data = rulesetBodySchema.partial().parse(req.body);
+    const ruleset = await updatePointsRulesetDraft(parseInt(req.params.id), data);
+
+    res.json(ruleset);
+  } catch (error) {
+    handleRulesetError(res, error, 'updating points ruleset');
+  }
+});
+
+/**
+ * POST /api/admin/points-rules/:id/simulate
+ * Replay historical matches under the ruleset and show per-player deltas
+ */
+router.post('/:id/simulate', async (req, res) => {
+  try {
+    const options = z.object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      matchIds: z.array(z.number().int()).optional(),
+      limit: z.number().int().min(1).max(10000).optional()
+    }).parse(req.body || {});
+
+    const simulation = await simulatePointsRuleset(parseInt(req.params.id), options);
+
+    res.json(simulation);
+  } catch (error) {
+    handleRulesetError(res, error, 'simulating points ruleset');
+  }
+});
+
+/**
+ * POST /api/admin/points-rules/:id/activate
+ * Activate a draft ruleset from the given date (default: now)
+ */
+router.post('/:id/activate', async (req, res) => {
+  try {
+    const { effectiveFrom } = z.object({
+      effectiveFrom: z.coerce.date().optional()
+    }).parse(req.body || {});
+
+    const ruleset = await activatePointsRuleset(parseInt(req.params.id), effectiveFrom, (req.user as any)?.id);
+
+    res.json(ruleset);
+  } catch (error) {
+    handleRulesetError(res, error, 'activating points ruleset');
+  }
+});
+
+export default router;
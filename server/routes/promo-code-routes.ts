@@ -0,0 +1,199 @@
+/**
+ * Promo Code Routes
+ * Checking a promo code against a booking, class or tournament entry, and
+ * running campaigns, their codes and redemption analytics (admin)
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import {
+  createPromoCampaign,
+  getPromoCampaignAnalytics,
+  issuePromoCodes,
+  listPromoCampaigns,
+  listPromoCodes,
+  quotePromoCode,
+  setPromoCodeActive,
+  updatePromoCampaign
+} from '../services/promo-code-service';
+import { PROMO_TARGET_TYPES } from '../../shared/utils/promoCodes';
+
+const router = Router();
+
+const idParamSchema = z.coerce.number().int().positive();
+
+const targetTypeSchema = z.enum(PROMO_TARGET_TYPES);
+
+const quoteSchema = z.object({
+  code: z.string().trim().min(1).max(40),
+  targetType: targetTypeSchema,
+  targetId: z.number().int().positive(),
+  paymentMethod: z.enum(['credits', 'gift_card', 'external']).default('external')
+});
+
+const campaignSchema = z.object({
+  name: z.string().min(1).max(120),
+  description: z.string().max(2000).optional(),
+  sponsorId: z.number().int().positive().nullable().optional(),
+  status: z.enum(['active', 'paused', 'ended']).default('active'),
+  discountType: z.enum(['percentage', 'fixed', 'free_session']),
+  discountValue: z.number().int().min(0).default(0),
+  maxDiscountCents: z.number().int().positive().nullable().optional(),
+  appliesTo: z.union([z.literal('any'), targetTypeSchema]).default('any'),
+  firstBookingOnly: z.boolean().default(false),
+  coachIds: z.array(z.number().int().positive()).nullable().optional(),
+  tournamentIds: z.array(z.number().int().positive()).nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  minAmountCents: z.number().int().min(0).default(0),
+  stacksWithCredits: z.boolean().default(true),
+  stacksWithGiftCards: z.boolean().default(false)
+});
+
+const issueSchema = z.object({
+  code: z.string().trim().min(3).max(40).regex(/^[A-Za-z0-9-]+$/, 'Codes use letters, digits and dashes').optional(),
+  count: z.number().int().positive().max(1000).optional(),
+  prefix: z.string().max(12).regex(/^[A-Za-z0-9]*$/).optional(),
+  usage: z.enum(['single_use', 'multi_use']),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().optional()
+});
+
+const campaignListQuerySchema = z.object({
+  sponsorId: z.coerce.number().int().positive().optional()
+});
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handlePromoError(res: any, error: unknown, context: string) {
+  console.error(`[Promo] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (message.startsWith('Invalid promo campaign')) {
+    return res.status(400).json({ error: message });
+  }
+  if (/already exists/.test(message)) {
+    return res.status(409).json({ error: message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * POST /api/promo-codes/quote
+ * What a code takes off a booking, class or tournament entry, and why not
+ * when it does not apply
+ */
+router.post('/quote', isAuthenticated, async (req, res) => {
+  try {
+    const { code, ...target } = quoteSchema.parse(req.body);
+    res.json(await quotePromoCode((req.user as any).id, code, target));
+  } catch (error) {
+    handlePromoError(res, error, 'checking the promo code');
+  }
+});
+
+/**
+ * GET /api/promo-codes/campaigns
+ * Campaigns, optionally for one sponsor
+ */
+router.get('/campaigns', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const { sponsorId } = campaignListQuerySchema.parse(req.query);
+    res.json(await listPromoCampaigns({ sponsorId }));
+  } catch (error) {
+    handlePromoError(res, error, 'loading promo campaigns');
+  }
+});
+
+/**
+ * POST /api/promo-codes/campaigns
+ * Create a campaign
+ */
+router.post('/campaigns', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const input = campaignSchema.parse(req.body);
+    res.status(201).json(await createPromoCampaign(input, (req.user as any).id));
+  } catch (error) {
+    handlePromoError(res, error, 'creating the promo campaign');
+  }
+});
+
+/**
+ * PATCH /api/promo-codes/campaigns/:id
+ * Change, pause or end a campaign
+ */
+router.patch('/campaigns/:id', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const id = idParamSchema.parse(req.params.id);
+    const changes = campaignSchema.partial().parse(req.body);
+    res.json(await updatePromoCampaign(id, changes));
+  } catch (error) {
+    handlePromoError(res, error, 'updating the promo campaign');
+  }
+});
+
+/**
+ * GET /api/promo-codes/campaigns/:id/codes
+ * Codes of a campaign with their usage
+ */
+router.get('/campaigns/:id/codes', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const id = idParamSchema.parse(req.params.id);
+    res.json(await listPromoCodes(id));
+  } catch (error) {
+    handlePromoError(res, error, 'loading promo codes');
+  }
+});
+
+/**
+ * POST /api/promo-codes/campaigns/:id/codes
+ * Issue a chosen code or a batch of generated ones
+ */
+router.post('/campaigns/:id/codes', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const id = idParamSchema.parse(req.params.id);
+    const issue = issueSchema.parse(req.body);
+    res.status(201).json(await issuePromoCodes(id, issue));
+  } catch (error) {
+    handlePromoError(res, error, 'issuing promo codes');
+  }
+});
+
+/**
+ * PATCH /api/promo-codes/codes/:id
+ * Switch a code on or off
+ */
+router.patch('/codes/:id', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const id = idParamSchema.parse(req.params.id);
+    const { active } = z.object({ active: z.boolean() }).parse(req.body);
+    res.json(await setPromoCodeActive(id, active));
+  } catch (error) {
+    handlePromoError(res, error, 'updating the promo code');
+  }
+});
+
+/**
+ * GET /api/promo-codes/campaigns/:id/analytics
+ * Redemptions, discount given and revenue by target and by day
+ */
+router.get('/campaigns/:id/analytics', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const id = idParamSchema.parse(req.params.id);
+    res.json(await getPromoCampaignAnalytics(id));
+  } catch (error) {
+    handlePromoError(res, error, 'loading promo analytics');
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+/**
+ * Ranking Replay Admin Routes
+ * Rebuild ranking points from match history, review the diff and apply corrections
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  runRankingReplay,
+  listRankingReplayRuns,
+  getRankingReplayRun,
+  REPLAY_FIELDS
+} from '../services/ranking-replay-service';
+
+const router = Router();
+
+const replayBodySchema = z.object({
+  fields: z.array(z.enum(REPLAY_FIELDS)).optional(),
+  userIds: z.array(z.number().int()).optional()
+});
+
+/**
+ * Map known replay errors to 4xx responses
+ */
+function handleReplayError(res: any, error: unknown, context: string) {
+  console.error(`[RankingReplay] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid replay options', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/admin/ranking-replay
+ * Recent replay runs
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listRankingReplayRuns());
+  } catch (error) {
+    handleReplayError(res, error, 'listing ranking replay runs');
+  }
+});
+
+/**
+ * GET /api/admin/ranking-replay/:id
+ * A replay run with its per-user diff report
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await getRankingReplayRun(parseInt(req.params.id)));
+  } catch (error) {
+    handleReplayError(res, error, 'loading ranking replay run');
+  }
+});
+
+/**
+ * POST /api/admin/ranking-replay/preview
+ * Replay the match history and report differences without changing any totals
+ */
+router.post('/preview', async (req, res) => {
+  try {
+    const options = replayBodySchema.parse(req.body || {});
+    const run = await runRankingReplay({ ...options, initiatedById: (req.user as any)?.id });
+
+    res.json(run);
+  } catch (error) {
+    handleReplayError(res, error, 'previewing ranking replay');
+  }
+});
+
+/**
+ * POST /api/admin/ranking-replay/apply
+ * Replay the match history and apply the differences as adjustment transactions
+ */
+router.post('/apply', async (req, res) => {
+  try {
+    const options = replayBodySchema.parse(req.body || {});
+    const run = await runRankingReplay({ ...options, apply: true, initiatedById: (req.user as any)?.id });
+
+    res.json(run);
+  } catch (error) {
+    handleReplayError(res, error, 'applying ranking replay');
+  }
+});
+
+export default router;
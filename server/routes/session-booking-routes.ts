@@ -6,7 +6,10 @@
 import express from "express";
 import { isAuthenticated } from "../auth";
 import { storage } from "../storage";
+import { db } from "../db";
 import { z } from "zod";
+import { paymentStatusAfterCancellation, settleCoachingSessionCancellation } from "../services/cancellation-policy-service";
+import { publishDomainEvent } from "../core/events/domain-events";
 
 const router = express.Router();
 
@@ -42,11 +45,23 @@ router.post('/request', isAuthenticated, async (req, res) => {
       return res.status(404).json({ message: 'Coach not found' });
     }
 
-    const sessionRequest = await storage.createSessionRequest({
-      ...validatedData,
-      studentId,
-      status: 'pending',
-      requestedAt: new Date()
+    const sessionRequest = await db.transaction(async (tx) => {
+      const created = await storage.createSessionRequest({
+        ...validatedData,
+        studentId,
+        status: 'pending',
+        requestedAt: new Date()
+      });
+
+      await publishDomainEvent(tx, 'coaching_session.requested', {
+        request_id: created.id,
+        coach_id: validatedData.coachId,
+        student_user_id: studentId,
+        session_type: validatedData.sessionType,
+        requested_at: new Date().toISOString()
+      });
+
+      return created;
     });
 
     // Send notification to coach (placeholder for notification system)
@@ -79,18 +94,32 @@ router.patch('/request/:requestId/respond', isAuthenticated, async (req, res) =>
 
     // If accepted, create coaching session
     if (validatedData.status === 'accepted') {
-      const session = await storage.createCoachingSession({
-        coachId: request.coachId,
-        studentId: request.studentId,
-        sessionType: request.sessionType,
-        sessionStatus: 'scheduled',
-        scheduledAt: new Date(request.preferredDate + 'T' + request.preferredTime),
-        durationMinutes: request.durationMinutes,
-        locationType: request.locationType,
-        locationDetails: request.locationDetails,
-        priceAmount: validatedData.proposedPrice || 95, // Default $95
-        currency: 'USD',
-        paymentStatus: 'pending'
+      const session = await db.transaction(async (tx) => {
+        const created = await storage.createCoachingSession({
+          coachId: request.coachId,
+          studentId: request.studentId,
+          sessionType: request.sessionType,
+          sessionStatus: 'scheduled',
+          scheduledAt: new Date(request.preferredDate + 'T' + request.preferredTime),
+          durationMinutes: request.durationMinutes,
+          locationType: request.locationType,
+          locationDetails: request.locationDetails,
+          priceAmount: validatedData.proposedPrice || 95, // Default $95
+          currency: 'USD',
+          paymentStatus: 'pending'
+        }, tx);
+
+        await publishDomainEvent(tx, 'coaching_session.scheduled', {
+          session_id: created.id,
+          request_id: requestId,
+          coach_id: created.coachId,
+          student_user_id: created.studentId,
+          session_type: created.sessionType,
+          scheduled_at: new Date(created.scheduledAt).toISOString(),
+          duration_minutes: created.durationMinutes
+        });
+
+        return created;
       });
 
       console.log(`[Session Booking] Session ${session.id} created for coach ${coachId} and student ${request.studentId}`);
@@ -145,7 +174,7 @@ router.get('/upcoming', isAuthenticated, async (req, res) => {
   }
 });
 
-// Cancel session
+// Cancel session; refunds and late-cancel fees follow the coach's cancellation policy
 router.patch('/session/:sessionId/cancel', isAuthenticated, async (req, res) => {
   try {
     const sessionId = parseInt(req.params.sessionId);
@@ -156,20 +185,64 @@ router.patch('/session/:sessionId/cancel', isAuthenticated, async (req, res) =>
     if (!session || (session.coachId !== userId && session.studentId !== userId)) {
       return res.status(403).json({ message: 'Unauthorized' });
     }
+    if (session.sessionStatus === 'cancelled' || session.sessionStatus === 'no_show') {
+      return res.status(409).json({ message: 'Session is already cancelled' });
+    }
+
+    const { cancellation } = await settleCoachingSessionCancellation(session, {
+      userId,
+      role: session.coachId === userId ? 'coach' : 'student'
+    }, { reason });
 
     const updatedSession = await storage.updateCoachingSession(sessionId, {
       sessionStatus: 'cancelled',
-      sessionNotes: reason || 'Cancelled by user'
+      sessionNotes: reason || 'Cancelled by user',
+      paymentStatus: paymentStatusAfterCancellation(cancellation, session.paymentStatus)
     });
 
-    console.log(`[Session Booking] Session ${sessionId} cancelled by user ${userId}`);
-    res.json(updatedSession);
+    console.log(`[Session Booking] Session ${sessionId} cancelled by user ${userId} (${cancellation.tier})`);
+    res.json({ ...updatedSession, cancellation });
   } catch (error) {
     console.error('Error cancelling session:', error);
     res.status(400).json({ message: 'Failed to cancel session' });
   }
 });
 
+// Coach records that the student did not attend; the no-show fee applies
+router.patch('/session/:sessionId/no-show', isAuthenticated, async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.sessionId);
+    const userId = (req.user as any).id;
+
+    const session = await storage.getCoachingSession(sessionId);
+    if (!session || session.coachId !== userId) {
+      return res.status(403).json({ message: 'Only coaches can record no-shows' });
+    }
+    if (new Date(session.scheduledAt) > new Date()) {
+      return res.status(400).json({ message: 'A no-show can only be recorded after the session starts' });
+    }
+    if (session.sessionStatus === 'cancelled' || session.sessionStatus === 'no_show') {
+      return res.status(409).json({ message: 'Session is already closed' });
+    }
+
+    const { cancellation } = await settleCoachingSessionCancellation(session, { userId, role: 'coach' }, {
+      reason: req.body?.reason,
+      noShow: true
+    });
+
+    const updatedSession = await storage.updateCoachingSession(sessionId, {
+      sessionStatus: 'no_show',
+      paymentStatus: paymentStatusAfterCancellation(cancellation, session.paymentStatus)
+    });
+
+    console.log(`[Session Booking] Session ${sessionId} marked no-show by coach ${userId}`);
+    res.json({ ...updatedSession, cancellation });
+  } catch (error) {
+    console.error('Error recording no-show:', error);
+    res.status(400).json({ message: 'Failed to record no-show' });
+  }
+});
+
 // Complete session and add feedback
 router.patch('/session/:sessionId/complete', isAuthenticated, async (req, res) => {
   try {
@@ -182,16 +255,27 @@ router.patch('/session/:sessionId/complete', isAuthenticated, async (req, res) =
       return res.status(403).json({ message: 'Only coaches can complete sessions' });
     }
 
-    const updatedSession = await storage.updateCoachingSession(sessionId, {
-      sessionStatus: 'completed',
-      sessionNotes,
-      feedbackForStudent,
-      completedAt: new Date()
-    });
+    const updatedSession = await db.transaction(async (tx) => {
+      const updated = await storage.updateCoachingSession(sessionId, {
+        sessionStatus: 'completed',
+        sessionNotes,
+        feedbackForStudent,
+        completedAt: new Date()
+      }, tx);
+
+      // Update payment status to completed (trigger payout)
+      await storage.updateCoachingSession(sessionId, {
+        paymentStatus: 'completed'
+      }, tx);
+
+      await publishDomainEvent(tx, 'coaching_session.completed', {
+        session_id: sessionId,
+        coach_id: session.coachId,
+        student_user_id: session.studentId,
+        completed_at: new Date().toISOString()
+      });
 
-    // Update payment status to completed (trigger payout)
-    await storage.updateCoachingSession(sessionId, {
-      paymentStatus: 'completed'
+      return updated;
     });
 
     console.log(`[Session Booking] Session ${sessionId} completed by coach ${userId}`);
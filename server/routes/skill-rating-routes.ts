@@ -0,0 +1,122 @@
+/**
+ * Skill Rating Routes
+ * Glicko-2 performance ratings with uncertainty, rating history, matchmaking
+ * suggestions and an admin backfill from match history
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { isAdmin, isAuthenticated } from '../auth';
+import { SKILL_RATING_FORMATS } from '../../shared/schema';
+import {
+  getPlayerSkillRatings,
+  getSkillRatingHistory,
+  getSkillRatingLeaderboard,
+  findMatchmakingOpponents,
+  backfillSkillRatings
+} from '../services/skill-rating-service';
+
+const router = Router();
+
+const formatQuerySchema = z.object({
+  format: z.enum(SKILL_RATING_FORMATS).default('singles'),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
+const leaderboardQuerySchema = formatQuerySchema.extend({
+  includeProvisional: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
+/**
+ * Map known skill rating errors to 4xx responses
+ */
+function handleSkillRatingError(res: any, error: unknown, context: string) {
+  console.error(`[SkillRating] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/skill-ratings/me
+ * The current player's singles and doubles ratings
+ */
+router.get('/me', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getPlayerSkillRatings((req.user as any).id));
+  } catch (error) {
+    handleSkillRatingError(res, error, 'loading skill ratings');
+  }
+});
+
+/**
+ * GET /api/skill-ratings/me/history
+ * The current player's rating changes in a format
+ */
+router.get('/me/history', isAuthenticated, async (req, res) => {
+  try {
+    const { format, limit } = formatQuerySchema.parse(req.query);
+    res.json(await getSkillRatingHistory((req.user as any).id, format, limit));
+  } catch (error) {
+    handleSkillRatingError(res, error, 'loading skill rating history');
+  }
+});
+
+/**
+ * GET /api/skill-ratings/opponents
+ * Players closest to an even match for the current player
+ */
+router.get('/opponents', isAuthenticated, async (req, res) => {
+  try {
+    const { format, limit } = formatQuerySchema.parse(req.query);
+    res.json(await findMatchmakingOpponents((req.user as any).id, format, limit));
+  } catch (error) {
+    handleSkillRatingError(res, error, 'finding opponents');
+  }
+});
+
+/**
+ * GET /api/skill-ratings/leaderboard
+ * Highest-rated established players in a format
+ */
+router.get('/leaderboard', isAuthenticated, async (req, res) => {
+  try {
+    const { format, limit, includeProvisional } = leaderboardQuerySchema.parse(req.query);
+    res.json(await getSkillRatingLeaderboard(format, { includeProvisional, limit }));
+  } catch (error) {
+    handleSkillRatingError(res, error, 'loading skill rating leaderboard');
+  }
+});
+
+/**
+ * GET /api/skill-ratings/players/:userId
+ * Any player's singles and doubles ratings
+ */
+router.get('/players/:userId', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await getPlayerSkillRatings(parseInt(req.params.userId)));
+  } catch (error) {
+    handleSkillRatingError(res, error, 'loading skill ratings');
+  }
+});
+
+/**
+ * POST /api/skill-ratings/backfill
+ * Rate all existing matches that have not been rated yet (admin)
+ */
+router.post('/backfill', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await backfillSkillRatings());
+  } catch (error) {
+    handleSkillRatingError(res, error, 'backfilling skill ratings');
+  }
+});
+
+export default router;
@@ -0,0 +1,319 @@
+/**
+ * Sponsor Portal Routes
+ * Sponsor members draft golden ticket campaigns for admin approval, upload
+ * creatives, follow their funnels and download fulfilment lists; admins
+ * manage portal access and review submitted campaigns
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { nanoid } from 'nanoid';
+import { isAdmin, isAuthenticated } from '../auth';
+import { isSponsorManager, isSponsorMember } from '../middleware/sponsor-auth';
+import { insertGoldenTicketSchema } from '../../shared/golden-ticket.schema';
+import { renderFulfilmentCsv } from '../../shared/utils/sponsorAnalytics';
+import {
+  addSponsorMember,
+  createSponsorTicketDraft,
+  getSponsorAnalytics,
+  getSponsorFulfilmentList,
+  listSponsorMembers,
+  listSponsorMemberships,
+  listSponsorTickets,
+  listTicketsAwaitingReview,
+  removeSponsorMember,
+  reviewSponsorTicket,
+  setSponsorTicketCreative,
+  submitSponsorTicket,
+  updateSponsorTicketDraft
+} from '../services/sponsor-portal-service';
+
+const router = Router();
+
+const CREATIVE_DIR = 'uploads/golden-tickets';
+
+// Creatives land next to admin-uploaded ticket images
+const creativeUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.mkdirSync(CREATIVE_DIR, { recursive: true });
+      cb(null, CREATIVE_DIR);
+    },
+    filename: (req, file, cb) => {
+      cb(null, `${nanoid(10)}-${Date.now()}${path.extname(file.originalname)}`);
+    }
+  }),
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 2 * 1024 * 1024 // 2MB, as for admin uploads
+  }
+});
+
+const idParamSchema = z.coerce.number().int().positive();
+
+// Sponsors set everything but the sponsor and the status, which approval decides
+const draftSchema = insertGoldenTicketSchema
+  .omit({ sponsorId: true, status: true })
+  .extend({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date()
+  });
+
+const reportQuerySchema = z.object({
+  campaignId: z.string().min(1).optional(),
+  ticketId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+const fulfilmentQuerySchema = reportQuerySchema.extend({
+  includeFulfilled: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
+const memberSchema = z.object({
+  userId: z.number().int().positive(),
+  role: z.enum(['manager', 'analyst']).default('manager')
+});
+
+const reviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  notes: z.string().max(2000).optional()
+}).refine(review => review.decision === 'approve' || !!review.notes?.trim(), {
+  message: 'Say why the campaign was rejected',
+  path: ['notes']
+});
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handleSponsorPortalError(res: any, error: unknown, context: string) {
+  console.error(`[SponsorPortal] Error ${context}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (message.startsWith('Invalid campaign')) {
+    return res.status(400).json({ error: message });
+  }
+  if (/can no longer be edited|not waiting for review/.test(message)) {
+    return res.status(409).json({ error: message });
+  }
+
+  return res.status(500).json({ error: `Failed ${context}` });
+}
+
+/**
+ * GET /api/sponsor-portal/mine
+ * Sponsors the signed-in user belongs to, with their role
+ */
+router.get('/mine', isAuthenticated, async (req, res) => {
+  try {
+    res.json(await listSponsorMemberships((req.user as any).id));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'loading sponsor memberships');
+  }
+});
+
+/**
+ * GET /api/sponsor-portal/admin/reviews
+ * Sponsor campaigns waiting for approval, oldest first (admin)
+ */
+router.get('/admin/reviews', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await listTicketsAwaitingReview());
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'loading campaigns to review');
+  }
+});
+
+/**
+ * POST /api/sponsor-portal/admin/tickets/:ticketId/review
+ * Approve a sponsor campaign into the draw, or send it back with notes (admin)
+ */
+router.post('/admin/tickets/:ticketId/review', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const ticketId = idParamSchema.parse(req.params.ticketId);
+    const { decision, notes } = reviewSchema.parse(req.body);
+    res.json(await reviewSponsorTicket(ticketId, decision, notes, (req.user as any).id));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'reviewing the campaign');
+  }
+});
+
+/**
+ * GET /api/sponsor-portal/admin/sponsors/:sponsorId/members
+ * Users with portal access for a sponsor (admin)
+ */
+router.get('/admin/sponsors/:sponsorId/members', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    res.json(await listSponsorMembers(idParamSchema.parse(req.params.sponsorId)));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'loading sponsor members');
+  }
+});
+
+/**
+ * POST /api/sponsor-portal/admin/sponsors/:sponsorId/members
+ * Give a user portal access for a sponsor, or change their role (admin)
+ */
+router.post('/admin/sponsors/:sponsorId/members', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const { userId, role } = memberSchema.parse(req.body);
+    res.status(201).json(await addSponsorMember(sponsorId, userId, role, (req.user as any).id));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'adding the sponsor member');
+  }
+});
+
+/**
+ * DELETE /api/sponsor-portal/admin/sponsors/:sponsorId/members/:userId
+ * Take away a user's portal access (admin)
+ */
+router.delete('/admin/sponsors/:sponsorId/members/:userId', isAuthenticated, isAdmin, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const userId = idParamSchema.parse(req.params.userId);
+    res.json(await removeSponsorMember(sponsorId, userId));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'removing the sponsor member');
+  }
+});
+
+/**
+ * GET /api/sponsor-portal/:sponsorId/tickets
+ * The sponsor's golden tickets with their approval state and counters
+ */
+router.get('/:sponsorId/tickets', isSponsorMember, async (req, res) => {
+  try {
+    res.json(await listSponsorTickets(idParamSchema.parse(req.params.sponsorId)));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'loading sponsor tickets');
+  }
+});
+
+/**
+ * POST /api/sponsor-portal/:sponsorId/tickets
+ * Draft a golden ticket campaign
+ */
+router.post('/:sponsorId/tickets', isSponsorManager, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const draft = draftSchema.parse(req.body);
+    res.status(201).json(await createSponsorTicketDraft(sponsorId, draft, (req.user as any).id));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'drafting the campaign');
+  }
+});
+
+/**
+ * PATCH /api/sponsor-portal/:sponsorId/tickets/:ticketId
+ * Change a draft, or a rejected campaign before resubmitting it
+ */
+router.patch('/:sponsorId/tickets/:ticketId', isSponsorManager, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const ticketId = idParamSchema.parse(req.params.ticketId);
+    const changes = draftSchema.partial().parse(req.body);
+    res.json(await updateSponsorTicketDraft(sponsorId, ticketId, changes));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'updating the campaign');
+  }
+});
+
+/**
+ * POST /api/sponsor-portal/:sponsorId/tickets/:ticketId/creative
+ * Upload the ticket's promotional image (multipart field "image")
+ */
+router.post('/:sponsorId/tickets/:ticketId/creative', isSponsorManager, creativeUpload.single('image'), async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const ticketId = idParamSchema.parse(req.params.ticketId);
+    if (!req.file) {
+      return res.status(400).json({ error: 'No image uploaded' });
+    }
+
+    const filePath = `${CREATIVE_DIR}/${req.file.filename}`;
+    res.json(await setSponsorTicketCreative(sponsorId, ticketId, { url: `/${filePath}`, path: filePath }));
+  } catch (error) {
+    if (req.file) {
+      fs.unlink(req.file.path, () => {});
+    }
+    handleSponsorPortalError(res, error, 'uploading the creative');
+  }
+});
+
+/**
+ * POST /api/sponsor-portal/:sponsorId/tickets/:ticketId/submit
+ * Send a draft to the admins for approval
+ */
+router.post('/:sponsorId/tickets/:ticketId/submit', isSponsorManager, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const ticketId = idParamSchema.parse(req.params.ticketId);
+    res.json(await submitSponsorTicket(sponsorId, ticketId, (req.user as any).id));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'submitting the campaign');
+  }
+});
+
+/**
+ * GET /api/sponsor-portal/:sponsorId/analytics
+ * Impression → claim → fulfilment funnel by day, region and player tier
+ */
+router.get('/:sponsorId/analytics', isSponsorMember, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const filters = reportQuerySchema.parse(req.query);
+    res.json(await getSponsorAnalytics(sponsorId, filters));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'loading sponsor analytics');
+  }
+});
+
+/**
+ * GET /api/sponsor-portal/:sponsorId/fulfilment.csv
+ * Approved claims to send, as CSV
+ */
+router.get('/:sponsorId/fulfilment.csv', isSponsorManager, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const filters = fulfilmentQuerySchema.parse(req.query);
+    const rows = await getSponsorFulfilmentList(sponsorId, filters);
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="fulfilment-${sponsorId}-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(renderFulfilmentCsv(rows));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'building the fulfilment list');
+  }
+});
+
+/**
+ * GET /api/sponsor-portal/:sponsorId/fulfilment
+ * Approved claims to send
+ */
+router.get('/:sponsorId/fulfilment', isSponsorManager, async (req, res) => {
+  try {
+    const sponsorId = idParamSchema.parse(req.params.sponsorId);
+    const filters = fulfilmentQuerySchema.parse(req.query);
+    res.json(await getSponsorFulfilmentList(sponsorId, filters));
+  } catch (error) {
+    handleSponsorPortalError(res, error, 'loading the fulfilment list');
+  }
+});
+
+export default router;
@@ -30,10 +30,24 @@ import {
 import { eq, and, or, sql } from 'drizzle-orm';
 import { 
   createSingleEliminationBracket, 
+  createDoubleEliminationBracket,
+  createConsolationBracket,
   getBracketWithMatches, 
   recordMatchResult,
   seedTeamsInBracket 
 } from '../services/bracket-generator';
+import { 
+  createRoundRobinBracket,
+  getPoolStandings,
+  advancePoolsToPlayoff
+} from '../services/round-robin-generator';
+import {
+  createSwissBracket,
+  generateNextSwissRound,
+  getMaxSwissRounds,
+  getSwissStandings
+} from '../services/swiss-generator';
+import { createLadder } from '../services/ladder-service';
 
 const router = Router();
 
@@ -379,10 +393,21 @@ router.post('/tournaments/:id/brackets', async (req, res) => {
     // Validate request body with a custom schema for bracket creation
     const createBracketSchema = z.object({
       name: z.string(),
-      bracketType: z.enum(['single_elimination', 'double_elimination', 'round_robin']),
+      bracketType: z.enum(['single_elimination', 'double_elimination', 'consolation', 'round_robin', 'swiss']),
       teamIds: z.array(z.number()).min(2),
       seedingMethod: z.enum(['manual', 'rating_based', 'random']).optional(),
       seedOrder: z.array(z.number()).optional(),
+      bracketReset: z.boolean().optional(), // Double elimination only
+      // Round robin only
+      poolCount: z.number().int().min(1).optional().default(1),
+      advancePerPool: z.number().int().min(1).optional().default(2),
+      courts: z.array(z.string()).optional(),
+      startTime: z.coerce.date().optional(),
+      slotMinutes: z.number().int().min(5).optional(),
+      autoAdvance: z.boolean().optional(),
+      // Swiss only
+      roundsCount: z.number().int().min(1).optional(),
+      awardRankingPoints: z.boolean().optional(),
     });
     
     const parsedData = createBracketSchema.safeParse(req.body);
@@ -394,7 +419,13 @@ router.post('/tournaments/:id/brackets', async (req, res) => {
       });
     }
     
-    const { name, bracketType, teamIds, seedingMethod, seedOrder } = parsedData.data;
+    const { name, bracketType, teamIds, seedingMethod, seedOrder, bracketReset, roundsCount, awardRankingPoints, ...roundRobinOptions } = parsedData.data;
+    
+    if (bracketType === 'swiss' && roundsCount && roundsCount > getMaxSwissRounds(teamIds.length)) {
+      return res.status(400).json({
+        message: `At most ${getMaxSwissRounds(teamIds.length)} Swiss rounds can be played with ${teamIds.length} teams`
+      });
+    }
     
     // Get the teams
     const teams = await db.query.tournamentTeams.findMany({
@@ -409,27 +440,39 @@ router.post('/tournaments/:id/brackets', async (req, res) => {
     }
     
     // Create the bracket
+    let bracketId: number;
+    
     if (bracketType === 'single_elimination') {
-      const bracketId = await createSingleEliminationBracket(
-        tournamentId,
-        teams,
-        seedOrder
-      );
-      
-      // Get the created bracket
-      const bracket = await db.query.tournamentBrackets.findFirst({
-        where: eq(tournamentBrackets.id, bracketId),
-      });
-      
-      res.status(201).json(bracket);
+      bracketId = await createSingleEliminationBracket(tournamentId, teams, seedOrder);
+    } else if (bracketType === 'double_elimination') {
+      bracketId = await createDoubleEliminationBracket(tournamentId, teams, seedOrder, { bracketReset });
+    } else if (bracketType === 'swiss') {
+      bracketId = await createSwissBracket(tournamentId, teams, { roundsCount, awardRankingPoints });
     } else {
-      // For now, only single elimination is supported
-      return res.status(400).json({ 
-        message: 'Only single elimination brackets are currently supported'
-      });
+      bracketId = bracketType === 'consolation'
+        ? await createConsolationBracket(tournamentId, teams, seedOrder)
+        : await createRoundRobinBracket(tournamentId, teams, roundRobinOptions);
     }
+    
+    // Get the created bracket
+    const bracket = await db.query.tournamentBrackets.findFirst({
+      where: eq(tournamentBrackets.id, bracketId),
+    });
+    
+    res.status(201).json(bracket);
   } catch (error) {
     console.error('Error creating tournament bracket:', error);
+    
+    // Invalid pool/team configuration
+    if (error instanceof Error) {
+      if (error.message.includes('At least') ||
+          error.message.includes('At most') ||
+          error.message.includes('Each pool') ||
+          error.message.includes('Every pool')) {
+        return res.status(400).json({ message: error.message });
+      }
+    }
+    
     res.status(500).json({ message: 'Internal server error' });
   }
 });
@@ -498,9 +541,165 @@ router.post('/brackets/matches/:id/result', async (req, res) => {
     // Check for specific error messages
     if (error instanceof Error) {
       if (error.message.includes('not found') || 
-          error.message.includes('not playing')) {
+          error.message.includes('not playing') ||
+          error.message.includes('different teams')) {
         return res.status(400).json({ message: error.message });
       }
+      if (error.message.includes('is already')) {
+        return res.status(409).json({ message: error.message });
+      }
+    }
+    
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * Get pool standings of a round robin bracket
+ * GET /api/brackets/:id/standings
+ */
+router.get('/brackets/:id/standings', async (req, res) => {
+  try {
+    const bracketId = parseInt(req.params.id);
+    if (isNaN(bracketId)) {
+      return res.status(400).json({ message: 'Invalid bracket ID' });
+    }
+    
+    const standings = await getPoolStandings(bracketId);
+    
+    res.json(standings);
+  } catch (error) {
+    console.error('Error fetching pool standings:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * Seed the top teams of each pool into a playoff bracket
+ * POST /api/brackets/:id/advance
+ */
+router.post('/brackets/:id/advance', async (req, res) => {
+  try {
+    const bracketId = parseInt(req.params.id);
+    if (isNaN(bracketId)) {
+      return res.status(400).json({ message: 'Invalid bracket ID' });
+    }
+    
+    const playoffBracketId = await advancePoolsToPlayoff(bracketId);
+    const bracketData = await getBracketWithMatches(playoffBracketId);
+    
+    res.status(201).json(bracketData);
+  } catch (error) {
+    console.error('Error advancing pools to playoff:', error);
+    
+    if (error instanceof Error) {
+      if (error.message.includes('not found') ||
+          error.message.includes('not a round robin') ||
+          error.message.includes('must be completed')) {
+        return res.status(400).json({ message: error.message });
+      }
+    }
+    
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * Get the standings of a Swiss bracket
+ * GET /api/brackets/:id/swiss/standings
+ */
+router.get('/brackets/:id/swiss/standings', async (req, res) => {
+  try {
+    const bracketId = parseInt(req.params.id);
+    if (isNaN(bracketId)) {
+      return res.status(400).json({ message: 'Invalid bracket ID' });
+    }
+    
+    const standings = await getSwissStandings(bracketId);
+    
+    res.json(standings);
+  } catch (error) {
+    console.error('Error fetching Swiss standings:', error);
+    
+    if (error instanceof Error && 
+        (error.message.includes('not found') || error.message.includes('not a Swiss'))) {
+      return res.status(400).json({ message: error.message });
+    }
+    
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * Pair the next round of a Swiss bracket.
+ * Rounds are paired automatically when the previous round finishes; this
+ * endpoint lets organizers pair manually, e.g. after cancelling a match.
+ * POST /api/brackets/:id/swiss/next-round
+ */
+router.post('/brackets/:id/swiss/next-round', async (req, res) => {
+  try {
+    const bracketId = parseInt(req.params.id);
+    if (isNaN(bracketId)) {
+      return res.status(400).json({ message: 'Invalid bracket ID' });
+    }
+    
+    await generateNextSwissRound(bracketId);
+    const bracketData = await getBracketWithMatches(bracketId);
+    
+    res.status(201).json(bracketData);
+  } catch (error) {
+    console.error('Error pairing next Swiss round:', error);
+    
+    if (error instanceof Error) {
+      if (error.message.includes('not found') ||
+          error.message.includes('not a Swiss') ||
+          error.message.includes('already been paired') ||
+          error.message.includes('must be completed')) {
+        return res.status(400).json({ message: error.message });
+      }
+    }
+    
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * Create a challenge ladder for a tournament
+ * POST /api/tournaments/:id/ladders
+ */
+router.post('/tournaments/:id/ladders', async (req, res) => {
+  try {
+    const tournamentId = parseInt(req.params.id);
+    if (isNaN(tournamentId)) {
+      return res.status(400).json({ message: 'Invalid tournament ID' });
+    }
+    
+    const createLadderSchema = z.object({
+      name: z.string().min(1),
+      maxChallengeRungs: z.number().int().min(1).optional(),
+      responseWindowHours: z.number().int().min(1).optional(),
+      playWindowDays: z.number().int().min(1).optional(),
+      matchType: z.enum(['casual', 'league', 'tournament']).optional(),
+    });
+    
+    const parsedData = createLadderSchema.safeParse(req.body);
+    
+    if (!parsedData.success) {
+      return res.status(400).json({ 
+        message: 'Invalid ladder data', 
+        errors: parsedData.error.format() 
+      });
+    }
+    
+    const { name, ...options } = parsedData.data;
+    const ladder = await createLadder(tournamentId, name, options);
+    
+    res.status(201).json(ladder);
+  } catch (error) {
+    console.error('Error creating ladder:', error);
+    
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ message: error.message });
     }
     
     res.status(500).json({ message: 'Internal server error' });
@@ -14,13 +14,15 @@
 import { Router } from 'express';
 import multer from 'multer';
 import * as XLSX from 'xlsx';
-import crypto from 'crypto';
 import { isAuthenticated } from '../auth';
 import { storage } from '../storage';
 import { db } from '../db';
 import { users, matches, tournaments } from '../../shared/schema';
 import { eq, and, or, sql, desc } from 'drizzle-orm';
-import { generateMatchIdempotencyKey, calculateMatchPoints, isCrossGenderMatch, OFFICIAL_PCP_CONFIG } from '../../shared/utils/matchIdempotency';
+import { generateMatchIdempotencyKey, normalizeMatchPassportCode, calculateMatchPoints, isCrossGenderMatch } from '../../shared/utils/matchIdempotency';
+import { ingestMatch } from '../services/match-ingestion-service';
+import { getActivePointsRuleset } from '../services/points-ruleset-service';
+import { StandardizedRankingService } from '../services/StandardizedRankingService';
 
 const router = Router();
 
@@ -95,28 +97,9 @@ async function mandatoryPreImportAudit(): Promise<PreImportAuditResult> {
 }
 
 // ===== UDF RULE 20: DATABASE-LEVEL IDEMPOTENCY CONSTRAINTS =====
-interface MatchSignatureData {
-  tournamentName: string;
-  player1: string;
-  player2: string;
-  player3: string | null;
-  player4: string | null;
-  scoreP1: string;
-  scoreP2: string;
-  matchDate: string;
-}
-
-function generateCanonicalMatchSignature(match: MatchSignatureData): string {
-  // Normalize players (sort teams, sort within teams for consistency)
-  const team1 = [match.player1, match.player3].filter(Boolean).sort();
-  const team2 = [match.player2, match.player4].filter(Boolean).sort();
-  const normalizedTeams = [team1.join(','), team2.join(',')].sort();
-  
-  // Canonical signature: tournament + normalized teams + scores + date
-  const signature = `${match.tournamentName}-${normalizedTeams.join('|')}-${match.scoreP1}-${match.scoreP2}-${match.matchDate}`;
-  
-  return crypto.createHash('sha256').update(signature).digest('hex').substring(0, 32);
-}
+// Matches are keyed by generateMatchIdempotencyKey over normalized passport
+// codes and the tournament, and the match ingestion service stores the key
+// under a unique constraint
 
 // ===== UDF RULE 21: COMPREHENSIVE PRE-IMPORT VALIDATION =====
 interface ImportValidationResult {
@@ -172,15 +155,13 @@ async function validateBulkImportData(
   // 1. DETECT INTERNAL DUPLICATES
   const signatures = new Set<string>();
   for (const match of parsedMatches) {
-    const signature = generateCanonicalMatchSignature({
-      tournamentName: match.tournamentName,
-      player1: match.player1,
-      player2: match.player2,
-      player3: match.player3 || null,
-      player4: match.player4 || null,
-      scoreP1: match.team1Score.toString(),
-      scoreP2: match.team2Score.toString(),
-      matchDate: match.matchDate
+    const signature = generateMatchIdempotencyKey({
+      team1: [match.player1, match.player3].filter((code): code is string => !!code).map(normalizeMatchPassportCode),
+      team2: [match.player2, match.player4].filter((code): code is string => !!code).map(normalizeMatchPassportCode),
+      team1Score: match.team1Score.toString(),
+      team2Score: match.team2Score.toString(),
+      matchDate: match.matchDate,
+      event: `tournament:${match.tournamentName}`
     });
     
     if (signatures.has(signature)) {
@@ -457,7 +438,8 @@ router.post('/analyze-excel', isAuthenticated, upload.single('excelFile'), async
       }
     });
 
-    // Calculate expected points for each match
+    // Calculate expected points for each match under the current points ruleset
+    const ruleset = await getActivePointsRuleset();
     const matchAnalysis = parsedMatches.map(match => {
       const p1 = existingPlayerMap.get(match.player1);
       const p2 = existingPlayerMap.get(match.player2);
@@ -483,7 +465,7 @@ router.post('/analyze-excel', isAuthenticated, upload.single('excelFile'), async
           p1!.gender || 'unknown',
           p1!.rankingPoints || 0,
           isCrossGender,
-          OFFICIAL_PCP_CONFIG
+          ruleset
         );
 
         const p2Points = calculateMatchPoints(
@@ -491,7 +473,7 @@ router.post('/analyze-excel', isAuthenticated, upload.single('excelFile'), async
           p2!.gender || 'unknown',
           p2!.rankingPoints || 0,
           isCrossGender,
-          OFFICIAL_PCP_CONFIG
+          ruleset
         );
 
         pointsCalculation.player1Points = p1Points;
@@ -503,7 +485,7 @@ router.post('/analyze-excel', isAuthenticated, upload.single('excelFile'), async
             p3.gender || 'unknown',
             p3.rankingPoints || 0,
             isCrossGender,
-            OFFICIAL_PCP_CONFIG
+            ruleset
           );
 
           const p4Points = calculateMatchPoints(
@@ -511,7 +493,7 @@ router.post('/analyze-excel', isAuthenticated, upload.single('excelFile'), async
             p4.gender || 'unknown',
             p4.rankingPoints || 0,
             isCrossGender,
-            OFFICIAL_PCP_CONFIG
+            ruleset
           );
 
           pointsCalculation.player3Points = p3Points;
@@ -654,6 +636,7 @@ router.post('/udf-compliant-process', isAuthenticated, upload.single('excelFile'
         failed: 0,
         errors: [] as string[],
         processedMatches: [] as any[],
+        duplicatesSkipped: 0,
         createdTournaments: [] as string[],
         affectedPlayers: new Set<string>(),
         totalPointsAwarded: 0
@@ -690,69 +673,56 @@ router.post('/udf-compliant-process', isAuthenticated, upload.single('excelFile'
       // Process matches with idempotency protection
       for (const match of parsedMatches) {
         try {
-          // Generate idempotency key
-          const idempotencyKey = generateCanonicalMatchSignature({
-            tournamentName: match.tournamentName,
-            player1: match.player1,
-            player2: match.player2,
-            player3: match.player3 || null,
-            player4: match.player4 || null,
-            scoreP1: match.team1Score.toString(),
-            scoreP2: match.team2Score.toString(),
-            matchDate: match.matchDate
-          });
+          // Get tournament ID
+          const tournamentId = tournamentMap.get(match.tournamentName) || null;
           
-          // Check for existing match with same idempotency key
-          const existingMatch = await db.select().from(matches)
-            .where(eq(matches.idempotencyKey, idempotencyKey))
-            .limit(1);
+          // Points ruleset in force on the match date
+          const ruleset = await getActivePointsRuleset(new Date(match.matchDate));
           
-          if (existingMatch.length > 0) {
-            console.log(`⚠️  Skipping duplicate match: ${idempotencyKey}`);
-            continue;
-          }
-          
-          // Find players
-          const player1 = await storage.getUserByPassportCode(match.player1);
-          const player2 = await storage.getUserByPassportCode(match.player2);
-          const player3 = match.player3 ? await storage.getUserByPassportCode(match.player3) : null;
-          const player4 = match.player4 ? await storage.getUserByPassportCode(match.player4) : null;
+          // Create match through the ingestion service (UDF RULE 20: database-level idempotency)
+          const ingestion = await ingestMatch({
+            rowNumber: match.rowNumber,
+            team1: [match.player1, match.player3].filter((code): code is string => !!code).map(passportCode => ({ passportCode })),
+            team2: [match.player2, match.player4].filter((code): code is string => !!code).map(passportCode => ({ passportCode })),
+            team1Score: match.team1Score.toString(),
+            team2Score: match.team2Score.toString(),
+            matchDate: match.matchDate,
+            // The same result at another tournament is another match
+            event: `tournament:${match.tournamentName}`,
+            values: {
+              matchType: 'tournament',
+              formatType: match.isDoubles ? 'doubles' : 'singles',
+              validationStatus: 'completed',
+              validationCompletedAt: new Date(),
+              notes: `BULK IMPORT [${match.tabName}]: ${match.notes} [${match.gameDetails}] [${match.location}]`,
+              tournamentId,
+              pointsRulesetVersion: ruleset.version
+            }
+          }, { source: 'udf-bulk-import' });
           
-          if (!player1 || !player2) {
-            throw new Error(`Missing players: P1=${match.player1} P2=${match.player2}`);
+          if (ingestion.status === 'duplicate') {
+            console.log(`⚠️  Skipping duplicate of match ${ingestion.duplicateOfMatchId}: ${ingestion.idempotencyKey}`);
+            importResults.duplicatesSkipped++;
+            continue;
           }
           
-          if (match.isDoubles && (!player3 || !player4)) {
-            throw new Error(`Missing doubles players: P3=${match.player3} P4=${match.player4}`);
+          if (ingestion.status === 'rejected') {
+            throw new Error(ingestion.message);
           }
           
-          // Determine winner
-          const winnerId = match.team1Score > match.team2Score ? player1.id : player2.id;
+          const createdMatch = ingestion.match;
           
-          // Get tournament ID
-          const tournamentId = tournamentMap.get(match.tournamentName) || null;
+          // Players as stored on the match
+          const [player1, player2] = await Promise.all([
+            storage.getUser(createdMatch.playerOneId),
+            storage.getUser(createdMatch.playerTwoId)
+          ]);
+          const player3 = createdMatch.playerOnePartnerId ? await storage.getUser(createdMatch.playerOnePartnerId) : null;
+          const player4 = createdMatch.playerTwoPartnerId ? await storage.getUser(createdMatch.playerTwoPartnerId) : null;
           
-          // Create match with idempotency key
-          const matchRecord = {
-            playerOneId: player1.id,
-            playerTwoId: player2.id,
-            playerOnePartnerId: player3?.id || null,
-            playerTwoPartnerId: player4?.id || null,
-            scorePlayerOne: match.team1Score.toString(),
-            scorePlayerTwo: match.team2Score.toString(),
-            winnerId,
-            matchType: 'tournament',
-            formatType: match.isDoubles ? 'doubles' : 'singles',
-            validationStatus: 'completed',
-            validationCompletedAt: new Date(),
-            notes: `BULK IMPORT [${match.tabName}]: ${match.notes} [${match.gameDetails}] [${match.location}]`,
-            tournamentId,
-            scheduledDate: new Date(match.matchDate),
-            idempotencyKey, // UDF RULE 20: Database-level idempotency
-            category: match.isDoubles ? 'doubles' : 'singles'
-          };
-          
-          const createdMatch = await storage.createMatch(matchRecord);
+          if (!player1 || !player2) {
+            throw new Error(`Missing players: P1=${match.player1} P2=${match.player2}`);
+          }
           
           // Calculate and award points using official algorithm
           const allPlayers = [player1, player2, player3, player4].filter(Boolean);
@@ -777,12 +747,17 @@ router.post('/udf-compliant-process', isAuthenticated, upload.single('excelFile'
               player.gender || 'unknown',
               player.rankingPoints || 0,
               isCrossGender,
-              OFFICIAL_PCP_CONFIG
+              ruleset
             );
             
-            // Update player points (ADDITIVE - UDF Rule 5)
+            // Award points through the ledger (ADDITIVE - UDF Rule 5)
+            await storage.updateUserRankingPoints(player.id, points, match.isDoubles ? 'doubles' : 'singles', {
+              sourceType: 'match',
+              sourceId: createdMatch.id,
+              rulesetVersion: ruleset.version,
+              calculationDetails: `UDF bulk import: ${isWinner ? 'win' : 'loss'}${isCrossGender ? ', cross-gender' : ''}`
+            });
             await storage.updateUser(player.id, {
-              rankingPoints: (player.rankingPoints || 0) + points,
               totalMatches: (player.totalMatches || 0) + 1,
               matchesWon: isWinner ? (player.matchesWon || 0) + 1 : (player.matchesWon || 0),
               lastMatchDate: new Date(match.matchDate)
@@ -794,6 +769,9 @@ router.post('/udf-compliant-process', isAuthenticated, upload.single('excelFile'
             }
           }
           
+          // Skill ratings and prediction results follow the points award
+          await StandardizedRankingService.updateSkillRatingsAndPredictions(createdMatch.id);
+          
           importResults.totalPointsAwarded += totalPointsThisMatch;
           importResults.processedMatches.push(createdMatch);
           importResults.successful++;
@@ -856,11 +834,12 @@ router.post('/udf-compliant-process', isAuthenticated, upload.single('excelFile'
           // POINT ALLOCATION
           totalPointsAwarded: importResults.totalPointsAwarded,
           pointCalculationMethod: 'System B (3 win/1 loss) + 1.15x gender bonus',
-          algorithmCompliance: 'OFFICIAL_PCP_CONFIG verified',
+          algorithmCompliance: 'Active points ruleset verified',
           
           // DATA INTEGRITY
           idempotencyProtection: 'Database-level constraints active',
           duplicatesPrevented: validation.duplicatesWithinImport,
+          duplicatesSkipped: importResults.duplicatesSkipped,
           dataIntegrityConfirmed: reconciliation.summary?.integrityConfirmed,
           
           // VALIDATION RESULTS
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 import crypto from 'crypto';
 import { isAuthenticated, isAdmin } from '../auth';
+import { reconcileWiseTransfer } from '../services/payout-batch-service';
 
 const router = Router();
 
@@ -374,6 +375,15 @@ router.post('/webhook', async (req, res) => {
     }
     
     const event = req.body;
+
+    // Transfers paying out coaches settle their payout and batch
+    if (String(event.event_type).startsWith('transfer.') && event.data?.resource?.id) {
+      try {
+        await reconcileWiseTransfer(String(event.data.resource.id));
+      } catch (error) {
+        console.error('Coach payout reconciliation failed:', error);
+      }
+    }
     
     switch (event.event_type) {
       case 'transfer.completed':
@@ -1,225 +1,221 @@
 /**
  * Decay Protection Service - Professional Tier Enhanced Weighting
- * 
+ *
  * Implements tier-specific tournament weighting for activity-responsive decay protection
- * 
+ *
  * Features:
  * - Standard Tiers: Tournament 2x, League 1.5x, Casual 1x
  * - Professional Tier: Tournament 3x, League 2x, Casual 0.75x
  * - Activity thresholds: 4+ weighted matches = no decay
  * - Seasonal adjustments for holidays
- * 
- * @framework Framework5.3 
- * @version 1.0.0 - FINALIZED WITH PROFESSIONAL ENHANCED WEIGHTING
- * @lastModified 2025-08-06
+ * - Admin-managed decay policies per region and age division (decay_policies)
+ * - Dry-run of the weekly decay and advance warnings to affected players
+ *
+ * The figures above are the built-in policy (DEFAULT_DECAY_POLICY); a stored
+ * policy for the player's region and/or division replaces them.
+ *
+ * @framework Framework5.3
+ * @version 1.1.0 - CONFIGURABLE DECAY POLICIES
+ * @lastModified 2026-10-19
  */
 
 import { db } from "../db";
-import { users, matches, type User } from "@shared/schema";
-import { eq, sql, gte, and, desc } from "drizzle-orm";
-
-export interface PlayerTier {
-  name: 'recreational' | 'competitive' | 'elite' | 'professional';
-  pointsMin: number;
-  pointsMax: number | null;
-  baseDecayRate: number; // Weekly decay percentage
-  holidayDecayRate: number; // Reduced rate during major holidays
-}
+import { users, matches, rankingTransactions, type DecayPolicyRecord } from "@shared/schema";
+import { eq, sql, gte, and, or } from "drizzle-orm";
+import { recordPointsLedgerEntries } from "./points-ledger-service";
+import {
+  getActiveDecayPolicies,
+  getDecayDivision,
+  getDecayPolicyFor,
+  resolveDecayPolicy
+} from "./decay-policy-service";
+import {
+  calculateDecay,
+  getDecayTier,
+  getTierMatchWeighting,
+  DEFAULT_DECAY_POLICY,
+  type ActivityLevel,
+  type DecayPolicy,
+  type MatchWeighting,
+  type PlayerTier,
+  type WeightedActivityBreakdown
+} from "@shared/utils/decayPolicyEngine";
+
+export type { PlayerTier, MatchWeighting, ActivityLevel };
 
-export interface MatchWeighting {
+/**
+ * Matches of each type needed to reach full protection
+ */
+export interface MatchesToProtect {
   tournament: number;
   league: number;
   casual: number;
 }
 
-export interface ActivityLevel {
+/**
+ * A player who would lose points in a weekly decay run
+ */
+export interface DecayPlanEntry {
+  userId: number;
+  username: string;
+  displayName: string | null;
+  region: string | null;
+  division: string | null;
+  policyId: number;
+  policyName: string;
+  tier: PlayerTier['name'];
+  rankingPoints: number;
   weightedMatches: number;
-  decayRate: number; // As percentage of base tier rate
-  description: string;
+  activityLevel: string;
+  isHolidayPeriod: boolean;
+  effectiveDecayRate: number;
+  pointsToDecay: number;
+  weightedMatchesToProtect: number | null;
+  matchesToProtect: MatchesToProtect | null;
+}
+
+export interface WeeklyDecayPlan {
+  decayDate: Date;
+  playersChecked: number;
+  totalPointsDecayed: number;
+  tierBreakdown: Record<string, { players: number; pointsDecayed: number }>;
+  players: DecayPlanEntry[];
 }
 
 export class DecayProtectionService {
 
   /**
-   * Player tier definitions with decay rates
+   * Day of the week the weekly decay runs (Monday)
    */
-  private static readonly PLAYER_TIERS: PlayerTier[] = [
-    {
-      name: 'recreational',
-      pointsMin: 0,
-      pointsMax: 300,
-      baseDecayRate: 1.0,
-      holidayDecayRate: 0.0 // No decay during holidays
-    },
-    {
-      name: 'competitive', 
-      pointsMin: 300,
-      pointsMax: 1000,
-      baseDecayRate: 2.0,
-      holidayDecayRate: 0.0 // No decay during holidays
-    },
-    {
-      name: 'elite',
-      pointsMin: 1000,
-      pointsMax: 1800,
-      baseDecayRate: 5.0,
-      holidayDecayRate: 2.5 // Reduced decay during holidays
-    },
-    {
-      name: 'professional',
-      pointsMin: 1800,
-      pointsMax: null,
-      baseDecayRate: 7.0,
-      holidayDecayRate: 3.5 // Reduced decay during holidays
-    }
-  ];
+  private static readonly DECAY_WEEKDAY = 1;
 
   /**
-   * Match weighting by tier
+   * Next weekly decay date (midnight), strictly after the given time
    */
-  private static readonly MATCH_WEIGHTING: Record<string, MatchWeighting> = {
-    standard: {
-      tournament: 2.0,
-      league: 1.5,
-      casual: 1.0
-    },
-    professional: {
-      tournament: 3.0,
-      league: 2.0,
-      casual: 0.75
-    }
-  };
+  static getNextDecayDate(from: Date = new Date()): Date {
+    const next = new Date(from);
+    next.setHours(0, 0, 0, 0);
+    next.setDate(next.getDate() + (((this.DECAY_WEEKDAY - next.getDay()) + 7) % 7 || 7));
+    return next;
+  }
 
   /**
-   * Activity level thresholds
+   * Determine player tier based on ranking points
    */
-  private static readonly ACTIVITY_LEVELS: ActivityLevel[] = [
-    {
-      weightedMatches: 4,
-      decayRate: 0.0, // No decay
-      description: 'High Activity'
-    },
-    {
-      weightedMatches: 2,
-      decayRate: 0.5, // 50% of tier decay rate  
-      description: 'Moderate Activity'
-    },
-    {
-      weightedMatches: 1,
-      decayRate: 0.75, // 75% of tier decay rate
-      description: 'Low Activity'
-    },
-    {
-      weightedMatches: 0,
-      decayRate: 1.0, // Full tier decay rate
-      description: 'Inactive'
-    }
-  ];
+  static getPlayerTier(rankingPoints: number, policy: DecayPolicy = DEFAULT_DECAY_POLICY): PlayerTier {
+    return getDecayTier(policy.rules, rankingPoints);
+  }
 
   /**
-   * Major holidays where decay is reduced/eliminated
+   * Get match weighting based on player tier
    */
-  private static readonly MAJOR_HOLIDAYS = [
-    { start: '12-20', end: '01-05' }, // Christmas/New Year period
-    { start: '03-25', end: '04-05' }, // Easter period (approximate)
-  ];
+  static getMatchWeighting(tier: PlayerTier, policy: DecayPolicy = DEFAULT_DECAY_POLICY): MatchWeighting {
+    return getTierMatchWeighting(policy.rules, tier);
+  }
 
   /**
-   * Determine player tier based on ranking points
+   * Matches of each type that add up to the given weighted count
    */
-  static getPlayerTier(rankingPoints: number): PlayerTier {
-    for (const tier of this.PLAYER_TIERS.reverse()) {
-      if (rankingPoints >= tier.pointsMin && (tier.pointsMax === null || rankingPoints <= tier.pointsMax)) {
-        return tier;
-      }
+  private static getMatchesToProtect(weighting: MatchWeighting, weightedMatches: number | null): MatchesToProtect | null {
+    if (weightedMatches === null) return null;
+
+    const count = (weight: number) => weight > 0 ? Math.ceil(weightedMatches / weight) : 0;
+    return {
+      tournament: count(weighting.tournament),
+      league: count(weighting.league),
+      casual: count(weighting.casual)
+    };
+  }
+
+  /**
+   * Load a player and the decay policy that applies to them
+   */
+  private static async getPlayerPolicy(userId: number, at: Date): Promise<{ rankingPoints: number; policy: DecayPolicy }> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { rankingPoints: true, region: true, dateOfBirth: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
     }
-    return this.PLAYER_TIERS[0]; // Default to recreational
+
+    const policy = await getDecayPolicyFor({
+      region: user.region,
+      division: getDecayDivision(user.dateOfBirth, at)
+    });
+
+    return { rankingPoints: user.rankingPoints || 0, policy };
   }
 
   /**
-   * Get match weighting based on player tier
+   * Types of the matches a player took part in since the cutoff
    */
-  static getMatchWeighting(tier: PlayerTier): MatchWeighting {
-    return tier.name === 'professional' 
-      ? this.MATCH_WEIGHTING.professional
-      : this.MATCH_WEIGHTING.standard;
+  private static async getRecentMatchTypes(userId: number, cutoffDate: Date): Promise<Array<string | null>> {
+    const recentMatches = await db.select({ matchType: matches.matchType })
+      .from(matches)
+      .where(and(
+        or(
+          eq(matches.playerOneId, userId),
+          eq(matches.playerTwoId, userId),
+          eq(matches.playerOnePartnerId, userId),
+          eq(matches.playerTwoPartnerId, userId)
+        ),
+        gte(matches.createdAt, cutoffDate)
+      ));
+
+    return recentMatches.map(match => match.matchType);
   }
 
   /**
    * Calculate weighted match count for a player's recent activity
+   *
+   * @param daysBack - Activity window; defaults to the player's policy window
    */
   static async calculateWeightedActivity(
     userId: number,
-    daysBack: number = 30
+    daysBack?: number
   ): Promise<{
     weightedMatches: number;
-    breakdown: {
-      tournament: { count: number; weighted: number };
-      league: { count: number; weighted: number };
-      casual: { count: number; weighted: number };
-    };
+    breakdown: WeightedActivityBreakdown;
     tier: PlayerTier;
+    policy: { id: number; name: string };
   }> {
-    
-    // Get user's current tier
-    const user = await db.query.users.findFirst({ 
-      where: eq(users.id, userId),
-      columns: { rankingPoints: true }
-    });
-    
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    const tier = this.getPlayerTier(user.rankingPoints || 0);
-    const weighting = this.getMatchWeighting(tier);
-
-    // Get recent matches
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysBack);
-
-    const recentMatches = await db.query.matches.findMany({
-      where: and(
-        eq(matches.playerId, userId),
-        gte(matches.createdAt, cutoffDate)
-      ),
-      columns: { matchType: true }
-    });
 
-    // Calculate weighted totals
-    const breakdown = {
-      tournament: { count: 0, weighted: 0 },
-      league: { count: 0, weighted: 0 },
-      casual: { count: 0, weighted: 0 }
-    };
+    const now = new Date();
+    const { rankingPoints, policy } = await this.getPlayerPolicy(userId, now);
 
-    for (const match of recentMatches) {
-      const matchType = match.matchType as keyof MatchWeighting;
-      if (matchType in breakdown) {
-        breakdown[matchType].count++;
-        breakdown[matchType].weighted += weighting[matchType];
-      }
-    }
+    const cutoffDate = new Date(now);
+    cutoffDate.setDate(cutoffDate.getDate() - (daysBack ?? policy.rules.activityWindowDays));
 
-    const weightedMatches = breakdown.tournament.weighted + 
-                          breakdown.league.weighted + 
-                          breakdown.casual.weighted;
+    const decay = calculateDecay(policy.rules, {
+      rankingPoints,
+      matchTypes: await this.getRecentMatchTypes(userId, cutoffDate)
+    }, now);
 
     return {
-      weightedMatches,
-      breakdown,
-      tier
+      weightedMatches: decay.weightedMatches,
+      breakdown: decay.breakdown,
+      tier: decay.tier,
+      policy: { id: policy.id, name: policy.name }
     };
   }
 
   /**
    * Calculate decay rate for a player based on activity and tier
+   *
+   * @param at - Decay date; matches inside the policy window before it count
    */
-  static async calculateDecayRate(userId: number): Promise<{
+  static async calculateDecayRate(userId: number, at: Date = new Date()): Promise<{
     effectiveDecayRate: number;
     activityLevel: ActivityLevel;
     tier: PlayerTier;
     isHolidayPeriod: boolean;
+    weightedMatches: number;
+    pointsToDecay: number;
+    weightedMatchesToProtect: number | null;
+    matchesToProtect: MatchesToProtect | null;
+    policy: { id: number; name: string };
     breakdown: {
       baseRate: number;
       activityAdjustment: number;
@@ -227,115 +223,271 @@ export class DecayProtectionService {
       finalRate: number;
     };
   }> {
-    
-    const activity = await this.calculateWeightedActivity(userId);
-    const tier = activity.tier;
-
-    // Determine activity level
-    let activityLevel = this.ACTIVITY_LEVELS[this.ACTIVITY_LEVELS.length - 1]; // Default to inactive
-    for (const level of this.ACTIVITY_LEVELS) {
-      if (activity.weightedMatches >= level.weightedMatches) {
-        activityLevel = level;
-        break;
-      }
-    }
 
-    // Check if currently in holiday period
-    const isHolidayPeriod = this.isCurrentlyHolidayPeriod();
-    
-    // Calculate effective decay rate
-    const baseRate = isHolidayPeriod ? tier.holidayDecayRate : tier.baseDecayRate;
-    const activityAdjustedRate = baseRate * activityLevel.decayRate;
-    
+    const { rankingPoints, policy } = await this.getPlayerPolicy(userId, at);
+
+    const cutoffDate = new Date(at);
+    cutoffDate.setDate(cutoffDate.getDate() - policy.rules.activityWindowDays);
+
+    const decay = calculateDecay(policy.rules, {
+      rankingPoints,
+      matchTypes: await this.getRecentMatchTypes(userId, cutoffDate)
+    }, at);
+
     return {
-      effectiveDecayRate: activityAdjustedRate,
-      activityLevel,
-      tier,
-      isHolidayPeriod,
+      effectiveDecayRate: decay.effectiveDecayRate,
+      activityLevel: decay.activityLevel,
+      tier: decay.tier,
+      isHolidayPeriod: decay.isHolidayPeriod,
+      weightedMatches: decay.weightedMatches,
+      pointsToDecay: decay.pointsToDecay,
+      weightedMatchesToProtect: decay.weightedMatchesToProtect,
+      matchesToProtect: this.getMatchesToProtect(getTierMatchWeighting(policy.rules, decay.tier), decay.weightedMatchesToProtect),
+      policy: { id: policy.id, name: policy.name },
       breakdown: {
-        baseRate: tier.baseDecayRate,
-        activityAdjustment: activityLevel.decayRate,
-        holidayAdjustment: isHolidayPeriod,
-        finalRate: activityAdjustedRate
+        baseRate: decay.tier.baseDecayRate,
+        activityAdjustment: decay.activityLevel.decayRate,
+        holidayAdjustment: decay.isHolidayPeriod,
+        finalRate: decay.effectiveDecayRate
       }
     };
   }
 
   /**
-   * Check if current date falls within major holiday periods
+   * Work out who would lose points if the weekly decay ran at the given time,
+   * without changing anything
    */
-  private static isCurrentlyHolidayPeriod(): boolean {
-    const now = new Date();
-    const currentMonthDay = `${(now.getMonth() + 1).toString().padStart(2, '0')}-${now.getDate().toString().padStart(2, '0')}`;
-    
-    for (const holiday of this.MAJOR_HOLIDAYS) {
-      // Handle year-spanning holidays (like Christmas/New Year)
-      if (holiday.start > holiday.end) {
-        if (currentMonthDay >= holiday.start || currentMonthDay <= holiday.end) {
-          return true;
-        }
-      } else {
-        if (currentMonthDay >= holiday.start && currentMonthDay <= holiday.end) {
-          return true;
+  static async buildWeeklyDecayPlan(at: Date = new Date()): Promise<WeeklyDecayPlan> {
+
+    const allUsers = await db.query.users.findMany({
+      where: sql`${users.rankingPoints} > 0`,
+      columns: { id: true, username: true, displayName: true, rankingPoints: true, region: true, dateOfBirth: true }
+    });
+
+    let policies: DecayPolicyRecord[] = [];
+    try {
+      policies = await getActiveDecayPolicies();
+    } catch (error) {
+      console.error("[DecayProtection] Could not load decay policies, using built-in policy:", error);
+    }
+
+    // One query for the longest activity window in use
+    const longestWindow = Math.max(
+      DEFAULT_DECAY_POLICY.rules.activityWindowDays,
+      ...policies.map(policy => policy.rules.activityWindowDays)
+    );
+    const earliestCutoff = new Date(at);
+    earliestCutoff.setDate(earliestCutoff.getDate() - longestWindow);
+
+    const recentMatches = allUsers.length === 0 ? [] : await db.select({
+      playerOneId: matches.playerOneId,
+      playerTwoId: matches.playerTwoId,
+      playerOnePartnerId: matches.playerOnePartnerId,
+      playerTwoPartnerId: matches.playerTwoPartnerId,
+      matchType: matches.matchType,
+      createdAt: matches.createdAt
+    })
+      .from(matches)
+      .where(gte(matches.createdAt, earliestCutoff));
+
+    const matchesByPlayer = new Map<number, Array<{ matchType: string, createdAt: Date | null }>>();
+    for (const match of recentMatches) {
+      const playerIds = [match.playerOneId, match.playerTwoId, match.playerOnePartnerId, match.playerTwoPartnerId];
+      for (const playerId of playerIds) {
+        if (!playerId) continue;
+        if (!matchesByPlayer.has(playerId)) matchesByPlayer.set(playerId, []);
+        matchesByPlayer.get(playerId)!.push({ matchType: match.matchType, createdAt: match.createdAt });
+      }
+    }
+
+    const plan: WeeklyDecayPlan = {
+      decayDate: at,
+      playersChecked: allUsers.length,
+      totalPointsDecayed: 0,
+      tierBreakdown: {},
+      players: []
+    };
+
+    for (const user of allUsers) {
+      const division = getDecayDivision(user.dateOfBirth, at);
+      const policy = resolveDecayPolicy(policies, { region: user.region, division });
+
+      const cutoffDate = new Date(at);
+      cutoffDate.setDate(cutoffDate.getDate() - policy.rules.activityWindowDays);
+
+      const matchTypes = (matchesByPlayer.get(user.id) || [])
+        .filter(match => match.createdAt && match.createdAt >= cutoffDate)
+        .map(match => match.matchType);
+
+      const decay = calculateDecay(policy.rules, { rankingPoints: user.rankingPoints || 0, matchTypes }, at);
+
+      if (decay.pointsToDecay > 0) {
+        plan.players.push({
+          userId: user.id,
+          username: user.username,
+          displayName: user.displayName,
+          region: user.region,
+          division,
+          policyId: policy.id,
+          policyName: policy.name,
+          tier: decay.tier.name,
+          rankingPoints: user.rankingPoints || 0,
+          weightedMatches: decay.weightedMatches,
+          activityLevel: decay.activityLevel.description,
+          isHolidayPeriod: decay.isHolidayPeriod,
+          effectiveDecayRate: decay.effectiveDecayRate,
+          pointsToDecay: decay.pointsToDecay,
+          weightedMatchesToProtect: decay.weightedMatchesToProtect,
+          matchesToProtect: this.getMatchesToProtect(getTierMatchWeighting(policy.rules, decay.tier), decay.weightedMatchesToProtect)
+        });
+
+        // Track statistics
+        const tierName = decay.tier.name;
+        if (!plan.tierBreakdown[tierName]) {
+          plan.tierBreakdown[tierName] = { players: 0, pointsDecayed: 0 };
         }
+
+        plan.tierBreakdown[tierName].players++;
+        plan.tierBreakdown[tierName].pointsDecayed += decay.pointsToDecay;
+        plan.totalPointsDecayed += decay.pointsToDecay;
       }
     }
-    
-    return false;
+
+    return plan;
   }
 
   /**
    * Apply weekly decay to all eligible players
+   *
+   * @param options.dryRun - Only report who would decay and by how much
    */
-  static async processWeeklyDecay(): Promise<{
+  static async processWeeklyDecay(options: { dryRun?: boolean } = {}): Promise<{
+    dryRun: boolean;
     playersProcessed: number;
     totalPointsDecayed: number;
     tierBreakdown: Record<string, { players: number; pointsDecayed: number }>;
+    players: DecayPlanEntry[];
   }> {
-    
-    const allUsers = await db.query.users.findMany({
-      where: sql`${users.rankingPoints} > 0`,
-      columns: { id: true, rankingPoints: true }
-    });
 
-    const tierBreakdown: Record<string, { players: number; pointsDecayed: number }> = {};
-    let playersProcessed = 0;
-    let totalPointsDecayed = 0;
+    // TODO: Add lastDecayDate field to users schema so a run cannot be applied twice in a week
+    const plan = await this.buildWeeklyDecayPlan();
 
-    for (const user of allUsers) {
-      // Check if decay should be applied (weekly interval)
-      // For now, apply decay to all users. In production, add lastDecayDate field to users schema
-      const daysSinceDecay = 7; // Force weekly decay for testing
-
-      const decayInfo = await this.calculateDecayRate(user.id);
-      const pointsToDecay = Math.floor((user.rankingPoints || 0) * (decayInfo.effectiveDecayRate / 100));
-      
-      if (pointsToDecay > 0) {
+    if (!options.dryRun) {
+      for (const player of plan.players) {
         // Apply decay
         await db.update(users)
           .set({
-            rankingPoints: sql`${users.rankingPoints} - ${pointsToDecay}`
-            // TODO: Add lastDecayDate field to users schema
+            rankingPoints: sql`${users.rankingPoints} - ${player.pointsToDecay}`
           })
-          .where(eq(users.id, user.id));
+          .where(eq(users.id, player.userId));
 
-        // Track statistics
-        const tierName = decayInfo.tier.name;
-        if (!tierBreakdown[tierName]) {
-          tierBreakdown[tierName] = { players: 0, pointsDecayed: 0 };
-        }
-        
-        tierBreakdown[tierName].players++;
-        tierBreakdown[tierName].pointsDecayed += pointsToDecay;
-        totalPointsDecayed += pointsToDecay;
-        playersProcessed++;
+        // Record the decay so the ranking replay can reproduce it
+        await db.insert(rankingTransactions).values({
+          userId: player.userId,
+          amount: -player.pointsToDecay,
+          source: 'weekly_decay',
+          metadata: {
+            decayRate: player.effectiveDecayRate,
+            pointsBefore: player.rankingPoints,
+            tier: player.tier,
+            policyId: player.policyId
+          }
+        });
+
+        await recordPointsLedgerEntries([{
+          userId: player.userId,
+          currency: 'ranking',
+          entryType: 'decay',
+          amount: -player.pointsToDecay,
+          sourceType: 'decay',
+          multipliers: { decayRate: player.effectiveDecayRate },
+          calculationDetails: `${player.rankingPoints} × ${player.effectiveDecayRate}% weekly decay (${player.tier}, ${player.policyName}) = -${player.pointsToDecay}`,
+          metadata: { policyId: player.policyId }
+        }]);
       }
+
+      console.log(`[DecayProtection] Weekly decay applied to ${plan.players.length} players (${plan.totalPointsDecayed} points)`);
+    }
+
+    return {
+      dryRun: !!options.dryRun,
+      playersProcessed: plan.players.length,
+      totalPointsDecayed: plan.totalPointsDecayed,
+      tierBreakdown: plan.tierBreakdown,
+      players: plan.players
+    };
+  }
+
+  /**
+   * Warn every player who will decay at the next weekly run how much they
+   * stand to lose and how many weighted matches would protect them.
+   * Players already warned for that run are skipped.
+   */
+  static async sendDecayWarnings(decayDate: Date = this.getNextDecayDate()): Promise<{
+    decayDate: Date;
+    playersNotified: number;
+    alreadyNotified: number;
+  }> {
+
+    const plan = await this.buildWeeklyDecayPlan(decayDate);
+
+    // One warning per player per decay run, keyed by the run date (YYYYMMDD)
+    const runKey = decayDate.getFullYear() * 10000 + (decayDate.getMonth() + 1) * 100 + decayDate.getDate();
+    const existing = await db.execute(sql`
+      SELECT user_id FROM user_notifications
+      WHERE type = 'decay_warning' AND reference_type = 'weekly_decay' AND reference_id = ${runKey}
+    `);
+    const alreadyWarned = new Set(existing.rows.map((row: any) => Number(row.user_id)));
+
+    const dayLabel = decayDate.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+    const notificationWS = (global as any).notificationWS;
+    let playersNotified = 0;
+
+    for (const player of plan.players) {
+      if (alreadyWarned.has(player.userId)) continue;
+
+      const protection = player.weightedMatchesToProtect !== null && player.matchesToProtect
+        ? ` unless you play ${Number(player.weightedMatchesToProtect.toFixed(2))} more weighted matches (${player.matchesToProtect.tournament} tournament or ${player.matchesToProtect.league} league matches)`
+        : '';
+      const message = `You will lose ${player.pointsToDecay} ranking points on ${dayLabel}${protection}.`;
+
+      await db.execute(sql`
+        INSERT INTO user_notifications (user_id, type, title, message, reference_id, reference_type, link, is_read)
+        VALUES (
+          ${player.userId},
+          'decay_warning',
+          ${`Ranking points decay on ${decayDate.toLocaleDateString('en-US', { weekday: 'long' })}`},
+          ${message},
+          ${runKey},
+          'weekly_decay',
+          '/points-history',
+          false
+        )
+      `);
+
+      if (notificationWS) {
+        notificationWS.sendToUser(player.userId.toString(), {
+          type: 'ranking_update',
+          data: {
+            kind: 'decay_warning',
+            decayDate: decayDate.toISOString(),
+            pointsToDecay: player.pointsToDecay,
+            weightedMatchesToProtect: player.weightedMatchesToProtect,
+            matchesToProtect: player.matchesToProtect,
+            message
+          }
+        });
+      }
+
+      playersNotified++;
     }
 
+    console.log(`[DecayProtection] Sent ${playersNotified} decay warnings for ${decayDate.toISOString()}`);
+
     return {
-      playersProcessed,
-      totalPointsDecayed,
-      tierBreakdown
+      decayDate,
+      playersNotified,
+      alreadyNotified: plan.players.length - playersNotified
     };
   }
 
@@ -349,31 +501,25 @@ export class DecayProtectionService {
     activitySummary: string;
     recommendations: string[];
   }> {
-    
-    const decayInfo = await this.calculateDecayRate(userId);
-    const activity = await this.calculateWeightedActivity(userId);
-    
+
+    const now = new Date();
+    const nextDecayDate = this.getNextDecayDate(now);
+    const decayInfo = await this.calculateDecayRate(userId, nextDecayDate);
+
     const isProtected = decayInfo.effectiveDecayRate === 0;
-    
-    // Calculate days until next decay
-    // TODO: Add lastDecayDate field to users schema for accurate calculation
-    const daysUntilDecay = 7; // Default weekly cycle for now
-    
+
+    const daysUntilDecay = Math.ceil((nextDecayDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+
     // Generate recommendations
     const recommendations: string[] = [];
-    
-    if (!isProtected) {
-      if (activity.tier.name === 'professional') {
-        recommendations.push(`Play ${Math.ceil((4 - activity.weightedMatches) / 3)} more tournaments for full protection`);
-        recommendations.push(`Or play ${Math.ceil((4 - activity.weightedMatches) / 2)} more league matches`);
-      } else {
-        recommendations.push(`Play ${Math.ceil((4 - activity.weightedMatches) / 2)} more tournaments for full protection`);
-        recommendations.push(`Or play ${Math.ceil((4 - activity.weightedMatches) / 1.5)} more league matches`);
-      }
+
+    if (!isProtected && decayInfo.matchesToProtect) {
+      recommendations.push(`Play ${decayInfo.matchesToProtect.tournament} more tournaments for full protection`);
+      recommendations.push(`Or play ${decayInfo.matchesToProtect.league} more league matches`);
     }
-    
-    const activitySummary = `${decayInfo.activityLevel.description} (${activity.weightedMatches.toFixed(1)} weighted matches)`;
-    
+
+    const activitySummary = `${decayInfo.activityLevel.description} (${decayInfo.weightedMatches.toFixed(1)} weighted matches)`;
+
     return {
       isProtected,
       daysUntilDecay,
@@ -382,4 +528,4 @@ export class DecayProtectionService {
       recommendations
     };
   }
-}
\ No newline at end of file
+}
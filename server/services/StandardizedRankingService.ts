@@ -18,11 +18,18 @@
 
 import { db } from "../db";
 import { users, matches, rankingTransactions, type User } from "@shared/schema";
+import { recordPointsLedgerEntries } from "./points-ledger-service";
+import { publishDomainEvent } from "../core/events/domain-events";
 import { eq, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import { DecayProtectionService } from "./DecayProtectionService";
+import { updateSkillRatingsForMatch } from "./skill-rating-service";
+import { resolvePredictionsForMatch } from "./match-prediction-service";
 import { GenderBalanceService, Player, Team } from "./GenderBalanceService";
 import { getEligibleAgeGroups, validateMultiAgeGroupUpdate, type AgeDivision } from "@shared/utils/algorithmValidation";
 
+type Writer = PgDatabase<any, any, any>;
+
 // Define Match type inline since it may not be exported
 interface Match {
   id: number;
@@ -197,11 +204,14 @@ export class StandardizedRankingService {
    * 
    * CRITICAL ENHANCEMENT: Now updates ALL eligible age group rankings
    * Example: 42-year-old in Open event updates BOTH Open (19+) AND 35+ rankings
+   *
+   * Pass the caller's transaction to award the points together with its change.
    */
   static async processMatchRankingPoints(
     match: Match,
     winnerId: number,
-    loserId: number
+    loserId: number,
+    writer: Writer = db
   ): Promise<{
     winnerCalculation: RankingPointsCalculation;
     loserCalculation: RankingPointsCalculation;
@@ -264,9 +274,40 @@ export class StandardizedRankingService {
     );
     loserCalculation.userId = loserId;
 
-    // Award points to both players in ALL eligible age groups
-    const winnerUpdatedGroups = await this.awardMultiAgeGroupPoints(winnerCalculation, match.id, winner.dateOfBirth);
-    const loserUpdatedGroups = await this.awardMultiAgeGroupPoints(loserCalculation, match.id, loser.dateOfBirth);
+    // Award points to both players in ALL eligible age groups, publishing the
+    // ranking events with the awards so partners only hear about committed points
+    const { winnerUpdatedGroups, loserUpdatedGroups } = await writer.transaction(async (tx) => {
+      const winnerAward = await this.awardMultiAgeGroupPoints(winnerCalculation, match.id, winner.dateOfBirth!, tx);
+      const loserAward = await this.awardMultiAgeGroupPoints(loserCalculation, match.id, loser.dateOfBirth!, tx);
+
+      const changedAt = new Date().toISOString();
+      const awards = [
+        { calculation: winnerCalculation, rankingPoints: winnerAward.rankingPoints },
+        { calculation: loserCalculation, rankingPoints: loserAward.rankingPoints }
+      ];
+      for (const { calculation, rankingPoints } of awards) {
+        await publishDomainEvent(tx, 'user.ranking_changed', {
+          user_id: calculation.userId,
+          match_id: match.id,
+          points_change: calculation.openRankingPoints,
+          ranking_points: rankingPoints,
+          changed_at: changedAt
+        });
+      }
+      await publishDomainEvent(tx, 'match.rankings_updated', {
+        match_id: match.id,
+        players: awards.map(({ calculation, rankingPoints }) => ({
+          user_id: calculation.userId,
+          points_change: calculation.openRankingPoints,
+          ranking_points: rankingPoints
+        })),
+        updated_at: changedAt
+      });
+
+      return { winnerUpdatedGroups: winnerAward.updatedGroups, loserUpdatedGroups: loserAward.updatedGroups };
+    });
+
+    await this.updateSkillRatingsAndPredictions(match.id, writer);
     
     // Validate multi-age group compliance
     const winnerValidation = validateMultiAgeGroupUpdate(
@@ -297,6 +338,26 @@ export class StandardizedRankingService {
     };
   }
 
+  /**
+   * Rate a match whose points were awarded and resolve the prediction made
+   * for it. Every path that awards match points calls this; both steps skip
+   * a match they already handled, and a failure in either is logged without
+   * undoing the points (each runs in its own savepoint of the caller's transaction).
+   */
+  static async updateSkillRatingsAndPredictions(matchId: number, writer: Writer = db): Promise<void> {
+    try {
+      await writer.transaction(async (tx) => { await updateSkillRatingsForMatch(matchId, tx); });
+    } catch (error) {
+      console.error('[StandardizedRanking] Skill rating update failed for match', matchId, error);
+    }
+
+    try {
+      await writer.transaction(async (tx) => { await resolvePredictionsForMatch(matchId, tx); });
+    } catch (error) {
+      console.error('[StandardizedRanking] Prediction resolution failed for match', matchId, error);
+    }
+  }
+
   /**
    * Calculate gender multiplier for cross-gender matches
    */
@@ -310,27 +371,33 @@ export class StandardizedRankingService {
 
   /**
    * ENHANCED: Award ranking points to ALL eligible age groups (multi-age group system)
+   * @returns The age groups updated and the player's new ranking points
    */
   private static async awardMultiAgeGroupPoints(
     calculation: RankingPointsCalculation,
     matchId: number,
-    playerDateOfBirth: string
-  ): Promise<AgeDivision[]> {
+    playerDateOfBirth: string,
+    writer: Writer = db
+  ): Promise<{ updatedGroups: AgeDivision[]; rankingPoints: number }> {
     
     const eligibleAgeGroups = getEligibleAgeGroups(playerDateOfBirth);
     const updatedGroups: AgeDivision[] = [];
     
     // Update primary user ranking points (main display)
-    await db.update(users)
+    const [updated] = await writer.update(users)
       .set({
         rankingPoints: sql`${users.rankingPoints} + ${calculation.openRankingPoints}`,
       })
-      .where(eq(users.id, calculation.userId));
+      .where(eq(users.id, calculation.userId))
+      .returning({ rankingPoints: users.rankingPoints });
 
-    // Create transaction record for each eligible age group
+    await this.recordLedgerAward(calculation, matchId, writer);
+
+    // Create transaction record for each eligible age group; each runs in a
+    // savepoint so one failed group doesn't abort the caller's transaction
     for (const ageGroup of eligibleAgeGroups) {
       try {
-        await db.insert(rankingTransactions)
+        await writer.transaction(savepoint => savepoint.insert(rankingTransactions)
           .values({
             userId: calculation.userId,
             amount: calculation.openRankingPoints,
@@ -350,7 +417,7 @@ export class StandardizedRankingService {
               ageGroup,
               multiAgeGroupUpdate: true
             }
-          });
+          }));
         
         updatedGroups.push(ageGroup);
         console.log(`[Multi-Age Award] User ${calculation.userId}: ${ageGroup} ranking updated (+${calculation.openRankingPoints})`);
@@ -360,7 +427,31 @@ export class StandardizedRankingService {
       }
     }
     
-    return updatedGroups;
+    return { updatedGroups, rankingPoints: updated?.rankingPoints ?? 0 };
+  }
+
+  /**
+   * Append a player's open ranking award to the points ledger
+   */
+  private static async recordLedgerAward(
+    calculation: RankingPointsCalculation,
+    matchId: number,
+    writer: Writer = db
+  ): Promise<void> {
+    await recordPointsLedgerEntries([{
+      userId: calculation.userId,
+      currency: 'ranking',
+      entryType: 'match_award',
+      amount: calculation.openRankingPoints,
+      sourceType: 'match',
+      sourceId: matchId,
+      multipliers: {
+        age: calculation.ageMultiplier,
+        gender: calculation.genderMultiplier,
+        tier: calculation.tierMultiplier
+      },
+      calculationDetails: Object.values(calculation.breakdown).filter(Boolean).join('; ')
+    }], writer);
   }
 
   /**
@@ -381,6 +472,8 @@ export class StandardizedRankingService {
       })
       .where(eq(users.id, calculation.userId));
 
+    await this.recordLedgerAward(calculation, matchId);
+
     // Create transaction record with dual ranking data
     await db.insert(rankingTransactions)
       .values({
@@ -482,8 +575,8 @@ export class StandardizedRankingService {
   /**
    * Process weekly decay for all eligible players
    */
-  static async processWeeklyDecay() {
-    return await DecayProtectionService.processWeeklyDecay();
+  static async processWeeklyDecay(options: { dryRun?: boolean } = {}) {
+    return await DecayProtectionService.processWeeklyDecay(options);
   }
 
   /**
@@ -0,0 +1,74 @@
+/**
+ * Test Suite for API Idempotency Keys
+ *
+ * Covers key validation, the request fingerprint a key is bound to and what
+ * a retry gets back for each state of a stored key
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  canonicalJson,
+  idempotencyOutcome,
+  idempotencyRequestHash,
+  isStorableResponse,
+  isValidIdempotencyKey,
+  type StoredIdempotencyKey
+} from '../../../shared/utils/apiIdempotency';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+describe('idempotency keys', () => {
+  test('accept printable ASCII up to 255 characters', () => {
+    expect(isValidIdempotencyKey('8e03978e-40d5-43e8-bc93-6894a57f9324')).toBe(true);
+    expect(isValidIdempotencyKey('a'.repeat(255))).toBe(true);
+    expect(isValidIdempotencyKey('a'.repeat(256))).toBe(false);
+    expect(isValidIdempotencyKey('')).toBe(false);
+    expect(isValidIdempotencyKey('has space')).toBe(false);
+  });
+});
+
+describe('request hash', () => {
+  test('ignores key order but not values, method or path', () => {
+    const hash = idempotencyRequestHash('POST', '/api/v1/matches', { team1: [{ user_id: 1 }], games: [{ team1: 11, team2: 4 }] });
+
+    expect(idempotencyRequestHash('post', '/api/v1/matches', { games: [{ team2: 4, team1: 11 }], team1: [{ user_id: 1 }] })).toBe(hash);
+    expect(idempotencyRequestHash('POST', '/api/v1/matches', { team1: [{ user_id: 1 }], games: [{ team1: 11, team2: 5 }] })).not.toBe(hash);
+    expect(idempotencyRequestHash('POST', '/api/v1/bookings', { team1: [{ user_id: 1 }], games: [{ team1: 11, team2: 4 }] })).not.toBe(hash);
+  });
+
+  test('canonical JSON drops undefined properties', () => {
+    expect(canonicalJson({ b: 1, a: undefined, c: [undefined, 'x'] })).toBe('{"b":1,"c":[null,"x"]}');
+  });
+});
+
+describe('idempotencyOutcome', () => {
+  const stored: StoredIdempotencyKey = {
+    requestHash: 'hash',
+    status: 'completed',
+    lockedUntil: minutesFromNow(-59),
+    expiresAt: minutesFromNow(60)
+  };
+
+  test('replays a completed request and refuses a different one', () => {
+    expect(idempotencyOutcome(stored, 'hash', now)).toBe('replay');
+    expect(idempotencyOutcome(stored, 'other', now)).toBe('mismatch');
+  });
+
+  test('a retry waits while the first request is processing, and takes over once its lock lapses', () => {
+    const processing: StoredIdempotencyKey = { ...stored, status: 'processing', lockedUntil: minutesFromNow(1) };
+
+    expect(idempotencyOutcome(processing, 'hash', now)).toBe('in_progress');
+    expect(idempotencyOutcome(processing, 'hash', minutesFromNow(2))).toBe('restart');
+  });
+
+  test('an expired key starts over, even for a different request', () => {
+    expect(idempotencyOutcome(stored, 'other', minutesFromNow(61))).toBe('restart');
+  });
+
+  test('only responses other than server errors are stored', () => {
+    expect(isStorableResponse(201)).toBe(true);
+    expect(isStorableResponse(409)).toBe(true);
+    expect(isStorableResponse(503)).toBe(false);
+  });
+});
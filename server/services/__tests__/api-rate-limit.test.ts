@@ -0,0 +1,133 @@
+/**
+ * Test Suite for API Rate Limiting
+ *
+ * Covers sliding window and token bucket limits, rate limit headers, and the
+ * in-memory store's concurrency slots and monthly quotas
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  applyRateLimit,
+  mostRestrictive,
+  quotaPeriod,
+  rateLimitHeaders,
+  type RateLimitRule,
+  type RateLimitState
+} from '../../../shared/utils/rateLimit';
+import { MemoryRateLimitStore } from '../../modules/api-gateway/utils/memory-rate-limit-store';
+
+const windowStart = new Date('2026-03-01T12:00:00Z');
+const at = (seconds: number) => new Date(windowStart.getTime() + seconds * 1000);
+
+function run(rule: RateLimitRule, times: number, now: Date, state: RateLimitState | null = null) {
+  let result = applyRateLimit(rule, state, now);
+  for (let i = 1; i < times; i++) {
+    result = applyRateLimit(rule, result.state, now);
+  }
+  return result;
+}
+
+describe('sliding window', () => {
+  const rule: RateLimitRule = { algorithm: 'sliding_window', limit: 10, windowSeconds: 60 };
+
+  test('allows up to the limit in a window, then refuses until it slides', () => {
+    const full = run(rule, 10, at(0));
+    expect(full.decision).toMatchObject({ allowed: true, remaining: 0 });
+
+    const refused = applyRateLimit(rule, full.state, at(30));
+    expect(refused.decision.allowed).toBe(false);
+    expect(refused.decision.retryAfterSeconds).toBe(30);
+  });
+
+  test('weights the previous window by how much of it still overlaps', () => {
+    const previous = run(rule, 10, at(0));
+
+    // A quarter into the next window, 75% of the previous 10 still count
+    const next = run(rule, 2, at(75), previous.state);
+    expect(next.decision).toMatchObject({ allowed: true, remaining: 0 });
+    expect(applyRateLimit(rule, next.state, at(75)).decision.allowed).toBe(false);
+    expect(applyRateLimit(rule, next.state, at(90)).decision.allowed).toBe(true);
+  });
+
+  test('forgets counts from windows before the previous one', () => {
+    const old = run(rule, 10, at(0));
+    expect(applyRateLimit(rule, old.state, at(125)).decision).toMatchObject({ allowed: true, remaining: 9 });
+  });
+});
+
+describe('token bucket', () => {
+  const rule: RateLimitRule = { algorithm: 'token_bucket', limit: 60, windowSeconds: 60, burst: 5 };
+
+  test('allows a burst up to the bucket size', () => {
+    const burst = run(rule, 5, at(0));
+    expect(burst.decision).toMatchObject({ allowed: true, remaining: 0, limit: 5 });
+    expect(applyRateLimit(rule, burst.state, at(0)).decision).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+  });
+
+  test('refills at the average rate without exceeding the bucket', () => {
+    const burst = run(rule, 5, at(0));
+    expect(applyRateLimit(rule, burst.state, at(2)).decision).toMatchObject({ allowed: true, remaining: 1 });
+    expect(applyRateLimit(rule, burst.state, at(600)).decision).toMatchObject({ allowed: true, remaining: 4 });
+  });
+
+  test('charges the cost of a request', () => {
+    expect(applyRateLimit(rule, null, at(0), 4).decision.remaining).toBe(1);
+    expect(applyRateLimit(rule, null, at(0), 6).decision.allowed).toBe(false);
+  });
+});
+
+describe('headers and combined limits', () => {
+  test('reports the most restrictive limit with an epoch reset', () => {
+    const relaxed = { allowed: true, limit: 100, remaining: 80, resetAt: at(60), retryAfterSeconds: null };
+    const tight = { allowed: true, limit: 10, remaining: 2, resetAt: at(30), retryAfterSeconds: null };
+    const refused = { allowed: false, limit: 10, remaining: 0, resetAt: at(30), retryAfterSeconds: 12 };
+
+    expect(mostRestrictive([relaxed, tight])).toBe(tight);
+    expect(mostRestrictive([tight, refused, relaxed])).toBe(refused);
+    expect(rateLimitHeaders(refused)).toEqual({
+      'X-RateLimit-Limit': '10',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(at(30).getTime() / 1000),
+      'Retry-After': '12'
+    });
+  });
+
+  test('counts quotas per UTC calendar month', () => {
+    expect(quotaPeriod(new Date('2026-12-31T23:59:59Z'))).toEqual({
+      start: new Date('2026-12-01T00:00:00Z'),
+      end: new Date('2027-01-01T00:00:00Z')
+    });
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  test('limits concurrent requests until a slot is released or expires', async () => {
+    const store = new MemoryRateLimitStore();
+    const first = await store.acquireConcurrency('key:1', 2, 1000, at(0));
+    await store.acquireConcurrency('key:1', 2, 1000, at(0));
+
+    expect((await store.acquireConcurrency('key:1', 2, 1000, at(0))).acquired).toBe(false);
+    await store.releaseConcurrency('key:1', first.leaseId!);
+    expect((await store.acquireConcurrency('key:1', 2, 1000, at(0))).acquired).toBe(true);
+    expect((await store.acquireConcurrency('key:1', 2, 1000, at(2))).acquired).toBe(true);
+  });
+
+  test('refuses requests once the monthly quota is used', async () => {
+    const store = new MemoryRateLimitStore();
+    const { start } = quotaPeriod(at(0));
+
+    expect(await store.incrementQuota('developer:4', start, 2)).toEqual({ allowed: true, used: 1 });
+    expect(await store.incrementQuota('developer:4', start, 2)).toEqual({ allowed: true, used: 2 });
+    expect(await store.incrementQuota('developer:4', start, 2)).toEqual({ allowed: false, used: 2 });
+    expect(await store.getQuotaUsage('developer:4', start)).toBe(2);
+  });
+
+  test('keeps each key\'s window separately', async () => {
+    const store = new MemoryRateLimitStore();
+    const rule: RateLimitRule = { algorithm: 'sliding_window', limit: 1, windowSeconds: 60 };
+
+    expect((await store.consume('key:1', rule, at(0))).allowed).toBe(true);
+    expect((await store.consume('key:1', rule, at(1))).allowed).toBe(false);
+    expect((await store.consume('key:2', rule, at(1))).allowed).toBe(true);
+  });
+});
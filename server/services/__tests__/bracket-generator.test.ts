@@ -0,0 +1,106 @@
+/**
+ * Test Suite for Bracket Generator plans
+ * 
+ * Verifies the structure and routing of single elimination, double
+ * elimination and consolation bracket plans (no database required)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  planSingleEliminationBracket,
+  planDoubleEliminationBracket,
+  planConsolationBracket,
+  type BracketPlan
+} from '../bracket-generator';
+
+/**
+ * Counts how often each "matchIndex:slot" is targeted by winner/loser routing
+ */
+function countFeeds(plan: BracketPlan): Map<string, number> {
+  const feeds = new Map<string, number>();
+  plan.matches.forEach(match => {
+    [match.winnerTo, match.loserTo].forEach(target => {
+      if (!target) return;
+      const key = `${target.matchIndex}:${target.slot}`;
+      feeds.set(key, (feeds.get(key) || 0) + 1);
+    });
+  });
+  return feeds;
+}
+
+describe('bracket-generator plans', () => {
+
+  describe('planSingleEliminationBracket', () => {
+    test('should create N-1 matches with winners meeting in the next round', () => {
+      const plan = planSingleEliminationBracket(8);
+
+      expect(plan.matches).toHaveLength(7);
+      expect(plan.rounds.map(r => r.roundName)).toEqual(['Quarter-Finals', 'Semi-Finals', 'Final']);
+      expect(plan.matches[0].winnerTo).toEqual({ matchIndex: 4, slot: 1 });
+      expect(plan.matches[1].winnerTo).toEqual({ matchIndex: 4, slot: 2 });
+      expect(plan.matches[3].winnerTo).toEqual({ matchIndex: 5, slot: 2 });
+      expect(plan.matches[6].winnerTo).toBeNull();
+    });
+  });
+
+  describe('planDoubleEliminationBracket', () => {
+    test('should create winners, losers and grand final sides for 8 teams', () => {
+      const plan = planDoubleEliminationBracket(8);
+      const count = (side: string) => plan.matches.filter(m => m.side === side).length;
+
+      expect(count('winners')).toBe(7);
+      expect(count('losers')).toBe(6);
+      expect(count('grand_final')).toBe(1);
+      expect(count('grand_final_reset')).toBe(1);
+    });
+
+    test('should route every first-round loser into losers round 1', () => {
+      const plan = planDoubleEliminationBracket(8);
+      const losersRound1 = plan.rounds.findIndex(r => r.side === 'losers' && r.roundNumber === 1);
+
+      plan.matches.slice(0, 4).forEach(match => {
+        expect(match.loserTo).not.toBeNull();
+        expect(plan.matches[match.loserTo!.matchIndex].roundIndex).toBe(losersRound1);
+      });
+    });
+
+    test('should drop the winners final loser into the losers final', () => {
+      const plan = planDoubleEliminationBracket(8);
+      const winnersFinal = plan.matches[6];
+      const losersFinal = plan.matches.filter(m => m.side === 'losers').pop()!;
+
+      expect(plan.matches[winnersFinal.loserTo!.matchIndex]).toBe(losersFinal);
+      expect(winnersFinal.loserTo!.slot).toBe(2);
+    });
+
+    test('should feed each slot at most once', () => {
+      [2, 4, 8, 16, 32].forEach(size => {
+        const feeds = countFeeds(planDoubleEliminationBracket(size));
+        expect(Array.from(feeds.values()).every(count => count === 1)).toBe(true);
+      });
+    });
+
+    test('should omit the bracket reset match when disabled', () => {
+      const plan = planDoubleEliminationBracket(4, { bracketReset: false });
+      const grandFinal = plan.matches[plan.matches.length - 1];
+
+      expect(grandFinal.side).toBe('grand_final');
+      expect(grandFinal.winnerTo).toBeNull();
+    });
+  });
+
+  describe('planConsolationBracket', () => {
+    test('should send main draw first-round losers to the consolation draw', () => {
+      const plan = planConsolationBracket(8);
+      const consolation = plan.matches.filter(m => m.side === 'consolation');
+
+      expect(consolation).toHaveLength(3);
+      plan.matches.slice(0, 4).forEach(match => {
+        expect(plan.matches[match.loserTo!.matchIndex].side).toBe('consolation');
+      });
+      plan.matches.slice(4).filter(m => m.side === 'winners').forEach(match => {
+        expect(match.loserTo).toBeNull();
+      });
+    });
+  });
+});
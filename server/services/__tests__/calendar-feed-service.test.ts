@@ -0,0 +1,102 @@
+/**
+ * Test Suite for iCalendar Feeds
+ *
+ * Covers text escaping, line folding, stable UIDs and sequences, and how
+ * cancelled bookings are published to subscribers
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildICalendar,
+  calendarEventUid,
+  escapeICalText,
+  foldICalLine,
+  formatICalDateTime,
+  type CalendarEvent
+} from '../../../shared/utils/icalendar';
+
+const now = new Date('2025-06-01T08:00:00Z');
+
+const lesson: CalendarEvent = {
+  uid: calendarEventUid('booking', 42),
+  summary: 'Private lesson with Coach Lee',
+  description: 'Focus: dinks, drops; third-shot',
+  location: 'Court 3, Riverside',
+  start: new Date('2025-06-10T18:00:00Z'),
+  end: new Date('2025-06-10T19:00:00Z'),
+  status: 'CONFIRMED',
+  lastModified: new Date('2025-06-01T07:00:00Z')
+};
+
+const linesOf = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('iCalendar formatting', () => {
+  test('formats UTC date-times without separators', () => {
+    expect(formatICalDateTime(new Date('2025-03-14T09:30:15.250Z'))).toBe('20250314T093015Z');
+  });
+
+  test('escapes reserved characters in text', () => {
+    expect(escapeICalText('a;b,c\\d\nline')).toBe('a\\;b\\,c\\\\d\\nline');
+  });
+
+  test('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldICalLine(`SUMMARY:${'é'.repeat(60)}`);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(parts.every(part => new TextEncoder().encode(part).length <= 75)).toBe(true);
+    expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+});
+
+describe('buildICalendar', () => {
+  test('produces a CRLF calendar with one event per record', () => {
+    const calendar = buildICalendar([lesson], { name: 'Pickle+ schedule', refreshIntervalHours: 1, now });
+    const lines = linesOf(calendar);
+
+    expect(calendar.endsWith('\r\n')).toBe(true);
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:booking-42@pickleplus.app');
+    expect(lines).toContain('DTSTART:20250610T180000Z');
+    expect(lines).toContain('DESCRIPTION:Focus: dinks\\, drops\\; third-shot');
+    expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+  });
+
+  test('keeps the UID and raises the sequence when a booking is cancelled', () => {
+    const before = linesOf(buildICalendar([lesson], { name: 'Schedule', now }));
+    const cancelled = linesOf(buildICalendar([{ ...lesson, status: 'CANCELLED' }], { name: 'Schedule', now }));
+    const sequence = (lines: string[]) => Number(lines.find(line => line.startsWith('SEQUENCE:'))!.slice(9));
+
+    expect(cancelled).toContain('UID:booking-42@pickleplus.app');
+    expect(cancelled).toContain('STATUS:CANCELLED');
+    expect(cancelled).toContain('SUMMARY:Cancelled: Private lesson with Coach Lee');
+    expect(cancelled).toContain('TRANSP:TRANSPARENT');
+    expect(sequence(cancelled)).toBeGreaterThan(sequence(before));
+  });
+
+  test('a later modification gives a higher sequence', () => {
+    const moved = { ...lesson, start: new Date('2025-06-11T18:00:00Z'), end: new Date('2025-06-11T19:00:00Z'), lastModified: new Date('2025-06-02T07:00:00Z') };
+    const sequences = [lesson, moved].map(event =>
+      Number(linesOf(buildICalendar([event], { name: 'Schedule', now })).find(line => line.startsWith('SEQUENCE:'))!.slice(9))
+    );
+
+    expect(sequences[1]).toBeGreaterThan(sequences[0]);
+  });
+
+  test('orders events by start time and gives zero-length events an hour', () => {
+    const clinic: CalendarEvent = {
+      uid: calendarEventUid('class', 7),
+      summary: 'Beginner clinic',
+      start: new Date('2025-06-05T10:00:00Z'),
+      end: new Date('2025-06-05T10:00:00Z'),
+      status: 'CONFIRMED'
+    };
+    const lines = linesOf(buildICalendar([lesson, clinic], { name: 'Schedule', now }));
+    const uids = lines.filter(line => line.startsWith('UID:'));
+
+    expect(uids).toEqual(['UID:class-7@pickleplus.app', 'UID:booking-42@pickleplus.app']);
+    expect(lines).toContain('DTEND:20250605T110000Z');
+  });
+});
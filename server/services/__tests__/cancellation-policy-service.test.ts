@@ -0,0 +1,114 @@
+/**
+ * Test Suite for Booking Cancellation Policies
+ *
+ * Covers the refund tiers, late-cancel and no-show fees for paid and unpaid
+ * bookings, policy validation and the coach's revenue after a refund
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  evaluateCancellation,
+  splitSessionRevenue,
+  toCents,
+  validateCancellationPolicy,
+  type CancellationRequest
+} from '../../../shared/utils/cancellationPolicy';
+
+const startsAt = new Date('2025-06-10T18:00:00Z');
+const hoursBefore = (hours: number) => new Date(startsAt.getTime() - hours * 60 * 60 * 1000);
+
+const paid: CancellationRequest = {
+  priceCents: 9500,
+  paidCents: 9500,
+  startsAt,
+  at: hoursBefore(48),
+  initiatedBy: 'student'
+};
+
+describe('evaluateCancellation', () => {
+  test('refunds in full outside the full refund window', () => {
+    expect(evaluateCancellation(DEFAULT_CANCELLATION_POLICY, paid)).toEqual({
+      tier: 'full_refund',
+      hoursBeforeStart: 48,
+      chargeableCents: 0,
+      refundCents: 9500,
+      feeCents: 0
+    });
+    expect(evaluateCancellation(DEFAULT_CANCELLATION_POLICY, { ...paid, at: hoursBefore(24) }).tier).toBe('full_refund');
+  });
+
+  test('refunds part of the price inside the full refund window', () => {
+    const outcome = evaluateCancellation(DEFAULT_CANCELLATION_POLICY, { ...paid, at: hoursBefore(12) });
+
+    expect(outcome.tier).toBe('partial_refund');
+    expect(outcome.refundCents).toBe(4750);
+    expect(outcome.chargeableCents).toBe(4750);
+  });
+
+  test('late cancellations keep the late-cancel fee', () => {
+    const policy = { ...DEFAULT_CANCELLATION_POLICY, lateCancelFeePercent: 80 };
+    const outcome = evaluateCancellation(policy, { ...paid, at: hoursBefore(2) });
+
+    expect(outcome.tier).toBe('late_cancel');
+    expect(outcome.refundCents).toBe(1900);
+    expect(outcome.feeCents).toBe(0);
+  });
+
+  test('unpaid bookings owe the fee instead', () => {
+    const outcome = evaluateCancellation(DEFAULT_CANCELLATION_POLICY, { ...paid, paidCents: 0, at: hoursBefore(12) });
+
+    expect(outcome.refundCents).toBe(0);
+    expect(outcome.feeCents).toBe(4750);
+  });
+
+  test('no-shows are charged the no-show fee', () => {
+    const policy = { ...DEFAULT_CANCELLATION_POLICY, noShowFeePercent: 100 };
+    const outcome = evaluateCancellation(policy, {
+      ...paid,
+      at: new Date(startsAt.getTime() + 30 * 60 * 1000),
+      initiatedBy: 'coach',
+      noShow: true
+    });
+
+    expect(outcome).toEqual({ tier: 'no_show', hoursBeforeStart: -0.5, chargeableCents: 9500, refundCents: 0, feeCents: 0 });
+  });
+
+  test('the coach or facility cancelling always refunds in full', () => {
+    for (const initiatedBy of ['coach', 'facility', 'admin'] as const) {
+      const outcome = evaluateCancellation(DEFAULT_CANCELLATION_POLICY, { ...paid, at: hoursBefore(1), initiatedBy });
+      expect(outcome.tier).toBe('provider_cancelled');
+      expect(outcome.refundCents).toBe(9500);
+    }
+  });
+});
+
+describe('validateCancellationPolicy', () => {
+  test('accepts the default policy', () => {
+    expect(validateCancellationPolicy(DEFAULT_CANCELLATION_POLICY)).toEqual([]);
+  });
+
+  test('rejects overlapping windows and out of range percentages', () => {
+    const errors = validateCancellationPolicy({
+      ...DEFAULT_CANCELLATION_POLICY,
+      partialRefundHours: 48,
+      noShowFeePercent: 120
+    });
+
+    expect(errors).toHaveLength(2);
+    expect(errors[1]).toContain('noShowFeePercent');
+  });
+});
+
+describe('splitSessionRevenue', () => {
+  test('recomputes the coach share at the original commission rate', () => {
+    expect(splitSessionRevenue(4750, 15)).toEqual({ grossCents: 4750, platformFeeCents: 713, coachEarningsCents: 4037 });
+    expect(splitSessionRevenue(0, 15)).toEqual({ grossCents: 0, platformFeeCents: 0, coachEarningsCents: 0 });
+  });
+
+  test('reads decimal money columns as cents', () => {
+    expect(toCents('95.00')).toBe(9500);
+    expect(toCents(12.5)).toBe(1250);
+    expect(toCents(null)).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Test Suite for Class Waitlist Promotion
+ *
+ * Covers skill-level eligibility, claim windows near the class start and
+ * the order in which freed spots are offered
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  classSkillTier,
+  claimWindowExpiry,
+  isEligibleForClass,
+  planWaitlistOffers,
+  playerSkillTier
+} from '../../../shared/utils/classWaitlist';
+
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+describe('skill eligibility', () => {
+  test('reads player levels from DUPR ratings before stated levels', () => {
+    expect(playerSkillTier({ duprRating: '4.25', skillLevel: 'beginner' })).toBe('advanced');
+    expect(playerSkillTier({ skillLevel: '3.5 Intermediate+' })).toBe('intermediate');
+    expect(playerSkillTier({ skillLevel: 'Novice' })).toBe('beginner');
+    expect(playerSkillTier({ skillLevel: null, duprRating: null })).toBeNull();
+  });
+
+  test('allows the class tier and one tier either side', () => {
+    expect(isEligibleForClass('intermediate', 'beginner')).toBe(true);
+    expect(isEligibleForClass('intermediate', 'advanced')).toBe(true);
+    expect(isEligibleForClass('advanced', 'beginner')).toBe(false);
+    expect(isEligibleForClass('beginner', 'advanced')).toBe(false);
+  });
+
+  test('open classes take everyone and unknown levels only join beginner classes', () => {
+    expect(classSkillTier('all levels')).toBeNull();
+    expect(isEligibleForClass(null, 'advanced')).toBe(true);
+    expect(isEligibleForClass('beginner', null)).toBe(true);
+    expect(isEligibleForClass('intermediate', null)).toBe(false);
+  });
+});
+
+describe('claimWindowExpiry', () => {
+  const classStart = new Date('2025-06-10T18:00:00Z');
+
+  test('gives the full claim window when the class is far off', () => {
+    const now = new Date('2025-06-09T10:00:00Z');
+    expect(claimWindowExpiry(now, classStart)).toEqual(minutesAfter(now, 120));
+  });
+
+  test('closes offers an hour before the class starts', () => {
+    const now = new Date('2025-06-10T16:00:00Z');
+    expect(claimWindowExpiry(now, classStart)).toEqual(new Date('2025-06-10T17:00:00Z'));
+  });
+
+  test('makes no offer when the window would be too short', () => {
+    expect(claimWindowExpiry(new Date('2025-06-10T16:50:00Z'), classStart)).toBeNull();
+    expect(claimWindowExpiry(new Date('2025-06-10T19:00:00Z'), classStart)).toBeNull();
+  });
+});
+
+describe('planWaitlistOffers', () => {
+  test('offers spots in waitlist order', () => {
+    const plan = planWaitlistOffers([
+      { entryId: 3, position: 3, eligible: true },
+      { entryId: 1, position: 1, eligible: true },
+      { entryId: 2, position: 2, eligible: true }
+    ], 2);
+
+    expect(plan).toEqual({ offer: [1, 2], skipped: [] });
+  });
+
+  test('passes over ineligible players ahead of the next offer', () => {
+    const plan = planWaitlistOffers([
+      { entryId: 1, position: 1, eligible: false },
+      { entryId: 2, position: 2, eligible: true },
+      { entryId: 3, position: 3, eligible: false }
+    ], 1);
+
+    expect(plan).toEqual({ offer: [2], skipped: [1] });
+  });
+
+  test('offers nothing without open spots', () => {
+    expect(planWaitlistOffers([{ entryId: 1, position: 1, eligible: true }], 0)).toEqual({ offer: [], skipped: [] });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Test Suite for Decay Policy Service
+ *
+ * Covers decay calculations under the built-in policy, dated holiday
+ * calendars and resolving the most specific policy for a player
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { resolveDecayPolicy } from '../decay-policy-service';
+import {
+  calculateDecay,
+  isHolidayPeriod,
+  validateDecayRules,
+  DEFAULT_DECAY_RULES,
+  type DecayPolicyDefinition
+} from '../../../shared/utils/decayPolicyEngine';
+import type { DecayPolicyRecord } from '../../../shared/schema/decay-policies';
+
+/**
+ * Builds a stored policy for the given region and division
+ */
+function record(id: number, region: string | null, division: string | null): DecayPolicyRecord {
+  return {
+    id,
+    name: `policy ${id}`,
+    region,
+    division,
+    rules: DEFAULT_DECAY_RULES,
+    isActive: true,
+    notes: null,
+    createdById: null,
+    updatedById: null,
+    createdAt: null,
+    updatedAt: null
+  };
+}
+
+describe('decay policy engine', () => {
+  const midWeek = new Date(2026, 5, 15); // Outside the built-in holidays
+
+  test('matches the original tier rates and activity levels', () => {
+    // Inactive elite player: full 5%
+    const inactive = calculateDecay(DEFAULT_DECAY_RULES, { rankingPoints: 1200, matchTypes: [] }, midWeek);
+    expect(inactive.tier.name).toBe('elite');
+    expect(inactive.effectiveDecayRate).toBe(5);
+    expect(inactive.pointsToDecay).toBe(60);
+    expect(inactive.weightedMatchesToProtect).toBe(4);
+
+    // One league match (1.5 weighted): low activity, 75% of the tier rate
+    const low = calculateDecay(DEFAULT_DECAY_RULES, { rankingPoints: 1200, matchTypes: ['league'] }, midWeek);
+    expect(low.effectiveDecayRate).toBe(3.75);
+    expect(low.pointsToDecay).toBe(45);
+    expect(low.weightedMatchesToProtect).toBe(2.5);
+
+    // Professionals weight tournaments 3x, two of them fully protect
+    const pro = calculateDecay(DEFAULT_DECAY_RULES, { rankingPoints: 2000, matchTypes: ['tournament', 'tournament'] }, midWeek);
+    expect(pro.tier.name).toBe('professional');
+    expect(pro.weightedMatches).toBe(6);
+    expect(pro.pointsToDecay).toBe(0);
+  });
+
+  test('tier boundaries belong to the upper tier on every call', () => {
+    expect(calculateDecay(DEFAULT_DECAY_RULES, { rankingPoints: 300, matchTypes: [] }, midWeek).tier.name).toBe('competitive');
+    expect(calculateDecay(DEFAULT_DECAY_RULES, { rankingPoints: 300, matchTypes: [] }, midWeek).tier.name).toBe('competitive');
+  });
+
+  test('supports recurring and year-specific holidays', () => {
+    const holidays = [
+      { name: 'Christmas/New Year', start: '12-20', end: '01-05' },
+      { name: 'Lunar New Year 2027', start: '2027-02-05', end: '2027-02-12' }
+    ];
+
+    expect(isHolidayPeriod(holidays, new Date(2026, 11, 28))).toBe(true);
+    expect(isHolidayPeriod(holidays, new Date(2027, 0, 3))).toBe(true);
+    expect(isHolidayPeriod(holidays, new Date(2027, 1, 8))).toBe(true);
+    expect(isHolidayPeriod(holidays, new Date(2028, 1, 8))).toBe(false);
+
+    const rules: DecayPolicyDefinition = { ...DEFAULT_DECAY_RULES, holidays };
+    const decay = calculateDecay(rules, { rankingPoints: 500, matchTypes: [] }, new Date(2027, 1, 8));
+    expect(decay.isHolidayPeriod).toBe(true);
+    expect(decay.pointsToDecay).toBe(0);
+  });
+
+  test('rejects holidays mixing recurring and dated formats', () => {
+    const errors = validateDecayRules({
+      ...DEFAULT_DECAY_RULES,
+      holidays: [{ name: 'Golden Week', start: '2027-04-29', end: '05-05' }]
+    });
+    expect(errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe('resolveDecayPolicy', () => {
+  const policies = [record(1, null, null), record(2, 'JP', null), record(3, null, '50+'), record(4, 'JP', '50+')];
+
+  test('prefers region and division, then region, then division', () => {
+    expect(resolveDecayPolicy(policies, { region: 'JP', division: '50+' }).id).toBe(4);
+    expect(resolveDecayPolicy(policies, { region: 'JP', division: 'Open' }).id).toBe(2);
+    expect(resolveDecayPolicy(policies, { region: 'SG', division: '50+' }).id).toBe(3);
+    expect(resolveDecayPolicy(policies, { region: null, division: null }).id).toBe(1);
+  });
+
+  test('falls back to the built-in policy', () => {
+    const policy = resolveDecayPolicy([record(2, 'JP', null)], { region: 'SG', division: 'Open' });
+    expect(policy.id).toBe(0);
+    expect(policy.rules).toBe(DEFAULT_DECAY_RULES);
+  });
+});
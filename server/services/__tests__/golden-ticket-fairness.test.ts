@@ -0,0 +1,147 @@
+/**
+ * Test Suite for Golden Ticket Fairness
+ *
+ * Covers seed commitments, reproducible rolls, verification of a draw log
+ * (including tampered rolls, outcomes and missing draws), claim limits and
+ * multi-account signals
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  DRAW_SCALE,
+  appearanceThreshold,
+  checkClaimLimits,
+  claimRiskFlags,
+  findSharedClaimSignals,
+  hashClaimSignal,
+  hashServerSeed,
+  playerReference,
+  rollDraw,
+  verifyDrawLog,
+  type DrawRecord,
+  type DrawSeedRecord
+} from '../../../shared/utils/goldenTicketFairness';
+
+const serverSeed = 'a'.repeat(64);
+const seedHash = hashServerSeed(serverSeed);
+
+function drawLog(count: number, appearanceRate: number): { seed: DrawSeedRecord, draws: DrawRecord[] } {
+  const threshold = appearanceThreshold(appearanceRate);
+  const draws = Array.from({ length: count }, (_, i) => {
+    const playerRef = playerReference(seedHash, 100 + (i % 3));
+    const roll = rollDraw(serverSeed, 7, playerRef, i + 1);
+    return { seedId: 1, ticketId: 7, nonce: i + 1, playerRef, roll, threshold, outcome: roll < threshold ? 'shown' as const : 'miss' as const };
+  });
+  return { seed: { id: 1, ticketId: 7, seedHash, serverSeed, drawCount: count }, draws };
+}
+
+describe('seeded draws', () => {
+  test('rolls are reproducible and within the scale', () => {
+    const playerRef = playerReference(seedHash, 42);
+    const roll = rollDraw(serverSeed, 7, playerRef, 1);
+    expect(rollDraw(serverSeed, 7, playerRef, 1)).toBe(roll);
+    expect(rollDraw(serverSeed, 7, playerRef, 2)).not.toBe(roll);
+    expect(roll).toBeGreaterThanOrEqual(0);
+    expect(roll).toBeLessThan(DRAW_SCALE);
+  });
+
+  test('appearance rates become thresholds on the scale', () => {
+    expect(appearanceThreshold(5)).toBe(50000);
+    expect(appearanceThreshold(100)).toBe(DRAW_SCALE);
+    expect(appearanceThreshold(150)).toBe(DRAW_SCALE);
+  });
+
+  test('the share of wins follows the appearance rate', () => {
+    const { draws } = drawLog(2000, 25);
+    const shown = draws.filter(draw => draw.outcome === 'shown').length;
+    expect(shown / draws.length).toBeGreaterThan(0.2);
+    expect(shown / draws.length).toBeLessThan(0.3);
+  });
+
+  test('player references and signals are stable hashes', () => {
+    expect(playerReference(seedHash, 42)).toMatch(/^[0-9a-f]{16}$/);
+    expect(playerReference(seedHash, 42)).not.toBe(playerReference(seedHash, 43));
+    expect(hashClaimSignal(' Device-1 ')).toBe(hashClaimSignal('device-1'));
+  });
+});
+
+describe('verifyDrawLog', () => {
+  test('accepts an untouched log once the seed is revealed', () => {
+    const { seed, draws } = drawLog(50, 10);
+    expect(verifyDrawLog([seed], draws)).toEqual({
+      verified: true,
+      seedsRevealed: 1,
+      seedsPending: 0,
+      drawsChecked: 50,
+      drawsPending: 0,
+      problems: []
+    });
+  });
+
+  test('leaves draws of unrevealed seeds pending', () => {
+    const { seed, draws } = drawLog(5, 10);
+    const result = verifyDrawLog([{ ...seed, serverSeed: null }], draws);
+    expect(result).toMatchObject({ verified: true, seedsPending: 1, drawsChecked: 0, drawsPending: 5 });
+  });
+
+  test('catches a wrong seed, changed rolls or outcomes, and missing draws', () => {
+    const { seed, draws } = drawLog(10, 10);
+
+    expect(verifyDrawLog([{ ...seed, serverSeed: 'b'.repeat(64) }], draws).problems)
+      .toEqual(['Seed 1: revealed seed does not match its committed hash']);
+
+    const changedRoll = draws.map(draw => draw.nonce === 3 ? { ...draw, roll: 0 } : draw);
+    expect(verifyDrawLog([seed], changedRoll).problems[0]).toMatch(/^Seed 1 nonce 3: recorded roll 0/);
+
+    const miss = draws.find(draw => draw.outcome === 'miss')!;
+    const changedOutcome = draws.map(draw => draw === miss ? { ...draw, outcome: 'shown' as const } : draw);
+    expect(verifyDrawLog([seed], changedOutcome).problems).toHaveLength(1);
+
+    const capped = draws.map(draw => draw.outcome === 'shown' ? { ...draw, outcome: 'capped' as const } : draw);
+    expect(verifyDrawLog([seed], capped).verified).toBe(true);
+
+    const missing = draws.filter(draw => draw.nonce !== 4);
+    expect(verifyDrawLog([seed], missing).problems).toEqual(['Seed 1: expected nonces 1-10, found 9 draws']);
+  });
+});
+
+describe('checkClaimLimits', () => {
+  const limits = { maxClaims: 10, currentClaims: 3, perUserClaimLimit: 1, perDeviceClaimLimit: 2 };
+
+  test('allows a claim within every limit', () => {
+    expect(checkClaimLimits(limits, { userClaims: 0, deviceClaims: 1 })).toEqual([]);
+  });
+
+  test('refuses claims over the ticket, user or device limit', () => {
+    expect(checkClaimLimits({ ...limits, currentClaims: 10 }, { userClaims: 0, deviceClaims: 0 }))
+      .toEqual(['Maximum claims reached for this ticket']);
+    expect(checkClaimLimits(limits, { userClaims: 1, deviceClaims: 2 })).toEqual([
+      'You have already claimed this ticket',
+      'This ticket has already been claimed from this device'
+    ]);
+  });
+});
+
+describe('multi-account signals', () => {
+  const rows = [
+    { userId: 1, claimId: 11, deviceHash: 'dev-a', ipHash: 'ip-1' },
+    { userId: 2, claimId: 12, deviceHash: 'dev-a', ipHash: 'ip-2' },
+    { userId: 3, claimId: null, deviceHash: 'dev-a', ipHash: 'ip-2' },
+    { userId: 4, claimId: 14, deviceHash: 'dev-b', ipHash: 'ip-3' },
+    { userId: 4, claimId: null, deviceHash: 'dev-b', ipHash: null }
+  ];
+
+  test('groups accounts sharing a device or IP', () => {
+    expect(findSharedClaimSignals(rows)).toEqual([
+      { signal: 'device', key: 'dev-a', userIds: [1, 2, 3], claimIds: [11, 12] },
+      { signal: 'ip', key: 'ip-2', userIds: [2, 3], claimIds: [12] }
+    ]);
+  });
+
+  test('flags a claim by what other accounts used', () => {
+    expect(claimRiskFlags({ userId: 5, deviceHash: 'dev-a', ipHash: 'ip-3', drawDeviceHash: 'dev-a' }, rows))
+      .toEqual(['shared_device', 'shared_ip']);
+    expect(claimRiskFlags({ userId: 4, deviceHash: 'dev-b', ipHash: 'ip-3', drawDeviceHash: 'dev-c' }, rows))
+      .toEqual(['device_changed']);
+  });
+});
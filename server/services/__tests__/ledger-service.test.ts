@@ -0,0 +1,168 @@
+/**
+ * Test Suite for the Double-Entry Ledger
+ *
+ * Covers the chart of accounts, the journal lines each money movement
+ * posts, entry validation, the trial balance, and the wallet invariant
+ * comparison run nightly
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildTrialBalance,
+  describeLedgerAccount,
+  findBalanceMismatches,
+  journalLinesFor,
+  nextNightlyRun,
+  splitTopUpCredits,
+  validateJournalLines,
+  walletAccountCode,
+  type JournalLine,
+  type LedgerOperation
+} from '../../../shared/utils/ledgerAccounting';
+import { calculateTopUpBonus } from '../../../shared/utils/digitalCurrencyValidation';
+
+/**
+ * Debit and credit totals per account from a list of posted entries
+ */
+function totalsOf(entries: JournalLine[][]) {
+  const totals = new Map<string, { code: string, debitCents: number, creditCents: number }>();
+  for (const line of entries.flat()) {
+    const total = totals.get(line.accountCode) ?? { code: line.accountCode, debitCents: 0, creditCents: 0 };
+    total.debitCents += line.debitCents;
+    total.creditCents += line.creditCents;
+    totals.set(line.accountCode, total);
+  }
+  return Array.from(totals.values());
+}
+
+describe('chart of accounts', () => {
+  test('gives every wallet and coach payable its own liability account', () => {
+    expect(describeLedgerAccount(walletAccountCode(12))).toEqual({
+      code: 'user_wallet:12',
+      name: 'Wallet of user 12',
+      type: 'liability',
+      ownerUserId: 12
+    });
+    expect(describeLedgerAccount('coach_payable:7').type).toBe('liability');
+    expect(describeLedgerAccount('wise_clearing').type).toBe('asset');
+  });
+
+  test('rejects codes outside the chart', () => {
+    expect(() => describeLedgerAccount('petty_cash')).toThrow('Unknown ledger account petty_cash');
+    expect(() => describeLedgerAccount('user_wallet:abc')).toThrow();
+  });
+});
+
+describe('journalLinesFor', () => {
+  const operations: LedgerOperation[] = [
+    { kind: 'wallet_top_up', userId: 1, paidCents: 10000, bonusCents: 700 },
+    { kind: 'gift_card_sale', amountCents: 5000 },
+    { kind: 'gift_card_redemption', userId: 1, amountCents: 2500 },
+    { kind: 'wallet_charge', userId: 1, amountCents: 4000 },
+    { kind: 'wallet_refund', userId: 1, amountCents: 1000 },
+    { kind: 'cancellation_fee', userId: 1, amountCents: 1500 },
+    { kind: 'coach_payout_accrual', coachId: 9, amountCents: 17300 },
+    { kind: 'coach_payout_settlement', coachId: 9, amountCents: 17300 },
+    { kind: 'coach_payout_reversal', coachId: 9, amountCents: 6000 }
+  ];
+
+  test('posts a balanced entry for every operation', () => {
+    for (const operation of operations) {
+      expect(validateJournalLines(journalLinesFor(operation))).toEqual({ isValid: true, errors: [] });
+    }
+  });
+
+  test('credits the wallet with the payment and the bonus', () => {
+    expect(journalLinesFor({ kind: 'wallet_top_up', userId: 4, paidCents: 10000, bonusCents: 700 })).toEqual([
+      { accountCode: 'wise_clearing', debitCents: 10000, creditCents: 0, memo: 'Payment received' },
+      { accountCode: 'credit_bonus_expense', debitCents: 700, creditCents: 0, memo: 'Top-up bonus' },
+      { accountCode: 'user_wallet:4', debitCents: 0, creditCents: 10700, memo: undefined }
+    ]);
+  });
+
+  test('leaves out zero lines', () => {
+    const lines = journalLinesFor({ kind: 'wallet_top_up', userId: 4, paidCents: 2000, bonusCents: 0 });
+    expect(lines.map(line => line.accountCode)).toEqual(['wise_clearing', 'user_wallet:4']);
+    expect(journalLinesFor({ kind: 'wallet_charge', userId: 4, amountCents: 0 })).toEqual([]);
+  });
+});
+
+describe('validateJournalLines', () => {
+  test('rejects entries whose debits and credits differ', () => {
+    const result = validateJournalLines([
+      { accountCode: 'wise_clearing', debitCents: 1000, creditCents: 0 },
+      { accountCode: 'user_wallet:1', debitCents: 0, creditCents: 999 }
+    ]);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Debits (1000) do not equal credits (999)');
+  });
+
+  test('rejects lines on both sides, fractions and single-line entries', () => {
+    expect(validateJournalLines([{ accountCode: 'wise_clearing', debitCents: 10, creditCents: 10 }]).errors).toEqual([
+      'A journal entry needs at least two lines',
+      'Line 1 (wise_clearing) must be either a debit or a credit'
+    ]);
+    expect(validateJournalLines([
+      { accountCode: 'wise_clearing', debitCents: 10.5, creditCents: 0 },
+      { accountCode: 'platform_revenue', debitCents: 0, creditCents: 10.5 }
+    ]).isValid).toBe(false);
+  });
+});
+
+describe('buildTrialBalance', () => {
+  const entries = [
+    journalLinesFor({ kind: 'wallet_top_up', userId: 1, paidCents: 10000, bonusCents: 700 }),
+    journalLinesFor({ kind: 'gift_card_sale', amountCents: 5000 }),
+    journalLinesFor({ kind: 'gift_card_redemption', userId: 2, amountCents: 2000 }),
+    journalLinesFor({ kind: 'wallet_charge', userId: 1, amountCents: 4000 }),
+    journalLinesFor({ kind: 'coach_payout_accrual', coachId: 9, amountCents: 3000 }),
+    journalLinesFor({ kind: 'coach_payout_settlement', coachId: 9, amountCents: 3000 })
+  ];
+
+  test('balances and reports each account on its normal side', () => {
+    const trialBalance = buildTrialBalance(totalsOf(entries));
+    const balance = (code: string) => trialBalance.rows.find(row => row.code === code)?.balanceCents;
+
+    expect(trialBalance.balanced).toBe(true);
+    expect(trialBalance.totalDebitCents).toBe(trialBalance.totalCreditCents);
+    expect(balance('user_wallet:1')).toBe(6700);
+    expect(balance('user_wallet:2')).toBe(2000);
+    expect(balance('gift_card_liability')).toBe(3000);
+    expect(balance('wise_clearing')).toBe(12000);
+    expect(balance('coach_payable:9')).toBe(0);
+    expect(trialBalance.totalsByType.asset).toBe(trialBalance.totalsByType.liability + trialBalance.totalsByType.equity
+      + trialBalance.totalsByType.revenue - trialBalance.totalsByType.expense);
+  });
+
+  test('lists system accounts before wallets and payables', () => {
+    const codes = buildTrialBalance(totalsOf(entries)).rows.map(row => row.code);
+    expect(codes.indexOf('wise_clearing')).toBeLessThan(codes.indexOf('user_wallet:1'));
+    expect(codes.slice(-3)).toEqual(['coach_payable:9', 'user_wallet:1', 'user_wallet:2']);
+  });
+});
+
+describe('invariant check', () => {
+  test('reports wallets that differ from the ledger', () => {
+    const stored = new Map([['user_wallet:1', 6700], ['user_wallet:2', 2500], ['user_wallet:3', 400]]);
+    const ledger = new Map([['user_wallet:1', 6700], ['user_wallet:2', 2000]]);
+
+    expect(findBalanceMismatches(stored, ledger)).toEqual([
+      { code: 'user_wallet:2', expectedCents: 2500, ledgerCents: 2000, differenceCents: -500 },
+      { code: 'user_wallet:3', expectedCents: 400, ledgerCents: 0, differenceCents: -400 }
+    ]);
+  });
+
+  test('runs at the next occurrence of the hour', () => {
+    expect(nextNightlyRun(new Date('2025-06-10T01:30:00Z'), 3).toISOString()).toBe('2025-06-10T03:00:00.000Z');
+    expect(nextNightlyRun(new Date('2025-06-10T03:00:00Z'), 3).toISOString()).toBe('2025-06-11T03:00:00.000Z');
+  });
+});
+
+describe('splitTopUpCredits', () => {
+  test('recovers the paid amount and bonus of every tier', () => {
+    for (const paid of [500, 9999, 10000, 25555, 50000, 123457]) {
+      const { bonusAmount, totalCredits } = calculateTopUpBonus(paid);
+      expect(splitTopUpCredits(totalCredits)).toEqual({ paidCents: paid, bonusCents: bonusAmount });
+    }
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Test Suite for Match Ingestion Service
+ *
+ * Covers the canonical match idempotency key, row validation, results from
+ * game scores and the match columns built for created and scheduled matches
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildMatchRecord, resultFromGames, validateIngestionRow, type MatchIngestionRow } from '../match-ingestion-service';
+import {
+  generateMatchIdempotencyKey,
+  getAdjacentMatchIdempotencyKeys,
+  normalizeMatchPassportCode
+} from '../../../shared/utils/matchIdempotency';
+
+describe('match idempotency key', () => {
+  const result = {
+    team1: ['AAA111', 'BBB222'],
+    team2: ['CCC333', 'DDD444'],
+    team1Score: '2',
+    team2Score: '1',
+    matchDate: '2025-03-14T09:30:00.000Z'
+  };
+
+  test('is 32 hex characters', () => {
+    expect(generateMatchIdempotencyKey(result)).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  test('ignores team order, partner order and when in its 5-minute window the result was recorded', () => {
+    const key = generateMatchIdempotencyKey({ ...result, games: [{ team1: 11, team2: 5 }, { team1: 11, team2: 9 }] });
+
+    expect(generateMatchIdempotencyKey({
+      team1: ['DDD444', 'CCC333'],
+      team2: ['BBB222', 'AAA111'],
+      team1Score: '1',
+      team2Score: '2',
+      games: [{ team1: 5, team2: 11 }, { team1: 9, team2: 11 }],
+      matchDate: '2025-03-14T09:34:59.000Z'
+    })).toBe(key);
+  });
+
+  test('distinguishes the score, the game scores and a rematch later the same day', () => {
+    const key = generateMatchIdempotencyKey({ ...result, games: [{ team1: 11, team2: 5 }, { team1: 11, team2: 9 }] });
+
+    expect(generateMatchIdempotencyKey({ ...result, games: [{ team1: 11, team2: 5 }, { team1: 11, team2: 9 }], team1Score: '1', team2Score: '2' })).not.toBe(key);
+    expect(generateMatchIdempotencyKey({ ...result, games: [{ team1: 11, team2: 7 }, { team1: 11, team2: 9 }] })).not.toBe(key);
+    expect(generateMatchIdempotencyKey({ ...result, games: [{ team1: 11, team2: 5 }, { team1: 11, team2: 9 }], matchDate: '2025-03-14T11:00:00.000Z' })).not.toBe(key);
+  });
+
+  test('the same result at another event is another match', () => {
+    const key = generateMatchIdempotencyKey({ ...result, event: 'tournament:Spring Open' });
+
+    expect(generateMatchIdempotencyKey({ ...result, event: 'tournament:Summer Open' })).not.toBe(key);
+    expect(generateMatchIdempotencyKey(result)).not.toBe(key);
+  });
+
+  test('keys scheduled matches by start time', () => {
+    const scheduled = { ...result, team1Score: null, team2Score: null };
+
+    expect(generateMatchIdempotencyKey(scheduled)).not.toBe(generateMatchIdempotencyKey(result));
+    expect(generateMatchIdempotencyKey({ ...scheduled, matchDate: '2025-03-14T09:30:45.000Z' }))
+      .toBe(generateMatchIdempotencyKey(scheduled));
+    expect(generateMatchIdempotencyKey({ ...scheduled, matchDate: '2025-03-14T10:30:00.000Z' }))
+      .not.toBe(generateMatchIdempotencyKey(scheduled));
+  });
+
+  test('a source reference alone identifies the match', () => {
+    const key = generateMatchIdempotencyKey({ ...result, sourceReference: 'bracket-match:42' });
+
+    expect(generateMatchIdempotencyKey({ ...result, team1Score: '0', sourceReference: 'bracket-match:42' })).toBe(key);
+    expect(generateMatchIdempotencyKey({ ...result, sourceReference: 'bracket-match:43' })).not.toBe(key);
+  });
+
+  test('the adjacent window keys match a result just across a window boundary', () => {
+    const adjacentKeys = getAdjacentMatchIdempotencyKeys({ ...result, matchDate: '2025-03-14T09:34:59.000Z' });
+
+    expect(adjacentKeys).toHaveLength(2);
+    expect(adjacentKeys).toContain(generateMatchIdempotencyKey({ ...result, matchDate: '2025-03-14T09:35:01.000Z' }));
+    expect(adjacentKeys).not.toContain(generateMatchIdempotencyKey(result));
+    expect(getAdjacentMatchIdempotencyKeys({ ...result, team1Score: null, team2Score: null })).toEqual([]);
+    expect(getAdjacentMatchIdempotencyKeys({ ...result, sourceReference: 'bracket-match:42' })).toEqual([]);
+  });
+
+  test('normalizes passport codes', () => {
+    expect(normalizeMatchPassportCode(' pkl-ab12-cd3 ')).toBe('AB12CD3');
+    expect(normalizeMatchPassportCode('AB12CD3')).toBe('AB12CD3');
+  });
+});
+
+describe('validateIngestionRow', () => {
+  const row: MatchIngestionRow = {
+    team1: [{ userId: 1 }],
+    team2: [{ passportCode: 'AB12CD3' }],
+    team1Score: 11,
+    team2Score: 7,
+    matchDate: '2025-03-14'
+  };
+
+  test('accepts results and scheduled matches', () => {
+    expect(validateIngestionRow(row)).toBeNull();
+    expect(validateIngestionRow({ ...row, team1Score: undefined, team2Score: undefined })).toBeNull();
+  });
+
+  test('rejects uneven or empty sides', () => {
+    expect(validateIngestionRow({ ...row, team2: [] })?.reason).toBe('invalid_teams');
+    expect(validateIngestionRow({ ...row, team1: [{ userId: 1 }, { userId: 2 }] })?.reason).toBe('invalid_teams');
+  });
+
+  test('rejects invalid dates', () => {
+    expect(validateIngestionRow({ ...row, matchDate: 'next tuesday' })?.reason).toBe('invalid_date');
+  });
+
+  test('rejects a single score or a result without a winner', () => {
+    expect(validateIngestionRow({ ...row, team2Score: null })?.reason).toBe('invalid_score');
+    expect(validateIngestionRow({ ...row, team2Score: 11 })?.reason).toBe('invalid_score');
+    expect(validateIngestionRow({ ...row, team2Score: 11, winner: 2 })).toBeNull();
+  });
+});
+
+describe('resultFromGames', () => {
+  test('the side winning more games wins, with the final game as the match score', () => {
+    expect(resultFromGames([{ team1: 11, team2: 5 }, { team1: 9, team2: 11 }, { team1: 8, team2: 11 }])).toEqual({
+      team1Score: '8',
+      team2Score: '11',
+      winner: 2,
+      gameScores: '11-5, 9-11, 8-11'
+    });
+    expect(resultFromGames([{ team1: 15, team2: 13 }])).toMatchObject({ winner: 1, gameScores: '15-13' });
+  });
+});
+
+describe('buildMatchRecord', () => {
+  test('records players in side order and the winner from the scores', () => {
+    const record = buildMatchRecord({
+      team1: [{ userId: 1 }, { userId: 3 }],
+      team2: [{ userId: 2 }, { userId: 4 }],
+      team1Score: '1',
+      team2Score: '2',
+      matchDate: '2025-03-14',
+      values: { matchType: 'league', playerOneId: 99 }
+    }, [1, 3], [2, 4], 'key');
+
+    expect(record).toEqual(expect.objectContaining({
+      playerOneId: 1,
+      playerOnePartnerId: 3,
+      playerTwoId: 2,
+      playerTwoPartnerId: 4,
+      winnerId: 2,
+      formatType: 'doubles',
+      matchType: 'league',
+      idempotencyKey: 'key'
+    }));
+  });
+
+  test('scheduled matches get placeholder scores that values can replace', () => {
+    const row: MatchIngestionRow = { team1: [{ userId: 1 }], team2: [{ userId: 2 }], matchDate: '2025-03-14T18:00:00Z' };
+
+    expect(buildMatchRecord(row, [1], [2], 'key')).toEqual(expect.objectContaining({
+      scorePlayerOne: 'pending',
+      scorePlayerTwo: 'pending',
+      winnerId: 1,
+      formatType: 'singles'
+    }));
+    expect(buildMatchRecord({ ...row, values: { scorePlayerOne: '0', scorePlayerTwo: '0' } }, [1], [2], 'key'))
+      .toEqual(expect.objectContaining({ scorePlayerOne: '0', scorePlayerTwo: '0' }));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Test Suite for Match Prediction Service
+ *
+ * Covers game and series probabilities, handicap suggestions, challenge
+ * sides and the calibration report of resolved predictions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { getChallengeSides, summarizeCalibration } from '../match-prediction-service';
+import {
+  predictGame,
+  predictOutcome,
+  rallyWinProbabilityFor,
+  seriesWinProbability,
+  suggestHandicap,
+  DEFAULT_MATCH_FORMAT
+} from '../../../shared/utils/matchPredictor';
+import { GLICKO2_DEFAULTS } from '../../../shared/utils/glicko2';
+
+describe('match predictor', () => {
+  test('even rallies give an even game with a deuce-aware scoreline', () => {
+    const game = predictGame(0.5, DEFAULT_MATCH_FORMAT);
+    expect(game.team1WinProbability).toBeCloseTo(0.5, 10);
+    expect(game.expectedPoints.team1).toBeCloseTo(game.expectedPoints.team2, 10);
+    expect(game.expectedScore.team1).toBeGreaterThan(11);
+    expect(game.expectedScore.team2).toBeLessThan(10);
+  });
+
+  test('rally probability reproduces the rated game probability', () => {
+    const q = rallyWinProbabilityFor(0.75);
+    expect(q).toBeGreaterThan(0.5);
+    expect(predictGame(q, DEFAULT_MATCH_FORMAT).team1WinProbability).toBeCloseTo(0.75, 6);
+  });
+
+  test('longer series favour the stronger side more', () => {
+    expect(seriesWinProbability(0.6, 1)).toBeCloseTo(0.6, 10);
+    expect(seriesWinProbability(0.6, 2)).toBeCloseTo(0.648, 10);
+    expect(seriesWinProbability(0.6, 3)).toBeGreaterThan(0.648);
+    expect(seriesWinProbability(0.5, 3)).toBeCloseTo(0.5, 10);
+  });
+
+  test('suggests starting points for the underdog that even out the match', () => {
+    const strong = { ...GLICKO2_DEFAULTS, rating: 1800, deviation: 60 };
+    const weak = { ...GLICKO2_DEFAULTS, rating: 1450, deviation: 60 };
+
+    const prediction = predictOutcome(strong, weak);
+    expect(prediction.team1WinProbability).toBeGreaterThan(0.8);
+    expect(prediction.expectedScore.team1).toBeGreaterThanOrEqual(11);
+    expect(prediction.handicap.team).toBe(2);
+    expect(prediction.handicap.points).toBeGreaterThan(0);
+    expect(Math.abs(prediction.handicap.team1WinProbability - 0.5))
+      .toBeLessThan(Math.abs(prediction.team1WinProbability - 0.5));
+
+    // Mirrored sides give the handicap to team 1
+    expect(predictOutcome(weak, strong).handicap.team).toBe(1);
+  });
+
+  test('no handicap between evenly matched sides', () => {
+    expect(suggestHandicap(0.5, DEFAULT_MATCH_FORMAT)).toEqual(
+      expect.objectContaining({ team: null, points: 0 })
+    );
+  });
+});
+
+describe('challenge sides', () => {
+  const base = { id: 1, challengerId: 10, challengedId: 20, challengerPartnerId: null, challengedPartnerId: null };
+
+  test('singles challenges are complete from the start', () => {
+    expect(getChallengeSides({ ...base, matchType: 'singles' })).toEqual({ team1: [10], team2: [20], complete: true });
+  });
+
+  test('doubles challenges are complete once both partners are known', () => {
+    expect(getChallengeSides({ ...base, matchType: 'doubles', challengerPartnerId: 11 }).complete).toBe(false);
+    expect(getChallengeSides({ ...base, matchType: 'mixed', challengerPartnerId: 11, challengedPartnerId: 21 }))
+      .toEqual({ team1: [10, 11], team2: [20, 21], complete: true });
+  });
+});
+
+describe('summarizeCalibration', () => {
+  test('buckets predictions and scores them', () => {
+    const report = summarizeCalibration([
+      { probability: 0.8, won: true },
+      { probability: 0.85, won: false },
+      { probability: 0.2, won: false },
+      { probability: 1, won: true }
+    ]);
+
+    expect(report.predictions).toBe(4);
+    expect(report.buckets).toHaveLength(10);
+    expect(report.buckets[8]).toEqual(expect.objectContaining({ predictions: 2, meanPredicted: 0.825, observedWinRate: 0.5 }));
+    expect(report.buckets[9].predictions).toBe(1);
+    expect(report.brierScore).toBeCloseTo((0.04 + 0.7225 + 0.04 + 0) / 4, 4);
+  });
+
+  test('empty report has no scores', () => {
+    expect(summarizeCalibration([])).toEqual(expect.objectContaining({ predictions: 0, brierScore: null, logLoss: null }));
+  });
+});
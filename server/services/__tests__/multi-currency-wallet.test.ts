@@ -0,0 +1,86 @@
+/**
+ * Test Suite for Multi-Currency Wallets
+ *
+ * Covers rate arithmetic, reading provider payloads, the pockets a wallet
+ * balance splits into, and which pockets a USD debit takes from
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  convertMinor,
+  crossRate,
+  nativeCreditsFor,
+  planPocketDebit,
+  ratesFromPayload,
+  walletPockets,
+  type CurrencyPocket
+} from '../../../shared/utils/multiCurrencyWallet';
+
+describe('rates', () => {
+  test('converts minor units to the nearest unit', () => {
+    expect(convertMinor(10000, 0.74)).toBe(7400);
+    expect(convertMinor(333, 0.215)).toBe(72);
+  });
+
+  test('derives cross rates from rates per USD', () => {
+    const usdRates = { SGD: 1.35, MYR: 4.7 };
+    expect(crossRate(usdRates, 'USD', 'SGD')).toBe(1.35);
+    expect(crossRate(usdRates, 'SGD', 'USD')).toBeCloseTo(0.7407, 4);
+    expect(crossRate(usdRates, 'SGD', 'MYR')).toBeCloseTo(3.4815, 4);
+    expect(crossRate(usdRates, 'SGD', 'CNY')).toBeNull();
+  });
+
+  test('reads the rate table at a dotted path', () => {
+    const payload = { data: { conversion_rates: { sgd: '1.35', AUD: 1.55, BAD: 'x', ZERO: 0 } } };
+    expect(ratesFromPayload(payload, 'data.conversion_rates')).toEqual({ SGD: 1.35, AUD: 1.55 });
+    expect(ratesFromPayload(payload, 'rates')).toEqual({});
+  });
+
+  test('scales a native payment by the credits it earns', () => {
+    expect(nativeCreditsFor(13500, 10000, 10700)).toBe(14445);
+    expect(nativeCreditsFor(13500, 0, 0)).toBe(0);
+  });
+});
+
+describe('walletPockets', () => {
+  const stored: CurrencyPocket[] = [
+    { currency: 'SGD', balanceMinor: 13500, usdCents: 10000 },
+    { currency: 'AUD', balanceMinor: 0, usdCents: 0 }
+  ];
+
+  test('puts the rest of the balance in the USD pocket', () => {
+    expect(walletPockets(15000, stored)).toEqual([
+      { currency: 'USD', balanceMinor: 5000, usdCents: 5000 },
+      { currency: 'SGD', balanceMinor: 13500, usdCents: 10000 }
+    ]);
+  });
+
+  test('leaves out an empty USD pocket but shows an empty wallet', () => {
+    expect(walletPockets(10000, stored).map(pocket => pocket.currency)).toEqual(['SGD']);
+    expect(walletPockets(0, [])).toEqual([{ currency: 'USD', balanceMinor: 0, usdCents: 0 }]);
+  });
+});
+
+describe('planPocketDebit', () => {
+  const stored: CurrencyPocket[] = [
+    { currency: 'SGD', balanceMinor: 13500, usdCents: 10000 },
+    { currency: 'MYR', balanceMinor: 9400, usdCents: 2000 }
+  ];
+
+  test('spends the USD pocket first', () => {
+    expect(planPocketDebit(15000, stored, 3000)).toEqual([]);
+  });
+
+  test('takes the shortfall from the largest pocket at its bought rate', () => {
+    expect(planPocketDebit(15000, stored, 8000)).toEqual([
+      { currency: 'SGD', balanceMinor: -6750, usdCents: -5000 }
+    ]);
+  });
+
+  test('empties pockets in turn', () => {
+    expect(planPocketDebit(12000, stored, 11000)).toEqual([
+      { currency: 'SGD', balanceMinor: -13500, usdCents: -10000 },
+      { currency: 'MYR', balanceMinor: -4700, usdCents: -1000 }
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Test Suite for OpenAPI Generation
+ *
+ * Covers converting request schemas to OpenAPI schemas and parameters, and
+ * the v1 document generated from the gateway's operations
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { toOpenApiPath, zodToOpenApi, zodToOpenApiParameters } from '../../../shared/utils/openApi';
+import { rankingsQuerySchema, submitMatchSchema } from '../../modules/api-gateway/config/v1-operations';
+import { buildV1OpenApiDocument } from '../../modules/api-gateway/utils/openapi-document';
+
+describe('zodToOpenApi', () => {
+  test('converts the match submission schema with its limits and descriptions', () => {
+    const schema = zodToOpenApi(submitMatchSchema);
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['team1', 'team2', 'games']);
+    expect(schema.properties!.team1).toMatchObject({ type: 'array', minItems: 1, maxItems: 2 });
+    expect(schema.properties!.team1.items!.oneOf).toEqual([
+      { type: 'object', properties: { user_id: { type: 'integer', minimum: 0, exclusiveMinimum: true } }, required: ['user_id'], additionalProperties: false },
+      { type: 'object', properties: { passport_code: { type: 'string', minLength: 1, maxLength: 40 } }, required: ['passport_code'], additionalProperties: false }
+    ]);
+    expect(schema.properties!.games.items!.properties!.team1).toEqual({ type: 'integer', minimum: 0, maximum: 99 });
+    expect(schema.properties!.match_date).toMatchObject({ type: 'string', format: 'date-time' });
+    expect(schema.properties!.match_type).toEqual({ type: 'string', enum: ['casual', 'league', 'tournament'], default: 'casual' });
+    expect(schema.properties!.external_id.description).toMatch(/duplicate/);
+  });
+
+  test('marks nullable values and falls back to any value for unknown types', () => {
+    expect(zodToOpenApi(z.string().nullable())).toEqual({ type: 'string', nullable: true });
+    expect(zodToOpenApi(z.record(z.number()))).toEqual({ type: 'object', additionalProperties: { type: 'number' } });
+    expect(zodToOpenApi(z.unknown())).toEqual({});
+  });
+});
+
+describe('parameters', () => {
+  test('query parameters with defaults are optional', () => {
+    expect(zodToOpenApiParameters(rankingsQuerySchema, 'query')).toEqual([
+      { name: 'tier', in: 'query', required: false, schema: { type: 'string', maxLength: 50 } },
+      { name: 'page', in: 'query', required: false, schema: { type: 'integer', minimum: 1, default: 1 } },
+      { name: 'limit', in: 'query', required: false, description: 'At most 50 rankings are returned', schema: { type: 'integer', minimum: 1, default: 10 } }
+    ]);
+  });
+
+  test('Express path parameters become OpenAPI templates', () => {
+    expect(toOpenApiPath('/tournaments/:id/registrations')).toBe('/tournaments/{id}/registrations');
+  });
+});
+
+describe('v1 OpenAPI document', () => {
+  const document = buildV1OpenApiDocument('https://pickleplus.com');
+
+  test('documents each write with its scopes, body and Idempotency-Key header', () => {
+    const register = document.paths['/tournaments/{id}/registrations'].post as any;
+
+    expect(document.servers).toEqual([{ url: 'https://pickleplus.com/api/v1' }]);
+    expect(register.security).toEqual([{ ApiKeyAuth: [] }, { OAuth2: ['tournament:write'] }]);
+    expect(register.parameters.map((parameter: any) => `${parameter.in}:${parameter.name}`)).toEqual(['path:id', 'header:Idempotency-Key']);
+    expect(register.requestBody.content['application/json'].schema.properties).toHaveProperty('promo_code');
+    expect(Object.keys(register.responses)).toEqual(expect.arrayContaining(['201', '400', '403', '404', '409', '422']));
+  });
+
+  test('reads and writes on the same path share it', () => {
+    expect(Object.keys(document.paths['/matches'])).toEqual(['get', 'post']);
+    expect((document.paths['/matches'].get as any).parameters).not.toContainEqual(expect.objectContaining({ in: 'header' }));
+  });
+});
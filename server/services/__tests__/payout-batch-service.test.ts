@@ -0,0 +1,207 @@
+/**
+ * Test Suite for Coach Payout Batches
+ *
+ * Covers PCP-level commission, adjustments and carry-forward below the
+ * minimum payout, payout frequency, statements, and reconciliation against
+ * transfers from the local Wise stub
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  calculateCoachPayout,
+  isPayoutDue,
+  parseLevelCommissionRates,
+  reconcileTransfer,
+  renderStatementCsv,
+  statementTextLines,
+  type PayoutSessionInput,
+  type PayoutStatement
+} from '../../../shared/utils/payoutCalculator';
+import { StubWisePayoutClient, isTransferRejection, payoutTransactionId } from '../wise-payout-client';
+import { renderTextPdf } from '../../utils/simple-pdf';
+
+const levelRates = parseLevelCommissionRates('{"1": 15, "2": 13, "3": 12, "4": 10, "5": 8}');
+
+const session = (id: number, grossCents: number, pcpLevel: number, day: number): PayoutSessionInput => ({
+  id,
+  sessionDate: new Date(Date.UTC(2025, 5, day, 17)),
+  sessionType: 'individual',
+  grossCents,
+  pcpLevel,
+  recordedCommissionRate: 15
+});
+
+describe('calculateCoachPayout', () => {
+  test('takes the commission of the coach level at each session', () => {
+    const payout = calculateCoachPayout([session(1, 10000, 1, 2), session(2, 10000, 3, 9)], [], {
+      levelRates,
+      minimumPayoutCents: 5000
+    });
+
+    expect(payout.grossRevenueCents).toBe(20000);
+    expect(payout.platformFeesCents).toBe(1500 + 1200);
+    expect(payout.netPayoutCents).toBe(17300);
+    expect(payout.finalAmountCents).toBe(17300);
+    expect(payout.payable).toBe(true);
+    expect(payout.lines.map(line => line.commissionRate)).toEqual([15, 12]);
+  });
+
+  test('applies bonuses, penalties and refund corrections', () => {
+    const payout = calculateCoachPayout([session(1, 10000, 4, 2)], [
+      { id: 1, type: 'bonus', amountCents: 2000, reason: 'Top rated' },
+      { id: 2, type: 'penalty', amountCents: 500, reason: 'Late start' },
+      { id: 3, type: 'refund', amountCents: -4500, reason: 'Booking 9 partial refund' }
+    ], { levelRates, minimumPayoutCents: 0 });
+
+    expect(payout.bonusesCents).toBe(2000);
+    expect(payout.penaltiesCents).toBe(500);
+    expect(payout.otherAdjustmentsCents).toBe(-4500);
+    expect(payout.finalAmountCents).toBe(9000 + 2000 - 500 - 4500);
+    expect(payout.lines.filter(line => line.kind === 'adjustment').map(line => line.netCents)).toEqual([2000, -500, -4500]);
+  });
+
+  test('carries totals below the minimum or negative forward', () => {
+    expect(calculateCoachPayout([session(1, 4000, 1, 2)], [], { levelRates, minimumPayoutCents: 5000 }).payable).toBe(false);
+    expect(calculateCoachPayout([], [{ id: 1, type: 'chargeback', amountCents: -3000, reason: 'Dispute' }], {
+      levelRates,
+      minimumPayoutCents: 0
+    }).payable).toBe(false);
+  });
+
+  test('falls back to the recorded rate for levels without a commission', () => {
+    const payout = calculateCoachPayout([session(1, 10000, 7, 2)], [], { levelRates, minimumPayoutCents: 0 });
+    expect(payout.platformFeesCents).toBe(1500);
+  });
+
+  test('ignores malformed commission tables', () => {
+    expect(parseLevelCommissionRates('not json')[1]).toBe(15);
+    expect(parseLevelCommissionRates('{"2": 140, "3": 11}')).toEqual({ 3: 11 });
+  });
+});
+
+describe('isPayoutDue', () => {
+  const periodEnd = new Date('2025-06-16T00:00:00Z');
+
+  test('pays new coaches straight away', () => {
+    expect(isPayoutDue('monthly', null, periodEnd)).toBe(true);
+  });
+
+  test('waits out the payout frequency', () => {
+    expect(isPayoutDue('weekly', new Date('2025-06-09T00:00:00Z'), periodEnd)).toBe(true);
+    expect(isPayoutDue('bi_weekly', new Date('2025-06-09T00:00:00Z'), periodEnd)).toBe(false);
+    expect(isPayoutDue('monthly', new Date('2025-05-31T00:00:00Z'), periodEnd)).toBe(true);
+    expect(isPayoutDue('monthly', new Date('2025-06-02T00:00:00Z'), periodEnd)).toBe(false);
+  });
+});
+
+describe('Wise reconciliation', () => {
+  test('settles, fails or waits on transfers from the stub', async () => {
+    const wise = new StubWisePayoutClient();
+    const request = { recipientAccountId: '1001', sourceCurrency: 'USD', targetCurrency: 'USD', reference: 'Pickle+ payout' };
+    const paid = await wise.createTransfer({ ...request, customerTransactionId: payoutTransactionId(1), sourceAmount: 173 });
+    const bounced = await wise.createTransfer({ ...request, customerTransactionId: payoutTransactionId(2), sourceAmount: 60 });
+    const pending = await wise.createTransfer({ ...request, customerTransactionId: payoutTransactionId(3), sourceAmount: 90 });
+
+    wise.settle(paid.id, 'outgoing_payment_sent');
+    wise.settle(bounced.id, 'bounced_back');
+
+    expect(reconcileTransfer(17300, await wise.getTransfer(paid.id))).toEqual({ outcome: 'completed', discrepancyCents: 0 });
+    expect(reconcileTransfer(6000, await wise.getTransfer(bounced.id)).outcome).toBe('failed');
+    expect(reconcileTransfer(9000, await wise.getTransfer(pending.id)).outcome).toBe('processing');
+  });
+
+  test('flags transfers that sent a different amount', async () => {
+    const wise = new StubWisePayoutClient();
+    const transfer = await wise.createTransfer({
+      customerTransactionId: payoutTransactionId(4),
+      recipientAccountId: '1001',
+      sourceCurrency: 'USD',
+      targetCurrency: 'SGD',
+      sourceAmount: 100,
+      reference: 'Pickle+ payout'
+    });
+    wise.settle(transfer.id, 'outgoing_payment_sent', 99.5);
+
+    expect(reconcileTransfer(10000, await wise.getTransfer(transfer.id))).toEqual({ outcome: 'completed', discrepancyCents: -50 });
+  });
+
+  test('does not create a second transfer when a payout is retried', async () => {
+    const wise = new StubWisePayoutClient();
+    const request = {
+      customerTransactionId: payoutTransactionId(5),
+      recipientAccountId: '1001',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USD',
+      sourceAmount: 50,
+      reference: 'Pickle+ payout'
+    };
+
+    const first = await wise.createTransfer(request);
+    const second = await wise.createTransfer(request);
+
+    expect(second.id).toBe(first.id);
+    expect(wise.listTransfers()).toHaveLength(1);
+    expect(payoutTransactionId(5)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-a[0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  test('finds the transfer made when the first response was lost', async () => {
+    const wise = new StubWisePayoutClient();
+    const request = {
+      customerTransactionId: payoutTransactionId(6),
+      recipientAccountId: '1001',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USD',
+      sourceAmount: 80,
+      reference: 'Pickle+ payout'
+    };
+
+    wise.loseResponses();
+    const lost = await wise.createTransfer(request).catch(error => error);
+    expect(isTransferRejection(lost)).toBe(false);
+
+    await wise.createTransfer(request);
+    expect(wise.listTransfers()).toHaveLength(1);
+  });
+
+  test('treats only client errors as rejections', () => {
+    expect(isTransferRejection(new Error('Wise API error: 422 - recipient 1001 is not valid'))).toBe(true);
+    expect(isTransferRejection(new Error('Wise API error: 503 - unavailable'))).toBe(false);
+    expect(isTransferRejection(new Error('Wise API error: 429 - slow down'))).toBe(false);
+    expect(isTransferRejection(new Error('Wise API error: 408 - request timeout'))).toBe(false);
+    expect(isTransferRejection(new TypeError('fetch failed'))).toBe(false);
+  });
+});
+
+describe('statements', () => {
+  const calculation = calculateCoachPayout([session(1, 10000, 2, 2)], [
+    { id: 7, type: 'bonus', amountCents: 1000, reason: 'Clinic, June' }
+  ], { levelRates, minimumPayoutCents: 0 });
+  const statement: PayoutStatement = {
+    statementNumber: 'PB-20250601-20250616-C12',
+    coachName: 'Coach Lee',
+    periodStart: new Date('2025-06-01T00:00:00Z'),
+    periodEnd: new Date('2025-06-16T00:00:00Z'),
+    currency: 'USD',
+    status: 'completed',
+    calculation
+  };
+
+  test('lists every session and adjustment in the CSV', () => {
+    const rows = renderStatementCsv(statement).trim().split('\r\n');
+
+    expect(rows[0]).toBe('Date,Type,Reference,Description,Gross,Commission %,Platform fee,Net');
+    expect(rows[1]).toBe('2025-06-02,session,1,individual session (PCP level 2),100.00,13,13.00,87.00');
+    expect(rows[2]).toBe(',adjustment,7,"bonus: Clinic, June",0.00,,0.00,10.00');
+    expect(rows[rows.length - 1]).toBe(',total,,Final amount (USD),,,,97.00');
+  });
+
+  test('renders a PDF with a valid cross-reference table', () => {
+    const pdf = renderTextPdf('Pickle+ Coach Payout Statement', statementTextLines(statement)).toString('latin1');
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    expect(pdf).toContain('(Final amount: 97.00 USD) Tj');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
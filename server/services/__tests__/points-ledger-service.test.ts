@@ -0,0 +1,64 @@
+/**
+ * Test Suite for Points Ledger Service
+ * 
+ * Covers running balances and the calculation breakdown carried into the ledger
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { withRunningBalance } from '../points-ledger-service';
+import { calculateMatchPoints } from '../../../shared/utils/matchPointsCalculator';
+import type { PointsLedgerEntry } from '../../../shared/schema/points-ledger';
+
+/**
+ * Builds a stored ledger entry
+ */
+function entry(id: number, entryType: string, amount: string): PointsLedgerEntry {
+  return {
+    id,
+    userId: 1,
+    currency: 'ranking',
+    entryType,
+    amount,
+    division: null,
+    sourceType: null,
+    sourceId: null,
+    rulesetVersion: null,
+    multipliers: null,
+    calculationDetails: null,
+    reason: null,
+    metadata: null,
+    createdById: null,
+    occurredAt: new Date('2025-03-01'),
+    createdAt: null
+  };
+}
+
+describe('points ledger', () => {
+
+  describe('withRunningBalance', () => {
+    test('should add each amount to the balance in order', () => {
+      const history = withRunningBalance(
+        [entry(1, 'match_award', '3.45'), entry(2, 'match_award', '1.15'), entry(3, 'decay', '-4.00')],
+        408.35
+      );
+
+      expect(history.map(line => [line.amount, line.balanceAfter])).toEqual([
+        [3.45, 411.8],
+        [1.15, 412.95],
+        [-4, 408.95]
+      ]);
+    });
+  });
+
+  describe('calculateMatchPoints', () => {
+    test('should return the multipliers and breakdown recorded in the ledger', () => {
+      const [winner] = calculateMatchPoints([
+        { playerId: 1, username: 'alice', isWin: true, gender: 'female', currentRankingPoints: 400, ageGroup: '50+' },
+        { playerId: 2, username: 'bob', isWin: false, gender: 'male', currentRankingPoints: 400 }
+      ], 'singles');
+
+      expect(winner.multipliers).toEqual({ age: 1.3, gender: 1.15, event: 1, pickle: 1.5 });
+      expect(winner.calculationDetails).toBe('WIN: 3 base × 1.3 age × 1.15 gender × 1 event = 4.49 ranking, 6.74 pickle [rules v0]');
+    });
+  });
+});
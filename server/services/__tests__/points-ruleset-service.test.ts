@@ -0,0 +1,121 @@
+/**
+ * Test Suite for Points Ruleset Service
+ * 
+ * Covers rule engine calculations, resolving the ruleset in force at a date
+ * and simulating a draft ruleset against historical matches
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { resolveRulesetAt, simulateMatchPoints, type SimulationPlayer } from '../points-ruleset-service';
+import {
+  calculatePointsWithRules,
+  validatePointsRules,
+  DEFAULT_POINTS_RULES,
+  DEFAULT_POINTS_RULESET,
+  type PointsRuleset
+} from '../../../shared/utils/pointsRuleEngine';
+import type { PointsRulesetRecord } from '../../../shared/schema/points-rules';
+
+/**
+ * Builds a stored ruleset effective over the given dates
+ */
+function record(version: number, effectiveFrom: string, effectiveTo: string | null): PointsRulesetRecord {
+  return {
+    id: version,
+    version,
+    name: `v${version}`,
+    status: effectiveTo ? 'retired' : 'active',
+    rules: DEFAULT_POINTS_RULES,
+    effectiveFrom: new Date(effectiveFrom),
+    effectiveTo: effectiveTo ? new Date(effectiveTo) : null,
+    notes: null,
+    createdById: null,
+    activatedById: null,
+    activatedAt: null,
+    createdAt: null,
+    updatedAt: null
+  };
+}
+
+describe('points rules', () => {
+
+  describe('calculatePointsWithRules', () => {
+    test('should apply base points and multipliers with the ruleset version', () => {
+      const result = calculatePointsWithRules(DEFAULT_POINTS_RULESET, { isWin: true, ageGroup: '50+' });
+
+      expect(result).toMatchObject({ rulesetVersion: 0, basePoints: 3, ageMultiplier: 1.3, rankingPoints: 3.9, picklePoints: 5.85 });
+    });
+
+    test('should give the gender bonus to winners and losers only in cross-gender matches', () => {
+      const input = { gender: 'female', currentRankingPoints: 500 };
+
+      expect(calculatePointsWithRules(DEFAULT_POINTS_RULESET, { ...input, isWin: false, isCrossGender: true }).rankingPoints).toBe(1.15);
+      expect(calculatePointsWithRules(DEFAULT_POINTS_RULESET, { ...input, isWin: true, isCrossGender: true }).rankingPoints).toBe(3.45);
+      expect(calculatePointsWithRules(DEFAULT_POINTS_RULESET, { ...input, isWin: true, isCrossGender: false }).rankingPoints).toBe(3);
+      expect(calculatePointsWithRules(DEFAULT_POINTS_RULESET, { ...input, currentRankingPoints: 1000, isWin: true, isCrossGender: true }).rankingPoints).toBe(3);
+    });
+
+    test('should respect who the gender bonus applies to', () => {
+      const loserOnly: PointsRuleset = {
+        version: 2,
+        name: 'Loser bonus',
+        rules: { ...DEFAULT_POINTS_RULES, genderBonus: { ...DEFAULT_POINTS_RULES.genderBonus, appliesTo: 'loser' } }
+      };
+      const input = { gender: 'female', currentRankingPoints: 500, isCrossGender: true };
+
+      expect(calculatePointsWithRules(loserOnly, { ...input, isWin: true }).genderMultiplier).toBe(1);
+      expect(calculatePointsWithRules(loserOnly, { ...input, isWin: false }).genderMultiplier).toBe(1.15);
+    });
+  });
+
+  describe('validatePointsRules', () => {
+    test('should report invalid fields', () => {
+      expect(validatePointsRules(DEFAULT_POINTS_RULES)).toEqual([]);
+      expect(validatePointsRules({ ...DEFAULT_POINTS_RULES, basePoints: { win: -1, loss: 1 } })[0]).toContain('basePoints.win');
+    });
+  });
+
+  describe('resolveRulesetAt', () => {
+    const rulesets = [record(2, '2025-06-01', null), record(1, '2025-01-01', '2025-06-01')];
+
+    test('should pick the ruleset whose effective window contains the date', () => {
+      expect(resolveRulesetAt(rulesets, new Date('2025-03-01')).version).toBe(1);
+      expect(resolveRulesetAt(rulesets, new Date('2025-06-01')).version).toBe(2);
+    });
+
+    test('should fall back to the built-in rules before the first ruleset', () => {
+      expect(resolveRulesetAt(rulesets, new Date('2024-12-31')).version).toBe(0);
+    });
+  });
+
+  describe('simulateMatchPoints', () => {
+    test('should report per-player deltas against the rules in force', () => {
+      const players = new Map<number, SimulationPlayer>([
+        [1, { id: 1, username: 'alice', gender: 'female', dateOfBirth: null, rankingPoints: 200 }],
+        [2, { id: 2, username: 'bob', gender: 'male', dateOfBirth: null, rankingPoints: 200 }]
+      ]);
+      const draft: PointsRuleset = {
+        version: 3,
+        name: 'Tournaments count double',
+        rules: { ...DEFAULT_POINTS_RULES, eventMultipliers: { ...DEFAULT_POINTS_RULES.eventMultipliers, tournament: 2 } }
+      };
+
+      const result = simulateMatchPoints(
+        [
+          { id: 10, matchDate: new Date('2025-02-01'), matchType: 'tournament', players: [{ userId: 1, isWin: true }, { userId: 2, isWin: false }] },
+          { id: 11, matchDate: new Date('2025-02-02'), matchType: 'casual', players: [{ userId: 2, isWin: true }, { userId: 1, isWin: false }] }
+        ],
+        players,
+        () => DEFAULT_POINTS_RULESET,
+        draft
+      );
+
+      expect(result.matchesSimulated).toBe(2);
+      expect(result.players).toEqual([
+        { userId: 1, username: 'alice', matches: 2, currentRulesPoints: 4.6, draftRulesPoints: 8.05, delta: 3.45 },
+        { userId: 2, username: 'bob', matches: 2, currentRulesPoints: 4, draftRulesPoints: 5, delta: 1 }
+      ]);
+      expect(result.totals.delta).toBe(4.45);
+    });
+  });
+});
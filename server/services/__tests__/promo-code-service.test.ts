@@ -0,0 +1,164 @@
+/**
+ * Test Suite for Promo Codes
+ *
+ * Covers code generation, discount amounts and caps, eligibility rules
+ * (status, date window, usage limits, targets, first booking), stacking
+ * with credits and gift cards, and the campaign analytics summary
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  calculatePromoDiscount,
+  evaluatePromo,
+  generatePromoCode,
+  normalizePromoCode,
+  summarizePromoRedemptions,
+  validatePromoCampaign,
+  type PromoCampaignTerms,
+  type PromoCodeUsageLimits,
+  type PromoPurchase
+} from '../../../shared/utils/promoCodes';
+
+const campaign: PromoCampaignTerms = {
+  status: 'active',
+  discountType: 'percentage',
+  discountValue: 20,
+  maxDiscountCents: null,
+  appliesTo: 'any',
+  firstBookingOnly: false,
+  coachIds: null,
+  tournamentIds: null,
+  startsAt: new Date('2025-06-01T00:00:00Z'),
+  endsAt: new Date('2025-06-30T23:59:59Z'),
+  minAmountCents: 0,
+  stacksWithCredits: true,
+  stacksWithGiftCards: false
+};
+
+const code: PromoCodeUsageLimits = { active: true, maxRedemptions: 100, redemptionCount: 3, perUserLimit: 1 };
+
+const purchase: PromoPurchase = {
+  targetType: 'session_booking',
+  priceCents: 9500,
+  coachId: 7,
+  tournamentId: null,
+  paymentMethod: 'external',
+  now: new Date('2025-06-10T12:00:00Z'),
+  priorBookings: 0,
+  userRedemptions: 0
+};
+
+describe('codes', () => {
+  test('generates prefixed codes from unambiguous characters', () => {
+    let i = 0;
+    const generated = generatePromoCode('spring', 8, max => (i++) % max);
+    expect(generated).toBe('SPRING-ABCDEFGH');
+    expect(generatePromoCode()).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+  });
+
+  test('matches codes regardless of case and spacing', () => {
+    expect(normalizePromoCode('  earlyBird ')).toBe('EARLYBIRD');
+  });
+});
+
+describe('calculatePromoDiscount', () => {
+  test('takes a percentage, a fixed amount or the whole session', () => {
+    expect(calculatePromoDiscount({ discountType: 'percentage', discountValue: 20, maxDiscountCents: null }, 9500)).toBe(1900);
+    expect(calculatePromoDiscount({ discountType: 'fixed', discountValue: 1500, maxDiscountCents: null }, 9500)).toBe(1500);
+    expect(calculatePromoDiscount({ discountType: 'free_session', discountValue: 0, maxDiscountCents: null }, 9500)).toBe(9500);
+  });
+
+  test('never goes past the cap or the price', () => {
+    expect(calculatePromoDiscount({ discountType: 'percentage', discountValue: 50, maxDiscountCents: 2000 }, 9500)).toBe(2000);
+    expect(calculatePromoDiscount({ discountType: 'fixed', discountValue: 12000, maxDiscountCents: null }, 9500)).toBe(9500);
+  });
+});
+
+describe('evaluatePromo', () => {
+  test('prices an eligible purchase', () => {
+    expect(evaluatePromo(campaign, code, purchase)).toEqual({
+      eligible: true,
+      reasons: [],
+      originalCents: 9500,
+      discountCents: 1900,
+      finalCents: 7600
+    });
+  });
+
+  test('rejects codes outside their window, used up or already used', () => {
+    expect(evaluatePromo(campaign, code, { ...purchase, now: new Date('2025-07-01T00:00:00Z') }).reasons)
+      .toEqual(['This promo code has expired']);
+    expect(evaluatePromo(campaign, { ...code, redemptionCount: 100 }, purchase).reasons)
+      .toEqual(['This promo code has been used up']);
+    expect(evaluatePromo(campaign, code, { ...purchase, userRedemptions: 1 }).reasons)
+      .toEqual(['You have already used this promo code']);
+    expect(evaluatePromo({ ...campaign, status: 'paused' }, code, purchase).eligible).toBe(false);
+  });
+
+  test('applies target, coach, tournament and first booking rules', () => {
+    const ineligible = evaluatePromo({ ...campaign, appliesTo: 'tournament_entry', tournamentIds: [3] }, code, purchase);
+    expect(ineligible.reasons).toEqual([
+      'This promo code is for tournament entry only',
+      'This promo code does not apply to this tournament'
+    ]);
+    expect(ineligible.finalCents).toBe(9500);
+
+    expect(evaluatePromo({ ...campaign, coachIds: [8] }, code, purchase).reasons)
+      .toEqual(['This promo code does not apply to this coach']);
+    expect(evaluatePromo({ ...campaign, firstBookingOnly: true }, code, { ...purchase, priorBookings: 2 }).reasons)
+      .toEqual(['This promo code is for a first booking only']);
+    expect(evaluatePromo({ ...campaign, minAmountCents: 10000 }, code, purchase).eligible).toBe(false);
+  });
+
+  test('only stacks with credits and gift cards the campaign allows', () => {
+    expect(evaluatePromo(campaign, code, { ...purchase, paymentMethod: 'credits' }).eligible).toBe(true);
+    expect(evaluatePromo(campaign, code, { ...purchase, paymentMethod: 'gift_card' }).reasons)
+      .toEqual(['This promo code cannot be combined with gift cards']);
+    expect(evaluatePromo({ ...campaign, stacksWithCredits: false }, code, { ...purchase, paymentMethod: 'credits' }).eligible)
+      .toBe(false);
+  });
+
+  test('lets a free session through whatever the payment method', () => {
+    const free = { ...campaign, discountType: 'free_session' as const, stacksWithGiftCards: false };
+    expect(evaluatePromo(free, code, { ...purchase, paymentMethod: 'gift_card' })).toMatchObject({ eligible: true, finalCents: 0 });
+  });
+});
+
+describe('validatePromoCampaign', () => {
+  test('checks discounts, windows and targets', () => {
+    expect(validatePromoCampaign(campaign)).toEqual([]);
+    expect(validatePromoCampaign({ ...campaign, discountValue: 120 })).toEqual(['A percentage discount must be between 1 and 100']);
+    expect(validatePromoCampaign({ ...campaign, endsAt: campaign.startsAt })).toEqual(['The campaign must end after it starts']);
+    expect(validatePromoCampaign({ ...campaign, discountType: 'free_session', appliesTo: 'tournament_entry' }))
+      .toEqual(['Free sessions do not apply to tournament entry']);
+  });
+});
+
+describe('summarizePromoRedemptions', () => {
+  test('totals applied redemptions by target and day', () => {
+    const row = { codeId: 1, status: 'applied', targetType: 'session_booking', originalAmountCents: 9500, discountCents: 1900, finalAmountCents: 7600 };
+    const summary = summarizePromoRedemptions([
+      { ...row, userId: 1, redeemedAt: new Date('2025-06-10T09:00:00Z') },
+      { ...row, userId: 2, redeemedAt: new Date('2025-06-10T15:00:00Z') },
+      { ...row, userId: 1, targetType: 'tournament_entry', originalAmountCents: 4000, discountCents: 800, finalAmountCents: 3200, redeemedAt: new Date('2025-06-11T09:00:00Z') },
+      { ...row, userId: 3, status: 'reversed', redeemedAt: new Date('2025-06-11T10:00:00Z') }
+    ]);
+
+    expect(summary).toEqual({
+      redemptions: 3,
+      uniqueUsers: 2,
+      grossCents: 23000,
+      discountCents: 4600,
+      netCents: 18400,
+      reversed: 1,
+      byTarget: {
+        session_booking: { redemptions: 2, discountCents: 3800 },
+        tournament_entry: { redemptions: 1, discountCents: 800 }
+      },
+      byDay: [
+        { date: '2025-06-10', redemptions: 2, discountCents: 3800 },
+        { date: '2025-06-11', redemptions: 1, discountCents: 800 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Test Suite for Ranking Replay Service
+ * 
+ * Covers rebuilding totals from matches and decay in chronological order,
+ * division assignment and the diff against stored totals
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  replayRankingHistory,
+  buildReplayDiff,
+  getDivisionField,
+  type ReplayPlayer,
+  type StoredPlayerTotals
+} from '../ranking-replay-service';
+import { DEFAULT_POINTS_RULESET } from '../../../shared/utils/pointsRuleEngine';
+
+const players = new Map<number, ReplayPlayer>([
+  [1, { id: 1, gender: 'female', dateOfBirth: null }],
+  [2, { id: 2, gender: 'male', dateOfBirth: null }],
+  [3, { id: 3, gender: 'female', dateOfBirth: null }],
+  [4, { id: 4, gender: 'male', dateOfBirth: null }]
+]);
+
+/**
+ * Builds stored totals with every field zero unless given
+ */
+function stored(id: number, values: Partial<StoredPlayerTotals> = {}): StoredPlayerTotals {
+  return {
+    id,
+    username: `player${id}`,
+    rankingPoints: 0,
+    picklePoints: 0,
+    singlesRankingPoints: 0,
+    doublesRankingPoints: 0,
+    mensDoublesRankingPoints: 0,
+    womensDoublesRankingPoints: 0,
+    mixedDoublesMenRankingPoints: 0,
+    mixedDoublesWomenRankingPoints: 0,
+    ...values
+  };
+}
+
+describe('ranking replay', () => {
+
+  describe('getDivisionField', () => {
+    test('should place doubles points by the genders of all four players', () => {
+      expect(getDivisionField('singles', ['male', 'female'], 'male')).toBe('singlesRankingPoints');
+      expect(getDivisionField('doubles', ['male', 'male', 'male', 'male'], 'male')).toBe('mensDoublesRankingPoints');
+      expect(getDivisionField('doubles', ['female', 'female', 'female', 'female'], 'female')).toBe('womensDoublesRankingPoints');
+      expect(getDivisionField('doubles', ['female', 'male', 'female', 'male'], 'female')).toBe('mixedDoublesWomenRankingPoints');
+      expect(getDivisionField('doubles', ['female', 'male', null, 'male'], 'male')).toBe('doublesRankingPoints');
+    });
+  });
+
+  describe('replayRankingHistory', () => {
+    test('should replay matches and decay in chronological order', () => {
+      const result = replayRankingHistory(
+        [
+          // Listed out of order on purpose
+          { id: 11, playedAt: new Date('2025-03-01'), matchType: 'casual', team1: [1, 3], team2: [2, 4], team1Won: false },
+          { id: 10, playedAt: new Date('2025-02-01'), matchType: 'casual', team1: [1], team2: [2], team1Won: true }
+        ],
+        [{ id: 1, userId: 1, at: new Date('2025-02-15'), decayRate: 50 }],
+        players,
+        () => DEFAULT_POINTS_RULESET
+      );
+
+      expect(result).toMatchObject({ matchesReplayed: 2, matchesSkipped: 0, decayEventsReplayed: 1, rulesetVersions: [0] });
+
+      // 3.45 cross-gender win, halved by decay, then a 1.15 mixed doubles loss
+      expect(result.totals.get(1)).toMatchObject({
+        rankingPoints: 2 + 1,
+        picklePoints: 5 + 2,
+        singlesRankingPoints: 3,
+        mixedDoublesWomenRankingPoints: 1
+      });
+      expect(result.totals.get(2)).toMatchObject({
+        rankingPoints: 1 + 3,
+        picklePoints: 2 + 5,
+        singlesRankingPoints: 1,
+        mixedDoublesMenRankingPoints: 3
+      });
+    });
+
+    test('should skip matches with unknown players', () => {
+      const result = replayRankingHistory(
+        [{ id: 12, playedAt: new Date('2025-02-01'), matchType: 'casual', team1: [1], team2: [99], team1Won: true }],
+        [],
+        players,
+        () => DEFAULT_POINTS_RULESET
+      );
+
+      expect(result.matchesSkipped).toBe(1);
+      expect(result.totals.size).toBe(0);
+    });
+  });
+
+  describe('buildReplayDiff', () => {
+    test('should report only differing fields, largest ranking change first', () => {
+      const replayed = replayRankingHistory(
+        [{ id: 10, playedAt: new Date('2025-02-01'), matchType: 'casual', team1: [2], team2: [4], team1Won: true }],
+        [],
+        players,
+        () => DEFAULT_POINTS_RULESET
+      ).totals;
+
+      const diff = buildReplayDiff(replayed, [
+        stored(2, { rankingPoints: 3, picklePoints: 5, singlesRankingPoints: 3 }),
+        stored(3, { rankingPoints: 10 }),
+        stored(4, { rankingPoints: 1, picklePoints: 2, singlesRankingPoints: 2 })
+      ]);
+
+      expect(diff).toEqual([
+        { userId: 3, username: 'player3', fields: { rankingPoints: { stored: 10, replayed: 0, delta: -10 } } },
+        { userId: 4, username: 'player4', fields: { singlesRankingPoints: { stored: 2, replayed: 1, delta: -1 } } }
+      ]);
+    });
+  });
+});
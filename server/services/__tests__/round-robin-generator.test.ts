@@ -0,0 +1,92 @@
+/**
+ * Test Suite for Round Robin Pool Generator
+ * 
+ * Covers snake seeding, circle-method scheduling, court/slot assignment
+ * and the pool standings tiebreak cascade
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  snakeSeedPools,
+  generateCircleSchedule,
+  assignCourtsAndSlots,
+  computePoolStandings,
+  getMatchPoints,
+  type PoolMatchResult
+} from '../round-robin-generator';
+
+/**
+ * Builds a result where team1 beats team2 by the given points
+ */
+function win(team1Id: number, team2Id: number, team1Points: number, team2Points: number): PoolMatchResult {
+  return { team1Id, team2Id, winnerId: team1Id, team1Points, team2Points };
+}
+
+describe('round-robin-generator', () => {
+
+  describe('snakeSeedPools', () => {
+    test('should snake seeds across pools', () => {
+      expect(snakeSeedPools([1, 2, 3, 4, 5, 6, 7, 8], 3)).toEqual([[1, 6, 7], [2, 5, 8], [3, 4]]);
+    });
+  });
+
+  describe('generateCircleSchedule', () => {
+    test('should pair every team with every other team exactly once', () => {
+      [4, 5, 6].forEach(size => {
+        const teamIds = Array.from({ length: size }, (_, i) => i + 1);
+        const rounds = generateCircleSchedule(teamIds);
+        const pairs = rounds.flat().map(([a, b]) => [a, b].sort().join('-'));
+
+        expect(new Set(pairs).size).toBe((size * (size - 1)) / 2);
+        expect(pairs).toHaveLength((size * (size - 1)) / 2);
+        rounds.forEach(round => {
+          const teams = round.flat();
+          expect(new Set(teams).size).toBe(teams.length);
+        });
+      });
+    });
+  });
+
+  describe('assignCourtsAndSlots', () => {
+    test('should spill matches beyond the available courts into the next slot', () => {
+      const schedules = [generateCircleSchedule([1, 2, 3, 4]), generateCircleSchedule([5, 6, 7, 8])];
+      const start = new Date('2025-06-01T09:00:00Z');
+      const scheduled = assignCourtsAndSlots(schedules, ['A', 'B', 'C'], start, 20);
+      const round1 = scheduled.filter(match => match.roundNumber === 1);
+
+      expect(round1.map(match => match.courtNumber)).toEqual(['A', 'B', 'C', 'A']);
+      expect(round1[3].matchDate!.getTime() - start.getTime()).toBe(20 * 60 * 1000);
+      expect(scheduled.find(match => match.roundNumber === 2)!.matchDate!.getTime() - start.getTime())
+        .toBe(40 * 60 * 1000);
+    });
+  });
+
+  describe('computePoolStandings', () => {
+    test('should rank by wins first', () => {
+      const standings = computePoolStandings([1, 2, 3], [win(2, 1, 11, 5), win(2, 3, 11, 9), win(1, 3, 11, 3)]);
+      expect(standings.map(s => s.teamId)).toEqual([2, 1, 3]);
+    });
+
+    test('should break a two-way tie by head-to-head', () => {
+      const standings = computePoolStandings([1, 2, 3, 4], [
+        win(1, 3, 11, 0), win(1, 4, 11, 0),
+        win(2, 1, 11, 9), win(2, 3, 11, 9),
+        win(3, 4, 11, 9), win(4, 2, 11, 9)
+      ]);
+      expect(standings[0].teamId).toBe(2);
+      expect(standings[1].teamId).toBe(1);
+    });
+
+    test('should break a three-way tie by point differential among the tied teams', () => {
+      const standings = computePoolStandings([1, 2, 3], [win(1, 2, 11, 2), win(2, 3, 11, 9), win(3, 1, 11, 9)]);
+      expect(standings.map(s => s.teamId)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('getMatchPoints', () => {
+    test('should read winner-first game scores', () => {
+      expect(getMatchPoints({ team1Id: 1, team2Id: 2, winnerId: 2, score: '11-7, 9-11, 11-5', scoreDetails: null }))
+        .toEqual({ team1Points: 23, team2Points: 31 });
+    });
+  });
+});
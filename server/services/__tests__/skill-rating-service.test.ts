@@ -0,0 +1,109 @@
+/**
+ * Test Suite for Skill Rating Service
+ * 
+ * Covers the Glicko-2 update against the published example, margin-adjusted
+ * results, doubles composites, idle deviation growth and provisional status
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  applyMatchToRatings,
+  getMatchPoints,
+  initialSkillRating,
+  type SkillRatingMatch,
+  type SkillRatingState
+} from '../skill-rating-service';
+import {
+  updateRating,
+  marginAdjustedScore,
+  isProvisional,
+  GLICKO2_SETTINGS
+} from '../../../shared/utils/glicko2';
+
+/**
+ * Builds a match on the given date
+ */
+function match(team1: number[], team2: number[], team1Won: boolean, playedAt: string, points?: [number, number]): SkillRatingMatch {
+  return {
+    id: 1,
+    playedAt: new Date(playedAt),
+    team1,
+    team2,
+    team1Won,
+    team1Points: points ? points[0] : null,
+    team2Points: points ? points[1] : null
+  };
+}
+
+describe('glicko-2', () => {
+  test('matches the worked example from the Glicko-2 paper', () => {
+    const result = updateRating({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { opponentRating: 1400, opponentDeviation: 30, score: 1 },
+      { opponentRating: 1550, opponentDeviation: 100, score: 0 },
+      { opponentRating: 1700, opponentDeviation: 300, score: 0 }
+    ]);
+
+    expect(result.rating).toBeCloseTo(1464.06, 1);
+    expect(result.deviation).toBeCloseTo(151.52, 1);
+    expect(result.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  test('a shutout counts for more than a narrow win', () => {
+    expect(marginAdjustedScore(11, 0)).toBe(1);
+    expect(marginAdjustedScore(11, 9)).toBeLessThan(marginAdjustedScore(11, 3));
+    expect(marginAdjustedScore(null, null)).toBe(1 - GLICKO2_SETTINGS.marginWeight / 2);
+  });
+
+  test('new players are provisional', () => {
+    expect(isProvisional({ deviation: 350 }, 0)).toBe(true);
+    expect(isProvisional({ deviation: 80 }, 3)).toBe(true);
+    expect(isProvisional({ deviation: 80 }, 12)).toBe(false);
+  });
+});
+
+describe('applyMatchToRatings', () => {
+  test('rates doubles players against the opposing team composite', () => {
+    const states = new Map<number, SkillRatingState>([
+      [1, { ...initialSkillRating(1), rating: 1700, deviation: 80, matchesPlayed: 20 }],
+      [2, { ...initialSkillRating(2), rating: 1500, deviation: 80, matchesPlayed: 20 }]
+    ]);
+
+    const changes = applyMatchToRatings(
+      match([1, 2], [3, 4], true, '2026-06-01', [22, 10]),
+      userId => states.get(userId) || initialSkillRating(userId)
+    );
+
+    expect(changes).toHaveLength(4);
+    const byUser = new Map(changes.map(change => [change.userId, change]));
+
+    // Winners gain, losers drop, and the uncertain newcomers move much further
+    expect(byUser.get(1)!.after.rating).toBeGreaterThan(1700);
+    expect(byUser.get(3)!.after.rating).toBeLessThan(1500);
+    expect(1500 - byUser.get(3)!.after.rating).toBeGreaterThan(byUser.get(1)!.after.rating - 1700);
+    expect(byUser.get(1)!.after.wins).toBe(1);
+    expect(byUser.get(4)!.after.losses).toBe(1);
+    expect(byUser.get(1)!.expectedScore + byUser.get(3)!.expectedScore).toBeCloseTo(1, 6);
+  });
+
+  test('deviation grows while a player is inactive', () => {
+    const lastMatchAt = new Date('2026-01-01');
+    const settled: SkillRatingState = { ...initialSkillRating(1), deviation: 60, matchesPlayed: 30, lastMatchAt };
+
+    const soon = applyMatchToRatings(match([1], [2], true, '2026-01-03'), () => settled)[0];
+    const later = applyMatchToRatings(match([1], [2], true, '2026-12-01'), () => settled)[0];
+
+    expect(later.before.deviation).toBeGreaterThan(soon.before.deviation);
+    expect(soon.before.deviation).toBe(60);
+  });
+
+  test('reads points from game scores or score columns', () => {
+    expect(getMatchPoints({ gameScores: [{ team1: 11, team2: 7 }, { team1: 9, team2: 11 }] }))
+      .toEqual({ team1Points: 20, team2Points: 18 });
+    expect(getMatchPoints({ gameScores: [{ playerOneScore: 11, playerTwoScore: 4 }] }))
+      .toEqual({ team1Points: 11, team2Points: 4 });
+    expect(getMatchPoints({ scorePlayerOne: '2', scorePlayerTwo: '1' }))
+      .toEqual({ team1Points: 2, team2Points: 1 });
+    expect(getMatchPoints({ scorePlayerOne: 'pending', scorePlayerTwo: 'pending' }))
+      .toEqual({ team1Points: null, team2Points: null });
+  });
+});
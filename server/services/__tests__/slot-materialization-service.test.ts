@@ -0,0 +1,160 @@
+/**
+ * Test Suite for Slot Materialization
+ *
+ * Covers expanding weekly availability in a coach's time zone across
+ * daylight saving changes, and reconciling generated slots with time off,
+ * existing bookings and court assignments
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  expandAvailabilityRule,
+  planSlotMaterialization,
+  zonedTimeToUtc,
+  type AvailabilityRule,
+  type ExistingSlot
+} from '../../../shared/utils/slotMaterializer';
+
+const mondayMornings: AvailabilityRule = {
+  id: 1,
+  dayOfWeek: 1,
+  startTime: '09:00:00',
+  endTime: '11:00:00',
+  sessionDuration: 60,
+  isRecurring: true,
+  effectiveDate: null,
+  expiryDate: null,
+  timeZone: 'America/New_York',
+  location: 'Riverside Club',
+  courtNumber: '3'
+};
+
+// Two weeks either side of the US switch to daylight time on 9 March 2025
+const from = new Date('2025-03-01T00:00:00Z');
+const to = new Date('2025-03-15T00:00:00Z');
+
+function slot(id: number, startTime: string, overrides: Partial<ExistingSlot> = {}): ExistingSlot {
+  const start = new Date(startTime);
+  return {
+    id,
+    availabilityId: 1,
+    startTime: start,
+    endTime: new Date(start.getTime() + 60 * 60 * 1000),
+    bookingCount: 0,
+    status: 'available',
+    location: 'Riverside Club',
+    courtNumber: '3',
+    ...overrides
+  };
+}
+
+describe('zonedTimeToUtc', () => {
+  test('converts wall-clock times either side of a DST change', () => {
+    expect(zonedTimeToUtc('2025-03-03', 9 * 60, 'America/New_York')?.toISOString()).toBe('2025-03-03T14:00:00.000Z');
+    expect(zonedTimeToUtc('2025-03-10', 9 * 60, 'America/New_York')?.toISOString()).toBe('2025-03-10T13:00:00.000Z');
+    expect(zonedTimeToUtc('2025-03-10', 9 * 60, 'Asia/Shanghai')?.toISOString()).toBe('2025-03-10T01:00:00.000Z');
+  });
+
+  test('skipped times have no instant and repeated times resolve to the first', () => {
+    expect(zonedTimeToUtc('2025-03-09', 2 * 60 + 30, 'America/New_York')).toBeNull();
+    expect(zonedTimeToUtc('2025-11-02', 60 + 30, 'America/New_York')?.toISOString()).toBe('2025-11-02T05:30:00.000Z');
+  });
+});
+
+describe('expandAvailabilityRule', () => {
+  test('cuts each matching local day into sessions at the same wall-clock time', () => {
+    const slots = expandAvailabilityRule(mondayMornings, from, to);
+
+    expect(slots.map(s => s.startTime.toISOString())).toEqual([
+      '2025-03-03T14:00:00.000Z',
+      '2025-03-03T15:00:00.000Z',
+      '2025-03-10T13:00:00.000Z',
+      '2025-03-10T14:00:00.000Z'
+    ]);
+    expect(slots[0].localDate).toBe('2025-03-03');
+    expect(slots[0].endTime.toISOString()).toBe('2025-03-03T15:00:00.000Z');
+  });
+
+  test('respects effective and expiry dates', () => {
+    const slots = expandAvailabilityRule({
+      ...mondayMornings,
+      effectiveDate: new Date('2025-03-05T00:00:00Z'),
+      expiryDate: new Date('2025-03-10T13:30:00Z')
+    }, from, to);
+
+    expect(slots.map(s => s.startTime.toISOString())).toEqual(['2025-03-10T13:00:00.000Z']);
+  });
+
+  test('one-off availability covers the first matching day after it takes effect', () => {
+    const slots = expandAvailabilityRule({
+      ...mondayMornings,
+      isRecurring: false,
+      effectiveDate: new Date('2025-03-04T12:00:00Z')
+    }, from, to);
+
+    expect(slots.map(s => s.localDate)).toEqual(['2025-03-10', '2025-03-10']);
+  });
+});
+
+describe('planSlotMaterialization', () => {
+  const base = { rules: [mondayMornings], timeOff: [], existingSlots: [], courtSlots: [], from, to };
+
+  test('creates every slot on a blank calendar', () => {
+    const plan = planSlotMaterialization(base);
+    expect(plan.create).toHaveLength(4);
+    expect(plan.remove).toEqual([]);
+  });
+
+  test('skips slots during time off', () => {
+    const plan = planSlotMaterialization({
+      ...base,
+      timeOff: [{ startsAt: new Date('2025-03-10T00:00:00Z'), endsAt: new Date('2025-03-11T00:00:00Z') }]
+    });
+
+    expect(plan.create).toHaveLength(2);
+    expect(plan.skipped.map(s => s.reason)).toEqual(['time_off', 'time_off']);
+  });
+
+  test('keeps matching slots and never removes booked ones', () => {
+    const plan = planSlotMaterialization({
+      ...base,
+      existingSlots: [
+        slot(10, '2025-03-03T14:00:00Z'), // still wanted, unbooked
+        slot(11, '2025-03-03T15:00:00Z', { bookingCount: 2 }), // still wanted, booked
+        slot(12, '2025-03-04T14:00:00Z'), // rule moved away, unbooked
+        slot(13, '2025-03-05T14:00:00Z', { bookingCount: 1 }) // rule moved away, booked
+      ]
+    });
+
+    expect(plan.update.map(u => u.slotId)).toEqual([10]);
+    expect(plan.keep).toEqual([11]);
+    expect(plan.remove).toEqual([12]);
+    expect(plan.preserved).toEqual([{ slotId: 13, reason: 'booked' }]);
+    expect(plan.create).toHaveLength(2);
+  });
+
+  test('does not overlap booked sessions or other coaches on the same court', () => {
+    const plan = planSlotMaterialization({
+      ...base,
+      existingSlots: [slot(20, '2025-03-03T14:30:00Z', { availabilityId: null, bookingCount: 1 })],
+      courtSlots: [slot(30, '2025-03-10T13:00:00Z', { availabilityId: 9 })]
+    });
+
+    expect(plan.skipped).toEqual([
+      expect.objectContaining({ reason: 'booking_conflict', conflictSlotId: 20 }),
+      expect.objectContaining({ reason: 'booking_conflict', conflictSlotId: 20 }),
+      expect.objectContaining({ reason: 'court_conflict', conflictSlotId: 30 })
+    ]);
+    expect(plan.create.map(s => s.startTime.toISOString())).toEqual(['2025-03-10T14:00:00.000Z']);
+  });
+
+  test('overlapping rules do not double-book the coach', () => {
+    const plan = planSlotMaterialization({
+      ...base,
+      rules: [mondayMornings, { ...mondayMornings, id: 2, startTime: '09:30', endTime: '10:30', courtNumber: null }]
+    });
+
+    expect(plan.create).toHaveLength(4);
+    expect(plan.skipped.map(s => [s.slot.availabilityId, s.reason])).toEqual([[2, 'slot_overlap'], [2, 'slot_overlap']]);
+  });
+});
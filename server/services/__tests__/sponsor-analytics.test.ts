@@ -0,0 +1,87 @@
+/**
+ * Test Suite for Sponsor Analytics
+ *
+ * Covers the impression → claim → fulfilment funnel by day, region and
+ * player tier, and the fulfilment list CSV
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildSponsorFunnel,
+  renderFulfilmentCsv,
+  type ClaimFunnelRow,
+  type ImpressionRow
+} from '../../../shared/utils/sponsorAnalytics';
+
+const impressions: ImpressionRow[] = [
+  { shownAt: new Date('2025-06-10T09:00:00Z'), region: 'SG', tier: 'Dink Dabbler' },
+  { shownAt: new Date('2025-06-10T12:00:00Z'), region: 'SG', tier: 'Paddle Apprentice' },
+  { shownAt: new Date('2025-06-10T15:00:00Z'), region: null, tier: 'Dink Dabbler' },
+  { shownAt: new Date('2025-06-11T08:00:00Z'), region: 'JP', tier: 'Dink Dabbler' }
+];
+
+const claims: ClaimFunnelRow[] = [
+  { claimedAt: new Date('2025-06-10T09:05:00Z'), status: 'fulfilled', region: 'SG', tier: 'Dink Dabbler' },
+  { claimedAt: new Date('2025-06-10T12:10:00Z'), status: 'approved', region: 'SG', tier: 'Paddle Apprentice' },
+  { claimedAt: new Date('2025-06-11T08:01:00Z'), status: 'pending', region: 'JP', tier: 'Dink Dabbler' },
+  { claimedAt: new Date('2025-06-11T09:00:00Z'), status: 'rejected', region: 'JP', tier: 'Dink Dabbler' }
+];
+
+describe('buildSponsorFunnel', () => {
+  test('totals each stage and its conversion', () => {
+    expect(buildSponsorFunnel(impressions, claims).totals).toEqual({
+      impressions: 4,
+      claims: 3,
+      approved: 2,
+      fulfilled: 1,
+      claimRate: 0.75,
+      fulfilmentRate: 0.3333
+    });
+  });
+
+  test('splits by day, region and tier', () => {
+    const funnel = buildSponsorFunnel(impressions, claims);
+
+    expect(funnel.byDay.map(day => [day.date, day.impressions, day.claims, day.fulfilled])).toEqual([
+      ['2025-06-10', 3, 2, 1],
+      ['2025-06-11', 1, 1, 0]
+    ]);
+    expect(Object.keys(funnel.byRegion)).toEqual(['JP', 'SG', 'unknown']);
+    expect(funnel.byRegion.SG).toMatchObject({ impressions: 2, claims: 2, approved: 2, claimRate: 1 });
+    expect(funnel.byRegion.unknown).toMatchObject({ impressions: 1, claims: 0, claimRate: 0 });
+    expect(funnel.byTier['Dink Dabbler']).toMatchObject({ impressions: 3, claims: 2, fulfilled: 1 });
+  });
+
+  test('an empty campaign has zero rates', () => {
+    expect(buildSponsorFunnel([], [])).toEqual({
+      totals: { impressions: 0, claims: 0, approved: 0, fulfilled: 0, claimRate: 0, fulfilmentRate: 0 },
+      byDay: [],
+      byRegion: {},
+      byTier: {}
+    });
+  });
+});
+
+describe('renderFulfilmentCsv', () => {
+  test('quotes addresses and defuses formulas', () => {
+    const csv = renderFulfilmentCsv([{
+      claimId: 12,
+      ticketTitle: 'Summer Paddle Drop',
+      campaignId: 'summer-25',
+      rewardDescription: 'Pro paddle',
+      rewardType: 'physical',
+      claimStatus: 'approved',
+      claimedAt: new Date('2025-06-10T09:05:00Z'),
+      recipientName: '=HYPERLINK("x")',
+      recipientEmail: 'player@example.com',
+      shippingAddress: '1 Court Rd, Singapore',
+      shippingTrackingCode: null
+    }]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Claim ID,Campaign,Ticket,Reward,Reward Type,Status,Claimed At,Recipient,Email,Shipping Address,Tracking Code',
+      '12,summer-25,Summer Paddle Drop,Pro paddle,physical,approved,2025-06-10T09:05:00.000Z,"\'=HYPERLINK(""x"")",player@example.com,"1 Court Rd, Singapore",',
+      ''
+    ]);
+  });
+});
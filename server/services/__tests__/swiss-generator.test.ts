@@ -0,0 +1,128 @@
+/**
+ * Test Suite for Swiss System Generator
+ * 
+ * Covers Swiss standings (score and Buchholz), score group pairing,
+ * rematch avoidance and bye rotation
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  computeSwissStandings,
+  pairSwissRound,
+  getDefaultSwissRounds,
+  getMaxSwissRounds,
+  type SwissResult
+} from '../swiss-generator';
+
+/**
+ * Builds a played result where the first team wins
+ */
+function win(winnerId: number, loserId: number): SwissResult {
+  return { team1Id: winnerId, team2Id: loserId, winnerId };
+}
+
+/**
+ * Builds a bye for the given team
+ */
+function bye(teamId: number): SwissResult {
+  return { team1Id: teamId, team2Id: null, winnerId: teamId };
+}
+
+describe('swiss-generator', () => {
+
+  describe('computeSwissStandings', () => {
+    test('should order by score, then Buchholz, then seed', () => {
+      // 1 beat 2, 3 beat 4; then 1 beat 3, 2 beat 4
+      const standings = computeSwissStandings([1, 2, 3, 4], [win(1, 2), win(3, 4), win(1, 3), win(2, 4)]);
+
+      expect(standings.map(line => line.teamId)).toEqual([1, 2, 3, 4]);
+      expect(standings[0]).toMatchObject({ score: 2, wins: 2, losses: 0, rank: 1 });
+      // 2 and 3 are both on one win; 2 lost to the leader and beat 4 (buchholz 2 + 0)
+      // while 3 beat 4 and lost to the leader (buchholz 0 + 2), so seed order decides
+      expect(standings[1].buchholz).toBe(standings[2].buchholz);
+    });
+
+    test('should count a bye as a win without an opponent', () => {
+      const standings = computeSwissStandings([1, 2, 3], [win(1, 2), bye(3)]);
+      const team3 = standings.find(line => line.teamId === 3)!;
+
+      expect(team3).toMatchObject({ score: 1, byes: 1, wins: 0, opponents: [] });
+    });
+  });
+
+  describe('pairSwissRound', () => {
+    test('should pair the top half against the bottom half in round one', () => {
+      const standings = computeSwissStandings([1, 2, 3, 4, 5, 6, 7, 8], []);
+      const { pairs, byeTeamId } = pairSwissRound(standings);
+
+      expect(byeTeamId).toBeNull();
+      expect(pairs).toEqual([[1, 5], [2, 6], [3, 7], [4, 8]]);
+    });
+
+    test('should pair within score groups and avoid rematches', () => {
+      const teams = [1, 2, 3, 4, 5, 6, 7, 8];
+      const roundOne = [win(1, 5), win(2, 6), win(3, 7), win(4, 8)];
+      const { pairs } = pairSwissRound(computeSwissStandings(teams, roundOne));
+
+      const played = new Set(roundOne.map(result => [result.team1Id, result.team2Id].sort().join('-')));
+      const winners = new Set([1, 2, 3, 4]);
+
+      pairs.forEach(([a, b]) => {
+        expect(played.has([a, b].sort().join('-'))).toBe(false);
+        expect(winners.has(a)).toBe(winners.has(b));
+      });
+    });
+
+    test('should float a team down when its score group is odd', () => {
+      const teams = [1, 2, 3, 4, 5, 6];
+      const { pairs } = pairSwissRound(computeSwissStandings(teams, [win(1, 4), win(2, 5), win(3, 6)]));
+
+      const crossGroup = pairs.filter(([a, b]) => (a <= 3) !== (b <= 3));
+      expect(crossGroup).toHaveLength(1);
+    });
+
+    test('should give the bye to the lowest-ranked team without one', () => {
+      const teams = [1, 2, 3, 4, 5];
+      const roundOne = pairSwissRound(computeSwissStandings(teams, []));
+      expect(roundOne.byeTeamId).toBe(5);
+
+      const results: SwissResult[] = [...roundOne.pairs.map(([a, b]) => win(a, b)), bye(5)];
+      const roundTwo = pairSwissRound(computeSwissStandings(teams, results));
+
+      expect(roundTwo.byeTeamId).not.toBe(5);
+      expect(roundTwo.pairs.flat()).not.toContain(roundTwo.byeTeamId);
+    });
+
+    test('should allow a rematch only when no other pairing exists', () => {
+      const { pairs } = pairSwissRound(computeSwissStandings([1, 2], [win(1, 2)]));
+
+      expect(pairs).toEqual([[1, 2]]);
+    });
+
+    test('should give up on a rematch-free pairing quickly when there is none', () => {
+      // Team 24 has already played everyone, so no rematch-free pairing exists
+      const teams = Array.from({ length: 24 }, (_, index) => index + 1);
+      const results = teams.slice(0, 23).map(teamId => win(teamId, 24));
+
+      const started = Date.now();
+      const { pairs } = pairSwissRound(computeSwissStandings(teams, results));
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(pairs).toHaveLength(12);
+      expect(new Set(pairs.flat()).size).toBe(24);
+      expect(pairs.filter(pair => pair.includes(24))).toHaveLength(1);
+    });
+  });
+
+  describe('getDefaultSwissRounds', () => {
+    test('should play enough rounds to find a single unbeaten team', () => {
+      expect(getDefaultSwissRounds(8)).toBe(3);
+      expect(getDefaultSwissRounds(9)).toBe(4);
+    });
+
+    test('should not allow more rounds than opponents', () => {
+      expect(getMaxSwissRounds(8)).toBe(7);
+      expect(getMaxSwissRounds(2)).toBe(1);
+    });
+  });
+});
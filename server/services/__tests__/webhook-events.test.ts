@@ -0,0 +1,62 @@
+/**
+ * Test Suite for the Webhook Event Catalogue
+ *
+ * Covers that every event has a schema and description, that payloads are
+ * reduced to their documented fields, and subscription name checks
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  WEBHOOK_API_VERSIONS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_EVENT_SCHEMAS,
+  isKnownWebhookEvent,
+  parseWebhookEventData
+} from '../../modules/api-gateway/config/webhook-events';
+
+describe('webhook event catalogue', () => {
+  test('every event has a schema in each version and a description', () => {
+    for (const version of WEBHOOK_API_VERSIONS) {
+      for (const event of Object.values(WEBHOOK_EVENTS)) {
+        expect(WEBHOOK_EVENT_SCHEMAS[version][event]).toBeDefined();
+        expect(WEBHOOK_EVENT_DESCRIPTIONS[event]).toBeTruthy();
+      }
+    }
+  });
+
+  test('drops fields the schema does not document', () => {
+    const data = parseWebhookEventData('user.created', {
+      user_id: 7,
+      username: 'dink',
+      display_name: null,
+      passport_code: 'AB12CD34',
+      created_at: '2026-03-01T12:00:00.000Z',
+      email: 'dink@example.com'
+    } as any);
+
+    expect(data).toEqual({
+      user_id: 7,
+      username: 'dink',
+      display_name: null,
+      passport_code: 'AB12CD34',
+      created_at: '2026-03-01T12:00:00.000Z'
+    });
+  });
+
+  test('rejects payloads that do not match the schema', () => {
+    expect(() => parseWebhookEventData('user.ranking_changed', {
+      user_id: 7,
+      match_id: 3,
+      points_change: 3,
+      ranking_points: 120,
+      changed_at: 'yesterday'
+    })).toThrow();
+  });
+
+  test('accepts catalogue events and the wildcard only', () => {
+    expect(isKnownWebhookEvent('booking.cancelled')).toBe(true);
+    expect(isKnownWebhookEvent('*')).toBe(true);
+    expect(isKnownWebhookEvent('coach_assessed')).toBe(false);
+  });
+});
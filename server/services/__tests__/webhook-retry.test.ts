@@ -0,0 +1,107 @@
+/**
+ * Test Suite for the Webhook Retry Policy
+ *
+ * Covers exponential backoff with jitter and its cap, Retry-After handling,
+ * dead-lettering, endpoint disabling and event subscriptions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  BASE_RETRY_DELAY_MS,
+  ENDPOINT_DISABLE_AFTER_MS,
+  ENDPOINT_DISABLE_FAILURES,
+  MAX_DELIVERY_ATTEMPTS,
+  MAX_RETRY_DELAY_MS,
+  isSubscribedTo,
+  parseRetryAfter,
+  planNextAttempt,
+  retryDelayMs,
+  shouldDisableEndpoint
+} from '../../../shared/utils/webhookRetry';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const noJitter = () => 0.5;
+
+describe('retryDelayMs', () => {
+  test('doubles after each failed attempt up to the cap', () => {
+    expect(retryDelayMs(1, noJitter)).toBe(BASE_RETRY_DELAY_MS);
+    expect(retryDelayMs(2, noJitter)).toBe(BASE_RETRY_DELAY_MS * 2);
+    expect(retryDelayMs(5, noJitter)).toBe(BASE_RETRY_DELAY_MS * 16);
+    expect(retryDelayMs(30, noJitter)).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  test('jitters by up to a fifth either way without passing the cap', () => {
+    expect(retryDelayMs(1, () => 0)).toBe(BASE_RETRY_DELAY_MS * 0.8);
+    expect(retryDelayMs(1, () => 1)).toBe(BASE_RETRY_DELAY_MS * 1.2);
+    expect(retryDelayMs(30, () => 1)).toBe(MAX_RETRY_DELAY_MS);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  test('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:05:00 GMT', now)).toBe(300000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe('planNextAttempt', () => {
+  test('a 2xx response completes the delivery', () => {
+    expect(planNextAttempt({ attemptCount: 3, statusCode: 204 }, now)).toEqual({ status: 'succeeded' });
+  });
+
+  test('failures and timeouts are retried with backoff', () => {
+    expect(planNextAttempt({ attemptCount: 1, statusCode: 503 }, now, noJitter)).toEqual({
+      status: 'retrying',
+      nextAttemptAt: new Date(now.getTime() + BASE_RETRY_DELAY_MS)
+    });
+    expect(planNextAttempt({ attemptCount: 2, statusCode: null }, now, noJitter)).toEqual({
+      status: 'retrying',
+      nextAttemptAt: new Date(now.getTime() + BASE_RETRY_DELAY_MS * 2)
+    });
+  });
+
+  test('Retry-After can only push the next attempt later, up to the cap', () => {
+    const later = planNextAttempt({ attemptCount: 1, statusCode: 429, retryAfter: '600' }, now, noJitter);
+    expect(later).toEqual({ status: 'retrying', nextAttemptAt: new Date(now.getTime() + 600000) });
+
+    const sooner = planNextAttempt({ attemptCount: 1, statusCode: 429, retryAfter: '1' }, now, noJitter);
+    expect(sooner).toEqual({ status: 'retrying', nextAttemptAt: new Date(now.getTime() + BASE_RETRY_DELAY_MS) });
+
+    const capped = planNextAttempt({ attemptCount: 1, statusCode: 503, retryAfter: '999999' }, now, noJitter);
+    expect(capped).toEqual({ status: 'retrying', nextAttemptAt: new Date(now.getTime() + MAX_RETRY_DELAY_MS) });
+  });
+
+  test('dead-letters after the last attempt, and at once on 410 Gone', () => {
+    expect(planNextAttempt({ attemptCount: MAX_DELIVERY_ATTEMPTS, statusCode: 500 }, now)).toEqual({
+      status: 'dead',
+      reason: `Gave up after ${MAX_DELIVERY_ATTEMPTS} attempts`,
+      disableEndpoint: false
+    });
+    expect(planNextAttempt({ attemptCount: 1, statusCode: 410 }, now)).toMatchObject({
+      status: 'dead',
+      disableEndpoint: true
+    });
+  });
+});
+
+describe('shouldDisableEndpoint', () => {
+  const dayAgo = new Date(now.getTime() - ENDPOINT_DISABLE_AFTER_MS);
+
+  test('needs both enough failures and a day of failing', () => {
+    expect(shouldDisableEndpoint({ failureCount: ENDPOINT_DISABLE_FAILURES, failingSince: dayAgo }, now)).toBe(true);
+    expect(shouldDisableEndpoint({ failureCount: ENDPOINT_DISABLE_FAILURES - 1, failingSince: dayAgo }, now)).toBe(false);
+    expect(shouldDisableEndpoint({ failureCount: 500, failingSince: new Date(now.getTime() - 60000) }, now)).toBe(false);
+    expect(shouldDisableEndpoint({ failureCount: 500, failingSince: null }, now)).toBe(false);
+  });
+});
+
+describe('isSubscribedTo', () => {
+  test('matches listed events and the wildcard', () => {
+    expect(isSubscribedTo('match.completed, user.ranking_changed', 'user.ranking_changed')).toBe(true);
+    expect(isSubscribedTo('match.completed', 'user.created')).toBe(false);
+    expect(isSubscribedTo('*', 'user.created')).toBe(true);
+    expect(isSubscribedTo(null, 'user.created')).toBe(false);
+  });
+});
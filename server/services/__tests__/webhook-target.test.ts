@@ -0,0 +1,48 @@
+/**
+ * Test Suite for Webhook Target Checks
+ *
+ * Covers which addresses count as public and which webhook URLs are refused
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { isPublicAddress, resolveWebhookTarget } from '../../modules/api-gateway/utils/webhook-target';
+
+describe('isPublicAddress', () => {
+  test('accepts public IPv4 and IPv6 addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+  });
+
+  test('refuses loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    for (const address of ['::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:169.254.169.254']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  test('refuses anything that is not an address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('resolveWebhookTarget', () => {
+  test('requires https', async () => {
+    await expect(resolveWebhookTarget('http://93.184.216.34/hook')).rejects.toThrow('must use https');
+  });
+
+  test('refuses hosts that are not public', async () => {
+    await expect(resolveWebhookTarget('https://169.254.169.254/latest/meta-data')).rejects.toThrow('not a public address');
+    await expect(resolveWebhookTarget('https://[::1]/hook')).rejects.toThrow('not a public address');
+    await expect(resolveWebhookTarget('https://localhost/hook')).rejects.toThrow(/not a public address|could not be resolved/);
+  });
+
+  test('returns the address to connect to for a public host', async () => {
+    await expect(resolveWebhookTarget('https://93.184.216.34/hook')).resolves.toEqual({
+      url: 'https://93.184.216.34/hook',
+      address: '93.184.216.34',
+      family: 4
+    });
+  });
+});
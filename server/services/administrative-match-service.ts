@@ -11,7 +11,7 @@
 
 import { storage } from '../storage';
 import { AntiGamingService } from './anti-gaming';
-import type { InsertMatch } from '@shared/schema';
+import { ingestMatch } from './match-ingestion-service';
 
 export interface AdminMatchRequest {
   createdById: number;
@@ -96,34 +96,33 @@ export class AdministrativeMatchService {
     // Anti-gaming checks for administrative matches
     const antiGamingCheck = await this.performAntiGamingValidation(request);
     
-    // Create the match record with administrative flags
-    const matchData: InsertMatch = {
-      playerOneId: request.playerOneId,
-      playerTwoId: request.playerTwoId,
-      playerOnePartnerId: request.playerOnePartnerId || null,
-      playerTwoPartnerId: request.playerTwoPartnerId || null,
-      
-      // Match configuration
-      formatType: request.formatType,
-      matchType: request.matchType,
-      eventTier: request.eventTier,
-      
-      // Scheduling
+    // Create the match record with administrative flags, scheduled (no scores yet)
+    const ingestion = await ingestMatch({
+      team1: [request.playerOneId, request.playerOnePartnerId].filter(Boolean).map(userId => ({ userId: userId! })),
+      team2: [request.playerTwoId, request.playerTwoPartnerId].filter(Boolean).map(userId => ({ userId: userId! })),
       matchDate: request.scheduledDate,
-      location: request.venue || null,
-      
-      // Administrative metadata
-      isTestData: false,
-      notes: this.buildAdministrativeNotes(request),
-      
-      // Initialize as scheduled (no scores yet)
-      playerOneScore: null,
-      playerTwoScore: null,
-      winnerId: null,
-      pointsAwarded: null
-    };
+      values: {
+        // Match configuration
+        formatType: request.formatType,
+        matchType: request.matchType,
+        eventTier: request.eventTier,
+        location: request.venue || null,
+        
+        // Administrative metadata
+        isTestData: false,
+        notes: this.buildAdministrativeNotes(request)
+      }
+    }, { source: 'administrative-match' });
+    
+    if (ingestion.status === 'duplicate') {
+      throw new Error(`Match already scheduled: ${ingestion.duplicateOfMatchId}`);
+    }
+    
+    if (ingestion.status === 'rejected') {
+      throw new Error(`Participant validation failed: ${ingestion.message}`);
+    }
     
-    const match = await storage.createMatch(matchData);
+    const { match } = ingestion;
     
     // Create administrative match record with extended metadata
     await this.createAdministrativeRecord(match.id, request);
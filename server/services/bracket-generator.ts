@@ -6,7 +6,8 @@
  */
 
 import { db } from "../db";
-import { eq, and, or, inArray as drizzleInArray, SQL } from "drizzle-orm";
+import { eq, and, or, asc, inArray as drizzleInArray, SQL } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import { 
   tournamentTeams, 
   tournamentBrackets, 
@@ -18,27 +19,78 @@ import {
   type InsertTournamentBracketMatch
 } from "../../shared/schema/tournament-brackets";
 import { tournaments } from "../../shared/schema";
+import { getTeamSeedingRatings } from "./skill-rating-service";
+import { publishDomainEvent } from "../core/events/domain-events";
+
+type Writer = PgDatabase<any, any, any>;
 
 /**
  * Supported bracket types
  */
-export type BracketType = 'single_elimination' | 'double_elimination' | 'round_robin';
+export type BracketType = 'single_elimination' | 'double_elimination' | 'consolation' | 'round_robin' | 'swiss';
+
+/**
+ * Side of a bracket a round or match belongs to
+ */
+export type BracketSide = 'winners' | 'losers' | 'grand_final' | 'grand_final_reset' | 'consolation' | 'pool' | 'swiss';
 
 /**
  * Power of 2 bracket sizes (2, 4, 8, 16, 32, 64, 128)
  */
 const VALID_BRACKET_SIZES = [2, 4, 8, 16, 32, 64, 128];
 
+/**
+ * Match statuses that no longer accept teams or results
+ */
+const FINISHED_MATCH_STATUSES = ['completed', 'bye', 'cancelled'];
+
+/**
+ * Reference to a team slot in another match of the same plan
+ */
+export interface PlannedSlot {
+  matchIndex: number;
+  slot: 1 | 2;
+}
+
+/**
+ * A round in a bracket plan (before persistence)
+ */
+export interface PlannedRound {
+  side: BracketSide;
+  roundNumber: number;
+  roundName: string;
+  matchesCount: number;
+}
+
 /**
  * Interface representing a Match in the bracket
  */
-interface BracketMatch {
+export interface BracketMatch {
   matchNumber: number;
-  roundNumber: number;
-  team1Id?: number | null;
-  team2Id?: number | null;
-  nextMatchId?: number | null;
-  consolationMatchId?: number | null; // For double elimination
+  roundIndex: number;
+  side: BracketSide;
+  winnerTo: PlannedSlot | null;
+  loserTo: PlannedSlot | null; // For double elimination and consolation draws
+}
+
+/**
+ * Complete, database-independent description of a bracket structure
+ */
+export interface BracketPlan {
+  bracketSize: number;
+  rounds: PlannedRound[];
+  matches: BracketMatch[];
+}
+
+/**
+ * Options for double elimination brackets
+ */
+export interface DoubleEliminationOptions {
+  /**
+   * When true, a second grand final is played if the losers bracket
+   * champion beats the (previously unbeaten) winners bracket champion.
+   */
+  bracketReset?: boolean;
 }
 
 /**
@@ -47,73 +99,26 @@ interface BracketMatch {
  * @param tournamentId - ID of the tournament
  * @param teamsArray - Array of team IDs to include in the bracket
  * @param seedingOrder - Optional array specifying the seeding order (1-indexed)
+ * @param writer - Database or transaction to create the bracket in
  * @returns ID of the created bracket
  */
 export async function createSingleEliminationBracket(
   tournamentId: number,
   teamsArray: TournamentTeam[],
-  seedingOrder?: number[]
+  seedingOrder?: number[],
+  writer: Writer = db
 ): Promise<number> {
   try {
-    // Validate tournament exists
-    const tournamentExists = await db.query.tournaments.findFirst({
-      where: eq(tournaments.id, tournamentId)
-    });
-    
-    if (!tournamentExists) {
-      throw new Error(`Tournament with ID ${tournamentId} not found`);
-    }
-    
-    // Get number of teams and validate
-    const teamsCount = teamsArray.length;
-    
-    if (teamsCount < 2) {
-      throw new Error("At least 2 teams are required to create a bracket");
-    }
-    
-    // Calculate the smallest valid bracket size that can fit all teams
-    const bracketSize = getSmallestValidBracketSize(teamsCount);
-    
-    // Calculate number of rounds needed for this bracket
-    const roundsCount = Math.log2(bracketSize);
-    
-    // Create the bracket record
-    const bracketData: InsertTournamentBracket = {
+    return await createBracketFromPlan(
       tournamentId,
-      name: "Single Elimination Bracket",
-      bracketType: "single_elimination",
-      teamsCount: teamsCount,
-      roundsCount: roundsCount,
-      status: "created",
-      seedingMethod: seedingOrder ? "manual" : "rating_based"
-    };
-    
-    // Insert the bracket
-    const [bracket] = await db.insert(tournamentBrackets).values(bracketData).returning();
-    const bracketId = bracket.id;
-    
-    // Create rounds
-    await createRounds(bracketId, roundsCount);
-    
-    // Get the rounds (including IDs)
-    const rounds = await db.query.tournamentRounds.findMany({
-      where: eq(tournamentRounds.bracketId, bracketId),
-      orderBy: (rounds) => rounds.roundNumber
-    });
-    
-    // Generate the bracket structure (empty matches)
-    const matches = generateSingleEliminationMatches(bracketSize, rounds);
-    
-    // Insert all matches
-    const insertedMatches = await insertMatches(matches);
-    
-    // Update next match references
-    await updateNextMatchReferences(insertedMatches);
-    
-    // Place teams in the bracket according to seeding
-    await seedTeamsInBracket(bracketId, teamsArray, bracketSize, seedingOrder);
-    
-    return bracketId;
+      teamsArray,
+      "Single Elimination Bracket",
+      "single_elimination",
+      planSingleEliminationBracket(validateTeamsAndGetBracketSize(teamsArray)),
+      seedingOrder,
+      {},
+      writer
+    );
   } catch (error) {
     console.error("Error creating single elimination bracket:", error);
     throw error;
@@ -121,114 +126,412 @@ export async function createSingleEliminationBracket(
 }
 
 /**
- * Creates the rounds for a bracket
+ * Creates a complete double elimination bracket for a tournament.
+ * Every team is guaranteed to play until it has lost twice: first-time losers
+ * drop into the losers bracket, whose champion meets the winners bracket
+ * champion in the grand final (optionally followed by a bracket reset match).
+ * 
+ * @param tournamentId - ID of the tournament
+ * @param teamsArray - Array of teams to include in the bracket
+ * @param seedingOrder - Optional array specifying the seeding order by team ID
+ * @param options - Double elimination options (bracket reset)
+ * @returns ID of the created bracket
  */
-async function createRounds(
-  bracketId: number, 
-  roundsCount: number
+export async function createDoubleEliminationBracket(
+  tournamentId: number,
+  teamsArray: TournamentTeam[],
+  seedingOrder?: number[],
+  options: DoubleEliminationOptions = {}
+): Promise<number> {
+  try {
+    return await createBracketFromPlan(
+      tournamentId,
+      teamsArray,
+      "Double Elimination Bracket",
+      "double_elimination",
+      planDoubleEliminationBracket(validateTeamsAndGetBracketSize(teamsArray), options),
+      seedingOrder,
+      { bracketReset: options.bracketReset ?? true }
+    );
+  } catch (error) {
+    console.error("Error creating double elimination bracket:", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a single elimination main draw with a consolation (back-draw)
+ * bracket: losers of their first main draw match play on in a separate
+ * single elimination consolation bracket.
+ * 
+ * @param tournamentId - ID of the tournament
+ * @param teamsArray - Array of teams to include in the bracket
+ * @param seedingOrder - Optional array specifying the seeding order by team ID
+ * @returns ID of the created bracket
+ */
+export async function createConsolationBracket(
+  tournamentId: number,
+  teamsArray: TournamentTeam[],
+  seedingOrder?: number[]
+): Promise<number> {
+  try {
+    return await createBracketFromPlan(
+      tournamentId,
+      teamsArray,
+      "Main Draw with Consolation",
+      "consolation",
+      planConsolationBracket(validateTeamsAndGetBracketSize(teamsArray)),
+      seedingOrder
+    );
+  } catch (error) {
+    console.error("Error creating consolation bracket:", error);
+    throw error;
+  }
+}
+
+/**
+ * Validates the team count and returns the bracket size to use
+ */
+function validateTeamsAndGetBracketSize(teamsArray: TournamentTeam[]): number {
+  if (teamsArray.length < 2) {
+    throw new Error("At least 2 teams are required to create a bracket");
+  }
+  
+  // Calculate the smallest valid bracket size that can fit all teams
+  return getSmallestValidBracketSize(teamsArray.length);
+}
+
+/**
+ * Persists a bracket plan, seeds the teams and resolves any first-round byes
+ */
+async function createBracketFromPlan(
+  tournamentId: number,
+  teamsArray: TournamentTeam[],
+  name: string,
+  bracketType: BracketType,
+  plan: BracketPlan,
+  seedingOrder?: number[],
+  metadata: Record<string, any> = {},
+  writer: Writer = db
+): Promise<number> {
+  // Validate tournament exists
+  const [tournamentExists] = await writer.select({ id: tournaments.id })
+    .from(tournaments)
+    .where(eq(tournaments.id, tournamentId))
+    .limit(1);
+  
+  if (!tournamentExists) {
+    throw new Error(`Tournament with ID ${tournamentId} not found`);
+  }
+  
+  // Create the bracket record
+  const bracketData: InsertTournamentBracket = {
+    tournamentId,
+    name,
+    bracketType,
+    teamsCount: teamsArray.length,
+    roundsCount: plan.rounds.length,
+    status: "created",
+    seedingMethod: seedingOrder ? "manual" : "rating_based",
+    metadata: { ...metadata, bracketSize: plan.bracketSize }
+  };
+  
+  // Insert the bracket
+  const [bracket] = await writer.insert(tournamentBrackets).values(bracketData).returning();
+  const bracketId = bracket.id;
+  
+  // Insert rounds and matches, then link them together
+  await persistBracketPlan(bracketId, plan, writer);
+  
+  // Place teams in the bracket according to seeding
+  await seedTeamsInBracket(bracketId, teamsArray, plan.bracketSize, seedingOrder, 'manual', writer);
+  
+  return bracketId;
+}
+
+/**
+ * Inserts the rounds and matches of a plan and writes the routing references
+ */
+async function persistBracketPlan(
+  bracketId: number,
+  plan: BracketPlan,
+  writer: Writer = db
 ): Promise<void> {
-  const roundsData: InsertTournamentRound[] = [];
+  const roundsData: InsertTournamentRound[] = plan.rounds.map(round => ({
+    bracketId,
+    roundNumber: round.roundNumber,
+    roundName: round.roundName,
+    bracketSide: round.side,
+    matchesCount: round.matchesCount,
+    status: "pending"
+  }));
   
-  for (let i = 1; i <= roundsCount; i++) {
-    // Calculate matches in this round
-    const matchesInRound = Math.pow(2, roundsCount - i);
+  const insertedRounds = await writer.insert(tournamentRounds).values(roundsData).returning();
+  
+  const matchesData: InsertTournamentBracketMatch[] = plan.matches.map(match => ({
+    bracketId,
+    roundId: insertedRounds[match.roundIndex].id,
+    matchNumber: match.matchNumber,
+    bracketSide: match.side,
+    team1Id: null, // Will be filled during seeding
+    team2Id: null, // Will be filled during seeding
+    status: "scheduled"
+  }));
+  
+  const insertedMatches = await insertMatches(matchesData, writer);
+  
+  // Update next/consolation match references
+  const updates = [];
+  
+  for (let i = 0; i < plan.matches.length; i++) {
+    const { winnerTo, loserTo } = plan.matches[i];
     
-    // Generate round name
-    let roundName = `Round ${i}`;
-    if (i === roundsCount) {
-      roundName = "Final";
-    } else if (i === roundsCount - 1) {
-      roundName = "Semi-Finals";
-    } else if (i === roundsCount - 2) {
-      roundName = "Quarter-Finals";
-    }
+    if (!winnerTo && !loserTo) continue;
     
-    roundsData.push({
-      bracketId,
-      roundNumber: i,
-      roundName,
-      matchesCount: matchesInRound,
-      status: "pending"
-    });
+    updates.push(
+      writer.update(tournamentBracketMatches)
+        .set({
+          nextMatchId: winnerTo ? insertedMatches[winnerTo.matchIndex].id : null,
+          nextMatchSlot: winnerTo ? winnerTo.slot : null,
+          consolationMatchId: loserTo ? insertedMatches[loserTo.matchIndex].id : null,
+          consolationMatchSlot: loserTo ? loserTo.slot : null
+        })
+        .where(eq(tournamentBracketMatches.id, insertedMatches[i].id))
+    );
   }
   
-  // Insert all rounds
-  await db.insert(tournamentRounds).values(roundsData);
+  // Execute all updates
+  await Promise.all(updates);
 }
 
 /**
- * Generates the structure for a single elimination tournament
+ * Generates the name of an elimination round counted from the final
  */
-function generateSingleEliminationMatches(
-  bracketSize: number,
-  rounds: typeof tournamentRounds.$inferSelect[]
-): InsertTournamentBracketMatch[] {
-  const bracketId = rounds[0].bracketId;
-  const matches: InsertTournamentBracketMatch[] = [];
+function getEliminationRoundName(roundNumber: number, roundsCount: number, prefix = ''): string {
+  const label = prefix ? `${prefix} ` : '';
   
-  let currentMatchNumber = 1;
+  if (roundNumber === roundsCount) {
+    return `${label}Final`;
+  } else if (!prefix && roundNumber === roundsCount - 1) {
+    return "Semi-Finals";
+  } else if (!prefix && roundNumber === roundsCount - 2) {
+    return "Quarter-Finals";
+  }
   
-  // For each round
-  for (let roundIndex = 0; roundIndex < rounds.length; roundIndex++) {
-    const round = rounds[roundIndex];
-    const matchesInRound = Math.pow(2, rounds.length - roundIndex - 1);
+  return `${label}Round ${roundNumber}`;
+}
+
+/**
+ * Appends a single elimination tree to a plan.
+ * Returns the match indexes of every round (first round first).
+ */
+function appendEliminationTree(
+  plan: BracketPlan,
+  size: number,
+  side: BracketSide,
+  namePrefix = ''
+): number[][] {
+  const roundsCount = Math.log2(size);
+  const roundMatchIndexes: number[][] = [];
+  
+  for (let roundNumber = 1; roundNumber <= roundsCount; roundNumber++) {
+    const matchesInRound = size / Math.pow(2, roundNumber);
+    const roundIndex = plan.rounds.length;
     
-    // For each match in this round
-    for (let matchIndex = 0; matchIndex < matchesInRound; matchIndex++) {
-      matches.push({
-        bracketId,
-        roundId: round.id,
-        matchNumber: currentMatchNumber++,
-        team1Id: null, // Will be filled during seeding
-        team2Id: null, // Will be filled during seeding
-        status: "scheduled"
-      });
+    plan.rounds.push({
+      side,
+      roundNumber,
+      roundName: getEliminationRoundName(roundNumber, roundsCount, namePrefix),
+      matchesCount: matchesInRound
+    });
+    
+    const indexes: number[] = [];
+    for (let i = 0; i < matchesInRound; i++) {
+      indexes.push(appendMatch(plan, roundIndex, side));
     }
+    roundMatchIndexes.push(indexes);
   }
   
-  return matches;
+  // Winners of matches 2i and 2i+1 meet in match i of the next round
+  for (let r = 0; r < roundMatchIndexes.length - 1; r++) {
+    roundMatchIndexes[r].forEach((matchIndex, i) => {
+      plan.matches[matchIndex].winnerTo = {
+        matchIndex: roundMatchIndexes[r + 1][Math.floor(i / 2)],
+        slot: i % 2 === 0 ? 1 : 2
+      };
+    });
+  }
+  
+  return roundMatchIndexes;
 }
 
 /**
- * Insert all matches into the database
+ * Appends an empty match to a plan and returns its index
  */
-async function insertMatches(
-  matches: InsertTournamentBracketMatch[]
-): Promise<typeof tournamentBracketMatches.$inferSelect[]> {
-  return await db.insert(tournamentBracketMatches).values(matches).returning();
+function appendMatch(plan: BracketPlan, roundIndex: number, side: BracketSide): number {
+  plan.matches.push({
+    matchNumber: plan.matches.length + 1,
+    roundIndex,
+    side,
+    winnerTo: null,
+    loserTo: null
+  });
+  
+  return plan.matches.length - 1;
 }
 
 /**
- * Update the next match references for each match
+ * Generates the structure for a single elimination tournament
  */
-async function updateNextMatchReferences(
-  matches: typeof tournamentBracketMatches.$inferSelect[]
-): Promise<void> {
-  const totalMatches = matches.length;
-  const updates = [];
+export function planSingleEliminationBracket(bracketSize: number): BracketPlan {
+  const plan: BracketPlan = { bracketSize, rounds: [], matches: [] };
+  appendEliminationTree(plan, bracketSize, 'winners');
+  return plan;
+}
+
+/**
+ * Generates the structure for a double elimination tournament.
+ * 
+ * For a bracket of size N (k = log2 N winners rounds) the losers bracket has
+ * 2(k - 1) rounds. Odd losers rounds pair the survivors of the previous
+ * losers round; even losers rounds take the losers dropping down from the
+ * next winners round. Drop-downs alternate between straight and reversed
+ * order so teams do not immediately meet the opponent they already played.
+ */
+export function planDoubleEliminationBracket(
+  bracketSize: number,
+  options: DoubleEliminationOptions = {}
+): BracketPlan {
+  const plan: BracketPlan = { bracketSize, rounds: [], matches: [] };
+  const winnersRounds = appendEliminationTree(plan, bracketSize, 'winners', 'Winners');
+  const k = winnersRounds.length;
   
-  // For all matches except the final, set the next match ID
-  for (let i = 0; i < totalMatches - 1; i++) {
-    const currentMatch = matches[i];
+  // Build the losers bracket
+  const losersRounds: number[][] = [];
+  const losersRoundsCount = 2 * (k - 1);
+  
+  for (let roundNumber = 1; roundNumber <= losersRoundsCount; roundNumber++) {
+    // Rounds 2j-1 and 2j both have N / 2^(j+1) matches
+    const matchesInRound = bracketSize / Math.pow(2, Math.ceil(roundNumber / 2) + 1);
+    const roundIndex = plan.rounds.length;
+    
+    plan.rounds.push({
+      side: 'losers',
+      roundNumber,
+      roundName: getEliminationRoundName(roundNumber, losersRoundsCount, 'Losers'),
+      matchesCount: matchesInRound
+    });
     
-    // Calculate which match this one feeds into
-    // For the first round with N matches, matches 1 and 2 feed into match N+1,
-    // matches 3 and 4 feed into match N+2, etc.
-    const nextMatchIndex = Math.floor(i / 2) + Math.floor(totalMatches / 2);
+    const indexes: number[] = [];
+    for (let i = 0; i < matchesInRound; i++) {
+      indexes.push(appendMatch(plan, roundIndex, 'losers'));
+    }
+    losersRounds.push(indexes);
+  }
+  
+  if (losersRounds.length > 0) {
+    // Losers of winners round 1 are paired in losers round 1
+    winnersRounds[0].forEach((matchIndex, i) => {
+      plan.matches[matchIndex].loserTo = {
+        matchIndex: losersRounds[0][Math.floor(i / 2)],
+        slot: i % 2 === 0 ? 1 : 2
+      };
+    });
     
-    if (nextMatchIndex < totalMatches) {
-      const nextMatchId = matches[nextMatchIndex].id;
+    for (let r = 0; r < losersRounds.length; r++) {
+      const losersRoundNumber = r + 1;
       
-      updates.push(
-        db.update(tournamentBracketMatches)
-          .set({ nextMatchId })
-          .where(eq(tournamentBracketMatches.id, currentMatch.id))
-      );
+      if (losersRoundNumber % 2 === 0) {
+        // Drop-down round: losers of winners round (j + 1) join as team2
+        const j = losersRoundNumber / 2;
+        const droppingMatches = winnersRounds[j];
+        const reverse = j % 2 === 1;
+        
+        droppingMatches.forEach((matchIndex, i) => {
+          const target = reverse ? droppingMatches.length - 1 - i : i;
+          plan.matches[matchIndex].loserTo = {
+            matchIndex: losersRounds[r][target],
+            slot: 2
+          };
+        });
+        
+        // Survivors of the previous losers round play as team1
+        losersRounds[r - 1].forEach((matchIndex, i) => {
+          plan.matches[matchIndex].winnerTo = {
+            matchIndex: losersRounds[r][i],
+            slot: 1
+          };
+        });
+      } else if (r > 0) {
+        // Reduction round: survivors of the previous drop-down round pair up
+        losersRounds[r - 1].forEach((matchIndex, i) => {
+          plan.matches[matchIndex].winnerTo = {
+            matchIndex: losersRounds[r][Math.floor(i / 2)],
+            slot: i % 2 === 0 ? 1 : 2
+          };
+        });
+      }
     }
   }
   
-  // Execute all updates
-  await Promise.all(updates);
+  // Grand final: winners champion (team1) vs losers champion (team2)
+  const grandFinalRoundIndex = plan.rounds.length;
+  plan.rounds.push({ side: 'grand_final', roundNumber: 1, roundName: "Grand Final", matchesCount: 1 });
+  const grandFinal = appendMatch(plan, grandFinalRoundIndex, 'grand_final');
+  
+  const winnersFinal = winnersRounds[k - 1][0];
+  plan.matches[winnersFinal].winnerTo = { matchIndex: grandFinal, slot: 1 };
+  
+  if (losersRounds.length > 0) {
+    plan.matches[losersRounds[losersRounds.length - 1][0]].winnerTo = { matchIndex: grandFinal, slot: 2 };
+  } else {
+    // Two-team bracket: the loser of the only winners match goes straight to the grand final
+    plan.matches[winnersFinal].loserTo = { matchIndex: grandFinal, slot: 2 };
+  }
+  
+  if (options.bracketReset ?? true) {
+    const resetRoundIndex = plan.rounds.length;
+    plan.rounds.push({ side: 'grand_final_reset', roundNumber: 1, roundName: "Grand Final Reset", matchesCount: 1 });
+    const reset = appendMatch(plan, resetRoundIndex, 'grand_final_reset');
+    plan.matches[grandFinal].winnerTo = { matchIndex: reset, slot: 1 };
+  }
+  
+  return plan;
+}
+
+/**
+ * Generates the structure for a main draw with a consolation (back-draw)
+ * bracket fed by the losers of the first main draw round.
+ */
+export function planConsolationBracket(bracketSize: number): BracketPlan {
+  const plan: BracketPlan = { bracketSize, rounds: [], matches: [] };
+  const mainRounds = appendEliminationTree(plan, bracketSize, 'winners');
+  
+  if (bracketSize < 4) {
+    // A single match has no one to play a consolation draw against
+    return plan;
+  }
+  
+  const consolationRounds = appendEliminationTree(plan, bracketSize / 2, 'consolation', 'Consolation');
+  
+  mainRounds[0].forEach((matchIndex, i) => {
+    plan.matches[matchIndex].loserTo = {
+      matchIndex: consolationRounds[0][Math.floor(i / 2)],
+      slot: i % 2 === 0 ? 1 : 2
+    };
+  });
+  
+  return plan;
+}
+
+/**
+ * Insert all matches into the database
+ */
+async function insertMatches(
+  matches: InsertTournamentBracketMatch[],
+  writer: Writer = db
+): Promise<typeof tournamentBracketMatches.$inferSelect[]> {
+  return await writer.insert(tournamentBracketMatches).values(matches).returning();
 }
 
 /**
@@ -239,6 +542,7 @@ async function updateNextMatchReferences(
  * @param bracketSize - Size of the bracket
  * @param seedingOrder - Optional array specifying the seeding order by team ID
  * @param method - Optional seeding method (manual, rating_based, random)
+ * @param writer - Database or transaction to seed in
  * @returns Object containing information about the update
  */
 export async function seedTeamsInBracket(
@@ -246,7 +550,8 @@ export async function seedTeamsInBracket(
   teams: TournamentTeam[],
   bracketSize: number,
   seedingOrder?: number[],
-  method: 'manual' | 'rating_based' | 'random' = 'manual'
+  method: 'manual' | 'rating_based' | 'random' = 'manual',
+  writer: Writer = db
 ): Promise<{
   updatedMatches: number,
   seedMethod: string,
@@ -259,26 +564,47 @@ export async function seedTeamsInBracket(
     console.log(`[PKL-278651-TOURN-0016-SEED] Using provided seed order: ${seedingOrder.join(', ')}`);
   }
   
-  // Get the first-round matches
-  const firstRoundMatches = await db.query.tournamentBracketMatches.findMany({
-    where: eq(tournamentBracketMatches.bracketId, bracketId),
-    orderBy: (matches) => matches.matchNumber
-  });
+  // Get the first-round matches of the main (winners) draw
+  const allMatches = await writer.select()
+    .from(tournamentBracketMatches)
+    .where(eq(tournamentBracketMatches.bracketId, bracketId))
+    .orderBy(asc(tournamentBracketMatches.matchNumber));
+  
+  const [firstRound] = await writer.select()
+    .from(tournamentRounds)
+    .where(and(
+      eq(tournamentRounds.bracketId, bracketId),
+      eq(tournamentRounds.bracketSide, 'winners'),
+      eq(tournamentRounds.roundNumber, 1)
+    ))
+    .limit(1);
   
-  // Filter for first round matches (they have the lowest match numbers)
-  const firstRoundMatchesFiltered = firstRoundMatches
-    .sort((a, b) => a.matchNumber - b.matchNumber)
-    .slice(0, Math.floor(firstRoundMatches.length / 2));
+  const firstRoundMatches = allMatches
+    .filter(match => firstRound ? match.roundId === firstRound.id : true)
+    .sort((a, b) => a.matchNumber - b.matchNumber);
   
   console.log(`[PKL-278651-TOURN-0016-SEED] Found ${firstRoundMatches.length} first-round matches`);
   
-  const totalFirstRoundMatches = bracketSize / 2;
+  // Clear any teams placed by a previous seeding (including advanced byes)
+  const openMatchIds = allMatches
+    .filter(match => match.status === 'scheduled' || match.status === 'bye')
+    .map(match => match.id);
+  
+  if (openMatchIds.length > 0) {
+    await writer.update(tournamentBracketMatches)
+      .set({ team1Id: null, team2Id: null, winnerId: null, loserId: null, status: 'scheduled' })
+      .where(inArray(tournamentBracketMatches.id, openMatchIds));
+  }
+  
+  // The first round determines the draw size (the losers/consolation side adds matches)
+  const drawSize = firstRoundMatches.length > 0 ? firstRoundMatches.length * 2 : bracketSize;
+  const totalFirstRoundMatches = drawSize / 2;
   
   // If we have fewer teams than the bracket size, we'll need to give some teams a bye
   const updates = [];
   
   // Apply standard seeding pattern
-  const seedPositions = generateSeedPositions(bracketSize);
+  const seedPositions = generateSeedPositions(drawSize);
   
   // Sort teams according to the requested method
   let sortedTeams = [...teams];
@@ -297,6 +623,10 @@ export async function seedTeamsInBracket(
     console.log(`[PKL-278651-TOURN-0016-SEED] Random seeding order applied`);
   } else {
     // Default to rating-based (use team's seedNumber if available)
+    const seedingRatings = await getTeamSeedingRatings(
+      teams.map(team => ({ id: team.id, playerIds: [team.playerOneId, team.playerTwoId] }))
+    );
+    
     sortedTeams.sort((a, b) => {
       // First try to use seedNumber if available
       const seedA = a.seedNumber !== null && a.seedNumber !== undefined ? a.seedNumber : null;
@@ -306,15 +636,15 @@ export async function seedTeamsInBracket(
         return seedA - seedB;
       }
       
-      // If no seedNumber, just sort by ID
-      return a.id - b.id;
+      // Otherwise strongest skill rating first, then by ID
+      return (seedingRatings.get(b.id) ?? 0) - (seedingRatings.get(a.id) ?? 0) || a.id - b.id;
     });
     console.log(`[PKL-278651-TOURN-0016-SEED] Rating-based seeding order applied`);
   }
   
   // Calculate which teams go into which spots
   for (let i = 0; i < totalFirstRoundMatches; i++) {
-    const match = firstRoundMatchesFiltered[i] || firstRoundMatches[i];
+    const match = firstRoundMatches[i];
     if (!match) continue;
     
     // For each match (i), we need to get the seeded position
@@ -329,7 +659,7 @@ export async function seedTeamsInBracket(
     
     // Update the match with team IDs
     updates.push(
-      db.update(tournamentBracketMatches)
+      writer.update(tournamentBracketMatches)
         .set({ 
           team1Id: team1?.id || null,
           team2Id: team2?.id || null
@@ -341,8 +671,11 @@ export async function seedTeamsInBracket(
   // Execute all updates
   await Promise.all(updates);
   
+  // Teams without a first-round opponent advance automatically
+  await resolveByes(bracketId, writer);
+  
   // Update the bracket record with the seeding method
-  await db.update(tournamentBrackets)
+  await writer.update(tournamentBrackets)
     .set({ 
       seedingMethod: method,
       status: 'active', // Activate the bracket now that teams are seeded
@@ -401,7 +734,8 @@ function getSmallestValidBracketSize(numTeams: number): number {
 }
 
 /**
- * Record a match result and advance the winner to the next match
+ * Record a match result, advance the winner to the next match and route the
+ * loser into the losers/consolation bracket when the bracket has one
  */
 export async function recordMatchResult(
   matchId: number,
@@ -411,75 +745,106 @@ export async function recordMatchResult(
   scoreDetails?: Record<string, any>
 ): Promise<void> {
   try {
-    // Validate the match exists
-    const match = await db.query.tournamentBracketMatches.findFirst({
-      where: eq(tournamentBracketMatches.id, matchId)
-    });
-    
-    if (!match) {
-      throw new Error(`Match with ID ${matchId} not found`);
-    }
-    
-    // Validate the teams
-    if (match.team1Id !== winnerId && match.team2Id !== winnerId) {
-      throw new Error(`Team ${winnerId} is not playing in this match`);
+    if (winnerId === loserId) {
+      throw new Error('Winner and loser must be different teams');
     }
-    
-    if (match.team1Id !== loserId && match.team2Id !== loserId) {
-      throw new Error(`Team ${loserId} is not playing in this match`);
-    }
-    
-    // Update the match result
-    await db.update(tournamentBracketMatches)
-      .set({
-        winnerId,
-        loserId,
+
+    // Check and update the match under a row lock so a result is only
+    // recorded, routed and announced once
+    const match = await db.transaction(async (tx) => {
+      const [match] = await tx.select()
+        .from(tournamentBracketMatches)
+        .where(eq(tournamentBracketMatches.id, matchId))
+        .for('update');
+
+      if (!match) {
+        throw new Error(`Match with ID ${matchId} not found`);
+      }
+
+      if (FINISHED_MATCH_STATUSES.includes(match.status ?? '')) {
+        throw new Error(`Match ${matchId} is already ${match.status === 'bye' ? 'decided by a bye' : match.status}`);
+      }
+
+      // Validate the teams
+      if (match.team1Id !== winnerId && match.team2Id !== winnerId) {
+        throw new Error(`Team ${winnerId} is not playing in this match`);
+      }
+
+      if (match.team1Id !== loserId && match.team2Id !== loserId) {
+        throw new Error(`Team ${loserId} is not playing in this match`);
+      }
+
+      // Update the match result and announce it together
+      const [updated] = await tx.update(tournamentBracketMatches)
+        .set({
+          winnerId,
+          loserId,
+          score,
+          scoreDetails: scoreDetails || {},
+          status: "completed",
+          updatedAt: new Date()
+        })
+        .where(eq(tournamentBracketMatches.id, matchId))
+        .returning();
+
+      const teams = await tx.select()
+        .from(tournamentTeams)
+        .where(drizzleInArray(tournamentTeams.id, [winnerId, loserId]));
+      const winner = teams.find(team => team.id === winnerId)!;
+      const loser = teams.find(team => team.id === loserId)!;
+
+      await publishDomainEvent(tx, 'tournament.result', {
+        tournament_id: winner.tournamentId,
+        bracket_id: match.bracketId,
+        bracket_match_id: matchId,
+        winner: { team_id: winner.id, user_ids: [winner.playerOneId, winner.playerTwoId] },
+        loser: { team_id: loser.id, user_ids: [loser.playerOneId, loser.playerTwoId] },
         score,
-        scoreDetails: scoreDetails || {},
-        status: "completed",
-        updatedAt: new Date()
-      })
-      .where(eq(tournamentBracketMatches.id, matchId));
-    
-    // If there's a next match, advance the winner
-    if (match.nextMatchId) {
-      const nextMatch = await db.query.tournamentBracketMatches.findFirst({
-        where: eq(tournamentBracketMatches.id, match.nextMatchId)
+        recorded_at: (updated.updatedAt ?? new Date()).toISOString()
       });
-      
-      if (!nextMatch) {
-        throw new Error(`Next match with ID ${match.nextMatchId} not found`);
-      }
-      
-      // Determine if this winner goes into team1 or team2 slot
-      // Even-numbered matches (0, 2, 4...) go to team1, odd to team2
-      const isEvenMatch = match.matchNumber % 2 === 0;
-      
-      if (isEvenMatch) {
+
+      return match;
+    });
+    
+    if (match.bracketSide === 'grand_final' && match.nextMatchId) {
+      // The bracket reset is only played when the losers bracket champion
+      // (team2) hands the winners bracket champion their first loss
+      if (winnerId === match.team2Id) {
         await db.update(tournamentBracketMatches)
-          .set({ team1Id: winnerId })
+          .set({ team1Id: match.team1Id, team2Id: match.team2Id })
           .where(eq(tournamentBracketMatches.id, match.nextMatchId));
       } else {
         await db.update(tournamentBracketMatches)
-          .set({ team2Id: winnerId })
+          .set({ status: "cancelled", notes: "Bracket reset not required", updatedAt: new Date() })
           .where(eq(tournamentBracketMatches.id, match.nextMatchId));
       }
     } else {
-      // This was the final match, mark the bracket as completed
-      const bracket = await db.query.tournamentBrackets.findFirst({
-        where: eq(tournamentBrackets.id, match.bracketId)
-      });
+      // If there's a next match, advance the winner
+      if (match.nextMatchId) {
+        await placeTeamInMatch(match.nextMatchId, winnerId, match.nextMatchSlot, match.matchNumber);
+      }
       
-      if (bracket) {
-        await db.update(tournamentBrackets)
-          .set({ 
-            status: "completed",
-            endDate: new Date(),
-            updatedAt: new Date()
-          })
-          .where(eq(tournamentBrackets.id, match.bracketId));
+      // Losers drop into the losers or consolation bracket
+      if (match.consolationMatchId) {
+        await placeTeamInMatch(match.consolationMatchId, loserId, match.consolationMatchSlot, match.matchNumber);
       }
     }
+    
+    // Tournament results count towards the players' rankings
+    const [bracket] = await db.select()
+      .from(tournamentBrackets)
+      .where(eq(tournamentBrackets.id, match.bracketId))
+      .limit(1);
+    
+    if ((bracket?.metadata as Record<string, any> | null)?.awardRankingPoints) {
+      const { awardBracketMatchRankingPoints } = await import('./bracket-ranking-points');
+      await awardBracketMatchRankingPoints(matchId);
+    }
+    
+    // A team routed against an empty slot may now advance on a bye
+    await resolveByes(match.bracketId);
+    
+    await completeBracketIfFinished(match.bracketId);
   } catch (error) {
     console.error("Error recording match result:", error);
     throw error;
@@ -487,30 +852,180 @@ export async function recordMatchResult(
 }
 
 /**
- * Get a complete bracket structure with all matches and teams
+ * Put a team into the given slot of a match
+ */
+async function placeTeamInMatch(
+  targetMatchId: number,
+  teamId: number,
+  slot: number | null,
+  sourceMatchNumber: number,
+  writer: Writer = db
+): Promise<void> {
+  const [targetMatch] = await writer.select()
+    .from(tournamentBracketMatches)
+    .where(eq(tournamentBracketMatches.id, targetMatchId))
+    .limit(1);
+  
+  if (!targetMatch) {
+    throw new Error(`Next match with ID ${targetMatchId} not found`);
+  }
+  
+  // Brackets created before explicit slots were stored:
+  // even-numbered matches go to team1, odd to team2
+  const targetSlot = slot ?? (sourceMatchNumber % 2 === 0 ? 1 : 2);
+  
+  await writer.update(tournamentBracketMatches)
+    .set(targetSlot === 1 ? { team1Id: teamId } : { team2Id: teamId })
+    .where(eq(tournamentBracketMatches.id, targetMatchId));
+}
+
+/**
+ * Advance teams whose opponent slot can never be filled (byes).
+ * 
+ * A slot is dead when it is empty and every match feeding it has finished.
+ * A match with one team and a dead slot is a bye: the team advances and no
+ * loser is routed. A match with two dead slots is skipped entirely, which in
+ * turn empties the slots it feeds. This repeats until nothing changes.
+ */
+async function resolveByes(bracketId: number, writer: Writer = db): Promise<void> {
+  const matches = await writer.select()
+    .from(tournamentBracketMatches)
+    .where(eq(tournamentBracketMatches.bracketId, bracketId))
+    .orderBy(asc(tournamentBracketMatches.matchNumber));
+  
+  const matchById = new Map(matches.map(match => [match.id, match]));
+  
+  // Collect the feeder matches of every slot
+  const feeders = new Map<string, typeof matches>();
+  const addFeeder = (targetId: number | null, slot: number | null, feeder: typeof matches[number]) => {
+    if (!targetId) return;
+    const key = `${targetId}:${slot ?? (feeder.matchNumber % 2 === 0 ? 1 : 2)}`;
+    feeders.set(key, [...(feeders.get(key) || []), feeder]);
+  };
+  
+  for (const match of matches) {
+    if (match.bracketSide === 'grand_final') {
+      // The grand final decides both sides of the bracket reset (see recordMatchResult)
+      addFeeder(match.nextMatchId, 1, match);
+      addFeeder(match.nextMatchId, 2, match);
+      continue;
+    }
+    addFeeder(match.nextMatchId, match.nextMatchSlot, match);
+    addFeeder(match.consolationMatchId, match.consolationMatchSlot, match);
+  }
+  
+  const isSlotDead = (match: typeof matches[number], slot: 1 | 2) => {
+    const teamId = slot === 1 ? match.team1Id : match.team2Id;
+    if (teamId) return false;
+    return (feeders.get(`${match.id}:${slot}`) || [])
+      .every(feeder => FINISHED_MATCH_STATUSES.includes(feeder.status));
+  };
+  
+  let changed = true;
+  while (changed) {
+    changed = false;
+    
+    for (const match of matches) {
+      if (match.status !== 'scheduled') continue;
+      
+      const team1Dead = isSlotDead(match, 1);
+      const team2Dead = isSlotDead(match, 2);
+      
+      if (!team1Dead && !team2Dead) continue;
+      if (team1Dead !== team2Dead && !(match.team1Id || match.team2Id)) continue; // Waiting on the other slot
+      
+      const advancingTeamId = match.team1Id || match.team2Id || null;
+      
+      await writer.update(tournamentBracketMatches)
+        .set({ status: 'bye', winnerId: advancingTeamId, updatedAt: new Date() })
+        .where(eq(tournamentBracketMatches.id, match.id));
+      match.status = 'bye';
+      match.winnerId = advancingTeamId;
+      
+      if (advancingTeamId && match.nextMatchId) {
+        await placeTeamInMatch(match.nextMatchId, advancingTeamId, match.nextMatchSlot, match.matchNumber, writer);
+        const nextMatch = matchById.get(match.nextMatchId);
+        if (nextMatch) {
+          const slot = match.nextMatchSlot ?? (match.matchNumber % 2 === 0 ? 1 : 2);
+          if (slot === 1) nextMatch.team1Id = advancingTeamId;
+          else nextMatch.team2Id = advancingTeamId;
+        }
+      }
+      
+      changed = true;
+    }
+  }
+}
+
+/**
+ * Mark the bracket as completed once every match has finished.
+ * Round robin brackets with auto-advance enabled create their playoff instead,
+ * and Swiss brackets pair their next round until all rounds are played.
+ */
+async function completeBracketIfFinished(bracketId: number): Promise<void> {
+  const matches = await db.select()
+    .from(tournamentBracketMatches)
+    .where(eq(tournamentBracketMatches.bracketId, bracketId));
+  
+  if (!matches.every(match => FINISHED_MATCH_STATUSES.includes(match.status))) {
+    return;
+  }
+  
+  const [bracket] = await db.select()
+    .from(tournamentBrackets)
+    .where(eq(tournamentBrackets.id, bracketId))
+    .limit(1);
+  
+  // Finished pool play seeds the playoff bracket (which also completes the pools)
+  if (bracket?.bracketType === 'round_robin' && (bracket.metadata as Record<string, any> | null)?.autoAdvance) {
+    const { advancePoolsToPlayoff } = await import('./round-robin-generator');
+    await advancePoolsToPlayoff(bracketId);
+    return;
+  }
+  
+  if (bracket?.bracketType === 'swiss') {
+    const { advanceSwissBracket } = await import('./swiss-generator');
+    await advanceSwissBracket(bracketId);
+    return;
+  }
+  
+  await db.update(tournamentBrackets)
+    .set({ 
+      status: "completed",
+      endDate: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(tournamentBrackets.id, bracketId));
+}
+
+/**
+ * Get a complete bracket structure with all matches and teams.
+ * Matches are also grouped by bracket side (winners, losers, grand final,
+ * consolation) so clients can render every part of the draw.
  */
 export async function getBracketWithMatches(bracketId: number) {
   try {
     // Get the bracket
-    const bracket = await db.query.tournamentBrackets.findFirst({
-      where: eq(tournamentBrackets.id, bracketId)
-    });
+    const [bracket] = await db.select()
+      .from(tournamentBrackets)
+      .where(eq(tournamentBrackets.id, bracketId))
+      .limit(1);
     
     if (!bracket) {
       throw new Error(`Bracket with ID ${bracketId} not found`);
     }
     
     // Get all rounds
-    const rounds = await db.query.tournamentRounds.findMany({
-      where: eq(tournamentRounds.bracketId, bracketId),
-      orderBy: (rounds) => rounds.roundNumber
-    });
+    const rounds = await db.select()
+      .from(tournamentRounds)
+      .where(eq(tournamentRounds.bracketId, bracketId))
+      .orderBy(asc(tournamentRounds.roundNumber));
     
     // Get all matches
-    const matches = await db.query.tournamentBracketMatches.findMany({
-      where: eq(tournamentBracketMatches.bracketId, bracketId),
-      orderBy: (matches) => matches.matchNumber
-    });
+    const matches = await db.select()
+      .from(tournamentBracketMatches)
+      .where(eq(tournamentBracketMatches.bracketId, bracketId))
+      .orderBy(asc(tournamentBracketMatches.matchNumber));
     
     // Get all teams involved in this bracket
     const teamIds = new Set<number>();
@@ -520,16 +1035,33 @@ export async function getBracketWithMatches(bracketId: number) {
     });
     
     // Fetch all teams
-    const teams = await db.query.tournamentTeams.findMany({
-      where: inArray(tournamentTeams.id, Array.from(teamIds))
-    });
+    const teams = teamIds.size > 0
+      ? await db.select()
+          .from(tournamentTeams)
+          .where(inArray(tournamentTeams.id, Array.from(teamIds)))
+      : [];
+    
+    // Group rounds and matches by side of the bracket
+    const sides: Record<BracketSide, { rounds: typeof rounds, matches: typeof matches }> = {
+      winners: { rounds: [], matches: [] },
+      losers: { rounds: [], matches: [] },
+      grand_final: { rounds: [], matches: [] },
+      grand_final_reset: { rounds: [], matches: [] },
+      consolation: { rounds: [], matches: [] },
+      pool: { rounds: [], matches: [] },
+      swiss: { rounds: [], matches: [] }
+    };
+    
+    rounds.forEach(round => sides[(round.bracketSide || 'winners') as BracketSide]?.rounds.push(round));
+    matches.forEach(match => sides[(match.bracketSide || 'winners') as BracketSide]?.matches.push(match));
     
     // Build the response
     return {
       bracket,
       rounds,
       matches,
-      teams
+      teams,
+      sides
     };
   } catch (error) {
     console.error("Error getting bracket with matches:", error);
@@ -0,0 +1,152 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Bracket Ranking Points Service
+ *
+ * Feeds completed tournament bracket matches into the standardized ranking
+ * system. Each result is recorded as a verified doubles match and every
+ * player on the winning team is credited against their counterpart on the
+ * losing team.
+ */
+
+import { db } from "../db";
+import { eq } from "drizzle-orm";
+import {
+  tournamentBrackets,
+  tournamentBracketMatches,
+  tournamentTeams
+} from "../../shared/schema/tournament-brackets";
+import { tournaments } from "../../shared/schema";
+import { StandardizedRankingService } from "./StandardizedRankingService";
+import { ensureMatchRecorded } from "./match-ingestion-service";
+
+/**
+ * Counts the games won by each side of a winner-first score string
+ * ("11-7, 9-11, 11-5" → 2 games to 1)
+ */
+export function countGamesWon(score: string | null): { winnerGames: number, loserGames: number } {
+  let winnerGames = 0;
+  let loserGames = 0;
+
+  (score || '').split(',').forEach(game => {
+    const scores = game.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    if (!scores) return;
+    if (parseInt(scores[1]) > parseInt(scores[2])) winnerGames++;
+    else loserGames++;
+  });
+
+  // A score that couldn't be parsed still records the win
+  if (winnerGames === 0 && loserGames === 0) {
+    winnerGames = 1;
+  }
+
+  return { winnerGames, loserGames };
+}
+
+/**
+ * Award ranking points for a completed bracket match.
+ * Safe to call more than once: matches that were already awarded are skipped.
+ *
+ * @param matchId - ID of the tournament bracket match
+ */
+export async function awardBracketMatchRankingPoints(matchId: number): Promise<void> {
+  try {
+    const [bracketMatch] = await db.select()
+      .from(tournamentBracketMatches)
+      .where(eq(tournamentBracketMatches.id, matchId))
+      .limit(1);
+
+    if (!bracketMatch || bracketMatch.status !== 'completed' || bracketMatch.rankingPointsAwarded) {
+      return;
+    }
+
+    if (!bracketMatch.winnerId || !bracketMatch.loserId) {
+      return;
+    }
+
+    const [bracket] = await db.select()
+      .from(tournamentBrackets)
+      .where(eq(tournamentBrackets.id, bracketMatch.bracketId))
+      .limit(1);
+
+    const [tournament] = await db.select()
+      .from(tournaments)
+      .where(eq(tournaments.id, bracket.tournamentId))
+      .limit(1);
+
+    const [winnerTeam] = await db.select()
+      .from(tournamentTeams)
+      .where(eq(tournamentTeams.id, bracketMatch.winnerId))
+      .limit(1);
+
+    const [loserTeam] = await db.select()
+      .from(tournamentTeams)
+      .where(eq(tournamentTeams.id, bracketMatch.loserId))
+      .limit(1);
+
+    if (!winnerTeam || !loserTeam) {
+      throw new Error(`Teams for bracket match ${matchId} not found`);
+    }
+
+    const { winnerGames, loserGames } = countGamesWon(bracketMatch.score);
+
+    // Record the result as a regular doubles match so ranking transactions can reference it
+    const { match: rankedMatch, created } = await ensureMatchRecorded({
+      team1: [{ userId: winnerTeam.playerOneId }, { userId: winnerTeam.playerTwoId }],
+      team2: [{ userId: loserTeam.playerOneId }, { userId: loserTeam.playerTwoId }],
+      team1Score: winnerGames.toString(),
+      team2Score: loserGames.toString(),
+      winner: 1,
+      matchDate: new Date(),
+      sourceReference: `bracket-match:${bracketMatch.id}`,
+      values: {
+        matchType: "tournament",
+        eventTier: tournament?.level || "club",
+        tournamentId: bracket.tournamentId,
+        isVerified: true,
+        validationStatus: "validated",
+        notes: `${bracket.name} - match ${bracketMatch.matchNumber}`
+      }
+    }, 'bracket');
+
+    let winnerPoints = 0;
+    let loserPoints = 0;
+
+    const pairings: Array<[number, number]> = [
+      [winnerTeam.playerOneId, loserTeam.playerOneId],
+      [winnerTeam.playerTwoId, loserTeam.playerTwoId]
+    ];
+
+    // Points were already awarded if an earlier run recorded this match
+    for (const [winnerId, loserId] of created ? pairings : []) {
+      try {
+        const { winnerCalculation, loserCalculation } =
+          await StandardizedRankingService.processMatchRankingPoints(
+          { id: rankedMatch.id, matchType: rankedMatch.matchType, eventTier: rankedMatch.eventTier || undefined },
+          winnerId,
+          loserId
+        );
+        winnerPoints += winnerCalculation.openRankingPoints;
+        loserPoints += loserCalculation.openRankingPoints;
+      } catch (error) {
+        // One player's missing profile data shouldn't block the rest of the bracket
+        console.error(`[BracketRanking] Could not award points for ${winnerId} vs ${loserId}:`, error);
+      }
+    }
+
+    const winnerIsTeam1 = bracketMatch.winnerId === bracketMatch.team1Id;
+
+    await db.update(tournamentBracketMatches)
+      .set({
+        rankingPointsAwarded: true,
+        team1PointsAwarded: Math.round(winnerIsTeam1 ? winnerPoints : loserPoints),
+        team2PointsAwarded: Math.round(winnerIsTeam1 ? loserPoints : winnerPoints),
+        updatedAt: new Date()
+      })
+      .where(eq(tournamentBracketMatches.id, matchId));
+
+    console.log(`[BracketRanking] Match ${matchId}: ${winnerPoints} points to the winners, ${loserPoints} to the losers`);
+  } catch (error) {
+    console.error("Error awarding bracket ranking points:", error);
+    throw error;
+  }
+}
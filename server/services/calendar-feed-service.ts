@@ -0,0 +1,325 @@
+/**
+ * Calendar Feed Service
+ *
+ * Builds each user's Pickle+ schedule as an iCalendar feed: coaching
+ * bookings, training center classes, registered tournaments and community
+ * events, for both the player and the coach side. Feeds are fetched by a
+ * secret per-user token so phone calendars can subscribe without a session.
+ * Cancelled items stay in the feed, marked cancelled, so subscribers drop them.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { and, eq, gte, inArray, or, sql } from "drizzle-orm";
+import {
+  users,
+  tournaments,
+  tournamentRegistrations,
+  calendarFeedTokens,
+  type CalendarFeedToken
+} from "../../shared/schema";
+import { bookings, bookingSlots } from "../../shared/schema/session-booking";
+import { classEnrollments, classInstances, classTemplates, trainingCenters } from "../../shared/schema/training-center";
+import { communityEvents, communityEventAttendees } from "../../shared/schema/community";
+import {
+  buildICalendar,
+  calendarEventUid,
+  type CalendarEvent,
+  type CalendarEventStatus
+} from "../../shared/utils/icalendar";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Past items kept in the feed so recent history stays visible
+export const CALENDAR_FEED_HISTORY_DAYS = 60;
+export const CALENDAR_FEED_REFRESH_HOURS = 1;
+const MAX_EVENTS_PER_SOURCE = 500;
+
+function latest(...dates: Array<Date | null | undefined>): Date | null {
+  const times = dates.filter((date): date is Date => date instanceof Date).map(date => date.getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+function statusOf(cancelled: boolean): CalendarEventStatus {
+  return cancelled ? 'CANCELLED' : 'CONFIRMED';
+}
+
+async function displayNames(userIds: number[]): Promise<Map<number, string>> {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db.select({ id: users.id, displayName: users.displayName, username: users.username })
+    .from(users)
+    .where(inArray(users.id, ids));
+
+  return new Map(rows.map(row => [row.id, row.displayName || row.username]));
+}
+
+/**
+ * The user's feed token, created on first use
+ */
+export async function getOrCreateCalendarFeedToken(userId: number): Promise<CalendarFeedToken> {
+  const [existing] = await db.select()
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, userId))
+    .limit(1);
+
+  if (existing) {
+    return existing;
+  }
+
+  await db.insert(calendarFeedTokens)
+    .values({ userId, token: crypto.randomBytes(24).toString('hex') })
+    .onConflictDoNothing({ target: calendarFeedTokens.userId });
+
+  const [created] = await db.select()
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, userId));
+  return created;
+}
+
+/**
+ * Replaces the user's feed token; existing subscriptions stop updating
+ */
+export async function rotateCalendarFeedToken(userId: number): Promise<CalendarFeedToken> {
+  const token = crypto.randomBytes(24).toString('hex');
+  const now = new Date();
+
+  const [rotated] = await db.insert(calendarFeedTokens)
+    .values({ userId, token, rotatedAt: now })
+    .onConflictDoUpdate({ target: calendarFeedTokens.userId, set: { token, rotatedAt: now, lastAccessedAt: null } })
+    .returning();
+
+  console.log(`[CalendarFeed] Token rotated for user ${userId}`);
+  return rotated;
+}
+
+/**
+ * Turns the user's feed off until a new token is created
+ */
+export async function revokeCalendarFeedToken(userId: number): Promise<void> {
+  await db.delete(calendarFeedTokens).where(eq(calendarFeedTokens.userId, userId));
+}
+
+/**
+ * The user a feed token belongs to, or null for an unknown token
+ */
+export async function findCalendarFeedUser(token: string): Promise<number | null> {
+  if (!/^[0-9a-f]{48}$/.test(token)) {
+    return null;
+  }
+
+  const [feed] = await db.update(calendarFeedTokens)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeedTokens.token, token))
+    .returning({ userId: calendarFeedTokens.userId });
+
+  return feed?.userId ?? null;
+}
+
+async function bookingEvents(userId: number, since: Date, bookingId?: number): Promise<CalendarEvent[]> {
+  const rows = await db.select({ booking: bookings, slot: bookingSlots })
+    .from(bookings)
+    .leftJoin(bookingSlots, eq(bookingSlots.id, bookings.slotId))
+    .where(and(
+      bookingId ? eq(bookings.id, bookingId) : eq(bookings.studentId, userId),
+      bookingId ? undefined : gte(bookings.sessionDate, since)
+    ))
+    .limit(MAX_EVENTS_PER_SOURCE);
+
+  const coaches = await displayNames(rows.map(row => row.booking.coachId));
+
+  return rows.map(({ booking, slot }) => {
+    const start = slot?.startTime ?? booking.sessionDate;
+    const coach = coaches.get(booking.coachId) ?? 'your coach';
+    return {
+      uid: calendarEventUid('booking', booking.id),
+      summary: `${slot?.sessionType === 'individual' ? 'Private lesson' : 'Coaching session'} with ${coach}`,
+      description: [slot?.focus && `Focus: ${slot.focus}`, `Confirmation code: PKL-${booking.id.toString().padStart(6, '0')}`]
+        .filter(Boolean).join('\n'),
+      location: [slot?.location, slot?.courtNumber && `Court ${slot.courtNumber}`].filter(Boolean).join(', ') || null,
+      start,
+      end: slot?.endTime ?? new Date(start.getTime() + HOUR_MS),
+      status: statusOf(booking.status === 'cancelled' || booking.status === 'rescheduled' || slot?.status === 'cancelled'),
+      lastModified: latest(booking.updatedAt, slot?.updatedAt),
+      categories: ['Coaching']
+    };
+  });
+}
+
+async function coachSlotEvents(coachId: number, since: Date): Promise<CalendarEvent[]> {
+  const rows = await db.select({
+    slot: bookingSlots,
+    activeBookings: sql<number>`(
+      SELECT COUNT(*)::int FROM ${bookings}
+      WHERE ${bookings.slotId} = ${bookingSlots.id} AND COALESCE(${bookings.status}, 'confirmed') NOT IN ('cancelled', 'rescheduled')
+    )`
+  })
+    .from(bookingSlots)
+    .where(and(
+      eq(bookingSlots.coachId, coachId),
+      gte(bookingSlots.startTime, since),
+      // Only slots someone has booked belong in the coach's calendar
+      sql`EXISTS (SELECT 1 FROM ${bookings} WHERE ${bookings.slotId} = ${bookingSlots.id})`
+    ))
+    .limit(MAX_EVENTS_PER_SOURCE);
+
+  return rows.map(({ slot, activeBookings }) => {
+    const students = Number(activeBookings);
+    return {
+      uid: calendarEventUid('booking-slot', slot.id),
+      summary: `Coaching: ${slot.sessionType} session (${students} ${students === 1 ? 'student' : 'students'})`,
+      description: slot.focus ? `Focus: ${slot.focus}` : null,
+      location: [slot.location, slot.courtNumber && `Court ${slot.courtNumber}`].filter(Boolean).join(', ') || null,
+      start: slot.startTime,
+      end: slot.endTime,
+      status: statusOf(students === 0 || slot.status === 'cancelled'),
+      lastModified: slot.updatedAt,
+      categories: ['Coaching']
+    };
+  });
+}
+
+async function classEvents(userId: number, since: Date): Promise<CalendarEvent[]> {
+  const columns = { instance: classInstances, template: classTemplates, center: trainingCenters };
+  const toEvent = (row: { instance: typeof classInstances.$inferSelect, template: typeof classTemplates.$inferSelect | null, center: typeof trainingCenters.$inferSelect | null },
+    cancelled: boolean, lastModified: Date | null): CalendarEvent => ({
+    uid: calendarEventUid('class', row.instance.id),
+    summary: row.template?.name ?? 'Class',
+    description: row.template?.description ?? null,
+    location: row.center
+      ? [row.center.name, row.instance.courtNumber && `Court ${row.instance.courtNumber}`, row.center.address].filter(Boolean).join(', ')
+      : null,
+    start: row.instance.startTime,
+    end: row.instance.endTime,
+    status: statusOf(cancelled || row.instance.status === 'cancelled'),
+    lastModified,
+    categories: ['Class']
+  });
+
+  const enrolled = await db.select({ ...columns, enrollment: classEnrollments })
+    .from(classEnrollments)
+    .innerJoin(classInstances, eq(classInstances.id, classEnrollments.classInstanceId))
+    .leftJoin(classTemplates, eq(classTemplates.id, classInstances.templateId))
+    .leftJoin(trainingCenters, eq(trainingCenters.id, classInstances.centerId))
+    .where(and(eq(classEnrollments.playerId, userId), gte(classInstances.startTime, since)))
+    .limit(MAX_EVENTS_PER_SOURCE);
+
+  const teaching = await db.select(columns)
+    .from(classInstances)
+    .leftJoin(classTemplates, eq(classTemplates.id, classInstances.templateId))
+    .leftJoin(trainingCenters, eq(trainingCenters.id, classInstances.centerId))
+    .where(and(eq(classInstances.coachId, userId), gte(classInstances.startTime, since)))
+    .limit(MAX_EVENTS_PER_SOURCE);
+
+  const teachingIds = new Set(teaching.map(row => row.instance.id));
+  return [
+    ...teaching.map(row => toEvent(row, false, row.instance.updatedAt)),
+    ...enrolled
+      .filter(row => !teachingIds.has(row.instance.id))
+      .map(row => toEvent(
+        row,
+        row.enrollment.attendanceStatus === 'cancelled',
+        latest(row.instance.updatedAt, row.enrollment.createdAt, row.enrollment.checkedInAt)
+      ))
+  ];
+}
+
+async function tournamentEvents(userId: number, since: Date): Promise<CalendarEvent[]> {
+  const rows = await db.select({ registration: tournamentRegistrations, tournament: tournaments })
+    .from(tournamentRegistrations)
+    .innerJoin(tournaments, eq(tournaments.id, tournamentRegistrations.tournamentId))
+    .where(and(eq(tournamentRegistrations.userId, userId), gte(tournaments.endDate, since)))
+    .limit(MAX_EVENTS_PER_SOURCE);
+
+  return rows.map(({ registration, tournament }) => ({
+    uid: calendarEventUid('tournament-registration', registration.id),
+    summary: tournament.name,
+    description: [
+      `${tournament.division} ${tournament.category ?? ''}`.trim(),
+      tournament.checkInTime && `Check-in: ${tournament.checkInTime}`
+    ].filter(Boolean).join('\n'),
+    location: tournament.venueAddress ?? tournament.location,
+    start: tournament.startDate,
+    end: tournament.endDate,
+    status: statusOf(['withdrawn', 'cancelled'].includes(registration.status) || tournament.status === 'cancelled'),
+    lastModified: latest(registration.updatedAt, tournament.updatedAt),
+    categories: ['Tournament']
+  }));
+}
+
+async function communityEventEvents(userId: number, since: Date): Promise<CalendarEvent[]> {
+  const rows = await db.select({ attendee: communityEventAttendees, event: communityEvents })
+    .from(communityEventAttendees)
+    .innerJoin(communityEvents, eq(communityEvents.id, communityEventAttendees.eventId))
+    .where(and(
+      eq(communityEventAttendees.userId, userId),
+      or(gte(communityEvents.eventDate, since), gte(communityEvents.endDate, since))
+    ))
+    .limit(MAX_EVENTS_PER_SOURCE);
+
+  return rows.map(({ attendee, event }) => ({
+    uid: calendarEventUid('community-event', event.id),
+    summary: event.title,
+    description: event.description,
+    location: event.isVirtual ? event.virtualMeetingUrl : event.location,
+    start: event.eventDate,
+    end: event.endDate ?? new Date(event.eventDate.getTime() + 2 * HOUR_MS),
+    status: statusOf(attendee.status === 'cancelled' || event.status === 'cancelled'),
+    lastModified: latest(attendee.updatedAt, event.updatedAt),
+    categories: ['Community']
+  }));
+}
+
+/**
+ * Everything on a user's schedule from the recent past onwards
+ */
+export async function collectCalendarEvents(userId: number, now: Date = new Date()): Promise<CalendarEvent[]> {
+  const since = new Date(now.getTime() - CALENDAR_FEED_HISTORY_DAYS * 24 * HOUR_MS);
+
+  const sources = await Promise.all([
+    bookingEvents(userId, since),
+    coachSlotEvents(userId, since),
+    classEvents(userId, since),
+    tournamentEvents(userId, since),
+    communityEventEvents(userId, since)
+  ]);
+
+  return sources.flat();
+}
+
+/**
+ * The user's subscription feed as an iCalendar document
+ */
+export async function buildUserCalendarFeed(userId: number): Promise<string> {
+  const events = await collectCalendarEvents(userId);
+  return buildICalendar(events, {
+    name: 'Pickle+ Schedule',
+    description: 'Your Pickle+ bookings, classes, tournaments and events',
+    refreshIntervalHours: CALENDAR_FEED_REFRESH_HOURS
+  });
+}
+
+/**
+ * A single booking as a downloadable .ics file, for its student or coach.
+ * Uses the same UID as the student's feed, so importing both does not
+ * duplicate it.
+ */
+export async function buildBookingCalendarFile(bookingId: number, userId: number): Promise<string> {
+  const [booking] = await db.select({ studentId: bookings.studentId, coachId: bookings.coachId })
+    .from(bookings)
+    .where(eq(bookings.id, bookingId))
+    .limit(1);
+
+  if (!booking) {
+    throw new Error('Booking not found');
+  }
+  if (booking.studentId !== userId && booking.coachId !== userId) {
+    throw new Error('Not allowed to view this booking');
+  }
+
+  const events = await bookingEvents(userId, new Date(0), bookingId);
+  return buildICalendar(events, { name: 'Pickle+ Booking' });
+}
@@ -0,0 +1,696 @@
+/**
+ * Cancellation Policy Service
+ *
+ * Settles cancelled and missed bookings under the coach's or facility's
+ * cancellation policy: refunds go back to the student's digital credits,
+ * late-cancel and no-show fees are taken from them, and the coach's session
+ * revenue is reduced to what the student is left paying. Each booking is
+ * settled once; repeated cancellation requests return the first settlement.
+ */
+
+import { db } from "../db";
+import { and, desc, eq, or, sql } from "drizzle-orm";
+import {
+  digitalCreditsAccounts,
+  digitalCreditsTransactions,
+  cancellationPolicies,
+  bookingCancellations,
+  type BookingCancellation,
+  type CancellationPolicyRecord,
+  type InsertCancellationPolicy
+} from "../../shared/schema";
+import { bookings, bookingSlots } from "../../shared/schema/session-booking";
+import { sessionTransactions, payoutAdjustments, coachPayoutConfig } from "../../shared/schema/payout-system";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  evaluateCancellation,
+  fromCents,
+  splitSessionRevenue,
+  toCents,
+  validateCancellationPolicy,
+  type CancellationInitiator,
+  type CancellationOutcome,
+  type CancellationPolicyTerms
+} from "../../shared/utils/cancellationPolicy";
+import { CreditTransactionType } from "../../shared/utils/digitalCurrencyValidation";
+import { postWalletMovement } from "./ledger-service";
+import { debitCurrencyPockets } from "./wallet-currency-service";
+import { reversePromoRedemption } from "./promo-code-service";
+import { publishDomainEvent } from "../core/events/domain-events";
+
+type CancellationTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type CancellationPolicyScope = 'coach' | 'facility';
+export type CancellableBookingType = 'session_booking' | 'coaching_session' | 'facility_booking';
+
+export interface CancellationActor {
+  userId: number;
+  role: CancellationInitiator;
+}
+
+/**
+ * The signed-in user acting on a slot booking; their role comes from the booking
+ */
+export interface BookingUser {
+  id: number;
+  isAdmin?: boolean;
+}
+
+export interface CancellationOptions {
+  reason?: string;
+  noShow?: boolean;
+  now?: Date;
+}
+
+export interface EffectiveCancellationPolicy {
+  policyId: number | null;
+  source: CancellationPolicyScope | 'platform';
+  terms: CancellationPolicyTerms;
+}
+
+export interface CancellationSettlement {
+  cancellation: BookingCancellation;
+  policy: EffectiveCancellationPolicy;
+  alreadySettled: boolean;
+}
+
+/**
+ * What cancelling a booking now would cost, without cancelling it
+ */
+export interface CancellationQuote extends CancellationOutcome {
+  policy: EffectiveCancellationPolicy;
+  priceCents: number;
+  paidCents: number;
+}
+
+/**
+ * A booking reduced to what settlement needs
+ */
+interface SettlementInput {
+  bookingType: CancellableBookingType;
+  bookingId: number;
+  studentId: number | null;
+  coachId: number | null;
+  facilityId: number | null;
+  priceCents: number;
+  paidCents: number;
+  startsAt: Date;
+  sessionType: string;
+}
+
+const PAID_STATUSES = ['paid', 'completed'];
+
+function toTerms(policy: CancellationPolicyRecord): CancellationPolicyTerms {
+  return {
+    fullRefundHours: policy.fullRefundHours,
+    partialRefundHours: policy.partialRefundHours,
+    partialRefundPercent: policy.partialRefundPercent,
+    lateCancelFeePercent: policy.lateCancelFeePercent,
+    noShowFeePercent: policy.noShowFeePercent
+  };
+}
+
+function ownerColumn(scope: CancellationPolicyScope) {
+  return scope === 'coach' ? cancellationPolicies.coachId : cancellationPolicies.facilityId;
+}
+
+/**
+ * The policy that governs a booking: the coach's, else the facility's,
+ * else the platform default
+ */
+export async function getEffectiveCancellationPolicy(owners: {
+  coachId?: number | null,
+  facilityId?: number | null
+}): Promise<EffectiveCancellationPolicy> {
+  const conditions = [];
+  if (owners.coachId) conditions.push(eq(cancellationPolicies.coachId, owners.coachId));
+  if (owners.facilityId) conditions.push(eq(cancellationPolicies.facilityId, owners.facilityId));
+
+  if (conditions.length > 0) {
+    const policies = await db.select()
+      .from(cancellationPolicies)
+      .where(and(eq(cancellationPolicies.isActive, true), or(...conditions)));
+
+    const policy = policies.find(p => p.scope === 'coach') ?? policies.find(p => p.scope === 'facility');
+    if (policy) {
+      return { policyId: policy.id, source: policy.scope as CancellationPolicyScope, terms: toTerms(policy) };
+    }
+  }
+
+  return { policyId: null, source: 'platform', terms: DEFAULT_CANCELLATION_POLICY };
+}
+
+/**
+ * A coach's or facility's own policy, if they have set one
+ */
+export async function getCancellationPolicy(
+  scope: CancellationPolicyScope,
+  ownerId: number
+): Promise<CancellationPolicyRecord | null> {
+  const [policy] = await db.select()
+    .from(cancellationPolicies)
+    .where(and(eq(cancellationPolicies.scope, scope), eq(ownerColumn(scope), ownerId)))
+    .limit(1);
+
+  return policy ?? null;
+}
+
+/**
+ * Creates or replaces a coach's or facility's policy
+ */
+export async function setCancellationPolicy(
+  scope: CancellationPolicyScope,
+  ownerId: number,
+  input: InsertCancellationPolicy,
+  updatedById: number
+): Promise<CancellationPolicyRecord> {
+  const terms: CancellationPolicyTerms = {
+    fullRefundHours: input.fullRefundHours ?? DEFAULT_CANCELLATION_POLICY.fullRefundHours,
+    partialRefundHours: input.partialRefundHours ?? DEFAULT_CANCELLATION_POLICY.partialRefundHours,
+    partialRefundPercent: input.partialRefundPercent ?? DEFAULT_CANCELLATION_POLICY.partialRefundPercent,
+    lateCancelFeePercent: input.lateCancelFeePercent ?? DEFAULT_CANCELLATION_POLICY.lateCancelFeePercent,
+    noShowFeePercent: input.noShowFeePercent ?? DEFAULT_CANCELLATION_POLICY.noShowFeePercent
+  };
+
+  const errors = validateCancellationPolicy(terms);
+  if (errors.length > 0) {
+    throw new Error(`Invalid cancellation policy: ${errors.join('; ')}`);
+  }
+
+  const values = {
+    ...terms,
+    name: input.name ?? null,
+    isActive: input.isActive ?? true,
+    updatedById,
+    updatedAt: new Date()
+  };
+
+  const [policy] = await db.insert(cancellationPolicies)
+    .values({
+      ...values,
+      scope,
+      coachId: scope === 'coach' ? ownerId : null,
+      facilityId: scope === 'facility' ? ownerId : null
+    })
+    .onConflictDoUpdate({ target: ownerColumn(scope), set: values })
+    .returning();
+
+  console.log(`[Cancellation] ${scope} ${ownerId} policy set by user ${updatedById}`);
+  return policy;
+}
+
+/**
+ * Removes a coach's or facility's policy, falling back to the next one up
+ */
+export async function removeCancellationPolicy(scope: CancellationPolicyScope, ownerId: number): Promise<void> {
+  const removed = await db.delete(cancellationPolicies)
+    .where(and(eq(cancellationPolicies.scope, scope), eq(ownerColumn(scope), ownerId)))
+    .returning({ id: cancellationPolicies.id });
+
+  if (removed.length === 0) {
+    throw new Error('Cancellation policy not found');
+  }
+}
+
+/**
+ * Adds to or takes from a student's digital credits. Debits never take the
+ * balance below zero; the amount actually moved is returned.
+ */
+async function moveCredits(
+  tx: CancellationTx,
+  userId: number,
+  amount: number,
+  type: CreditTransactionType,
+  cancellationId: number,
+  description: string
+): Promise<{ transactionId: number, amount: number } | null> {
+  let [account] = await tx.select()
+    .from(digitalCreditsAccounts)
+    .where(eq(digitalCreditsAccounts.userId, userId))
+    .for('update');
+
+  if (!account) {
+    [account] = await tx.insert(digitalCreditsAccounts)
+      .values({ userId, balance: 0, totalPurchased: 0, totalSpent: 0 })
+      .returning();
+  }
+
+  const moved = amount < 0 ? -Math.min(-amount, Math.max(account.balance, 0)) : amount;
+  if (moved === 0) {
+    return null;
+  }
+
+  const balanceAfter = account.balance + moved;
+  const [transaction] = await tx.insert(digitalCreditsTransactions)
+    .values({
+      userId,
+      amount: moved,
+      type,
+      referenceId: cancellationId,
+      referenceType: 'booking_cancellation',
+      description,
+      balanceAfter,
+      picklePointsAwarded: 0
+    })
+    .returning({ id: digitalCreditsTransactions.id });
+
+  if (moved < 0) {
+    await debitCurrencyPockets(tx, userId, account.balance, -moved);
+  }
+
+  await tx.update(digitalCreditsAccounts)
+    .set({
+      balance: balanceAfter,
+      totalSpent: moved < 0 ? account.totalSpent - moved : account.totalSpent,
+      updatedAt: new Date()
+    })
+    .where(eq(digitalCreditsAccounts.id, account.id));
+
+  await postWalletMovement(tx, { userId: userId, amountCents: moved, type, transactionId: transaction.id, description });
+
+  return { transactionId: transaction.id, amount: moved };
+}
+
+/**
+ * Brings the coach's session revenue in line with what the student is left
+ * paying. Revenue already paid out is corrected with a payout adjustment
+ * instead of rewriting the transaction. Returns the change in coach earnings.
+ */
+async function adjustSessionRevenue(
+  tx: CancellationTx,
+  input: SettlementInput,
+  outcome: CancellationOutcome,
+  feeChargedCents: number,
+  authorizedBy: number
+): Promise<number> {
+  const [transaction] = await tx.select()
+    .from(sessionTransactions)
+    .where(eq(sessionTransactions.bookingId, input.bookingId))
+    .for('update');
+
+  if (!transaction) {
+    // An unpaid booking only earns the coach the fee actually collected
+    if (feeChargedCents === 0 || !input.coachId || !input.studentId) {
+      return 0;
+    }
+
+    const [config] = await tx.select()
+      .from(coachPayoutConfig)
+      .where(eq(coachPayoutConfig.coachId, input.coachId))
+      .limit(1);
+    if (!config) {
+      console.warn(`[Cancellation] No payout config for coach ${input.coachId}; fee on booking ${input.bookingId} not recorded as revenue`);
+      return 0;
+    }
+
+    const revenue = splitSessionRevenue(feeChargedCents, Number(config.commissionRate));
+    await tx.insert(sessionTransactions).values({
+      bookingId: input.bookingId,
+      coachId: input.coachId,
+      studentId: input.studentId,
+      sessionDate: input.startsAt,
+      sessionType: input.sessionType,
+      grossAmount: fromCents(revenue.grossCents),
+      platformFee: fromCents(revenue.platformFeeCents),
+      coachEarnings: fromCents(revenue.coachEarningsCents),
+      pcpLevel: config.currentPcpLevel,
+      commissionRate: config.commissionRate,
+      paymentMethod: 'digital_credits',
+      status: 'completed',
+      taxYear: input.startsAt.getUTCFullYear(),
+      taxQuarter: Math.floor(input.startsAt.getUTCMonth() / 3) + 1
+    });
+
+    return revenue.coachEarningsCents;
+  }
+
+  const keptCents = Math.max(0, toCents(transaction.grossAmount) - outcome.refundCents) + feeChargedCents;
+  const revenue = splitSessionRevenue(keptCents, Number(transaction.commissionRate));
+  const change = revenue.coachEarningsCents - toCents(transaction.coachEarnings);
+
+  if (transaction.payoutStatus === 'paid' || transaction.payoutStatus === 'included_in_batch') {
+    if (change !== 0) {
+      await tx.insert(payoutAdjustments).values({
+        coachId: transaction.coachId,
+        adjustmentType: 'refund',
+        amount: fromCents(change),
+        reason: `Booking ${input.bookingId} ${outcome.tier.replace(/_/g, ' ')}`,
+        referenceId: `session_transaction:${transaction.id}`,
+        authorizedBy,
+        status: 'approved'
+      });
+    }
+    return change;
+  }
+
+  await tx.update(sessionTransactions)
+    .set({
+      grossAmount: fromCents(revenue.grossCents),
+      platformFee: fromCents(revenue.platformFeeCents),
+      coachEarnings: fromCents(revenue.coachEarningsCents),
+      status: keptCents === 0 ? 'cancelled' : outcome.refundCents > 0 ? 'refunded' : transaction.status,
+      updatedAt: new Date()
+    })
+    .where(eq(sessionTransactions.id, transaction.id));
+
+  return change;
+}
+
+/**
+ * Records the settlement of one booking and moves the money. Returns the
+ * existing settlement when the booking was already settled.
+ */
+async function settleCancellation(
+  tx: CancellationTx,
+  input: SettlementInput,
+  policy: EffectiveCancellationPolicy,
+  actor: CancellationActor,
+  options: CancellationOptions
+): Promise<{ cancellation: BookingCancellation, alreadySettled: boolean }> {
+  const outcome = evaluateCancellation(policy.terms, {
+    priceCents: input.priceCents,
+    paidCents: input.paidCents,
+    startsAt: input.startsAt,
+    at: options.now ?? new Date(),
+    initiatedBy: actor.role,
+    noShow: options.noShow
+  });
+
+  const [recorded] = await tx.insert(bookingCancellations)
+    .values({
+      bookingType: input.bookingType,
+      bookingId: input.bookingId,
+      studentId: input.studentId,
+      coachId: input.coachId,
+      facilityId: input.facilityId,
+      policyId: policy.policyId,
+      tier: outcome.tier,
+      initiatedBy: actor.role,
+      cancelledById: actor.userId,
+      hoursBeforeStart: outcome.hoursBeforeStart.toFixed(2),
+      priceCents: input.priceCents,
+      paidCents: input.paidCents,
+      refundCents: outcome.refundCents,
+      feeCents: outcome.feeCents,
+      feeOutstandingCents: outcome.feeCents,
+      reason: options.reason ?? null
+    })
+    .onConflictDoNothing({ target: [bookingCancellations.bookingType, bookingCancellations.bookingId] })
+    .returning();
+
+  if (!recorded) {
+    const [existing] = await tx.select()
+      .from(bookingCancellations)
+      .where(and(
+        eq(bookingCancellations.bookingType, input.bookingType),
+        eq(bookingCancellations.bookingId, input.bookingId)
+      ));
+    return { cancellation: existing, alreadySettled: true };
+  }
+
+  let refundTransactionId: number | null = null;
+  let feeTransactionId: number | null = null;
+  let feeChargedCents = 0;
+
+  if (input.studentId && outcome.refundCents > 0) {
+    const refund = await moveCredits(tx, input.studentId, outcome.refundCents, CreditTransactionType.BOOKING_REFUND,
+      recorded.id, `Refund for cancelled booking #${input.bookingId}`);
+    refundTransactionId = refund?.transactionId ?? null;
+  }
+
+  if (input.studentId && outcome.feeCents > 0) {
+    const label = outcome.tier === 'no_show' ? 'No-show fee' : 'Late cancellation fee';
+    const fee = await moveCredits(tx, input.studentId, -outcome.feeCents, CreditTransactionType.CANCELLATION_FEE,
+      recorded.id, `${label} for booking #${input.bookingId}`);
+    feeTransactionId = fee?.transactionId ?? null;
+    feeChargedCents = fee ? -fee.amount : 0;
+  }
+
+  const coachEarningsChangeCents = input.bookingType === 'session_booking'
+    ? await adjustSessionRevenue(tx, input, outcome, feeChargedCents, actor.userId)
+    : 0;
+
+  const [cancellation] = await tx.update(bookingCancellations)
+    .set({
+      refundTransactionId,
+      feeTransactionId,
+      feeChargedCents,
+      feeOutstandingCents: outcome.feeCents - feeChargedCents,
+      coachEarningsChangeCents
+    })
+    .where(eq(bookingCancellations.id, recorded.id))
+    .returning();
+
+  await publishDomainEvent(tx, 'booking.cancelled', {
+    booking_id: input.bookingId,
+    booking_type: input.bookingType,
+    student_user_id: input.studentId,
+    coach_id: input.coachId,
+    facility_id: input.facilityId,
+    outcome: cancellation.tier,
+    initiated_by: cancellation.initiatedBy,
+    cancelled_at: (cancellation.createdAt ?? new Date()).toISOString()
+  });
+
+  return { cancellation, alreadySettled: false };
+}
+
+/**
+ * Payment status of a booking after its refund
+ */
+export function paymentStatusAfterCancellation(cancellation: BookingCancellation, currentStatus: string | null): string | null {
+  if (cancellation.refundCents === 0) {
+    return currentStatus;
+  }
+  return cancellation.refundCents >= cancellation.paidCents ? 'refunded' : 'partial_refund';
+}
+
+async function loadSessionBooking(bookingId: number, user: BookingUser, noShow: boolean) {
+  const [booking] = await db.select()
+    .from(bookings)
+    .where(eq(bookings.id, bookingId))
+    .limit(1);
+
+  if (!booking) {
+    throw new Error('Booking not found');
+  }
+
+  let role: CancellationInitiator;
+  if (booking.studentId === user.id) {
+    role = 'student';
+  } else if (booking.coachId === user.id) {
+    role = 'coach';
+  } else if (user.isAdmin) {
+    role = 'admin';
+  } else {
+    throw new Error('Not allowed to cancel this booking');
+  }
+  if (noShow && role === 'student') {
+    throw new Error('Not allowed to record a no-show');
+  }
+  const actor: CancellationActor = { userId: user.id, role };
+
+  const [slot] = await db.select()
+    .from(bookingSlots)
+    .where(eq(bookingSlots.id, booking.slotId))
+    .limit(1);
+
+  const input: SettlementInput = {
+    bookingType: 'session_booking',
+    bookingId: booking.id,
+    studentId: booking.studentId,
+    coachId: booking.coachId,
+    facilityId: null,
+    priceCents: toCents(booking.amountPaid), // After any promo code discount
+    paidCents: PAID_STATUSES.includes(booking.paymentStatus ?? '') ? toCents(booking.amountPaid) : 0,
+    startsAt: slot?.startTime ?? booking.sessionDate,
+    sessionType: slot?.sessionType ?? 'group'
+  };
+
+  return { booking, slot, input, actor };
+}
+
+/**
+ * What cancelling a slot booking now would refund or charge
+ */
+export async function quoteSessionBookingCancellation(
+  bookingId: number,
+  user: BookingUser,
+  options: CancellationOptions = {}
+): Promise<CancellationQuote> {
+  const { input, actor } = await loadSessionBooking(bookingId, user, options.noShow ?? false);
+  const policy = await getEffectiveCancellationPolicy({ coachId: input.coachId });
+
+  return {
+    ...evaluateCancellation(policy.terms, {
+      priceCents: input.priceCents,
+      paidCents: input.paidCents,
+      startsAt: input.startsAt,
+      at: options.now ?? new Date(),
+      initiatedBy: actor.role,
+      noShow: options.noShow
+    }),
+    policy,
+    priceCents: input.priceCents,
+    paidCents: input.paidCents
+  };
+}
+
+/**
+ * Cancels a booking in a coach's slot, or records the student as a no-show,
+ * and settles it under the coach's policy
+ */
+export async function cancelSessionBooking(
+  bookingId: number,
+  user: BookingUser,
+  options: CancellationOptions = {}
+): Promise<CancellationSettlement> {
+  const noShow = options.noShow ?? false;
+  const now = options.now ?? new Date();
+  const { booking, slot, input, actor } = await loadSessionBooking(bookingId, user, noShow);
+  const policy = await getEffectiveCancellationPolicy({ coachId: input.coachId });
+
+  if (booking.status === 'cancelled' || booking.status === 'no_show') {
+    const [existing] = await db.select()
+      .from(bookingCancellations)
+      .where(and(eq(bookingCancellations.bookingType, 'session_booking'), eq(bookingCancellations.bookingId, bookingId)));
+    if (!existing) {
+      throw new Error(`Booking is already ${booking.status === 'no_show' ? 'marked as a no-show' : 'cancelled'}`);
+    }
+    return { cancellation: existing, policy, alreadySettled: true };
+  }
+  if (noShow && input.startsAt > now) {
+    throw new Error('A no-show can only be recorded after the session starts');
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const settled = await settleCancellation(tx, input, policy, actor, { ...options, now });
+    if (settled.alreadySettled) {
+      return settled;
+    }
+
+    await tx.update(bookings)
+      .set({
+        status: noShow ? 'no_show' : 'cancelled',
+        paymentStatus: paymentStatusAfterCancellation(settled.cancellation, booking.paymentStatus),
+        updatedAt: now
+      })
+      .where(eq(bookings.id, bookingId));
+
+    // A promo code is given back when the student keeps paying nothing
+    const { refundCents, paidCents, feeCents } = settled.cancellation;
+    if (!noShow && refundCents >= paidCents && feeCents === 0) {
+      await reversePromoRedemption(tx, 'session_booking', bookingId);
+    }
+
+    // A cancelled place can be booked again; a no-show's cannot
+    if (!noShow && slot) {
+      await tx.update(bookingSlots)
+        .set({
+          currentBookings: sql`GREATEST(COALESCE(${bookingSlots.currentBookings}, 0) - 1, 0)`,
+          isAvailable: slot.status !== 'cancelled',
+          updatedAt: now
+        })
+        .where(eq(bookingSlots.id, slot.id));
+    }
+
+    return settled;
+  });
+
+  console.log(`[Cancellation] Booking ${bookingId} settled as ${result.cancellation.tier}: refund ${result.cancellation.refundCents}, fee ${result.cancellation.feeCents} (cents)`);
+  return { ...result, policy };
+}
+
+/**
+ * Settles a coaching session cancelled through the session booking flow.
+ * The caller updates the session itself.
+ */
+export async function settleCoachingSessionCancellation(
+  session: {
+    id: number,
+    coachId: number,
+    studentId: number,
+    scheduledAt: Date | string,
+    priceAmount?: string | number | null,
+    paymentStatus?: string | null,
+    sessionType?: string | null
+  },
+  actor: CancellationActor,
+  options: CancellationOptions = {}
+): Promise<CancellationSettlement> {
+  const policy = await getEffectiveCancellationPolicy({ coachId: session.coachId });
+  const priceCents = toCents(session.priceAmount);
+
+  const result = await db.transaction(tx => settleCancellation(tx, {
+    bookingType: 'coaching_session',
+    bookingId: session.id,
+    studentId: session.studentId,
+    coachId: session.coachId,
+    facilityId: null,
+    priceCents,
+    paidCents: PAID_STATUSES.includes(session.paymentStatus ?? '') ? priceCents : 0,
+    startsAt: new Date(session.scheduledAt),
+    sessionType: session.sessionType ?? 'individual'
+  }, policy, actor, options));
+
+  return { ...result, policy };
+}
+
+/**
+ * Settles a facility court booking under the facility's policy. Only the
+ * player who made the booking while signed in, or an admin, may cancel it.
+ * Refunds cover what the booking's payment record shows was paid and go to
+ * that player's credits; guest bookings have no account to refund.
+ */
+export async function settleFacilityBookingCancellation(
+  booking: {
+    id: number,
+    facilityId: number,
+    userId?: number | null, // The signed-in player who booked; null for guests
+    coachId?: number | null,
+    date: string,
+    time: string,
+    totalAmount?: string | number | null,
+    amountPaid?: string | number | null,
+    paymentStatus?: string | null
+  },
+  user: BookingUser,
+  options: CancellationOptions = {}
+): Promise<CancellationSettlement> {
+  let role: CancellationInitiator;
+  if (booking.userId && booking.userId === user.id) {
+    role = 'student';
+  } else if (user.isAdmin) {
+    role = 'admin';
+  } else {
+    throw new Error('Not allowed to cancel this booking');
+  }
+
+  const policy = await getEffectiveCancellationPolicy({ coachId: booking.coachId, facilityId: booking.facilityId });
+  const studentId = booking.userId ?? null;
+
+  const result = await db.transaction(tx => settleCancellation(tx, {
+    bookingType: 'facility_booking',
+    bookingId: booking.id,
+    studentId,
+    coachId: booking.coachId ?? null,
+    facilityId: booking.facilityId,
+    priceCents: toCents(booking.totalAmount),
+    paidCents: studentId && PAID_STATUSES.includes(booking.paymentStatus ?? '') ? toCents(booking.amountPaid) : 0,
+    startsAt: new Date(`${booking.date}T${booking.time}`),
+    sessionType: 'court'
+  }, policy, { userId: user.id, role }, options));
+
+  return { ...result, policy };
+}
+
+/**
+ * Cancellations where the user was the student or the coach, newest first
+ */
+export async function listBookingCancellations(userId: number, limit: number = 50): Promise<BookingCancellation[]> {
+  return db.select()
+    .from(bookingCancellations)
+    .where(or(eq(bookingCancellations.studentId, userId), eq(bookingCancellations.coachId, userId)))
+    .orderBy(desc(bookingCancellations.createdAt))
+    .limit(limit);
+}
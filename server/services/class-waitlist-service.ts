@@ -0,0 +1,816 @@
+/**
+ * Class Waitlist Service
+ *
+ * Fills freed class spots from the waitlist. Whenever a spot opens, the next
+ * waitlisted player whose level fits the class is offered it for a limited
+ * claim window; declined or expired offers pass to the next in line. Spots
+ * held by a pending offer cannot be taken by direct enrollment.
+ *
+ * Accepting a priced class charges the player's digital credits when they
+ * cover the price; otherwise the spot is reserved unpaid, to be settled at
+ * the center. Every offer and every player passed over is logged in
+ * class_waitlist_offers for the center's admins. A promo code given with a
+ * direct enrollment lowers the price before credits are charged.
+ */
+
+import { db } from "../db";
+import { and, asc, desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import {
+  users,
+  digitalCreditsAccounts,
+  digitalCreditsTransactions,
+  classWaitlistOffers,
+  type ClassWaitlistOffer
+} from "../../shared/schema";
+import {
+  classInstances,
+  classTemplates,
+  classEnrollments,
+  classWaitlist,
+  trainingCenters,
+  type ClassInstance,
+  type ClassTemplate,
+  type ClassEnrollment,
+  type ClassWaitlist
+} from "../../shared/schema/training-center";
+import {
+  classSkillTier,
+  claimWindowExpiry,
+  isEligibleForClass,
+  planWaitlistOffers,
+  playerSkillTier
+} from "../../shared/utils/classWaitlist";
+import { evaluateCancellation, toCents } from "../../shared/utils/cancellationPolicy";
+import { CreditTransactionType } from "../../shared/utils/digitalCurrencyValidation";
+import { getEffectiveCancellationPolicy } from "./cancellation-policy-service";
+import { postWalletMovement } from "./ledger-service";
+import { debitCurrencyPockets } from "./wallet-currency-service";
+import { redeemPromoCode, reversePromoRedemption } from "./promo-code-service";
+
+type WaitlistTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface WaitlistUser {
+  id: number;
+  isAdmin?: boolean;
+}
+
+export type EnrollmentPayment = 'free' | 'charged' | 'reserved';
+
+export interface EnrollmentResult {
+  enrollment: ClassEnrollment;
+  payment: EnrollmentPayment;
+  creditsCharged: number;
+  promoDiscountCents: number;
+}
+
+export interface EnrollmentCancellation {
+  enrollment: ClassEnrollment;
+  creditsRefunded: number;
+  offers: ClassWaitlistOffer[]; // Offers made for the freed spot
+}
+
+interface LockedClass {
+  instance: ClassInstance;
+  template: ClassTemplate;
+}
+
+async function lockClass(tx: WaitlistTx, classId: number): Promise<LockedClass> {
+  const [instance] = await tx.select()
+    .from(classInstances)
+    .where(eq(classInstances.id, classId))
+    .for('update');
+
+  if (!instance) {
+    throw new Error('Class not found');
+  }
+
+  const [template] = await tx.select()
+    .from(classTemplates)
+    .where(eq(classTemplates.id, instance.templateId));
+
+  if (!template) {
+    throw new Error('Class template not found');
+  }
+
+  return { instance, template };
+}
+
+function isOpenForEnrollment(instance: ClassInstance, now: Date): boolean {
+  return (instance.status ?? 'scheduled') === 'scheduled' && instance.startTime > now;
+}
+
+async function countActiveEnrollments(tx: WaitlistTx, classId: number): Promise<number> {
+  const [row] = await tx.select({ count: sql<number>`count(*)::int` })
+    .from(classEnrollments)
+    .where(and(
+      eq(classEnrollments.classInstanceId, classId),
+      ne(classEnrollments.attendanceStatus, 'cancelled')
+    ));
+  return row?.count ?? 0;
+}
+
+async function countPendingOffers(tx: WaitlistTx, classId: number): Promise<number> {
+  const [row] = await tx.select({ count: sql<number>`count(*)::int` })
+    .from(classWaitlist)
+    .where(and(eq(classWaitlist.classInstanceId, classId), eq(classWaitlist.status, 'notified')));
+  return row?.count ?? 0;
+}
+
+async function playerFitsClass(tx: WaitlistTx, template: ClassTemplate, playerId: number): Promise<boolean> {
+  const [player] = await tx.select({ skillLevel: users.skillLevel, duprRating: users.duprRating })
+    .from(users)
+    .where(eq(users.id, playerId));
+
+  return isEligibleForClass(classSkillTier(template.skillLevel), player ? playerSkillTier(player) : null);
+}
+
+/**
+ * Closes this class's offers whose claim window has passed
+ */
+async function expireClassOffers(tx: WaitlistTx, classId: number, now: Date): Promise<number> {
+  const expired = await tx.update(classWaitlist)
+    .set({ status: 'expired' })
+    .where(and(
+      eq(classWaitlist.classInstanceId, classId),
+      eq(classWaitlist.status, 'notified'),
+      lte(classWaitlist.expiresAt, now)
+    ))
+    .returning({ id: classWaitlist.id });
+
+  if (expired.length > 0) {
+    await tx.update(classWaitlistOffers)
+      .set({ outcome: 'expired', respondedAt: now })
+      .where(and(
+        inArray(classWaitlistOffers.waitlistEntryId, expired.map(entry => entry.id)),
+        eq(classWaitlistOffers.outcome, 'pending')
+      ));
+  }
+
+  return expired.length;
+}
+
+/**
+ * Offers every open spot of a locked class to the next eligible players
+ */
+async function offerOpenSpots(tx: WaitlistTx, locked: LockedClass, now: Date): Promise<ClassWaitlistOffer[]> {
+  const { instance, template } = locked;
+  if (!isOpenForEnrollment(instance, now)) {
+    return [];
+  }
+
+  const expiresAt = claimWindowExpiry(now, instance.startTime);
+  if (!expiresAt) {
+    return [];
+  }
+
+  const capacity = instance.maxParticipants ?? template.maxParticipants ?? 0;
+  const openSpots = capacity
+    - await countActiveEnrollments(tx, instance.id)
+    - await countPendingOffers(tx, instance.id);
+  if (openSpots <= 0) {
+    return [];
+  }
+
+  const waiting = await tx.select({
+    entry: classWaitlist,
+    skillLevel: users.skillLevel,
+    duprRating: users.duprRating
+  })
+    .from(classWaitlist)
+    .leftJoin(users, eq(users.id, classWaitlist.playerId))
+    .where(and(eq(classWaitlist.classInstanceId, instance.id), eq(classWaitlist.status, 'waiting')))
+    .orderBy(asc(classWaitlist.position), asc(classWaitlist.id));
+
+  const classTier = classSkillTier(template.skillLevel);
+  const plan = planWaitlistOffers(
+    waiting.map(row => ({
+      entryId: row.entry.id,
+      position: row.entry.position,
+      eligible: isEligibleForClass(classTier, playerSkillTier(row))
+    })),
+    openSpots
+  );
+  const entries = new Map(waiting.map(row => [row.entry.id, row.entry]));
+
+  for (const entryId of plan.skipped) {
+    const entry = entries.get(entryId)!;
+    await tx.insert(classWaitlistOffers).values({
+      classInstanceId: instance.id,
+      centerId: instance.centerId,
+      waitlistEntryId: entry.id,
+      playerId: entry.playerId,
+      position: entry.position,
+      outcome: 'skipped',
+      offeredAt: now,
+      reason: `Skill level does not fit this ${template.skillLevel} class`
+    });
+  }
+
+  const offers: ClassWaitlistOffer[] = [];
+  for (const entryId of plan.offer) {
+    const entry = entries.get(entryId)!;
+    await tx.update(classWaitlist)
+      .set({ status: 'notified', notifiedAt: now, expiresAt })
+      .where(eq(classWaitlist.id, entry.id));
+
+    const [offer] = await tx.insert(classWaitlistOffers)
+      .values({
+        classInstanceId: instance.id,
+        centerId: instance.centerId,
+        waitlistEntryId: entry.id,
+        playerId: entry.playerId,
+        position: entry.position,
+        outcome: 'pending',
+        offeredAt: now,
+        expiresAt
+      })
+      .returning();
+    offers.push(offer);
+  }
+
+  if (offers.length > 0 || plan.skipped.length > 0) {
+    console.log(`[ClassWaitlist] Class ${instance.id}: offered ${offers.length} spot(s), skipped ${plan.skipped.length} ineligible`);
+  }
+
+  return offers;
+}
+
+/**
+ * Moves credits for an enrollment. Charges are all or nothing: when the
+ * balance does not cover the price, nothing is taken.
+ */
+async function moveEnrollmentCredits(
+  tx: WaitlistTx,
+  playerId: number,
+  amount: number,
+  type: CreditTransactionType,
+  enrollmentId: number,
+  description: string
+): Promise<{ transactionId: number, amount: number } | null> {
+  let [account] = await tx.select()
+    .from(digitalCreditsAccounts)
+    .where(eq(digitalCreditsAccounts.userId, playerId))
+    .for('update');
+
+  if (!account) {
+    if (amount < 0) {
+      return null;
+    }
+    [account] = await tx.insert(digitalCreditsAccounts)
+      .values({ userId: playerId, balance: 0, totalPurchased: 0, totalSpent: 0 })
+      .returning();
+  }
+
+  if (amount === 0 || account.balance + amount < 0) {
+    return null;
+  }
+
+  const balanceAfter = account.balance + amount;
+  const [transaction] = await tx.insert(digitalCreditsTransactions)
+    .values({
+      userId: playerId,
+      amount,
+      type,
+      referenceId: enrollmentId,
+      referenceType: 'class_enrollment',
+      description,
+      balanceAfter,
+      picklePointsAwarded: 0
+    })
+    .returning({ id: digitalCreditsTransactions.id });
+
+  if (amount < 0) {
+    await debitCurrencyPockets(tx, playerId, account.balance, -amount);
+  }
+
+  await tx.update(digitalCreditsAccounts)
+    .set({
+      balance: balanceAfter,
+      totalSpent: amount < 0 ? account.totalSpent - amount : account.totalSpent,
+      updatedAt: new Date()
+    })
+    .where(eq(digitalCreditsAccounts.id, account.id));
+
+  await postWalletMovement(tx, { userId: playerId, amountCents: amount, type, transactionId: transaction.id, description });
+
+  return { transactionId: transaction.id, amount };
+}
+
+/**
+ * Enrolls a player in a locked class, paying with credits when they cover
+ * the price
+ */
+async function createEnrollment(
+  tx: WaitlistTx,
+  locked: LockedClass,
+  playerId: number,
+  enrollmentType: string,
+  promoCode?: string
+): Promise<EnrollmentResult & { creditTransactionId: number | null }> {
+  const { instance, template } = locked;
+  let priceCents = toCents(template.pricePerSession);
+
+  const [created] = await tx.insert(classEnrollments)
+    .values({
+      classInstanceId: instance.id,
+      playerId,
+      enrollmentType,
+      paymentStatus: priceCents > 0 ? 'pending' : 'paid'
+    })
+    .returning();
+
+  await tx.update(classInstances)
+    .set({
+      currentEnrollment: sql`COALESCE(${classInstances.currentEnrollment}, 0) + 1`,
+      updatedAt: new Date()
+    })
+    .where(eq(classInstances.id, instance.id));
+
+  let promoDiscountCents = 0;
+  if (promoCode && priceCents > 0) {
+    const promo = await redeemPromoCode(tx, playerId, promoCode,
+      { targetType: 'class_enrollment', targetId: instance.id, paymentMethod: 'credits' }, created.id);
+    promoDiscountCents = promo.discountCents;
+    priceCents = promo.finalCents;
+  }
+
+  if (priceCents === 0) {
+    const [enrollment] = created.paymentStatus === 'paid'
+      ? [created]
+      : await tx.update(classEnrollments)
+        .set({ paymentStatus: 'paid' })
+        .where(eq(classEnrollments.id, created.id))
+        .returning();
+    return { enrollment, payment: 'free', creditsCharged: 0, promoDiscountCents, creditTransactionId: null };
+  }
+
+  const charge = await moveEnrollmentCredits(tx, playerId, -priceCents, CreditTransactionType.CLASS_ENROLLMENT,
+    created.id, `${template.name} on ${instance.startTime.toISOString().slice(0, 10)}`);
+  if (!charge) {
+    return { enrollment: created, payment: 'reserved', creditsCharged: 0, promoDiscountCents, creditTransactionId: null };
+  }
+
+  const [enrollment] = await tx.update(classEnrollments)
+    .set({ paymentStatus: 'paid' })
+    .where(eq(classEnrollments.id, created.id))
+    .returning();
+
+  return { enrollment, payment: 'charged', creditsCharged: priceCents, promoDiscountCents, creditTransactionId: charge.transactionId };
+}
+
+/**
+ * Expires lapsed offers on a class and offers any open spots. Safe to call
+ * at any time; it is what every cancellation, decline and expiry ends in.
+ */
+export async function processClassWaitlist(classId: number, now: Date = new Date()): Promise<ClassWaitlistOffer[]> {
+  return await db.transaction(async (tx) => {
+    const locked = await lockClass(tx, classId);
+    await expireClassOffers(tx, classId, now);
+    return await offerOpenSpots(tx, locked, now);
+  });
+}
+
+/**
+ * Enrolls a player directly. Spots held for waitlisted players are not
+ * available, and the player's level must fit the class.
+ */
+export async function enrollInClass(
+  classId: number,
+  playerId: number,
+  now: Date = new Date(),
+  promoCode?: string
+): Promise<EnrollmentResult> {
+  const result = await db.transaction(async (tx) => {
+    const locked = await lockClass(tx, classId);
+    if (!isOpenForEnrollment(locked.instance, now)) {
+      throw new Error('Class is no longer open for enrollment');
+    }
+
+    const [existing] = await tx.select({ id: classEnrollments.id })
+      .from(classEnrollments)
+      .where(and(
+        eq(classEnrollments.classInstanceId, classId),
+        eq(classEnrollments.playerId, playerId),
+        ne(classEnrollments.attendanceStatus, 'cancelled')
+      ));
+    if (existing) {
+      throw new Error('Player is already enrolled in this class');
+    }
+
+    if (!await playerFitsClass(tx, locked.template, playerId)) {
+      throw new Error(`Skill level does not fit this ${locked.template.skillLevel} class`);
+    }
+
+    await expireClassOffers(tx, classId, now);
+    const capacity = locked.instance.maxParticipants ?? locked.template.maxParticipants ?? 0;
+    const taken = await countActiveEnrollments(tx, classId) + await countPendingOffers(tx, classId);
+    if (taken >= capacity) {
+      throw new Error('Class is full; join the waitlist instead');
+    }
+
+    return await createEnrollment(tx, locked, playerId, 'advance', promoCode);
+  });
+
+  return {
+    enrollment: result.enrollment,
+    payment: result.payment,
+    creditsCharged: result.creditsCharged,
+    promoDiscountCents: result.promoDiscountCents
+  };
+}
+
+/**
+ * Cancels a player's enrollment, refunds credits under the class's
+ * cancellation policy and offers the freed spot to the waitlist
+ */
+export async function cancelClassEnrollment(
+  classId: number,
+  playerId: number,
+  now: Date = new Date()
+): Promise<EnrollmentCancellation> {
+  const [instance] = await db.select().from(classInstances).where(eq(classInstances.id, classId));
+  if (!instance) {
+    throw new Error('Class not found');
+  }
+  const policy = await getEffectiveCancellationPolicy({ coachId: instance.coachId, facilityId: instance.centerId });
+
+  return await db.transaction(async (tx) => {
+    const locked = await lockClass(tx, classId);
+
+    const [active] = await tx.select()
+      .from(classEnrollments)
+      .where(and(
+        eq(classEnrollments.classInstanceId, classId),
+        eq(classEnrollments.playerId, playerId),
+        ne(classEnrollments.attendanceStatus, 'cancelled')
+      ))
+      .for('update');
+    if (!active) {
+      throw new Error('Enrollment not found');
+    }
+
+    let [enrollment] = await tx.update(classEnrollments)
+      .set({ attendanceStatus: 'cancelled' })
+      .where(eq(classEnrollments.id, active.id))
+      .returning();
+
+    await tx.update(classInstances)
+      .set({
+        currentEnrollment: sql`GREATEST(COALESCE(${classInstances.currentEnrollment}, 0) - 1, 0)`,
+        updatedAt: new Date()
+      })
+      .where(eq(classInstances.id, classId));
+
+    const [charge] = await tx.select({ amount: digitalCreditsTransactions.amount })
+      .from(digitalCreditsTransactions)
+      .where(and(
+        eq(digitalCreditsTransactions.referenceType, 'class_enrollment'),
+        eq(digitalCreditsTransactions.referenceId, active.id),
+        eq(digitalCreditsTransactions.type, CreditTransactionType.CLASS_ENROLLMENT)
+      ));
+
+    let creditsRefunded = 0;
+    if (charge && charge.amount < 0) {
+      const paidCents = -charge.amount;
+      const outcome = evaluateCancellation(policy.terms, {
+        priceCents: paidCents,
+        paidCents,
+        startsAt: locked.instance.startTime,
+        at: now,
+        initiatedBy: 'student'
+      });
+      const refund = await moveEnrollmentCredits(tx, playerId, outcome.refundCents, CreditTransactionType.BOOKING_REFUND,
+        active.id, `Refund for cancelled ${locked.template.name}`);
+      creditsRefunded = refund?.amount ?? 0;
+
+      if (creditsRefunded === paidCents) {
+        [enrollment] = await tx.update(classEnrollments)
+          .set({ paymentStatus: 'refunded' })
+          .where(eq(classEnrollments.id, active.id))
+          .returning();
+      }
+    }
+
+    // A promo code is given back when nothing paid for the class is kept
+    if (!charge || enrollment.paymentStatus === 'refunded') {
+      await reversePromoRedemption(tx, 'class_enrollment', active.id);
+    }
+
+    await expireClassOffers(tx, classId, now);
+    const offers = await offerOpenSpots(tx, locked, now);
+    return { enrollment, creditsRefunded, offers };
+  });
+}
+
+/**
+ * Adds a player to the end of a full class's waitlist
+ */
+export async function joinClassWaitlist(classId: number, playerId: number, now: Date = new Date()): Promise<ClassWaitlist> {
+  return await db.transaction(async (tx) => {
+    const locked = await lockClass(tx, classId);
+    if (!isOpenForEnrollment(locked.instance, now)) {
+      throw new Error('Class is no longer open for enrollment');
+    }
+
+    const [enrolled] = await tx.select({ id: classEnrollments.id })
+      .from(classEnrollments)
+      .where(and(
+        eq(classEnrollments.classInstanceId, classId),
+        eq(classEnrollments.playerId, playerId),
+        ne(classEnrollments.attendanceStatus, 'cancelled')
+      ));
+    if (enrolled) {
+      throw new Error('Player is already enrolled in this class');
+    }
+
+    const [queued] = await tx.select({ id: classWaitlist.id })
+      .from(classWaitlist)
+      .where(and(
+        eq(classWaitlist.classInstanceId, classId),
+        eq(classWaitlist.playerId, playerId),
+        inArray(classWaitlist.status, ['waiting', 'notified'])
+      ));
+    if (queued) {
+      throw new Error('Player is already on the waitlist for this class');
+    }
+
+    if (!await playerFitsClass(tx, locked.template, playerId)) {
+      throw new Error(`Skill level does not fit this ${locked.template.skillLevel} class`);
+    }
+
+    const [last] = await tx.select({ position: sql<number>`COALESCE(MAX(${classWaitlist.position}), 0)::int` })
+      .from(classWaitlist)
+      .where(eq(classWaitlist.classInstanceId, classId));
+
+    const [entry] = await tx.insert(classWaitlist)
+      .values({ classInstanceId: classId, playerId, position: (last?.position ?? 0) + 1, joinedAt: now, status: 'waiting' })
+      .returning();
+
+    // A spot may already be free, e.g. when nobody was eligible for it before
+    await offerOpenSpots(tx, locked, now);
+
+    const [current] = await tx.select().from(classWaitlist).where(eq(classWaitlist.id, entry.id));
+    return current;
+  });
+}
+
+async function lockOffer(tx: WaitlistTx, entryId: number, playerId: number): Promise<ClassWaitlist> {
+  const [entry] = await tx.select()
+    .from(classWaitlist)
+    .where(eq(classWaitlist.id, entryId))
+    .for('update');
+
+  if (!entry) {
+    throw new Error('Waitlist entry not found');
+  }
+  if (entry.playerId !== playerId) {
+    throw new Error('Not allowed to respond to this offer');
+  }
+  return entry;
+}
+
+async function closeOffer(
+  tx: WaitlistTx,
+  entryId: number,
+  outcome: string,
+  now: Date,
+  details: Partial<Pick<ClassWaitlistOffer, 'enrollmentId' | 'creditsCharged' | 'creditTransactionId' | 'reason'>> = {}
+): Promise<void> {
+  await tx.update(classWaitlistOffers)
+    .set({ outcome, respondedAt: now, ...details })
+    .where(and(eq(classWaitlistOffers.waitlistEntryId, entryId), eq(classWaitlistOffers.outcome, 'pending')));
+}
+
+/**
+ * Claims an offered spot within its claim window
+ */
+export async function acceptWaitlistOffer(entryId: number, playerId: number, now: Date = new Date()): Promise<EnrollmentResult> {
+  const result = await db.transaction(async (tx) => {
+    const { classInstanceId } = await getWaitlistEntry(entryId);
+
+    // Lock the class before the entry, in the same order as every other path
+    const locked = await lockClass(tx, classInstanceId);
+    const entry = await lockOffer(tx, entryId, playerId);
+
+    if (entry.status !== 'notified') {
+      throw new Error(entry.status === 'expired' ? 'Offer has already expired' : 'There is no open offer for this entry');
+    }
+    if (entry.expiresAt && entry.expiresAt <= now) {
+      return { expired: true as const };
+    }
+    if (!isOpenForEnrollment(locked.instance, now)) {
+      await tx.update(classWaitlist).set({ status: 'cancelled' }).where(eq(classWaitlist.id, entry.id));
+      await closeOffer(tx, entry.id, 'withdrawn', now, { reason: 'Class is no longer open for enrollment' });
+      return { withdrawn: true as const };
+    }
+
+    const enrolled = await createEnrollment(tx, locked, playerId, 'waitlist');
+    await tx.update(classWaitlist).set({ status: 'enrolled' }).where(eq(classWaitlist.id, entry.id));
+    await closeOffer(tx, entry.id, 'accepted', now, {
+      enrollmentId: enrolled.enrollment.id,
+      creditsCharged: enrolled.creditsCharged,
+      creditTransactionId: enrolled.creditTransactionId
+    });
+
+    console.log(`[ClassWaitlist] Player ${playerId} claimed a spot in class ${classInstanceId} (${enrolled.payment})`);
+    return { enrolled };
+  });
+
+  if ('expired' in result) {
+    // Expire it and pass the spot on before reporting back
+    await processClassWaitlist((await getWaitlistEntry(entryId)).classInstanceId, now);
+    throw new Error('Offer has already expired');
+  }
+  if ('withdrawn' in result) {
+    throw new Error('Class is no longer open for enrollment');
+  }
+
+  const { enrollment, payment, creditsCharged, promoDiscountCents } = result.enrolled;
+  return { enrollment, payment, creditsCharged, promoDiscountCents };
+}
+
+/**
+ * Turns an offer down and passes the spot to the next player
+ */
+export async function declineWaitlistOffer(entryId: number, playerId: number, now: Date = new Date()): Promise<ClassWaitlistOffer[]> {
+  return await db.transaction(async (tx) => {
+    const { classInstanceId } = await getWaitlistEntry(entryId);
+    const locked = await lockClass(tx, classInstanceId);
+    const entry = await lockOffer(tx, entryId, playerId);
+
+    if (entry.status !== 'notified') {
+      throw new Error('There is no open offer for this entry');
+    }
+
+    await tx.update(classWaitlist).set({ status: 'declined' }).where(eq(classWaitlist.id, entry.id));
+    await closeOffer(tx, entry.id, 'declined', now);
+
+    await expireClassOffers(tx, classInstanceId, now);
+    return await offerOpenSpots(tx, locked, now);
+  });
+}
+
+/**
+ * Takes a player off a waitlist, giving up any spot they were offered
+ */
+export async function leaveClassWaitlist(classId: number, playerId: number, now: Date = new Date()): Promise<ClassWaitlistOffer[]> {
+  return await db.transaction(async (tx) => {
+    const locked = await lockClass(tx, classId);
+
+    const [entry] = await tx.select()
+      .from(classWaitlist)
+      .where(and(
+        eq(classWaitlist.classInstanceId, classId),
+        eq(classWaitlist.playerId, playerId),
+        inArray(classWaitlist.status, ['waiting', 'notified'])
+      ))
+      .for('update');
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    await tx.update(classWaitlist).set({ status: 'cancelled' }).where(eq(classWaitlist.id, entry.id));
+    if (entry.status !== 'notified') {
+      return [];
+    }
+
+    await closeOffer(tx, entry.id, 'withdrawn', now, { reason: 'Player left the waitlist' });
+    await expireClassOffers(tx, classId, now);
+    return await offerOpenSpots(tx, locked, now);
+  });
+}
+
+async function getWaitlistEntry(entryId: number): Promise<ClassWaitlist> {
+  const [entry] = await db.select().from(classWaitlist).where(eq(classWaitlist.id, entryId));
+  if (!entry) {
+    throw new Error('Waitlist entry not found');
+  }
+  return entry;
+}
+
+/**
+ * Expires every lapsed offer and passes those spots on
+ */
+export async function expireWaitlistOffers(now: Date = new Date()): Promise<{ classes: number, failed: number[] }> {
+  const lapsed = await db.selectDistinct({ classId: classWaitlist.classInstanceId })
+    .from(classWaitlist)
+    .where(and(eq(classWaitlist.status, 'notified'), lte(classWaitlist.expiresAt, now)));
+
+  const failed: number[] = [];
+  for (const { classId } of lapsed) {
+    try {
+      await processClassWaitlist(classId, now);
+    } catch (error) {
+      console.error(`[ClassWaitlist] Failed to process class ${classId}:`, error);
+      failed.push(classId);
+    }
+  }
+
+  return { classes: lapsed.length, failed };
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Checks for lapsed claim windows at a fixed interval
+ */
+export function startClassWaitlistScheduler(intervalMinutes: number = 5): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const run = () => {
+    expireWaitlistOffers()
+      .then(result => {
+        if (result.classes > 0) {
+          console.log(`[ClassWaitlist] Expiry run: ${result.classes} classes, ${result.failed.length} failed`);
+        }
+      })
+      .catch(error => console.error('[ClassWaitlist] Expiry run failed:', error));
+  };
+
+  console.log(`[ClassWaitlist] Starting scheduler (interval: ${intervalMinutes} minutes)`);
+  schedulerTimer = setInterval(run, intervalMinutes * 60 * 1000);
+}
+
+export function stopClassWaitlistScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
+
+/**
+ * A player's open waitlist entries, with the claim deadline of any offer
+ */
+export async function getPlayerWaitlistEntries(playerId: number) {
+  return await db.select({
+    entry: classWaitlist,
+    className: classTemplates.name,
+    skillLevel: classTemplates.skillLevel,
+    startTime: classInstances.startTime,
+    centerId: classInstances.centerId
+  })
+    .from(classWaitlist)
+    .innerJoin(classInstances, eq(classInstances.id, classWaitlist.classInstanceId))
+    .innerJoin(classTemplates, eq(classTemplates.id, classInstances.templateId))
+    .where(and(eq(classWaitlist.playerId, playerId), inArray(classWaitlist.status, ['waiting', 'notified'])))
+    .orderBy(asc(classInstances.startTime));
+}
+
+/**
+ * Whether a user may manage a training center's classes
+ */
+export async function canManageCenter(user: WaitlistUser, centerId: number): Promise<boolean> {
+  if (user.isAdmin) {
+    return true;
+  }
+  const [center] = await db.select({ managerUserId: trainingCenters.managerUserId })
+    .from(trainingCenters)
+    .where(eq(trainingCenters.id, centerId));
+  if (!center) {
+    throw new Error('Training center not found');
+  }
+  return center.managerUserId === user.id;
+}
+
+/**
+ * The waitlist of one class, in queue order, for its center's admins and coach
+ */
+export async function getClassWaitlist(classId: number, user: WaitlistUser): Promise<ClassWaitlist[]> {
+  const [instance] = await db.select().from(classInstances).where(eq(classInstances.id, classId));
+  if (!instance) {
+    throw new Error('Class not found');
+  }
+  if (instance.coachId !== user.id && !await canManageCenter(user, instance.centerId)) {
+    throw new Error('Not allowed to view this waitlist');
+  }
+
+  return await db.select()
+    .from(classWaitlist)
+    .where(eq(classWaitlist.classInstanceId, classId))
+    .orderBy(asc(classWaitlist.position), asc(classWaitlist.id));
+}
+
+/**
+ * The offer log of a training center, newest first
+ */
+export async function listWaitlistOffers(
+  centerId: number,
+  user: WaitlistUser,
+  filters: { classId?: number, outcome?: string, limit?: number } = {}
+): Promise<ClassWaitlistOffer[]> {
+  if (!await canManageCenter(user, centerId)) {
+    throw new Error('Not allowed to view this center\'s waitlist offers');
+  }
+
+  const conditions = [eq(classWaitlistOffers.centerId, centerId)];
+  if (filters.classId) conditions.push(eq(classWaitlistOffers.classInstanceId, filters.classId));
+  if (filters.outcome) conditions.push(eq(classWaitlistOffers.outcome, filters.outcome));
+
+  return await db.select()
+    .from(classWaitlistOffers)
+    .where(and(...conditions))
+    .orderBy(desc(classWaitlistOffers.offeredAt), desc(classWaitlistOffers.id))
+    .limit(filters.limit ?? 100);
+}
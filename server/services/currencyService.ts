@@ -5,12 +5,21 @@
  * Provides real-time exchange rates and currency conversion functionality.
  * 
  * Supported Currencies: USD, SGD, AUD, MYR, CNY
- * Exchange Rate Provider: ExchangeRate-API (free tier)
+ * Exchange Rate Providers: admin-configured sources in priority order, then
+ * ExchangeRate-API (free tier) when none are configured, then the local
+ * fallback rate table. Conversions that move money record the exact rate
+ * used as an FX snapshot.
  * 
  * Version: 1.0.0 - Multi-Currency Support
  * Last Updated: September 22, 2025
  */
 
+import { and, asc, eq } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { db } from '../db';
+import { fxFallbackRates, fxRateSnapshots, fxRateSources, type FxRateSource } from '../../shared/schema';
+import { convertMinor, crossRate, ratesFromPayload, type FxRateQuote } from '../../shared/utils/multiCurrencyWallet';
+
 // Supported currencies configuration
 export const SUPPORTED_CURRENCIES = {
   USD: { code: 'USD', symbol: '$', name: 'US Dollar', flag: '🇺🇸' },
@@ -35,11 +44,27 @@ interface ConversionResult {
   toAmount: number;
   toCurrency: SupportedCurrency;
   rate: number;
+  source: string;
   timestamp: Date;
 }
 
+/**
+ * A conversion in minor units with the snapshot of the rate it used
+ */
+interface SnapshotConversion {
+  snapshotId: number;
+  fromAmountMinor: number;
+  fromCurrency: SupportedCurrency;
+  toAmountMinor: number;
+  toCurrency: SupportedCurrency;
+  rate: number;
+  source: string;
+  sourceKind: FxRateQuote['sourceKind'];
+  rateFetchedAt: Date;
+}
+
 class CurrencyService {
-  private rateCache: Map<string, { rate: number; timestamp: Date }> = new Map();
+  private rateCache: Map<string, { rate: number; timestamp: Date; quote: FxRateQuote }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
   private readonly BASE_API_URL = 'https://api.exchangerate-api.com/v4/latest';
 
@@ -47,46 +72,186 @@ class CurrencyService {
    * Get real-time exchange rate between two currencies
    */
   async getExchangeRate(from: SupportedCurrency, to: SupportedCurrency): Promise<number> {
-    if (from === to) return 1;
+    return (await this.getRateQuote(from, to)).rate;
+  }
+
+  /**
+   * Get the exchange rate between two currencies with the source it came
+   * from: configured sources by priority, the built-in provider when none
+   * are configured, then the fallback table
+   */
+  async getRateQuote(from: SupportedCurrency, to: SupportedCurrency): Promise<FxRateQuote> {
+    if (from === to) {
+      return { from, to, rate: 1, source: 'identity', sourceKind: 'identity', fetchedAt: new Date() };
+    }
 
     const cacheKey = `${from}-${to}`;
     const cached = this.rateCache.get(cacheKey);
 
     // Return cached rate if still valid
     if (cached && Date.now() - cached.timestamp.getTime() < this.CACHE_DURATION) {
-      return cached.rate;
+      return cached.quote;
     }
 
-    try {
-      const response = await fetch(`${this.BASE_API_URL}/${from}`);
-      if (!response.ok) {
-        throw new Error(`Exchange rate API error: ${response.status}`);
+    const sources = await this.loadRateSources();
+    for (const source of sources) {
+      try {
+        const rate = await this.rateFromSource(source, from, to);
+        const quote: FxRateQuote = { from, to, rate, source: source.name, sourceKind: source.kind === 'manual' ? 'manual' : 'provider', fetchedAt: new Date() };
+        this.rateCache.set(cacheKey, { rate, timestamp: quote.fetchedAt, quote });
+        await this.recordSourceResult(source.id, null);
+        console.log(`[CURRENCY] ${source.name}: 1 ${from} = ${rate} ${to}`);
+        return quote;
+      } catch (error) {
+        console.error(`[CURRENCY] Rate source ${source.name} failed for ${from} to ${to}:`, error);
+        await this.recordSourceResult(source.id, error instanceof Error ? error.message : String(error));
       }
+    }
+
+    if (sources.length === 0) {
+      try {
+        const response = await fetch(`${this.BASE_API_URL}/${from}`);
+        if (!response.ok) {
+          throw new Error(`Exchange rate API error: ${response.status}`);
+        }
+
+        const data: ExchangeRateResponse & { rates?: Record<string, number> } = await response.json();
+        const rate = (data.conversion_rates ?? data.rates)?.[to];
 
-      const data: ExchangeRateResponse = await response.json();
-      const rate = data.conversion_rates[to];
+        if (!rate) {
+          throw new Error(`Exchange rate not found for ${from} to ${to}`);
+        }
 
-      if (!rate) {
-        throw new Error(`Exchange rate not found for ${from} to ${to}`);
+        // Cache the rate
+        const quote: FxRateQuote = { from, to, rate, source: 'ExchangeRate-API', sourceKind: 'provider', fetchedAt: new Date() };
+        this.rateCache.set(cacheKey, { rate, timestamp: quote.fetchedAt, quote });
+
+        console.log(`[CURRENCY] Fetched exchange rate: 1 ${from} = ${rate} ${to}`);
+        return quote;
+      } catch (error) {
+        console.error(`[CURRENCY] Failed to fetch exchange rate from ${from} to ${to}:`, error);
       }
+    }
+
+    // Fallback to the local rate table if every source failed
+    const fallback = await this.getFallbackQuote(from, to);
+    if (fallback) {
+      console.log(`[CURRENCY] Using fallback rate: 1 ${from} = ${fallback.rate} ${to}`);
+      return fallback;
+    }
+
+    throw new Error(`Unable to get exchange rate from ${from} to ${to}`);
+  }
 
-      // Cache the rate
-      this.rateCache.set(cacheKey, { rate, timestamp: new Date() });
+  /**
+   * Convert an amount in minor units and record the rate used, so the
+   * conversion can be explained later
+   *
+   * @param writer - Transaction the converted amount is stored in
+   */
+  async convertWithSnapshot(
+    amountMinor: number,
+    from: SupportedCurrency,
+    to: SupportedCurrency,
+    context: { purpose: string; userId?: number },
+    writer: PgDatabase<any, any, any> = db
+  ): Promise<SnapshotConversion> {
+    const quote = await this.getRateQuote(from, to);
+    const toAmountMinor = convertMinor(amountMinor, quote.rate);
 
-      console.log(`[CURRENCY] Fetched exchange rate: 1 ${from} = ${rate} ${to}`);
-      return rate;
+    const [snapshot] = await writer.insert(fxRateSnapshots)
+      .values({
+        baseCurrency: from,
+        quoteCurrency: to,
+        rate: quote.rate.toFixed(8),
+        source: quote.source,
+        sourceKind: quote.sourceKind,
+        rateFetchedAt: quote.fetchedAt,
+        purpose: context.purpose,
+        userId: context.userId ?? null,
+        amountMinor,
+        convertedMinor: toAmountMinor
+      })
+      .returning({ id: fxRateSnapshots.id });
+
+    return {
+      snapshotId: snapshot.id,
+      fromAmountMinor: amountMinor,
+      fromCurrency: from,
+      toAmountMinor,
+      toCurrency: to,
+      rate: quote.rate,
+      source: quote.source,
+      sourceKind: quote.sourceKind,
+      rateFetchedAt: quote.fetchedAt
+    };
+  }
+
+  /**
+   * Enabled rate sources, lowest priority number first
+   */
+  private async loadRateSources(): Promise<FxRateSource[]> {
+    try {
+      return await db.select()
+        .from(fxRateSources)
+        .where(eq(fxRateSources.enabled, true))
+        .orderBy(asc(fxRateSources.priority), asc(fxRateSources.id));
     } catch (error) {
-      console.error(`[CURRENCY] Failed to fetch exchange rate from ${from} to ${to}:`, error);
-      
-      // Fallback to approximate rates if API fails
-      const fallbackRates = this.getFallbackRates(from, to);
-      if (fallbackRates) {
-        console.log(`[CURRENCY] Using fallback rate: 1 ${from} = ${fallbackRates} ${to}`);
-        return fallbackRates;
+      console.error('[CURRENCY] Failed to load rate sources:', error);
+      return [];
+    }
+  }
+
+  private async rateFromSource(source: FxRateSource, from: SupportedCurrency, to: SupportedCurrency): Promise<number> {
+    let rate: number | null;
+    if (source.kind === 'manual') {
+      rate = crossRate(source.manualRates ?? {}, from, to);
+    } else {
+      if (!source.url) {
+        throw new Error('Rate source has no URL');
+      }
+      const response = await fetch(source.url.replace('{base}', from));
+      if (!response.ok) {
+        throw new Error(`Exchange rate API error: ${response.status}`);
       }
-      
-      throw new Error(`Unable to get exchange rate from ${from} to ${to}`);
+      rate = ratesFromPayload(await response.json(), source.ratesPath || 'rates')[to] ?? null;
     }
+
+    if (!rate) {
+      throw new Error(`Exchange rate not found for ${from} to ${to}`);
+    }
+    return rate;
+  }
+
+  private async recordSourceResult(sourceId: number, error: string | null): Promise<void> {
+    try {
+      await db.update(fxRateSources)
+        .set(error ? { lastError: error.slice(0, 1000) } : { lastFetchedAt: new Date(), lastError: null })
+        .where(eq(fxRateSources.id, sourceId));
+    } catch (updateError) {
+      console.error('[CURRENCY] Failed to record rate source result:', updateError);
+    }
+  }
+
+  /**
+   * Rate from the local fallback table, or the built-in approximate rates
+   * when the table has no row for the pair
+   */
+  private async getFallbackQuote(from: SupportedCurrency, to: SupportedCurrency): Promise<FxRateQuote | null> {
+    try {
+      const [row] = await db.select()
+        .from(fxFallbackRates)
+        .where(and(eq(fxFallbackRates.baseCurrency, from), eq(fxFallbackRates.quoteCurrency, to)))
+        .limit(1);
+      if (row) {
+        return { from, to, rate: Number(row.rate), source: 'fallback table', sourceKind: 'fallback', fetchedAt: row.updatedAt ?? new Date() };
+      }
+    } catch (error) {
+      console.error('[CURRENCY] Failed to read fallback rates:', error);
+    }
+
+    const rate = this.getFallbackRates(from, to);
+    return rate ? { from, to, rate, source: 'built-in rates', sourceKind: 'fallback', fetchedAt: new Date() } : null;
   }
 
   /**
@@ -97,7 +262,7 @@ class CurrencyService {
     from: SupportedCurrency,
     to: SupportedCurrency
   ): Promise<ConversionResult> {
-    const rate = await this.getExchangeRate(from, to);
+    const { rate, source } = await this.getRateQuote(from, to);
     const convertedAmount = Math.round(amount * rate);
 
     return {
@@ -106,6 +271,7 @@ class CurrencyService {
       toAmount: convertedAmount,
       toCurrency: to,
       rate,
+      source,
       timestamp: new Date()
     };
   }
@@ -221,4 +387,4 @@ class CurrencyService {
 export const currencyService = new CurrencyService();
 
 // Export types for use in other modules
-export type { ConversionResult };
\ No newline at end of file
+export type { ConversionResult, SnapshotConversion };
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * Decay Policy Service
+ *
+ * Manages admin-defined ranking points decay policies and resolves the
+ * policy that applies to a player from their region and age division.
+ * Players without a matching policy use the built-in default.
+ */
+
+import { db } from "../db";
+import { desc, eq } from "drizzle-orm";
+import { users, decayPolicies, type DecayPolicyRecord } from "../../shared/schema";
+import {
+  decayPolicyDefinitionSchema,
+  DEFAULT_DECAY_POLICY,
+  type DecayPolicy,
+  type DecayPolicyDefinition
+} from "../../shared/utils/decayPolicyEngine";
+import { getAgeGroupAt } from "../../shared/utils/pointsRuleEngine";
+
+/**
+ * How long the list of active policies is cached
+ */
+const ACTIVE_POLICIES_CACHE_MS = 60 * 1000;
+
+let activePoliciesCache: { loadedAt: number, policies: DecayPolicyRecord[] } | null = null;
+
+/**
+ * What a policy is matched on
+ */
+export interface DecayPolicyTarget {
+  region: string | null;
+  division: string | null;
+}
+
+/**
+ * Convert a stored policy to the engine's policy shape
+ */
+function toPolicy(record: DecayPolicyRecord): DecayPolicy {
+  return {
+    id: record.id,
+    name: record.name,
+    region: record.region,
+    division: record.division,
+    rules: record.rules
+  };
+}
+
+/**
+ * Drop the cached active policies (after any change)
+ */
+export function invalidateDecayPolicyCache(): void {
+  activePoliciesCache = null;
+}
+
+/**
+ * Load all active policies
+ */
+export async function getActiveDecayPolicies(): Promise<DecayPolicyRecord[]> {
+  if (activePoliciesCache && Date.now() - activePoliciesCache.loadedAt < ACTIVE_POLICIES_CACHE_MS) {
+    return activePoliciesCache.policies;
+  }
+
+  const policies = await db.select()
+    .from(decayPolicies)
+    .where(eq(decayPolicies.isActive, true))
+    .orderBy(desc(decayPolicies.id));
+
+  activePoliciesCache = { loadedAt: Date.now(), policies };
+  return policies;
+}
+
+/**
+ * Age division a player's decay policy is matched on
+ */
+export function getDecayDivision(dateOfBirth: string | null, at: Date = new Date()): string | null {
+  return dateOfBirth ? getAgeGroupAt(dateOfBirth, at) : null;
+}
+
+/**
+ * Pick the most specific policy for a player: region and division, then
+ * region only, then division only, then a global policy. Among equally
+ * specific policies the newest wins.
+ */
+export function resolveDecayPolicy(policies: DecayPolicyRecord[], target: DecayPolicyTarget): DecayPolicy {
+  let best: DecayPolicyRecord | null = null;
+  let bestScore = -1;
+
+  for (const policy of policies) {
+    if (policy.region && policy.region !== target.region) continue;
+    if (policy.division && policy.division !== target.division) continue;
+
+    const score = (policy.region ? 2 : 0) + (policy.division ? 1 : 0);
+    if (score > bestScore || (score === bestScore && best && policy.id > best.id)) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+
+  return best ? toPolicy(best) : DEFAULT_DECAY_POLICY;
+}
+
+/**
+ * Get the decay policy for a region and division.
+ * Falls back to the built-in policy when the policies cannot be loaded.
+ */
+export async function getDecayPolicyFor(target: DecayPolicyTarget): Promise<DecayPolicy> {
+  try {
+    return resolveDecayPolicy(await getActiveDecayPolicies(), target);
+  } catch (error) {
+    console.error("[DecayPolicies] Could not load decay policies, using built-in policy:", error);
+    return DEFAULT_DECAY_POLICY;
+  }
+}
+
+/**
+ * List all policies, newest first
+ */
+export async function listDecayPolicies(): Promise<DecayPolicyRecord[]> {
+  return db.select().from(decayPolicies).orderBy(desc(decayPolicies.id));
+}
+
+/**
+ * Load a policy or throw
+ */
+async function getPolicyOrThrow(id: number): Promise<DecayPolicyRecord> {
+  const [policy] = await db.select()
+    .from(decayPolicies)
+    .where(eq(decayPolicies.id, id))
+    .limit(1);
+
+  if (!policy) {
+    throw new Error(`Decay policy with ID ${id} not found`);
+  }
+
+  return policy;
+}
+
+/**
+ * Create a policy
+ */
+export async function createDecayPolicy(
+  data: {
+    name: string,
+    region?: string | null,
+    division?: string | null,
+    rules: DecayPolicyDefinition,
+    isActive?: boolean,
+    notes?: string | null
+  },
+  createdById?: number
+): Promise<DecayPolicyRecord> {
+  const rules = decayPolicyDefinitionSchema.parse(data.rules);
+
+  const [policy] = await db.insert(decayPolicies).values({
+    name: data.name,
+    region: data.region || null,
+    division: data.division || null,
+    rules,
+    isActive: data.isActive ?? true,
+    notes: data.notes || null,
+    createdById: createdById || null,
+    updatedById: createdById || null
+  }).returning();
+
+  invalidateDecayPolicyCache();
+  console.log(`[DecayPolicies] Created decay policy ${policy.id} "${policy.name}" (region ${policy.region || 'any'}, division ${policy.division || 'any'})`);
+  return policy;
+}
+
+/**
+ * Update a policy; changes apply from the next decay run
+ */
+export async function updateDecayPolicy(
+  id: number,
+  data: {
+    name?: string,
+    region?: string | null,
+    division?: string | null,
+    rules?: DecayPolicyDefinition,
+    isActive?: boolean,
+    notes?: string | null
+  },
+  updatedById?: number
+): Promise<DecayPolicyRecord> {
+  await getPolicyOrThrow(id);
+
+  const [updated] = await db.update(decayPolicies)
+    .set({
+      ...(data.name !== undefined ? { name: data.name } : {}),
+      ...(data.region !== undefined ? { region: data.region || null } : {}),
+      ...(data.division !== undefined ? { division: data.division || null } : {}),
+      ...(data.rules !== undefined ? { rules: decayPolicyDefinitionSchema.parse(data.rules) } : {}),
+      ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      ...(data.notes !== undefined ? { notes: data.notes } : {}),
+      updatedById: updatedById || null,
+      updatedAt: new Date()
+    })
+    .where(eq(decayPolicies.id, id))
+    .returning();
+
+  invalidateDecayPolicyCache();
+  return updated;
+}
+
+/**
+ * Assign the region a player's decay policy is matched on
+ */
+export async function setPlayerRegion(userId: number, region: string | null): Promise<{ id: number, region: string | null }> {
+  const [user] = await db.update(users)
+    .set({ region: region || null })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id, region: users.region });
+
+  if (!user) {
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  return user;
+}
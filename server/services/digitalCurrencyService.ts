@@ -39,7 +39,12 @@ import {
   type GiftCardValidation
 } from "../../shared/utils/digitalCurrencyValidation";
 
+import { splitTopUpCredits } from "../../shared/utils/ledgerAccounting";
+import { nativeCreditsFor } from "../../shared/utils/multiCurrencyWallet";
+
 import { currencyService, SUPPORTED_CURRENCIES, type SupportedCurrency } from './currencyService';
+import { postLedgerEntry } from './ledger-service';
+import { creditCurrencyPocket } from './wallet-currency-service';
 
 const connectionString = process.env.DATABASE_URL;
 if (!connectionString) {
@@ -134,10 +139,19 @@ export class DigitalCurrencyService {
   }> {
     try {
       const account = await this.getOrCreateAccount(request.userId);
-      
+      const currency = request.currency ?? 'USD';
+
+      // Payments in another currency are credited at their USD value; the
+      // rate used is kept with the transaction
+      const conversion = currency === 'USD'
+        ? null
+        : await currencyService.convertWithSnapshot(request.amount, currency, 'USD', { purpose: 'top_up', userId: request.userId });
+      const paidCents = conversion ? conversion.toAmountMinor : request.amount;
+
       // Calculate bonus credits
-      const bonusCalculation = digitalCurrencyUDF.calculateTopUpBonus(request.amount);
+      const bonusCalculation = digitalCurrencyUDF.calculateTopUpBonus(paidCents);
       const totalCredits = bonusCalculation.totalCredits;
+      const nativeAmount = nativeCreditsFor(request.amount, paidCents, totalCredits);
       
       // UDF VALIDATION: Validate the main credit transaction
       const creditValidation: CreditTransactionValidation = {
@@ -194,9 +208,12 @@ export class DigitalCurrencyService {
         referenceType: 'wise_payment',
         wiseTransactionId: request.wiseTransactionId,
         wiseTransferState: 'completed',
-        description: `Credit top-up: $${(request.amount / 100).toFixed(2)} + bonus $${(bonusCalculation.bonusAmount / 100).toFixed(2)}`,
+        description: `Credit top-up: $${(paidCents / 100).toFixed(2)} + bonus $${(bonusCalculation.bonusAmount / 100).toFixed(2)}`,
         balanceAfter: newBalance,
-        picklePointsAwarded: pointsValidation.pointsAwarded
+        picklePointsAwarded: pointsValidation.pointsAwarded,
+        currency,
+        nativeAmount: conversion ? nativeAmount : null,
+        fxSnapshotId: conversion?.snapshotId ?? null
       };
 
       const transaction = await db.transaction(async (tx) => {
@@ -215,6 +232,19 @@ export class DigitalCurrencyService {
           })
           .where(eq(digitalCreditsAccounts.userId, request.userId));
 
+        await creditCurrencyPocket(tx, request.userId, currency, nativeAmount, totalCredits);
+
+        await postLedgerEntry(
+          { kind: 'wallet_top_up', userId: request.userId, paidCents, bonusCents: bonusCalculation.bonusAmount },
+          {
+            key: `digital_credits_transaction:${createdTransaction[0].id}`,
+            referenceType: 'digital_credits_transaction',
+            referenceId: createdTransaction[0].id,
+            description: transactionData.description ?? undefined
+          },
+          tx
+        );
+
         return createdTransaction[0];
       });
 
@@ -289,10 +319,20 @@ export class DigitalCurrencyService {
         wiseTransactionId: request.wiseTransactionId
       };
 
-      const giftCard = await db
-        .insert(digitalGiftCards)
-        .values(giftCardData)
-        .returning();
+      const giftCard = await db.transaction(async (tx) => {
+        const created = await tx
+          .insert(digitalGiftCards)
+          .values(giftCardData)
+          .returning();
+
+        await postLedgerEntry(
+          { kind: 'gift_card_sale', amountCents: request.amount },
+          { key: `gift_card:${created[0].id}:sale`, referenceType: 'gift_card', referenceId: created[0].id, description: 'Gift card sold' },
+          tx
+        );
+
+        return created;
+      });
 
       return {
         success: true,
@@ -411,9 +451,10 @@ export class DigitalCurrencyService {
           picklePointsAwarded: 0 // No points for gift card redemption
         };
 
-        await tx
+        const redemption = await tx
           .insert(digitalCreditsTransactions)
-          .values(transactionData);
+          .values(transactionData)
+          .returning({ id: digitalCreditsTransactions.id });
 
         // Update user account additively
         await tx
@@ -424,6 +465,17 @@ export class DigitalCurrencyService {
           })
           .where(eq(digitalCreditsAccounts.userId, request.userId));
 
+        await postLedgerEntry(
+          { kind: 'gift_card_redemption', userId: request.userId, amountCents: redemptionAmount },
+          {
+            key: `digital_credits_transaction:${redemption[0].id}`,
+            referenceType: 'digital_credits_transaction',
+            referenceId: redemption[0].id,
+            description: transactionData.description ?? undefined
+          },
+          tx
+        );
+
         return {
           creditsAdded: redemptionAmount,
           remainingBalance: newGiftCardBalance
@@ -525,9 +577,12 @@ export class DigitalCurrencyService {
    */
   async createPendingTopUp(request: {
     userId: number;
-    amount: number;
+    amount: number; // USD cents
     customerEmail: string;
     description: string;
+    currency?: SupportedCurrency; // Currency the customer pays in
+    nativeAmount?: number; // Payment in that currency's minor units
+    fxSnapshotId?: number; // Rate snapshot the USD amount was converted at
   }): Promise<{
     success: boolean;
     transactionId: string;
@@ -542,6 +597,8 @@ export class DigitalCurrencyService {
       // Calculate bonus and points (for display, not credited yet)
       const bonusCalculation = digitalCurrencyUDF.calculateTopUpBonus(request.amount);
       const totalCredits = bonusCalculation.totalCredits;
+      const currency = request.currency ?? 'USD';
+      const nativePaid = currency === 'USD' ? request.amount : request.nativeAmount ?? request.amount;
       
       const pointsCalculation: PicklePointsCalculation = {
         creditsAmount: totalCredits,
@@ -552,8 +609,8 @@ export class DigitalCurrencyService {
 
       // Simulate Wise payment initiation
       const wisePayment = await this.processWisePayment({
-        amount: request.amount,
-        currency: 'USD',
+        amount: nativePaid,
+        currency,
         userId: request.userId,
         customerEmail: request.customerEmail,
         description: request.description
@@ -569,7 +626,10 @@ export class DigitalCurrencyService {
         wiseTransferState: 'pending',
         description: `${request.description} (pending confirmation)`,
         balanceAfter: account.balance, // Balance unchanged until confirmed
-        picklePointsAwarded: 0 // Points not awarded until confirmed
+        picklePointsAwarded: 0, // Points not awarded until confirmed
+        currency,
+        nativeAmount: currency === 'USD' ? null : nativeCreditsFor(nativePaid, request.amount, totalCredits),
+        fxSnapshotId: request.fxSnapshotId ?? null
       };
 
       const pendingTransaction = await db
@@ -702,6 +762,10 @@ export class DigitalCurrencyService {
           })
           .where(eq(digitalCreditsAccounts.userId, userId));
 
+        if (transaction.nativeAmount !== null) {
+          await creditCurrencyPocket(tx, userId, transaction.currency, transaction.nativeAmount, amount);
+        }
+
         // Update transaction status
         await tx
           .update(digitalCreditsTransactions)
@@ -713,6 +777,17 @@ export class DigitalCurrencyService {
           })
           .where(eq(digitalCreditsTransactions.id, transactionId));
 
+        await postLedgerEntry(
+          { kind: 'wallet_top_up', userId, ...splitTopUpCredits(amount) },
+          {
+            key: `digital_credits_transaction:${transactionId}`,
+            referenceType: 'digital_credits_transaction',
+            referenceId: transactionId,
+            description: `Top-up confirmed by Wise (${wiseTransactionId})`
+          },
+          tx
+        );
+
         console.log(`[WEBHOOK HANDLER] Transaction ${transactionId} completed successfully:`, {
           userId,
           amount,
@@ -0,0 +1,133 @@
+/**
+ * FX Rate Service
+ *
+ * Admin management of the exchange rate sources the currency service asks
+ * in priority order, the local fallback rate table, and the rate snapshots
+ * recorded with conversions. The currency service's rate cache is cleared
+ * whenever a source or fallback rate changes.
+ */
+
+import { db } from "../db";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  fxFallbackRates,
+  fxRateSnapshots,
+  fxRateSources,
+  type FxFallbackRate,
+  type FxRateSnapshot,
+  type FxRateSource,
+  type InsertFxRateSource
+} from "../../shared/schema";
+import { currencyService } from "./currencyService";
+
+export type FxRateSourceInput = Pick<InsertFxRateSource, 'name' | 'kind' | 'url' | 'ratesPath' | 'manualRates' | 'priority' | 'enabled'>;
+
+/**
+ * Check that a source has what its kind needs
+ */
+function assertSourceConfig(source: Partial<FxRateSourceInput>): void {
+  if (source.kind === 'http_json' && !source.url) {
+    throw new Error('An http_json rate source needs a URL');
+  }
+  if (source.kind === 'manual' && (!source.manualRates || Object.keys(source.manualRates).length === 0)) {
+    throw new Error('A manual rate source needs rates');
+  }
+}
+
+export async function listRateSources(): Promise<FxRateSource[]> {
+  return db.select()
+    .from(fxRateSources)
+    .orderBy(fxRateSources.priority, fxRateSources.id);
+}
+
+export async function createRateSource(input: FxRateSourceInput, createdById: number): Promise<FxRateSource> {
+  assertSourceConfig(input);
+
+  const [existing] = await db.select({ id: fxRateSources.id })
+    .from(fxRateSources)
+    .where(eq(fxRateSources.name, input.name))
+    .limit(1);
+  if (existing) {
+    throw new Error(`A rate source named ${input.name} already exists`);
+  }
+
+  const [source] = await db.insert(fxRateSources)
+    .values({ ...input, createdById })
+    .returning();
+
+  currencyService.clearCache();
+  console.log(`[FX] Rate source ${source.name} (${source.kind}) added at priority ${source.priority}`);
+  return source;
+}
+
+export async function updateRateSource(id: number, changes: Partial<FxRateSourceInput>): Promise<FxRateSource> {
+  const [current] = await db.select().from(fxRateSources).where(eq(fxRateSources.id, id)).limit(1);
+  if (!current) {
+    throw new Error('Rate source not found');
+  }
+  assertSourceConfig({ ...current, ...changes } as Partial<FxRateSourceInput>);
+
+  const [source] = await db.update(fxRateSources)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(fxRateSources.id, id))
+    .returning();
+
+  currencyService.clearCache();
+  return source;
+}
+
+export async function listFallbackRates(): Promise<FxFallbackRate[]> {
+  return db.select()
+    .from(fxFallbackRates)
+    .orderBy(fxFallbackRates.baseCurrency, fxFallbackRates.quoteCurrency);
+}
+
+/**
+ * Set the fallback rate of a currency pair
+ */
+export async function setFallbackRate(
+  baseCurrency: string,
+  quoteCurrency: string,
+  rate: number,
+  updatedById: number
+): Promise<FxFallbackRate> {
+  if (baseCurrency === quoteCurrency) {
+    throw new Error('A fallback rate needs two different currencies');
+  }
+
+  const [row] = await db.insert(fxFallbackRates)
+    .values({ baseCurrency, quoteCurrency, rate: rate.toFixed(8), updatedById })
+    .onConflictDoUpdate({
+      target: [fxFallbackRates.baseCurrency, fxFallbackRates.quoteCurrency],
+      set: { rate: rate.toFixed(8), updatedById, updatedAt: new Date() }
+    })
+    .returning();
+
+  currencyService.clearCache();
+  return row;
+}
+
+export async function listRateSnapshots(options: { userId?: number, limit?: number } = {}): Promise<FxRateSnapshot[]> {
+  return db.select()
+    .from(fxRateSnapshots)
+    .where(options.userId ? eq(fxRateSnapshots.userId, options.userId) : undefined)
+    .orderBy(desc(fxRateSnapshots.createdAt))
+    .limit(options.limit ?? 100);
+}
+
+/**
+ * Snapshots by id, for showing the rate behind stored conversions
+ */
+export async function getRateSnapshots(ids: number[], userId?: number): Promise<Map<number, FxRateSnapshot>> {
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db.select()
+    .from(fxRateSnapshots)
+    .where(and(
+      inArray(fxRateSnapshots.id, ids),
+      userId ? eq(fxRateSnapshots.userId, userId) : undefined
+    ));
+  return new Map(rows.map(row => [row.id, row]));
+}
@@ -26,6 +26,7 @@ import {
   CreditTransactionType,
   generateGiftCardCode
 } from '../../shared/utils/digitalCurrencyValidation';
+import { postLedgerEntry } from './ledger-service';
 
 interface GiftCardPurchaseRequest {
   amount: number;
@@ -262,6 +263,17 @@ class GiftCardService {
           .values(redemptionTransactionData)
           .returning();
 
+        await postLedgerEntry(
+          { kind: 'gift_card_redemption', userId: redeemerUserId, amountCents: redemptionAmount },
+          {
+            key: `digital_credits_transaction:${redemptionTransaction[0].id}`,
+            referenceType: 'digital_credits_transaction',
+            referenceId: redemptionTransaction[0].id,
+            description: redemptionTransactionData.description ?? undefined
+          },
+          tx
+        );
+
         console.log('[GIFT CARD] Redemption completed:', {
           giftCardId: card.id,
           giftCardCode: giftCardCode.substring(0, 8) + '****', // Masked for security
@@ -414,6 +426,12 @@ class GiftCardService {
           return { success: false };
         }
 
+        await postLedgerEntry(
+          { kind: 'gift_card_sale', amountCents: giftCard[0].amount },
+          { key: `gift_card:${giftCardId}:sale`, referenceType: 'gift_card', referenceId: giftCardId, description: 'Gift card sold' },
+          tx
+        );
+
         console.log('[GIFT CARD] Purchase completed:', {
           giftCardId,
           giftCardCode: giftCardCode.substring(0, 8) + '****', // Masked in logs
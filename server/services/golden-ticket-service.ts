@@ -0,0 +1,610 @@
+/**
+ * Golden Ticket Service
+ *
+ * Decides on the server whether a golden ticket appears, from a committed
+ * seed per ticket so every draw can be verified once the seed is revealed,
+ * and records each draw. Claims must come from a draw that showed the ticket
+ * to the player; they are counted under a lock on the ticket so maxClaims and
+ * the per-user and per-device limits hold under concurrent claims. Device and
+ * IP hashes shared between accounts are flagged for review, and each campaign
+ * has an audit log a sponsor can export and check.
+ */
+
+import { db } from "../db";
+import { and, asc, count, desc, eq, gt, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  goldenTickets,
+  goldenTicketClaims,
+  goldenTicketSeeds,
+  goldenTicketDraws,
+  goldenTicketAuditEvents,
+  type GoldenTicket,
+  type GoldenTicketClaim,
+  type GoldenTicketSeed
+} from "../../shared/golden-ticket.schema";
+import {
+  DRAW_SCALE,
+  appearanceThreshold,
+  checkClaimLimits,
+  claimRiskFlags,
+  createServerSeed,
+  findSharedClaimSignals,
+  hashClaimSignal,
+  hashServerSeed,
+  playerReference,
+  rollDraw,
+  verifyDrawLog,
+  type ClaimSignalRow,
+  type DrawOutcome,
+  type DrawVerification,
+  type SharedSignalCluster
+} from "../../shared/utils/goldenTicketFairness";
+
+type GoldenTicketWriter = PgDatabase<any, any, any>;
+
+// One draw per account or device a minute, whatever the client does
+const DRAW_COOLDOWN_MS = 60 * 1000;
+
+// How long a ticket that appeared can be claimed
+const CLAIM_WINDOW_MS = 15 * 60 * 1000;
+
+// Audit events written on behalf of a player or a sponsor rather than an admin
+const PLAYER_EVENTS = ['claim_created', 'claim_rejected'];
+const SPONSOR_EVENTS = ['campaign_submitted'];
+
+export interface DrawContext {
+  deviceId: string;
+  ip: string | null;
+  page?: string;
+}
+
+export type GoldenTicketDrawResult =
+  | { result: 'show-ticket', ticketId: number, drawId: number, claimBy: Date }
+  | { result: 'no-ticket' }
+  | { result: 'cooldown', retryAfterSeconds: number };
+
+export interface ClaimRequest {
+  drawId: number;
+  deviceId: string;
+  ip: string | null;
+  shippingAddress?: string;
+}
+
+export interface GoldenTicketAuditLog {
+  campaignId: string;
+  generatedAt: Date;
+  algorithm: {
+    commitment: string;
+    roll: string;
+    appearance: string;
+    scale: number;
+  };
+  tickets: {
+    id: number;
+    title: string;
+    sponsorId: number | null;
+    status: string;
+    appearanceRate: number;
+    threshold: number;
+    maxAppearances: number;
+    currentAppearances: number;
+    maxClaims: number;
+    currentClaims: number;
+    perUserClaimLimit: number;
+    perDeviceClaimLimit: number;
+    startDate: Date;
+    endDate: Date;
+  }[];
+  seeds: {
+    id: number;
+    ticketId: number;
+    seedHash: string;
+    serverSeed: string | null;
+    drawCount: number;
+    status: string;
+    committedAt: Date;
+    revealedAt: Date | null;
+  }[];
+  draws: {
+    id: number;
+    ticketId: number;
+    seedId: number;
+    nonce: number;
+    playerRef: string;
+    roll: number;
+    threshold: number;
+    outcome: DrawOutcome;
+    drawnAt: Date;
+  }[];
+  claims: {
+    id: number;
+    ticketId: number;
+    drawId: number | null;
+    playerRef: string | null;
+    status: string;
+    riskFlags: string[];
+    claimedAt: Date;
+  }[];
+  events: {
+    id: number;
+    ticketId: number;
+    eventType: string;
+    actor: 'system' | 'player' | 'sponsor' | 'admin';
+    details: Record<string, unknown>;
+    createdAt: Date;
+  }[];
+  verification: DrawVerification;
+}
+
+/**
+ * Appends an event to the campaign's audit log
+ */
+export async function recordGoldenTicketAuditEvent(
+  writer: GoldenTicketWriter,
+  ticket: Pick<GoldenTicket, 'id' | 'campaignId'>,
+  eventType: string,
+  actorId: number | null,
+  details: Record<string, unknown>
+): Promise<void> {
+  await writer.insert(goldenTicketAuditEvents).values({
+    campaignId: ticket.campaignId,
+    ticketId: ticket.id,
+    eventType,
+    actorId,
+    details
+  });
+}
+
+/**
+ * The ticket's active seed, locked; a new one is committed when there is none
+ */
+async function lockActiveSeed(writer: GoldenTicketWriter, ticket: GoldenTicket, actorId: number | null): Promise<GoldenTicketSeed> {
+  const activeSeed = () => writer.select().from(goldenTicketSeeds)
+    .where(and(eq(goldenTicketSeeds.ticketId, ticket.id), eq(goldenTicketSeeds.status, 'active')))
+    .for('update');
+
+  const [existing] = await activeSeed();
+  if (existing) {
+    return existing;
+  }
+
+  const serverSeed = createServerSeed();
+  const [created] = await writer.insert(goldenTicketSeeds)
+    .values({ ticketId: ticket.id, serverSeed, seedHash: hashServerSeed(serverSeed) })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    // A concurrent draw committed a seed first
+    const [committed] = await activeSeed();
+    return committed;
+  }
+
+  await recordGoldenTicketAuditEvent(writer, ticket, 'seed_committed', actorId, { seedId: created.id, seedHash: created.seedHash });
+  console.log(`[GoldenTicket] Committed seed ${created.id} for ticket ${ticket.id}`);
+  return created;
+}
+
+function appearsOn(ticket: GoldenTicket, page: string | undefined): boolean {
+  if (!ticket.pagesToAppearOn?.length) {
+    return true;
+  }
+  return page !== undefined && ticket.pagesToAppearOn.includes(page);
+}
+
+/**
+ * One seeded draw for a ticket. The seed row stays locked until the draw is
+ * recorded, so nonces are handed out in order without gaps.
+ */
+async function drawForTicket(
+  tx: GoldenTicketWriter,
+  ticket: GoldenTicket,
+  userId: number,
+  signals: { deviceHash: string, ipHash: string | null, page?: string }
+) {
+  const seed = await lockActiveSeed(tx, ticket, null);
+  const nonce = seed.drawCount + 1;
+  await tx.update(goldenTicketSeeds).set({ drawCount: nonce }).where(eq(goldenTicketSeeds.id, seed.id));
+
+  const playerRef = playerReference(seed.seedHash, userId);
+  const roll = rollDraw(seed.serverSeed, ticket.id, playerRef, nonce);
+  const threshold = appearanceThreshold(ticket.appearanceRate);
+
+  let outcome: DrawOutcome = 'miss';
+  if (roll < threshold) {
+    const shown = await tx.update(goldenTickets)
+      .set({ currentAppearances: sql`${goldenTickets.currentAppearances} + 1` })
+      .where(and(eq(goldenTickets.id, ticket.id), sql`${goldenTickets.currentAppearances} < ${goldenTickets.maxAppearances}`))
+      .returning({ id: goldenTickets.id });
+    outcome = shown.length > 0 ? 'shown' : 'capped';
+  }
+
+  const [draw] = await tx.insert(goldenTicketDraws).values({
+    ticketId: ticket.id,
+    seedId: seed.id,
+    nonce,
+    userId,
+    playerRef,
+    roll,
+    threshold,
+    outcome,
+    deviceHash: signals.deviceHash,
+    ipHash: signals.ipHash,
+    page: signals.page ?? null
+  }).returning();
+
+  return draw;
+}
+
+/**
+ * Whether a golden ticket appears for the player right now. A ticket that
+ * appeared and is still waiting to be claimed is returned again rather than
+ * drawing a new one.
+ */
+export async function drawGoldenTicket(userId: number, context: DrawContext, now: Date = new Date()): Promise<GoldenTicketDrawResult> {
+  const deviceHash = hashClaimSignal(context.deviceId);
+  const ipHash = context.ip ? hashClaimSignal(context.ip) : null;
+
+  const [open] = await db.select({ id: goldenTicketDraws.id, ticketId: goldenTicketDraws.ticketId, drawnAt: goldenTicketDraws.drawnAt })
+    .from(goldenTicketDraws)
+    .innerJoin(goldenTickets, eq(goldenTickets.id, goldenTicketDraws.ticketId))
+    .leftJoin(goldenTicketClaims, eq(goldenTicketClaims.drawId, goldenTicketDraws.id))
+    .where(and(
+      eq(goldenTicketDraws.userId, userId),
+      eq(goldenTicketDraws.outcome, 'shown'),
+      gt(goldenTicketDraws.drawnAt, new Date(now.getTime() - CLAIM_WINDOW_MS)),
+      eq(goldenTickets.status, 'active'),
+      isNull(goldenTicketClaims.id)
+    ))
+    .orderBy(desc(goldenTicketDraws.drawnAt))
+    .limit(1);
+
+  if (open) {
+    return { result: 'show-ticket', ticketId: open.ticketId, drawId: open.id, claimBy: new Date(open.drawnAt.getTime() + CLAIM_WINDOW_MS) };
+  }
+
+  const [recent] = await db.select({ drawnAt: goldenTicketDraws.drawnAt })
+    .from(goldenTicketDraws)
+    .where(and(
+      gt(goldenTicketDraws.drawnAt, new Date(now.getTime() - DRAW_COOLDOWN_MS)),
+      or(eq(goldenTicketDraws.userId, userId), eq(goldenTicketDraws.deviceHash, deviceHash))
+    ))
+    .orderBy(desc(goldenTicketDraws.drawnAt))
+    .limit(1);
+
+  if (recent) {
+    const retryAfterMs = recent.drawnAt.getTime() + DRAW_COOLDOWN_MS - now.getTime();
+    return { result: 'cooldown', retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+  }
+
+  const candidates = await db.select().from(goldenTickets)
+    .where(and(
+      eq(goldenTickets.status, 'active'),
+      sql`${goldenTickets.startDate} <= ${now}`,
+      gt(goldenTickets.endDate, now),
+      sql`${goldenTickets.currentAppearances} < ${goldenTickets.maxAppearances}`,
+      sql`${goldenTickets.currentClaims} < ${goldenTickets.maxClaims}`
+    ))
+    .orderBy(asc(goldenTickets.id));
+
+  const userClaims = await db.select({ ticketId: goldenTicketClaims.ticketId, claims: count() })
+    .from(goldenTicketClaims)
+    .where(and(eq(goldenTicketClaims.userId, userId), ne(goldenTicketClaims.status, 'rejected')))
+    .groupBy(goldenTicketClaims.ticketId);
+  const claimsByTicket = new Map(userClaims.map(row => [row.ticketId, Number(row.claims)]));
+
+  const tickets = candidates.filter(ticket =>
+    appearsOn(ticket, context.page) && (claimsByTicket.get(ticket.id) ?? 0) < ticket.perUserClaimLimit
+  );
+
+  for (const ticket of tickets) {
+    const draw = await db.transaction(tx => drawForTicket(tx, ticket, userId, { deviceHash, ipHash, page: context.page }));
+    if (draw.outcome === 'shown') {
+      console.log(`[GoldenTicket] Ticket ${ticket.id} shown to user ${userId} (draw ${draw.id})`);
+      return { result: 'show-ticket', ticketId: ticket.id, drawId: draw.id, claimBy: new Date(draw.drawnAt.getTime() + CLAIM_WINDOW_MS) };
+    }
+  }
+
+  return { result: 'no-ticket' };
+}
+
+/**
+ * Claims a ticket that appeared for the player. Refused claims are written
+ * to the campaign's audit log before the error is thrown.
+ */
+export async function claimGoldenTicket(
+  userId: number,
+  ticketId: number,
+  request: ClaimRequest,
+  now: Date = new Date()
+): Promise<GoldenTicketClaim> {
+  const deviceHash = hashClaimSignal(request.deviceId);
+  const ipHash = request.ip ? hashClaimSignal(request.ip) : null;
+
+  const outcome = await db.transaction(async (tx): Promise<{ rejected: string[] } | { claim: GoldenTicketClaim }> => {
+    // Claims of a ticket queue up here, so the counts below stay true until commit
+    const [ticket] = await tx.select().from(goldenTickets).where(eq(goldenTickets.id, ticketId)).for('update');
+    if (!ticket) {
+      throw new Error('Golden ticket not found');
+    }
+
+    const reasons: string[] = [];
+    if (ticket.status !== 'active' || now < ticket.startDate || now > ticket.endDate) {
+      reasons.push('This ticket is no longer available');
+    }
+
+    const [draw] = await tx.select().from(goldenTicketDraws).where(eq(goldenTicketDraws.id, request.drawId)).for('update');
+    if (!draw || draw.userId !== userId || draw.ticketId !== ticketId || draw.outcome !== 'shown') {
+      reasons.push('This ticket was not drawn for you');
+    } else if (now.getTime() - draw.drawnAt.getTime() > CLAIM_WINDOW_MS) {
+      reasons.push('The time to claim this ticket has run out');
+    } else {
+      const [drawClaim] = await tx.select({ id: goldenTicketClaims.id }).from(goldenTicketClaims)
+        .where(eq(goldenTicketClaims.drawId, draw.id));
+      if (drawClaim) {
+        reasons.push('This ticket has already been claimed');
+      }
+    }
+
+    const counted = and(eq(goldenTicketClaims.ticketId, ticketId), ne(goldenTicketClaims.status, 'rejected'));
+    const [userClaims] = await tx.select({ claims: count() }).from(goldenTicketClaims)
+      .where(and(counted, eq(goldenTicketClaims.userId, userId)));
+    const [deviceClaims] = await tx.select({ claims: count() }).from(goldenTicketClaims)
+      .where(and(counted, eq(goldenTicketClaims.deviceHash, deviceHash)));
+    reasons.push(...checkClaimLimits(ticket, { userClaims: Number(userClaims.claims), deviceClaims: Number(deviceClaims.claims) }));
+
+    if (reasons.length > 0) {
+      await recordGoldenTicketAuditEvent(tx, ticket, 'claim_rejected', userId, {
+        drawId: request.drawId,
+        playerRef: draw?.playerRef ?? null,
+        reasons
+      });
+      return { rejected: Array.from(new Set(reasons)) };
+    }
+
+    // Other accounts seen on the same device or IP in this campaign
+    const campaignTicketIds = tx.select({ id: goldenTickets.id }).from(goldenTickets).where(eq(goldenTickets.campaignId, ticket.campaignId));
+    const claimSignals = await tx.select({
+      userId: goldenTicketClaims.userId,
+      claimId: goldenTicketClaims.id,
+      deviceHash: goldenTicketClaims.deviceHash,
+      ipHash: goldenTicketClaims.ipHash
+    })
+      .from(goldenTicketClaims)
+      .where(and(
+        inArray(goldenTicketClaims.ticketId, campaignTicketIds),
+        or(eq(goldenTicketClaims.deviceHash, deviceHash), ipHash ? eq(goldenTicketClaims.ipHash, ipHash) : undefined)
+      ));
+    const drawSignals = await tx.selectDistinct({
+      userId: goldenTicketDraws.userId,
+      deviceHash: goldenTicketDraws.deviceHash,
+      ipHash: goldenTicketDraws.ipHash
+    })
+      .from(goldenTicketDraws)
+      .where(and(
+        inArray(goldenTicketDraws.ticketId, campaignTicketIds),
+        or(eq(goldenTicketDraws.deviceHash, deviceHash), ipHash ? eq(goldenTicketDraws.ipHash, ipHash) : undefined)
+      ));
+    const riskFlags = claimRiskFlags(
+      { userId, deviceHash, ipHash, drawDeviceHash: draw.deviceHash },
+      [...claimSignals, ...drawSignals.map(row => ({ ...row, claimId: null }))]
+    );
+
+    await tx.update(goldenTickets)
+      .set({ currentClaims: sql`${goldenTickets.currentClaims} + 1`, updatedAt: now })
+      .where(eq(goldenTickets.id, ticketId));
+
+    const [claim] = await tx.insert(goldenTicketClaims).values({
+      ticketId,
+      userId,
+      status: 'pending',
+      shippingAddress: request.shippingAddress,
+      drawId: draw.id,
+      deviceHash,
+      ipHash,
+      riskFlags
+    }).returning();
+
+    await recordGoldenTicketAuditEvent(tx, ticket, 'claim_created', userId, {
+      claimId: claim.id,
+      drawId: draw.id,
+      playerRef: draw.playerRef,
+      riskFlags
+    });
+
+    return { claim };
+  });
+
+  if ('rejected' in outcome) {
+    throw new Error(`Golden ticket claim rejected: ${outcome.rejected.join('; ')}`);
+  }
+
+  if (outcome.claim.riskFlags?.length) {
+    console.log(`[GoldenTicket] Claim ${outcome.claim.id} flagged for review: ${outcome.claim.riskFlags.join(', ')}`);
+  }
+  return outcome.claim;
+}
+
+/**
+ * Reveals the ticket's active seed so its draws can be verified, and commits
+ * a new one while the ticket can still be drawn
+ */
+export async function revealTicketSeed(
+  ticketId: number,
+  actorId: number | null,
+  now: Date = new Date()
+): Promise<{ revealed: GoldenTicketSeed | null, committed: GoldenTicketSeed | null }> {
+  return db.transaction(async (tx) => {
+    const [ticket] = await tx.select().from(goldenTickets).where(eq(goldenTickets.id, ticketId)).for('update');
+    if (!ticket) {
+      throw new Error('Golden ticket not found');
+    }
+
+    const [active] = await tx.select().from(goldenTicketSeeds)
+      .where(and(eq(goldenTicketSeeds.ticketId, ticketId), eq(goldenTicketSeeds.status, 'active')))
+      .for('update');
+
+    let revealed: GoldenTicketSeed | null = null;
+    if (active) {
+      [revealed] = await tx.update(goldenTicketSeeds)
+        .set({ status: 'revealed', revealedAt: now })
+        .where(eq(goldenTicketSeeds.id, active.id))
+        .returning();
+      await recordGoldenTicketAuditEvent(tx, ticket, 'seed_revealed', actorId, {
+        seedId: active.id,
+        seedHash: active.seedHash,
+        serverSeed: active.serverSeed,
+        drawCount: active.drawCount
+      });
+      console.log(`[GoldenTicket] Revealed seed ${active.id} of ticket ${ticketId} after ${active.drawCount} draws`);
+    }
+
+    const ended = ticket.status === 'completed' || ticket.status === 'cancelled';
+    const committed = ended ? null : await lockActiveSeed(tx, ticket, actorId);
+
+    return { revealed, committed };
+  });
+}
+
+/**
+ * Notes an admin's decision on a claim in the campaign's audit log
+ */
+export async function recordClaimReview(claim: GoldenTicketClaim, actorId: number | null): Promise<void> {
+  const [ticket] = await db.select({ id: goldenTickets.id, campaignId: goldenTickets.campaignId })
+    .from(goldenTickets)
+    .where(eq(goldenTickets.id, claim.ticketId));
+  if (!ticket) {
+    return;
+  }
+
+  await recordGoldenTicketAuditEvent(db, ticket, 'claim_status_changed', actorId, { claimId: claim.id, status: claim.status });
+}
+
+async function campaignTickets(campaignId: string): Promise<GoldenTicket[]> {
+  const tickets = await db.select().from(goldenTickets)
+    .where(eq(goldenTickets.campaignId, campaignId))
+    .orderBy(asc(goldenTickets.id));
+  if (tickets.length === 0) {
+    throw new Error('Golden ticket campaign not found');
+  }
+  return tickets;
+}
+
+/**
+ * Everything a sponsor needs to check a campaign's draws: seed commitments
+ * (with the seeds once revealed), every draw, the claims and the audit
+ * events. Players appear only by their per-seed reference.
+ */
+export async function getCampaignAuditLog(campaignId: string, now: Date = new Date()): Promise<GoldenTicketAuditLog> {
+  const tickets = await campaignTickets(campaignId);
+  const ticketIds = tickets.map(ticket => ticket.id);
+
+  const [seeds, draws, claims, events] = await Promise.all([
+    db.select().from(goldenTicketSeeds)
+      .where(inArray(goldenTicketSeeds.ticketId, ticketIds))
+      .orderBy(asc(goldenTicketSeeds.id)),
+    db.select().from(goldenTicketDraws)
+      .where(inArray(goldenTicketDraws.ticketId, ticketIds))
+      .orderBy(asc(goldenTicketDraws.seedId), asc(goldenTicketDraws.nonce)),
+    db.select().from(goldenTicketClaims)
+      .where(inArray(goldenTicketClaims.ticketId, ticketIds))
+      .orderBy(asc(goldenTicketClaims.id)),
+    db.select().from(goldenTicketAuditEvents)
+      .where(eq(goldenTicketAuditEvents.campaignId, campaignId))
+      .orderBy(asc(goldenTicketAuditEvents.id))
+  ]);
+
+  const exportedSeeds = seeds.map(seed => ({
+    id: seed.id,
+    ticketId: seed.ticketId,
+    seedHash: seed.seedHash,
+    serverSeed: seed.status === 'revealed' ? seed.serverSeed : null,
+    drawCount: seed.drawCount,
+    status: seed.status,
+    committedAt: seed.committedAt,
+    revealedAt: seed.revealedAt
+  }));
+  const exportedDraws = draws.map(draw => ({
+    id: draw.id,
+    ticketId: draw.ticketId,
+    seedId: draw.seedId,
+    nonce: draw.nonce,
+    playerRef: draw.playerRef,
+    roll: draw.roll,
+    threshold: draw.threshold,
+    outcome: draw.outcome as DrawOutcome,
+    drawnAt: draw.drawnAt
+  }));
+  const playerRefs = new Map(draws.map(draw => [draw.id, draw.playerRef]));
+
+  return {
+    campaignId,
+    generatedAt: now,
+    algorithm: {
+      commitment: 'seedHash = SHA-256(serverSeed), recorded before the seed is used',
+      roll: `roll = floor(first 52 bits of HMAC-SHA256(serverSeed, "<ticketId>:<playerRef>:<nonce>") / 2^52 * ${DRAW_SCALE})`,
+      appearance: 'The ticket appears when roll < threshold (appearanceRate% of the scale); capped means it won after maxAppearances was reached',
+      scale: DRAW_SCALE
+    },
+    tickets: tickets.map(ticket => ({
+      id: ticket.id,
+      title: ticket.title,
+      sponsorId: ticket.sponsorId,
+      status: ticket.status,
+      appearanceRate: ticket.appearanceRate,
+      threshold: appearanceThreshold(ticket.appearanceRate),
+      maxAppearances: ticket.maxAppearances,
+      currentAppearances: ticket.currentAppearances,
+      maxClaims: ticket.maxClaims,
+      currentClaims: ticket.currentClaims,
+      perUserClaimLimit: ticket.perUserClaimLimit,
+      perDeviceClaimLimit: ticket.perDeviceClaimLimit,
+      startDate: ticket.startDate,
+      endDate: ticket.endDate
+    })),
+    seeds: exportedSeeds,
+    draws: exportedDraws,
+    claims: claims.map(claim => ({
+      id: claim.id,
+      ticketId: claim.ticketId,
+      drawId: claim.drawId,
+      playerRef: claim.drawId === null ? null : playerRefs.get(claim.drawId) ?? null,
+      status: claim.status,
+      riskFlags: claim.riskFlags ?? [],
+      claimedAt: claim.claimedAt
+    })),
+    events: events.map(event => ({
+      id: event.id,
+      ticketId: event.ticketId,
+      eventType: event.eventType,
+      actor: event.actorId === null ? 'system'
+        : PLAYER_EVENTS.includes(event.eventType) ? 'player'
+        : SPONSOR_EVENTS.includes(event.eventType) ? 'sponsor'
+        : 'admin',
+      details: event.details,
+      createdAt: event.createdAt
+    })),
+    verification: verifyDrawLog(exportedSeeds, exportedDraws)
+  };
+}
+
+/**
+ * Accounts of a campaign that drew or claimed from the same device or IP
+ */
+export async function getCampaignMultiAccountReport(campaignId: string): Promise<{ campaignId: string, clusters: SharedSignalCluster[] }> {
+  const tickets = await campaignTickets(campaignId);
+  const ticketIds = tickets.map(ticket => ticket.id);
+
+  const [claims, draws] = await Promise.all([
+    db.select({ userId: goldenTicketClaims.userId, claimId: goldenTicketClaims.id, deviceHash: goldenTicketClaims.deviceHash, ipHash: goldenTicketClaims.ipHash })
+      .from(goldenTicketClaims)
+      .where(inArray(goldenTicketClaims.ticketId, ticketIds)),
+    db.selectDistinct({ userId: goldenTicketDraws.userId, deviceHash: goldenTicketDraws.deviceHash, ipHash: goldenTicketDraws.ipHash })
+      .from(goldenTicketDraws)
+      .where(inArray(goldenTicketDraws.ticketId, ticketIds))
+  ]);
+
+  const rows: ClaimSignalRow[] = [...claims, ...draws.map(row => ({ ...row, claimId: null }))];
+  return { campaignId, clusters: findSharedClaimSignals(rows) };
+}
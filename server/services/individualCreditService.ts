@@ -27,6 +27,7 @@ import {
   calculatePicklePointsReward,
   PICKLE_CREDITS_CONSTANTS
 } from "../../shared/utils/digitalCurrencyValidation";
+import { postLedgerEntry } from "./ledger-service";
 
 const connectionString = process.env.DATABASE_URL;
 if (!connectionString) {
@@ -350,6 +351,17 @@ export class IndividualCreditService {
           })
           .where(eq(digitalCreditsTransactions.id, transactionId));
 
+        await postLedgerEntry(
+          { kind: 'wallet_top_up', userId: txn.userId, paidCents: originalAmount, bonusCents: txn.amount - originalAmount },
+          {
+            key: `digital_credits_transaction:${transactionId}`,
+            referenceType: 'digital_credits_transaction',
+            referenceId: transactionId,
+            description: txn.description ?? undefined
+          },
+          tx
+        );
+
         console.log('[CREDIT SERVICE] Top-up completed:', {
           transactionId,
           userId: txn.userId,
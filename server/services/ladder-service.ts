@@ -0,0 +1,573 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Challenge Ladder Service
+ *
+ * Persistent challenge ladders for tournament events. Players join at the
+ * bottom rung and may challenge anyone up to a configurable number of rungs
+ * above them. A challenger who wins (or whose opponent fails to respond in
+ * time) swaps positions with the defender. Either player reports a played
+ * result and the other confirms it; only then does it move the ladder and
+ * feed into the standardized ranking system.
+ *
+ * Every change that moves rungs locks its challenge row first, so a result,
+ * a decline and the expiry job can't apply the same challenge twice.
+ */
+
+import { db } from "../db";
+import { eq, and, or, asc, desc, inArray, lt, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  tournamentLadders,
+  ladderRungs,
+  ladderChallenges,
+  type TournamentLadder,
+  type LadderRung,
+  type LadderChallenge
+} from "../../shared/schema/tournament-brackets";
+import { tournaments } from "../../shared/schema";
+import { StandardizedRankingService } from "./StandardizedRankingService";
+import { countGamesWon } from "./bracket-ranking-points";
+import { ensureMatchRecorded } from "./match-ingestion-service";
+
+type Writer = PgDatabase<any, any, any>;
+
+/**
+ * Options for a new ladder
+ */
+export interface LadderOptions {
+  maxChallengeRungs?: number;
+  responseWindowHours?: number;
+  playWindowDays?: number;
+  matchType?: 'casual' | 'league' | 'tournament';
+}
+
+/**
+ * Challenge statuses that block a player from issuing or receiving another challenge
+ */
+const OPEN_CHALLENGE_STATUSES = ['pending', 'accepted', 'reported'];
+
+/**
+ * Returns true when a player at challengerPosition may challenge defenderPosition
+ */
+export function canChallenge(challengerPosition: number, defenderPosition: number, maxChallengeRungs: number): boolean {
+  return defenderPosition < challengerPosition && challengerPosition - defenderPosition <= maxChallengeRungs;
+}
+
+/**
+ * Create a ladder for a tournament
+ */
+export async function createLadder(
+  tournamentId: number,
+  name: string,
+  options: LadderOptions = {}
+): Promise<TournamentLadder> {
+  try {
+    const [tournament] = await db.select()
+      .from(tournaments)
+      .where(eq(tournaments.id, tournamentId))
+      .limit(1);
+
+    if (!tournament) {
+      throw new Error(`Tournament with ID ${tournamentId} not found`);
+    }
+
+    const [ladder] = await db.insert(tournamentLadders).values({
+      tournamentId,
+      name,
+      maxChallengeRungs: options.maxChallengeRungs ?? 3,
+      responseWindowHours: options.responseWindowHours ?? 48,
+      playWindowDays: options.playWindowDays ?? 7,
+      matchType: options.matchType ?? 'league'
+    }).returning();
+
+    return ladder;
+  } catch (error) {
+    console.error("Error creating ladder:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a ladder or throw
+ */
+async function getLadderOrThrow(ladderId: number, writer: Writer = db): Promise<TournamentLadder> {
+  const [ladder] = await writer.select()
+    .from(tournamentLadders)
+    .where(eq(tournamentLadders.id, ladderId))
+    .limit(1);
+
+  if (!ladder) {
+    throw new Error(`Ladder with ID ${ladderId} not found`);
+  }
+
+  return ladder;
+}
+
+/**
+ * Load a player's active rung on a ladder
+ */
+async function getRung(ladderId: number, userId: number, writer: Writer = db): Promise<LadderRung | undefined> {
+  const [rung] = await writer.select()
+    .from(ladderRungs)
+    .where(and(
+      eq(ladderRungs.ladderId, ladderId),
+      eq(ladderRungs.userId, userId),
+      eq(ladderRungs.status, 'active')
+    ))
+    .limit(1);
+
+  return rung;
+}
+
+/**
+ * Get a ladder with its active rungs ordered from the top
+ */
+export async function getLadderStandings(ladderId: number) {
+  const ladder = await getLadderOrThrow(ladderId);
+
+  const rungs = await db.select()
+    .from(ladderRungs)
+    .where(and(eq(ladderRungs.ladderId, ladderId), eq(ladderRungs.status, 'active')))
+    .orderBy(asc(ladderRungs.position));
+
+  const openChallenges = await db.select()
+    .from(ladderChallenges)
+    .where(and(
+      eq(ladderChallenges.ladderId, ladderId),
+      inArray(ladderChallenges.status, OPEN_CHALLENGE_STATUSES)
+    ));
+
+  return { ladder, rungs, openChallenges };
+}
+
+/**
+ * Add a player to the bottom of a ladder
+ */
+export async function joinLadder(ladderId: number, userId: number): Promise<LadderRung> {
+  try {
+    const ladder = await getLadderOrThrow(ladderId);
+
+    if (ladder.status !== 'active') {
+      throw new Error("This ladder is closed");
+    }
+
+    if (await getRung(ladderId, userId)) {
+      throw new Error("Player is already on this ladder");
+    }
+
+    const [bottom] = await db.select()
+      .from(ladderRungs)
+      .where(and(eq(ladderRungs.ladderId, ladderId), eq(ladderRungs.status, 'active')))
+      .orderBy(desc(ladderRungs.position))
+      .limit(1);
+
+    const [rung] = await db.insert(ladderRungs).values({
+      ladderId,
+      userId,
+      position: (bottom?.position || 0) + 1
+    }).returning();
+
+    return rung;
+  } catch (error) {
+    console.error("Error joining ladder:", error);
+    throw error;
+  }
+}
+
+/**
+ * Challenge a player higher up the ladder
+ */
+export async function issueChallenge(ladderId: number, challengerId: number, defenderId: number): Promise<LadderChallenge> {
+  try {
+    const ladder = await getLadderOrThrow(ladderId);
+
+    if (ladder.status !== 'active') {
+      throw new Error("This ladder is closed");
+    }
+
+    const challengerRung = await getRung(ladderId, challengerId);
+    const defenderRung = await getRung(ladderId, defenderId);
+
+    if (!challengerRung || !defenderRung) {
+      throw new Error("Both players must be on the ladder");
+    }
+
+    if (!canChallenge(challengerRung.position, defenderRung.position, ladder.maxChallengeRungs)) {
+      throw new Error(`Players may only challenge up to ${ladder.maxChallengeRungs} rungs above their position`);
+    }
+
+    const [openChallenge] = await db.select()
+      .from(ladderChallenges)
+      .where(and(
+        eq(ladderChallenges.ladderId, ladderId),
+        inArray(ladderChallenges.status, OPEN_CHALLENGE_STATUSES),
+        or(
+          inArray(ladderChallenges.challengerId, [challengerId, defenderId]),
+          inArray(ladderChallenges.defenderId, [challengerId, defenderId])
+        )
+      ))
+      .limit(1);
+
+    if (openChallenge) {
+      throw new Error("One of the players already has an open challenge");
+    }
+
+    const [challenge] = await db.insert(ladderChallenges).values({
+      ladderId,
+      challengerId,
+      defenderId,
+      challengerPosition: challengerRung.position,
+      defenderPosition: defenderRung.position,
+      status: 'pending',
+      respondBy: new Date(Date.now() + ladder.responseWindowHours * 60 * 60 * 1000)
+    }).returning();
+
+    return challenge;
+  } catch (error) {
+    console.error("Error issuing ladder challenge:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a challenge and lock it for the rest of the transaction, or throw
+ */
+async function lockChallenge(tx: Writer, challengeId: number): Promise<LadderChallenge> {
+  const [challenge] = await tx.select()
+    .from(ladderChallenges)
+    .where(eq(ladderChallenges.id, challengeId))
+    .for('update');
+
+  if (!challenge) {
+    throw new Error(`Challenge with ID ${challengeId} not found`);
+  }
+
+  return challenge;
+}
+
+/**
+ * Accept or decline a challenge. Declining forfeits the defender's rung.
+ */
+export async function respondToChallenge(challengeId: number, userId: number, accept: boolean): Promise<LadderChallenge> {
+  try {
+    return await db.transaction(async (tx) => {
+      const challenge = await lockChallenge(tx, challengeId);
+
+      if (challenge.defenderId !== userId) {
+        throw new Error("Only the challenged player can respond to this challenge");
+      }
+
+      if (challenge.status !== 'pending') {
+        throw new Error(`Challenge is already ${challenge.status}`);
+      }
+
+      // Waiting for the expiry job to forfeit it
+      const now = new Date();
+      if (challenge.respondBy < now) {
+        throw new Error("The response window for this challenge has closed");
+      }
+
+      if (!accept) {
+        return await forfeitChallenge(tx, challenge, "Challenge declined");
+      }
+
+      const ladder = await getLadderOrThrow(challenge.ladderId, tx);
+
+      const [updated] = await tx.update(ladderChallenges)
+        .set({
+          status: 'accepted',
+          acceptedAt: now,
+          playBy: new Date(now.getTime() + ladder.playWindowDays * 24 * 60 * 60 * 1000),
+          updatedAt: now
+        })
+        .where(eq(ladderChallenges.id, challengeId))
+        .returning();
+
+      return updated;
+    });
+  } catch (error) {
+    console.error("Error responding to ladder challenge:", error);
+    throw error;
+  }
+}
+
+/**
+ * Swap the rungs of a winning challenger and the defender
+ */
+async function swapPositions(tx: Writer, ladderId: number, challengerId: number, defenderId: number): Promise<void> {
+  const challengerRung = await getRung(ladderId, challengerId, tx);
+  const defenderRung = await getRung(ladderId, defenderId, tx);
+
+  if (!challengerRung || !defenderRung) return;
+
+  // Only move the challenger up
+  if (challengerRung.position < defenderRung.position) return;
+
+  await tx.update(ladderRungs)
+    .set({ position: defenderRung.position, updatedAt: new Date() })
+    .where(eq(ladderRungs.id, challengerRung.id));
+
+  await tx.update(ladderRungs)
+    .set({ position: challengerRung.position, updatedAt: new Date() })
+    .where(eq(ladderRungs.id, defenderRung.id));
+}
+
+/**
+ * The defender gives up their rung without playing; no ranking points are
+ * awarded. The caller holds the lock on the challenge.
+ */
+async function forfeitChallenge(tx: Writer, challenge: LadderChallenge, reason: string): Promise<LadderChallenge> {
+  await swapPositions(tx, challenge.ladderId, challenge.challengerId, challenge.defenderId);
+
+  const [updated] = await tx.update(ladderChallenges)
+    .set({
+      status: 'forfeited',
+      winnerId: challenge.challengerId,
+      score: reason,
+      completedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(ladderChallenges.id, challenge.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Report the result of an accepted challenge. Nothing changes on the ladder
+ * until the other player confirms it.
+ *
+ * @param challengeId - ID of the challenge
+ * @param reporterId - User ID of the player reporting
+ * @param winnerId - User ID of the winner
+ * @param score - Winner-first score, e.g. "11-7, 11-9"
+ */
+export async function reportLadderChallengeResult(
+  challengeId: number,
+  reporterId: number,
+  winnerId: number,
+  score: string
+): Promise<LadderChallenge> {
+  try {
+    return await db.transaction(async (tx) => {
+      const challenge = await lockChallenge(tx, challengeId);
+
+      if (challenge.status !== 'accepted') {
+        throw new Error(challenge.status === 'reported'
+          ? "A result is already reported and waiting for confirmation"
+          : "Only accepted challenges can be completed");
+      }
+
+      if (winnerId !== challenge.challengerId && winnerId !== challenge.defenderId) {
+        throw new Error(`Player ${winnerId} is not part of this challenge`);
+      }
+
+      const ladder = await getLadderOrThrow(challenge.ladderId, tx);
+      const now = new Date();
+
+      const [updated] = await tx.update(ladderChallenges)
+        .set({
+          status: 'reported',
+          winnerId,
+          score,
+          reportedById: reporterId,
+          reportedAt: now,
+          respondBy: new Date(now.getTime() + ladder.responseWindowHours * 60 * 60 * 1000),
+          updatedAt: now
+        })
+        .where(eq(ladderChallenges.id, challengeId))
+        .returning();
+
+      return updated;
+    });
+  } catch (error) {
+    console.error("Error reporting ladder challenge result:", error);
+    throw error;
+  }
+}
+
+/**
+ * The other player confirms or disputes a reported result.
+ * A confirmed result is stored as a singles match and ranking points are
+ * awarded; a winning challenger swaps positions with the defender. A
+ * disputed result is cleared so the challenge can be reported again.
+ *
+ * @param challengeId - ID of the challenge
+ * @param userId - User ID of the confirming player
+ * @param confirm - Whether the player agrees with the reported result
+ */
+export async function confirmLadderChallengeResult(
+  challengeId: number,
+  userId: number,
+  confirm: boolean
+): Promise<LadderChallenge> {
+  try {
+    return await db.transaction(async (tx) => {
+      const challenge = await lockChallenge(tx, challengeId);
+
+      if (challenge.status !== 'reported' || !challenge.winnerId) {
+        throw new Error(challenge.status === 'accepted'
+          ? "No result has been reported for this challenge"
+          : `Challenge is already ${challenge.status}`);
+      }
+
+      if (userId === challenge.reportedById) {
+        throw new Error("Only the other player can confirm this result");
+      }
+
+      const now = new Date();
+
+      if (!confirm) {
+        const [disputed] = await tx.update(ladderChallenges)
+          .set({ status: 'accepted', winnerId: null, score: null, reportedById: null, reportedAt: null, updatedAt: now })
+          .where(eq(ladderChallenges.id, challengeId))
+          .returning();
+        return disputed;
+      }
+
+      const winnerId = challenge.winnerId;
+      const loserId = winnerId === challenge.challengerId ? challenge.defenderId : challenge.challengerId;
+      const ladder = await getLadderOrThrow(challenge.ladderId, tx);
+
+      const [tournament] = await tx.select()
+        .from(tournaments)
+        .where(eq(tournaments.id, ladder.tournamentId))
+        .limit(1);
+
+      const { winnerGames, loserGames } = countGamesWon(challenge.score);
+
+      const { match: rankedMatch, created } = await ensureMatchRecorded({
+        team1: [{ userId: winnerId }],
+        team2: [{ userId: loserId }],
+        team1Score: winnerGames.toString(),
+        team2Score: loserGames.toString(),
+        winner: 1,
+        matchDate: challenge.reportedAt ?? now,
+        sourceReference: `ladder-challenge:${challenge.id}`,
+        values: {
+          matchType: ladder.matchType,
+          eventTier: tournament?.level || "club",
+          tournamentId: ladder.tournamentId,
+          isVerified: true, // Both players have agreed the result
+          validationStatus: "validated",
+          notes: `${ladder.name} ladder challenge`
+        }
+      }, 'ladder', tx);
+
+      // Points were already awarded if an earlier attempt recorded this match
+      if (created) {
+        try {
+          await StandardizedRankingService.processMatchRankingPoints(
+            { id: rankedMatch.id, matchType: rankedMatch.matchType, eventTier: rankedMatch.eventTier || undefined },
+            winnerId,
+            loserId,
+            tx
+          );
+        } catch (error) {
+          // The ladder result still stands when ranking points can't be calculated
+          console.error(`[Ladder] Could not award ranking points for challenge ${challengeId}:`, error);
+        }
+      }
+
+      if (winnerId === challenge.challengerId) {
+        await swapPositions(tx, challenge.ladderId, challenge.challengerId, challenge.defenderId);
+      }
+
+      await tx.update(ladderRungs)
+        .set({ wins: sql`${ladderRungs.wins} + 1`, lastMatchAt: now, updatedAt: now })
+        .where(and(eq(ladderRungs.ladderId, challenge.ladderId), eq(ladderRungs.userId, winnerId)));
+
+      await tx.update(ladderRungs)
+        .set({ losses: sql`${ladderRungs.losses} + 1`, lastMatchAt: now, updatedAt: now })
+        .where(and(eq(ladderRungs.ladderId, challenge.ladderId), eq(ladderRungs.userId, loserId)));
+
+      const [updated] = await tx.update(ladderChallenges)
+        .set({
+          status: 'completed',
+          matchId: rankedMatch.id,
+          completedAt: now,
+          updatedAt: now
+        })
+        .where(eq(ladderChallenges.id, challengeId))
+        .returning();
+
+      return updated;
+    });
+  } catch (error) {
+    console.error("Error confirming ladder challenge result:", error);
+    throw error;
+  }
+}
+
+/**
+ * Close out challenges whose windows have passed:
+ * - unanswered challenges past their response window are forfeited by the defender
+ * - accepted challenges not played within the play window expire with no change
+ * - reported results the other player didn't confirm in time expire with no change
+ *
+ * @returns Number of challenges forfeited and expired
+ */
+export async function expireLadderChallenges(now: Date = new Date()): Promise<{ forfeited: number, expired: number }> {
+  try {
+    const unanswered = await db.select({ id: ladderChallenges.id })
+      .from(ladderChallenges)
+      .where(and(eq(ladderChallenges.status, 'pending'), lt(ladderChallenges.respondBy, now)));
+
+    let forfeited = 0;
+    for (const { id } of unanswered) {
+      // The defender may have responded since the challenge was listed
+      const wasForfeited = await db.transaction(async (tx) => {
+        const challenge = await lockChallenge(tx, id);
+        if (challenge.status !== 'pending' || challenge.respondBy >= now) {
+          return false;
+        }
+        await forfeitChallenge(tx, challenge, "No response within the challenge window");
+        return true;
+      });
+      if (wasForfeited) forfeited++;
+    }
+
+    const unplayed = await db.update(ladderChallenges)
+      .set({ status: 'expired', updatedAt: now })
+      .where(or(
+        and(eq(ladderChallenges.status, 'accepted'), lt(ladderChallenges.playBy, now)),
+        and(eq(ladderChallenges.status, 'reported'), lt(ladderChallenges.respondBy, now))
+      ))
+      .returning();
+
+    if (forfeited || unplayed.length) {
+      console.log(`[Ladder] ${forfeited} challenges forfeited, ${unplayed.length} expired`);
+    }
+
+    return { forfeited, expired: unplayed.length };
+  } catch (error) {
+    console.error("Error expiring ladder challenges:", error);
+    throw error;
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Closes out lapsed challenge windows at a fixed interval
+ */
+export function startLadderChallengeScheduler(intervalMinutes: number = 5): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const run = () => {
+    expireLadderChallenges()
+      .catch(error => console.error('[Ladder] Expiry run failed:', error));
+  };
+
+  console.log(`[Ladder] Starting challenge expiry scheduler (interval: ${intervalMinutes} minutes)`);
+  schedulerTimer = setInterval(run, intervalMinutes * 60 * 1000);
+}
+
+export function stopLadderChallengeScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Ledger Service
+ *
+ * Posts balanced journal entries for money movements and reads the ledger
+ * back as a trial balance. Entries are posted in the same transaction as
+ * the balance change they record, and each source (a credits transaction,
+ * a gift card, a payout step) posts at most once.
+ *
+ * A nightly check compares every wallet balance and the outstanding gift
+ * card balances with the ledger and records what it finds.
+ */
+
+import { db } from "../db";
+import { desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  digitalCreditsAccounts,
+  digitalGiftCards,
+  ledgerAccounts,
+  ledgerJournalEntries,
+  ledgerJournalLines,
+  ledgerInvariantChecks,
+  type LedgerInvariantCheck,
+  type LedgerJournalEntry
+} from "../../shared/schema";
+import {
+  SYSTEM_LEDGER_ACCOUNTS,
+  buildTrialBalance,
+  describeLedgerAccount,
+  findBalanceMismatches,
+  journalLinesFor,
+  nextNightlyRun,
+  validateJournalLines,
+  walletAccountCode,
+  walletOwner,
+  type BalanceMismatch,
+  type LedgerOperation,
+  type TrialBalance
+} from "../../shared/utils/ledgerAccounting";
+import { CreditTransactionType } from "../../shared/utils/digitalCurrencyValidation";
+
+/**
+ * The database or an open transaction. The credit services run on their own
+ * connection, so any drizzle Postgres database is accepted.
+ */
+type LedgerWriter = PgDatabase<any, any, any>;
+
+/**
+ * Where an entry comes from; the key makes posting idempotent
+ */
+export interface LedgerSource {
+  key: string;
+  referenceType?: string;
+  referenceId?: number;
+  description?: string;
+  createdById?: number;
+}
+
+export interface LedgerCheckResult {
+  check: LedgerInvariantCheck;
+  walletMismatches: BalanceMismatch[];
+  unbalancedEntryIds: number[];
+}
+
+/**
+ * Ids of the accounts, creating any that are not in the chart yet
+ */
+async function ensureAccounts(writer: LedgerWriter, codes: string[]): Promise<Map<string, number>> {
+  const unique = Array.from(new Set(codes));
+  await writer.insert(ledgerAccounts)
+    .values(unique.map(code => {
+      const account = describeLedgerAccount(code);
+      return { code, name: account.name, type: account.type, ownerUserId: account.ownerUserId };
+    }))
+    .onConflictDoNothing({ target: ledgerAccounts.code });
+
+  const rows: { id: number, code: string }[] = await writer.select({ id: ledgerAccounts.id, code: ledgerAccounts.code })
+    .from(ledgerAccounts)
+    .where(inArray(ledgerAccounts.code, unique));
+  return new Map(rows.map(row => [row.code, row.id]));
+}
+
+/**
+ * Posts the journal entry for an operation. Returns null when the source
+ * was already posted or the operation moves no money.
+ *
+ * @param writer - Transaction the balance change runs in
+ */
+export async function postLedgerEntry(
+  operation: LedgerOperation,
+  source: LedgerSource,
+  writer: LedgerWriter = db
+): Promise<LedgerJournalEntry | null> {
+  const lines = journalLinesFor(operation);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const validation = validateJournalLines(lines);
+  if (!validation.isValid) {
+    throw new Error(`Unbalanced journal entry for ${source.key}: ${validation.errors.join('; ')}`);
+  }
+
+  const [entry]: LedgerJournalEntry[] = await writer.insert(ledgerJournalEntries)
+    .values({
+      entryType: operation.kind,
+      sourceKey: source.key,
+      referenceType: source.referenceType ?? null,
+      referenceId: source.referenceId ?? null,
+      description: source.description ?? null,
+      createdById: source.createdById ?? null
+    })
+    .onConflictDoNothing({ target: ledgerJournalEntries.sourceKey })
+    .returning();
+  if (!entry) {
+    return null;
+  }
+
+  const accountIds = await ensureAccounts(writer, lines.map(line => line.accountCode));
+  await writer.insert(ledgerJournalLines).values(lines.map(line => ({
+    entryId: entry.id,
+    accountId: accountIds.get(line.accountCode)!,
+    debitCents: line.debitCents,
+    creditCents: line.creditCents,
+    memo: line.memo ?? null
+  })));
+
+  return entry;
+}
+
+/**
+ * Posts a wallet movement recorded as a digital credits transaction: a
+ * negative amount is a charge (or a cancellation fee), a positive one a refund
+ */
+export async function postWalletMovement(
+  writer: LedgerWriter,
+  movement: { userId: number, amountCents: number, type: string, transactionId: number, description?: string }
+): Promise<LedgerJournalEntry | null> {
+  const amountCents = Math.abs(movement.amountCents);
+  const operation: LedgerOperation = movement.amountCents > 0
+    ? { kind: 'wallet_refund', userId: movement.userId, amountCents }
+    : movement.type === CreditTransactionType.CANCELLATION_FEE
+      ? { kind: 'cancellation_fee', userId: movement.userId, amountCents }
+      : { kind: 'wallet_charge', userId: movement.userId, amountCents };
+
+  return postLedgerEntry(operation, {
+    key: `digital_credits_transaction:${movement.transactionId}`,
+    referenceType: 'digital_credits_transaction',
+    referenceId: movement.transactionId,
+    description: movement.description
+  }, writer);
+}
+
+/**
+ * Debit and credit totals per account code, up to the given time
+ */
+async function accountTotals(asOf?: Date): Promise<{ code: string, debitCents: number, creditCents: number }[]> {
+  const rows = await db.select({
+    code: ledgerAccounts.code,
+    debitCents: sql<string>`COALESCE(SUM(${ledgerJournalLines.debitCents}), 0)`,
+    creditCents: sql<string>`COALESCE(SUM(${ledgerJournalLines.creditCents}), 0)`
+  })
+    .from(ledgerJournalLines)
+    .innerJoin(ledgerJournalEntries, eq(ledgerJournalEntries.id, ledgerJournalLines.entryId))
+    .innerJoin(ledgerAccounts, eq(ledgerAccounts.id, ledgerJournalLines.accountId))
+    .where(asOf ? lte(ledgerJournalEntries.postedAt, asOf) : undefined)
+    .groupBy(ledgerAccounts.code);
+
+  return rows.map(row => ({ code: row.code, debitCents: Number(row.debitCents), creditCents: Number(row.creditCents) }));
+}
+
+/**
+ * Trial balance of every account, as of now or a past date
+ */
+export async function getTrialBalance(asOf?: Date): Promise<TrialBalance & { asOf: Date }> {
+  return { ...buildTrialBalance(await accountTotals(asOf)), asOf: asOf ?? new Date() };
+}
+
+/**
+ * Recent journal entries with their lines, optionally for one account
+ */
+export async function listJournalEntries(options: { accountCode?: string, limit?: number } = {}) {
+  const accountEntries = options.accountCode
+    ? db.selectDistinct({ entryId: ledgerJournalLines.entryId })
+      .from(ledgerJournalLines)
+      .innerJoin(ledgerAccounts, eq(ledgerAccounts.id, ledgerJournalLines.accountId))
+      .where(eq(ledgerAccounts.code, options.accountCode))
+    : null;
+
+  const entries = await db.select()
+    .from(ledgerJournalEntries)
+    .where(accountEntries ? inArray(ledgerJournalEntries.id, accountEntries) : undefined)
+    .orderBy(desc(ledgerJournalEntries.postedAt), desc(ledgerJournalEntries.id))
+    .limit(Math.min(options.limit ?? 100, 500));
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const lines = await db.select({
+    entryId: ledgerJournalLines.entryId,
+    accountCode: ledgerAccounts.code,
+    accountName: ledgerAccounts.name,
+    debitCents: ledgerJournalLines.debitCents,
+    creditCents: ledgerJournalLines.creditCents,
+    memo: ledgerJournalLines.memo
+  })
+    .from(ledgerJournalLines)
+    .innerJoin(ledgerAccounts, eq(ledgerAccounts.id, ledgerJournalLines.accountId))
+    .where(inArray(ledgerJournalLines.entryId, entries.map(entry => entry.id)))
+    .orderBy(ledgerJournalLines.id);
+
+  return entries.map(entry => ({
+    ...entry,
+    lines: lines.filter(line => line.entryId === entry.id).map(({ entryId, ...line }) => line)
+  }));
+}
+
+/**
+ * Compares wallet and gift card balances with the ledger, checks that every
+ * entry balances, and records the result
+ */
+export async function runLedgerInvariantCheck(): Promise<LedgerCheckResult> {
+  const wallets = await db.select({ userId: digitalCreditsAccounts.userId, balance: digitalCreditsAccounts.balance })
+    .from(digitalCreditsAccounts);
+  const [giftCards] = await db.select({ outstanding: sql<string>`COALESCE(SUM(${digitalGiftCards.remainingBalance}), 0)` })
+    .from(digitalGiftCards)
+    .where(ne(digitalGiftCards.code, 'PENDING'));
+
+  const trialBalance = buildTrialBalance(await accountTotals());
+  const ledgerWallets = new Map(trialBalance.rows
+    .filter(row => walletOwner(row.code) !== null)
+    .map(row => [row.code, row.balanceCents]));
+  const walletMismatches = findBalanceMismatches(
+    new Map(wallets.map(wallet => [walletAccountCode(wallet.userId), wallet.balance])),
+    ledgerWallets
+  );
+
+  const giftCardLedger = trialBalance.rows.find(row => row.code === SYSTEM_LEDGER_ACCOUNTS.GIFT_CARD_LIABILITY)?.balanceCents ?? 0;
+  const giftCardDifferenceCents = giftCardLedger - Number(giftCards.outstanding);
+
+  const unbalanced = await db.select({ entryId: ledgerJournalLines.entryId })
+    .from(ledgerJournalLines)
+    .groupBy(ledgerJournalLines.entryId)
+    .having(sql`SUM(${ledgerJournalLines.debitCents}) <> SUM(${ledgerJournalLines.creditCents})`);
+  const unbalancedEntryIds = unbalanced.map(row => row.entryId);
+
+  const passed = walletMismatches.length === 0 && giftCardDifferenceCents === 0 && unbalancedEntryIds.length === 0;
+  const [check] = await db.insert(ledgerInvariantChecks)
+    .values({
+      status: passed ? 'passed' : 'failed',
+      walletsChecked: wallets.length,
+      walletMismatches: walletMismatches.length,
+      giftCardDifferenceCents,
+      unbalancedEntries: unbalancedEntryIds.length,
+      details: passed ? null : { walletMismatches: walletMismatches.slice(0, 200), unbalancedEntryIds: unbalancedEntryIds.slice(0, 200) }
+    })
+    .returning();
+
+  if (passed) {
+    console.log(`[Ledger] Invariant check passed for ${wallets.length} wallets`);
+  } else {
+    console.warn(`[Ledger] Invariant check failed: ${walletMismatches.length} wallet mismatches, gift card difference ${giftCardDifferenceCents}, ${unbalancedEntryIds.length} unbalanced entries`);
+  }
+  return { check, walletMismatches, unbalancedEntryIds };
+}
+
+/**
+ * Most recent invariant check results
+ */
+export async function listLedgerInvariantChecks(limit: number = 30): Promise<LedgerInvariantCheck[]> {
+  return db.select()
+    .from(ledgerInvariantChecks)
+    .orderBy(desc(ledgerInvariantChecks.checkedAt))
+    .limit(limit);
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs the invariant check every night at the given hour (UTC)
+ */
+export function startLedgerInvariantScheduler(hourUtc: number = 3): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const schedule = () => {
+    const delay = nextNightlyRun(new Date(), hourUtc).getTime() - Date.now();
+    schedulerTimer = setTimeout(() => {
+      runLedgerInvariantCheck()
+        .catch(error => console.error('[Ledger] Scheduled invariant check failed:', error))
+        .finally(() => {
+          if (schedulerTimer) {
+            schedule();
+          }
+        });
+    }, delay);
+  };
+
+  console.log(`[Ledger] Starting nightly invariant check (${String(hourUtc).padStart(2, '0')}:00 UTC)`);
+  schedule();
+}
+
+export function stopLedgerInvariantScheduler(): void {
+  if (schedulerTimer) {
+    clearTimeout(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
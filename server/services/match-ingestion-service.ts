@@ -0,0 +1,524 @@
+/**
+ * Match Ingestion Service
+ *
+ * Single path by which every entry point records matches: match recording,
+ * arena setup, admin bulk uploads, scheduled fixtures, tournament brackets
+ * and ladders. Players are identified by normalized passport code, each match
+ * gets a deterministic idempotency key stored under a unique constraint, and
+ * every row comes back as created, a duplicate of an existing match, or
+ * rejected with a reason.
+ */
+
+import { db } from "../db";
+import { and, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { matches, users } from "../../shared/schema";
+import {
+  generateMatchIdempotencyKey,
+  getAdjacentMatchIdempotencyKeys,
+  normalizeMatchPassportCode,
+  MATCH_RESULT_WINDOW_MINUTES
+} from "../../shared/utils/matchIdempotency";
+import { publishDomainEvent } from "../core/events/domain-events";
+
+type MatchRecord = typeof matches.$inferSelect;
+type InsertMatchRecord = typeof matches.$inferInsert;
+type Writer = PgDatabase<any, any, any>;
+
+export const MATCH_INGESTION_REJECTION_REASONS = [
+  'unknown_player',
+  'duplicate_player',
+  'invalid_teams',
+  'invalid_score',
+  'invalid_date'
+] as const;
+export type MatchIngestionRejectionReason = typeof MATCH_INGESTION_REJECTION_REASONS[number];
+
+/**
+ * What happens when a row matches a match that is already recorded:
+ * reject leaves the existing match untouched, merge fills in its empty
+ * descriptive fields from the row
+ */
+export type DuplicateMatchPolicy = 'reject' | 'merge';
+
+/**
+ * Fields a duplicate row may fill in on the existing match under the merge policy
+ */
+export const MERGEABLE_MATCH_FIELDS = [
+  'gameScores',
+  'location',
+  'tournamentId',
+  'division',
+  'eventTier',
+  'notes'
+] as const;
+
+/**
+ * Columns for a result a player or partner app submits: it waits for the
+ * players to certify it, and points are only awarded once they have
+ */
+export const PENDING_CERTIFICATION_VALUES = {
+  certificationStatus: 'pending',
+  isVerified: false,
+  // DEPRECATED: Keeping validationStatus for backward compatibility
+  validationStatus: 'pending',
+  validationCompletedAt: null,
+  pointsAwarded: 0,
+  xpAwarded: 0
+} satisfies Partial<InsertMatchRecord>;
+
+/**
+ * Points each side scored in one game
+ */
+export interface GameScore {
+  team1: number;
+  team2: number;
+}
+
+/**
+ * A player on one side of an ingested match
+ */
+export type MatchPlayerRef = { userId: number } | { passportCode: string };
+
+/**
+ * One match to ingest. Team 1's first player is recorded as player one.
+ * Rows without scores are scheduled matches.
+ */
+export interface MatchIngestionRow {
+  rowNumber?: number; // Defaults to the row's position, starting at 1
+  team1: MatchPlayerRef[];
+  team2: MatchPlayerRef[];
+  team1Score?: string | number | null;
+  team2Score?: string | number | null;
+  games?: GameScore[]; // Points per game; a rematch with other game scores is another match
+  matchDate: Date | string;
+  winner?: 1 | 2; // Derived from the scores when omitted
+  event?: string | null; // Event the match was played at, e.g. "tournament:Spring Open"
+  sourceReference?: string | null; // Natural ID from the entry point, e.g. "bracket-match:42"
+  values?: Partial<InsertMatchRecord>; // Remaining match columns
+}
+
+export interface MatchIngestionOptions {
+  source: string; // Entry point, for logs and reports
+  duplicatePolicy?: DuplicateMatchPolicy; // Defaults to reject
+  writer?: Writer; // Transaction to record the matches in, when the caller has one
+}
+
+export type MatchIngestionResult =
+  | {
+      rowNumber: number;
+      status: 'created';
+      matchId: number;
+      idempotencyKey: string;
+      match: MatchRecord;
+    }
+  | {
+      rowNumber: number;
+      status: 'duplicate';
+      duplicateOfMatchId: number;
+      idempotencyKey: string;
+      match: MatchRecord;
+      mergedFields: string[];
+    }
+  | {
+      rowNumber: number;
+      status: 'rejected';
+      reason: MatchIngestionRejectionReason;
+      message: string;
+    };
+
+export interface MatchIngestionReport {
+  source: string;
+  created: number;
+  duplicates: number;
+  rejected: number;
+  results: MatchIngestionResult[];
+}
+
+interface Rejection {
+  reason: MatchIngestionRejectionReason;
+  message: string;
+}
+
+/**
+ * Resolved player: user ID and the identity used in the idempotency key
+ */
+interface ResolvedPlayer {
+  userId: number;
+  identity: string;
+}
+
+function playerIdentity(user: { id: number, passportCode: string | null }): string {
+  const code = user.passportCode ? normalizeMatchPassportCode(user.passportCode) : '';
+  return code || `U${user.id}`;
+}
+
+function describeRef(ref: MatchPlayerRef): string {
+  return 'userId' in ref ? `user ${ref.userId}` : `passport code ${ref.passportCode}`;
+}
+
+function scoreText(score: string | number | null | undefined): string | null {
+  return score === null || score === undefined ? null : String(score).trim();
+}
+
+/**
+ * Checks a row's shape before any players are looked up
+ */
+export function validateIngestionRow(row: MatchIngestionRow): Rejection | null {
+  const sideSizes = [row.team1.length, row.team2.length];
+  if (sideSizes.some(size => size < 1 || size > 2) || sideSizes[0] !== sideSizes[1]) {
+    return { reason: 'invalid_teams', message: 'Both sides need the same number of players, one or two' };
+  }
+
+  if (isNaN(new Date(row.matchDate).getTime())) {
+    return { reason: 'invalid_date', message: `Invalid match date: ${row.matchDate}` };
+  }
+
+  const team1Score = scoreText(row.team1Score);
+  const team2Score = scoreText(row.team2Score);
+
+  if ((team1Score === null) !== (team2Score === null) || team1Score === '' || team2Score === '') {
+    return { reason: 'invalid_score', message: 'Both scores are required for a result' };
+  }
+
+  if (team1Score !== null && !row.winner) {
+    const team1Value = Number(team1Score);
+    const team2Value = Number(team2Score);
+
+    if (isNaN(team1Value) || isNaN(team2Value) || team1Value === team2Value) {
+      return { reason: 'invalid_score', message: `Cannot tell the winner from ${team1Score}-${team2Score}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The result of a match recorded game by game: the side that won more games
+ * wins, and the final game's score is the match score
+ */
+export function resultFromGames(games: GameScore[]): {
+  team1Score: string,
+  team2Score: string,
+  winner: 1 | 2,
+  gameScores: string
+} {
+  const team1GamesWon = games.filter(game => game.team1 > game.team2).length;
+  const finalGame = games[games.length - 1];
+
+  return {
+    team1Score: `${finalGame.team1}`,
+    team2Score: `${finalGame.team2}`,
+    winner: team1GamesWon > games.length - team1GamesWon ? 1 : 2,
+    gameScores: games.map(game => `${game.team1}-${game.team2}`).join(', ')
+  };
+}
+
+/**
+ * Match columns for a validated row with resolved players
+ */
+export function buildMatchRecord(
+  row: MatchIngestionRow,
+  team1Ids: number[],
+  team2Ids: number[],
+  idempotencyKey: string
+): InsertMatchRecord {
+  const team1Score = scoreText(row.team1Score);
+  const team2Score = scoreText(row.team2Score);
+  const scheduled = team1Score === null || team2Score === null;
+  const winner = row.winner ?? (!scheduled && Number(team2Score) > Number(team1Score) ? 2 : 1);
+
+  return {
+    formatType: team1Ids.length === 2 ? 'doubles' : 'singles',
+    // A scheduled match keeps a placeholder result until it is played
+    winnerId: winner === 1 ? team1Ids[0] : team2Ids[0],
+    scorePlayerOne: team1Score ?? 'pending',
+    scorePlayerTwo: team2Score ?? 'pending',
+    ...row.values,
+    playerOneId: team1Ids[0],
+    playerOnePartnerId: team1Ids[1] ?? null,
+    playerTwoId: team2Ids[0],
+    playerTwoPartnerId: team2Ids[1] ?? null,
+    matchDate: new Date(row.matchDate),
+    idempotencyKey
+  };
+}
+
+/**
+ * Looks up every referenced player in two queries
+ */
+async function resolvePlayers(refs: MatchPlayerRef[]): Promise<{
+  byUserId: Map<number, ResolvedPlayer>,
+  byPassportCode: Map<string, ResolvedPlayer>
+}> {
+  const userIds = Array.from(new Set(refs.flatMap(ref => 'userId' in ref ? [ref.userId] : [])));
+  const passportCodes = Array.from(new Set(
+    refs.flatMap(ref => 'passportCode' in ref ? [normalizeMatchPassportCode(ref.passportCode)] : [])
+  )).filter(Boolean);
+
+  const byUserId = new Map<number, ResolvedPlayer>();
+  const byPassportCode = new Map<string, ResolvedPlayer>();
+
+  if (userIds.length > 0) {
+    const found = await db.select({ id: users.id, passportCode: users.passportCode })
+      .from(users)
+      .where(inArray(users.id, userIds));
+
+    found.forEach(user => byUserId.set(user.id, { userId: user.id, identity: playerIdentity(user) }));
+  }
+
+  if (passportCodes.length > 0) {
+    // Compare codes the way normalizeMatchPassportCode writes them
+    const normalizedCode = sql<string>`regexp_replace(regexp_replace(upper(trim(${users.passportCode})), '^PKL-', ''), '[^A-Z0-9]', '', 'g')`;
+    const found = await db.select({ id: users.id, passportCode: users.passportCode })
+      .from(users)
+      .where(inArray(normalizedCode, passportCodes));
+
+    found.forEach(user => {
+      const identity = playerIdentity(user);
+      byPassportCode.set(identity, { userId: user.id, identity });
+    });
+  }
+
+  return { byUserId, byPassportCode };
+}
+
+function findPlayer(
+  ref: MatchPlayerRef,
+  byUserId: Map<number, ResolvedPlayer>,
+  byPassportCode: Map<string, ResolvedPlayer>
+): ResolvedPlayer | undefined {
+  return 'userId' in ref
+    ? byUserId.get(ref.userId)
+    : byPassportCode.get(normalizeMatchPassportCode(ref.passportCode));
+}
+
+/**
+ * User IDs of the referenced players, in order; null for a player not found
+ */
+export async function resolvePlayerRefs(refs: MatchPlayerRef[]): Promise<Array<number | null>> {
+  const { byUserId, byPassportCode } = await resolvePlayers(refs);
+  return refs.map(ref => findPlayer(ref, byUserId, byPassportCode)?.userId ?? null);
+}
+
+/**
+ * Fills the existing match's empty mergeable fields from the row
+ */
+async function mergeIntoExisting(existing: MatchRecord, record: InsertMatchRecord): Promise<{
+  match: MatchRecord,
+  mergedFields: string[]
+}> {
+  const updates: Partial<InsertMatchRecord> = {};
+
+  for (const field of MERGEABLE_MATCH_FIELDS) {
+    const incoming = record[field];
+    if ((existing[field] === null || existing[field] === undefined) && incoming !== null && incoming !== undefined) {
+      (updates as Record<string, unknown>)[field] = incoming;
+    }
+  }
+
+  const mergedFields = Object.keys(updates);
+  if (mergedFields.length === 0) {
+    return { match: existing, mergedFields };
+  }
+
+  const [match] = await db.update(matches)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(matches.id, existing.id))
+    .returning();
+
+  return { match, mergedFields };
+}
+
+/**
+ * Ingests rows in order. Rows are independent: a rejected row does not stop
+ * the rest, and a row repeating an earlier row of the same batch is reported
+ * as its duplicate.
+ */
+export async function ingestMatches(
+  rows: MatchIngestionRow[],
+  options: MatchIngestionOptions
+): Promise<MatchIngestionReport> {
+  const duplicatePolicy = options.duplicatePolicy || 'reject';
+  const writer = options.writer ?? db;
+  const { byUserId, byPassportCode } = await resolvePlayers(rows.flatMap(row => [...row.team1, ...row.team2]));
+  const results: MatchIngestionResult[] = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    const rowNumber = row.rowNumber ?? index + 1;
+    const rejection = validateIngestionRow(row);
+
+    if (rejection) {
+      results.push({ rowNumber, status: 'rejected', ...rejection });
+      continue;
+    }
+
+    const resolveSide = (side: MatchPlayerRef[]) => side.map(ref => findPlayer(ref, byUserId, byPassportCode));
+
+    const team1 = resolveSide(row.team1);
+    const team2 = resolveSide(row.team2);
+    const resolved = [...team1, ...team2];
+    const unknownRefs = [...row.team1, ...row.team2].filter((_, i) => !resolved[i]);
+
+    if (unknownRefs.length > 0) {
+      results.push({
+        rowNumber,
+        status: 'rejected',
+        reason: 'unknown_player',
+        message: `Player not found: ${unknownRefs.map(describeRef).join(', ')}`
+      });
+      continue;
+    }
+
+    const team1Players = team1 as ResolvedPlayer[];
+    const team2Players = team2 as ResolvedPlayer[];
+    const userIds = [...team1Players, ...team2Players].map(player => player.userId);
+
+    if (new Set(userIds).size !== userIds.length) {
+      results.push({
+        rowNumber,
+        status: 'rejected',
+        reason: 'duplicate_player',
+        message: 'A player can only appear once in a match'
+      });
+      continue;
+    }
+
+    const signature = {
+      team1: team1Players.map(player => player.identity),
+      team2: team2Players.map(player => player.identity),
+      team1Score: scoreText(row.team1Score),
+      team2Score: scoreText(row.team2Score),
+      games: row.games,
+      matchDate: row.matchDate,
+      event: row.event,
+      sourceReference: row.sourceReference
+    };
+    const idempotencyKey = generateMatchIdempotencyKey(signature);
+    const adjacentKeys = getAdjacentMatchIdempotencyKeys(signature);
+
+    const record = buildMatchRecord(
+      row,
+      team1Players.map(player => player.userId),
+      team2Players.map(player => player.userId),
+      idempotencyKey
+    );
+
+    const { created, nearby } = await writer.transaction(async (tx) => {
+      if (adjacentKeys.length > 0) {
+        // Results of the same players are checked one at a time, so two
+        // submissions a moment apart cannot both miss each other
+        const lockKey = `match-result:${[...userIds].sort((a, b) => a - b).join(',')}`;
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`);
+
+        const matchTime = new Date(row.matchDate).getTime();
+        const windowMs = MATCH_RESULT_WINDOW_MINUTES * 60 * 1000;
+        const [nearbyMatch] = await tx.select()
+          .from(matches)
+          .where(and(
+            inArray(matches.idempotencyKey, adjacentKeys),
+            gte(matches.matchDate, new Date(matchTime - windowMs)),
+            lte(matches.matchDate, new Date(matchTime + windowMs))
+          ))
+          .limit(1);
+
+        if (nearbyMatch) {
+          return { created: undefined, nearby: nearbyMatch };
+        }
+      }
+
+      const [inserted] = await tx.insert(matches)
+        .values(record)
+        .onConflictDoNothing({ target: matches.idempotencyKey })
+        .returning();
+
+      // Scheduled matches are announced once they are played
+      if (inserted && scoreText(row.team1Score) !== null && scoreText(row.team2Score) !== null) {
+        await publishDomainEvent(tx, 'match.completed', {
+          match_id: inserted.id,
+          format: inserted.formatType === 'doubles' ? 'doubles' : 'singles',
+          match_type: inserted.matchType ?? null,
+          team1: team1Players.map(player => player.userId),
+          team2: team2Players.map(player => player.userId),
+          team1_score: inserted.scorePlayerOne,
+          team2_score: inserted.scorePlayerTwo,
+          winning_team: inserted.winnerId === inserted.playerOneId ? 1 : 2,
+          tournament_id: inserted.tournamentId ?? null,
+          match_date: new Date(inserted.matchDate ?? row.matchDate).toISOString()
+        });
+      }
+
+      return { created: inserted, nearby: undefined };
+    });
+
+    if (created) {
+      results.push({ rowNumber, status: 'created', matchId: created.id, idempotencyKey, match: created });
+      continue;
+    }
+
+    const [existing] = nearby ? [nearby] : await writer.select()
+      .from(matches)
+      .where(eq(matches.idempotencyKey, idempotencyKey))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error(`Match with idempotency key ${idempotencyKey} not found after conflict`);
+    }
+
+    const { match, mergedFields } = duplicatePolicy === 'merge'
+      ? await mergeIntoExisting(existing, record)
+      : { match: existing, mergedFields: [] };
+
+    console.log(`[MatchIngestion] ${options.source} row ${rowNumber} duplicates match ${existing.id}`);
+    results.push({
+      rowNumber,
+      status: 'duplicate',
+      duplicateOfMatchId: existing.id,
+      idempotencyKey,
+      match,
+      mergedFields
+    });
+  }
+
+  const report: MatchIngestionReport = {
+    source: options.source,
+    created: results.filter(result => result.status === 'created').length,
+    duplicates: results.filter(result => result.status === 'duplicate').length,
+    rejected: results.filter(result => result.status === 'rejected').length,
+    results
+  };
+
+  console.log(`[MatchIngestion] ${options.source}: ${report.created} created, ${report.duplicates} duplicates, ${report.rejected} rejected`);
+  return report;
+}
+
+/**
+ * Ingests a single match
+ */
+export async function ingestMatch(
+  row: MatchIngestionRow,
+  options: MatchIngestionOptions
+): Promise<MatchIngestionResult> {
+  const { results } = await ingestMatches([row], options);
+  return results[0];
+}
+
+/**
+ * Ingests a match recorded by the system itself (brackets, ladders, fixtures).
+ * Returns the new match, or the existing one when the same source reference
+ * was already recorded; a rejected row is an error.
+ */
+export async function ensureMatchRecorded(
+  row: MatchIngestionRow,
+  source: string,
+  writer?: Writer
+): Promise<{ match: MatchRecord, created: boolean }> {
+  const result = await ingestMatch(row, { source, duplicatePolicy: 'reject', writer });
+
+  if (result.status === 'rejected') {
+    throw new Error(`Match rejected (${result.reason}): ${result.message}`);
+  }
+
+  return { match: result.match, created: result.status === 'created' };
+}
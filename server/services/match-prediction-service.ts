@@ -0,0 +1,428 @@
+/**
+ * Match Prediction Service
+ *
+ * Predicts singles and doubles matches from the players' skill ratings and
+ * head-to-head record, suggests a handicap for recreational play, and keeps
+ * recorded predictions with the actual results to measure calibration.
+ */
+
+import { db } from "../db";
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lte, or } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  matches,
+  matchPredictions,
+  type MatchChallenge,
+  type MatchPredictionContext,
+  type MatchPredictionRecord,
+  type SkillRatingFormat
+} from "../../shared/schema";
+import { isProvisional, teamComposite, type Glicko2Rating } from "../../shared/utils/glicko2";
+import {
+  predictOutcome,
+  DEFAULT_MATCH_FORMAT,
+  type MatchFormatOptions,
+  type MatchPrediction
+} from "../../shared/utils/matchPredictor";
+import { getSkillRatingFormat, loadRatingStates } from "./skill-rating-service";
+
+type Writer = PgDatabase<any, any, any>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long before a match a recorded prediction can still be matched to it
+ */
+export const PREDICTION_RESOLVE_WINDOW_DAYS = 7;
+
+/**
+ * One side of a predicted match
+ */
+export interface PredictionSide {
+  playerIds: number[];
+  rating: number;
+  deviation: number;
+  provisional: boolean;
+}
+
+/**
+ * Previous matches between exactly these two sides
+ */
+export interface HeadToHeadRecord {
+  matches: number;
+  team1Wins: number;
+  team2Wins: number;
+  lastPlayedAt: Date | null;
+}
+
+/**
+ * A prediction as returned by the API
+ */
+export interface MatchPredictionSummary extends MatchPrediction {
+  ratingFormat: SkillRatingFormat;
+  team1: PredictionSide;
+  team2: PredictionSide;
+  headToHead: HeadToHeadRecord;
+  predictionId: number | null; // Set when the prediction was recorded
+}
+
+/**
+ * Where a recorded prediction was shown
+ */
+export interface PredictionRecordOptions {
+  context: MatchPredictionContext;
+  contextId?: number | null;
+  createdById?: number | null;
+}
+
+/**
+ * One probability bucket of the calibration report
+ */
+export interface CalibrationBucket {
+  from: number;
+  to: number;
+  predictions: number;
+  meanPredicted: number;
+  observedWinRate: number;
+}
+
+export interface PredictionCalibration {
+  predictions: number;
+  brierScore: number | null;
+  logLoss: number | null;
+  buckets: CalibrationBucket[];
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function sameSide(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every(playerId => b.includes(playerId));
+}
+
+/**
+ * Sides of a stored match
+ */
+function getMatchSides(match: {
+  playerOneId: number,
+  playerTwoId: number,
+  playerOnePartnerId: number | null,
+  playerTwoPartnerId: number | null
+}): { team1: number[], team2: number[] } {
+  return {
+    team1: [match.playerOneId, match.playerOnePartnerId].filter((playerId): playerId is number => !!playerId),
+    team2: [match.playerTwoId, match.playerTwoPartnerId].filter((playerId): playerId is number => !!playerId)
+  };
+}
+
+/**
+ * Challenge fields that decide who plays on each side
+ */
+export type ChallengeSidesSource = Pick<MatchChallenge,
+  'id' | 'matchType' | 'challengerId' | 'challengedId' | 'challengerPartnerId' | 'challengedPartnerId'
+>;
+
+/**
+ * Sides of a challenge; the challenged partner is only known once accepted
+ */
+export function getChallengeSides(challenge: ChallengeSidesSource): { team1: number[], team2: number[], complete: boolean } {
+  const team1 = [challenge.challengerId, challenge.challengerPartnerId].filter((playerId): playerId is number => !!playerId);
+  const team2 = [challenge.challengedId, challenge.challengedPartnerId].filter((playerId): playerId is number => !!playerId);
+  const playersPerSide = challenge.matchType === 'singles' ? 1 : 2;
+
+  return { team1, team2, complete: team1.length === playersPerSide && team2.length === playersPerSide };
+}
+
+/**
+ * Win/loss record between exactly these two sides (either way round)
+ */
+export async function getHeadToHead(team1: number[], team2: number[]): Promise<HeadToHeadRecord> {
+  const playerIds = [...team1, ...team2];
+
+  const rows = await db.select({
+    playerOneId: matches.playerOneId,
+    playerTwoId: matches.playerTwoId,
+    playerOnePartnerId: matches.playerOnePartnerId,
+    playerTwoPartnerId: matches.playerTwoPartnerId,
+    winnerId: matches.winnerId,
+    matchDate: matches.matchDate,
+    createdAt: matches.createdAt
+  })
+    .from(matches)
+    .where(and(
+      inArray(matches.playerOneId, playerIds),
+      inArray(matches.playerTwoId, playerIds),
+      or(isNull(matches.isTestData), eq(matches.isTestData, false))
+    ))
+    .orderBy(desc(matches.matchDate))
+    .limit(200);
+
+  const record: HeadToHeadRecord = { matches: 0, team1Wins: 0, team2Wins: 0, lastPlayedAt: null };
+
+  for (const row of rows) {
+    const sides = getMatchSides(row);
+    const winningSide = sides.team1.includes(row.winnerId) ? sides.team1 : sides.team2;
+
+    if (!(sameSide(sides.team1, team1) && sameSide(sides.team2, team2)) &&
+        !(sameSide(sides.team1, team2) && sameSide(sides.team2, team1))) {
+      continue;
+    }
+
+    record.matches++;
+    if (sameSide(winningSide, team1)) record.team1Wins++;
+    else record.team2Wins++;
+
+    const playedAt = row.matchDate || row.createdAt;
+    if (playedAt && (!record.lastPlayedAt || playedAt > record.lastPlayedAt)) {
+      record.lastPlayedAt = playedAt;
+    }
+  }
+
+  return record;
+}
+
+function toSide(playerIds: number[], composite: Glicko2Rating, matchesPlayed: number): PredictionSide {
+  return {
+    playerIds,
+    rating: Math.round(composite.rating),
+    deviation: Math.round(composite.deviation),
+    provisional: isProvisional(composite, matchesPlayed)
+  };
+}
+
+/**
+ * Predict a match between two sides of one or two players.
+ * Pass record options to keep the prediction for calibration.
+ */
+export async function predictMatch(
+  team1: number[],
+  team2: number[],
+  format: Partial<MatchFormatOptions> = {},
+  record?: PredictionRecordOptions
+): Promise<MatchPredictionSummary> {
+  const ratingFormat = getSkillRatingFormat({ team1, team2 });
+  const states = await loadRatingStates([...team1, ...team2], ratingFormat);
+
+  const team1States = team1.map(playerId => states.get(playerId)!);
+  const team2States = team2.map(playerId => states.get(playerId)!);
+  const composite1 = teamComposite(team1States);
+  const composite2 = teamComposite(team2States);
+
+  const outcome = predictOutcome(composite1, composite2, { ...DEFAULT_MATCH_FORMAT, ...format });
+  const headToHead = await getHeadToHead(team1, team2);
+
+  let predictionId: number | null = null;
+  if (record) {
+    const [saved] = await db.insert(matchPredictions).values({
+      context: record.context,
+      contextId: record.contextId ?? null,
+      format: ratingFormat,
+      team1PlayerIds: team1,
+      team2PlayerIds: team2,
+      team1Rating: composite1.rating.toFixed(2),
+      team1Deviation: composite1.deviation.toFixed(2),
+      team2Rating: composite2.rating.toFixed(2),
+      team2Deviation: composite2.deviation.toFixed(2),
+      pointsToWin: outcome.format.pointsToWin,
+      winByTwo: outcome.format.winByTwo,
+      gamesToWin: outcome.format.gamesToWin,
+      team1WinProbability: outcome.team1WinProbability.toFixed(4),
+      expectedTeam1Points: outcome.expectedScore.team1.toFixed(2),
+      expectedTeam2Points: outcome.expectedScore.team2.toFixed(2),
+      handicapTeam: outcome.handicap.team,
+      handicapPoints: outcome.handicap.points,
+      createdById: record.createdById ?? null
+    }).returning({ id: matchPredictions.id });
+
+    predictionId = saved.id;
+  }
+
+  return {
+    ...outcome,
+    team1WinProbability: round(outcome.team1WinProbability, 4),
+    gameWinProbability: round(outcome.gameWinProbability, 4),
+    rallyWinProbability: round(outcome.rallyWinProbability, 4),
+    expectedScore: {
+      team1: round(outcome.expectedScore.team1, 1),
+      team2: round(outcome.expectedScore.team2, 1)
+    },
+    handicap: { ...outcome.handicap, team1WinProbability: round(outcome.handicap.team1WinProbability, 4) },
+    ratingFormat,
+    team1: toSide(team1, composite1, Math.min(...team1States.map(state => state.matchesPlayed))),
+    team2: toSide(team2, composite2, Math.min(...team2States.map(state => state.matchesPlayed))),
+    headToHead,
+    predictionId
+  };
+}
+
+/**
+ * Predict a challenge from the challenger's side. The prediction is recorded
+ * once, when both sides are complete and recording is requested.
+ */
+export async function predictChallenge(
+  challenge: ChallengeSidesSource,
+  options: { record?: boolean, createdById?: number } = {}
+): Promise<MatchPredictionSummary> {
+  const { team1, team2, complete } = getChallengeSides(challenge);
+
+  let record: PredictionRecordOptions | undefined;
+  if (options.record && complete) {
+    const [existing] = await db.select({ id: matchPredictions.id })
+      .from(matchPredictions)
+      .where(and(eq(matchPredictions.context, 'challenge'), eq(matchPredictions.contextId, challenge.id)))
+      .limit(1);
+
+    if (!existing) {
+      record = { context: 'challenge', contextId: challenge.id, createdById: options.createdById ?? null };
+    }
+  }
+
+  return predictMatch(team1, team2, DEFAULT_MATCH_FORMAT, record);
+}
+
+/**
+ * Attach the result of a recorded match to the latest open prediction for
+ * the same two sides made in the days before it.
+ * IDEMPOTENT: a match resolves at most one prediction.
+ *
+ * @param writer - Database or transaction the match was recorded in
+ * @returns The resolved prediction, or null when none was waiting
+ */
+export async function resolvePredictionsForMatch(
+  matchId: number,
+  writer: Writer = db
+): Promise<MatchPredictionRecord | null> {
+  const [match] = await writer.select()
+    .from(matches)
+    .where(eq(matches.id, matchId))
+    .limit(1);
+
+  if (!match) {
+    throw new Error(`Match with ID ${matchId} not found`);
+  }
+
+  const [alreadyResolved] = await writer.select({ id: matchPredictions.id })
+    .from(matchPredictions)
+    .where(eq(matchPredictions.matchId, matchId))
+    .limit(1);
+
+  if (alreadyResolved) {
+    return null;
+  }
+
+  const sides = getMatchSides(match);
+  const playedAt = match.matchDate || match.createdAt || new Date();
+
+  const candidates = await writer.select()
+    .from(matchPredictions)
+    .where(and(
+      eq(matchPredictions.format, getSkillRatingFormat(sides)),
+      isNull(matchPredictions.resolvedAt),
+      gte(matchPredictions.createdAt, new Date(playedAt.getTime() - PREDICTION_RESOLVE_WINDOW_DAYS * DAY_MS)),
+      lte(matchPredictions.createdAt, match.createdAt || new Date())
+    ))
+    .orderBy(desc(matchPredictions.createdAt), desc(matchPredictions.id));
+
+  const team1Won = sides.team1.includes(match.winnerId);
+
+  for (const prediction of candidates) {
+    let predictedTeam1Won: boolean;
+    if (sameSide(prediction.team1PlayerIds, sides.team1) && sameSide(prediction.team2PlayerIds, sides.team2)) {
+      predictedTeam1Won = team1Won;
+    } else if (sameSide(prediction.team1PlayerIds, sides.team2) && sameSide(prediction.team2PlayerIds, sides.team1)) {
+      predictedTeam1Won = !team1Won;
+    } else {
+      continue;
+    }
+
+    const [resolved] = await writer.update(matchPredictions)
+      .set({ matchId, team1Won: predictedTeam1Won, resolvedAt: new Date() })
+      .where(and(eq(matchPredictions.id, prediction.id), isNull(matchPredictions.resolvedAt)))
+      .returning();
+
+    if (resolved) {
+      console.log(`[MatchPrediction] Resolved prediction ${resolved.id} with match ${matchId}`);
+    }
+    return resolved || null;
+  }
+
+  return null;
+}
+
+/**
+ * Reliability of resolved predictions: predicted vs observed win rate per
+ * probability bucket, with the Brier score and log loss overall
+ */
+export async function getPredictionCalibration(options: {
+  context?: MatchPredictionContext,
+  format?: SkillRatingFormat,
+  since?: Date,
+  buckets?: number
+} = {}): Promise<PredictionCalibration> {
+  const conditions = [isNotNull(matchPredictions.resolvedAt), isNotNull(matchPredictions.team1Won)];
+  if (options.context) conditions.push(eq(matchPredictions.context, options.context));
+  if (options.format) conditions.push(eq(matchPredictions.format, options.format));
+  if (options.since) conditions.push(gte(matchPredictions.createdAt, options.since));
+
+  const rows = await db.select({
+    team1WinProbability: matchPredictions.team1WinProbability,
+    team1Won: matchPredictions.team1Won
+  })
+    .from(matchPredictions)
+    .where(and(...conditions));
+
+  return summarizeCalibration(
+    rows.map(row => ({ probability: Number(row.team1WinProbability), won: !!row.team1Won })),
+    options.buckets || 10
+  );
+}
+
+/**
+ * Calibration report from predicted probabilities and outcomes
+ */
+export function summarizeCalibration(
+  results: Array<{ probability: number, won: boolean }>,
+  bucketCount: number = 10
+): PredictionCalibration {
+  const buckets: CalibrationBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+    from: round(index / bucketCount, 4),
+    to: round((index + 1) / bucketCount, 4),
+    predictions: 0,
+    meanPredicted: 0,
+    observedWinRate: 0
+  }));
+
+  if (results.length === 0) {
+    return { predictions: 0, brierScore: null, logLoss: null, buckets };
+  }
+
+  let brier = 0;
+  let logLoss = 0;
+
+  for (const { probability, won } of results) {
+    const outcome = won ? 1 : 0;
+    const clamped = Math.min(1 - 1e-6, Math.max(1e-6, probability));
+    brier += (probability - outcome) ** 2;
+    logLoss -= outcome * Math.log(clamped) + (1 - outcome) * Math.log(1 - clamped);
+
+    const bucket = buckets[Math.min(bucketCount - 1, Math.floor(probability * bucketCount))];
+    bucket.predictions++;
+    bucket.meanPredicted += probability;
+    bucket.observedWinRate += outcome;
+  }
+
+  for (const bucket of buckets) {
+    if (bucket.predictions === 0) continue;
+    bucket.meanPredicted = round(bucket.meanPredicted / bucket.predictions, 4);
+    bucket.observedWinRate = round(bucket.observedWinRate / bucket.predictions, 4);
+  }
+
+  return {
+    predictions: results.length,
+    brierScore: round(brier / results.length, 4),
+    logLoss: round(logLoss / results.length, 4),
+    buckets
+  };
+}
@@ -0,0 +1,690 @@
+/**
+ * Payout Batch Service
+ *
+ * Runs coach payouts end to end. A run gathers each due coach's unpaid
+ * session transactions up to the end of the period, applies their PCP-level
+ * commission and approved adjustments, and records one coach payout with its
+ * statement items. Totals below a coach's minimum are recorded as carried
+ * forward and their transactions stay unpaid for the next run.
+ *
+ * Submitting a batch sends a Wise transfer per payout; reconciling reads the
+ * transfer outcomes back. Failed transfers release their transactions and
+ * adjustments so the next run picks them up again. A transfer whose outcome
+ * is unclear (a timeout or server error) keeps its payout processing, and
+ * reconciling sends it again under the same customer transaction id, which
+ * Wise answers with the transfer it already made.
+ *
+ * Each step posts to the ledger: the payout is owed to the coach when the
+ * run records it, paid from Wise clearing when it settles, and released
+ * when it fails.
+ */
+
+import { db } from "../db";
+import { and, desc, eq, inArray, isNull, lt, sql } from "drizzle-orm";
+import { users } from "../../shared/schema";
+import {
+  coachPayoutConfig,
+  sessionTransactions,
+  payoutBatches,
+  coachPayouts,
+  payoutAdjustments,
+  payoutStatementItems,
+  type CoachPayout,
+  type PayoutBatch
+} from "../../shared/schema/payout-system";
+import {
+  calculateCoachPayout,
+  isPayoutDue,
+  parseLevelCommissionRates,
+  reconcileTransfer,
+  type PayoutStatement
+} from "../../shared/utils/payoutCalculator";
+import { fromCents, toCents } from "../../shared/utils/cancellationPolicy";
+import { getWisePayoutClient, isTransferRejection, payoutTransactionId, type WisePayoutClient } from "./wise-payout-client";
+import { postLedgerEntry } from "./ledger-service";
+
+type PayoutTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Transactions that still earn the coach money; cancelled ones earn nothing
+const PAYABLE_TRANSACTION_STATUSES = ['completed', 'refunded'];
+
+export interface PayoutRunOptions {
+  periodStart: Date;
+  periodEnd: Date;
+  processedBy: number;
+  coachIds?: number[];
+}
+
+export interface PayoutRunResult {
+  batch: PayoutBatch;
+  payouts: CoachPayout[];
+  skipped: { coachId: number, reason: string }[];
+}
+
+export interface BatchReconciliation {
+  batch: PayoutBatch;
+  completed: number;
+  failed: number;
+  processing: number;
+  discrepancies: { payoutId: number, coachId: number, discrepancy: string }[];
+}
+
+export interface PayoutUser {
+  id: number;
+  isAdmin?: boolean;
+}
+
+function ymd(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Coaches with unpaid transactions before the period end or unapplied
+ * approved adjustments
+ */
+async function coachesWithUnpaidEarnings(periodEnd: Date): Promise<number[]> {
+  const withSessions = await db.selectDistinct({ coachId: sessionTransactions.coachId })
+    .from(sessionTransactions)
+    .where(and(
+      eq(sessionTransactions.payoutStatus, 'pending'),
+      inArray(sessionTransactions.status, PAYABLE_TRANSACTION_STATUSES),
+      lt(sessionTransactions.sessionDate, periodEnd)
+    ));
+
+  const withAdjustments = await db.selectDistinct({ coachId: payoutAdjustments.coachId })
+    .from(payoutAdjustments)
+    .where(and(eq(payoutAdjustments.status, 'approved'), isNull(payoutAdjustments.appliedToBatchId)));
+
+  return Array.from(new Set([...withSessions, ...withAdjustments].map(row => row.coachId))).sort((a, b) => a - b);
+}
+
+async function lastPaidPeriodEnd(tx: PayoutTx, coachId: number): Promise<Date | null> {
+  const [row] = await tx.select({ periodEnd: payoutBatches.periodEnd })
+    .from(coachPayouts)
+    .innerJoin(payoutBatches, eq(payoutBatches.id, coachPayouts.batchId))
+    .where(and(
+      eq(coachPayouts.coachId, coachId),
+      inArray(coachPayouts.status, ['pending', 'processing', 'completed'])
+    ))
+    .orderBy(desc(payoutBatches.periodEnd))
+    .limit(1);
+  return row?.periodEnd ?? null;
+}
+
+/**
+ * Works out one coach's payout in the batch. Returns the skip reason when
+ * the coach is not paid in this run.
+ */
+async function buildCoachPayout(
+  tx: PayoutTx,
+  batch: PayoutBatch,
+  coachId: number
+): Promise<CoachPayout | string> {
+  const [config] = await tx.select()
+    .from(coachPayoutConfig)
+    .where(eq(coachPayoutConfig.coachId, coachId))
+    .for('update');
+
+  if (!config) {
+    return 'No payout configuration';
+  }
+  if (config.isPayoutEnabled === false) {
+    return `Payouts suspended${config.suspensionReason ? `: ${config.suspensionReason}` : ''}`;
+  }
+  if (!isPayoutDue(config.payoutFrequency, await lastPaidPeriodEnd(tx, coachId), batch.periodEnd)) {
+    return `Not due (${config.payoutFrequency ?? 'weekly'} payouts)`;
+  }
+
+  const sessions = await tx.select()
+    .from(sessionTransactions)
+    .where(and(
+      eq(sessionTransactions.coachId, coachId),
+      eq(sessionTransactions.payoutStatus, 'pending'),
+      inArray(sessionTransactions.status, PAYABLE_TRANSACTION_STATUSES),
+      lt(sessionTransactions.sessionDate, batch.periodEnd)
+    ))
+    .for('update');
+
+  const adjustments = await tx.select()
+    .from(payoutAdjustments)
+    .where(and(
+      eq(payoutAdjustments.coachId, coachId),
+      eq(payoutAdjustments.status, 'approved'),
+      isNull(payoutAdjustments.appliedToBatchId)
+    ))
+    .for('update');
+
+  const calculation = calculateCoachPayout(
+    sessions.map(session => ({
+      id: session.id,
+      sessionDate: session.sessionDate,
+      sessionType: session.sessionType,
+      grossCents: toCents(session.grossAmount),
+      pcpLevel: session.pcpLevel,
+      recordedCommissionRate: Number(session.commissionRate)
+    })),
+    adjustments.map(adjustment => ({
+      id: adjustment.id,
+      type: adjustment.adjustmentType,
+      amountCents: toCents(adjustment.amount),
+      reason: adjustment.reason
+    })),
+    {
+      levelRates: parseLevelCommissionRates(config.levelCommissionRates),
+      minimumPayoutCents: toCents(config.minimumPayoutAmount)
+    }
+  );
+
+  const [payout] = await tx.insert(coachPayouts)
+    .values({
+      batchId: batch.id,
+      coachId,
+      totalSessions: calculation.sessions,
+      grossRevenue: fromCents(calculation.grossRevenueCents),
+      platformFees: fromCents(calculation.platformFeesCents),
+      netPayout: fromCents(calculation.netPayoutCents),
+      previousAdjustments: fromCents(calculation.otherAdjustmentsCents),
+      bonuses: fromCents(calculation.bonusesCents),
+      penalties: fromCents(calculation.penaltiesCents),
+      finalAmount: fromCents(calculation.finalAmountCents),
+      payoutCurrency: config.preferredCurrency ?? 'USD',
+      status: calculation.payable ? 'pending' : 'carried_forward'
+    })
+    .returning();
+
+  if (calculation.lines.length > 0) {
+    await tx.insert(payoutStatementItems).values(calculation.lines.map(line => ({
+      payoutId: payout.id,
+      kind: line.kind,
+      referenceId: line.referenceId,
+      itemDate: line.date,
+      description: line.description,
+      grossAmount: fromCents(line.grossCents),
+      commissionRate: line.commissionRate === null ? null : line.commissionRate.toFixed(2),
+      platformFee: fromCents(line.platformFeeCents),
+      netAmount: fromCents(line.netCents)
+    })));
+  }
+
+  if (calculation.payable) {
+    await postLedgerEntry(
+      { kind: 'coach_payout_accrual', coachId, amountCents: calculation.finalAmountCents },
+      { key: `coach_payout:${payout.id}:accrual`, referenceType: 'coach_payout', referenceId: payout.id, description: `Coach payout ${batch.batchNumber}` },
+      tx
+    );
+    if (sessions.length > 0) {
+      await tx.update(sessionTransactions)
+        .set({ payoutStatus: 'included_in_batch', payoutBatchId: batch.id, updatedAt: new Date() })
+        .where(inArray(sessionTransactions.id, sessions.map(session => session.id)));
+    }
+    if (adjustments.length > 0) {
+      await tx.update(payoutAdjustments)
+        .set({ status: 'applied', appliedToBatchId: batch.id, appliedAt: new Date(), updatedAt: new Date() })
+        .where(inArray(payoutAdjustments.id, adjustments.map(adjustment => adjustment.id)));
+    }
+  }
+
+  await tx.update(coachPayoutConfig)
+    .set({ pendingAmount: calculation.payable ? '0' : fromCents(calculation.finalAmountCents), updatedAt: new Date() })
+    .where(eq(coachPayoutConfig.id, config.id));
+
+  return payout;
+}
+
+/**
+ * Creates the payout batch for a period. Each period is run once.
+ */
+export async function runPayoutBatch(options: PayoutRunOptions): Promise<PayoutRunResult> {
+  if (options.periodEnd <= options.periodStart) {
+    throw new Error('Payout period must end after it starts');
+  }
+
+  const batchNumber = `PB-${ymd(options.periodStart)}-${ymd(options.periodEnd)}`;
+  const [existing] = await db.select({ id: payoutBatches.id })
+    .from(payoutBatches)
+    .where(eq(payoutBatches.batchNumber, batchNumber));
+  if (existing) {
+    throw new Error(`Payout batch ${batchNumber} already exists for this period`);
+  }
+
+  let coachIds = await coachesWithUnpaidEarnings(options.periodEnd);
+  if (options.coachIds) {
+    const requested = new Set(options.coachIds);
+    coachIds = coachIds.filter(coachId => requested.has(coachId));
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const [batch] = await tx.insert(payoutBatches)
+      .values({
+        batchNumber,
+        periodStart: options.periodStart,
+        periodEnd: options.periodEnd,
+        totalCoaches: 0,
+        totalTransactions: 0,
+        totalAmount: '0',
+        status: 'pending',
+        processedBy: options.processedBy
+      })
+      .returning();
+
+    const payouts: CoachPayout[] = [];
+    const skipped: { coachId: number, reason: string }[] = [];
+    for (const coachId of coachIds) {
+      const outcome = await buildCoachPayout(tx, batch, coachId);
+      if (typeof outcome === 'string') {
+        skipped.push({ coachId, reason: outcome });
+      } else {
+        payouts.push(outcome);
+      }
+    }
+
+    const paid = payouts.filter(payout => payout.status === 'pending');
+    const [updated] = await tx.update(payoutBatches)
+      .set({
+        totalCoaches: paid.length,
+        totalTransactions: paid.reduce((sum, payout) => sum + payout.totalSessions, 0),
+        totalAmount: fromCents(paid.reduce((sum, payout) => sum + toCents(payout.finalAmount), 0)),
+        updatedAt: new Date()
+      })
+      .where(eq(payoutBatches.id, batch.id))
+      .returning();
+
+    return { batch: updated, payouts, skipped };
+  });
+
+  const carried = result.payouts.length - result.batch.totalCoaches;
+  console.log(`[PayoutBatch] ${batchNumber}: ${result.batch.totalCoaches} payouts totalling ${result.batch.totalAmount}, ${carried} carried forward, ${result.skipped.length} skipped`);
+  return result;
+}
+
+/**
+ * Returns a failed payout's transactions and adjustments to the unpaid pool
+ */
+async function releasePayout(tx: PayoutTx, payout: CoachPayout): Promise<void> {
+  await tx.update(sessionTransactions)
+    .set({ payoutStatus: 'pending', payoutBatchId: null, updatedAt: new Date() })
+    .where(and(eq(sessionTransactions.payoutBatchId, payout.batchId), eq(sessionTransactions.coachId, payout.coachId)));
+
+  await tx.update(payoutAdjustments)
+    .set({ status: 'approved', appliedToBatchId: null, appliedAt: null, updatedAt: new Date() })
+    .where(and(eq(payoutAdjustments.appliedToBatchId, payout.batchId), eq(payoutAdjustments.coachId, payout.coachId)));
+}
+
+async function failPayout(payout: CoachPayout, errorCode: string, errorMessage: string, wiseStatus?: string): Promise<boolean> {
+  const failed = await db.transaction(async (tx) => {
+    // Only an open payout can fail; another request may have settled it
+    const [updated] = await tx.update(coachPayouts)
+      .set({
+        status: 'failed',
+        errorCode,
+        errorMessage: errorMessage.slice(0, 1000),
+        wiseTransferStatus: wiseStatus ?? payout.wiseTransferStatus,
+        retryCount: (payout.retryCount ?? 0) + 1,
+        updatedAt: new Date()
+      })
+      .where(and(eq(coachPayouts.id, payout.id), inArray(coachPayouts.status, ['pending', 'processing'])))
+      .returning({ id: coachPayouts.id });
+    if (!updated) {
+      return false;
+    }
+
+    await releasePayout(tx, payout);
+    await postLedgerEntry(
+      { kind: 'coach_payout_reversal', coachId: payout.coachId, amountCents: toCents(payout.finalAmount) },
+      { key: `coach_payout:${payout.id}:reversal`, referenceType: 'coach_payout', referenceId: payout.id, description: `Payout failed: ${errorCode}` },
+      tx
+    );
+    return true;
+  });
+
+  if (failed) {
+    console.warn(`[PayoutBatch] Payout ${payout.id} for coach ${payout.coachId} failed: ${errorCode}`);
+  }
+  return failed;
+}
+
+/**
+ * Brings a batch's status and failure summary in line with its payouts
+ */
+async function refreshBatchStatus(batchId: number): Promise<PayoutBatch> {
+  const payouts = await db.select()
+    .from(coachPayouts)
+    .where(and(eq(coachPayouts.batchId, batchId), inArray(coachPayouts.status, ['pending', 'processing', 'completed', 'failed'])));
+
+  const count = (status: string) => payouts.filter(payout => payout.status === status).length;
+  const failed = payouts.filter(payout => payout.status === 'failed');
+  const open = count('pending') + count('processing');
+
+  let status: string;
+  if (open > 0) {
+    status = count('pending') === payouts.length ? 'pending' : 'processing';
+  } else if (failed.length === 0) {
+    status = 'completed';
+  } else {
+    status = failed.length === payouts.length ? 'failed' : 'partially_failed';
+  }
+
+  const [batch] = await db.update(payoutBatches)
+    .set({
+      status,
+      failedPayouts: failed.length,
+      errorSummary: failed.length > 0
+        ? JSON.stringify(failed.map(payout => ({ payoutId: payout.id, coachId: payout.coachId, errorCode: payout.errorCode, error: payout.errorMessage })))
+        : null,
+      completedAt: open === 0 ? new Date() : null,
+      updatedAt: new Date()
+    })
+    .where(eq(payoutBatches.id, batchId))
+    .returning();
+  return batch;
+}
+
+/**
+ * Sends a payout's Wise transfer, or sends it again when an earlier attempt
+ * had an unclear outcome. The payout fails only when Wise rejects the first
+ * attempt; after that a transfer may already exist, so it stays processing.
+ */
+async function sendPayoutTransfer(
+  payout: CoachPayout,
+  batchNumber: string,
+  client: WisePayoutClient
+): Promise<'processing' | 'failed'> {
+  const [config] = await db.select()
+    .from(coachPayoutConfig)
+    .where(eq(coachPayoutConfig.coachId, payout.coachId));
+
+  if (!config?.wiseAccountId) {
+    if (payout.status === 'pending') {
+      await failPayout(payout, 'NO_WISE_ACCOUNT', 'Coach has no Wise recipient account on file');
+      return 'failed';
+    }
+    return 'processing';
+  }
+
+  try {
+    const transfer = await client.createTransfer({
+      customerTransactionId: payoutTransactionId(payout.id),
+      recipientAccountId: config.wiseAccountId,
+      sourceCurrency: 'USD',
+      targetCurrency: payout.payoutCurrency,
+      sourceAmount: Number(payout.finalAmount),
+      reference: `Pickle+ payout ${batchNumber}`
+    });
+
+    await db.update(coachPayouts)
+      .set({
+        status: 'processing',
+        wiseTransactionId: transfer.id,
+        wiseQuoteId: transfer.quoteId,
+        wiseTransferStatus: transfer.status,
+        exchangeRate: transfer.rate === null ? null : transfer.rate.toFixed(6),
+        convertedAmount: transfer.targetAmount === null ? null : transfer.targetAmount.toFixed(2),
+        errorCode: null,
+        errorMessage: null,
+        processedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(eq(coachPayouts.id, payout.id), inArray(coachPayouts.status, ['pending', 'processing'])));
+    return 'processing';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (payout.status === 'pending' && isTransferRejection(error)) {
+      await failPayout(payout, 'TRANSFER_FAILED', message);
+      return 'failed';
+    }
+
+    await db.update(coachPayouts)
+      .set({
+        status: 'processing',
+        errorCode: 'TRANSFER_UNCONFIRMED',
+        errorMessage: message.slice(0, 1000),
+        retryCount: (payout.retryCount ?? 0) + 1,
+        processedAt: payout.processedAt ?? new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(eq(coachPayouts.id, payout.id), inArray(coachPayouts.status, ['pending', 'processing'])));
+    console.warn(`[PayoutBatch] Transfer for payout ${payout.id} is unconfirmed and will be retried: ${message}`);
+    return 'processing';
+  }
+}
+
+/**
+ * Sends a Wise transfer for every pending payout in the batch
+ */
+export async function submitPayoutBatch(
+  batchId: number,
+  processedBy: number,
+  client: WisePayoutClient = getWisePayoutClient()
+): Promise<PayoutBatch> {
+  const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, batchId));
+  if (!batch) {
+    throw new Error('Payout batch not found');
+  }
+
+  const pending = await db.select()
+    .from(coachPayouts)
+    .where(and(eq(coachPayouts.batchId, batchId), eq(coachPayouts.status, 'pending')));
+
+  await db.update(payoutBatches)
+    .set({ status: 'processing', processedAt: new Date(), processedBy, updatedAt: new Date() })
+    .where(eq(payoutBatches.id, batchId));
+
+  for (const payout of pending) {
+    await sendPayoutTransfer(payout, batch.batchNumber, client);
+  }
+
+  return await refreshBatchStatus(batchId);
+}
+
+/**
+ * Applies the current state of a payout's Wise transfer. Returns the
+ * discrepancy in cents when the amount sent differs from the amount owed.
+ */
+async function reconcilePayout(payout: CoachPayout, client: WisePayoutClient): Promise<{ outcome: string, discrepancyCents: number }> {
+  const transfer = await client.getTransfer(payout.wiseTransactionId!);
+  const owedCents = toCents(payout.finalAmount);
+  const { outcome, discrepancyCents } = reconcileTransfer(owedCents, transfer);
+
+  if (outcome === 'failed') {
+    await failPayout(payout, `TRANSFER_${transfer.status.toUpperCase()}`, `Wise transfer ${transfer.id} ended as ${transfer.status}`, transfer.status);
+    return { outcome, discrepancyCents };
+  }
+
+  if (outcome === 'processing') {
+    await db.update(coachPayouts)
+      .set({ wiseTransferStatus: transfer.status, updatedAt: new Date() })
+      .where(eq(coachPayouts.id, payout.id));
+    return { outcome, discrepancyCents };
+  }
+
+  const settled = await db.transaction(async (tx) => {
+    // A webhook and an admin reconcile can both get here; only one settles
+    const [updated] = await tx.update(coachPayouts)
+      .set({
+        status: 'completed',
+        wiseTransferStatus: transfer.status,
+        completedAt: new Date(),
+        errorCode: discrepancyCents === 0 ? null : 'AMOUNT_MISMATCH',
+        errorMessage: discrepancyCents === 0 ? null : `Wise sent ${transfer.sourceAmount.toFixed(2)}, payout was ${payout.finalAmount}`,
+        updatedAt: new Date()
+      })
+      .where(and(eq(coachPayouts.id, payout.id), eq(coachPayouts.status, 'processing')))
+      .returning({ id: coachPayouts.id });
+    if (!updated) {
+      return false;
+    }
+
+    await tx.update(sessionTransactions)
+      .set({ payoutStatus: 'paid', updatedAt: new Date() })
+      .where(and(eq(sessionTransactions.payoutBatchId, payout.batchId), eq(sessionTransactions.coachId, payout.coachId)));
+
+    await tx.update(coachPayoutConfig)
+      .set({
+        totalPayouts: sql`COALESCE(${coachPayoutConfig.totalPayouts}, 0) + ${payout.finalAmount}`,
+        updatedAt: new Date()
+      })
+      .where(eq(coachPayoutConfig.coachId, payout.coachId));
+
+    // Only what Wise sent leaves the payable; a shortfall stays owed to the coach
+    await postLedgerEntry(
+      { kind: 'coach_payout_settlement', coachId: payout.coachId, amountCents: owedCents + discrepancyCents },
+      { key: `coach_payout:${payout.id}:settlement`, referenceType: 'coach_payout', referenceId: payout.id, description: `Wise transfer ${transfer.id}` },
+      tx
+    );
+    return true;
+  });
+
+  if (settled && discrepancyCents !== 0) {
+    console.warn(`[PayoutBatch] Payout ${payout.id} settled with a discrepancy of ${fromCents(discrepancyCents)}`);
+  }
+  return { outcome, discrepancyCents };
+}
+
+/**
+ * Reads back every in-flight transfer of the batch and settles or releases
+ * its payout; payouts whose transfer was never confirmed are sent again
+ */
+export async function reconcilePayoutBatch(
+  batchId: number,
+  client: WisePayoutClient = getWisePayoutClient()
+): Promise<BatchReconciliation> {
+  const [batch] = await db.select({ id: payoutBatches.id, batchNumber: payoutBatches.batchNumber }).from(payoutBatches).where(eq(payoutBatches.id, batchId));
+  if (!batch) {
+    throw new Error('Payout batch not found');
+  }
+
+  const inFlight = await db.select()
+    .from(coachPayouts)
+    .where(and(eq(coachPayouts.batchId, batchId), eq(coachPayouts.status, 'processing')));
+
+  const summary = { completed: 0, failed: 0, processing: 0, discrepancies: [] as BatchReconciliation['discrepancies'] };
+  for (const payout of inFlight) {
+    if (!payout.wiseTransactionId) {
+      summary[await sendPayoutTransfer(payout, batch.batchNumber, client)]++;
+      continue;
+    }
+    try {
+      const { outcome, discrepancyCents } = await reconcilePayout(payout, client);
+      summary[outcome as 'completed' | 'failed' | 'processing']++;
+      if (discrepancyCents !== 0) {
+        summary.discrepancies.push({ payoutId: payout.id, coachId: payout.coachId, discrepancy: fromCents(discrepancyCents) });
+      }
+    } catch (error) {
+      console.error(`[PayoutBatch] Could not reconcile payout ${payout.id}:`, error);
+      summary.processing++;
+    }
+  }
+
+  return { batch: await refreshBatchStatus(batchId), ...summary };
+}
+
+/**
+ * Reconciles the payout a Wise transfer belongs to, e.g. from a webhook.
+ * Returns null when the transfer is not a coach payout.
+ */
+export async function reconcileWiseTransfer(
+  transferId: string,
+  client: WisePayoutClient = getWisePayoutClient()
+): Promise<PayoutBatch | null> {
+  const [payout] = await db.select()
+    .from(coachPayouts)
+    .where(and(eq(coachPayouts.wiseTransactionId, transferId), eq(coachPayouts.status, 'processing')));
+  if (!payout) {
+    return null;
+  }
+
+  await reconcilePayout(payout, client);
+  return await refreshBatchStatus(payout.batchId);
+}
+
+export async function listPayoutBatches(limit: number = 50): Promise<PayoutBatch[]> {
+  return await db.select()
+    .from(payoutBatches)
+    .orderBy(desc(payoutBatches.periodEnd), desc(payoutBatches.id))
+    .limit(limit);
+}
+
+export async function getPayoutBatch(batchId: number): Promise<{ batch: PayoutBatch, payouts: CoachPayout[] }> {
+  const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, batchId));
+  if (!batch) {
+    throw new Error('Payout batch not found');
+  }
+
+  const payouts = await db.select()
+    .from(coachPayouts)
+    .where(eq(coachPayouts.batchId, batchId))
+    .orderBy(coachPayouts.coachId);
+  return { batch, payouts };
+}
+
+/**
+ * A coach's payouts with their periods, newest first
+ */
+export async function listCoachPayouts(coachId: number) {
+  return await db.select({
+    payout: coachPayouts,
+    batchNumber: payoutBatches.batchNumber,
+    periodStart: payoutBatches.periodStart,
+    periodEnd: payoutBatches.periodEnd
+  })
+    .from(coachPayouts)
+    .innerJoin(payoutBatches, eq(payoutBatches.id, coachPayouts.batchId))
+    .where(eq(coachPayouts.coachId, coachId))
+    .orderBy(desc(payoutBatches.periodEnd), desc(coachPayouts.id));
+}
+
+/**
+ * The statement for one coach payout, for the coach or an admin
+ */
+export async function getPayoutStatement(payoutId: number, user: PayoutUser): Promise<PayoutStatement> {
+  const [row] = await db.select({ payout: coachPayouts, batch: payoutBatches })
+    .from(coachPayouts)
+    .innerJoin(payoutBatches, eq(payoutBatches.id, coachPayouts.batchId))
+    .where(eq(coachPayouts.id, payoutId));
+
+  if (!row) {
+    throw new Error('Payout not found');
+  }
+  if (row.payout.coachId !== user.id && !user.isAdmin) {
+    throw new Error('Not allowed to view this statement');
+  }
+
+  const [coach] = await db.select({ displayName: users.displayName, username: users.username })
+    .from(users)
+    .where(eq(users.id, row.payout.coachId));
+
+  const items = await db.select()
+    .from(payoutStatementItems)
+    .where(eq(payoutStatementItems.payoutId, payoutId))
+    .orderBy(payoutStatementItems.id);
+
+  const { payout, batch } = row;
+  return {
+    statementNumber: `${batch.batchNumber}-C${payout.coachId}`,
+    coachName: coach?.displayName || coach?.username || `Coach ${payout.coachId}`,
+    periodStart: batch.periodStart,
+    periodEnd: batch.periodEnd,
+    currency: payout.payoutCurrency,
+    status: payout.status ?? 'pending',
+    calculation: {
+      sessions: payout.totalSessions,
+      grossRevenueCents: toCents(payout.grossRevenue),
+      platformFeesCents: toCents(payout.platformFees),
+      netPayoutCents: toCents(payout.netPayout),
+      bonusesCents: toCents(payout.bonuses),
+      penaltiesCents: toCents(payout.penalties),
+      otherAdjustmentsCents: toCents(payout.previousAdjustments),
+      finalAmountCents: toCents(payout.finalAmount),
+      lines: items.map(item => ({
+        kind: item.kind as 'session' | 'adjustment',
+        referenceId: item.referenceId,
+        date: item.itemDate,
+        description: item.description,
+        grossCents: toCents(item.grossAmount),
+        commissionRate: item.commissionRate === null ? null : Number(item.commissionRate),
+        platformFeeCents: toCents(item.platformFee),
+        netCents: toCents(item.netAmount)
+      }))
+    }
+  };
+}
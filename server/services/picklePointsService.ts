@@ -14,6 +14,7 @@
 import { db } from '../db';
 import { eq, and, sql } from 'drizzle-orm';
 import { digitalCreditsAccounts, digitalCreditsTransactions, users } from '../../shared/schema';
+import { recordPointsLedgerEntries } from './points-ledger-service';
 import { 
   PICKLE_POINTS_MULTIPLIER,
   validateAdditivePointsOperation,
@@ -216,6 +217,18 @@ class PicklePointsService {
               throw new Error(`Failed to update Pickle Points balance after successful transaction insert`);
             }
 
+            await recordPointsLedgerEntries([{
+              userId: playerId,
+              currency: 'pickle',
+              entryType: 'match_award',
+              amount: picklePointsEarned,
+              sourceType: 'match',
+              sourceId: matchId || null,
+              multipliers: { pickle: PICKLE_POINTS_MULTIPLIER },
+              calculationDetails: `${isWin ? 'WIN' : 'LOSS'}: ${rankingPointsEarned} ranking × ${PICKLE_POINTS_MULTIPLIER} = ${picklePointsEarned} pickle`,
+              metadata: { creditTransactionId: transactionResult[0].id }
+            }], tx);
+
             console.log('[PICKLE POINTS] Secure award completed:', {
               playerId,
               username,
@@ -0,0 +1,243 @@
+/**
+ * Points Ledger Service
+ *
+ * Appends ranking points and Pickle Points movements to the points ledger
+ * and reads them back as a player's history and balance at any date.
+ * Ledger entries are never updated or deleted; corrections are new entries.
+ */
+
+import { db } from "../db";
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import {
+  users,
+  pointsLedgerEntries,
+  type PointsLedgerCurrency,
+  type PointsLedgerEntry,
+  type PointsLedgerEntryType,
+  type PointsLedgerMultipliers
+} from "../../shared/schema";
+
+/**
+ * Anything that can insert rows: the database or an open transaction
+ */
+type LedgerWriter = Pick<typeof db, 'insert'>;
+
+/**
+ * A movement to append to the ledger
+ */
+export interface PointsLedgerEntryInput {
+  userId: number;
+  currency: PointsLedgerCurrency;
+  entryType: PointsLedgerEntryType;
+  amount: number;
+  division?: string | null;
+  sourceType?: string | null;
+  sourceId?: number | null;
+  rulesetVersion?: number | null;
+  multipliers?: PointsLedgerMultipliers | null;
+  calculationDetails?: string | null;
+  reason?: string | null;
+  metadata?: Record<string, unknown> | null;
+  createdById?: number | null;
+  occurredAt?: Date;
+}
+
+/**
+ * Where a movement recorded by a generic points helper came from
+ */
+export type PointsLedgerProvenance = Partial<Omit<PointsLedgerEntryInput, 'userId' | 'currency' | 'amount'>>;
+
+/**
+ * A ledger entry with the balance after it was applied
+ */
+export interface PointsLedgerHistoryEntry extends Omit<PointsLedgerEntry, 'amount'> {
+  amount: number;
+  balanceAfter: number;
+}
+
+export interface PointsLedgerHistory {
+  userId: number;
+  currency: PointsLedgerCurrency;
+  openingBalance: number;
+  closingBalance: number;
+  entries: PointsLedgerHistoryEntry[];
+}
+
+/**
+ * Round to the ledger's two decimal places
+ */
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Append movements to the ledger. Zero amounts are skipped.
+ *
+ * @param entries - Movements to record
+ * @param writer - Transaction to write in, so the ledger and totals change together
+ */
+export async function recordPointsLedgerEntries(
+  entries: PointsLedgerEntryInput[],
+  writer: LedgerWriter = db
+): Promise<void> {
+  const rows = entries
+    .filter(entry => roundAmount(entry.amount) !== 0)
+    .map(entry => ({
+      userId: entry.userId,
+      currency: entry.currency,
+      entryType: entry.entryType,
+      amount: roundAmount(entry.amount).toFixed(2),
+      division: entry.division || null,
+      sourceType: entry.sourceType || null,
+      sourceId: entry.sourceId || null,
+      rulesetVersion: entry.rulesetVersion ?? null,
+      multipliers: entry.multipliers || null,
+      calculationDetails: entry.calculationDetails || null,
+      reason: entry.reason || null,
+      metadata: entry.metadata || null,
+      createdById: entry.createdById || null,
+      occurredAt: entry.occurredAt || new Date()
+    }));
+
+  if (rows.length === 0) return;
+
+  await writer.insert(pointsLedgerEntries).values(rows);
+}
+
+/**
+ * Attach the running balance to entries sorted oldest first
+ */
+export function withRunningBalance(
+  entries: PointsLedgerEntry[],
+  openingBalance: number
+): PointsLedgerHistoryEntry[] {
+  let balance = openingBalance;
+
+  return entries.map(entry => {
+    const amount = Number(entry.amount);
+    balance = roundAmount(balance + amount);
+    return { ...entry, amount, balanceAfter: balance };
+  });
+}
+
+/**
+ * Sum of a player's ledger up to (and including) the given time
+ */
+export async function getPointsBalanceAt(
+  userId: number,
+  currency: PointsLedgerCurrency,
+  at: Date = new Date()
+): Promise<number> {
+  const [{ balance }] = await db.select({
+    balance: sql<string>`COALESCE(SUM(${pointsLedgerEntries.amount}), 0)`
+  })
+    .from(pointsLedgerEntries)
+    .where(and(
+      eq(pointsLedgerEntries.userId, userId),
+      eq(pointsLedgerEntries.currency, currency),
+      lte(pointsLedgerEntries.occurredAt, at)
+    ));
+
+  return roundAmount(Number(balance));
+}
+
+/**
+ * A player's most recent ledger entries in a date range with running balances
+ *
+ * @param options - Date range (up to now by default) and maximum number of entries
+ */
+export async function getPointsLedgerHistory(
+  userId: number,
+  currency: PointsLedgerCurrency,
+  options: { from?: Date, to?: Date, limit?: number } = {}
+): Promise<PointsLedgerHistory> {
+  try {
+    const to = options.to || new Date();
+    const closingBalance = await getPointsBalanceAt(userId, currency, to);
+
+    const conditions = [
+      eq(pointsLedgerEntries.userId, userId),
+      eq(pointsLedgerEntries.currency, currency),
+      lte(pointsLedgerEntries.occurredAt, to)
+    ];
+    if (options.from) conditions.push(gte(pointsLedgerEntries.occurredAt, options.from));
+
+    const rows = await db.select()
+      .from(pointsLedgerEntries)
+      .where(and(...conditions))
+      .orderBy(desc(pointsLedgerEntries.occurredAt), desc(pointsLedgerEntries.id))
+      .limit(options.limit || 500);
+
+    // Oldest first, starting from the balance before the earliest returned entry
+    rows.reverse();
+    const openingBalance = roundAmount(rows.reduce((balance, row) => balance - Number(row.amount), closingBalance));
+
+    return {
+      userId,
+      currency,
+      openingBalance,
+      closingBalance,
+      entries: withRunningBalance(rows, openingBalance)
+    };
+  } catch (error) {
+    console.error("Error loading points ledger history:", error);
+    throw error;
+  }
+}
+
+/**
+ * Credit or debit a player's points outside a match (admin adjustment or
+ * redemption), updating the stored total and the ledger together
+ */
+export async function applyPointsAdjustment(data: {
+  userId: number,
+  currency: PointsLedgerCurrency,
+  entryType: 'admin_adjustment' | 'redemption',
+  amount: number,
+  reason: string,
+  createdById?: number
+}): Promise<PointsLedgerEntry> {
+  if (data.entryType === 'redemption' && data.currency !== 'pickle') {
+    throw new Error('Only Pickle Points can be redeemed');
+  }
+
+  if (data.entryType === 'redemption' && data.amount >= 0) {
+    throw new Error('Redemptions must be a negative amount');
+  }
+
+  const column = data.currency === 'ranking' ? users.rankingPoints : users.picklePoints;
+
+  return db.transaction(async (tx) => {
+    const [user] = await tx.select({ id: users.id, balance: column })
+      .from(users)
+      .where(eq(users.id, data.userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error(`User with ID ${data.userId} not found`);
+    }
+
+    if (data.entryType === 'redemption' && (user.balance || 0) + data.amount < 0) {
+      throw new Error('Insufficient Pickle Points for this redemption');
+    }
+
+    await tx.update(users)
+      .set(data.currency === 'ranking'
+        ? { rankingPoints: sql`COALESCE(${users.rankingPoints}, 0) + ${data.amount}` }
+        : { picklePoints: sql`COALESCE(${users.picklePoints}, 0) + ${data.amount}` })
+      .where(eq(users.id, data.userId));
+
+    const [entry] = await tx.insert(pointsLedgerEntries).values({
+      userId: data.userId,
+      currency: data.currency,
+      entryType: data.entryType,
+      amount: roundAmount(data.amount).toFixed(2),
+      sourceType: data.entryType === 'redemption' ? 'redemption' : 'admin',
+      reason: data.reason,
+      createdById: data.createdById || null
+    }).returning();
+
+    console.log(`[PointsLedger] ${data.entryType} of ${data.amount} ${data.currency} points for user ${data.userId}`);
+    return entry;
+  });
+}
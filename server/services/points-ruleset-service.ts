@@ -0,0 +1,391 @@
+/**
+ * Points Ruleset Service
+ *
+ * Manages versioned ranking points rulesets: drafting, activation with
+ * effective dates, resolving the ruleset in force at a given time and
+ * simulating a draft against historical matches before it goes live.
+ */
+
+import { db } from "../db";
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte, max } from "drizzle-orm";
+import { matches, users, pointsRulesets, type PointsRulesetRecord } from "../../shared/schema";
+import {
+  calculatePointsWithRules,
+  getAgeGroupAt,
+  isCrossGenderMatch,
+  pointsRuleDefinitionSchema,
+  DEFAULT_POINTS_RULESET,
+  type PointsRuleDefinition,
+  type PointsRuleset
+} from "../../shared/utils/pointsRuleEngine";
+
+/**
+ * How long the list of active rulesets is cached
+ */
+const ACTIVE_RULESETS_CACHE_MS = 60 * 1000;
+
+let activeRulesetsCache: { loadedAt: number, rulesets: PointsRulesetRecord[] } | null = null;
+
+/**
+ * A historical match prepared for simulation
+ */
+export interface SimulationMatch {
+  id: number;
+  matchDate: Date;
+  matchType: string;
+  players: Array<{ userId: number, isWin: boolean }>;
+}
+
+/**
+ * Player data needed to calculate points
+ */
+export interface SimulationPlayer {
+  id: number;
+  username: string;
+  gender: string | null;
+  dateOfBirth: string | null;
+  rankingPoints: number | null;
+}
+
+/**
+ * Per-player result of a simulation
+ */
+export interface PlayerPointsDelta {
+  userId: number;
+  username: string;
+  matches: number;
+  currentRulesPoints: number;
+  draftRulesPoints: number;
+  delta: number;
+}
+
+export interface RulesetSimulationResult {
+  draftVersion: number;
+  matchesSimulated: number;
+  totals: { currentRulesPoints: number, draftRulesPoints: number, delta: number };
+  players: PlayerPointsDelta[];
+}
+
+/**
+ * Convert a stored ruleset to the engine's ruleset shape
+ */
+function toRuleset(record: PointsRulesetRecord): PointsRuleset {
+  return { version: record.version, name: record.name, rules: record.rules };
+}
+
+/**
+ * Drop the cached active rulesets (after activation)
+ */
+export function invalidatePointsRulesetCache(): void {
+  activeRulesetsCache = null;
+}
+
+/**
+ * Load all rulesets that have been activated, newest effective date first
+ */
+export async function getActiveRulesets(): Promise<PointsRulesetRecord[]> {
+  if (activeRulesetsCache && Date.now() - activeRulesetsCache.loadedAt < ACTIVE_RULESETS_CACHE_MS) {
+    return activeRulesetsCache.rulesets;
+  }
+
+  const rulesets = await db.select()
+    .from(pointsRulesets)
+    .where(and(inArray(pointsRulesets.status, ['active', 'retired']), isNotNull(pointsRulesets.effectiveFrom)))
+    .orderBy(desc(pointsRulesets.effectiveFrom));
+
+  activeRulesetsCache = { loadedAt: Date.now(), rulesets };
+  return rulesets;
+}
+
+/**
+ * Pick the ruleset in force at a point in time from a list sorted newest first
+ */
+export function resolveRulesetAt(rulesets: PointsRulesetRecord[], at: Date): PointsRuleset {
+  const record = rulesets.find(ruleset =>
+    ruleset.effectiveFrom! <= at && (!ruleset.effectiveTo || ruleset.effectiveTo > at)
+  );
+
+  return record ? toRuleset(record) : DEFAULT_POINTS_RULESET;
+}
+
+/**
+ * Get the points ruleset in force at the given time.
+ * Falls back to the built-in rules (version 0) when none has been activated.
+ */
+export async function getActivePointsRuleset(at: Date = new Date()): Promise<PointsRuleset> {
+  try {
+    return resolveRulesetAt(await getActiveRulesets(), at);
+  } catch (error) {
+    console.error("[PointsRules] Could not load active ruleset, using built-in rules:", error);
+    return DEFAULT_POINTS_RULESET;
+  }
+}
+
+/**
+ * List all rulesets, newest version first
+ */
+export async function listPointsRulesets(): Promise<PointsRulesetRecord[]> {
+  return db.select().from(pointsRulesets).orderBy(desc(pointsRulesets.version));
+}
+
+/**
+ * Load a ruleset or throw
+ */
+async function getRulesetOrThrow(id: number): Promise<PointsRulesetRecord> {
+  const [ruleset] = await db.select()
+    .from(pointsRulesets)
+    .where(eq(pointsRulesets.id, id))
+    .limit(1);
+
+  if (!ruleset) {
+    throw new Error(`Points ruleset with ID ${id} not found`);
+  }
+
+  return ruleset;
+}
+
+/**
+ * Create a draft ruleset with the next version number
+ */
+export async function createPointsRulesetDraft(
+  data: { name: string, rules: PointsRuleDefinition, notes?: string | null },
+  createdById?: number
+): Promise<PointsRulesetRecord> {
+  const rules = pointsRuleDefinitionSchema.parse(data.rules);
+
+  const [{ latestVersion }] = await db.select({ latestVersion: max(pointsRulesets.version) }).from(pointsRulesets);
+
+  const [ruleset] = await db.insert(pointsRulesets).values({
+    version: (latestVersion || 0) + 1,
+    name: data.name,
+    rules,
+    notes: data.notes || null,
+    createdById: createdById || null
+  }).returning();
+
+  console.log(`[PointsRules] Created draft ruleset v${ruleset.version} "${ruleset.name}"`);
+  return ruleset;
+}
+
+/**
+ * Update a draft ruleset; active and retired rulesets are immutable
+ */
+export async function updatePointsRulesetDraft(
+  id: number,
+  data: { name?: string, rules?: PointsRuleDefinition, notes?: string | null }
+): Promise<PointsRulesetRecord> {
+  const ruleset = await getRulesetOrThrow(id);
+
+  if (ruleset.status !== 'draft') {
+    throw new Error(`Ruleset v${ruleset.version} is ${ruleset.status} and can no longer be changed`);
+  }
+
+  const [updated] = await db.update(pointsRulesets)
+    .set({
+      ...(data.name !== undefined ? { name: data.name } : {}),
+      ...(data.rules !== undefined ? { rules: pointsRuleDefinitionSchema.parse(data.rules) } : {}),
+      ...(data.notes !== undefined ? { notes: data.notes } : {}),
+      updatedAt: new Date()
+    })
+    .where(eq(pointsRulesets.id, id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Activate a draft ruleset from the given date.
+ * The ruleset currently in force stops applying at that date.
+ */
+export async function activatePointsRuleset(
+  id: number,
+  effectiveFrom: Date = new Date(),
+  activatedById?: number
+): Promise<PointsRulesetRecord> {
+  const ruleset = await getRulesetOrThrow(id);
+
+  if (ruleset.status !== 'draft') {
+    throw new Error(`Ruleset v${ruleset.version} is already ${ruleset.status}`);
+  }
+
+  const activated = await db.transaction(async (tx) => {
+    const [latest] = await tx.select()
+      .from(pointsRulesets)
+      .where(eq(pointsRulesets.status, 'active'))
+      .orderBy(desc(pointsRulesets.effectiveFrom))
+      .limit(1);
+
+    if (latest?.effectiveFrom && latest.effectiveFrom >= effectiveFrom) {
+      throw new Error(`Ruleset must take effect after v${latest.version} (effective ${latest.effectiveFrom.toISOString()})`);
+    }
+
+    if (latest) {
+      await tx.update(pointsRulesets)
+        .set({ status: 'retired', effectiveTo: effectiveFrom, updatedAt: new Date() })
+        .where(eq(pointsRulesets.id, latest.id));
+    }
+
+    const [updated] = await tx.update(pointsRulesets)
+      .set({
+        status: 'active',
+        effectiveFrom,
+        activatedAt: new Date(),
+        activatedById: activatedById || null,
+        updatedAt: new Date()
+      })
+      .where(eq(pointsRulesets.id, id))
+      .returning();
+
+    return updated;
+  });
+
+  invalidatePointsRulesetCache();
+  console.log(`[PointsRules] Activated ruleset v${activated.version} effective ${effectiveFrom.toISOString()}`);
+
+  return activated;
+}
+
+/**
+ * Calculate every player's points for a set of matches under the rules that
+ * applied at the time and under a draft ruleset, and report the differences.
+ * Gender bonus thresholds use each player's current ranking points.
+ */
+export function simulateMatchPoints(
+  simulationMatches: SimulationMatch[],
+  players: Map<number, SimulationPlayer>,
+  resolveCurrentRuleset: (at: Date) => PointsRuleset,
+  draft: PointsRuleset
+): RulesetSimulationResult {
+  const deltas = new Map<number, PlayerPointsDelta>();
+  let matchesSimulated = 0;
+
+  for (const match of simulationMatches) {
+    const matchPlayers = match.players
+      .map(entry => ({ ...entry, player: players.get(entry.userId) }))
+      .filter(entry => entry.player);
+
+    if (matchPlayers.length < 2) continue;
+
+    const isCrossGender = isCrossGenderMatch(matchPlayers.map(entry => entry.player!.gender));
+    const currentRuleset = resolveCurrentRuleset(match.matchDate);
+    matchesSimulated++;
+
+    for (const { player, isWin } of matchPlayers) {
+      const input = {
+        isWin,
+        ageGroup: player!.dateOfBirth ? getAgeGroupAt(player!.dateOfBirth, match.matchDate) : undefined,
+        gender: player!.gender || undefined,
+        currentRankingPoints: player!.rankingPoints || 0,
+        eventType: match.matchType,
+        isCrossGender
+      };
+
+      const current = calculatePointsWithRules(currentRuleset, input).rankingPoints;
+      const simulated = calculatePointsWithRules(draft, input).rankingPoints;
+
+      const line = deltas.get(player!.id) || {
+        userId: player!.id,
+        username: player!.username,
+        matches: 0,
+        currentRulesPoints: 0,
+        draftRulesPoints: 0,
+        delta: 0
+      };
+
+      line.matches++;
+      line.currentRulesPoints += current;
+      line.draftRulesPoints += simulated;
+      deltas.set(player!.id, line);
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const playerDeltas = Array.from(deltas.values())
+    .map(line => ({
+      ...line,
+      currentRulesPoints: round(line.currentRulesPoints),
+      draftRulesPoints: round(line.draftRulesPoints),
+      delta: round(line.draftRulesPoints - line.currentRulesPoints)
+    }))
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.userId - b.userId);
+
+  const currentRulesPoints = round(playerDeltas.reduce((sum, line) => sum + line.currentRulesPoints, 0));
+  const draftRulesPoints = round(playerDeltas.reduce((sum, line) => sum + line.draftRulesPoints, 0));
+
+  return {
+    draftVersion: draft.version,
+    matchesSimulated,
+    totals: { currentRulesPoints, draftRulesPoints, delta: round(draftRulesPoints - currentRulesPoints) },
+    players: playerDeltas
+  };
+}
+
+/**
+ * Replay historical matches under a ruleset and report per-player deltas
+ * against the rules that were in force when each match was played
+ *
+ * @param id - ID of the ruleset to simulate (normally a draft)
+ * @param options - Match date range, explicit match IDs and a match limit
+ */
+export async function simulatePointsRuleset(
+  id: number,
+  options: { from?: Date, to?: Date, matchIds?: number[], limit?: number } = {}
+): Promise<RulesetSimulationResult> {
+  try {
+    const draft = toRuleset(await getRulesetOrThrow(id));
+
+    const conditions = [];
+    if (options.matchIds?.length) conditions.push(inArray(matches.id, options.matchIds));
+    if (options.from) conditions.push(gte(matches.createdAt, options.from));
+    if (options.to) conditions.push(lte(matches.createdAt, options.to));
+
+    const historicalMatches = await db.select()
+      .from(matches)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(asc(matches.createdAt))
+      .limit(options.limit || 1000);
+
+    const simulationMatches: SimulationMatch[] = historicalMatches.map(match => {
+      const team1 = [match.playerOneId, match.playerOnePartnerId].filter((playerId): playerId is number => !!playerId);
+      const team2 = [match.playerTwoId, match.playerTwoPartnerId].filter((playerId): playerId is number => !!playerId);
+      const team1Won = team1.includes(match.winnerId);
+
+      return {
+        id: match.id,
+        matchDate: match.matchDate || match.createdAt || new Date(),
+        matchType: match.matchType,
+        players: [
+          ...team1.map(userId => ({ userId, isWin: team1Won })),
+          ...team2.map(userId => ({ userId, isWin: !team1Won }))
+        ]
+      };
+    });
+
+    const playerIds = Array.from(new Set(simulationMatches.flatMap(match => match.players.map(player => player.userId))));
+
+    const playerRows = playerIds.length
+      ? await db.select({
+          id: users.id,
+          username: users.username,
+          gender: users.gender,
+          dateOfBirth: users.dateOfBirth,
+          rankingPoints: users.rankingPoints
+        })
+        .from(users)
+        .where(inArray(users.id, playerIds))
+      : [];
+
+    const activeRulesets = await getActiveRulesets();
+
+    return simulateMatchPoints(
+      simulationMatches,
+      new Map(playerRows.map(player => [player.id, player])),
+      at => resolveRulesetAt(activeRulesets, at),
+      draft
+    );
+  } catch (error) {
+    console.error("Error simulating points ruleset:", error);
+    throw error;
+  }
+}
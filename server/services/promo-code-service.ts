@@ -0,0 +1,410 @@
+/**
+ * Promo Code Service
+ *
+ * Runs discount campaigns: creates campaigns and issues their codes, prices
+ * a session booking, class enrollment or tournament entry with a code, and
+ * records the redemption in the same transaction as the purchase. Codes are
+ * locked while they are redeemed so usage limits hold under concurrent
+ * checkouts. A redemption is reversed when its purchase is refunded in full,
+ * which gives the use back to the player.
+ */
+
+import { db } from "../db";
+import { and, count, desc, eq, ne, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  tournaments,
+  promoCampaigns,
+  promoCodes,
+  promoRedemptions,
+  type InsertPromoCampaign,
+  type PromoCampaign,
+  type PromoCode,
+  type PromoRedemption
+} from "../../shared/schema";
+import { bookings, bookingSlots } from "../../shared/schema/session-booking";
+import { classEnrollments, classInstances, classTemplates } from "../../shared/schema/training-center";
+import {
+  evaluatePromo,
+  generatePromoCode,
+  normalizePromoCode,
+  summarizePromoRedemptions,
+  validatePromoCampaign,
+  type PromoCampaignTerms,
+  type PromoCodeUsage,
+  type PromoEvaluation,
+  type PromoPaymentMethod,
+  type PromoRedemptionSummary,
+  type PromoTargetType
+} from "../../shared/utils/promoCodes";
+import { toCents } from "../../shared/utils/cancellationPolicy";
+
+type PromoWriter = PgDatabase<any, any, any>;
+
+export type PromoCampaignInput = Omit<InsertPromoCampaign, 'id' | 'createdById' | 'createdAt' | 'updatedAt'>;
+
+export interface PromoCodeIssue {
+  count?: number; // Generated codes; ignored when a code is given
+  code?: string; // A chosen code such as EARLYBIRD
+  prefix?: string;
+  usage: PromoCodeUsage;
+  maxRedemptions?: number | null;
+  perUserLimit?: number;
+}
+
+/**
+ * What a code is applied to; the price, coach and tournament are read from
+ * the target itself
+ */
+export interface PromoTarget {
+  targetType: PromoTargetType;
+  targetId: number; // Booking slot, class instance or tournament
+  paymentMethod: PromoPaymentMethod;
+}
+
+export interface PromoQuote extends PromoEvaluation {
+  code: string;
+  campaignId: number | null;
+  campaignName: string | null;
+}
+
+export interface PromoCampaignAnalytics {
+  campaign: PromoCampaign;
+  summary: PromoRedemptionSummary;
+  codes: { id: number, code: string, redemptionCount: number, maxRedemptions: number | null, active: boolean }[];
+}
+
+function campaignTerms(campaign: PromoCampaign): PromoCampaignTerms {
+  return {
+    status: campaign.status,
+    discountType: campaign.discountType as PromoCampaignTerms['discountType'],
+    discountValue: campaign.discountValue,
+    maxDiscountCents: campaign.maxDiscountCents,
+    appliesTo: campaign.appliesTo as PromoCampaignTerms['appliesTo'],
+    firstBookingOnly: campaign.firstBookingOnly,
+    coachIds: campaign.coachIds,
+    tournamentIds: campaign.tournamentIds,
+    startsAt: campaign.startsAt,
+    endsAt: campaign.endsAt,
+    minAmountCents: campaign.minAmountCents,
+    stacksWithCredits: campaign.stacksWithCredits,
+    stacksWithGiftCards: campaign.stacksWithGiftCards
+  };
+}
+
+export async function createPromoCampaign(input: PromoCampaignInput, createdById: number): Promise<PromoCampaign> {
+  const errors = validatePromoCampaign(input as Partial<PromoCampaignTerms>);
+  if (errors.length > 0) {
+    throw new Error(`Invalid promo campaign: ${errors.join('; ')}`);
+  }
+
+  const [campaign] = await db.insert(promoCampaigns)
+    .values({ ...input, createdById })
+    .returning();
+
+  console.log(`[Promo] Campaign ${campaign.id} "${campaign.name}" created (${campaign.discountType} ${campaign.discountValue})`);
+  return campaign;
+}
+
+export async function updatePromoCampaign(id: number, changes: Partial<PromoCampaignInput>): Promise<PromoCampaign> {
+  const [current] = await db.select().from(promoCampaigns).where(eq(promoCampaigns.id, id));
+  if (!current) {
+    throw new Error('Promo campaign not found');
+  }
+
+  const errors = validatePromoCampaign({ ...campaignTerms(current), ...changes } as Partial<PromoCampaignTerms>);
+  if (errors.length > 0) {
+    throw new Error(`Invalid promo campaign: ${errors.join('; ')}`);
+  }
+
+  const [campaign] = await db.update(promoCampaigns)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(promoCampaigns.id, id))
+    .returning();
+  return campaign;
+}
+
+export async function listPromoCampaigns(options: { sponsorId?: number } = {}): Promise<PromoCampaign[]> {
+  return db.select()
+    .from(promoCampaigns)
+    .where(options.sponsorId ? eq(promoCampaigns.sponsorId, options.sponsorId) : undefined)
+    .orderBy(desc(promoCampaigns.createdAt));
+}
+
+/**
+ * Issue codes for a campaign: one chosen code, or a batch of generated ones.
+ * Single-use codes can be redeemed once in total.
+ */
+export async function issuePromoCodes(campaignId: number, issue: PromoCodeIssue): Promise<PromoCode[]> {
+  const [campaign] = await db.select({ id: promoCampaigns.id }).from(promoCampaigns).where(eq(promoCampaigns.id, campaignId));
+  if (!campaign) {
+    throw new Error('Promo campaign not found');
+  }
+
+  const limits = {
+    campaignId,
+    usage: issue.usage,
+    maxRedemptions: issue.usage === 'single_use' ? 1 : issue.maxRedemptions ?? null,
+    perUserLimit: issue.perUserLimit ?? 1
+  };
+
+  if (issue.code) {
+    const code = normalizePromoCode(issue.code);
+    const created = await db.insert(promoCodes)
+      .values({ ...limits, code })
+      .onConflictDoNothing()
+      .returning();
+    if (created.length === 0) {
+      throw new Error(`Promo code ${code} already exists`);
+    }
+    return created;
+  }
+
+  const wanted = issue.count ?? 1;
+  const issued: PromoCode[] = [];
+  // Generated codes rarely collide; collisions are simply drawn again
+  for (let attempt = 0; issued.length < wanted && attempt < 5; attempt++) {
+    const values = Array.from({ length: wanted - issued.length }, () => ({ ...limits, code: generatePromoCode(issue.prefix) }));
+    issued.push(...await db.insert(promoCodes).values(values).onConflictDoNothing().returning());
+  }
+
+  console.log(`[Promo] Issued ${issued.length} ${issue.usage} codes for campaign ${campaignId}`);
+  return issued;
+}
+
+export async function listPromoCodes(campaignId: number): Promise<PromoCode[]> {
+  return db.select()
+    .from(promoCodes)
+    .where(eq(promoCodes.campaignId, campaignId))
+    .orderBy(promoCodes.id);
+}
+
+export async function setPromoCodeActive(codeId: number, active: boolean): Promise<PromoCode> {
+  const [code] = await db.update(promoCodes)
+    .set({ active })
+    .where(eq(promoCodes.id, codeId))
+    .returning();
+  if (!code) {
+    throw new Error('Promo code not found');
+  }
+  return code;
+}
+
+/**
+ * Price, coach and tournament of what a code is applied to
+ */
+async function resolvePromoTarget(reader: PromoWriter, target: PromoTarget): Promise<{ priceCents: number, coachId: number | null, tournamentId: number | null }> {
+  switch (target.targetType) {
+    case 'session_booking': {
+      const [slot] = await reader.select({ price: bookingSlots.pricePerStudent, coachId: bookingSlots.coachId })
+        .from(bookingSlots)
+        .where(eq(bookingSlots.id, target.targetId));
+      if (!slot) {
+        throw new Error('Booking slot not found');
+      }
+      return { priceCents: toCents(slot.price), coachId: slot.coachId, tournamentId: null };
+    }
+    case 'class_enrollment': {
+      const [instance] = await reader.select({ price: classTemplates.pricePerSession, coachId: classInstances.coachId })
+        .from(classInstances)
+        .innerJoin(classTemplates, eq(classTemplates.id, classInstances.templateId))
+        .where(eq(classInstances.id, target.targetId));
+      if (!instance) {
+        throw new Error('Class not found');
+      }
+      return { priceCents: toCents(instance.price), coachId: instance.coachId, tournamentId: null };
+    }
+    case 'tournament_entry': {
+      const [tournament] = await reader.select({ entryFee: tournaments.entryFee })
+        .from(tournaments)
+        .where(eq(tournaments.id, target.targetId));
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+      return { priceCents: toCents(tournament.entryFee), coachId: null, tournamentId: target.targetId };
+    }
+  }
+}
+
+/**
+ * Earlier session bookings and class enrollments of a player that were not
+ * cancelled, leaving out the one being paid for
+ */
+async function countPriorBookings(reader: PromoWriter, userId: number, targetType: PromoTargetType, recordedId?: number): Promise<number> {
+  const [sessions] = await reader.select({ total: count() })
+    .from(bookings)
+    .where(and(
+      eq(bookings.studentId, userId),
+      ne(bookings.status, 'cancelled'),
+      recordedId && targetType === 'session_booking' ? ne(bookings.id, recordedId) : undefined
+    ));
+  const [classes] = await reader.select({ total: count() })
+    .from(classEnrollments)
+    .where(and(
+      eq(classEnrollments.playerId, userId),
+      ne(classEnrollments.attendanceStatus, 'cancelled'),
+      recordedId && targetType === 'class_enrollment' ? ne(classEnrollments.id, recordedId) : undefined
+    ));
+  return Number(sessions?.total ?? 0) + Number(classes?.total ?? 0);
+}
+
+async function countUserRedemptions(reader: PromoWriter, codeId: number, userId: number): Promise<number> {
+  const [row] = await reader.select({ total: count() })
+    .from(promoRedemptions)
+    .where(and(
+      eq(promoRedemptions.codeId, codeId),
+      eq(promoRedemptions.userId, userId),
+      eq(promoRedemptions.status, 'applied')
+    ));
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Evaluates a code for a purchase. When redeeming, the code row stays
+ * locked until the surrounding transaction ends.
+ */
+async function evaluateCode(
+  reader: PromoWriter,
+  userId: number,
+  rawCode: string,
+  target: PromoTarget,
+  now: Date,
+  redeeming: { recordedId: number } | null
+): Promise<{ quote: PromoQuote, code: PromoCode | null }> {
+  const codeText = normalizePromoCode(rawCode);
+  const price = await resolvePromoTarget(reader, target);
+
+  const query = reader.select().from(promoCodes).where(eq(promoCodes.code, codeText));
+  const [code] = redeeming ? await query.for('update') : await query;
+  const [campaign] = code
+    ? await reader.select().from(promoCampaigns).where(eq(promoCampaigns.id, code.campaignId))
+    : [];
+
+  if (!code || !campaign) {
+    return {
+      code: null,
+      quote: {
+        code: codeText,
+        campaignId: null,
+        campaignName: null,
+        eligible: false,
+        reasons: ['This promo code does not exist'],
+        originalCents: price.priceCents,
+        discountCents: 0,
+        finalCents: price.priceCents
+      }
+    };
+  }
+
+  const evaluation = evaluatePromo(campaignTerms(campaign), code, {
+    targetType: target.targetType,
+    priceCents: price.priceCents,
+    coachId: price.coachId,
+    tournamentId: price.tournamentId,
+    paymentMethod: target.paymentMethod,
+    now,
+    priorBookings: campaign.firstBookingOnly
+      ? await countPriorBookings(reader, userId, target.targetType, redeeming?.recordedId)
+      : 0,
+    userRedemptions: await countUserRedemptions(reader, code.id, userId)
+  });
+
+  return { code, quote: { ...evaluation, code: code.code, campaignId: campaign.id, campaignName: campaign.name } };
+}
+
+/**
+ * What a code would take off a purchase, without using it
+ */
+export async function quotePromoCode(userId: number, code: string, target: PromoTarget, now: Date = new Date()): Promise<PromoQuote> {
+  return (await evaluateCode(db, userId, code, target, now, null)).quote;
+}
+
+/**
+ * Uses a code on a purchase, inside the purchase's transaction. Throws when
+ * the code does not apply, so the purchase is rolled back with it.
+ *
+ * @param recordedId - The booking, enrollment or registration the redemption belongs to
+ */
+export async function redeemPromoCode(
+  writer: PromoWriter,
+  userId: number,
+  code: string,
+  target: PromoTarget,
+  recordedId: number,
+  now: Date = new Date()
+): Promise<PromoQuote & { redemption: PromoRedemption }> {
+  const { quote, code: promoCode } = await evaluateCode(writer, userId, code, target, now, { recordedId });
+  if (!promoCode || !quote.eligible) {
+    throw new Error(`Promo code not applied: ${quote.reasons.join('; ')}`);
+  }
+
+  const [redemption] = await writer.insert(promoRedemptions)
+    .values({
+      codeId: promoCode.id,
+      campaignId: promoCode.campaignId,
+      userId,
+      targetType: target.targetType,
+      targetId: recordedId,
+      paymentMethod: target.paymentMethod,
+      originalAmountCents: quote.originalCents,
+      discountCents: quote.discountCents,
+      finalAmountCents: quote.finalCents,
+      redeemedAt: now
+    })
+    .returning();
+
+  await writer.update(promoCodes)
+    .set({ redemptionCount: sql`${promoCodes.redemptionCount} + 1` })
+    .where(eq(promoCodes.id, promoCode.id));
+
+  console.log(`[Promo] ${promoCode.code} took ${quote.discountCents} cents off ${target.targetType} ${recordedId} for user ${userId}`);
+  return { ...quote, redemption };
+}
+
+/**
+ * Gives a code use back when its purchase is refunded in full. Does nothing
+ * when the purchase had no code.
+ */
+export async function reversePromoRedemption(writer: PromoWriter, targetType: PromoTargetType, recordedId: number): Promise<void> {
+  const [reversed] = await writer.update(promoRedemptions)
+    .set({ status: 'reversed', reversedAt: new Date() })
+    .where(and(
+      eq(promoRedemptions.targetType, targetType),
+      eq(promoRedemptions.targetId, recordedId),
+      eq(promoRedemptions.status, 'applied')
+    ))
+    .returning({ codeId: promoRedemptions.codeId });
+
+  if (reversed) {
+    await writer.update(promoCodes)
+      .set({ redemptionCount: sql`GREATEST(${promoCodes.redemptionCount} - 1, 0)` })
+      .where(eq(promoCodes.id, reversed.codeId));
+  }
+}
+
+/**
+ * Redemption totals of a campaign, by target and by day, with per-code usage
+ */
+export async function getPromoCampaignAnalytics(campaignId: number): Promise<PromoCampaignAnalytics> {
+  const [campaign] = await db.select().from(promoCampaigns).where(eq(promoCampaigns.id, campaignId));
+  if (!campaign) {
+    throw new Error('Promo campaign not found');
+  }
+
+  const redemptions = await db.select()
+    .from(promoRedemptions)
+    .where(eq(promoRedemptions.campaignId, campaignId));
+  const codes = await listPromoCodes(campaignId);
+
+  return {
+    campaign,
+    summary: summarizePromoRedemptions(redemptions),
+    codes: codes.map(code => ({
+      id: code.id,
+      code: code.code,
+      redemptionCount: code.redemptionCount,
+      maxRedemptions: code.maxRedemptions,
+      active: code.active
+    }))
+  };
+}
@@ -0,0 +1,508 @@
+/**
+ * Ranking Replay Service
+ *
+ * Rebuilds every player's ranking points, pickle points and per-division
+ * totals from the matches table in chronological order, replaying recorded
+ * weekly decay along the way. The rebuilt totals are compared with the
+ * stored ones, and applying a run sets the rebuilt totals with a
+ * replay_adjustment ranking transaction recording each correction.
+ */
+
+import { db } from "../db";
+import { and, desc, eq, isNull, notInArray, or, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  matches,
+  users,
+  rankingTransactions,
+  rankingReplayRuns,
+  type RankingReplayRun,
+  type RankingReplayUserDiff
+} from "../../shared/schema";
+import {
+  calculatePointsWithRules,
+  getAgeGroupAt,
+  isCrossGenderMatch,
+  type PointsRuleset
+} from "../../shared/utils/pointsRuleEngine";
+import { getActiveRulesets, resolveRulesetAt } from "./points-ruleset-service";
+import { recordPointsLedgerEntries } from "./points-ledger-service";
+
+/**
+ * User points columns rebuilt by the replay
+ */
+export const REPLAY_FIELDS = [
+  'rankingPoints',
+  'picklePoints',
+  'singlesRankingPoints',
+  'doublesRankingPoints',
+  'mensDoublesRankingPoints',
+  'womensDoublesRankingPoints',
+  'mixedDoublesMenRankingPoints',
+  'mixedDoublesWomenRankingPoints'
+] as const;
+
+export type ReplayField = typeof REPLAY_FIELDS[number];
+export type ReplayTotals = Record<ReplayField, number>;
+
+/**
+ * Transaction source written by DecayProtectionService.processWeeklyDecay
+ */
+const DECAY_SOURCE = 'weekly_decay';
+const ADJUSTMENT_SOURCE = 'replay_adjustment';
+
+/**
+ * Advisory lock key held while a replay is applied
+ */
+const APPLY_LOCK_KEY = 'ranking_replay_apply';
+
+type Writer = PgDatabase<any, any, any>;
+
+/**
+ * A rated match prepared for replay
+ */
+export interface ReplayMatch {
+  id: number;
+  playedAt: Date;
+  matchType: string;
+  team1: number[];
+  team2: number[];
+  team1Won: boolean;
+}
+
+/**
+ * A recorded weekly decay of a player's ranking points
+ */
+export interface ReplayDecayEvent {
+  id: number;
+  userId: number;
+  at: Date;
+  decayRate: number; // Percentage
+}
+
+/**
+ * Player data needed to calculate points
+ */
+export interface ReplayPlayer {
+  id: number;
+  gender: string | null;
+  dateOfBirth: string | null;
+}
+
+export interface RankingReplayResult {
+  totals: Map<number, ReplayTotals>;
+  matchesReplayed: number;
+  matchesSkipped: number;
+  decayEventsReplayed: number;
+  rulesetVersions: number[];
+}
+
+/**
+ * Stored totals of a user, as loaded from the users table
+ */
+export type StoredPlayerTotals = { id: number, username: string } & Record<ReplayField, number | null>;
+
+export interface RankingReplayOptions {
+  apply?: boolean;
+  fields?: ReplayField[];
+  userIds?: number[];
+  initiatedById?: number;
+}
+
+/**
+ * All-zero totals for a player
+ */
+function emptyTotals(): ReplayTotals {
+  return Object.fromEntries(REPLAY_FIELDS.map(field => [field, 0])) as ReplayTotals;
+}
+
+/**
+ * Division column a player's match points are counted in.
+ * Doubles with a player of unknown gender fall back to the legacy doubles column.
+ */
+export function getDivisionField(
+  format: 'singles' | 'doubles',
+  matchGenders: Array<string | null>,
+  gender: string | null
+): ReplayField {
+  if (format === 'singles') return 'singlesRankingPoints';
+
+  if (matchGenders.some(matchGender => matchGender !== 'male' && matchGender !== 'female')) {
+    return 'doublesRankingPoints';
+  }
+
+  if (matchGenders.every(matchGender => matchGender === 'male')) return 'mensDoublesRankingPoints';
+  if (matchGenders.every(matchGender => matchGender === 'female')) return 'womensDoublesRankingPoints';
+
+  return gender === 'male' ? 'mixedDoublesMenRankingPoints' : 'mixedDoublesWomenRankingPoints';
+}
+
+/**
+ * Replay matches and decay events in chronological order and return every
+ * player's rebuilt totals. Each match uses the ruleset in force when it was
+ * played, and gender bonus thresholds use the player's replayed total at
+ * that moment. Awards are rounded to whole points the way the integer
+ * columns store them.
+ */
+export function replayRankingHistory(
+  replayMatches: ReplayMatch[],
+  decayEvents: ReplayDecayEvent[],
+  players: Map<number, ReplayPlayer>,
+  resolveRuleset: (at: Date) => PointsRuleset
+): RankingReplayResult {
+  const totals = new Map<number, ReplayTotals>();
+  const rulesetVersions = new Set<number>();
+  let matchesReplayed = 0;
+  let matchesSkipped = 0;
+  let decayEventsReplayed = 0;
+
+  const totalsFor = (userId: number): ReplayTotals => {
+    let playerTotals = totals.get(userId);
+    if (!playerTotals) {
+      playerTotals = emptyTotals();
+      totals.set(userId, playerTotals);
+    }
+    return playerTotals;
+  };
+
+  // Matches come before decay at the same instant; ties are broken by ID
+  const events = [
+    ...replayMatches.map(match => ({ at: match.playedAt, order: 0, id: match.id, match, decay: null })),
+    ...decayEvents.map(decay => ({ at: decay.at, order: 1, id: decay.id, match: null, decay }))
+  ].sort((a, b) => a.at.getTime() - b.at.getTime() || a.order - b.order || a.id - b.id);
+
+  for (const event of events) {
+    if (event.decay) {
+      const playerTotals = totalsFor(event.decay.userId);
+      if (playerTotals.rankingPoints > 0) {
+        playerTotals.rankingPoints -= Math.floor(playerTotals.rankingPoints * (event.decay.decayRate / 100));
+      }
+      decayEventsReplayed++;
+      continue;
+    }
+
+    const match = event.match!;
+    const playerIds = [...match.team1, ...match.team2];
+    const matchPlayers = playerIds.map(playerId => players.get(playerId));
+
+    if (playerIds.length < 2 || matchPlayers.some(player => !player)) {
+      matchesSkipped++;
+      continue;
+    }
+
+    const ruleset = resolveRuleset(match.playedAt);
+    const format = playerIds.length > 2 ? 'doubles' : 'singles';
+    const genders = matchPlayers.map(player => player!.gender);
+    const isCrossGender = isCrossGenderMatch(genders);
+
+    rulesetVersions.add(ruleset.version);
+    matchesReplayed++;
+
+    // Calculate every award before updating totals so player order doesn't matter
+    const awards = matchPlayers.map(player => ({
+      player: player!,
+      points: calculatePointsWithRules(ruleset, {
+        isWin: match.team1.includes(player!.id) === match.team1Won,
+        ageGroup: player!.dateOfBirth ? getAgeGroupAt(player!.dateOfBirth, match.playedAt) : undefined,
+        gender: player!.gender || undefined,
+        currentRankingPoints: totalsFor(player!.id).rankingPoints,
+        eventType: match.matchType,
+        isCrossGender
+      })
+    }));
+
+    for (const { player, points } of awards) {
+      const playerTotals = totalsFor(player.id);
+      const rankingPoints = Math.round(points.rankingPoints);
+
+      playerTotals.rankingPoints += rankingPoints;
+      playerTotals.picklePoints += Math.round(points.picklePoints);
+      playerTotals[getDivisionField(format, genders, player.gender)] += rankingPoints;
+    }
+  }
+
+  return {
+    totals,
+    matchesReplayed,
+    matchesSkipped,
+    decayEventsReplayed,
+    rulesetVersions: Array.from(rulesetVersions).sort((a, b) => a - b)
+  };
+}
+
+/**
+ * Compare replayed totals with stored totals.
+ * Users without replayed history are expected to have zero in every field.
+ *
+ * @returns Users with at least one differing field, largest ranking change first
+ */
+export function buildReplayDiff(
+  replayed: Map<number, ReplayTotals>,
+  stored: StoredPlayerTotals[],
+  fields: readonly ReplayField[] = REPLAY_FIELDS
+): RankingReplayUserDiff[] {
+  const diffs: RankingReplayUserDiff[] = [];
+
+  for (const user of stored) {
+    const replayedTotals = replayed.get(user.id) || emptyTotals();
+    const entry: RankingReplayUserDiff = { userId: user.id, username: user.username, fields: {} };
+
+    for (const field of fields) {
+      const storedValue = user[field] || 0;
+      const replayedValue = replayedTotals[field];
+
+      if (storedValue !== replayedValue) {
+        entry.fields[field] = { stored: storedValue, replayed: replayedValue, delta: replayedValue - storedValue };
+      }
+    }
+
+    if (Object.keys(entry.fields).length > 0) {
+      diffs.push(entry);
+    }
+  }
+
+  const rankingDelta = (entry: RankingReplayUserDiff) => Math.abs(entry.fields.rankingPoints?.delta || 0);
+
+  return diffs.sort((a, b) => rankingDelta(b) - rankingDelta(a) || a.userId - b.userId);
+}
+
+/**
+ * Load rated matches, recorded decay and players for a full replay
+ *
+ * @param writer - Database or transaction to read from
+ * @param lockPlayers - Lock the users rows until the transaction ends
+ */
+async function loadReplayInputs(writer: Writer = db, lockPlayers = false): Promise<{
+  replayMatches: ReplayMatch[],
+  decayEvents: ReplayDecayEvent[],
+  players: StoredPlayerTotals[],
+  playerDetails: Map<number, ReplayPlayer>
+}> {
+  const playerQuery = writer.select({
+    id: users.id,
+    username: users.username,
+    gender: users.gender,
+    dateOfBirth: users.dateOfBirth,
+    rankingPoints: users.rankingPoints,
+    picklePoints: users.picklePoints,
+    singlesRankingPoints: users.singlesRankingPoints,
+    doublesRankingPoints: users.doublesRankingPoints,
+    mensDoublesRankingPoints: users.mensDoublesRankingPoints,
+    womensDoublesRankingPoints: users.womensDoublesRankingPoints,
+    mixedDoublesMenRankingPoints: users.mixedDoublesMenRankingPoints,
+    mixedDoublesWomenRankingPoints: users.mixedDoublesWomenRankingPoints
+  }).from(users);
+
+  // Locked first, so the stored totals cannot change while the history is read
+  const playerRows = lockPlayers ? await playerQuery.for('update') : await playerQuery;
+
+  const matchRows = await writer.select({
+    id: matches.id,
+    matchDate: matches.matchDate,
+    createdAt: matches.createdAt,
+    matchType: matches.matchType,
+    playerOneId: matches.playerOneId,
+    playerOnePartnerId: matches.playerOnePartnerId,
+    playerTwoId: matches.playerTwoId,
+    playerTwoPartnerId: matches.playerTwoPartnerId,
+    winnerId: matches.winnerId
+  })
+    .from(matches)
+    .where(and(
+      or(isNull(matches.isTestData), eq(matches.isTestData, false)),
+      or(isNull(matches.isRated), eq(matches.isRated, true)),
+      notInArray(matches.validationStatus, ['rejected', 'disputed'])
+    ));
+
+  const replayMatches: ReplayMatch[] = matchRows.map(match => {
+    const team1 = [match.playerOneId, match.playerOnePartnerId].filter((playerId): playerId is number => !!playerId);
+    const team2 = [match.playerTwoId, match.playerTwoPartnerId].filter((playerId): playerId is number => !!playerId);
+
+    return {
+      id: match.id,
+      playedAt: match.matchDate || match.createdAt || new Date(0),
+      matchType: match.matchType,
+      team1,
+      team2,
+      team1Won: team1.includes(match.winnerId)
+    };
+  });
+
+  const decayRows = await writer.select({
+    id: rankingTransactions.id,
+    userId: rankingTransactions.userId,
+    timestamp: rankingTransactions.timestamp,
+    metadata: rankingTransactions.metadata
+  })
+    .from(rankingTransactions)
+    .where(eq(rankingTransactions.source, DECAY_SOURCE));
+
+  const decayEvents: ReplayDecayEvent[] = decayRows
+    .map(row => ({
+      id: row.id,
+      userId: row.userId,
+      at: row.timestamp,
+      decayRate: Number((row.metadata as { decayRate?: number } | null)?.decayRate)
+    }))
+    .filter(decay => Number.isFinite(decay.decayRate));
+
+
+  return {
+    replayMatches,
+    decayEvents,
+    players: playerRows,
+    playerDetails: new Map(playerRows.map(player => [player.id, {
+      id: player.id,
+      gender: player.gender,
+      dateOfBirth: player.dateOfBirth
+    }]))
+  };
+}
+
+/**
+ * Replay the full match history and diff it against the stored totals
+ */
+async function replayAgainstStoredTotals(
+  options: RankingReplayOptions,
+  fields: ReplayField[],
+  writer: Writer = db,
+  lockPlayers = false
+) {
+  const { replayMatches, decayEvents, players, playerDetails } = await loadReplayInputs(writer, lockPlayers);
+  const activeRulesets = await getActiveRulesets();
+
+  const result = replayRankingHistory(
+    replayMatches,
+    decayEvents,
+    playerDetails,
+    at => resolveRulesetAt(activeRulesets, at)
+  );
+
+  const storedPlayers = options.userIds?.length
+    ? players.filter(player => options.userIds!.includes(player.id))
+    : players;
+
+  const report = buildReplayDiff(result.totals, storedPlayers, fields);
+
+  console.log(`[RankingReplay] Replayed ${result.matchesReplayed} matches and ${result.decayEventsReplayed} decay events; ${report.length} of ${storedPlayers.length} users differ`);
+
+  return {
+    mode: options.apply ? 'apply' : 'preview',
+    status: options.apply ? 'applied' : 'completed',
+    matchesReplayed: result.matchesReplayed,
+    decayEventsReplayed: result.decayEventsReplayed,
+    usersChecked: storedPlayers.length,
+    usersWithDifferences: report.length,
+    rulesetVersions: result.rulesetVersions,
+    fields,
+    report,
+    initiatedById: options.initiatedById || null,
+    appliedAt: options.apply ? new Date() : null
+  };
+}
+
+/**
+ * Replay the full match history and record a diff report against stored totals.
+ * With `apply`, the replay runs again inside the apply transaction under an
+ * advisory lock with the users rows locked, so the diff is taken against the
+ * totals being corrected; each differing user is set to the replayed totals
+ * and receives a replay_adjustment transaction for the difference.
+ *
+ * @param options - Apply corrections, restrict fields or users, initiating admin
+ * @returns The recorded replay run including its diff report
+ */
+export async function runRankingReplay(options: RankingReplayOptions = {}): Promise<RankingReplayRun> {
+  try {
+    const fields = options.fields?.length ? options.fields : [...REPLAY_FIELDS];
+
+    if (!options.apply) {
+      const runValues = await replayAgainstStoredTotals(options, fields);
+      const [run] = await db.insert(rankingReplayRuns).values(runValues).returning();
+      return run;
+    }
+
+    const run = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${APPLY_LOCK_KEY}))`);
+
+      const runValues = await replayAgainstStoredTotals(options, fields, tx, true);
+      const [created] = await tx.insert(rankingReplayRuns).values(runValues).returning();
+
+      for (const entry of runValues.report) {
+        const corrections = Object.fromEntries(
+          Object.entries(entry.fields).map(([field, diff]) => [field, diff.replayed])
+        );
+
+        await tx.update(users)
+          .set(corrections)
+          .where(eq(users.id, entry.userId));
+
+        await tx.insert(rankingTransactions).values({
+          userId: entry.userId,
+          amount: entry.fields.rankingPoints?.delta || 0,
+          source: ADJUSTMENT_SOURCE,
+          metadata: { replayRunId: created.id, fields: entry.fields }
+        });
+
+        const ledgerDetails = {
+          userId: entry.userId,
+          entryType: 'replay_adjustment' as const,
+          sourceType: 'ranking_replay_run',
+          sourceId: created.id,
+          reason: `Ranking replay run ${created.id}`
+        };
+
+        await recordPointsLedgerEntries([
+          { ...ledgerDetails, currency: 'ranking', amount: entry.fields.rankingPoints?.delta || 0, metadata: { fields: entry.fields } },
+          { ...ledgerDetails, currency: 'pickle', amount: entry.fields.picklePoints?.delta || 0 }
+        ], tx);
+      }
+
+      return created;
+    });
+
+    console.log(`[RankingReplay] Run ${run.id} applied corrections to ${run.usersWithDifferences} users`);
+    return run;
+  } catch (error) {
+    console.error("Error running ranking replay:", error);
+    throw error;
+  }
+}
+
+/**
+ * Recent replay runs without their diff reports
+ */
+export async function listRankingReplayRuns(limit: number = 20): Promise<Omit<RankingReplayRun, 'report'>[]> {
+  return db.select({
+    id: rankingReplayRuns.id,
+    mode: rankingReplayRuns.mode,
+    status: rankingReplayRuns.status,
+    matchesReplayed: rankingReplayRuns.matchesReplayed,
+    decayEventsReplayed: rankingReplayRuns.decayEventsReplayed,
+    usersChecked: rankingReplayRuns.usersChecked,
+    usersWithDifferences: rankingReplayRuns.usersWithDifferences,
+    rulesetVersions: rankingReplayRuns.rulesetVersions,
+    fields: rankingReplayRuns.fields,
+    initiatedById: rankingReplayRuns.initiatedById,
+    appliedAt: rankingReplayRuns.appliedAt,
+    createdAt: rankingReplayRuns.createdAt
+  })
+    .from(rankingReplayRuns)
+    .orderBy(desc(rankingReplayRuns.createdAt))
+    .limit(limit);
+}
+
+/**
+ * A replay run with its diff report
+ */
+export async function getRankingReplayRun(id: number): Promise<RankingReplayRun> {
+  const [run] = await db.select()
+    .from(rankingReplayRuns)
+    .where(eq(rankingReplayRuns.id, id))
+    .limit(1);
+
+  if (!run) {
+    throw new Error(`Ranking replay run with ID ${id} not found`);
+  }
+
+  return run;
+}
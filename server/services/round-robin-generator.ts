@@ -0,0 +1,591 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Round Robin Pool Generator Service
+ *
+ * This service splits tournament teams into snake-seeded pools, schedules
+ * pool play with the circle method (including court/time slots), computes
+ * pool standings with the pickleball tiebreak cascade and seeds the top
+ * finishers of every pool into a single elimination playoff bracket.
+ */
+
+import { db } from "../db";
+import { eq, asc, inArray } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  tournamentTeams,
+  tournamentBrackets,
+  tournamentRounds,
+  tournamentPools,
+  tournamentBracketMatches,
+  type TournamentTeam,
+  type TournamentPool,
+  type TournamentBracketMatch,
+  type InsertTournamentBracketMatch
+} from "../../shared/schema/tournament-brackets";
+import { tournaments, users } from "../../shared/schema";
+import { createSingleEliminationBracket } from "./bracket-generator";
+
+type Writer = PgDatabase<any, any, any>;
+
+/**
+ * Options for round robin pool play
+ */
+export interface RoundRobinOptions {
+  poolCount: number;
+  advancePerPool: number; // Top K teams of each pool advance to the playoff
+  courts?: string[]; // Court labels; defaults to the tournament's number of courts
+  startTime?: Date; // Start of the first time slot
+  slotMinutes?: number; // Length of a time slot
+  autoAdvance?: boolean; // Create the playoff bracket when the last pool match completes
+}
+
+/**
+ * A single scheduled pool match (before persistence)
+ */
+export interface ScheduledPoolMatch {
+  poolIndex: number;
+  roundNumber: number;
+  team1Id: number;
+  team2Id: number;
+  courtNumber: string | null;
+  matchDate: Date | null;
+}
+
+/**
+ * Result of a completed pool match, in points per team
+ */
+export interface PoolMatchResult {
+  team1Id: number;
+  team2Id: number;
+  winnerId: number;
+  team1Points: number;
+  team2Points: number;
+}
+
+/**
+ * A team's line in the pool standings
+ */
+export interface PoolStanding {
+  teamId: number;
+  rank: number;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifferential: number;
+}
+
+const DEFAULT_SLOT_MINUTES = 30;
+const DEFAULT_COURTS_COUNT = 4;
+
+/**
+ * Splits teams (strongest first) into pools using snake seeding:
+ * seeds 1..N go left to right, N+1..2N right to left, and so on.
+ */
+export function snakeSeedPools(teamIds: number[], poolCount: number): number[][] {
+  if (poolCount < 1) {
+    throw new Error("At least 1 pool is required");
+  }
+
+  const pools: number[][] = Array.from({ length: poolCount }, () => []);
+
+  teamIds.forEach((teamId, index) => {
+    const pass = Math.floor(index / poolCount);
+    const position = index % poolCount;
+    const poolIndex = pass % 2 === 0 ? position : poolCount - 1 - position;
+    pools[poolIndex].push(teamId);
+  });
+
+  return pools;
+}
+
+/**
+ * Generates a full round robin schedule using the circle method.
+ * The first team stays fixed while the others rotate; with an odd number of
+ * teams one team sits out (bye) each round.
+ *
+ * @returns One array of [team1Id, team2Id] pairs per round
+ */
+export function generateCircleSchedule(teamIds: number[]): Array<Array<[number, number]>> {
+  const circle: Array<number | null> = [...teamIds];
+  if (circle.length % 2 === 1) {
+    circle.push(null); // Bye
+  }
+
+  const n = circle.length;
+  const rounds: Array<Array<[number, number]>> = [];
+
+  for (let round = 0; round < n - 1; round++) {
+    const pairs: Array<[number, number]> = [];
+
+    for (let i = 0; i < n / 2; i++) {
+      const home = circle[i];
+      const away = circle[n - 1 - i];
+      if (home === null || away === null) continue;
+
+      // Alternate sides for the fixed team so it doesn't always serve first
+      pairs.push(i === 0 && round % 2 === 1 ? [away, home] : [home, away]);
+    }
+
+    rounds.push(pairs);
+
+    // Rotate every team except the first one position clockwise
+    circle.splice(1, 0, circle.pop() as number | null);
+  }
+
+  return rounds;
+}
+
+/**
+ * Assigns courts and time slots to pool matches.
+ * Matches of the same round share a wave; when a round has more matches
+ * than courts it spills over into the following time slot(s).
+ */
+export function assignCourtsAndSlots(
+  poolSchedules: Array<Array<Array<[number, number]>>>,
+  courts: string[],
+  startTime?: Date,
+  slotMinutes: number = DEFAULT_SLOT_MINUTES
+): ScheduledPoolMatch[] {
+  const scheduled: ScheduledPoolMatch[] = [];
+  const roundsCount = Math.max(0, ...poolSchedules.map(rounds => rounds.length));
+  let slotIndex = 0;
+
+  for (let round = 0; round < roundsCount; round++) {
+    const roundMatches: Array<{ poolIndex: number, pair: [number, number] }> = [];
+    poolSchedules.forEach((rounds, poolIndex) => {
+      (rounds[round] || []).forEach(pair => roundMatches.push({ poolIndex, pair }));
+    });
+
+    roundMatches.forEach(({ poolIndex, pair }, i) => {
+      const courtIndex = courts.length > 0 ? i % courts.length : 0;
+      const slot = courts.length > 0 ? slotIndex + Math.floor(i / courts.length) : slotIndex;
+
+      scheduled.push({
+        poolIndex,
+        roundNumber: round + 1,
+        team1Id: pair[0],
+        team2Id: pair[1],
+        courtNumber: courts.length > 0 ? courts[courtIndex] : null,
+        matchDate: startTime ? new Date(startTime.getTime() + slot * slotMinutes * 60 * 1000) : null
+      });
+    });
+
+    slotIndex += courts.length > 0 ? Math.max(1, Math.ceil(roundMatches.length / courts.length)) : 1;
+  }
+
+  return scheduled;
+}
+
+/**
+ * Computes pool standings using the standard pickleball tiebreak cascade:
+ * 1. Match wins
+ * 2. Head-to-head wins among the tied teams
+ * 3. Point differential in matches among the tied teams
+ * 4. Fewest points allowed in matches among the tied teams
+ * Whenever a criterion separates the best team(s) from a tied group, the
+ * cascade restarts at head-to-head for the teams that are still tied. Remaining ties fall
+ * back to the original seeding order (order of teamIds).
+ */
+export function computePoolStandings(
+  teamIds: number[],
+  results: PoolMatchResult[]
+): PoolStanding[] {
+  const lines = new Map<number, PoolStanding>();
+  teamIds.forEach(teamId => lines.set(teamId, {
+    teamId,
+    rank: 0,
+    played: 0,
+    wins: 0,
+    losses: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifferential: 0
+  }));
+
+  for (const result of results) {
+    const team1 = lines.get(result.team1Id);
+    const team2 = lines.get(result.team2Id);
+    if (!team1 || !team2) continue;
+
+    team1.played++;
+    team2.played++;
+    team1.pointsFor += result.team1Points;
+    team1.pointsAgainst += result.team2Points;
+    team2.pointsFor += result.team2Points;
+    team2.pointsAgainst += result.team1Points;
+
+    if (result.winnerId === result.team1Id) {
+      team1.wins++;
+      team2.losses++;
+    } else {
+      team2.wins++;
+      team1.losses++;
+    }
+  }
+
+  lines.forEach(line => {
+    line.pointDifferential = line.pointsFor - line.pointsAgainst;
+  });
+
+  const seedOrder = new Map(teamIds.map((teamId, index) => [teamId, index]));
+
+  // Stats restricted to matches between members of a tied group
+  const groupStats = (group: number[]) => {
+    const members = new Set(group);
+    const stats = new Map(group.map(teamId => [teamId, { wins: 0, pointsFor: 0, pointsAgainst: 0 }]));
+
+    results
+      .filter(result => members.has(result.team1Id) && members.has(result.team2Id))
+      .forEach(result => {
+        const team1 = stats.get(result.team1Id)!;
+        const team2 = stats.get(result.team2Id)!;
+        team1.pointsFor += result.team1Points;
+        team1.pointsAgainst += result.team2Points;
+        team2.pointsFor += result.team2Points;
+        team2.pointsAgainst += result.team1Points;
+        stats.get(result.winnerId)!.wins++;
+      });
+
+    return stats;
+  };
+
+  const resolveTies = (group: number[]): number[] => {
+    if (group.length <= 1) return group;
+
+    const stats = groupStats(group);
+    const criteria: Array<(teamId: number) => number> = [
+      teamId => stats.get(teamId)!.wins, // Head-to-head
+      teamId => stats.get(teamId)!.pointsFor - stats.get(teamId)!.pointsAgainst, // Point differential
+      teamId => -stats.get(teamId)!.pointsAgainst // Fewest points allowed
+    ];
+
+    for (const criterion of criteria) {
+      const partitions = partitionBy(group, criterion);
+      if (partitions.length > 1) {
+        // Separate the best partition, then restart the cascade for the rest
+        return [...resolveTies(partitions[0]), ...resolveTies(partitions.slice(1).flat())];
+      }
+    }
+
+    return [...group].sort((a, b) => seedOrder.get(a)! - seedOrder.get(b)!);
+  };
+
+  const ordered = partitionBy(teamIds, teamId => lines.get(teamId)!.wins).flatMap(resolveTies);
+
+  return ordered.map((teamId, index) => ({ ...lines.get(teamId)!, rank: index + 1 }));
+}
+
+/**
+ * Groups teams by a numeric criterion, highest value first
+ */
+function partitionBy(teamIds: number[], criterion: (teamId: number) => number): number[][] {
+  const groups = new Map<number, number[]>();
+  teamIds.forEach(teamId => {
+    const value = criterion(teamId);
+    groups.set(value, [...(groups.get(value) || []), teamId]);
+  });
+
+  return Array.from(groups.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([, group]) => group);
+}
+
+/**
+ * Extracts per-team points from a completed bracket match.
+ * Uses scoreDetails.team1Points/team2Points when provided; otherwise the
+ * score string is parsed as winner-first games, e.g. "11-7, 9-11, 11-5".
+ */
+export function getMatchPoints(
+  match: Pick<TournamentBracketMatch, 'team1Id' | 'team2Id' | 'winnerId' | 'score' | 'scoreDetails'>
+): { team1Points: number, team2Points: number } {
+  const details = (match.scoreDetails || {}) as Record<string, any>;
+
+  if (typeof details.team1Points === 'number' && typeof details.team2Points === 'number') {
+    return { team1Points: details.team1Points, team2Points: details.team2Points };
+  }
+
+  let winnerPoints = 0;
+  let loserPoints = 0;
+
+  (match.score || '').split(',').forEach(game => {
+    const scores = game.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    if (scores) {
+      winnerPoints += parseInt(scores[1]);
+      loserPoints += parseInt(scores[2]);
+    }
+  });
+
+  return match.winnerId === match.team1Id
+    ? { team1Points: winnerPoints, team2Points: loserPoints }
+    : { team1Points: loserPoints, team2Points: winnerPoints };
+}
+
+/**
+ * Orders teams strongest first: explicit seed numbers win, then the sum of
+ * the players' best doubles ranking points
+ */
+async function sortTeamsByRating(teams: TournamentTeam[]): Promise<TournamentTeam[]> {
+  const playerIds = Array.from(new Set(teams.flatMap(team => [team.playerOneId, team.playerTwoId])));
+
+  const players = playerIds.length > 0
+    ? await db.select().from(users).where(inArray(users.id, playerIds))
+    : [];
+
+  const playerPoints = new Map(players.map(player => [player.id, Math.max(
+    player.doublesRankingPoints || 0,
+    player.mensDoublesRankingPoints || 0,
+    player.womensDoublesRankingPoints || 0,
+    player.mixedDoublesMenRankingPoints || 0,
+    player.mixedDoublesWomenRankingPoints || 0
+  )]));
+
+  const teamRating = (team: TournamentTeam) =>
+    (playerPoints.get(team.playerOneId) || 0) + (playerPoints.get(team.playerTwoId) || 0);
+
+  return [...teams].sort((a, b) => {
+    if (a.seedNumber != null && b.seedNumber != null) return a.seedNumber - b.seedNumber;
+    if (a.seedNumber != null) return -1;
+    if (b.seedNumber != null) return 1;
+    return teamRating(b) - teamRating(a) || a.id - b.id;
+  });
+}
+
+/**
+ * Creates a round robin bracket: snake-seeded pools, a circle-method
+ * schedule with court/time slots and empty pool matches ready for results
+ *
+ * @param tournamentId - ID of the tournament
+ * @param teamsArray - Teams to split into pools
+ * @param options - Pool count, playoff size and scheduling options
+ * @returns ID of the created bracket
+ */
+export async function createRoundRobinBracket(
+  tournamentId: number,
+  teamsArray: TournamentTeam[],
+  options: RoundRobinOptions
+): Promise<number> {
+  try {
+    const [tournament] = await db.select()
+      .from(tournaments)
+      .where(eq(tournaments.id, tournamentId))
+      .limit(1);
+
+    if (!tournament) {
+      throw new Error(`Tournament with ID ${tournamentId} not found`);
+    }
+
+    if (teamsArray.length < options.poolCount * 2) {
+      throw new Error("Each pool needs at least 2 teams");
+    }
+
+    if (options.advancePerPool < 1) {
+      throw new Error("At least 1 team per pool must advance to the playoff");
+    }
+
+    const sortedTeams = await sortTeamsByRating(teamsArray);
+    const poolTeamIds = snakeSeedPools(sortedTeams.map(team => team.id), options.poolCount);
+
+    if (poolTeamIds.some(teamIds => teamIds.length < options.advancePerPool)) {
+      throw new Error("Every pool must have at least as many teams as advance to the playoff");
+    }
+
+    const poolSchedules = poolTeamIds.map(teamIds => generateCircleSchedule(teamIds));
+    const courts = options.courts && options.courts.length > 0
+      ? options.courts
+      : Array.from({ length: tournament.numberOfCourts || DEFAULT_COURTS_COUNT }, (_, i) => `${i + 1}`);
+    const scheduled = assignCourtsAndSlots(poolSchedules, courts, options.startTime, options.slotMinutes);
+    const roundsCount = Math.max(...poolSchedules.map(rounds => rounds.length));
+
+    // Create the bracket record
+    const [bracket] = await db.insert(tournamentBrackets).values({
+      tournamentId,
+      name: "Round Robin Pools",
+      bracketType: "round_robin",
+      teamsCount: teamsArray.length,
+      roundsCount,
+      status: "active",
+      seedingMethod: "rating_based",
+      startDate: options.startTime || null,
+      metadata: {
+        poolCount: options.poolCount,
+        advancePerPool: options.advancePerPool,
+        autoAdvance: options.autoAdvance ?? true,
+        playoffBracketId: null
+      }
+    }).returning();
+
+    const pools = await db.insert(tournamentPools).values(poolTeamIds.map((teamIds, index) => ({
+      bracketId: bracket.id,
+      poolNumber: index + 1,
+      name: `Pool ${String.fromCharCode(65 + index)}`,
+      teamIds,
+      advanceCount: options.advancePerPool
+    }))).returning();
+
+    const rounds = await db.insert(tournamentRounds).values(
+      Array.from({ length: roundsCount }, (_, i) => ({
+        bracketId: bracket.id,
+        roundNumber: i + 1,
+        roundName: `Pool Round ${i + 1}`,
+        bracketSide: "pool",
+        matchesCount: scheduled.filter(match => match.roundNumber === i + 1).length,
+        status: "pending"
+      }))
+    ).returning();
+
+    const matchesData: InsertTournamentBracketMatch[] = scheduled.map((match, index) => ({
+      bracketId: bracket.id,
+      roundId: rounds[match.roundNumber - 1].id,
+      poolId: pools[match.poolIndex].id,
+      matchNumber: index + 1,
+      bracketSide: "pool",
+      team1Id: match.team1Id,
+      team2Id: match.team2Id,
+      matchDate: match.matchDate,
+      courtNumber: match.courtNumber,
+      status: "scheduled"
+    }));
+
+    if (matchesData.length > 0) {
+      await db.insert(tournamentBracketMatches).values(matchesData);
+    }
+
+    return bracket.id;
+  } catch (error) {
+    console.error("Error creating round robin bracket:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the standings of every pool in a round robin bracket
+ */
+export async function getPoolStandings(bracketId: number, writer: Writer = db): Promise<Array<{
+  pool: TournamentPool,
+  standings: PoolStanding[],
+  completed: boolean
+}>> {
+  const pools = await writer.select()
+    .from(tournamentPools)
+    .where(eq(tournamentPools.bracketId, bracketId))
+    .orderBy(asc(tournamentPools.poolNumber));
+
+  const matches = await writer.select()
+    .from(tournamentBracketMatches)
+    .where(eq(tournamentBracketMatches.bracketId, bracketId));
+
+  return pools.map(pool => {
+    const poolMatches = matches.filter(match => match.poolId === pool.id);
+    const results: PoolMatchResult[] = poolMatches
+      .filter(match => match.status === 'completed' && match.team1Id && match.team2Id && match.winnerId)
+      .map(match => ({
+        team1Id: match.team1Id!,
+        team2Id: match.team2Id!,
+        winnerId: match.winnerId!,
+        ...getMatchPoints(match)
+      }));
+
+    return {
+      pool,
+      standings: computePoolStandings(pool.teamIds, results),
+      completed: poolMatches.every(match => ['completed', 'cancelled'].includes(match.status))
+    };
+  });
+}
+
+/**
+ * Seeds the top finishers of every pool into a single elimination playoff.
+ * Pool winners are seeded first (ordered by record, then point differential
+ * and points allowed), followed by the runners-up, and so on.
+ *
+ * The round robin bracket row stays locked while the playoff is created, so
+ * results finishing pool play at the same time create only one playoff.
+ *
+ * @param bracketId - ID of the round robin bracket
+ * @returns ID of the playoff bracket
+ */
+export async function advancePoolsToPlayoff(bracketId: number): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      const [bracket] = await tx.select()
+        .from(tournamentBrackets)
+        .where(eq(tournamentBrackets.id, bracketId))
+        .limit(1)
+        .for('update');
+
+      if (!bracket) {
+        throw new Error(`Bracket with ID ${bracketId} not found`);
+      }
+
+      if (bracket.bracketType !== 'round_robin') {
+        throw new Error(`Bracket ${bracketId} is not a round robin bracket`);
+      }
+
+      const metadata = (bracket.metadata || {}) as Record<string, any>;
+      if (metadata.playoffBracketId) {
+        return metadata.playoffBracketId;
+      }
+
+      const poolStandings = await getPoolStandings(bracketId, tx);
+
+      if (poolStandings.some(({ completed }) => !completed)) {
+        throw new Error("All pool matches must be completed before advancing to the playoff");
+      }
+
+      // Seed by finishing position across pools
+      const seedingOrder: number[] = [];
+      const maxAdvance = Math.max(...poolStandings.map(({ pool }) => pool.advanceCount));
+
+      for (let place = 1; place <= maxAdvance; place++) {
+        poolStandings
+          .filter(({ pool }) => place <= pool.advanceCount)
+          .map(({ standings }) => standings[place - 1])
+          .filter(Boolean)
+          .sort((a, b) =>
+            (b.wins / Math.max(1, b.played)) - (a.wins / Math.max(1, a.played)) ||
+            b.pointDifferential - a.pointDifferential ||
+            a.pointsAgainst - b.pointsAgainst
+          )
+          .forEach(standing => seedingOrder.push(standing.teamId));
+      }
+
+      const teams = await tx.select()
+        .from(tournamentTeams)
+        .where(inArray(tournamentTeams.id, seedingOrder));
+
+      const playoffBracketId = await createSingleEliminationBracket(bracket.tournamentId, teams, seedingOrder, tx);
+
+      await tx.update(tournamentPools)
+        .set({ status: "completed", updatedAt: new Date() })
+        .where(eq(tournamentPools.bracketId, bracketId));
+
+      await tx.update(tournamentBrackets)
+        .set({
+          status: "completed",
+          endDate: new Date(),
+          metadata: { ...metadata, playoffBracketId },
+          updatedAt: new Date()
+        })
+        .where(eq(tournamentBrackets.id, bracketId));
+
+      const [playoffBracket] = await tx.select()
+        .from(tournamentBrackets)
+        .where(eq(tournamentBrackets.id, playoffBracketId))
+        .limit(1);
+
+      await tx.update(tournamentBrackets)
+        .set({
+          name: "Playoff Bracket",
+          metadata: { ...((playoffBracket?.metadata || {}) as Record<string, any>), sourcePoolBracketId: bracketId }
+        })
+        .where(eq(tournamentBrackets.id, playoffBracketId));
+
+      return playoffBracketId;
+    });
+  } catch (error) {
+    console.error("Error advancing pools to playoff:", error);
+    throw error;
+  }
+}
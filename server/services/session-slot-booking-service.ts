@@ -0,0 +1,116 @@
+/**
+ * Session Slot Booking Service
+ *
+ * Books a player into a coach's session slot. The slot is locked while
+ * booking so its capacity holds under concurrent bookings; the booking, its
+ * booking.created event, the promo code redemption and the slot's new count
+ * are written in one transaction, so a rejected promo code books nothing.
+ */
+
+import { db } from "../db";
+import { eq } from "drizzle-orm";
+import {
+  bookingSlots,
+  bookings,
+  type Booking,
+  type BookingSlot
+} from "../../shared/schema/session-booking";
+import { fromCents } from "../../shared/utils/cancellationPolicy";
+import { publishDomainEvent } from "../core/events/domain-events";
+import { redeemPromoCode } from "./promo-code-service";
+
+export interface SlotBookingStudentInfo {
+  skillLevel?: string | null;
+  goals?: string | null;
+  medicalNotes?: string | null;
+  emergencyContact?: string | null;
+}
+
+export interface SlotBookingRequest {
+  slotId: number;
+  studentId: number;
+  paymentMethod: string;
+  promoCode?: string;
+  studentInfo?: SlotBookingStudentInfo;
+}
+
+export interface SlotBookingResult {
+  booking: Booking;
+  slot: BookingSlot;
+  promo: { code: string, originalCents: number, discountCents: number } | null;
+}
+
+/**
+ * Books a slot for a student. Throws when the slot does not exist, is full
+ * or closed, or the promo code does not apply.
+ */
+export async function bookSessionSlot(request: SlotBookingRequest): Promise<SlotBookingResult> {
+  return await db.transaction(async (tx) => {
+    const [slot] = await tx.select()
+      .from(bookingSlots)
+      .where(eq(bookingSlots.id, request.slotId))
+      .for('update');
+
+    if (!slot) {
+      throw new Error('Booking slot not found');
+    }
+
+    const currentBookings = slot.currentBookings ?? 0;
+    if (!slot.isAvailable || currentBookings >= slot.maxStudents) {
+      throw new Error('Booking slot is no longer available');
+    }
+
+    const [created] = await tx.insert(bookings).values({
+      slotId: slot.id,
+      studentId: request.studentId,
+      coachId: slot.coachId,
+      sessionDate: slot.sessionDate,
+      amountPaid: slot.pricePerStudent,
+      paymentStatus: 'pending',
+      paymentMethod: request.paymentMethod,
+      status: 'confirmed',
+      skillLevel: request.studentInfo?.skillLevel,
+      goals: request.studentInfo?.goals,
+      medicalNotes: request.studentInfo?.medicalNotes,
+      emergencyContact: request.studentInfo?.emergencyContact
+    }).returning();
+
+    await publishDomainEvent(tx, 'booking.created', {
+      booking_id: created.id,
+      booking_type: 'session_booking',
+      student_user_id: request.studentId,
+      coach_id: slot.coachId,
+      session_date: slot.sessionDate.toISOString(),
+      status: 'confirmed',
+      created_at: (created.createdAt ?? new Date()).toISOString()
+    });
+
+    let booking = created;
+    let promo: SlotBookingResult['promo'] = null;
+
+    if (request.promoCode) {
+      const redeemed = await redeemPromoCode(tx, request.studentId, request.promoCode, {
+        targetType: 'session_booking',
+        targetId: slot.id,
+        paymentMethod: request.paymentMethod === 'credits' || request.paymentMethod === 'gift_card' ? request.paymentMethod : 'external'
+      }, created.id);
+
+      [booking] = await tx.update(bookings)
+        .set({ amountPaid: fromCents(redeemed.finalCents), paymentStatus: redeemed.finalCents === 0 ? 'paid' : 'pending' })
+        .where(eq(bookings.id, created.id))
+        .returning();
+      promo = { code: redeemed.code, originalCents: redeemed.originalCents, discountCents: redeemed.discountCents };
+    }
+
+    const [updatedSlot] = await tx.update(bookingSlots)
+      .set({
+        currentBookings: currentBookings + 1,
+        isAvailable: currentBookings + 1 < slot.maxStudents,
+        updatedAt: new Date()
+      })
+      .where(eq(bookingSlots.id, slot.id))
+      .returning();
+
+    return { booking, slot: updatedSlot, promo };
+  });
+}
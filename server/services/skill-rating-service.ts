@@ -0,0 +1,522 @@
+/**
+ * Skill Rating Service
+ *
+ * Maintains Glicko-2 performance ratings per player and format from rated
+ * match results, and uses them for matchmaking suggestions and seeding.
+ * Ranking points and leaderboards are not affected.
+ */
+
+import { db } from "../db";
+import { and, asc, desc, eq, gte, inArray, isNull, lte, ne, notInArray, or } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  users,
+  matches,
+  playerSkillRatings,
+  skillRatingHistory,
+  type PlayerSkillRating,
+  type SkillRatingFormat,
+  type SkillRatingHistoryEntry
+} from "../../shared/schema";
+import {
+  conservativeRating,
+  inflateDeviation,
+  isProvisional,
+  marginAdjustedScore,
+  rateMatch,
+  teamComposite,
+  winProbability,
+  GLICKO2_DEFAULTS,
+  GLICKO2_SETTINGS,
+  type Glicko2Rating
+} from "../../shared/utils/glicko2";
+
+type Writer = PgDatabase<any, any, any>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A rated match prepared for rating
+ */
+export interface SkillRatingMatch {
+  id: number;
+  playedAt: Date;
+  team1: number[];
+  team2: number[];
+  team1Won: boolean;
+  team1Points: number | null;
+  team2Points: number | null;
+}
+
+/**
+ * A player's rating state between matches
+ */
+export interface SkillRatingState extends Glicko2Rating {
+  userId: number;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  lastMatchAt: Date | null;
+}
+
+/**
+ * Rating change of one player in one match
+ */
+export interface SkillRatingChange {
+  userId: number;
+  before: SkillRatingState;
+  after: SkillRatingState;
+  expectedScore: number;
+  actualScore: number;
+}
+
+/**
+ * A player's rating as returned by the API
+ */
+export interface SkillRatingSummary {
+  userId: number;
+  format: SkillRatingFormat;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  conservativeRating: number;
+  provisional: boolean;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  lastMatchAt: Date | null;
+}
+
+/**
+ * Rating state of a player who has not played a rated match
+ */
+export function initialSkillRating(userId: number): SkillRatingState {
+  return { ...GLICKO2_DEFAULTS, userId, matchesPlayed: 0, wins: 0, losses: 0, lastMatchAt: null };
+}
+
+/**
+ * Singles or doubles, from the number of players on each side
+ */
+export function getSkillRatingFormat(match: Pick<SkillRatingMatch, 'team1' | 'team2'>): SkillRatingFormat {
+  return match.team1.length > 1 || match.team2.length > 1 ? 'doubles' : 'singles';
+}
+
+/**
+ * Points scored by each side, summed over the games when game scores were
+ * recorded, otherwise taken from the match score columns
+ */
+export function getMatchPoints(match: {
+  gameScores?: unknown,
+  scorePlayerOne?: string | null,
+  scorePlayerTwo?: string | null
+}): { team1Points: number | null, team2Points: number | null } {
+  if (Array.isArray(match.gameScores) && match.gameScores.length > 0) {
+    let team1Points = 0;
+    let team2Points = 0;
+
+    for (const game of match.gameScores as Array<Record<string, unknown>>) {
+      const one = Number(game?.playerOneScore ?? game?.team1);
+      const two = Number(game?.playerTwoScore ?? game?.team2);
+      if (!Number.isFinite(one) || !Number.isFinite(two)) {
+        return { team1Points: null, team2Points: null };
+      }
+      team1Points += one;
+      team2Points += two;
+    }
+
+    return { team1Points, team2Points };
+  }
+
+  const team1Points = parseInt(match.scorePlayerOne || '', 10);
+  const team2Points = parseInt(match.scorePlayerTwo || '', 10);
+
+  return Number.isFinite(team1Points) && Number.isFinite(team2Points)
+    ? { team1Points, team2Points }
+    : { team1Points: null, team2Points: null };
+}
+
+/**
+ * Apply one match to the players' current ratings.
+ * Deviation first grows for each full rating period a player was idle.
+ */
+export function applyMatchToRatings(
+  match: SkillRatingMatch,
+  current: (userId: number) => SkillRatingState
+): SkillRatingChange[] {
+  const prepare = (userId: number): SkillRatingState => {
+    const state = current(userId);
+    if (!state.lastMatchAt) return state;
+
+    const idlePeriods = Math.floor((match.playedAt.getTime() - state.lastMatchAt.getTime()) / (GLICKO2_SETTINGS.ratingPeriodDays * DAY_MS));
+    return { ...state, ...inflateDeviation(state, idlePeriods) };
+  };
+
+  const team1 = match.team1.map(prepare);
+  const team2 = match.team2.map(prepare);
+
+  const team1Score = match.team1Won
+    ? marginAdjustedScore(match.team1Points, match.team2Points)
+    : 1 - marginAdjustedScore(match.team2Points, match.team1Points);
+
+  const rated = rateMatch(team1, team2, team1Score);
+
+  const toChanges = (before: SkillRatingState[], after: Glicko2Rating[], won: boolean, expectedScore: number, actualScore: number) =>
+    before.map((state, index): SkillRatingChange => ({
+      userId: state.userId,
+      before: state,
+      after: {
+        ...after[index],
+        userId: state.userId,
+        matchesPlayed: state.matchesPlayed + 1,
+        wins: state.wins + (won ? 1 : 0),
+        losses: state.losses + (won ? 0 : 1),
+        lastMatchAt: match.playedAt
+      },
+      expectedScore,
+      actualScore
+    }));
+
+  return [
+    ...toChanges(team1, rated.team1, match.team1Won, rated.team1Expected, team1Score),
+    ...toChanges(team2, rated.team2, !match.team1Won, 1 - rated.team1Expected, 1 - team1Score)
+  ];
+}
+
+/**
+ * Convert a stored rating row to a rating state
+ */
+function toState(row: PlayerSkillRating): SkillRatingState {
+  return {
+    userId: row.userId,
+    rating: Number(row.rating),
+    deviation: Number(row.deviation),
+    volatility: Number(row.volatility),
+    matchesPlayed: row.matchesPlayed,
+    wins: row.wins,
+    losses: row.losses,
+    lastMatchAt: row.lastMatchAt
+  };
+}
+
+/**
+ * Rating state as returned by the API
+ */
+function toSummary(state: SkillRatingState, format: SkillRatingFormat): SkillRatingSummary {
+  return {
+    userId: state.userId,
+    format,
+    rating: Math.round(state.rating),
+    deviation: Math.round(state.deviation),
+    volatility: state.volatility,
+    conservativeRating: Math.round(conservativeRating(state)),
+    provisional: isProvisional(state, state.matchesPlayed),
+    matchesPlayed: state.matchesPlayed,
+    wins: state.wins,
+    losses: state.losses,
+    lastMatchAt: state.lastMatchAt
+  };
+}
+
+/**
+ * Current rating states of players in a format (defaults for unrated players)
+ */
+export async function loadRatingStates(
+  userIds: number[],
+  format: SkillRatingFormat,
+  writer: Writer = db
+): Promise<Map<number, SkillRatingState>> {
+  const states = new Map(userIds.map(userId => [userId, initialSkillRating(userId)]));
+  if (userIds.length === 0) return states;
+
+  const rows = await writer.select()
+    .from(playerSkillRatings)
+    .where(and(eq(playerSkillRatings.format, format), inArray(playerSkillRatings.userId, userIds)));
+
+  for (const row of rows) {
+    states.set(row.userId, toState(row));
+  }
+
+  return states;
+}
+
+/**
+ * Prepare a stored match for rating
+ */
+function toSkillRatingMatch(match: {
+  id: number,
+  matchDate: Date | null,
+  createdAt: Date | null,
+  playerOneId: number,
+  playerTwoId: number,
+  playerOnePartnerId: number | null,
+  playerTwoPartnerId: number | null,
+  winnerId: number,
+  gameScores?: unknown,
+  scorePlayerOne?: string | null,
+  scorePlayerTwo?: string | null
+}): SkillRatingMatch {
+  const team1 = [match.playerOneId, match.playerOnePartnerId].filter((playerId): playerId is number => !!playerId);
+  const team2 = [match.playerTwoId, match.playerTwoPartnerId].filter((playerId): playerId is number => !!playerId);
+
+  return {
+    id: match.id,
+    playedAt: match.matchDate || match.createdAt || new Date(),
+    team1,
+    team2,
+    team1Won: team1.includes(match.winnerId),
+    ...getMatchPoints(match)
+  };
+}
+
+/**
+ * Store the rating changes of one match
+ */
+async function saveRatingChanges(
+  match: SkillRatingMatch,
+  format: SkillRatingFormat,
+  changes: SkillRatingChange[],
+  writer: Writer = db
+): Promise<void> {
+  await writer.transaction(async (tx) => {
+    for (const change of changes) {
+      const values = {
+        rating: change.after.rating.toFixed(2),
+        deviation: change.after.deviation.toFixed(2),
+        volatility: change.after.volatility.toFixed(8),
+        matchesPlayed: change.after.matchesPlayed,
+        wins: change.after.wins,
+        losses: change.after.losses,
+        lastMatchId: match.id,
+        lastMatchAt: match.playedAt,
+        updatedAt: new Date()
+      };
+
+      await tx.insert(playerSkillRatings)
+        .values({ userId: change.userId, format, ...values })
+        .onConflictDoUpdate({
+          target: [playerSkillRatings.userId, playerSkillRatings.format],
+          set: values
+        });
+
+      await tx.insert(skillRatingHistory).values({
+        userId: change.userId,
+        matchId: match.id,
+        format,
+        ratingBefore: change.before.rating.toFixed(2),
+        ratingAfter: change.after.rating.toFixed(2),
+        deviationBefore: change.before.deviation.toFixed(2),
+        deviationAfter: change.after.deviation.toFixed(2),
+        volatilityAfter: change.after.volatility.toFixed(8),
+        expectedScore: change.expectedScore.toFixed(4),
+        actualScore: change.actualScore.toFixed(4),
+        playedAt: match.playedAt
+      });
+    }
+  });
+}
+
+/**
+ * Update the skill ratings of everyone in a verified match.
+ * IDEMPOTENT: a match already in the rating history is skipped.
+ *
+ * @param writer - Database or transaction the match was recorded in
+ * @returns Rating changes, or an empty list when the match was skipped
+ */
+export async function updateSkillRatingsForMatch(matchId: number, writer: Writer = db): Promise<SkillRatingChange[]> {
+  try {
+    const [match] = await writer.select()
+      .from(matches)
+      .where(eq(matches.id, matchId))
+      .limit(1);
+
+    if (!match) {
+      throw new Error(`Match with ID ${matchId} not found`);
+    }
+
+    if (match.isTestData || match.isRated === false) {
+      return [];
+    }
+
+    const [alreadyRated] = await writer.select({ id: skillRatingHistory.id })
+      .from(skillRatingHistory)
+      .where(eq(skillRatingHistory.matchId, matchId))
+      .limit(1);
+
+    if (alreadyRated) {
+      return [];
+    }
+
+    const ratingMatch = toSkillRatingMatch(match);
+    const format = getSkillRatingFormat(ratingMatch);
+    const states = await loadRatingStates([...ratingMatch.team1, ...ratingMatch.team2], format, writer);
+
+    const changes = applyMatchToRatings(ratingMatch, userId => states.get(userId) || initialSkillRating(userId));
+    await saveRatingChanges(ratingMatch, format, changes, writer);
+
+    console.log(`[SkillRating] Rated match ${matchId} (${format}) for ${changes.length} players`);
+    return changes;
+  } catch (error) {
+    console.error("Error updating skill ratings:", error);
+    throw error;
+  }
+}
+
+/**
+ * Rate every rated match that is not yet in the rating history, oldest first.
+ * Used to build ratings from existing match history.
+ */
+export async function backfillSkillRatings(): Promise<{ matchesRated: number, matchesSkipped: number }> {
+  const ratedMatchIds = new Set(
+    (await db.selectDistinct({ matchId: skillRatingHistory.matchId }).from(skillRatingHistory))
+      .map(row => row.matchId)
+  );
+
+  const matchRows = await db.select({ id: matches.id })
+    .from(matches)
+    .where(and(
+      or(isNull(matches.isTestData), eq(matches.isTestData, false)),
+      or(isNull(matches.isRated), eq(matches.isRated, true)),
+      notInArray(matches.validationStatus, ['rejected', 'disputed'])
+    ))
+    .orderBy(asc(matches.matchDate), asc(matches.createdAt), asc(matches.id));
+
+  let matchesRated = 0;
+  let matchesSkipped = 0;
+
+  for (const { id } of matchRows) {
+    if (ratedMatchIds.has(id)) {
+      matchesSkipped++;
+      continue;
+    }
+
+    const changes = await updateSkillRatingsForMatch(id);
+    if (changes.length > 0) matchesRated++;
+    else matchesSkipped++;
+  }
+
+  console.log(`[SkillRating] Backfill rated ${matchesRated} matches, skipped ${matchesSkipped}`);
+  return { matchesRated, matchesSkipped };
+}
+
+/**
+ * A player's singles and doubles ratings
+ */
+export async function getPlayerSkillRatings(userId: number): Promise<SkillRatingSummary[]> {
+  const rows = await db.select()
+    .from(playerSkillRatings)
+    .where(eq(playerSkillRatings.userId, userId));
+
+  return (['singles', 'doubles'] as const).map(format => {
+    const row = rows.find(rating => rating.format === format);
+    return toSummary(row ? toState(row) : initialSkillRating(userId), format);
+  });
+}
+
+/**
+ * A player's rating changes in a format, newest first
+ */
+export async function getSkillRatingHistory(
+  userId: number,
+  format: SkillRatingFormat,
+  limit: number = 50
+): Promise<SkillRatingHistoryEntry[]> {
+  return db.select()
+    .from(skillRatingHistory)
+    .where(and(eq(skillRatingHistory.userId, userId), eq(skillRatingHistory.format, format)))
+    .orderBy(desc(skillRatingHistory.playedAt), desc(skillRatingHistory.id))
+    .limit(limit);
+}
+
+/**
+ * Highest-rated players in a format; provisional ratings are left out unless requested
+ */
+export async function getSkillRatingLeaderboard(
+  format: SkillRatingFormat,
+  options: { includeProvisional?: boolean, limit?: number } = {}
+): Promise<Array<SkillRatingSummary & { username: string, displayName: string | null }>> {
+  const conditions = [eq(playerSkillRatings.format, format)];
+  if (!options.includeProvisional) {
+    conditions.push(
+      lte(playerSkillRatings.deviation, String(GLICKO2_SETTINGS.provisionalDeviation)),
+      gte(playerSkillRatings.matchesPlayed, GLICKO2_SETTINGS.provisionalMatches)
+    );
+  }
+
+  const rows = await db.select({ rating: playerSkillRatings, username: users.username, displayName: users.displayName })
+    .from(playerSkillRatings)
+    .innerJoin(users, eq(users.id, playerSkillRatings.userId))
+    .where(and(...conditions))
+    .orderBy(desc(playerSkillRatings.rating))
+    .limit(options.limit || 100);
+
+  return rows.map(row => ({
+    ...toSummary(toState(row.rating), format),
+    username: row.username,
+    displayName: row.displayName
+  }));
+}
+
+/**
+ * Opponents closest to an even match for a player: rated players whose win
+ * probability against them is nearest 50%, preferring established ratings
+ */
+export async function findMatchmakingOpponents(
+  userId: number,
+  format: SkillRatingFormat,
+  limit: number = 10
+): Promise<Array<SkillRatingSummary & { username: string, displayName: string | null, winProbability: number }>> {
+  const states = await loadRatingStates([userId], format);
+  const player = states.get(userId)!;
+
+  // Candidates within two combined deviations
+  const window = 2 * Math.sqrt(player.deviation * player.deviation + GLICKO2_SETTINGS.provisionalDeviation ** 2);
+
+  const rows = await db.select({ rating: playerSkillRatings, username: users.username, displayName: users.displayName })
+    .from(playerSkillRatings)
+    .innerJoin(users, eq(users.id, playerSkillRatings.userId))
+    .where(and(
+      eq(playerSkillRatings.format, format),
+      ne(playerSkillRatings.userId, userId),
+      gte(playerSkillRatings.rating, (player.rating - window).toFixed(2)),
+      lte(playerSkillRatings.rating, (player.rating + window).toFixed(2))
+    ))
+    .limit(500);
+
+  return rows
+    .map(row => {
+      const opponent = toState(row.rating);
+      return {
+        ...toSummary(opponent, format),
+        username: row.username,
+        displayName: row.displayName,
+        winProbability: winProbability(player, opponent)
+      };
+    })
+    .sort((a, b) =>
+      Math.abs(a.winProbability - 0.5) - Math.abs(b.winProbability - 0.5) ||
+      a.deviation - b.deviation
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Seeding strength of teams: conservative rating of each team's composite,
+ * so teams with uncertain ratings do not take top seeds
+ *
+ * @returns Seeding rating by team ID
+ */
+export async function getTeamSeedingRatings(
+  teams: Array<{ id: number, playerIds: number[] }>
+): Promise<Map<number, number>> {
+  const allPlayerIds = Array.from(new Set(teams.flatMap(team => team.playerIds)));
+  const singles = await loadRatingStates(allPlayerIds, 'singles');
+  const doubles = await loadRatingStates(allPlayerIds, 'doubles');
+
+  return new Map(teams.map(team => {
+    if (team.playerIds.length === 0) return [team.id, conservativeRating(GLICKO2_DEFAULTS)];
+
+    const states = team.playerIds.length > 1 ? doubles : singles;
+    const composite = teamComposite(team.playerIds.map(playerId => states.get(playerId)!));
+    return [team.id, conservativeRating(composite)];
+  }));
+}
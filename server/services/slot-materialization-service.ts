@@ -0,0 +1,439 @@
+/**
+ * Slot Materialization Service
+ *
+ * Keeps each coach's booking slots in step with their weekly availability:
+ * slots are generated a number of weeks ahead in the coach's time zone,
+ * skip time off, existing bookings and courts taken by other coaches, and
+ * are regenerated whenever availability or time off changes. Slots with
+ * bookings are never removed.
+ */
+
+import { db } from "../db";
+import { and, eq, gt, gte, inArray, lt, ne, sql } from "drizzle-orm";
+import { users } from "../../shared/schema";
+import {
+  coachAvailability,
+  coachTimeOff,
+  bookingSlots,
+  bookings,
+  type CoachAvailability,
+  type CoachTimeOff,
+  type InsertCoachAvailability
+} from "../../shared/schema/session-booking";
+import {
+  isValidTimeZone,
+  parseTimeOfDay,
+  planSlotMaterialization,
+  type AvailabilityRule,
+  type ExistingSlot,
+  type SkippedSlotReason
+} from "../../shared/utils/slotMaterializer";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const SLOT_MATERIALIZATION_DEFAULT_WEEKS = 8;
+export const SLOT_MATERIALIZATION_MAX_WEEKS = 26;
+
+export interface SlotMaterializationOptions {
+  weeks?: number;
+  dryRun?: boolean;
+  now?: Date;
+}
+
+/**
+ * Outcome of materializing one coach's slots
+ */
+export interface SlotMaterializationReport {
+  coachId: number;
+  from: Date;
+  to: Date;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  removed: number;
+  unchanged: number; // Booked slots that still match their availability
+  preserved: Array<{ slotId: number, reason: 'booked' }>; // Booked slots outside the current availability
+  skipped: Array<{
+    availabilityId: number,
+    startTime: Date,
+    endTime: Date,
+    reason: SkippedSlotReason,
+    conflictSlotId?: number
+  }>;
+}
+
+/**
+ * Availability fields a coach can set
+ */
+export type CoachAvailabilityInput = Omit<InsertCoachAvailability, 'coachId'>;
+
+// Bookings that hold a place in a slot
+const activeBookingCount = sql<number>`(
+  SELECT COUNT(*)::int FROM ${bookings}
+  WHERE ${bookings.slotId} = ${bookingSlots.id} AND COALESCE(${bookings.status}, 'confirmed') <> 'cancelled'
+)`;
+
+/**
+ * Time zone of a coach's availability: their profile time zone, else UTC
+ */
+async function getCoachTimeZone(coachId: number): Promise<string> {
+  const [coach] = await db.select({ timezone: users.timezone })
+    .from(users)
+    .where(eq(users.id, coachId))
+    .limit(1);
+
+  return coach?.timezone && isValidTimeZone(coach.timezone) ? coach.timezone : 'UTC';
+}
+
+function toAvailabilityRule(availability: CoachAvailability, coachTimeZone: string): AvailabilityRule {
+  return {
+    id: availability.id,
+    dayOfWeek: availability.dayOfWeek,
+    startTime: availability.startTime,
+    endTime: availability.endTime,
+    sessionDuration: availability.sessionDuration ?? 60,
+    isRecurring: availability.isRecurring !== false,
+    effectiveDate: availability.effectiveDate,
+    expiryDate: availability.expiryDate,
+    timeZone: availability.timezone && isValidTimeZone(availability.timezone) ? availability.timezone : coachTimeZone,
+    location: availability.location,
+    courtNumber: availability.courtNumber
+  };
+}
+
+/**
+ * Slot columns copied from the availability rule
+ */
+function slotFieldsFromRule(availability: CoachAvailability) {
+  return {
+    maxStudents: availability.maxStudents ?? 4,
+    sessionType: availability.sessionType ?? 'group',
+    pricePerStudent: availability.pricePerStudent ?? '95.00',
+    location: availability.location,
+    courtNumber: availability.courtNumber
+  };
+}
+
+function validateAvailabilityWindow(input: { startTime?: string, endTime?: string, timezone?: string | null }) {
+  if (input.startTime !== undefined && input.endTime !== undefined &&
+      parseTimeOfDay(input.endTime) <= parseTimeOfDay(input.startTime)) {
+    throw new Error('Availability must end after it starts');
+  }
+
+  if (input.timezone && !isValidTimeZone(input.timezone)) {
+    throw new Error(`Unknown time zone: ${input.timezone}`);
+  }
+}
+
+/**
+ * Generates, refreshes and removes a coach's slots for the coming weeks
+ */
+export async function materializeCoachSlots(
+  coachId: number,
+  options: SlotMaterializationOptions = {}
+): Promise<SlotMaterializationReport> {
+  const weeks = Math.min(options.weeks ?? SLOT_MATERIALIZATION_DEFAULT_WEEKS, SLOT_MATERIALIZATION_MAX_WEEKS);
+  const from = options.now ?? new Date();
+  const to = new Date(from.getTime() + weeks * WEEK_MS);
+  const dryRun = options.dryRun ?? false;
+
+  const coachTimeZone = await getCoachTimeZone(coachId);
+  const availability = (await db.select()
+    .from(coachAvailability)
+    .where(eq(coachAvailability.coachId, coachId)))
+    .filter(rule => rule.isActive !== false);
+  const availabilityById = new Map(availability.map(rule => [rule.id, rule]));
+  const rules = availability.map(rule => toAvailabilityRule(rule, coachTimeZone));
+
+  const slotColumns = {
+    id: bookingSlots.id,
+    availabilityId: bookingSlots.availabilityId,
+    startTime: bookingSlots.startTime,
+    endTime: bookingSlots.endTime,
+    currentBookings: bookingSlots.currentBookings,
+    bookingCount: activeBookingCount,
+    status: bookingSlots.status,
+    location: bookingSlots.location,
+    courtNumber: bookingSlots.courtNumber
+  };
+  const toExistingSlot = (slot: { currentBookings: number | null, bookingCount: number } & Omit<ExistingSlot, 'bookingCount'>): ExistingSlot => ({
+    id: slot.id,
+    availabilityId: slot.availabilityId,
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    bookingCount: Math.max(slot.currentBookings ?? 0, Number(slot.bookingCount)),
+    status: slot.status,
+    location: slot.location,
+    courtNumber: slot.courtNumber
+  });
+
+  const existingSlots = (await db.select(slotColumns)
+    .from(bookingSlots)
+    .where(and(
+      eq(bookingSlots.coachId, coachId),
+      gte(bookingSlots.startTime, from),
+      lt(bookingSlots.startTime, to)
+    ))).map(toExistingSlot);
+
+  const courts = Array.from(new Set(rules.flatMap(rule => rule.courtNumber ? [rule.courtNumber] : [])));
+  const courtSlots = courts.length === 0 ? [] : (await db.select(slotColumns)
+    .from(bookingSlots)
+    .where(and(
+      ne(bookingSlots.coachId, coachId),
+      inArray(bookingSlots.courtNumber, courts),
+      lt(bookingSlots.startTime, to),
+      gt(bookingSlots.endTime, from)
+    ))).map(toExistingSlot);
+
+  const timeOff = await db.select()
+    .from(coachTimeOff)
+    .where(and(
+      eq(coachTimeOff.coachId, coachId),
+      lt(coachTimeOff.startsAt, to),
+      gt(coachTimeOff.endsAt, from)
+    ));
+
+  const plan = planSlotMaterialization({ rules, timeOff, existingSlots, courtSlots, from, to });
+
+  let created = plan.create.length;
+  let updated = plan.update.length;
+  let removed = plan.remove.length;
+
+  if (!dryRun) {
+    await db.transaction(async (tx) => {
+      if (plan.create.length > 0) {
+        const inserted = await tx.insert(bookingSlots)
+          .values(plan.create.map(slot => ({
+            coachId,
+            availabilityId: slot.availabilityId,
+            sessionDate: new Date(`${slot.localDate}T00:00:00.000Z`),
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            ...slotFieldsFromRule(availabilityById.get(slot.availabilityId)!)
+          })))
+          .onConflictDoNothing({ target: [bookingSlots.availabilityId, bookingSlots.startTime] })
+          .returning({ id: bookingSlots.id });
+        created = inserted.length;
+      }
+
+      // Bookings may have arrived since planning; booked slots are left alone
+      updated = 0;
+      for (const { slotId, slot } of plan.update) {
+        const refreshed = await tx.update(bookingSlots)
+          .set({ endTime: slot.endTime, ...slotFieldsFromRule(availabilityById.get(slot.availabilityId)!), updatedAt: new Date() })
+          .where(and(eq(bookingSlots.id, slotId), sql`${activeBookingCount} = 0`))
+          .returning({ id: bookingSlots.id });
+        updated += refreshed.length;
+      }
+
+      if (plan.remove.length > 0) {
+        const deleted = await tx.delete(bookingSlots)
+          .where(and(
+            inArray(bookingSlots.id, plan.remove),
+            sql`COALESCE(${bookingSlots.currentBookings}, 0) = 0`,
+            sql`${activeBookingCount} = 0`
+          ))
+          .returning({ id: bookingSlots.id });
+        removed = deleted.length;
+      }
+    });
+
+    console.log(`[SlotMaterialization] Coach ${coachId}: ${created} created, ${updated} updated, ${removed} removed, ${plan.skipped.length} skipped`);
+  }
+
+  return {
+    coachId,
+    from,
+    to,
+    dryRun,
+    created,
+    updated,
+    removed,
+    unchanged: plan.keep.length,
+    preserved: plan.preserved,
+    skipped: plan.skipped.map(({ slot, reason, conflictSlotId }) => ({
+      availabilityId: slot.availabilityId,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      reason,
+      conflictSlotId
+    }))
+  };
+}
+
+/**
+ * Materializes slots for every coach with active availability.
+ * One coach's failure does not stop the others.
+ */
+export async function materializeAllCoachSlots(
+  options: SlotMaterializationOptions = {}
+): Promise<{ coaches: number, failed: number[], reports: SlotMaterializationReport[] }> {
+  const coaches = await db.selectDistinct({ coachId: coachAvailability.coachId })
+    .from(coachAvailability)
+    .where(sql`COALESCE(${coachAvailability.isActive}, true)`);
+
+  const reports: SlotMaterializationReport[] = [];
+  const failed: number[] = [];
+
+  for (const { coachId } of coaches) {
+    try {
+      reports.push(await materializeCoachSlots(coachId, options));
+    } catch (error) {
+      console.error(`[SlotMaterialization] Failed for coach ${coachId}:`, error);
+      failed.push(coachId);
+    }
+  }
+
+  return { coaches: coaches.length, failed, reports };
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Tops up every coach's slots now and then at a fixed interval
+ */
+export function startSlotMaterializationScheduler(intervalHours: number = 24): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const run = () => {
+    materializeAllCoachSlots()
+      .then(result => console.log(`[SlotMaterialization] Scheduled run: ${result.coaches} coaches, ${result.failed.length} failed`))
+      .catch(error => console.error('[SlotMaterialization] Scheduled run failed:', error));
+  };
+
+  console.log(`[SlotMaterialization] Starting scheduler (interval: ${intervalHours} hours)`);
+  run();
+  schedulerTimer = setInterval(run, intervalHours * 60 * 60 * 1000);
+}
+
+export function stopSlotMaterializationScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
+
+/**
+ * A coach's availability rules, active first
+ */
+export async function listCoachAvailability(coachId: number): Promise<CoachAvailability[]> {
+  const rules = await db.select()
+    .from(coachAvailability)
+    .where(eq(coachAvailability.coachId, coachId));
+
+  return rules.sort((a, b) =>
+    Number(b.isActive !== false) - Number(a.isActive !== false) ||
+    a.dayOfWeek - b.dayOfWeek ||
+    a.startTime.localeCompare(b.startTime));
+}
+
+async function getCoachAvailabilityOrThrow(coachId: number, availabilityId: number): Promise<CoachAvailability> {
+  const [rule] = await db.select()
+    .from(coachAvailability)
+    .where(and(eq(coachAvailability.id, availabilityId), eq(coachAvailability.coachId, coachId)))
+    .limit(1);
+
+  if (!rule) {
+    throw new Error(`Availability ${availabilityId} not found`);
+  }
+  return rule;
+}
+
+/**
+ * Adds an availability rule and generates its slots
+ */
+export async function createCoachAvailability(
+  coachId: number,
+  input: CoachAvailabilityInput
+): Promise<{ availability: CoachAvailability, materialization: SlotMaterializationReport }> {
+  validateAvailabilityWindow(input);
+
+  const [availability] = await db.insert(coachAvailability)
+    .values({ ...input, coachId })
+    .returning();
+
+  return { availability, materialization: await materializeCoachSlots(coachId) };
+}
+
+/**
+ * Edits an availability rule and regenerates the coach's slots.
+ * Unbooked slots move with the rule; booked slots stay where they are.
+ */
+export async function updateCoachAvailability(
+  coachId: number,
+  availabilityId: number,
+  input: Partial<CoachAvailabilityInput>
+): Promise<{ availability: CoachAvailability, materialization: SlotMaterializationReport }> {
+  const current = await getCoachAvailabilityOrThrow(coachId, availabilityId);
+  validateAvailabilityWindow({
+    startTime: input.startTime ?? current.startTime,
+    endTime: input.endTime ?? current.endTime,
+    timezone: input.timezone
+  });
+
+  const [availability] = await db.update(coachAvailability)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(coachAvailability.id, availabilityId))
+    .returning();
+
+  return { availability, materialization: await materializeCoachSlots(coachId) };
+}
+
+/**
+ * Deactivates an availability rule; its unbooked future slots are removed
+ */
+export async function deactivateCoachAvailability(
+  coachId: number,
+  availabilityId: number
+): Promise<{ availability: CoachAvailability, materialization: SlotMaterializationReport }> {
+  return updateCoachAvailability(coachId, availabilityId, { isActive: false });
+}
+
+/**
+ * A coach's time off that has not ended yet
+ */
+export async function listCoachTimeOff(coachId: number, now: Date = new Date()): Promise<CoachTimeOff[]> {
+  return db.select()
+    .from(coachTimeOff)
+    .where(and(eq(coachTimeOff.coachId, coachId), gt(coachTimeOff.endsAt, now)))
+    .orderBy(coachTimeOff.startsAt);
+}
+
+/**
+ * Records time off and clears the unbooked slots it covers.
+ * Booked slots in the period are reported as preserved for the coach to handle.
+ */
+export async function addCoachTimeOff(
+  coachId: number,
+  input: { startsAt: Date, endsAt: Date, reason?: string | null }
+): Promise<{ timeOff: CoachTimeOff, materialization: SlotMaterializationReport }> {
+  if (input.endsAt <= input.startsAt) {
+    throw new Error('Time off must end after it starts');
+  }
+
+  const [timeOff] = await db.insert(coachTimeOff)
+    .values({ coachId, startsAt: input.startsAt, endsAt: input.endsAt, reason: input.reason ?? null })
+    .returning();
+
+  return { timeOff, materialization: await materializeCoachSlots(coachId) };
+}
+
+/**
+ * Removes time off and regenerates the slots it had blocked
+ */
+export async function removeCoachTimeOff(
+  coachId: number,
+  timeOffId: number
+): Promise<SlotMaterializationReport> {
+  const deleted = await db.delete(coachTimeOff)
+    .where(and(eq(coachTimeOff.id, timeOffId), eq(coachTimeOff.coachId, coachId)))
+    .returning({ id: coachTimeOff.id });
+
+  if (deleted.length === 0) {
+    throw new Error(`Time off ${timeOffId} not found`);
+  }
+
+  return materializeCoachSlots(coachId);
+}
@@ -0,0 +1,349 @@
+/**
+ * Sponsor Portal Service
+ *
+ * Lets sponsor members run their own golden ticket campaigns: drafts they
+ * write stay out of the draw until an admin approves them, creatives can be
+ * changed while a draft is editable, and every sponsor sees its impression →
+ * claim → fulfilment funnel by day, region and player tier and downloads the
+ * list of rewards to send. Submissions and reviews go to the campaign's
+ * golden ticket audit log.
+ */
+
+import { db } from "../db";
+import { and, asc, desc, eq, gte, inArray, lte, ne, or, isNull, type SQL } from "drizzle-orm";
+import { users } from "../../shared/schema";
+import {
+  sponsors,
+  sponsorMembers,
+  goldenTickets,
+  goldenTicketClaims,
+  goldenTicketDraws,
+  type GoldenTicket,
+  type InsertGoldenTicket,
+  type SponsorMember
+} from "../../shared/golden-ticket.schema";
+import {
+  buildSponsorFunnel,
+  type FulfilmentRow,
+  type SponsorFunnel
+} from "../../shared/utils/sponsorAnalytics";
+import { getTierByLevel } from "../../shared/xp-tiers";
+import { recordGoldenTicketAuditEvent } from "./golden-ticket-service";
+
+export type SponsorRole = 'manager' | 'analyst';
+
+export type SponsorTicketDraft = Omit<InsertGoldenTicket, 'sponsorId' | 'status'>;
+
+export interface SponsorReportFilters {
+  campaignId?: string;
+  ticketId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+// A sponsor can change a ticket only before it is submitted, or after a rejection
+const EDITABLE_APPROVAL_STATUSES = ['draft', 'rejected'];
+
+/**
+ * Sponsors the user can open in the portal
+ */
+export async function listSponsorMemberships(userId: number) {
+  return db.select({
+    sponsorId: sponsors.id,
+    name: sponsors.name,
+    logoUrl: sponsors.logoUrl,
+    role: sponsorMembers.role
+  })
+    .from(sponsorMembers)
+    .innerJoin(sponsors, eq(sponsors.id, sponsorMembers.sponsorId))
+    .where(and(eq(sponsorMembers.userId, userId), eq(sponsorMembers.active, true), eq(sponsors.active, true)))
+    .orderBy(asc(sponsors.name));
+}
+
+export async function listSponsorMembers(sponsorId: number) {
+  return db.select({
+    id: sponsorMembers.id,
+    userId: sponsorMembers.userId,
+    username: users.username,
+    displayName: users.displayName,
+    role: sponsorMembers.role,
+    active: sponsorMembers.active,
+    createdAt: sponsorMembers.createdAt
+  })
+    .from(sponsorMembers)
+    .innerJoin(users, eq(users.id, sponsorMembers.userId))
+    .where(eq(sponsorMembers.sponsorId, sponsorId))
+    .orderBy(asc(users.username));
+}
+
+/**
+ * Gives a user portal access for a sponsor, or changes their role
+ */
+export async function addSponsorMember(sponsorId: number, userId: number, role: SponsorRole, addedById: number): Promise<SponsorMember> {
+  const [sponsor] = await db.select({ id: sponsors.id }).from(sponsors).where(eq(sponsors.id, sponsorId));
+  if (!sponsor) {
+    throw new Error('Sponsor not found');
+  }
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId));
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [member] = await db.insert(sponsorMembers)
+    .values({ sponsorId, userId, role, addedById })
+    .onConflictDoUpdate({
+      target: [sponsorMembers.sponsorId, sponsorMembers.userId],
+      set: { role, active: true, addedById, updatedAt: new Date() }
+    })
+    .returning();
+
+  console.log(`[SponsorPortal] User ${userId} added to sponsor ${sponsorId} as ${role}`);
+  return member;
+}
+
+export async function removeSponsorMember(sponsorId: number, userId: number): Promise<SponsorMember> {
+  const [member] = await db.update(sponsorMembers)
+    .set({ active: false, updatedAt: new Date() })
+    .where(and(eq(sponsorMembers.sponsorId, sponsorId), eq(sponsorMembers.userId, userId)))
+    .returning();
+  if (!member) {
+    throw new Error('Sponsor member not found');
+  }
+  return member;
+}
+
+export async function listSponsorTickets(sponsorId: number): Promise<GoldenTicket[]> {
+  return db.select().from(goldenTickets)
+    .where(eq(goldenTickets.sponsorId, sponsorId))
+    .orderBy(desc(goldenTickets.createdAt));
+}
+
+async function getSponsorTicket(sponsorId: number, ticketId: number): Promise<GoldenTicket> {
+  const [ticket] = await db.select().from(goldenTickets)
+    .where(and(eq(goldenTickets.id, ticketId), eq(goldenTickets.sponsorId, sponsorId)));
+  if (!ticket) {
+    throw new Error('Golden ticket not found');
+  }
+  return ticket;
+}
+
+function assertEditable(ticket: GoldenTicket): void {
+  if (!EDITABLE_APPROVAL_STATUSES.includes(ticket.approvalStatus)) {
+    throw new Error(`Campaign can no longer be edited: it is ${ticket.approvalStatus === 'pending' ? 'waiting for review' : ticket.approvalStatus}`);
+  }
+}
+
+/**
+ * Campaign IDs group a sponsor's tickets, so one sponsor cannot add tickets
+ * to another's campaign
+ */
+async function assertCampaignOwner(sponsorId: number, campaignId: string): Promise<void> {
+  const [other] = await db.select({ id: goldenTickets.id }).from(goldenTickets)
+    .where(and(
+      eq(goldenTickets.campaignId, campaignId),
+      or(ne(goldenTickets.sponsorId, sponsorId), isNull(goldenTickets.sponsorId))
+    ))
+    .limit(1);
+  if (other) {
+    throw new Error(`Invalid campaign: campaign ID ${campaignId} belongs to another sponsor`);
+  }
+}
+
+function assertDates(startDate: Date, endDate: Date): void {
+  if (endDate <= startDate) {
+    throw new Error('Invalid campaign: the end date must be after the start date');
+  }
+}
+
+export async function createSponsorTicketDraft(sponsorId: number, draft: SponsorTicketDraft, userId: number): Promise<GoldenTicket> {
+  await assertCampaignOwner(sponsorId, draft.campaignId);
+  assertDates(draft.startDate, draft.endDate);
+
+  const [ticket] = await db.insert(goldenTickets).values({
+    ...draft,
+    sponsorId,
+    status: 'draft',
+    approvalStatus: 'draft',
+    submittedById: userId,
+    currentAppearances: 0,
+    currentClaims: 0
+  }).returning();
+
+  console.log(`[SponsorPortal] Sponsor ${sponsorId} drafted golden ticket ${ticket.id}`);
+  return ticket;
+}
+
+/**
+ * Changes a draft; a rejected ticket goes back to draft to be resubmitted
+ */
+export async function updateSponsorTicketDraft(sponsorId: number, ticketId: number, changes: Partial<SponsorTicketDraft>): Promise<GoldenTicket> {
+  const ticket = await getSponsorTicket(sponsorId, ticketId);
+  assertEditable(ticket);
+  if (changes.campaignId && changes.campaignId !== ticket.campaignId) {
+    await assertCampaignOwner(sponsorId, changes.campaignId);
+  }
+  assertDates(changes.startDate ?? ticket.startDate, changes.endDate ?? ticket.endDate);
+
+  const [updated] = await db.update(goldenTickets)
+    .set({ ...changes, approvalStatus: 'draft', updatedAt: new Date() })
+    .where(eq(goldenTickets.id, ticketId))
+    .returning();
+  return updated;
+}
+
+export async function setSponsorTicketCreative(
+  sponsorId: number,
+  ticketId: number,
+  creative: { url: string, path: string }
+): Promise<GoldenTicket> {
+  const ticket = await getSponsorTicket(sponsorId, ticketId);
+  assertEditable(ticket);
+
+  const [updated] = await db.update(goldenTickets)
+    .set({ promotionalImageUrl: creative.url, promotionalImagePath: creative.path, updatedAt: new Date() })
+    .where(eq(goldenTickets.id, ticketId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Sends a draft to the admins for approval
+ */
+export async function submitSponsorTicket(sponsorId: number, ticketId: number, userId: number): Promise<GoldenTicket> {
+  const ticket = await getSponsorTicket(sponsorId, ticketId);
+  assertEditable(ticket);
+
+  const [updated] = await db.update(goldenTickets)
+    .set({ approvalStatus: 'pending', submittedById: userId, submittedAt: new Date(), reviewNotes: null, updatedAt: new Date() })
+    .where(eq(goldenTickets.id, ticketId))
+    .returning();
+
+  await recordGoldenTicketAuditEvent(db, updated, 'campaign_submitted', userId, { sponsorId });
+  console.log(`[SponsorPortal] Golden ticket ${ticketId} submitted for review by sponsor ${sponsorId}`);
+  return updated;
+}
+
+export async function listTicketsAwaitingReview(): Promise<GoldenTicket[]> {
+  return db.select().from(goldenTickets)
+    .where(eq(goldenTickets.approvalStatus, 'pending'))
+    .orderBy(asc(goldenTickets.submittedAt));
+}
+
+/**
+ * An admin's decision on a submitted ticket. Approval makes it active, so it
+ * enters the draw from its start date.
+ */
+export async function reviewSponsorTicket(
+  ticketId: number,
+  decision: 'approve' | 'reject',
+  notes: string | undefined,
+  reviewerId: number
+): Promise<GoldenTicket> {
+  const [ticket] = await db.select().from(goldenTickets).where(eq(goldenTickets.id, ticketId));
+  if (!ticket) {
+    throw new Error('Golden ticket not found');
+  }
+  if (ticket.approvalStatus !== 'pending') {
+    throw new Error('Campaign is not waiting for review');
+  }
+
+  const [updated] = await db.update(goldenTickets)
+    .set({
+      approvalStatus: decision === 'approve' ? 'approved' : 'rejected',
+      status: decision === 'approve' ? 'active' : 'draft',
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+      reviewNotes: notes ?? null,
+      updatedAt: new Date()
+    })
+    .where(eq(goldenTickets.id, ticketId))
+    .returning();
+
+  await recordGoldenTicketAuditEvent(db, updated, decision === 'approve' ? 'campaign_approved' : 'campaign_rejected', reviewerId, {
+    notes: notes ?? null
+  });
+  console.log(`[SponsorPortal] Golden ticket ${ticketId} ${decision === 'approve' ? 'approved' : 'rejected'} by admin ${reviewerId}`);
+  return updated;
+}
+
+function ticketConditions(sponsorId: number, filters: SponsorReportFilters): SQL[] {
+  const conditions = [eq(goldenTickets.sponsorId, sponsorId)];
+  if (filters.campaignId) conditions.push(eq(goldenTickets.campaignId, filters.campaignId));
+  if (filters.ticketId) conditions.push(eq(goldenTickets.id, filters.ticketId));
+  return conditions;
+}
+
+/**
+ * Impressions, claims, approvals and fulfilments of the sponsor's tickets
+ */
+export async function getSponsorAnalytics(sponsorId: number, filters: SponsorReportFilters = {}): Promise<{ sponsorId: number, filters: SponsorReportFilters, funnel: SponsorFunnel }> {
+  const drawConditions = [...ticketConditions(sponsorId, filters), eq(goldenTicketDraws.outcome, 'shown')];
+  if (filters.from) drawConditions.push(gte(goldenTicketDraws.drawnAt, filters.from));
+  if (filters.to) drawConditions.push(lte(goldenTicketDraws.drawnAt, filters.to));
+
+  const claimConditions = ticketConditions(sponsorId, filters);
+  if (filters.from) claimConditions.push(gte(goldenTicketClaims.claimedAt, filters.from));
+  if (filters.to) claimConditions.push(lte(goldenTicketClaims.claimedAt, filters.to));
+
+  const [impressions, claims] = await Promise.all([
+    db.select({ shownAt: goldenTicketDraws.drawnAt, region: users.region, level: users.level })
+      .from(goldenTicketDraws)
+      .innerJoin(goldenTickets, eq(goldenTickets.id, goldenTicketDraws.ticketId))
+      .innerJoin(users, eq(users.id, goldenTicketDraws.userId))
+      .where(and(...drawConditions)),
+    db.select({ claimedAt: goldenTicketClaims.claimedAt, status: goldenTicketClaims.status, region: users.region, level: users.level })
+      .from(goldenTicketClaims)
+      .innerJoin(goldenTickets, eq(goldenTickets.id, goldenTicketClaims.ticketId))
+      .innerJoin(users, eq(users.id, goldenTicketClaims.userId))
+      .where(and(...claimConditions))
+  ]);
+
+  const tier = (level: number | null) => getTierByLevel(level ?? 1).name;
+  const funnel = buildSponsorFunnel(
+    impressions.map(row => ({ shownAt: row.shownAt, region: row.region, tier: tier(row.level) })),
+    claims.map(row => ({ claimedAt: row.claimedAt, status: row.status, region: row.region, tier: tier(row.level) }))
+  );
+
+  return { sponsorId, filters, funnel };
+}
+
+/**
+ * Approved claims waiting to be sent, plus those already fulfilled when asked
+ * for. Claims still under review are never listed.
+ */
+export async function getSponsorFulfilmentList(
+  sponsorId: number,
+  filters: SponsorReportFilters & { includeFulfilled?: boolean } = {}
+): Promise<FulfilmentRow[]> {
+  const conditions = ticketConditions(sponsorId, filters);
+  conditions.push(inArray(goldenTicketClaims.status, filters.includeFulfilled ? ['approved', 'fulfilled'] : ['approved']));
+  if (filters.from) conditions.push(gte(goldenTicketClaims.claimedAt, filters.from));
+  if (filters.to) conditions.push(lte(goldenTicketClaims.claimedAt, filters.to));
+
+  const rows = await db.select({
+    claimId: goldenTicketClaims.id,
+    ticketTitle: goldenTickets.title,
+    campaignId: goldenTickets.campaignId,
+    rewardDescription: goldenTickets.rewardDescription,
+    rewardType: goldenTickets.rewardType,
+    claimStatus: goldenTicketClaims.status,
+    claimedAt: goldenTicketClaims.claimedAt,
+    firstName: users.firstName,
+    lastName: users.lastName,
+    displayName: users.displayName,
+    username: users.username,
+    recipientEmail: users.email,
+    shippingAddress: goldenTicketClaims.shippingAddress,
+    shippingTrackingCode: goldenTicketClaims.shippingTrackingCode
+  })
+    .from(goldenTicketClaims)
+    .innerJoin(goldenTickets, eq(goldenTickets.id, goldenTicketClaims.ticketId))
+    .innerJoin(users, eq(users.id, goldenTicketClaims.userId))
+    .where(and(...conditions))
+    .orderBy(asc(goldenTicketClaims.claimedAt));
+
+  return rows.map(({ firstName, lastName, displayName, username, ...row }) => ({
+    ...row,
+    recipientName: [firstName, lastName].filter(Boolean).join(' ') || displayName || username
+  }));
+}
@@ -0,0 +1,434 @@
+/**
+ * PKL-278651-TOURN-0001-BRCKT
+ * Swiss System Generator Service
+ *
+ * This service runs Swiss-system events: every round teams are paired with
+ * opponents on the same score (floating down when needed), rematches are
+ * avoided and byes rotate so no team receives a second bye before everyone
+ * else has had one. Rounds are generated one at a time as results come in.
+ */
+
+import { db } from "../db";
+import { eq, asc } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  tournamentBrackets,
+  tournamentRounds,
+  tournamentBracketMatches,
+  type TournamentTeam,
+  type TournamentBracketMatch,
+  type InsertTournamentBracketMatch
+} from "../../shared/schema/tournament-brackets";
+import { tournaments } from "../../shared/schema";
+
+type Writer = PgDatabase<any, any, any>;
+
+/**
+ * Options for a Swiss event
+ */
+export interface SwissOptions {
+  roundsCount?: number; // Defaults to ceil(log2(teams))
+  awardRankingPoints?: boolean; // Feed results into the ranking system (default true)
+}
+
+/**
+ * Result of a Swiss match; team2Id is null for a bye
+ */
+export interface SwissResult {
+  team1Id: number;
+  team2Id: number | null;
+  winnerId: number | null;
+}
+
+/**
+ * A team's line in the Swiss standings
+ */
+export interface SwissStanding {
+  teamId: number;
+  rank: number;
+  score: number; // 1 per win or bye
+  wins: number;
+  losses: number;
+  byes: number;
+  buchholz: number; // Sum of opponents' scores
+  opponents: number[];
+}
+
+/**
+ * A generated Swiss round
+ */
+export interface SwissPairing {
+  pairs: Array<[number, number]>;
+  byeTeamId: number | null;
+}
+
+/**
+ * Computes Swiss standings ordered by score, then Buchholz (strength of
+ * schedule), then the original seeding order (order of teamIds)
+ */
+export function computeSwissStandings(teamIds: number[], results: SwissResult[]): SwissStanding[] {
+  const lines = new Map<number, SwissStanding>();
+  teamIds.forEach(teamId => lines.set(teamId, {
+    teamId,
+    rank: 0,
+    score: 0,
+    wins: 0,
+    losses: 0,
+    byes: 0,
+    buchholz: 0,
+    opponents: []
+  }));
+
+  for (const result of results) {
+    const team1 = lines.get(result.team1Id);
+    if (!team1) continue;
+
+    if (result.team2Id === null) {
+      team1.byes++;
+      team1.score++;
+      continue;
+    }
+
+    const team2 = lines.get(result.team2Id);
+    if (!team2) continue;
+
+    team1.opponents.push(team2.teamId);
+    team2.opponents.push(team1.teamId);
+
+    if (result.winnerId === null) continue; // Not played yet
+
+    const [winner, loser] = result.winnerId === team1.teamId ? [team1, team2] : [team2, team1];
+    winner.wins++;
+    winner.score++;
+    loser.losses++;
+  }
+
+  lines.forEach(line => {
+    line.buchholz = line.opponents.reduce((sum, opponentId) => sum + (lines.get(opponentId)?.score || 0), 0);
+  });
+
+  const seedOrder = new Map(teamIds.map((teamId, index) => [teamId, index]));
+
+  return Array.from(lines.values())
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.buchholz - a.buchholz ||
+      seedOrder.get(a.teamId)! - seedOrder.get(b.teamId)!
+    )
+    .map((line, index) => ({ ...line, rank: index + 1 }));
+}
+
+/**
+ * Pairs the next Swiss round from the current standings.
+ *
+ * - With an odd number of teams the bye goes to the lowest-ranked team with
+ *   the fewest byes so far.
+ * - Teams are paired within score groups, top half against bottom half,
+ *   floating down to the next score group when a group can't be completed.
+ * - Rematches are avoided by backtracking; only if no rematch-free pairing
+ *   exists, or none is found within SWISS_PAIRING_SEARCH_LIMIT steps, are
+ *   rematches allowed, and then only where a team has no fresh opponent left.
+ */
+export function pairSwissRound(standings: SwissStanding[]): SwissPairing {
+  let players = [...standings];
+  let byeTeamId: number | null = null;
+
+  if (players.length % 2 === 1) {
+    const fewestByes = Math.min(...players.map(player => player.byes));
+    const byePlayer = [...players].reverse().find(player => player.byes === fewestByes)!;
+    byeTeamId = byePlayer.teamId;
+    players = players.filter(player => player.teamId !== byeTeamId);
+  }
+
+  const pairs = pairPlayers(players, false, { steps: SWISS_PAIRING_SEARCH_LIMIT }) || pairPlayers(players, true) || [];
+
+  return { pairs, byeTeamId };
+}
+
+/**
+ * Steps the rematch-free search may take. The search is exponential when no
+ * rematch-free pairing exists, and pairing runs on the request that records
+ * a result, so it gives up and allows rematches instead.
+ */
+const SWISS_PAIRING_SEARCH_LIMIT = 20000;
+
+/**
+ * Backtracking pairing of players in standings order. Without a search
+ * budget (when rematches are allowed) the first opponent always completes
+ * the pairing, so fresh opponents are tried before rematches.
+ */
+function pairPlayers(
+  players: SwissStanding[],
+  allowRematches: boolean,
+  budget?: { steps: number }
+): Array<[number, number]> | null {
+  if (players.length === 0) return [];
+  if (budget && --budget.steps < 0) return null;
+
+  const [top, ...rest] = players;
+  const candidates = orderCandidates(top, rest);
+  const fresh = candidates.filter(player => !top.opponents.includes(player.teamId));
+  const rematches = candidates.filter(player => top.opponents.includes(player.teamId));
+
+  for (const opponent of allowRematches ? [...fresh, ...rematches] : fresh) {
+    const remaining = rest.filter(player => player.teamId !== opponent.teamId);
+    const pairedRest = pairPlayers(remaining, allowRematches, budget);
+
+    if (pairedRest) {
+      return [[top.teamId, opponent.teamId], ...pairedRest];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Orders possible opponents for the top remaining player: same score group
+ * first, starting with the player half a group below (top half vs bottom
+ * half), then lower score groups in order.
+ */
+function orderCandidates(top: SwissStanding, rest: SwissStanding[]): SwissStanding[] {
+  const sameGroup = rest.filter(player => player.score === top.score);
+  const otherGroups = rest.filter(player => player.score !== top.score);
+
+  // Including the top player the group has sameGroup.length + 1 members
+  const half = Math.floor((sameGroup.length + 1) / 2);
+  const ideal = Math.max(0, half - 1);
+  const ordered = [...sameGroup.slice(ideal), ...sameGroup.slice(0, ideal).reverse()];
+
+  return [...ordered, ...otherGroups];
+}
+
+/**
+ * Default number of Swiss rounds: enough to separate a single undefeated team
+ */
+export function getDefaultSwissRounds(teamsCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(teamsCount)));
+}
+
+/**
+ * Most Swiss rounds for a number of teams: beyond this every round is a rematch
+ */
+export function getMaxSwissRounds(teamsCount: number): number {
+  return Math.max(1, teamsCount - 1);
+}
+
+/**
+ * Creates a Swiss bracket and pairs the first round
+ *
+ * @param tournamentId - ID of the tournament
+ * @param teamsArray - Teams in seeding order (strongest first)
+ * @param options - Number of rounds and ranking options
+ * @returns ID of the created bracket
+ */
+export async function createSwissBracket(
+  tournamentId: number,
+  teamsArray: TournamentTeam[],
+  options: SwissOptions = {}
+): Promise<number> {
+  try {
+    const [tournament] = await db.select()
+      .from(tournaments)
+      .where(eq(tournaments.id, tournamentId))
+      .limit(1);
+
+    if (!tournament) {
+      throw new Error(`Tournament with ID ${tournamentId} not found`);
+    }
+
+    if (teamsArray.length < 2) {
+      throw new Error("At least 2 teams are required to create a bracket");
+    }
+
+    const roundsCount = options.roundsCount || getDefaultSwissRounds(teamsArray.length);
+
+    if (roundsCount > getMaxSwissRounds(teamsArray.length)) {
+      throw new Error(`At most ${getMaxSwissRounds(teamsArray.length)} Swiss rounds can be played with ${teamsArray.length} teams`);
+    }
+
+    const seededTeams = [...teamsArray].sort((a, b) => {
+      if (a.seedNumber != null && b.seedNumber != null) return a.seedNumber - b.seedNumber;
+      if (a.seedNumber != null) return -1;
+      if (b.seedNumber != null) return 1;
+      return a.id - b.id;
+    });
+
+    const [bracket] = await db.insert(tournamentBrackets).values({
+      tournamentId,
+      name: "Swiss Rounds",
+      bracketType: "swiss",
+      teamsCount: teamsArray.length,
+      roundsCount,
+      status: "active",
+      seedingMethod: "rating_based",
+      metadata: {
+        teamIds: seededTeams.map(team => team.id),
+        awardRankingPoints: options.awardRankingPoints ?? true
+      }
+    }).returning();
+
+    await generateNextSwissRound(bracket.id);
+
+    return bracket.id;
+  } catch (error) {
+    console.error("Error creating Swiss bracket:", error);
+    throw error;
+  }
+}
+
+/**
+ * Locks the bracket row so only one caller pairs a round at a time
+ */
+async function lockSwissBracket(tx: Writer, bracketId: number): Promise<void> {
+  await tx.select({ id: tournamentBrackets.id })
+    .from(tournamentBrackets)
+    .where(eq(tournamentBrackets.id, bracketId))
+    .for('update');
+}
+
+/**
+ * Loads the seeded team list and all Swiss results of a bracket
+ */
+async function loadSwissState(bracketId: number, writer: Writer = db) {
+  const [bracket] = await writer.select()
+    .from(tournamentBrackets)
+    .where(eq(tournamentBrackets.id, bracketId))
+    .limit(1);
+
+  if (!bracket) {
+    throw new Error(`Bracket with ID ${bracketId} not found`);
+  }
+
+  if (bracket.bracketType !== 'swiss') {
+    throw new Error(`Bracket ${bracketId} is not a Swiss bracket`);
+  }
+
+  const rounds = await writer.select()
+    .from(tournamentRounds)
+    .where(eq(tournamentRounds.bracketId, bracketId))
+    .orderBy(asc(tournamentRounds.roundNumber));
+
+  const matches = await writer.select()
+    .from(tournamentBracketMatches)
+    .where(eq(tournamentBracketMatches.bracketId, bracketId))
+    .orderBy(asc(tournamentBracketMatches.matchNumber));
+
+  const teamIds: number[] = ((bracket.metadata || {}) as Record<string, any>).teamIds || [];
+
+  return { bracket, rounds, matches, teamIds };
+}
+
+/**
+ * Converts stored bracket matches to Swiss results
+ */
+function toSwissResults(matches: TournamentBracketMatch[]): SwissResult[] {
+  return matches
+    .filter(match => match.team1Id)
+    .map(match => ({
+      team1Id: match.team1Id!,
+      team2Id: match.team2Id,
+      winnerId: match.status === 'completed' || match.status === 'bye' ? match.winnerId : null
+    }));
+}
+
+/**
+ * Get the current standings of a Swiss bracket
+ */
+export async function getSwissStandings(bracketId: number): Promise<SwissStanding[]> {
+  const { matches, teamIds } = await loadSwissState(bracketId);
+  return computeSwissStandings(teamIds, toSwissResults(matches));
+}
+
+/**
+ * Pairs and stores the next Swiss round
+ *
+ * @param writer - Database or transaction to pair the round in
+ * @returns The round number that was created
+ */
+export async function generateNextSwissRound(bracketId: number, writer: Writer = db): Promise<number> {
+  return await writer.transaction(async (tx) => {
+    await lockSwissBracket(tx, bracketId);
+    const { bracket, rounds, matches, teamIds } = await loadSwissState(bracketId, tx);
+
+    if (rounds.length >= bracket.roundsCount) {
+      throw new Error(`All ${bracket.roundsCount} Swiss rounds have already been paired`);
+    }
+
+    if (matches.some(match => !['completed', 'bye', 'cancelled'].includes(match.status))) {
+      throw new Error("The current Swiss round must be completed before pairing the next one");
+    }
+
+    const standings = computeSwissStandings(teamIds, toSwissResults(matches));
+    const { pairs, byeTeamId } = pairSwissRound(standings);
+    const roundNumber = rounds.length + 1;
+
+    const [round] = await tx.insert(tournamentRounds).values({
+      bracketId,
+      roundNumber,
+      roundName: roundNumber === bracket.roundsCount ? "Final Swiss Round" : `Swiss Round ${roundNumber}`,
+      bracketSide: "swiss",
+      matchesCount: pairs.length,
+      status: "in_progress"
+    }).returning();
+
+    let matchNumber = matches.length + 1;
+    const matchesData: InsertTournamentBracketMatch[] = pairs.map(([team1Id, team2Id]) => ({
+      bracketId,
+      roundId: round.id,
+      matchNumber: matchNumber++,
+      bracketSide: "swiss",
+      team1Id,
+      team2Id,
+      status: "scheduled"
+    }));
+
+    // A bye counts as a win for the team that sits out
+    if (byeTeamId !== null) {
+      matchesData.push({
+        bracketId,
+        roundId: round.id,
+        matchNumber: matchNumber++,
+        bracketSide: "swiss",
+        team1Id: byeTeamId,
+        winnerId: byeTeamId,
+        status: "bye",
+        notes: "Swiss bye"
+      });
+    }
+
+    await tx.insert(tournamentBracketMatches).values(matchesData);
+
+    return roundNumber;
+  });
+}
+
+/**
+ * Called once every match of a Swiss bracket has finished: pairs the next
+ * round, or completes the bracket after the final round. The state is read
+ * again under the bracket lock, so results finishing a round at the same
+ * time pair the next round only once.
+ */
+export async function advanceSwissBracket(bracketId: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    await lockSwissBracket(tx, bracketId);
+    const { bracket, rounds, matches } = await loadSwissState(bracketId, tx);
+
+    // Another result already paired the next round
+    if (matches.some(match => !['completed', 'bye', 'cancelled'].includes(match.status))) {
+      return;
+    }
+
+    if (rounds.length < bracket.roundsCount) {
+      await generateNextSwissRound(bracketId, tx);
+      return;
+    }
+
+    await tx.update(tournamentBrackets)
+      .set({
+        status: "completed",
+        endDate: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(tournamentBrackets.id, bracketId));
+  });
+}
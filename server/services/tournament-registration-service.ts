@@ -0,0 +1,124 @@
+/**
+ * Tournament Registration Service
+ *
+ * Registers a player for a tournament, the same way whether the player signs
+ * up in the app or a partner registers them through the API: registration
+ * must be open, the player not already registered and the tournament not
+ * full. The tournament row is locked while registering so the participant
+ * limit holds under concurrent sign-ups, and an entry promo code is redeemed
+ * with the registration or not at all.
+ */
+
+import { db } from "../db";
+import { and, eq, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  tournaments,
+  tournamentRegistrations,
+  insertTournamentRegistrationSchema,
+  type TournamentRegistration
+} from "../../shared/schema";
+import { publishDomainEvent } from "../core/events/domain-events";
+import { redeemPromoCode } from "./promo-code-service";
+
+export interface TournamentEntryPromo {
+  code: string;
+  originalCents: number;
+  discountCents: number;
+  entryFeeCents: number;
+}
+
+export interface TournamentRegistrationResult {
+  registration: TournamentRegistration;
+  promo: TournamentEntryPromo | null;
+}
+
+/**
+ * Announce a new registration, with the transaction that created it
+ */
+export async function publishTournamentJoined(writer: PgDatabase<any, any, any>, registration: TournamentRegistration) {
+  await publishDomainEvent(writer, 'tournament.joined', {
+    tournament_id: registration.tournamentId,
+    registration_id: registration.id,
+    user_id: registration.userId,
+    team_name: registration.teamName ?? null,
+    status: registration.status,
+    registered_at: (registration.registrationDate ?? new Date()).toISOString()
+  });
+}
+
+/**
+ * Registers a player for a tournament, optionally with an entry promo code
+ */
+export async function registerForTournament(
+  tournamentId: number,
+  userId: number,
+  promoCode?: string,
+  now: Date = new Date()
+): Promise<TournamentRegistrationResult> {
+  return await db.transaction(async (tx) => {
+    const [tournament] = await tx.select()
+      .from(tournaments)
+      .where(eq(tournaments.id, tournamentId))
+      .for('update');
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    if (tournament.registrationStartDate && new Date(tournament.registrationStartDate) > now) {
+      throw new Error('Registration is not open yet');
+    }
+
+    if (tournament.registrationEndDate && new Date(tournament.registrationEndDate) < now) {
+      throw new Error('Registration is closed');
+    }
+
+    const [existing] = await tx.select({ id: tournamentRegistrations.id })
+      .from(tournamentRegistrations)
+      .where(and(
+        eq(tournamentRegistrations.tournamentId, tournamentId),
+        eq(tournamentRegistrations.userId, userId)
+      ));
+
+    if (existing) {
+      throw new Error('Player is already registered for this tournament');
+    }
+
+    const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+      .from(tournamentRegistrations)
+      .where(eq(tournamentRegistrations.tournamentId, tournamentId));
+
+    if (tournament.maxParticipants && count >= tournament.maxParticipants) {
+      // TODO: Add to waitlist instead
+      throw new Error('Tournament is full');
+    }
+
+    const values = insertTournamentRegistrationSchema.parse({
+      tournamentId,
+      userId,
+      status: 'registered'
+    });
+
+    const [registration] = await tx.insert(tournamentRegistrations).values(values).returning();
+    await publishTournamentJoined(tx, registration);
+
+    const promo = promoCode
+      ? await redeemPromoCode(tx, userId, promoCode, { targetType: 'tournament_entry', targetId: tournamentId, paymentMethod: 'external' }, registration.id)
+      : null;
+
+    await tx.update(tournaments)
+      .set({ currentParticipants: sql`coalesce(${tournaments.currentParticipants}, 0) + 1` })
+      .where(eq(tournaments.id, tournamentId));
+
+    return {
+      registration,
+      promo: promo && {
+        code: promo.code,
+        originalCents: promo.originalCents,
+        discountCents: promo.discountCents,
+        entryFeeCents: promo.finalCents
+      }
+    };
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Wallet Currency Service
+ *
+ * Keeps the per-currency pockets of digital credits wallets. The wallet
+ * balance itself stays in USD cents; pockets record how much of it was
+ * bought in another currency, in that currency and at the USD value it was
+ * bought at. Pockets change in the same transaction as the balance.
+ */
+
+import { db } from "../db";
+import { and, eq, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { digitalCreditsAccounts, walletCurrencyBalances } from "../../shared/schema";
+import {
+  BASE_CURRENCY,
+  planPocketDebit,
+  walletPockets,
+  type CurrencyPocket
+} from "../../shared/utils/multiCurrencyWallet";
+
+type WalletWriter = PgDatabase<any, any, any>;
+
+/**
+ * Every pocket of a user's wallet, the USD pocket first
+ */
+export async function getWalletCurrencyBalances(userId: number): Promise<CurrencyPocket[]> {
+  const [account] = await db.select({ balance: digitalCreditsAccounts.balance })
+    .from(digitalCreditsAccounts)
+    .where(eq(digitalCreditsAccounts.userId, userId))
+    .limit(1);
+
+  const stored = await db.select()
+    .from(walletCurrencyBalances)
+    .where(eq(walletCurrencyBalances.userId, userId));
+
+  return walletPockets(account?.balance ?? 0, stored);
+}
+
+/**
+ * Add credits bought in a currency other than USD to its pocket
+ */
+export async function creditCurrencyPocket(
+  writer: WalletWriter,
+  userId: number,
+  currency: string,
+  amountMinor: number,
+  usdCents: number
+): Promise<void> {
+  if (currency === BASE_CURRENCY || (amountMinor === 0 && usdCents === 0)) {
+    return;
+  }
+
+  await writer.insert(walletCurrencyBalances)
+    .values({ userId, currency, balanceMinor: amountMinor, usdCents })
+    .onConflictDoUpdate({
+      target: [walletCurrencyBalances.userId, walletCurrencyBalances.currency],
+      set: {
+        balanceMinor: sql`${walletCurrencyBalances.balanceMinor} + ${amountMinor}`,
+        usdCents: sql`${walletCurrencyBalances.usdCents} + ${usdCents}`,
+        updatedAt: new Date()
+      }
+    });
+}
+
+/**
+ * Take the part of a USD debit the USD pocket cannot cover from the other
+ * pockets. Call before the wallet balance is reduced.
+ *
+ * @param balanceBeforeCents - Wallet balance before the debit
+ */
+export async function debitCurrencyPockets(
+  writer: WalletWriter,
+  userId: number,
+  balanceBeforeCents: number,
+  debitUsdCents: number
+): Promise<CurrencyPocket[]> {
+  if (debitUsdCents <= 0) {
+    return [];
+  }
+
+  const stored = await writer.select()
+    .from(walletCurrencyBalances)
+    .where(eq(walletCurrencyBalances.userId, userId))
+    .for('update');
+
+  const deltas = planPocketDebit(balanceBeforeCents, stored, debitUsdCents);
+  for (const delta of deltas) {
+    await writer.update(walletCurrencyBalances)
+      .set({
+        balanceMinor: sql`${walletCurrencyBalances.balanceMinor} + ${delta.balanceMinor}`,
+        usdCents: sql`${walletCurrencyBalances.usdCents} + ${delta.usdCents}`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(walletCurrencyBalances.userId, userId),
+        eq(walletCurrencyBalances.currency, delta.currency)
+      ));
+  }
+
+  if (deltas.length > 0) {
+    console.log(`[WalletCurrency] Took ${deltas.map(d => `${-d.balanceMinor} ${d.currency}`).join(', ')} from wallet of user ${userId}`);
+  }
+  return deltas;
+}
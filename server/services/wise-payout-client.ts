@@ -0,0 +1,232 @@
+/**
+ * Wise Payout Client
+ *
+ * Sends coach payouts as Wise transfers from the platform's balance and
+ * reads back their status. Transfers are keyed by a customer transaction id
+ * derived from the payout, so retrying a payout never pays it twice.
+ *
+ * StubWisePayoutClient keeps transfers in memory for tests and local runs
+ * (WISE_PAYOUT_STUB=true); nothing leaves the process.
+ */
+
+import crypto from 'crypto';
+
+const WISE_API_BASE = process.env.NODE_ENV === 'production'
+  ? 'https://api.wise.com'
+  : 'https://api.sandbox.transferwise.tech';
+
+export interface WiseTransferRequest {
+  customerTransactionId: string;
+  recipientAccountId: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  sourceAmount: number;
+  reference: string;
+}
+
+export interface WiseTransfer {
+  id: string;
+  quoteId: string | null;
+  status: string; // Wise transfer state, e.g. processing, outgoing_payment_sent, bounced_back
+  sourceAmount: number;
+  sourceCurrency: string;
+  targetAmount: number | null;
+  targetCurrency: string;
+  rate: number | null;
+}
+
+export interface WisePayoutClient {
+  createTransfer(request: WiseTransferRequest): Promise<WiseTransfer>;
+  getTransfer(transferId: string): Promise<WiseTransfer>;
+}
+
+/**
+ * A stable UUID for a payout, as Wise requires for customerTransactionId
+ */
+export function payoutTransactionId(payoutId: number): string {
+  const hex = crypto.createHash('sha1').update(`pickleplus-coach-payout-${payoutId}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Whether a failed call means Wise turned the transfer down. Timeouts,
+ * network errors, rate limits and 5xx responses leave it unknown whether
+ * Wise acted on the request, so they are not rejections.
+ */
+export function isTransferRejection(error: unknown): boolean {
+  const status = Number((error instanceof Error ? error.message : String(error)).match(/^Wise API error: (\d{3})/)?.[1]);
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+function toWiseTransfer(transfer: any, quoteId: string | null = null): WiseTransfer {
+  return {
+    id: String(transfer.id),
+    quoteId: transfer.quoteUuid ?? quoteId,
+    status: String(transfer.status),
+    sourceAmount: Number(transfer.sourceValue ?? transfer.sourceAmount ?? 0),
+    sourceCurrency: transfer.sourceCurrency,
+    targetAmount: transfer.targetValue ?? transfer.targetAmount ?? null,
+    targetCurrency: transfer.targetCurrency,
+    rate: transfer.rate ?? null
+  };
+}
+
+/**
+ * Client for the Wise Platform API, authenticated with the business token
+ */
+export class HttpWisePayoutClient implements WisePayoutClient {
+  constructor(
+    private readonly token: string,
+    private readonly profileId: string
+  ) {}
+
+  private async call(endpoint: string, method: string = 'GET', data?: unknown): Promise<any> {
+    const response = await fetch(`${WISE_API_BASE}${endpoint}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'Pickle+ Coaching Platform'
+      },
+      body: data ? JSON.stringify(data) : undefined
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Wise API error: ${response.status} - ${text.slice(0, 500)}`);
+    }
+    return text ? JSON.parse(text) : {};
+  }
+
+  async createTransfer(request: WiseTransferRequest): Promise<WiseTransfer> {
+    const quote = await this.call(`/v3/profiles/${this.profileId}/quotes`, 'POST', {
+      sourceCurrency: request.sourceCurrency,
+      targetCurrency: request.targetCurrency,
+      sourceAmount: request.sourceAmount,
+      targetAccount: Number(request.recipientAccountId),
+      payOut: 'BANK_TRANSFER'
+    });
+
+    // Wise returns the existing transfer when the customer transaction id repeats
+    const transfer = await this.call('/v1/transfers', 'POST', {
+      targetAccount: Number(request.recipientAccountId),
+      quoteUuid: quote.id,
+      customerTransactionId: request.customerTransactionId,
+      details: { reference: request.reference.slice(0, 35), transferPurpose: 'verification.transfers.purpose.pay.bills' }
+    });
+
+    if (transfer.status === 'incoming_payment_waiting') {
+      await this.call(`/v3/profiles/${this.profileId}/transfers/${transfer.id}/payments`, 'POST', { type: 'BALANCE' });
+    }
+
+    return toWiseTransfer(await this.call(`/v1/transfers/${transfer.id}`), quote.id);
+  }
+
+  async getTransfer(transferId: string): Promise<WiseTransfer> {
+    return toWiseTransfer(await this.call(`/v1/transfers/${transferId}`));
+  }
+}
+
+/**
+ * In-memory stand-in for the Wise API. Transfers start in "processing" and
+ * stay there until settle() gives them an outcome.
+ */
+export class StubWisePayoutClient implements WisePayoutClient {
+  private transfers = new Map<string, WiseTransfer>();
+  private byCustomerId = new Map<string, string>();
+  private failures = new Set<string>();
+  private lostResponses = 0;
+  private nextId = 1;
+
+  async createTransfer(request: WiseTransferRequest): Promise<WiseTransfer> {
+    if (this.failures.has(request.recipientAccountId)) {
+      throw new Error(`Wise API error: 422 - recipient ${request.recipientAccountId} is not valid`);
+    }
+
+    const existing = this.byCustomerId.get(request.customerTransactionId);
+    if (existing) {
+      return { ...this.transfers.get(existing)! };
+    }
+
+    if (this.lostResponses > 0) {
+      this.lostResponses--;
+      this.recordTransfer(request);
+      throw new Error('Wise request timed out');
+    }
+    return this.recordTransfer(request);
+  }
+
+  private recordTransfer(request: WiseTransferRequest): WiseTransfer {
+    const id = `stub-${this.nextId++}`;
+    const transfer: WiseTransfer = {
+      id,
+      quoteId: `stub-quote-${id}`,
+      status: 'processing',
+      sourceAmount: request.sourceAmount,
+      sourceCurrency: request.sourceCurrency,
+      targetAmount: request.sourceAmount,
+      targetCurrency: request.targetCurrency,
+      rate: 1
+    };
+    this.transfers.set(id, transfer);
+    this.byCustomerId.set(request.customerTransactionId, id);
+    return { ...transfer };
+  }
+
+  async getTransfer(transferId: string): Promise<WiseTransfer> {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      throw new Error(`Wise API error: 404 - transfer ${transferId} not found`);
+    }
+    return { ...transfer };
+  }
+
+  /**
+   * Moves a transfer to a final Wise state, optionally with a different amount
+   */
+  settle(transferId: string, status: string, sourceAmount?: number): void {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      throw new Error(`Transfer ${transferId} not found`);
+    }
+    this.transfers.set(transferId, { ...transfer, status, sourceAmount: sourceAmount ?? transfer.sourceAmount });
+  }
+
+  /**
+   * Makes the next transfers go through while the caller sees a timeout
+   */
+  loseResponses(count: number = 1): void {
+    this.lostResponses += count;
+  }
+
+  /**
+   * Makes transfers to a recipient fail when they are created
+   */
+  rejectRecipient(recipientAccountId: string): void {
+    this.failures.add(recipientAccountId);
+  }
+
+  listTransfers(): WiseTransfer[] {
+    return Array.from(this.transfers.values()).map(transfer => ({ ...transfer }));
+  }
+}
+
+let sharedStub: StubWisePayoutClient | null = null;
+
+/**
+ * The configured client: the in-memory stub when WISE_PAYOUT_STUB is set,
+ * otherwise the live API
+ */
+export function getWisePayoutClient(): WisePayoutClient {
+  if (process.env.WISE_PAYOUT_STUB === 'true') {
+    sharedStub = sharedStub ?? new StubWisePayoutClient();
+    return sharedStub;
+  }
+
+  const token = process.env.WISE_BUSINESS_API_TOKEN;
+  const profileId = process.env.WISE_PROFILE_ID;
+  if (!token || !profileId) {
+    throw new Error('Wise payouts are not configured: set WISE_BUSINESS_API_TOKEN and WISE_PROFILE_ID');
+  }
+  return new HttpWisePayoutClient(token, profileId);
+}
@@ -102,12 +102,17 @@ import { enhanceChineseName, matchesChineseSearch } from './utils/chinese-name-u
 import { db } from "./db";
 // Consolidated Drizzle operators import
 import { eq, desc, asc, and, or, gte, lte, gt, count, sum, avg, sql, ilike, like, isNull, getTableColumns } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { sessionBookingMethods } from './storage-session-booking';
+import { recordPointsLedgerEntries, type PointsLedgerProvenance } from './services/points-ledger-service';
+import { publishDomainEvent } from './core/events/domain-events';
 
 const PostgresSessionStore = connectPg(session);
 
+type Writer = PgDatabase<any, any, any>;
+
 export interface IStorage extends CommunityStorage {
   sessionStore: any;
   
@@ -120,14 +125,14 @@ export interface IStorage extends CommunityStorage {
   
   // OAuth User operations (Required by Replit Auth)
   upsertUser(user: UpsertUser): Promise<User>;
-  createUser(insertUser: InsertUser): Promise<User>;
+  createUser(insertUser: InsertUser, writer?: Writer): Promise<User>;
   updateUser(id: number, userData: Partial<InsertUser>): Promise<User>;
-  updateUserProfile(id: number, profileData: Partial<InsertUser>): Promise<User>;
+  updateUserProfile(id: number, profileData: Partial<InsertUser>, writer?: Writer): Promise<User>;
   updateUserPassword(id: number, hashedPassword: string): Promise<void>;
   searchPlayers(query: string): Promise<User[]>;
   searchUsers(query: string): Promise<User[]>;
   getRecentOpponents(userId: number): Promise<User[]>;
-  updateUserPicklePoints(userId: number, pointsToAdd: number): Promise<void>;
+  updateUserPicklePoints(userId: number, pointsToAdd: number, provenance?: PointsLedgerProvenance): Promise<void>;
   searchPlayersByMultipleFields(searchTerm: string): Promise<User[]>;
   getUsersWithRankingPoints(format?: 'singles' | 'mens-doubles' | 'womens-doubles' | 'mixed-doubles-men' | 'mixed-doubles-women'): Promise<User[]>;
   getAllPlayersWithMatches(format?: 'singles' | 'mens-doubles' | 'womens-doubles' | 'mixed-doubles-men' | 'mixed-doubles-women'): Promise<User[]>;
@@ -201,7 +206,7 @@ export interface IStorage extends CommunityStorage {
   getCoachReviews(coachId: number): Promise<CoachReview[]>;
   
   // Coaching Session operations
-  createCoachingSession(data: InsertCoachingSession): Promise<CoachingSession>;
+  createCoachingSession(data: InsertCoachingSession, writer?: Writer): Promise<CoachingSession>;
   getCoachingSessions(coachId: number): Promise<CoachingSession[]>;
   
   // Coach Assessment operations
@@ -267,8 +272,8 @@ export interface IStorage extends CommunityStorage {
   getRecentMatches(playerIds: number[], afterDate: Date): Promise<Match[]>;
   getMatchStats(userId: number, timeRange?: string): Promise<any>;
   getPicklePoints(userId: number): Promise<number>;
-  updateUserRankingPoints(userId: number, pointsToAdd: number, format: 'singles' | 'doubles'): Promise<void>;
-  updateUserPicklePoints(userId: number, pointsToAdd: number): Promise<void>;
+  updateUserRankingPoints(userId: number, pointsToAdd: number, format: 'singles' | 'doubles', provenance?: PointsLedgerProvenance): Promise<void>;
+  updateUserPicklePoints(userId: number, pointsToAdd: number, provenance?: PointsLedgerProvenance): Promise<void>;
   updateUserMatchStatistics(userId: number, isWinner: boolean): Promise<void>;
   searchUsersByName(searchTerm: string): Promise<User[]>;
   getTournamentParticipationByUser(userId: number): Promise<any[]>;
@@ -304,7 +309,7 @@ export interface IStorage extends CommunityStorage {
   getActiveSessionForPlayer(playerId: number): Promise<any>;
   createCoachingSession(sessionData: any): Promise<any>;
   getCoachingSessionById(sessionId: number): Promise<any>;
-  updateCoachingSession(sessionId: number, updateData: any): Promise<any>;
+  updateCoachingSession(sessionId: number, updateData: any, writer?: Writer): Promise<any>;
   getChallengesBySkillLevel(skillLevel: string): Promise<any[]>;
   getChallengeById(challengeId: number): Promise<any>;
   createChallengeCompletion(completionData: any): Promise<any>;
@@ -362,6 +367,7 @@ export interface IStorage extends CommunityStorage {
   
   // Facility Booking System - PKL-278651-FACILITY-MGMT-001
   createFacilityBooking(data: any): Promise<any>;
+  getFacilityBooking(bookingId: number): Promise<any>;
   cancelFacilityBooking(bookingId: number): Promise<any>;
   getFacilityBookingSummary(facilityId?: number, range?: string): Promise<any>;
   getFacilityDetailedStats(facilityId?: number, range?: string): Promise<any>;
@@ -801,7 +807,7 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser, writer: Writer = db): Promise<User> {
     const userData = { ...insertUser };
     let retryCount = 0;
     const maxRetries = 3;
@@ -812,7 +818,8 @@ export class DatabaseStorage implements IStorage {
       }
       
       try {
-        const [user] = await db.insert(users).values(userData).returning();
+        // Each attempt in its own savepoint, so a collision does not abort the caller's transaction
+        const [user] = await writer.transaction(async (tx) => tx.insert(users).values(userData).returning());
         return user;
       } catch (error: any) {
         // Handle PostgreSQL unique constraint violations
@@ -883,15 +890,17 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateUserPicklePoints(userId: number, pointsToAdd: number): Promise<void> {
+  async updateUserPicklePoints(userId: number, pointsToAdd: number, provenance: PointsLedgerProvenance = {}): Promise<void> {
     await db.update(users)
       .set({ 
         picklePoints: sql`COALESCE(pickle_points, 0) + ${pointsToAdd}` 
       })
       .where(eq(users.id, userId));
+
+    await recordPointsLedgerEntries([{ entryType: 'match_award', ...provenance, userId, currency: 'pickle', amount: pointsToAdd }]);
   }
 
-  async updateUserRankingPoints(userId: number, pointsToAdd: number, format: 'singles' | 'doubles' = 'singles'): Promise<void> {
+  async updateUserRankingPoints(userId: number, pointsToAdd: number, format: 'singles' | 'doubles' = 'singles', provenance: PointsLedgerProvenance = {}): Promise<void> {
     if (format === 'singles') {
       await db.update(users)
         .set({ 
@@ -907,18 +916,30 @@ export class DatabaseStorage implements IStorage {
         })
         .where(eq(users.id, userId));
     }
+
+    await recordPointsLedgerEntries([{ entryType: 'match_award', division: format, ...provenance, userId, currency: 'ranking', amount: pointsToAdd }]);
   }
 
-  async updateUserProfile(id: number, profileData: Partial<InsertUser>): Promise<User> {
+  async updateUserProfile(id: number, profileData: Partial<InsertUser>, writer: Writer = db): Promise<User> {
     console.log(`[Storage] Updating profile for user ${id} with data:`, profileData);
-    const [user] = await db.update(users)
-      .set(profileData)
-      .where(eq(users.id, id))
-      .returning();
-    
-    if (!user) {
-      throw new Error(`User with id ${id} not found`);
-    }
+    const user = await writer.transaction(async (tx) => {
+      const [updated] = await tx.update(users)
+        .set(profileData)
+        .where(eq(users.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error(`User with id ${id} not found`);
+      }
+
+      // Partners are told which fields changed, never their values
+      await publishDomainEvent(tx, 'user.updated', {
+        user_id: id,
+        changed_fields: Object.keys(profileData),
+        updated_at: new Date().toISOString()
+      });
+      return updated;
+    });
     
     console.log(`[Storage] Profile updated successfully for user ${id}`);
     return user;
@@ -1458,13 +1479,15 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateUserPicklePoints(userId: number, pointsToAdd: number): Promise<void> {
+  async updateUserPicklePoints(userId: number, pointsToAdd: number, provenance: PointsLedgerProvenance = {}): Promise<void> {
     try {
       await db.update(users)
         .set({
           picklePoints: sql`${users.picklePoints} + ${pointsToAdd}`
         })
         .where(eq(users.id, userId));
+
+      await recordPointsLedgerEntries([{ entryType: 'match_award', ...provenance, userId, currency: 'pickle', amount: pointsToAdd }]);
       
       console.log(`[POINTS UPDATE] User ${userId}: +${pointsToAdd} pickle points`);
     } catch (error) {
@@ -1993,7 +2016,7 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
-  async updateCoachingSession(sessionId: number, updateData: any): Promise<any> {
+  async updateCoachingSession(sessionId: number, updateData: any, writer: Writer = db): Promise<any> {
     const updates = [];
     const values = [];
     
@@ -2028,7 +2051,7 @@ export class DatabaseStorage implements IStorage {
 
     values.push(sessionId);
     
-    const [session] = await db.execute(sql`
+    const [session] = await writer.execute(sql`
       UPDATE coaching_sessions 
       SET ${sql.raw(updates.join(', '))} 
       WHERE id = ${sessionId} 
@@ -2551,8 +2574,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Coaching Session operations
-  async createCoachingSession(data: InsertCoachingSession): Promise<CoachingSession> {
-    const [session] = await db
+  async createCoachingSession(data: InsertCoachingSession, writer: Writer = db): Promise<CoachingSession> {
+    const [session] = await writer
       .insert(coachingSessions)
       .values({
         ...data,
@@ -7169,6 +7192,13 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getFacilityBooking(bookingId: number): Promise<any> {
+    if (!this.facilityBookings) {
+      this.facilityBookings = this.initializeFacilityBookings();
+    }
+    return this.facilityBookings.find(booking => booking.id === bookingId) || null;
+  }
+
   async cancelFacilityBooking(bookingId: number): Promise<any> {
     try {
       if (!this.facilityBookings) {
@@ -35,6 +35,7 @@ import {
   type CommunityJoinRequest
 } from '../../shared/schema/community';
 import { users } from '../../shared/schema';
+import { publishDomainEvent } from '../core/events/domain-events';
 
 /**
  * Community Storage Interface
@@ -462,10 +463,19 @@ export const communityStorageImplementation: CommunityStorage = {
   
   async createCommunityMember(memberData: InsertCommunityMember): Promise<CommunityMember> {
     const db = this.getDb();
-    const result = await db
-      .insert(communityMembers)
-      .values(memberData)
-      .returning();
+    const result = await db.transaction(async (tx: any) => {
+      const created = await tx
+        .insert(communityMembers)
+        .values(memberData)
+        .returning();
+      await publishDomainEvent(tx, 'community.member_joined', {
+        community_id: created[0].communityId,
+        user_id: created[0].userId,
+        role: created[0].role,
+        joined_at: (created[0].joinedAt ?? new Date()).toISOString()
+      });
+      return created;
+    });
     
     // Update member count
     await this.incrementCommunityMemberCount(memberData.communityId);
@@ -498,15 +508,25 @@ export const communityStorageImplementation: CommunityStorage = {
   
   async deleteCommunityMembership(communityId: number, userId: number): Promise<boolean> {
     const db = this.getDb();
-    const result = await db
-      .delete(communityMembers)
-      .where(
-        and(
-          eq(communityMembers.communityId, communityId),
-          eq(communityMembers.userId, userId)
+    const result = await db.transaction(async (tx: any) => {
+      const deleted = await tx
+        .delete(communityMembers)
+        .where(
+          and(
+            eq(communityMembers.communityId, communityId),
+            eq(communityMembers.userId, userId)
+          )
         )
-      )
-      .returning({ deletedId: communityMembers.id });
+        .returning({ deletedId: communityMembers.id });
+      if (deleted.length > 0) {
+        await publishDomainEvent(tx, 'community.member_left', {
+          community_id: communityId,
+          user_id: userId,
+          left_at: new Date().toISOString()
+        });
+      }
+      return deleted;
+    });
     
     if (result.length > 0) {
       // Update member count
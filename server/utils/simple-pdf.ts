@@ -0,0 +1,88 @@
+/**
+ * Simple PDF Writer
+ *
+ * Renders lines of plain text as a paginated A4 PDF in Helvetica, without
+ * external dependencies. Enough for statements and receipts; characters
+ * outside Latin-1 are replaced with "?".
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+const MAX_LINE_CHARS = 95;
+
+function pdfText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function wrap(line: string): string[] {
+  if (line.length <= MAX_LINE_CHARS) {
+    return [line];
+  }
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += MAX_LINE_CHARS) {
+    parts.push((i === 0 ? '' : '    ') + line.slice(i, i + MAX_LINE_CHARS));
+  }
+  return parts;
+}
+
+/**
+ * A PDF document with one line of text per entry, the title in bold on the
+ * first page
+ */
+export function renderTextPdf(title: string, lines: string[]): Buffer {
+  const wrapped = lines.flatMap(wrap);
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(wrapped.length, 1); i += LINES_PER_PAGE - 2) {
+    pages.push(wrapped.slice(i, i + LINES_PER_PAGE - 2));
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 regular font, 4 bold font, then a
+  // page and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLines, index) => {
+    const top = PAGE_HEIGHT - MARGIN;
+    const commands = ['BT', `/F2 14 Tf`, `${MARGIN} ${top} Td`, `(${pdfText(index === 0 ? title : `${title} (continued)`)}) Tj`,
+      `/F1 ${FONT_SIZE} Tf`, `0 -${LINE_HEIGHT * 2} Td`, `${LINE_HEIGHT} TL`];
+    for (const line of pageLines) {
+      commands.push(`(${pdfText(line)}) Tj T*`);
+    }
+    commands.push('ET');
+    commands.push('BT', `/F1 8 Tf`, `${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td`, `(Page ${index + 1} of ${pages.length}) Tj`, 'ET');
+
+    const stream = commands.join('\n');
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
@@ -5,8 +5,8 @@
  * This file defines the database schema for the golden ticket system.
  */
 
-import { pgTable, serial, text, integer, timestamp, boolean, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, serial, text, integer, timestamp, boolean, pgEnum, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 import { createInsertSchema } from 'drizzle-zod';
 import { z } from 'zod';
 import { users } from './schema';
@@ -55,6 +55,8 @@ export const goldenTickets = pgTable('golden_tickets', {
   currentAppearances: integer('current_appearances').default(0).notNull(), // track how many times shown
   maxClaims: integer('max_claims').default(10).notNull(), // maximum number of claims allowed
   currentClaims: integer('current_claims').default(0).notNull(), // current number of claims
+  perUserClaimLimit: integer('per_user_claim_limit').default(1).notNull(), // claims one account may make
+  perDeviceClaimLimit: integer('per_device_claim_limit').default(1).notNull(), // claims from one device across accounts
   startDate: timestamp('start_date').notNull(),
   endDate: timestamp('end_date').notNull(),
   rewardDescription: text('reward_description').notNull(),
@@ -65,10 +67,31 @@ export const goldenTickets = pgTable('golden_tickets', {
   promotionalImagePath: text('promotional_image_path'), // File path to uploaded image
   pagesToAppearOn: text('pages_to_appear_on').array(), // array of page paths where ticket can appear
   status: ticketStatusEnum('status').default('draft').notNull(),
+  approvalStatus: text('approval_status').default('approved').notNull(), // draft, pending, approved, rejected; sponsor drafts need admin approval
+  submittedById: integer('submitted_by_id'), // sponsor member who drafted the ticket
+  submittedAt: timestamp('submitted_at'),
+  reviewedById: integer('reviewed_by_id'),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNotes: text('review_notes'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Sponsor Members table (users who can sign in to the sponsor portal)
+export const sponsorMembers = pgTable('sponsor_members', {
+  id: serial('id').primaryKey(),
+  sponsorId: integer('sponsor_id').references(() => sponsors.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  role: text('role').default('manager').notNull(), // manager: drafts, creatives and fulfilment lists; analyst: analytics only
+  active: boolean('active').default(true).notNull(),
+  addedById: integer('added_by_id'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  sponsorUserIdx: uniqueIndex('sponsor_members_sponsor_user_idx').on(table.sponsorId, table.userId),
+  userIdx: index('sponsor_members_user_idx').on(table.userId),
+}));
+
 // Golden Ticket Claims table (tracks user claims of tickets)
 export const goldenTicketClaims = pgTable('golden_ticket_claims', {
   id: serial('id').primaryKey(),
@@ -80,8 +103,66 @@ export const goldenTicketClaims = pgTable('golden_ticket_claims', {
   shippingAddress: text('shipping_address'),
   shippingTrackingCode: text('shipping_tracking_code'),
   adminNotes: text('admin_notes'),
+  drawId: integer('draw_id'), // the draw that showed the ticket
+  deviceHash: text('device_hash'),
+  ipHash: text('ip_hash'),
+  riskFlags: text('risk_flags').array(), // shared_device, shared_ip, device_changed
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  drawIdx: uniqueIndex('golden_ticket_claims_draw_idx').on(table.drawId),
+  ticketUserIdx: index('golden_ticket_claims_ticket_user_idx').on(table.ticketId, table.userId),
+  ticketDeviceIdx: index('golden_ticket_claims_ticket_device_idx').on(table.ticketId, table.deviceHash),
+}));
+
+// Server seeds the draws of a ticket come from; the hash is committed before
+// the first draw and the seed is revealed when the ticket ends or is rotated
+export const goldenTicketSeeds = pgTable('golden_ticket_seeds', {
+  id: serial('id').primaryKey(),
+  ticketId: integer('ticket_id').references(() => goldenTickets.id).notNull(),
+  seedHash: text('seed_hash').notNull(),
+  serverSeed: text('server_seed').notNull(), // never exported before revealedAt
+  drawCount: integer('draw_count').default(0).notNull(), // last nonce used
+  status: text('status').default('active').notNull(), // active, revealed
+  committedAt: timestamp('committed_at').defaultNow().notNull(),
+  revealedAt: timestamp('revealed_at'),
+}, (table) => ({
+  activeIdx: uniqueIndex('golden_ticket_seeds_active_idx').on(table.ticketId).where(sql`status = 'active'`),
+}));
+
+// Every draw, whether or not the ticket appeared
+export const goldenTicketDraws = pgTable('golden_ticket_draws', {
+  id: serial('id').primaryKey(),
+  ticketId: integer('ticket_id').references(() => goldenTickets.id).notNull(),
+  seedId: integer('seed_id').references(() => goldenTicketSeeds.id).notNull(),
+  nonce: integer('nonce').notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  playerRef: text('player_ref').notNull(),
+  roll: integer('roll').notNull(),
+  threshold: integer('threshold').notNull(),
+  outcome: text('outcome').notNull(), // shown, miss, capped
+  deviceHash: text('device_hash'),
+  ipHash: text('ip_hash'),
+  page: text('page'),
+  drawnAt: timestamp('drawn_at').defaultNow().notNull(),
+}, (table) => ({
+  seedNonceIdx: uniqueIndex('golden_ticket_draws_seed_nonce_idx').on(table.seedId, table.nonce),
+  userIdx: index('golden_ticket_draws_user_idx').on(table.userId, table.drawnAt),
+  deviceIdx: index('golden_ticket_draws_device_idx').on(table.deviceHash, table.drawnAt),
+}));
+
+// Seed commitments and reveals, claims, rejected claims, claim reviews and
+// sponsor campaign submissions and reviews
+export const goldenTicketAuditEvents = pgTable('golden_ticket_audit_events', {
+  id: serial('id').primaryKey(),
+  campaignId: text('campaign_id').notNull(),
+  ticketId: integer('ticket_id').references(() => goldenTickets.id).notNull(),
+  eventType: text('event_type').notNull(), // seed_committed, seed_revealed, claim_created, claim_rejected, claim_status_changed, campaign_submitted, campaign_approved, campaign_rejected
+  actorId: integer('actor_id'), // null for the system
+  details: jsonb('details').$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  campaignIdx: index('golden_ticket_audit_events_campaign_idx').on(table.campaignId, table.createdAt),
+}));
 
 // Define relations
 export const sponsorsRelations = relations(sponsors, ({ many }) => ({
@@ -147,6 +228,8 @@ export const insertGoldenTicketSchema = createInsertSchema(goldenTickets, {
   appearanceRate: z.number().min(1).max(100),
   maxAppearances: z.number().int().min(1),
   maxClaims: z.number().int().min(1),
+  perUserClaimLimit: z.number().int().min(1).default(1),
+  perDeviceClaimLimit: z.number().int().min(1).default(1),
   startDate: z.date(),
   endDate: z.date(),
   rewardDescription: z.string().min(5),
@@ -163,14 +246,17 @@ export const insertGoldenTicketSchema = createInsertSchema(goldenTickets, {
   promotionalImagePath: z.string().optional().nullable(),
   pagesToAppearOn: z.array(z.string()).optional(),
   status: z.enum(['draft', 'active', 'paused', 'completed', 'cancelled']).default('draft'),
-}).omit({ id: true, createdAt: true, updatedAt: true, currentAppearances: true, currentClaims: true });
+}).omit({
+  id: true, createdAt: true, updatedAt: true, currentAppearances: true, currentClaims: true,
+  approvalStatus: true, submittedById: true, submittedAt: true, reviewedById: true, reviewedAt: true, reviewNotes: true
+});
 
 export const insertGoldenTicketClaimSchema = createInsertSchema(goldenTicketClaims, {
   ticketId: z.number(),
   userId: z.number(),
   shippingAddress: z.string().optional(),
   status: z.enum(['pending', 'approved', 'fulfilled', 'rejected', 'expired']).default('pending'),
-}).omit({ id: true, claimedAt: true, updatedAt: true, fulfillmentDetails: true, shippingTrackingCode: true, adminNotes: true });
+}).omit({ id: true, claimedAt: true, updatedAt: true, fulfillmentDetails: true, shippingTrackingCode: true, adminNotes: true, drawId: true, deviceHash: true, ipHash: true, riskFlags: true });
 
 // TypeScript types
 export type Sponsor = typeof sponsors.$inferSelect;
@@ -180,4 +266,10 @@ export type GoldenTicket = typeof goldenTickets.$inferSelect;
 export type InsertGoldenTicket = z.infer<typeof insertGoldenTicketSchema>;
 
 export type GoldenTicketClaim = typeof goldenTicketClaims.$inferSelect;
-export type InsertGoldenTicketClaim = z.infer<typeof insertGoldenTicketClaimSchema>;
\ No newline at end of file
+export type InsertGoldenTicketClaim = z.infer<typeof insertGoldenTicketClaimSchema>;
+
+export type SponsorMember = typeof sponsorMembers.$inferSelect;
+
+export type GoldenTicketSeed = typeof goldenTicketSeeds.$inferSelect;
+export type GoldenTicketDraw = typeof goldenTicketDraws.$inferSelect;
+export type GoldenTicketAuditEvent = typeof goldenTicketAuditEvents.$inferSelect;
\ No newline at end of file
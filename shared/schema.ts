@@ -1160,6 +1160,7 @@ export const users = pgTable("users", {
   socialLocation: varchar("social_location", { length: 255 }), // Location from social platforms
   languagePreference: varchar("language_preference", { length: 10 }).default("en"), // Language from social context
   timezone: varchar("timezone", { length: 50 }), // Timezone from social/device data
+  region: varchar("region", { length: 50 }), // Operating region code (e.g. SG, CN, JP) for regional rules such as decay policies
   
   // Progressive Data Enrichment
   socialInterests: text("social_interests"), // JSON array of interests from social platforms
@@ -1552,7 +1553,7 @@ export const matches = pgTable("matches", {
   eventTier: varchar("event_tier", { length: 50 }).default("local"), // local, regional, national, international
   
   // Idempotency protection for bulk imports (UDF Rule 20)
-  idempotencyKey: varchar("idempotency_key", { length: 32 }), // SHA256 signature for duplicate prevention
+  idempotencyKey: varchar("idempotency_key", { length: 32 }), // SHA256 signature for duplicate prevention, set by the match ingestion service
   
   // Context information
   location: varchar("location", { length: 255 }),
@@ -1584,11 +1585,14 @@ export const matches = pgTable("matches", {
   notes: text("notes"),
   xpAwarded: integer("xp_awarded").default(0),
   pointsAwarded: integer("points_awarded").default(0),
+  pointsRulesetVersion: integer("points_ruleset_version"), // Points ruleset used to award the points
   
   // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at")
-});
+}, (table) => ({
+  idempotencyKeyUnique: uniqueIndex("matches_idempotency_key_unique").on(table.idempotencyKey),
+}));
 
 // Match Verifications table - Tracks individual player approvals for match scores
 export const matchVerifications = pgTable("match_verifications", {
@@ -2150,6 +2154,42 @@ import { matchStatistics, performanceImpacts, matchHighlights } from './match-st
 // Import assessment system schema
 export * from './schema/assessment';
 
+// Versioned ranking points rulesets
+export * from './schema/points-rules';
+
+// Ranking points replay runs
+export * from './schema/ranking-replay';
+
+// Append-only ranking and Pickle Points ledger
+export * from './schema/points-ledger';
+
+// Ranking points decay policies per region and division
+export * from './schema/decay-policies';
+
+// Glicko-2 skill ratings for matchmaking and seeding
+export * from './schema/skill-ratings';
+
+// Match outcome predictions and their results
+export * from './schema/match-predictions';
+
+// Booking cancellation policies and settlements
+export * from './schema/cancellation-policies';
+
+// Secret tokens for iCalendar subscription feeds
+export * from './schema/calendar-feeds';
+
+// Offers of freed class spots to waitlisted players
+export * from './schema/class-waitlist';
+
+// Double-entry ledger for credits, gift cards and payouts
+export * from './schema/ledger';
+
+// Per-currency wallet balances, FX rate sources and rate snapshots
+export * from './schema/multi-currency';
+
+// Promo code campaigns, codes and redemptions
+export * from './schema/promo-codes';
+
 // Update match relations to include VALMAT tables and Enhanced Match Recording System tables
 export const matchRelationsExtended = relations(matches, ({ one, many }) => ({
   playerOne: one(users, { fields: [matches.playerOneId], references: [users.id], relationName: "playerOne" }),
@@ -2686,6 +2726,9 @@ export const digitalCreditsTransactions = pgTable("digital_credits_transactions"
   description: text("description"), // Human-readable description
   balanceAfter: integer("balance_after").notNull(), // UDF Requirement: Track balance after each transaction
   picklePointsAwarded: integer("pickle_points_awarded").default(0), // 3:1 ratio points awarded
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Currency the user paid or was credited in
+  nativeAmount: integer("native_amount"), // Amount in that currency's minor units when not USD
+  fxSnapshotId: integer("fx_snapshot_id"), // fx_rate_snapshots.id of the rate used
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -6,8 +6,8 @@
  * including API keys, usage tracking, and developer accounts.
  */
 
-import { pgTable, serial, integer, varchar, text, boolean, timestamp, json, jsonb } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, serial, integer, varchar, text, boolean, timestamp, json, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { users } from "../schema";
@@ -83,11 +83,68 @@ export const apiRateLimits = pgTable("api_rate_limits", {
   endpoint: varchar("endpoint", { length: 255 }), // NULL means global limit for the tier
   requestLimit: integer("request_limit").notNull(),
   timeWindow: integer("time_window").notNull(), // Time window in seconds
+  algorithm: varchar("algorithm", { length: 20 }).notNull().default("sliding_window"), // sliding_window, token_bucket
+  burstLimit: integer("burst_limit"), // Token bucket capacity; NULL means request_limit
   concurrentLimit: integer("concurrent_limit"), // Max concurrent requests
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// API rate limit state table - Sliding window counts and token buckets per
+// limited key, shared by every instance
+export const apiRateLimitState = pgTable("api_rate_limit_state", {
+  key: varchar("key", { length: 255 }).primaryKey(), // e.g. key:12:/rankings
+  algorithm: varchar("algorithm", { length: 20 }).notNull(),
+  state: jsonb("state").notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // Safe to delete after this
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  expiresIdx: index("api_rate_limit_state_expires_idx").on(table.expiresAt)
+}));
+
+// API concurrency leases table - One row per request in flight; leases expire
+// so a crashed instance can't hold a slot forever
+export const apiConcurrencyLeases = pgTable("api_concurrency_leases", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  key: varchar("key", { length: 255 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  keyIdx: index("api_concurrency_leases_key_idx").on(table.key, table.expiresAt)
+}));
+
+// API quota usage table - Requests counted against a monthly quota
+export const apiQuotaUsage = pgTable("api_quota_usage", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { length: 255 }).notNull(), // e.g. developer:4
+  periodStart: timestamp("period_start").notNull(),
+  requestCount: integer("request_count").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  keyPeriodIdx: uniqueIndex("api_quota_usage_key_period_idx").on(table.key, table.periodStart)
+}));
+
+// API idempotency keys table - The response to each write sent with an
+// Idempotency-Key header, replayed when the same request is retried
+export const apiIdempotencyKeys = pgTable("api_idempotency_keys", {
+  id: serial("id").primaryKey(),
+  credentialKey: varchar("credential_key", { length: 100 }).notNull(), // e.g. key:12 or oauth:<client id>
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(),
+  method: varchar("method", { length: 10 }).notNull(),
+  path: varchar("path", { length: 255 }).notNull(),
+  requestHash: varchar("request_hash", { length: 64 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("processing"), // processing, completed
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  lockedUntil: timestamp("locked_until").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at")
+}, (table) => ({
+  credentialKeyIdx: uniqueIndex("api_idempotency_keys_credential_key_idx").on(table.credentialKey, table.idempotencyKey),
+  expiresIdx: index("api_idempotency_keys_expires_idx").on(table.expiresAt)
+}));
+
 // API documentation table - Stores API endpoint documentation
 export const apiDocumentation = pgTable("api_documentation", {
   id: serial("id").primaryKey(),
@@ -114,25 +171,68 @@ export const apiWebhooks = pgTable("api_webhooks", {
   events: text("events").notNull(), // Comma-separated list of events to subscribe to
   isActive: boolean("is_active").default(true),
   secret: varchar("secret", { length: 255 }).notNull(), // Secret for webhook signature verification
-  failureCount: integer("failure_count").default(0),
+  failureCount: integer("failure_count").default(0), // Consecutive failed attempts, reset on success
+  failingSince: timestamp("failing_since"), // First failure of the current run of failures
   lastFailure: timestamp("last_failure"),
   lastSuccess: timestamp("last_success"),
+  disabledAt: timestamp("disabled_at"), // Set when the endpoint was switched off for failing
+  disabledReason: text("disabled_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// API webhook outbox table - Events written in the same transaction as the
+// domain change they describe, fanned out to subscribed webhooks by the worker
+export const apiWebhookOutbox = pgTable("api_webhook_outbox", {
+  id: serial("id").primaryKey(), // Events reach each endpoint in id order
+  eventId: varchar("event_id", { length: 64 }).notNull().unique(), // Sent to partners for de-duplication
+  eventType: varchar("event_type", { length: 50 }).notNull(),
+  applicationId: integer("application_id").references(() => apiApplications.id), // NULL means every subscribed application
+  payload: jsonb("payload").notNull(), // The exact body partners receive
+  dispatchedAt: timestamp("dispatched_at"), // When deliveries were created for subscribers
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  undispatchedIdx: index("api_webhook_outbox_undispatched_idx").on(table.id).where(sql`${table.dispatchedAt} IS NULL`)
+}));
+
+// API webhook deliveries table - One event on its way to one webhook endpoint
+export const apiWebhookDeliveries = pgTable("api_webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  outboxId: integer("outbox_id").notNull().references(() => apiWebhookOutbox.id),
+  webhookId: integer("webhook_id").notNull().references(() => apiWebhooks.id, { onDelete: "cascade" }),
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, retrying, succeeded, dead
+  attemptCount: integer("attempt_count").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lockedUntil: timestamp("locked_until"), // Lease held by the worker sending it
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  deadReason: text("dead_reason"),
+  redeliveryOf: integer("redelivery_of"), // Delivery this one was requested to repeat
+  requestedById: integer("requested_by_id").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  webhookQueueIdx: index("api_webhook_deliveries_queue_idx").on(table.webhookId, table.outboxId, table.id).where(sql`${table.status} IN ('pending', 'retrying')`),
+  outboxWebhookIdx: uniqueIndex("api_webhook_deliveries_outbox_webhook_idx").on(table.outboxId, table.webhookId).where(sql`${table.redeliveryOf} IS NULL`)
+}));
+
 // API webhook delivery logs table - Tracks webhook delivery attempts
 export const apiWebhookDeliveryLogs = pgTable("api_webhook_delivery_logs", {
   id: serial("id").primaryKey(),
   webhookId: integer("webhook_id").notNull().references(() => apiWebhooks.id),
+  deliveryId: integer("delivery_id").references(() => apiWebhookDeliveries.id, { onDelete: "cascade" }),
   eventType: varchar("event_type", { length: 50 }).notNull(),
   payloadSnapshot: jsonb("payload_snapshot"), // Snapshot of the delivered payload
   statusCode: integer("status_code"),
   success: boolean("success").default(false),
   errorMessage: text("error_message"),
-  attemptCount: integer("attempt_count").default(1),
+  durationMs: integer("duration_ms"),
+  attemptCount: integer("attempt_count").default(1), // Which attempt of the delivery this was
   deliveredAt: timestamp("delivered_at").defaultNow()
-});
+}, (table) => ({
+  deliveryIdx: index("api_webhook_delivery_logs_delivery_idx").on(table.deliveryId)
+}));
 
 // Relations
 export const apiDeveloperAccountsRelations = relations(apiDeveloperAccounts, ({ one }) => ({
@@ -170,13 +270,34 @@ export const apiWebhooksRelations = relations(apiWebhooks, ({ one, many }) => ({
     fields: [apiWebhooks.applicationId],
     references: [apiApplications.id]
   }),
+  deliveries: many(apiWebhookDeliveries),
   deliveryLogs: many(apiWebhookDeliveryLogs)
 }));
 
+export const apiWebhookOutboxRelations = relations(apiWebhookOutbox, ({ many }) => ({
+  deliveries: many(apiWebhookDeliveries)
+}));
+
+export const apiWebhookDeliveriesRelations = relations(apiWebhookDeliveries, ({ one, many }) => ({
+  event: one(apiWebhookOutbox, {
+    fields: [apiWebhookDeliveries.outboxId],
+    references: [apiWebhookOutbox.id]
+  }),
+  webhook: one(apiWebhooks, {
+    fields: [apiWebhookDeliveries.webhookId],
+    references: [apiWebhooks.id]
+  }),
+  attempts: many(apiWebhookDeliveryLogs)
+}));
+
 export const apiWebhookDeliveryLogsRelations = relations(apiWebhookDeliveryLogs, ({ one }) => ({
   webhook: one(apiWebhooks, {
     fields: [apiWebhookDeliveryLogs.webhookId],
     references: [apiWebhooks.id]
+  }),
+  delivery: one(apiWebhookDeliveries, {
+    fields: [apiWebhookDeliveryLogs.deliveryId],
+    references: [apiWebhookDeliveries.id]
   })
 }));
 
@@ -187,7 +308,10 @@ export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true, c
 export const insertApiUsageLogSchema = createInsertSchema(apiUsageLogs).omit({ id: true, timestamp: true });
 export const insertApiRateLimitSchema = createInsertSchema(apiRateLimits).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertApiDocumentationSchema = createInsertSchema(apiDocumentation).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertApiWebhookSchema = createInsertSchema(apiWebhooks).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertApiWebhookSchema = createInsertSchema(apiWebhooks).omit({
+  id: true, failureCount: true, failingSince: true, lastFailure: true, lastSuccess: true,
+  disabledAt: true, disabledReason: true, createdAt: true, updatedAt: true
+});
 export const insertApiWebhookDeliveryLogSchema = createInsertSchema(apiWebhookDeliveryLogs).omit({ id: true, deliveredAt: true });
 
 // Type definitions for insert and select operations
@@ -213,4 +337,11 @@ export type ApiWebhook = typeof apiWebhooks.$inferSelect;
 export type InsertApiWebhook = z.infer<typeof insertApiWebhookSchema>;
 
 export type ApiWebhookDeliveryLog = typeof apiWebhookDeliveryLogs.$inferSelect;
-export type InsertApiWebhookDeliveryLog = z.infer<typeof insertApiWebhookDeliveryLogSchema>;
\ No newline at end of file
+export type InsertApiWebhookDeliveryLog = z.infer<typeof insertApiWebhookDeliveryLogSchema>;
+
+export type ApiQuotaUsage = typeof apiQuotaUsage.$inferSelect;
+
+export type ApiIdempotencyKey = typeof apiIdempotencyKeys.$inferSelect;
+
+export type ApiWebhookOutboxEvent = typeof apiWebhookOutbox.$inferSelect;
+export type ApiWebhookDelivery = typeof apiWebhookDeliveries.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Calendar Feeds Schema
+ *
+ * Secret per-user tokens for iCalendar subscription feeds. The token in the
+ * feed URL is the only credential, so rotating it cuts off every existing
+ * subscription.
+ */
+
+import { pgTable, serial, integer, varchar, timestamp } from 'drizzle-orm/pg-core';
+
+export const calendarFeedTokens = pgTable('calendar_feed_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().unique(),
+  token: varchar('token', { length: 64 }).notNull().unique(),
+  createdAt: timestamp('created_at').defaultNow(),
+  rotatedAt: timestamp('rotated_at'),
+  lastAccessedAt: timestamp('last_accessed_at')
+});
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
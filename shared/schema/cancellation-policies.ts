@@ -0,0 +1,69 @@
+/**
+ * Cancellation Policies Schema
+ *
+ * Refund windows and fees set by a coach or a facility, and the settlement
+ * recorded for every cancelled or missed booking. A coach's policy applies
+ * before their facility's; without either, the platform default applies.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, decimal, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { createInsertSchema } from 'drizzle-zod';
+import { z } from 'zod';
+
+export const cancellationPolicies = pgTable('cancellation_policies', {
+  id: serial('id').primaryKey(),
+  scope: varchar('scope', { length: 20 }).notNull(), // coach, facility
+  coachId: integer('coach_id'),
+  facilityId: integer('facility_id'), // training_centers.id
+  name: varchar('name', { length: 100 }),
+  fullRefundHours: integer('full_refund_hours').notNull().default(24),
+  partialRefundHours: integer('partial_refund_hours').notNull().default(6),
+  partialRefundPercent: integer('partial_refund_percent').notNull().default(50),
+  lateCancelFeePercent: integer('late_cancel_fee_percent').notNull().default(100),
+  noShowFeePercent: integer('no_show_fee_percent').notNull().default(100),
+  isActive: boolean('is_active').notNull().default(true),
+  updatedById: integer('updated_by_id'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => ({
+  coachUnique: uniqueIndex('cancellation_policies_coach_unique').on(table.coachId),
+  facilityUnique: uniqueIndex('cancellation_policies_facility_unique').on(table.facilityId)
+}));
+
+export const bookingCancellations = pgTable('booking_cancellations', {
+  id: serial('id').primaryKey(),
+  bookingType: varchar('booking_type', { length: 30 }).notNull(), // session_booking, coaching_session, facility_booking
+  bookingId: integer('booking_id').notNull(),
+  studentId: integer('student_id'), // Null for facility guests without an account
+  coachId: integer('coach_id'),
+  facilityId: integer('facility_id'),
+  policyId: integer('policy_id'), // Null when the platform default applied
+  tier: varchar('tier', { length: 30 }).notNull(), // provider_cancelled, full_refund, partial_refund, late_cancel, no_show
+  initiatedBy: varchar('initiated_by', { length: 20 }).notNull(), // student, coach, facility, admin
+  cancelledById: integer('cancelled_by_id'),
+  hoursBeforeStart: decimal('hours_before_start', { precision: 8, scale: 2 }).notNull(),
+  // Amounts in cents
+  priceCents: integer('price_cents').notNull(),
+  paidCents: integer('paid_cents').notNull(),
+  refundCents: integer('refund_cents').notNull().default(0),
+  feeCents: integer('fee_cents').notNull().default(0),
+  feeChargedCents: integer('fee_charged_cents').notNull().default(0), // Taken from digital credits
+  feeOutstandingCents: integer('fee_outstanding_cents').notNull().default(0), // More than the credit balance covered
+  coachEarningsChangeCents: integer('coach_earnings_change_cents').notNull().default(0),
+  refundTransactionId: integer('refund_transaction_id'), // digital_credits_transactions.id
+  feeTransactionId: integer('fee_transaction_id'),
+  reason: text('reason'),
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  // A booking is settled once, however many times cancellation is requested
+  bookingUnique: uniqueIndex('booking_cancellations_booking_unique').on(table.bookingType, table.bookingId),
+  studentIdx: index('booking_cancellations_student_idx').on(table.studentId, table.createdAt),
+  coachIdx: index('booking_cancellations_coach_idx').on(table.coachId, table.createdAt)
+}));
+
+export const insertCancellationPolicySchema = createInsertSchema(cancellationPolicies)
+  .omit({ id: true, scope: true, coachId: true, facilityId: true, updatedById: true, createdAt: true, updatedAt: true });
+
+export type CancellationPolicyRecord = typeof cancellationPolicies.$inferSelect;
+export type InsertCancellationPolicy = z.infer<typeof insertCancellationPolicySchema>;
+export type BookingCancellation = typeof bookingCancellations.$inferSelect;
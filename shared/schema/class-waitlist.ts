@@ -0,0 +1,33 @@
+/**
+ * Class Waitlist Offers Schema
+ *
+ * Every spot offered to a waitlisted player, and every player passed over
+ * for not fitting the class level, so center admins can see how each freed
+ * spot was filled.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, index } from 'drizzle-orm/pg-core';
+
+export const classWaitlistOffers = pgTable('class_waitlist_offers', {
+  id: serial('id').primaryKey(),
+  classInstanceId: integer('class_instance_id').notNull(),
+  centerId: integer('center_id').notNull(), // training_centers.id
+  waitlistEntryId: integer('waitlist_entry_id').notNull(), // class_waitlist.id
+  playerId: integer('player_id').notNull(),
+  position: integer('position').notNull(), // Waitlist position when offered
+  outcome: varchar('outcome', { length: 20 }).notNull().default('pending'), // pending, accepted, declined, expired, withdrawn, skipped
+  offeredAt: timestamp('offered_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at'), // Null for skipped players
+  respondedAt: timestamp('responded_at'),
+  enrollmentId: integer('enrollment_id'), // class_enrollments.id once accepted
+  creditsCharged: integer('credits_charged').notNull().default(0), // Taken from digital credits on acceptance
+  creditTransactionId: integer('credit_transaction_id'),
+  reason: text('reason'),
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  classIdx: index('class_waitlist_offers_class_idx').on(table.classInstanceId, table.offeredAt),
+  centerIdx: index('class_waitlist_offers_center_idx').on(table.centerId, table.offeredAt),
+  entryIdx: index('class_waitlist_offers_entry_idx').on(table.waitlistEntryId, table.outcome)
+}));
+
+export type ClassWaitlistOffer = typeof classWaitlistOffers.$inferSelect;
@@ -0,0 +1,33 @@
+/**
+ * Decay Policies Schema
+ *
+ * Admin-managed ranking points decay rules per region and/or age division:
+ * tier decay rates, match weighting, activity levels and holiday calendar.
+ * The most specific active policy for a player applies.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { createInsertSchema } from 'drizzle-zod';
+import { z } from 'zod';
+import { decayPolicyDefinitionSchema, type DecayPolicyDefinition } from '../utils/decayPolicyEngine';
+
+export const decayPolicies = pgTable('decay_policies', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  region: varchar('region', { length: 50 }), // Matches users.region; null applies to every region
+  division: varchar('division', { length: 20 }), // Age division (Open, U19, 35+ ...); null applies to every division
+  rules: jsonb('rules').$type<DecayPolicyDefinition>().notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  notes: text('notes'),
+  createdById: integer('created_by_id'),
+  updatedById: integer('updated_by_id'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+});
+
+export const insertDecayPolicySchema = createInsertSchema(decayPolicies, {
+  rules: decayPolicyDefinitionSchema
+}).omit({ id: true, createdById: true, updatedById: true, createdAt: true, updatedAt: true });
+
+export type DecayPolicyRecord = typeof decayPolicies.$inferSelect;
+export type InsertDecayPolicy = z.infer<typeof insertDecayPolicySchema>;
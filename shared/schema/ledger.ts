@@ -0,0 +1,65 @@
+/**
+ * Double-Entry Ledger Schema
+ *
+ * Chart of accounts, journal entries and their lines for every money
+ * movement (wallet top-ups and spending, gift cards, coach payouts), plus
+ * the results of the nightly check that wallet and gift card balances match
+ * the ledger. Entries and lines are append-only; corrections are new entries.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+
+export const ledgerAccounts = pgTable('ledger_accounts', {
+  id: serial('id').primaryKey(),
+  code: varchar('code', { length: 60 }).notNull(), // e.g. wise_clearing, user_wallet:12, coach_payable:7
+  name: varchar('name', { length: 120 }).notNull(),
+  type: varchar('type', { length: 20 }).notNull(), // asset, liability, equity, revenue, expense
+  ownerUserId: integer('owner_user_id'), // Wallet holder or coach for per-user accounts
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  codeIdx: uniqueIndex('ledger_accounts_code_idx').on(table.code)
+}));
+
+export const ledgerJournalEntries = pgTable('ledger_journal_entries', {
+  id: serial('id').primaryKey(),
+  entryType: varchar('entry_type', { length: 40 }).notNull(), // wallet_top_up, gift_card_sale, coach_payout_accrual ...
+  sourceKey: varchar('source_key', { length: 120 }).notNull(), // One entry per source, e.g. digital_credits_transaction:42
+  referenceType: varchar('reference_type', { length: 50 }),
+  referenceId: integer('reference_id'),
+  description: text('description'),
+  createdById: integer('created_by_id'),
+  postedAt: timestamp('posted_at').notNull().defaultNow()
+}, (table) => ({
+  sourceIdx: uniqueIndex('ledger_journal_entries_source_idx').on(table.sourceKey),
+  postedIdx: index('ledger_journal_entries_posted_idx').on(table.postedAt)
+}));
+
+export const ledgerJournalLines = pgTable('ledger_journal_lines', {
+  id: serial('id').primaryKey(),
+  entryId: integer('entry_id').notNull(), // ledger_journal_entries.id
+  accountId: integer('account_id').notNull(), // ledger_accounts.id
+  debitCents: integer('debit_cents').notNull().default(0),
+  creditCents: integer('credit_cents').notNull().default(0),
+  memo: text('memo')
+}, (table) => ({
+  entryIdx: index('ledger_journal_lines_entry_idx').on(table.entryId),
+  accountIdx: index('ledger_journal_lines_account_idx').on(table.accountId)
+}));
+
+export const ledgerInvariantChecks = pgTable('ledger_invariant_checks', {
+  id: serial('id').primaryKey(),
+  status: varchar('status', { length: 20 }).notNull(), // passed, failed
+  walletsChecked: integer('wallets_checked').notNull().default(0),
+  walletMismatches: integer('wallet_mismatches').notNull().default(0),
+  giftCardDifferenceCents: integer('gift_card_difference_cents').notNull().default(0), // Ledger minus outstanding gift card balances
+  unbalancedEntries: integer('unbalanced_entries').notNull().default(0),
+  details: jsonb('details'), // Mismatched accounts and unbalanced entry ids
+  checkedAt: timestamp('checked_at').notNull().defaultNow()
+}, (table) => ({
+  checkedIdx: index('ledger_invariant_checks_checked_idx').on(table.checkedAt)
+}));
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerJournalEntry = typeof ledgerJournalEntries.$inferSelect;
+export type LedgerJournalLine = typeof ledgerJournalLines.$inferSelect;
+export type LedgerInvariantCheck = typeof ledgerInvariantChecks.$inferSelect;
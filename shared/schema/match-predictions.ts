@@ -0,0 +1,48 @@
+/**
+ * Match Predictions Schema
+ *
+ * Win probability, expected scoreline and suggested handicap shown to players
+ * before a match, kept with the actual result once the match is recorded so
+ * the predictor's calibration can be measured over time.
+ */
+
+import { pgTable, serial, integer, varchar, timestamp, decimal, boolean, jsonb, index } from 'drizzle-orm/pg-core';
+
+export const MATCH_PREDICTION_CONTEXTS = ['match', 'challenge'] as const;
+export type MatchPredictionContext = typeof MATCH_PREDICTION_CONTEXTS[number];
+
+export const matchPredictions = pgTable('match_predictions', {
+  id: serial('id').primaryKey(),
+  context: varchar('context', { length: 20 }).notNull(), // match (match setup), challenge
+  contextId: integer('context_id'), // Challenge ID for challenge predictions
+  format: varchar('format', { length: 20 }).notNull(), // singles, doubles
+  team1PlayerIds: jsonb('team1_player_ids').$type<number[]>().notNull(),
+  team2PlayerIds: jsonb('team2_player_ids').$type<number[]>().notNull(),
+  team1Rating: decimal('team1_rating', { precision: 8, scale: 2 }).notNull(),
+  team1Deviation: decimal('team1_deviation', { precision: 8, scale: 2 }).notNull(),
+  team2Rating: decimal('team2_rating', { precision: 8, scale: 2 }).notNull(),
+  team2Deviation: decimal('team2_deviation', { precision: 8, scale: 2 }).notNull(),
+  pointsToWin: integer('points_to_win').notNull(),
+  winByTwo: boolean('win_by_two').notNull(),
+  gamesToWin: integer('games_to_win').notNull(),
+  team1WinProbability: decimal('team1_win_probability', { precision: 6, scale: 4 }).notNull(),
+  expectedTeam1Points: decimal('expected_team1_points', { precision: 5, scale: 2 }).notNull(),
+  expectedTeam2Points: decimal('expected_team2_points', { precision: 5, scale: 2 }).notNull(),
+  handicapTeam: integer('handicap_team'), // 1 or 2, null when no handicap was suggested
+  handicapPoints: integer('handicap_points').notNull().default(0),
+
+  // Filled in when the predicted match is recorded
+  matchId: integer('match_id'),
+  team1Won: boolean('team1_won'),
+  resolvedAt: timestamp('resolved_at'),
+
+  createdById: integer('created_by_id'),
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  contextIdx: index('match_predictions_context_idx').on(table.context, table.contextId),
+  matchIdx: index('match_predictions_match_idx').on(table.matchId),
+  unresolvedIdx: index('match_predictions_unresolved_idx').on(table.format, table.resolvedAt, table.createdAt)
+}));
+
+export type MatchPredictionRecord = typeof matchPredictions.$inferSelect;
+export type InsertMatchPredictionRecord = typeof matchPredictions.$inferInsert;
@@ -0,0 +1,73 @@
+/**
+ * Multi-Currency Wallet Schema
+ *
+ * Per-currency sub-balances of digital credits wallets, the exchange rate
+ * sources admins configure, the local fallback rate table used when no
+ * source answers, and a snapshot of the exact rate behind every conversion.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, decimal, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+
+export const walletCurrencyBalances = pgTable('wallet_currency_balances', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(), // Never USD; the USD pocket is the rest of the wallet balance
+  balanceMinor: integer('balance_minor').notNull().default(0), // Native minor units
+  usdCents: integer('usd_cents').notNull().default(0), // USD value at the rates the credits were bought at
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => ({
+  userCurrencyIdx: uniqueIndex('wallet_currency_balances_user_currency_idx').on(table.userId, table.currency)
+}));
+
+export const fxRateSources = pgTable('fx_rate_sources', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  kind: varchar('kind', { length: 20 }).notNull(), // http_json, manual
+  url: text('url'), // http_json: {base} is replaced with the source currency
+  ratesPath: varchar('rates_path', { length: 100 }).default('rates'), // Where the rate table sits in the response
+  manualRates: jsonb('manual_rates').$type<Record<string, number>>(), // manual: units per one USD
+  priority: integer('priority').notNull().default(100), // Lowest is tried first
+  enabled: boolean('enabled').notNull().default(true),
+  lastFetchedAt: timestamp('last_fetched_at'),
+  lastError: text('last_error'),
+  createdById: integer('created_by_id'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => ({
+  nameIdx: uniqueIndex('fx_rate_sources_name_idx').on(table.name)
+}));
+
+export const fxFallbackRates = pgTable('fx_fallback_rates', {
+  id: serial('id').primaryKey(),
+  baseCurrency: varchar('base_currency', { length: 3 }).notNull(),
+  quoteCurrency: varchar('quote_currency', { length: 3 }).notNull(),
+  rate: decimal('rate', { precision: 18, scale: 8 }).notNull(), // Units of quote per unit of base
+  updatedById: integer('updated_by_id'),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => ({
+  pairIdx: uniqueIndex('fx_fallback_rates_pair_idx').on(table.baseCurrency, table.quoteCurrency)
+}));
+
+export const fxRateSnapshots = pgTable('fx_rate_snapshots', {
+  id: serial('id').primaryKey(),
+  baseCurrency: varchar('base_currency', { length: 3 }).notNull(),
+  quoteCurrency: varchar('quote_currency', { length: 3 }).notNull(),
+  rate: decimal('rate', { precision: 18, scale: 8 }).notNull(),
+  source: varchar('source', { length: 100 }).notNull(), // Source name, or "fallback table"
+  sourceKind: varchar('source_kind', { length: 20 }).notNull(), // identity, provider, manual, fallback
+  rateFetchedAt: timestamp('rate_fetched_at').notNull(),
+  purpose: varchar('purpose', { length: 40 }).notNull(), // top_up, quote
+  userId: integer('user_id'),
+  amountMinor: integer('amount_minor').notNull(),
+  convertedMinor: integer('converted_minor').notNull(),
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  userIdx: index('fx_rate_snapshots_user_idx').on(table.userId, table.createdAt)
+}));
+
+export type WalletCurrencyBalance = typeof walletCurrencyBalances.$inferSelect;
+export type FxRateSource = typeof fxRateSources.$inferSelect;
+export type InsertFxRateSource = typeof fxRateSources.$inferInsert;
+export type FxFallbackRate = typeof fxFallbackRates.$inferSelect;
+export type FxRateSnapshot = typeof fxRateSnapshots.$inferSelect;
@@ -13,6 +13,7 @@ import { pgTable, serial, text, timestamp, integer, uuid, boolean } from 'drizzl
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
 import { users } from '../schema';
+import { apiApplications } from './api-gateway';
 
 /**
  * OAuth Client Applications
@@ -29,10 +30,13 @@ export const oauthClients = pgTable('oauth_clients', {
   privacyPolicyUrl: text('privacy_policy_url'),
   termsOfServiceUrl: text('terms_of_service_url'),
   redirectUris: text('redirect_uris').array().notNull(),
-  allowedScopes: text('allowed_scopes').array().notNull(),
+  allowedScopes: text('allowed_scopes').array().notNull(), // API gateway scopes (api-scopes.ts)
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
   developerId: integer('developer_id').references(() => users.id).notNull(),
+  // The developer portal application whose tier, rate limits and quota the
+  // client's API calls count against
+  applicationId: integer('application_id').references(() => apiApplications.id),
   status: text('status', { enum: ['pending', 'approved', 'rejected', 'revoked'] }).default('pending').notNull(),
   // JWT signing algorithm
   tokenSigningAlg: text('token_signing_alg', { enum: ['HS256', 'RS256'] }).default('HS256').notNull(),
@@ -199,43 +203,3 @@ export type DeveloperProfile = typeof developerProfiles.$inferSelect;
 export type InsertDeveloperProfile = z.infer<typeof insertDeveloperProfileSchema>;
 
 export type ApiUsageLog = typeof apiUsageLogs.$inferSelect;
-
-// Export available scopes for the OAuth system
-export const AVAILABLE_SCOPES = {
-  // Basic scopes
-  'profile': 'Access to basic profile information',
-  'email': 'Access to your email address',
-  
-  // Extended profile scopes
-  'profile.extended': 'Access to detailed profile information',
-  'profile.avatar': 'Access to profile picture',
-  
-  // Ratings and skills
-  'ratings.read': 'View your CourtIQ™ ratings',
-  'ratings.history': 'Access your historical rating data',
-  
-  // Roles
-  'roles.read': 'View your pickleball roles',
-  
-  // Match data
-  'matches.read': 'View your match history',
-  'matches.stats': 'Access detailed match statistics',
-  
-  // Tournaments
-  'tournaments.read': 'View your tournament participation',
-  'tournaments.upcoming': 'View your upcoming tournaments',
-  
-  // Journey data (limited)
-  'journey.summary': 'View PickleJourney™ summary data',
-  
-  // Others as needed
-  'offline_access': 'Access to your data when you are not using the application'
-};
-
-// Export scope groupings for common use cases
-export const SCOPE_GROUPS = {
-  'basic': ['profile', 'email'],
-  'competitive': ['profile', 'email', 'ratings.read', 'matches.read', 'tournaments.read'],
-  'analytics': ['profile', 'ratings.read', 'ratings.history', 'matches.stats'],
-  'coaching': ['profile', 'ratings.read', 'matches.read', 'journey.summary']
-};
\ No newline at end of file
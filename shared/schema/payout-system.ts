@@ -3,7 +3,7 @@
  * Phase 1 Sprint 1.4: Automated Commission Calculation and WISE Integration
  */
 
-import { pgTable, serial, integer, varchar, text, timestamp, boolean, decimal } from "drizzle-orm/pg-core";
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, decimal, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -163,7 +163,7 @@ export const coachPayouts = pgTable("coach_payouts", {
   
   // Processing status
   status: varchar("status", { length: 30 }).default("pending"),
-  // pending, processing, completed, failed, cancelled
+  // pending, processing, completed, failed, cancelled, carried_forward (below the minimum payout)
   
   // Timing
   processedAt: timestamp("processed_at"),
@@ -247,6 +247,23 @@ export const payoutAdjustments = pgTable("payout_adjustments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Payout Statement Items - The sessions and adjustments behind each coach payout
+export const payoutStatementItems = pgTable("payout_statement_items", {
+  id: serial("id").primaryKey(),
+  payoutId: integer("payout_id").notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // session, adjustment
+  referenceId: integer("reference_id").notNull(), // session_transactions.id or payout_adjustments.id
+  itemDate: timestamp("item_date"),
+  description: text("description").notNull(),
+  grossAmount: decimal("gross_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  commissionRate: decimal("commission_rate", { precision: 5, scale: 2 }),
+  platformFee: decimal("platform_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  payoutIdx: index("payout_statement_items_payout_idx").on(table.payoutId),
+}));
+
 // Relations
 export const sessionTransactionsRelations = relations(sessionTransactions, ({ one }) => ({
   payoutBatch: one(payoutBatches, {
@@ -267,6 +284,13 @@ export const coachPayoutsRelations = relations(coachPayouts, ({ one }) => ({
   }),
 }));
 
+export const payoutStatementItemsRelations = relations(payoutStatementItems, ({ one }) => ({
+  payout: one(coachPayouts, {
+    fields: [payoutStatementItems.payoutId],
+    references: [coachPayouts.id],
+  }),
+}));
+
 export const payoutAdjustmentsRelations = relations(payoutAdjustments, ({ one }) => ({
   appliedToBatch: one(payoutBatches, {
     fields: [payoutAdjustments.appliedToBatchId],
@@ -330,6 +354,8 @@ export type InsertTaxDocument = z.infer<typeof insertTaxDocumentSchema>;
 export type PayoutAdjustment = typeof payoutAdjustments.$inferSelect;
 export type InsertPayoutAdjustment = z.infer<typeof insertPayoutAdjustmentSchema>;
 
+export type PayoutStatementItem = typeof payoutStatementItems.$inferSelect;
+
 // Utility types for complex operations
 export type CoachEarningsSummary = {
   coachId: number;
@@ -0,0 +1,56 @@
+/**
+ * Points Ledger Schema
+ *
+ * Append-only record of every ranking points and Pickle Points credit or
+ * debit, with where it came from and how it was calculated. The totals on
+ * the users table are a running sum of this ledger.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, jsonb, decimal } from 'drizzle-orm/pg-core';
+
+export const POINTS_LEDGER_CURRENCIES = ['ranking', 'pickle'] as const;
+export type PointsLedgerCurrency = typeof POINTS_LEDGER_CURRENCIES[number];
+
+export const POINTS_LEDGER_ENTRY_TYPES = [
+  'opening_balance', // Totals that existed before the ledger
+  'match_award',
+  'decay',
+  'admin_adjustment',
+  'replay_adjustment',
+  'redemption'
+] as const;
+export type PointsLedgerEntryType = typeof POINTS_LEDGER_ENTRY_TYPES[number];
+
+/**
+ * Multipliers applied when the amount was calculated
+ */
+export interface PointsLedgerMultipliers {
+  age?: number;
+  gender?: number;
+  event?: number;
+  tier?: number;
+  pickle?: number;
+  decayRate?: number;
+}
+
+export const pointsLedgerEntries = pgTable('points_ledger_entries', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  currency: varchar('currency', { length: 20 }).notNull(), // ranking, pickle
+  entryType: varchar('entry_type', { length: 30 }).notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Positive for credits, negative for debits
+  division: varchar('division', { length: 50 }), // singles, doubles, mens_doubles ... when known
+  sourceType: varchar('source_type', { length: 50 }), // match, admin_match, decay, ranking_replay_run, admin
+  sourceId: integer('source_id'),
+  rulesetVersion: integer('ruleset_version'),
+  multipliers: jsonb('multipliers').$type<PointsLedgerMultipliers>(),
+  calculationDetails: text('calculation_details'),
+  reason: text('reason'),
+  metadata: jsonb('metadata'),
+  createdById: integer('created_by_id'),
+  occurredAt: timestamp('occurred_at').notNull().defaultNow(),
+  createdAt: timestamp('created_at').defaultNow()
+});
+
+export type PointsLedgerEntry = typeof pointsLedgerEntries.$inferSelect;
+export type InsertPointsLedgerEntry = typeof pointsLedgerEntries.$inferInsert;
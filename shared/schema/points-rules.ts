@@ -0,0 +1,35 @@
+/**
+ * Points Rulesets Schema
+ * 
+ * Versioned, database-backed definitions of the ranking points rules.
+ * A ruleset starts as a draft, can be simulated against historical matches
+ * and becomes effective from a given date once activated.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { createInsertSchema } from 'drizzle-zod';
+import { z } from 'zod';
+import { pointsRuleDefinitionSchema, type PointsRuleDefinition } from '../utils/pointsRuleEngine';
+
+export const pointsRulesets = pgTable('points_rulesets', {
+  id: serial('id').primaryKey(),
+  version: integer('version').notNull().unique(),
+  name: varchar('name', { length: 100 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('draft'), // draft, active, retired
+  rules: jsonb('rules').$type<PointsRuleDefinition>().notNull(),
+  effectiveFrom: timestamp('effective_from'), // Set on activation
+  effectiveTo: timestamp('effective_to'), // Set when a later ruleset takes over
+  notes: text('notes'),
+  createdById: integer('created_by_id'),
+  activatedById: integer('activated_by_id'),
+  activatedAt: timestamp('activated_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+});
+
+export const insertPointsRulesetSchema = createInsertSchema(pointsRulesets, {
+  rules: pointsRuleDefinitionSchema
+}).omit({ id: true, version: true, status: true, effectiveFrom: true, effectiveTo: true, activatedById: true, activatedAt: true, createdAt: true, updatedAt: true });
+
+export type PointsRulesetRecord = typeof pointsRulesets.$inferSelect;
+export type InsertPointsRuleset = z.infer<typeof insertPointsRulesetSchema>;
@@ -0,0 +1,81 @@
+/**
+ * Promo Code Schema
+ *
+ * Discount campaigns with their eligibility and stacking rules, the codes
+ * issued for them with their usage limits, and every redemption against a
+ * booking, class enrollment or tournament entry.
+ */
+
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+
+export const promoCampaigns = pgTable('promo_campaigns', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 120 }).notNull(),
+  description: text('description'),
+  sponsorId: integer('sponsor_id'), // Sponsor the campaign runs for, if any
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, paused, ended
+
+  // Discount
+  discountType: varchar('discount_type', { length: 20 }).notNull(), // percentage, fixed, free_session
+  discountValue: integer('discount_value').notNull().default(0), // Percent, or cents for fixed
+  maxDiscountCents: integer('max_discount_cents'),
+
+  // Eligibility
+  appliesTo: varchar('applies_to', { length: 30 }).notNull().default('any'), // any, session_booking, class_enrollment, tournament_entry
+  firstBookingOnly: boolean('first_booking_only').notNull().default(false),
+  coachIds: jsonb('coach_ids').$type<number[]>(),
+  tournamentIds: jsonb('tournament_ids').$type<number[]>(),
+  startsAt: timestamp('starts_at'),
+  endsAt: timestamp('ends_at'),
+  minAmountCents: integer('min_amount_cents').notNull().default(0),
+
+  // Stacking with how the rest is paid
+  stacksWithCredits: boolean('stacks_with_credits').notNull().default(true),
+  stacksWithGiftCards: boolean('stacks_with_gift_cards').notNull().default(false),
+
+  createdById: integer('created_by_id'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => ({
+  sponsorIdx: index('promo_campaigns_sponsor_idx').on(table.sponsorId)
+}));
+
+export const promoCodes = pgTable('promo_codes', {
+  id: serial('id').primaryKey(),
+  campaignId: integer('campaign_id').notNull(),
+  code: varchar('code', { length: 40 }).notNull(),
+  usage: varchar('usage', { length: 20 }).notNull().default('multi_use'), // single_use, multi_use
+  maxRedemptions: integer('max_redemptions'), // Null for unlimited
+  perUserLimit: integer('per_user_limit').notNull().default(1),
+  redemptionCount: integer('redemption_count').notNull().default(0),
+  active: boolean('active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  codeIdx: uniqueIndex('promo_codes_code_idx').on(table.code),
+  campaignIdx: index('promo_codes_campaign_idx').on(table.campaignId)
+}));
+
+export const promoRedemptions = pgTable('promo_redemptions', {
+  id: serial('id').primaryKey(),
+  codeId: integer('code_id').notNull(),
+  campaignId: integer('campaign_id').notNull(),
+  userId: integer('user_id').notNull(),
+  targetType: varchar('target_type', { length: 30 }).notNull(), // session_booking, class_enrollment, tournament_entry
+  targetId: integer('target_id').notNull(),
+  paymentMethod: varchar('payment_method', { length: 20 }).notNull(), // credits, gift_card, external
+  originalAmountCents: integer('original_amount_cents').notNull(),
+  discountCents: integer('discount_cents').notNull(),
+  finalAmountCents: integer('final_amount_cents').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('applied'), // applied, reversed
+  redeemedAt: timestamp('redeemed_at').notNull().defaultNow(),
+  reversedAt: timestamp('reversed_at')
+}, (table) => ({
+  targetIdx: uniqueIndex('promo_redemptions_target_idx').on(table.targetType, table.targetId),
+  codeUserIdx: index('promo_redemptions_code_user_idx').on(table.codeId, table.userId),
+  campaignIdx: index('promo_redemptions_campaign_idx').on(table.campaignId, table.redeemedAt)
+}));
+
+export type PromoCampaign = typeof promoCampaigns.$inferSelect;
+export type InsertPromoCampaign = typeof promoCampaigns.$inferInsert;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
@@ -0,0 +1,46 @@
+/**
+ * Ranking Replay Schema
+ *
+ * Records each run of the ranking points replay: how many matches and decay
+ * events were replayed, the diff against stored totals and, when the run
+ * applied its corrections, who applied them.
+ */
+
+import { pgTable, serial, integer, varchar, timestamp, jsonb } from 'drizzle-orm/pg-core';
+
+/**
+ * Stored vs replayed value of one points field
+ */
+export interface RankingReplayFieldDiff {
+  stored: number;
+  replayed: number;
+  delta: number;
+}
+
+/**
+ * Per-user entry of a replay diff report
+ */
+export interface RankingReplayUserDiff {
+  userId: number;
+  username: string;
+  fields: Record<string, RankingReplayFieldDiff>;
+}
+
+export const rankingReplayRuns = pgTable('ranking_replay_runs', {
+  id: serial('id').primaryKey(),
+  mode: varchar('mode', { length: 20 }).notNull().default('preview'), // preview, apply
+  status: varchar('status', { length: 20 }).notNull().default('completed'), // completed, applied
+  matchesReplayed: integer('matches_replayed').notNull().default(0),
+  decayEventsReplayed: integer('decay_events_replayed').notNull().default(0),
+  usersChecked: integer('users_checked').notNull().default(0),
+  usersWithDifferences: integer('users_with_differences').notNull().default(0),
+  rulesetVersions: jsonb('ruleset_versions').$type<number[]>(),
+  fields: jsonb('fields').$type<string[]>(), // Fields compared (and corrected when applied)
+  report: jsonb('report').$type<RankingReplayUserDiff[]>(),
+  initiatedById: integer('initiated_by_id'),
+  appliedAt: timestamp('applied_at'),
+  createdAt: timestamp('created_at').defaultNow()
+});
+
+export type RankingReplayRun = typeof rankingReplayRuns.$inferSelect;
+export type InsertRankingReplayRun = typeof rankingReplayRuns.$inferInsert;
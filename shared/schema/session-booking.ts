@@ -3,7 +3,7 @@
  * Phase 1 Sprint 1.3: Calendar Integration and Session Management
  */
 
-import { pgTable, serial, integer, varchar, text, timestamp, boolean, decimal } from "drizzle-orm/pg-core";
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, decimal, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -17,6 +17,7 @@ export const coachAvailability = pgTable("coach_availability", {
   dayOfWeek: integer("day_of_week").notNull(), // 0=Sunday, 1=Monday, etc.
   startTime: varchar("start_time", { length: 8 }).notNull(), // HH:MM:SS format
   endTime: varchar("end_time", { length: 8 }).notNull(),
+  timezone: varchar("timezone", { length: 50 }), // IANA time zone of the times above, defaults to the coach's
   
   // Availability configuration
   isRecurring: boolean("is_recurring").default(true), // Weekly recurring
@@ -93,7 +94,23 @@ export const bookingSlots = pgTable("booking_slots", {
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  // One slot per availability rule and start time, so regeneration is idempotent
+  availabilityStartUnique: uniqueIndex("booking_slots_availability_start_unique").on(table.availabilityId, table.startTime),
+  coachStartIdx: index("booking_slots_coach_start_idx").on(table.coachId, table.startTime),
+}));
+
+// Coach Time Off - Exceptions to recurring availability (holidays, travel, illness)
+export const coachTimeOff = pgTable("coach_time_off", {
+  id: serial("id").primaryKey(),
+  coachId: integer("coach_id").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: varchar("reason", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  coachIdx: index("coach_time_off_coach_idx").on(table.coachId, table.startsAt),
+}));
 
 // Bookings - Individual student bookings for sessions
 export const bookings = pgTable("bookings", {
@@ -304,6 +321,11 @@ export const insertBookingSlotSchema = createInsertSchema(bookingSlots).omit({
   updatedAt: true,
 });
 
+export const insertCoachTimeOffSchema = createInsertSchema(coachTimeOff).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
   createdAt: true,
@@ -329,6 +351,9 @@ export type InsertCoachAvailability = z.infer<typeof insertCoachAvailabilitySche
 export type BookingSlot = typeof bookingSlots.$inferSelect;
 export type InsertBookingSlot = z.infer<typeof insertBookingSlotSchema>;
 
+export type CoachTimeOff = typeof coachTimeOff.$inferSelect;
+export type InsertCoachTimeOff = z.infer<typeof insertCoachTimeOffSchema>;
+
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 
@@ -0,0 +1,53 @@
+/**
+ * Skill Ratings Schema
+ *
+ * Glicko-2 performance ratings per player and format, with the rating
+ * deviation (uncertainty) and volatility, and a per-match history of every
+ * change. Used for matchmaking and seeding; ranking points are separate.
+ */
+
+import { pgTable, serial, integer, varchar, timestamp, decimal, uniqueIndex, index } from 'drizzle-orm/pg-core';
+
+export const SKILL_RATING_FORMATS = ['singles', 'doubles'] as const;
+export type SkillRatingFormat = typeof SKILL_RATING_FORMATS[number];
+
+export const playerSkillRatings = pgTable('player_skill_ratings', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  format: varchar('format', { length: 20 }).notNull(), // singles, doubles
+  rating: decimal('rating', { precision: 8, scale: 2 }).notNull().default('1500'),
+  deviation: decimal('deviation', { precision: 8, scale: 2 }).notNull().default('350'),
+  volatility: decimal('volatility', { precision: 10, scale: 8 }).notNull().default('0.06'),
+  matchesPlayed: integer('matches_played').notNull().default(0),
+  wins: integer('wins').notNull().default(0),
+  losses: integer('losses').notNull().default(0),
+  lastMatchId: integer('last_match_id'),
+  lastMatchAt: timestamp('last_match_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => ({
+  userFormatUnique: uniqueIndex('player_skill_ratings_user_format_unique').on(table.userId, table.format),
+  formatRatingIdx: index('player_skill_ratings_format_rating_idx').on(table.format, table.rating)
+}));
+
+export const skillRatingHistory = pgTable('skill_rating_history', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  matchId: integer('match_id').notNull(),
+  format: varchar('format', { length: 20 }).notNull(),
+  ratingBefore: decimal('rating_before', { precision: 8, scale: 2 }).notNull(),
+  ratingAfter: decimal('rating_after', { precision: 8, scale: 2 }).notNull(),
+  deviationBefore: decimal('deviation_before', { precision: 8, scale: 2 }).notNull(),
+  deviationAfter: decimal('deviation_after', { precision: 8, scale: 2 }).notNull(),
+  volatilityAfter: decimal('volatility_after', { precision: 10, scale: 8 }).notNull(),
+  expectedScore: decimal('expected_score', { precision: 6, scale: 4 }).notNull(), // Win probability before the match
+  actualScore: decimal('actual_score', { precision: 6, scale: 4 }).notNull(), // Margin-adjusted result
+  playedAt: timestamp('played_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow()
+}, (table) => ({
+  userMatchUnique: uniqueIndex('skill_rating_history_user_match_unique').on(table.userId, table.matchId)
+}));
+
+export type PlayerSkillRating = typeof playerSkillRatings.$inferSelect;
+export type InsertPlayerSkillRating = typeof playerSkillRatings.$inferInsert;
+export type SkillRatingHistoryEntry = typeof skillRatingHistory.$inferSelect;
@@ -11,6 +11,7 @@ import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { users } from "../schema";
 import { tournaments } from "../schema";
+import { matches } from "../schema";
 
 /**
  * Tournament Teams - Represents a doubles team in a tournament
@@ -36,7 +37,7 @@ export const tournamentBrackets = pgTable("tournament_brackets", {
   id: serial("id").primaryKey(),
   tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
   name: varchar("name", { length: 100 }).notNull(),
-  bracketType: varchar("bracket_type", { length: 50 }).notNull().default("single_elimination"), // single_elimination, double_elimination, round_robin
+  bracketType: varchar("bracket_type", { length: 50 }).notNull().default("single_elimination"), // single_elimination, double_elimination, consolation, round_robin, swiss
   teamsCount: integer("teams_count").notNull(),
   roundsCount: integer("rounds_count").notNull(),
   status: varchar("status", { length: 50 }).notNull().default("created"), // created, in_progress, completed
@@ -56,6 +57,7 @@ export const tournamentRounds = pgTable("tournament_rounds", {
   bracketId: integer("bracket_id").notNull().references(() => tournamentBrackets.id),
   roundNumber: integer("round_number").notNull(), // 1-based numbering (1 = first round)
   roundName: varchar("round_name", { length: 100 }), // e.g., "Quarter-finals", "Semi-finals", etc.
+  bracketSide: varchar("bracket_side", { length: 50 }).notNull().default("winners"), // winners, losers, grand_final, grand_final_reset, consolation, pool, swiss
   matchesCount: integer("matches_count").notNull(),
   status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, in_progress, completed
   startDate: timestamp("start_date"),
@@ -64,6 +66,21 @@ export const tournamentRounds = pgTable("tournament_rounds", {
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+/**
+ * Tournament Pools - Represents a round robin pool within a round_robin bracket
+ */
+export const tournamentPools = pgTable("tournament_pools", {
+  id: serial("id").primaryKey(),
+  bracketId: integer("bracket_id").notNull().references(() => tournamentBrackets.id),
+  poolNumber: integer("pool_number").notNull(), // 1-based numbering
+  name: varchar("name", { length: 100 }).notNull(), // e.g., "Pool A"
+  teamIds: json("team_ids").$type<number[]>().notNull(), // Teams in snake-seeded order
+  advanceCount: integer("advance_count").notNull().default(2), // Top K teams advancing to the playoff
+  status: varchar("status", { length: 50 }).notNull().default("active"), // active, completed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
 /**
  * Tournament Bracket Matches - Represents matches within a tournament bracket
  */
@@ -78,13 +95,17 @@ export const tournamentBracketMatches = pgTable("tournament_bracket_matches", {
   loserId: integer("loser_id").references(() => tournamentTeams.id),
   nextMatchId: integer("next_match_id"), // Will be manually referenced in relations
   consolationMatchId: integer("consolation_match_id"), // Will be manually referenced in relations
+  bracketSide: varchar("bracket_side", { length: 50 }).notNull().default("winners"), // winners, losers, grand_final, grand_final_reset, consolation, pool, swiss
+  nextMatchSlot: integer("next_match_slot"), // 1 = team1, 2 = team2 of the next match (winner routing)
+  consolationMatchSlot: integer("consolation_match_slot"), // 1 = team1, 2 = team2 of the consolation match (loser routing)
+  poolId: integer("pool_id").references(() => tournamentPools.id), // Round robin pool matches only
   
   // Match details
   score: varchar("score", { length: 100 }), // Formatted as "21-15, 21-17" for example
   scoreDetails: json("score_details"), // Detailed scoring information
   matchDate: timestamp("match_date"),
   courtNumber: varchar("court_number", { length: 50 }),
-  status: varchar("status", { length: 50 }).notNull().default("scheduled"), // scheduled, in_progress, completed, cancelled
+  status: varchar("status", { length: 50 }).notNull().default("scheduled"), // scheduled, in_progress, completed, bye, cancelled
   
   // Ranking points
   rankingPointsAwarded: boolean("ranking_points_awarded").default(false),
@@ -96,6 +117,63 @@ export const tournamentBracketMatches = pgTable("tournament_bracket_matches", {
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+/**
+ * Tournament Ladders - A persistent challenge ladder attached to a tournament event
+ */
+export const tournamentLadders = pgTable("tournament_ladders", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  name: varchar("name", { length: 100 }).notNull(),
+  maxChallengeRungs: integer("max_challenge_rungs").notNull().default(3), // How many rungs above a player may be challenged
+  responseWindowHours: integer("response_window_hours").notNull().default(48), // Time to accept before the defender forfeits
+  playWindowDays: integer("play_window_days").notNull().default(7), // Time to play an accepted challenge
+  matchType: varchar("match_type", { length: 50 }).notNull().default("league"), // casual, league, tournament
+  status: varchar("status", { length: 50 }).notNull().default("active"), // active, closed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+/**
+ * Ladder Rungs - A player's current position on a ladder (1 = top)
+ */
+export const ladderRungs = pgTable("ladder_rungs", {
+  id: serial("id").primaryKey(),
+  ladderId: integer("ladder_id").notNull().references(() => tournamentLadders.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  position: integer("position").notNull(),
+  wins: integer("wins").notNull().default(0),
+  losses: integer("losses").notNull().default(0),
+  lastMatchAt: timestamp("last_match_at"),
+  joinedAt: timestamp("joined_at").defaultNow(),
+  status: varchar("status", { length: 50 }).notNull().default("active"), // active, withdrawn
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+/**
+ * Ladder Challenges - A challenge from a lower rung to a higher rung
+ */
+export const ladderChallenges = pgTable("ladder_challenges", {
+  id: serial("id").primaryKey(),
+  ladderId: integer("ladder_id").notNull().references(() => tournamentLadders.id),
+  challengerId: integer("challenger_id").notNull().references(() => users.id),
+  defenderId: integer("defender_id").notNull().references(() => users.id),
+  challengerPosition: integer("challenger_position").notNull(), // Positions when the challenge was issued
+  defenderPosition: integer("defender_position").notNull(),
+  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, accepted, reported, completed, forfeited, expired, cancelled
+  respondBy: timestamp("respond_by").notNull(), // Deadline for the defender to respond, then for a reported result to be confirmed
+  playBy: timestamp("play_by"),
+  acceptedAt: timestamp("accepted_at"),
+  completedAt: timestamp("completed_at"),
+  winnerId: integer("winner_id").references(() => users.id),
+  score: varchar("score", { length: 100 }),
+  reportedById: integer("reported_by_id").references(() => users.id), // Player who reported the result; the other confirms it
+  reportedAt: timestamp("reported_at"),
+  matchId: integer("match_id").references(() => matches.id), // Match record used for ranking points
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
 // Relations for tournamentTeams
 export const tournamentTeamsRelations = relations(tournamentTeams, ({ one }) => ({
   tournament: one(tournaments, {
@@ -119,6 +197,16 @@ export const tournamentBracketsRelations = relations(tournamentBrackets, ({ one,
     references: [tournaments.id]
   }),
   rounds: many(tournamentRounds),
+  pools: many(tournamentPools),
+  matches: many(tournamentBracketMatches)
+}));
+
+// Relations for tournamentPools
+export const tournamentPoolsRelations = relations(tournamentPools, ({ one, many }) => ({
+  bracket: one(tournamentBrackets, {
+    fields: [tournamentPools.bracketId],
+    references: [tournamentBrackets.id]
+  }),
   matches: many(tournamentBracketMatches)
 }));
 
@@ -142,6 +230,10 @@ export const tournamentBracketMatchesRelations = relations(tournamentBracketMatc
       fields: [tournamentBracketMatches.roundId],
       references: [tournamentRounds.id]
     }),
+    pool: one(tournamentPools, {
+      fields: [tournamentBracketMatches.poolId],
+      references: [tournamentPools.id]
+    }),
     team1: one(tournamentTeams, {
       fields: [tournamentBracketMatches.team1Id],
       references: [tournamentTeams.id]
@@ -169,6 +261,48 @@ export const tournamentBracketMatchesRelations = relations(tournamentBracketMatc
   };
 });
 
+// Relations for tournamentLadders
+export const tournamentLaddersRelations = relations(tournamentLadders, ({ one, many }) => ({
+  tournament: one(tournaments, {
+    fields: [tournamentLadders.tournamentId],
+    references: [tournaments.id]
+  }),
+  rungs: many(ladderRungs),
+  challenges: many(ladderChallenges)
+}));
+
+// Relations for ladderRungs
+export const ladderRungsRelations = relations(ladderRungs, ({ one }) => ({
+  ladder: one(tournamentLadders, {
+    fields: [ladderRungs.ladderId],
+    references: [tournamentLadders.id]
+  }),
+  user: one(users, {
+    fields: [ladderRungs.userId],
+    references: [users.id]
+  })
+}));
+
+// Relations for ladderChallenges
+export const ladderChallengesRelations = relations(ladderChallenges, ({ one }) => ({
+  ladder: one(tournamentLadders, {
+    fields: [ladderChallenges.ladderId],
+    references: [tournamentLadders.id]
+  }),
+  challenger: one(users, {
+    fields: [ladderChallenges.challengerId],
+    references: [users.id]
+  }),
+  defender: one(users, {
+    fields: [ladderChallenges.defenderId],
+    references: [users.id]
+  }),
+  match: one(matches, {
+    fields: [ladderChallenges.matchId],
+    references: [matches.id]
+  })
+}));
+
 // Create insert schemas for validation
 export const insertTournamentTeamSchema = createInsertSchema(tournamentTeams)
   .omit({ id: true, createdAt: true, updatedAt: true, registrationDate: true });
@@ -179,6 +313,15 @@ export const insertTournamentBracketSchema = createInsertSchema(tournamentBracke
 export const insertTournamentRoundSchema = createInsertSchema(tournamentRounds)
   .omit({ id: true, createdAt: true, updatedAt: true });
 
+export const insertTournamentPoolSchema = createInsertSchema(tournamentPools)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertTournamentLadderSchema = createInsertSchema(tournamentLadders)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertLadderChallengeSchema = createInsertSchema(ladderChallenges)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
 export const insertTournamentBracketMatchSchema = createInsertSchema(tournamentBracketMatches)
   .omit({ id: true, createdAt: true, updatedAt: true });
 
@@ -192,5 +335,16 @@ export type InsertTournamentBracket = z.infer<typeof insertTournamentBracketSche
 export type TournamentRound = typeof tournamentRounds.$inferSelect;
 export type InsertTournamentRound = z.infer<typeof insertTournamentRoundSchema>;
 
+export type TournamentPool = typeof tournamentPools.$inferSelect;
+export type InsertTournamentPool = z.infer<typeof insertTournamentPoolSchema>;
+
 export type TournamentBracketMatch = typeof tournamentBracketMatches.$inferSelect;
-export type InsertTournamentBracketMatch = z.infer<typeof insertTournamentBracketMatchSchema>;
\ No newline at end of file
+export type InsertTournamentBracketMatch = z.infer<typeof insertTournamentBracketMatchSchema>;
+
+export type TournamentLadder = typeof tournamentLadders.$inferSelect;
+export type InsertTournamentLadder = z.infer<typeof insertTournamentLadderSchema>;
+
+export type LadderRung = typeof ladderRungs.$inferSelect;
+
+export type LadderChallenge = typeof ladderChallenges.$inferSelect;
+export type InsertLadderChallenge = z.infer<typeof insertLadderChallengeSchema>;
\ No newline at end of file
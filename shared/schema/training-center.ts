@@ -245,7 +245,7 @@ export const classWaitlist = pgTable("class_waitlist", {
   joinedAt: timestamp("joined_at").defaultNow(),
   notifiedAt: timestamp("notified_at"), // When spot became available
   expiresAt: timestamp("expires_at"), // When notification expires
-  status: varchar("status", { length: 20 }).default("waiting"), // waiting, notified, expired, enrolled, cancelled
+  status: varchar("status", { length: 20 }).default("waiting"), // waiting, notified, expired, declined, enrolled, cancelled
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow()
 });
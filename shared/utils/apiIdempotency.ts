@@ -0,0 +1,78 @@
+/**
+ * API Idempotency Keys
+ * Lets a partner retry a write safely: the first request sent with an
+ * Idempotency-Key header is processed and its response stored, and a retry
+ * with the same key gets the stored response back instead of repeating the
+ * write. A key is only valid for the request it was first sent with; the
+ * request is identified by a hash of its method, path and body, with the
+ * body's object keys in sorted order so formatting does not matter.
+ */
+
+import crypto from 'crypto';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// A request still processing after this long is treated as abandoned
+export const IDEMPOTENCY_LOCK_SECONDS = 60;
+
+export interface StoredIdempotencyKey {
+  requestHash: string;
+  status: 'processing' | 'completed';
+  lockedUntil: Date;
+  expiresAt: Date;
+}
+
+/**
+ * What to do with a request whose key is already stored:
+ * - replay: return the stored response
+ * - mismatch: the key was used for a different request
+ * - in_progress: the first request is still being processed
+ * - restart: the stored key expired or was abandoned; process the request afresh
+ */
+export type IdempotencyOutcome = 'replay' | 'mismatch' | 'in_progress' | 'restart';
+
+// Printable ASCII without spaces, e.g. a UUID
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= IDEMPOTENCY_KEY_MAX_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+// JSON with object keys sorted at every level
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function idempotencyRequestHash(method: string, path: string, body: unknown): string {
+  return crypto.createHash('sha256')
+    .update(`${method.toUpperCase()} ${path}\n${canonicalJson(body ?? null)}`)
+    .digest('hex');
+}
+
+export function idempotencyOutcome(stored: StoredIdempotencyKey, requestHash: string, now: Date): IdempotencyOutcome {
+  if (stored.expiresAt <= now) {
+    return 'restart';
+  }
+  if (stored.requestHash !== requestHash) {
+    return 'mismatch';
+  }
+  if (stored.status === 'completed') {
+    return 'replay';
+  }
+  return stored.lockedUntil <= now ? 'restart' : 'in_progress';
+}
+
+// Only settled outcomes are stored; a server error leaves the request free to retry
+export function isStorableResponse(statusCode: number): boolean {
+  return statusCode < 500;
+}
@@ -0,0 +1,147 @@
+/**
+ * Cancellation Policy Engine
+ * Works out what a student is refunded or charged when a booking is
+ * cancelled or missed, and how the coach's share of the revenue changes.
+ *
+ * All amounts are in cents. The chargeable amount is what the student owes
+ * for the booking after cancellation: anything they paid above it is
+ * refunded, anything below it is a fee.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Refund windows and fees of a coach or facility policy
+ */
+export interface CancellationPolicyTerms {
+  fullRefundHours: number; // Cancelling at least this long before the start refunds everything
+  partialRefundHours: number; // Between this and fullRefundHours, partialRefundPercent is refunded
+  partialRefundPercent: number;
+  lateCancelFeePercent: number; // Share of the price owed when cancelling inside partialRefundHours
+  noShowFeePercent: number; // Share of the price owed when the student does not turn up
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyTerms = {
+  fullRefundHours: 24,
+  partialRefundHours: 6,
+  partialRefundPercent: 50,
+  lateCancelFeePercent: 100,
+  noShowFeePercent: 100
+};
+
+export const CANCELLATION_TIERS = ['provider_cancelled', 'full_refund', 'partial_refund', 'late_cancel', 'no_show'] as const;
+export type CancellationTier = typeof CANCELLATION_TIERS[number];
+
+export type CancellationInitiator = 'student' | 'coach' | 'facility' | 'admin';
+
+export interface CancellationRequest {
+  priceCents: number; // Full price of the booking
+  paidCents: number; // What the student has already paid
+  startsAt: Date;
+  at: Date; // When the cancellation happens
+  initiatedBy: CancellationInitiator;
+  noShow?: boolean; // Recorded by the coach or facility after the start
+}
+
+export interface CancellationOutcome {
+  tier: CancellationTier;
+  hoursBeforeStart: number; // Negative once the session has started
+  chargeableCents: number;
+  refundCents: number; // Owed back to the student
+  feeCents: number; // Still owed by the student
+}
+
+/**
+ * Checks that policy windows and percentages make sense
+ */
+export function validateCancellationPolicy(terms: CancellationPolicyTerms): string[] {
+  const errors: string[] = [];
+
+  if (terms.fullRefundHours < 0 || terms.partialRefundHours < 0) {
+    errors.push('Refund windows cannot be negative');
+  }
+  if (terms.partialRefundHours > terms.fullRefundHours) {
+    errors.push('The partial refund window must not be longer than the full refund window');
+  }
+  for (const [field, value] of Object.entries({
+    partialRefundPercent: terms.partialRefundPercent,
+    lateCancelFeePercent: terms.lateCancelFeePercent,
+    noShowFeePercent: terms.noShowFeePercent
+  })) {
+    if (value < 0 || value > 100) {
+      errors.push(`${field} must be between 0 and 100`);
+    }
+  }
+
+  return errors;
+}
+
+function percentOf(cents: number, percent: number): number {
+  return Math.round(cents * percent / 100);
+}
+
+/**
+ * Applies a policy to one cancellation. A no-show is charged whatever the
+ * timing; a coach, facility or admin cancelling always refunds in full.
+ */
+export function evaluateCancellation(terms: CancellationPolicyTerms, request: CancellationRequest): CancellationOutcome {
+  const hoursBeforeStart = Math.round((request.startsAt.getTime() - request.at.getTime()) / HOUR_MS * 100) / 100;
+
+  let tier: CancellationTier;
+  let chargeableCents: number;
+
+  if (request.noShow) {
+    tier = 'no_show';
+    chargeableCents = percentOf(request.priceCents, terms.noShowFeePercent);
+  } else if (request.initiatedBy !== 'student') {
+    tier = 'provider_cancelled';
+    chargeableCents = 0;
+  } else if (hoursBeforeStart >= terms.fullRefundHours) {
+    tier = 'full_refund';
+    chargeableCents = 0;
+  } else if (hoursBeforeStart >= terms.partialRefundHours) {
+    tier = 'partial_refund';
+    chargeableCents = request.priceCents - percentOf(request.priceCents, terms.partialRefundPercent);
+  } else {
+    tier = 'late_cancel';
+    chargeableCents = percentOf(request.priceCents, terms.lateCancelFeePercent);
+  }
+
+  return {
+    tier,
+    hoursBeforeStart,
+    chargeableCents,
+    refundCents: Math.max(0, request.paidCents - chargeableCents),
+    feeCents: Math.max(0, chargeableCents - request.paidCents)
+  };
+}
+
+/**
+ * Session revenue split for the amount the student is left paying, at the
+ * commission rate the session was originally recorded with
+ *
+ * @param commissionRate - Platform commission as a percentage
+ */
+export function splitSessionRevenue(grossCents: number, commissionRate: number): {
+  grossCents: number,
+  platformFeeCents: number,
+  coachEarningsCents: number
+} {
+  const platformFeeCents = percentOf(grossCents, commissionRate);
+  return { grossCents, platformFeeCents, coachEarningsCents: grossCents - platformFeeCents };
+}
+
+/**
+ * Whole cents of a decimal money amount such as "95.00"
+ */
+export function toCents(amount: string | number | null | undefined): number {
+  const value = Number(amount ?? 0);
+  return Number.isFinite(value) ? Math.round(value * 100) : 0;
+}
+
+/**
+ * Decimal money amount of whole cents, as stored in decimal columns
+ */
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
@@ -0,0 +1,127 @@
+/**
+ * Class Waitlist Engine
+ * Decides who on a class waitlist is offered a freed spot, how long they
+ * have to claim it, and whether their skill level fits the class.
+ *
+ * Offers go out in waitlist order. A player whose level does not fit the
+ * class is passed over but keeps their position for later spots.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+export const SKILL_TIERS = ['beginner', 'intermediate', 'advanced'] as const;
+export type SkillTier = typeof SKILL_TIERS[number];
+
+export interface ClaimWindowOptions {
+  claimMinutes: number; // How long a player normally has to accept an offer
+  cutoffMinutes: number; // Offers always close this long before the class starts
+  minimumClaimMinutes: number; // Shorter windows than this are not offered at all
+}
+
+export const DEFAULT_CLAIM_WINDOW: ClaimWindowOptions = {
+  claimMinutes: 120,
+  cutoffMinutes: 60,
+  minimumClaimMinutes: 15
+};
+
+// Rating boundaries between tiers on the 2.0-6.0 scale used by DUPR and
+// self-reported levels
+const INTERMEDIATE_FROM_RATING = 3.0;
+const ADVANCED_FROM_RATING = 4.0;
+
+function tierFromText(value: string): SkillTier | null {
+  const text = value.toLowerCase();
+  if (/\b(advanced|pro|expert|elite)\b/.test(text)) return 'advanced';
+  if (/\bintermediate\b/.test(text)) return 'intermediate';
+  if (/\b(beginner|novice)\b/.test(text)) return 'beginner';
+  return null;
+}
+
+function tierFromRating(value: string): SkillTier | null {
+  const rating = parseFloat(value);
+  if (!Number.isFinite(rating) || rating <= 0) return null;
+  if (rating >= ADVANCED_FROM_RATING) return 'advanced';
+  if (rating >= INTERMEDIATE_FROM_RATING) return 'intermediate';
+  return 'beginner';
+}
+
+/**
+ * A class template's level, or null when the class is open to every level
+ */
+export function classSkillTier(skillLevel: string | null | undefined): SkillTier | null {
+  return skillLevel ? tierFromText(skillLevel) : null;
+}
+
+/**
+ * A player's tier from their DUPR rating, falling back to their own stated
+ * level ("3.5", "3.5 Intermediate+", "beginner")
+ */
+export function playerSkillTier(player: { skillLevel?: string | null, duprRating?: string | null }): SkillTier | null {
+  if (player.duprRating) {
+    const tier = tierFromRating(player.duprRating);
+    if (tier) return tier;
+  }
+  if (player.skillLevel) {
+    return tierFromRating(player.skillLevel) ?? tierFromText(player.skillLevel);
+  }
+  return null;
+}
+
+/**
+ * Players may join a class at their own tier or one either side of it.
+ * Players with no known level may only join beginner or open classes.
+ */
+export function isEligibleForClass(classTier: SkillTier | null, playerTier: SkillTier | null): boolean {
+  if (!classTier) return true;
+  if (!playerTier) return classTier === 'beginner';
+  return Math.abs(SKILL_TIERS.indexOf(classTier) - SKILL_TIERS.indexOf(playerTier)) <= 1;
+}
+
+/**
+ * When an offer made now expires, or null when the class starts too soon
+ * for a worthwhile claim window
+ */
+export function claimWindowExpiry(
+  now: Date,
+  classStartsAt: Date,
+  options: ClaimWindowOptions = DEFAULT_CLAIM_WINDOW
+): Date | null {
+  const latest = classStartsAt.getTime() - options.cutoffMinutes * MINUTE_MS;
+  const expiresAt = Math.min(now.getTime() + options.claimMinutes * MINUTE_MS, latest);
+
+  if (expiresAt - now.getTime() < options.minimumClaimMinutes * MINUTE_MS) {
+    return null;
+  }
+  return new Date(expiresAt);
+}
+
+export interface WaitlistCandidate {
+  entryId: number;
+  position: number;
+  eligible: boolean;
+}
+
+export interface WaitlistOfferPlan {
+  offer: number[]; // Entry ids to offer a spot, in waitlist order
+  skipped: number[]; // Ineligible entries passed over on the way
+}
+
+/**
+ * Picks who to offer the open spots to. Spots already held by a pending
+ * offer must not be counted as open.
+ */
+export function planWaitlistOffers(candidates: WaitlistCandidate[], openSpots: number): WaitlistOfferPlan {
+  const plan: WaitlistOfferPlan = { offer: [], skipped: [] };
+  const ordered = [...candidates].sort((a, b) => a.position - b.position || a.entryId - b.entryId);
+
+  for (const candidate of ordered) {
+    if (plan.offer.length >= openSpots) break;
+    if (candidate.eligible) {
+      plan.offer.push(candidate.entryId);
+    } else {
+      plan.skipped.push(candidate.entryId);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,250 @@
+/**
+ * Decay Policy Engine
+ * Applies a decay policy (player tiers, match weighting, activity levels and
+ * holiday calendar) to a single player's ranking points and recent matches.
+ *
+ * Policies are stored in the decay_policies table per region and/or age
+ * division. DEFAULT_DECAY_POLICY mirrors the original tier-based decay and is
+ * used for any player without a more specific policy.
+ */
+
+import { z } from 'zod';
+
+export const DECAY_TIER_NAMES = ['recreational', 'competitive', 'elite', 'professional'] as const;
+
+// MM-DD recurs every year, YYYY-MM-DD applies to that year only (Lunar New Year, Easter ...)
+const holidayDatePattern = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+export const playerTierSchema = z.object({
+  name: z.enum(DECAY_TIER_NAMES),
+  pointsMin: z.number().min(0),
+  pointsMax: z.number().min(0).nullable(),
+  baseDecayRate: z.number().min(0).max(100), // Weekly decay percentage
+  holidayDecayRate: z.number().min(0).max(100) // Reduced rate during holidays
+});
+
+export const matchWeightingSchema = z.object({
+  tournament: z.number().min(0),
+  league: z.number().min(0),
+  casual: z.number().min(0)
+});
+
+export const activityLevelSchema = z.object({
+  weightedMatches: z.number().min(0),
+  decayRate: z.number().min(0).max(1), // As a fraction of the tier rate
+  description: z.string().min(1)
+});
+
+export const decayHolidaySchema = z.object({
+  name: z.string().min(1),
+  start: z.string().regex(holidayDatePattern),
+  end: z.string().regex(holidayDatePattern)
+}).refine(holiday => holiday.start.length === holiday.end.length, {
+  message: 'start and end must both be MM-DD or both be YYYY-MM-DD'
+});
+
+export const decayPolicyDefinitionSchema = z.object({
+  tiers: z.array(playerTierSchema).min(1),
+  // Keyed by tier name, "standard" applies to tiers without their own weighting
+  matchWeighting: z.record(matchWeightingSchema).refine(weighting => !!weighting.standard, {
+    message: 'A "standard" match weighting is required'
+  }),
+  activityLevels: z.array(activityLevelSchema).min(1),
+  activityWindowDays: z.number().int().min(1).max(365),
+  holidays: z.array(decayHolidaySchema)
+});
+
+export type PlayerTier = z.infer<typeof playerTierSchema>;
+export type MatchWeighting = z.infer<typeof matchWeightingSchema>;
+export type ActivityLevel = z.infer<typeof activityLevelSchema>;
+export type DecayHoliday = z.infer<typeof decayHolidaySchema>;
+export type DecayPolicyDefinition = z.infer<typeof decayPolicyDefinitionSchema>;
+
+export interface DecayPolicy {
+  id: number;
+  name: string;
+  region: string | null;
+  division: string | null;
+  rules: DecayPolicyDefinition;
+}
+
+/**
+ * Original tier-based decay rules
+ */
+export const DEFAULT_DECAY_RULES: DecayPolicyDefinition = {
+  tiers: [
+    { name: 'recreational', pointsMin: 0, pointsMax: 300, baseDecayRate: 1.0, holidayDecayRate: 0.0 },
+    { name: 'competitive', pointsMin: 300, pointsMax: 1000, baseDecayRate: 2.0, holidayDecayRate: 0.0 },
+    { name: 'elite', pointsMin: 1000, pointsMax: 1800, baseDecayRate: 5.0, holidayDecayRate: 2.5 },
+    { name: 'professional', pointsMin: 1800, pointsMax: null, baseDecayRate: 7.0, holidayDecayRate: 3.5 }
+  ],
+  matchWeighting: {
+    standard: { tournament: 2.0, league: 1.5, casual: 1.0 },
+    professional: { tournament: 3.0, league: 2.0, casual: 0.75 }
+  },
+  activityLevels: [
+    { weightedMatches: 4, decayRate: 0.0, description: 'High Activity' },
+    { weightedMatches: 2, decayRate: 0.5, description: 'Moderate Activity' },
+    { weightedMatches: 1, decayRate: 0.75, description: 'Low Activity' },
+    { weightedMatches: 0, decayRate: 1.0, description: 'Inactive' }
+  ],
+  activityWindowDays: 30,
+  holidays: [
+    { name: 'Christmas/New Year', start: '12-20', end: '01-05' },
+    { name: 'Easter (approximate)', start: '03-25', end: '04-05' }
+  ]
+};
+
+/**
+ * Built-in policy used when no stored policy applies (id 0)
+ */
+export const DEFAULT_DECAY_POLICY: DecayPolicy = {
+  id: 0,
+  name: 'Global (built-in)',
+  region: null,
+  division: null,
+  rules: DEFAULT_DECAY_RULES
+};
+
+export interface WeightedActivityBreakdown {
+  tournament: { count: number; weighted: number };
+  league: { count: number; weighted: number };
+  casual: { count: number; weighted: number };
+}
+
+export interface DecayCalculation {
+  tier: PlayerTier;
+  weightedMatches: number;
+  breakdown: WeightedActivityBreakdown;
+  activityLevel: ActivityLevel;
+  isHolidayPeriod: boolean;
+  baseRate: number;
+  effectiveDecayRate: number;
+  pointsToDecay: number;
+  // Further weighted matches needed for full protection (null when no level gives it)
+  weightedMatchesToProtect: number | null;
+}
+
+/**
+ * Validate a policy definition
+ *
+ * @returns List of validation errors (empty when valid)
+ */
+export function validateDecayRules(rules: unknown): string[] {
+  const result = decayPolicyDefinitionSchema.safeParse(rules);
+  if (result.success) return [];
+  return result.error.errors.map(error => `${error.path.join('.') || 'rules'}: ${error.message}`);
+}
+
+/**
+ * Tier a player falls in for the given ranking points
+ */
+export function getDecayTier(rules: DecayPolicyDefinition, rankingPoints: number): PlayerTier {
+  // Highest tier first so boundary points belong to the upper tier
+  const tiers = [...rules.tiers].sort((a, b) => b.pointsMin - a.pointsMin);
+
+  return tiers.find(tier =>
+    rankingPoints >= tier.pointsMin && (tier.pointsMax === null || rankingPoints <= tier.pointsMax)
+  ) || tiers[tiers.length - 1];
+}
+
+/**
+ * Match weighting for a tier, falling back to the standard weighting
+ */
+export function getTierMatchWeighting(rules: DecayPolicyDefinition, tier: PlayerTier): MatchWeighting {
+  return rules.matchWeighting[tier.name] || rules.matchWeighting.standard;
+}
+
+/**
+ * Activity level reached with the given weighted match count
+ */
+export function getActivityLevel(rules: DecayPolicyDefinition, weightedMatches: number): ActivityLevel {
+  const levels = [...rules.activityLevels].sort((a, b) => b.weightedMatches - a.weightedMatches);
+  return levels.find(level => weightedMatches >= level.weightedMatches) || levels[levels.length - 1];
+}
+
+/**
+ * True when the date falls inside one of the policy's holidays
+ */
+export function isHolidayPeriod(holidays: DecayHoliday[], at: Date): boolean {
+  const monthDay = `${(at.getMonth() + 1).toString().padStart(2, '0')}-${at.getDate().toString().padStart(2, '0')}`;
+  const fullDate = `${at.getFullYear()}-${monthDay}`;
+
+  return holidays.some(holiday => {
+    // Dated holidays compare the full date and never wrap
+    if (holiday.start.length > 5) {
+      return fullDate >= holiday.start && fullDate <= holiday.end;
+    }
+
+    // Handle year-spanning holidays (like Christmas/New Year)
+    if (holiday.start > holiday.end) {
+      return monthDay >= holiday.start || monthDay <= holiday.end;
+    }
+
+    return monthDay >= holiday.start && monthDay <= holiday.end;
+  });
+}
+
+/**
+ * Weighted match count for a tier from the types of matches played
+ */
+export function calculateWeightedMatches(
+  weighting: MatchWeighting,
+  matchTypes: Array<string | null>
+): { weightedMatches: number; breakdown: WeightedActivityBreakdown } {
+  const breakdown: WeightedActivityBreakdown = {
+    tournament: { count: 0, weighted: 0 },
+    league: { count: 0, weighted: 0 },
+    casual: { count: 0, weighted: 0 }
+  };
+
+  for (const matchType of matchTypes) {
+    if (matchType && matchType in breakdown) {
+      const key = matchType as keyof WeightedActivityBreakdown;
+      breakdown[key].count++;
+      breakdown[key].weighted += weighting[key];
+    }
+  }
+
+  return {
+    weightedMatches: breakdown.tournament.weighted + breakdown.league.weighted + breakdown.casual.weighted,
+    breakdown
+  };
+}
+
+/**
+ * Work out how much a player would decay on the given date
+ *
+ * @param player.matchTypes - Types of the matches played inside the policy's activity window
+ */
+export function calculateDecay(
+  rules: DecayPolicyDefinition,
+  player: { rankingPoints: number; matchTypes: Array<string | null> },
+  at: Date
+): DecayCalculation {
+  const tier = getDecayTier(rules, player.rankingPoints);
+  const { weightedMatches, breakdown } = calculateWeightedMatches(getTierMatchWeighting(rules, tier), player.matchTypes);
+  const activityLevel = getActivityLevel(rules, weightedMatches);
+  const holiday = isHolidayPeriod(rules.holidays, at);
+
+  const baseRate = holiday ? tier.holidayDecayRate : tier.baseDecayRate;
+  const effectiveDecayRate = baseRate * activityLevel.decayRate;
+  const pointsToDecay = Math.floor(player.rankingPoints * (effectiveDecayRate / 100));
+
+  const protectingLevels = rules.activityLevels.filter(level => level.decayRate === 0);
+  const weightedMatchesToProtect = protectingLevels.length > 0
+    ? Math.max(0, Math.min(...protectingLevels.map(level => level.weightedMatches)) - weightedMatches)
+    : null;
+
+  return {
+    tier,
+    weightedMatches,
+    breakdown,
+    activityLevel,
+    isHolidayPeriod: holiday,
+    baseRate,
+    effectiveDecayRate,
+    pointsToDecay,
+    weightedMatchesToProtect
+  };
+}
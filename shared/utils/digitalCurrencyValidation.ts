@@ -75,7 +75,10 @@ export enum CreditTransactionType {
   TRANSFER_OUT = 'transfer_out',
   GIFT_CARD_PURCHASE = 'gift_card_purchase',
   BONUS_CREDIT = 'bonus_credit',
-  PICKLE_POINTS_MATCH_REWARD = 'pickle_points_match_reward'
+  PICKLE_POINTS_MATCH_REWARD = 'pickle_points_match_reward',
+  BOOKING_REFUND = 'booking_refund',
+  CANCELLATION_FEE = 'cancellation_fee',
+  CLASS_ENROLLMENT = 'class_enrollment'
 }
 
 export interface GiftCardValidation {
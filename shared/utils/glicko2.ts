@@ -0,0 +1,233 @@
+/**
+ * Glicko-2 Skill Rating
+ * Performance rating with a per-player rating deviation (uncertainty) and
+ * volatility, updated from match outcomes and score margins.
+ * Reference: Glickman, "Example of the Glicko-2 system" (2013)
+ *
+ * Each match is treated as its own rating period; deviation grows again for
+ * every full rating period a player sits out. Doubles teams are rated as a
+ * composite of both partners. Ranking points are unaffected.
+ */
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+/**
+ * One game against an opponent (or opposing team composite)
+ */
+export interface Glicko2Result {
+  opponentRating: number;
+  opponentDeviation: number;
+  score: number; // 1 win, 0 loss, in between for margin-adjusted results
+}
+
+export const GLICKO2_DEFAULTS: Glicko2Rating = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06
+};
+
+export const GLICKO2_SETTINGS = {
+  tau: 0.5, // Constrains volatility change
+  scale: 173.7178, // Glicko-2 scale factor
+  minDeviation: 30,
+  maxDeviation: 350,
+  ratingPeriodDays: 7, // Idle time after which deviation grows
+  provisionalDeviation: 110, // Players above this deviation are provisional
+  provisionalMatches: 5, // ... as are players with fewer rated matches
+  marginWeight: 0.25, // Share of the result decided by the score margin (0 = win/loss only)
+  convergence: 0.000001
+};
+
+/**
+ * Glicko-2 g() weighting of an opponent's deviation (on the Glicko-2 scale)
+ */
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+/**
+ * Expected score of mu against an opponent
+ */
+function expected(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+function clampDeviation(deviation: number): number {
+  return Math.min(GLICKO2_SETTINGS.maxDeviation, Math.max(GLICKO2_SETTINGS.minDeviation, deviation));
+}
+
+/**
+ * New volatility via the Illinois algorithm (step 5 of the reference)
+ */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const { tau, convergence } = GLICKO2_SETTINGS;
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > convergence) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Grow a player's deviation for rating periods without matches
+ */
+export function inflateDeviation(player: Glicko2Rating, idlePeriods: number): Glicko2Rating {
+  if (idlePeriods <= 0) return player;
+
+  const { scale } = GLICKO2_SETTINGS;
+  const phi = player.deviation / scale;
+  const inflated = Math.sqrt(phi * phi + idlePeriods * player.volatility * player.volatility) * scale;
+
+  return { ...player, deviation: clampDeviation(inflated) };
+}
+
+/**
+ * Rate a player over one rating period
+ */
+export function updateRating(player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating {
+  const { scale } = GLICKO2_SETTINGS;
+  const mu = (player.rating - 1500) / scale;
+  const phi = player.deviation / scale;
+
+  // No games: only the deviation grows
+  if (results.length === 0) {
+    return inflateDeviation(player, 1);
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const result of results) {
+    const opponentMu = (result.opponentRating - 1500) / scale;
+    const opponentPhi = result.opponentDeviation / scale;
+    const E = expected(mu, opponentMu, opponentPhi);
+    vInverse += g(opponentPhi) * g(opponentPhi) * E * (1 - E);
+    improvement += g(opponentPhi) * (result.score - E);
+  }
+
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+  const volatility = updateVolatility(phi, player.volatility, delta, v);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * scale + 1500,
+    deviation: clampDeviation(newPhi * scale),
+    volatility
+  };
+}
+
+/**
+ * Composite of a doubles team: mean rating, root-mean-square deviation
+ */
+export function teamComposite(players: Glicko2Rating[]): Glicko2Rating {
+  const count = players.length;
+  return {
+    rating: players.reduce((sum, player) => sum + player.rating, 0) / count,
+    deviation: Math.sqrt(players.reduce((sum, player) => sum + player.deviation * player.deviation, 0) / count),
+    volatility: players.reduce((sum, player) => sum + player.volatility, 0) / count
+  };
+}
+
+/**
+ * Probability that side A beats side B, accounting for both deviations
+ */
+export function winProbability(a: Glicko2Rating, b: Glicko2Rating): number {
+  const { scale } = GLICKO2_SETTINGS;
+  const combinedPhi = Math.sqrt(a.deviation * a.deviation + b.deviation * b.deviation) / scale;
+  return 1 / (1 + Math.exp(-g(combinedPhi) * ((a.rating - b.rating) / scale)));
+}
+
+/**
+ * Winner's result score from the points each side scored.
+ * A shutout counts as a full win; a narrow win counts slightly less.
+ * Without a usable score the winner gets the midpoint.
+ */
+export function marginAdjustedScore(winnerPoints: number | null, loserPoints: number | null): number {
+  const { marginWeight } = GLICKO2_SETTINGS;
+
+  if (winnerPoints === null || loserPoints === null || winnerPoints <= 0 || winnerPoints < loserPoints) {
+    return 1 - marginWeight / 2;
+  }
+
+  const margin = (winnerPoints - loserPoints) / winnerPoints;
+  return 1 - marginWeight * (1 - margin);
+}
+
+/**
+ * New players and players with an uncertain rating are provisional
+ */
+export function isProvisional(rating: Pick<Glicko2Rating, 'deviation'>, matchesPlayed: number): boolean {
+  return rating.deviation > GLICKO2_SETTINGS.provisionalDeviation || matchesPlayed < GLICKO2_SETTINGS.provisionalMatches;
+}
+
+/**
+ * Rating we are ~95% confident the player is at least as good as,
+ * used for seeding so uncertain ratings do not take top seeds
+ */
+export function conservativeRating(rating: Pick<Glicko2Rating, 'rating' | 'deviation'>): number {
+  return rating.rating - 2 * rating.deviation;
+}
+
+/**
+ * Rate every player in a match. Each player is rated against the opposing
+ * team's composite with their team's margin-adjusted score.
+ *
+ * @param team1 - Ratings of side one (one player for singles, two for doubles)
+ * @param team2 - Ratings of side two
+ * @param team1Score - Side one's result score (see marginAdjustedScore)
+ */
+export function rateMatch<T extends Glicko2Rating>(
+  team1: T[],
+  team2: T[],
+  team1Score: number
+): { team1: Glicko2Rating[]; team2: Glicko2Rating[]; team1Expected: number } {
+  const composite1 = teamComposite(team1);
+  const composite2 = teamComposite(team2);
+
+  const rateSide = (side: T[], opponents: Glicko2Rating, score: number) =>
+    side.map(player => updateRating(player, [{
+      opponentRating: opponents.rating,
+      opponentDeviation: opponents.deviation,
+      score
+    }]));
+
+  return {
+    team1: rateSide(team1, composite2, team1Score),
+    team2: rateSide(team2, composite1, 1 - team1Score),
+    team1Expected: winProbability(composite1, composite2)
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Golden Ticket Fairness
+ * Seeded draws that a sponsor can check after the fact, claim limits and
+ * multi-account signals.
+ *
+ * Every ticket draws from a server seed. The SHA-256 hash of the seed is
+ * committed (recorded and exported) before any draw uses it; the seed itself
+ * stays secret until it is revealed, when the ticket ends or an admin rotates
+ * it. Each draw takes the next nonce of the seed and rolls
+ *
+ *   HMAC-SHA256(serverSeed, "<ticketId>:<playerRef>:<nonce>")
+ *
+ * reading the first 52 bits as a fraction of 1,000,000. The ticket appears
+ * when the roll is below appearanceRate% of that scale. With the revealed seed
+ * anyone can recompute every roll, check it against the committed hash, and
+ * see from the nonces that no draw was left out.
+ */
+
+import crypto from 'crypto';
+
+export const DRAW_SCALE = 1_000_000;
+
+export type DrawOutcome = 'shown' | 'miss' | 'capped'; // capped: won, but maxAppearances was reached first
+
+export interface DrawSeedRecord {
+  id: number;
+  ticketId: number;
+  seedHash: string;
+  serverSeed: string | null; // Null until revealed
+  drawCount: number;
+}
+
+export interface DrawRecord {
+  seedId: number;
+  ticketId: number;
+  nonce: number;
+  playerRef: string;
+  roll: number;
+  threshold: number;
+  outcome: DrawOutcome;
+}
+
+export interface DrawVerification {
+  verified: boolean; // Every revealed seed and its draws check out
+  seedsRevealed: number;
+  seedsPending: number;
+  drawsChecked: number;
+  drawsPending: number; // Draws of seeds not revealed yet
+  problems: string[];
+}
+
+export interface ClaimLimits {
+  maxClaims: number;
+  currentClaims: number;
+  perUserClaimLimit: number;
+  perDeviceClaimLimit: number;
+}
+
+export interface ClaimCounts {
+  userClaims: number; // Claims of the user on the ticket, rejected ones left out
+  deviceClaims: number; // Claims from the device on the ticket, by any user
+}
+
+export interface ClaimSignalRow {
+  userId: number;
+  claimId: number | null; // Null for a draw without a claim
+  deviceHash: string | null;
+  ipHash: string | null;
+}
+
+export interface SharedSignalCluster {
+  signal: 'device' | 'ip';
+  key: string;
+  userIds: number[];
+  claimIds: number[];
+}
+
+/**
+ * A fresh secret seed, 32 random bytes as hex
+ */
+export function createServerSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * The commitment published for a seed before it is used
+ */
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash('sha256').update(serverSeed).digest('hex');
+}
+
+/**
+ * Stable pseudonym of a player within one seed, so exports carry no user IDs
+ */
+export function playerReference(seedHash: string, userId: number): string {
+  return crypto.createHash('sha256').update(`${seedHash}:${userId}`).digest('hex').substring(0, 16);
+}
+
+/**
+ * Device IDs and IP addresses are only kept as hashes
+ */
+export function hashClaimSignal(value: string): string {
+  return crypto.createHash('sha256').update(`golden-ticket:${value.trim().toLowerCase()}`).digest('hex').substring(0, 32);
+}
+
+/**
+ * Roll in [0, DRAW_SCALE) for one draw
+ */
+export function rollDraw(serverSeed: string, ticketId: number, playerRef: string, nonce: number): number {
+  const digest = crypto.createHmac('sha256', serverSeed).update(`${ticketId}:${playerRef}:${nonce}`).digest('hex');
+  return Math.floor(parseInt(digest.substring(0, 13), 16) / 2 ** 52 * DRAW_SCALE);
+}
+
+/**
+ * Rolls below this value win; appearanceRate is a percentage
+ */
+export function appearanceThreshold(appearanceRate: number): number {
+  return Math.round(Math.min(100, Math.max(0, appearanceRate)) * DRAW_SCALE / 100);
+}
+
+/**
+ * Recomputes the draws of revealed seeds and checks that each seed's nonces
+ * run from 1 to its draw count without gaps
+ */
+export function verifyDrawLog(seeds: DrawSeedRecord[], draws: DrawRecord[]): DrawVerification {
+  const problems: string[] = [];
+  let seedsRevealed = 0;
+  let drawsChecked = 0;
+  let drawsPending = 0;
+
+  for (const seed of seeds) {
+    const seedDraws = draws.filter(draw => draw.seedId === seed.id).sort((a, b) => a.nonce - b.nonce);
+
+    const nonces = seedDraws.map(draw => draw.nonce);
+    const contiguous = nonces.length === seed.drawCount && nonces.every((nonce, i) => nonce === i + 1);
+    if (!contiguous) {
+      problems.push(`Seed ${seed.id}: expected nonces 1-${seed.drawCount}, found ${nonces.length} draws`);
+    }
+
+    if (seed.serverSeed === null) {
+      drawsPending += seedDraws.length;
+      continue;
+    }
+
+    seedsRevealed += 1;
+    if (hashServerSeed(seed.serverSeed) !== seed.seedHash) {
+      problems.push(`Seed ${seed.id}: revealed seed does not match its committed hash`);
+      continue;
+    }
+
+    for (const draw of seedDraws) {
+      drawsChecked += 1;
+      const roll = rollDraw(seed.serverSeed, draw.ticketId, draw.playerRef, draw.nonce);
+      if (roll !== draw.roll) {
+        problems.push(`Seed ${seed.id} nonce ${draw.nonce}: recorded roll ${draw.roll}, recomputed ${roll}`);
+      } else if ((roll < draw.threshold) !== (draw.outcome !== 'miss')) {
+        problems.push(`Seed ${seed.id} nonce ${draw.nonce}: outcome ${draw.outcome} does not match roll ${roll} against ${draw.threshold}`);
+      }
+    }
+  }
+
+  const orphans = draws.filter(draw => !seeds.some(seed => seed.id === draw.seedId)).length;
+  if (orphans > 0) {
+    problems.push(`${orphans} draws reference seeds missing from the log`);
+  }
+
+  return {
+    verified: problems.length === 0,
+    seedsRevealed,
+    seedsPending: seeds.length - seedsRevealed,
+    drawsChecked,
+    drawsPending,
+    problems
+  };
+}
+
+/**
+ * Reasons a claim is refused; empty when it may go ahead
+ */
+export function checkClaimLimits(limits: ClaimLimits, counts: ClaimCounts): string[] {
+  const reasons: string[] = [];
+
+  if (limits.currentClaims >= limits.maxClaims) {
+    reasons.push('Maximum claims reached for this ticket');
+  }
+  if (counts.userClaims >= limits.perUserClaimLimit) {
+    reasons.push('You have already claimed this ticket');
+  }
+  if (counts.deviceClaims >= limits.perDeviceClaimLimit) {
+    reasons.push('This ticket has already been claimed from this device');
+  }
+
+  return reasons;
+}
+
+/**
+ * Devices and IP addresses used by more than one account. Devices mark likely
+ * multi-account claiming; shared IPs may just be a household or a club, so
+ * they are only worth a look.
+ */
+export function findSharedClaimSignals(rows: ClaimSignalRow[], minAccounts: number = 2): SharedSignalCluster[] {
+  const clusters: SharedSignalCluster[] = [];
+
+  for (const signal of ['device', 'ip'] as const) {
+    const byKey = new Map<string, ClaimSignalRow[]>();
+    for (const row of rows) {
+      const key = signal === 'device' ? row.deviceHash : row.ipHash;
+      if (!key) continue;
+      byKey.set(key, [...(byKey.get(key) ?? []), row]);
+    }
+
+    byKey.forEach((keyRows, key) => {
+      const userIds = Array.from(new Set(keyRows.map(row => row.userId))).sort((a, b) => a - b);
+      if (userIds.length < minAccounts) return;
+      const claimIds = Array.from(new Set(keyRows.flatMap(row => row.claimId === null ? [] : [row.claimId]))).sort((a, b) => a - b);
+      clusters.push({ signal, key, userIds, claimIds });
+    });
+  }
+
+  return clusters.sort((a, b) => b.userIds.length - a.userIds.length);
+}
+
+/**
+ * Flags for a new claim from what else was seen on its device and IP
+ */
+export function claimRiskFlags(
+  claimant: { userId: number, deviceHash: string, ipHash: string | null, drawDeviceHash: string | null },
+  others: ClaimSignalRow[]
+): string[] {
+  const flags: string[] = [];
+  const otherUsers = others.filter(row => row.userId !== claimant.userId);
+
+  if (otherUsers.some(row => row.deviceHash === claimant.deviceHash)) {
+    flags.push('shared_device');
+  }
+  if (claimant.ipHash && otherUsers.some(row => row.ipHash === claimant.ipHash)) {
+    flags.push('shared_ip');
+  }
+  if (claimant.drawDeviceHash && claimant.drawDeviceHash !== claimant.deviceHash) {
+    flags.push('device_changed');
+  }
+
+  return flags;
+}
@@ -0,0 +1,151 @@
+/**
+ * iCalendar Builder
+ * Serializes schedule items as RFC 5545 calendars for subscription feeds and
+ * one-off .ics downloads.
+ *
+ * UIDs are derived from the source record, and SEQUENCE from its last
+ * modification, so calendar apps update or cancel the same event rather than
+ * adding a new one when a booking changes.
+ */
+
+export const ICALENDAR_PRODUCT_ID = '-//Pickle+//Schedule//EN';
+const UID_DOMAIN = 'pickleplus.app';
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  start: Date;
+  end: Date;
+  status: CalendarEventStatus;
+  lastModified?: Date | null;
+  categories?: string[];
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  refreshIntervalHours?: number; // Suggested polling interval for subscribers
+  method?: 'PUBLISH';
+  now?: Date;
+}
+
+/**
+ * Stable UID for a record, e.g. "booking-42@pickleplus.app"
+ */
+export function calendarEventUid(source: string, id: number | string): string {
+  return `${source}-${id}@${UID_DOMAIN}`;
+}
+
+/**
+ * UTC date-time in iCalendar form, e.g. 20250314T093000Z
+ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escapes TEXT values: backslashes, semicolons, commas and newlines
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Folds a content line to 75 octets, continuing with a leading space.
+ * Multi-byte characters are never split.
+ */
+export function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = utf8Length(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+// Increases whenever the source record changes; seconds since the epoch fit
+// the 32-bit integer RFC 5545 allows until 2038. Cancelling always counts as
+// a change, even when the source has no modification time of its own.
+function sequenceOf(event: CalendarEvent): number {
+  const modified = event.lastModified ? Math.max(0, Math.floor(event.lastModified.getTime() / 1000)) : 0;
+  return modified + (event.status === 'CANCELLED' ? 1 : 0);
+}
+
+function eventLines(event: CalendarEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalDateTime(stamp)}`,
+    `DTSTART:${formatICalDateTime(event.start)}`,
+    `DTEND:${formatICalDateTime(event.end > event.start ? event.end : new Date(event.start.getTime() + 60 * 60 * 1000))}`,
+    `SUMMARY:${escapeICalText(event.status === 'CANCELLED' ? `Cancelled: ${event.summary}` : event.summary)}`,
+    `STATUS:${event.status}`,
+    `SEQUENCE:${sequenceOf(event)}`
+  ];
+
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDateTime(event.lastModified)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+  if (event.status === 'CANCELLED') lines.push('TRANSP:TRANSPARENT');
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * A complete VCALENDAR document with CRLF line endings
+ */
+export function buildICalendar(events: CalendarEvent[], options: CalendarOptions): string {
+  const stamp = options.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method ?? 'PUBLISH'}`,
+    `X-WR-CALNAME:${escapeICalText(options.name)}`
+  ];
+
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeICalText(options.description)}`);
+  if (options.refreshIntervalHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalHours}H`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshIntervalHours}H`);
+  }
+
+  const sorted = [...events].sort((a, b) => a.start.getTime() - b.start.getTime() || a.uid.localeCompare(b.uid));
+  for (const event of sorted) {
+    lines.push(...eventLines(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,305 @@
+/**
+ * Double-Entry Ledger Accounting
+ * Chart of accounts for money moving through the platform, the balanced
+ * journal lines each business operation posts, and the trial balance and
+ * invariant checks built from them.
+ *
+ * Every user wallet and every coach payable is its own account, so a wallet
+ * balance can be compared one-to-one with the ledger. All amounts are in
+ * cents.
+ */
+
+import { calculateTopUpBonus, PICKLE_CREDITS_CONSTANTS } from './digitalCurrencyValidation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LEDGER_ACCOUNT_TYPES = ['asset', 'liability', 'equity', 'revenue', 'expense'] as const;
+export type LedgerAccountType = typeof LEDGER_ACCOUNT_TYPES[number];
+
+export const SYSTEM_LEDGER_ACCOUNTS = {
+  WISE_CLEARING: 'wise_clearing',
+  GIFT_CARD_LIABILITY: 'gift_card_liability',
+  PLATFORM_REVENUE: 'platform_revenue',
+  CREDIT_BONUS_EXPENSE: 'credit_bonus_expense',
+  COACH_EARNINGS_EXPENSE: 'coach_earnings_expense',
+  OPENING_BALANCE_EQUITY: 'opening_balance_equity'
+} as const;
+
+const SYSTEM_ACCOUNT_DETAILS: Record<string, { name: string, type: LedgerAccountType }> = {
+  wise_clearing: { name: 'Wise clearing', type: 'asset' },
+  gift_card_liability: { name: 'Gift card liability', type: 'liability' },
+  platform_revenue: { name: 'Platform revenue', type: 'revenue' },
+  credit_bonus_expense: { name: 'Top-up bonus credits', type: 'expense' },
+  coach_earnings_expense: { name: 'Coach earnings', type: 'expense' },
+  opening_balance_equity: { name: 'Opening balances', type: 'equity' }
+};
+
+const WALLET_PREFIX = 'user_wallet:';
+const COACH_PAYABLE_PREFIX = 'coach_payable:';
+
+export interface LedgerAccountDefinition {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  ownerUserId: number | null;
+}
+
+export function walletAccountCode(userId: number): string {
+  return `${WALLET_PREFIX}${userId}`;
+}
+
+export function coachPayableAccountCode(coachId: number): string {
+  return `${COACH_PAYABLE_PREFIX}${coachId}`;
+}
+
+/**
+ * The user a wallet account belongs to, or null for other accounts
+ */
+export function walletOwner(code: string): number | null {
+  return code.startsWith(WALLET_PREFIX) ? Number(code.slice(WALLET_PREFIX.length)) : null;
+}
+
+/**
+ * Name, type and owner of an account code; throws for codes outside the chart
+ */
+export function describeLedgerAccount(code: string): LedgerAccountDefinition {
+  const system = SYSTEM_ACCOUNT_DETAILS[code];
+  if (system) {
+    return { code, ...system, ownerUserId: null };
+  }
+
+  const owner = code.startsWith(WALLET_PREFIX) || code.startsWith(COACH_PAYABLE_PREFIX)
+    ? Number(code.slice(code.indexOf(':') + 1))
+    : NaN;
+  if (!Number.isInteger(owner) || owner <= 0) {
+    throw new Error(`Unknown ledger account ${code}`);
+  }
+
+  return code.startsWith(WALLET_PREFIX)
+    ? { code, name: `Wallet of user ${owner}`, type: 'liability', ownerUserId: owner }
+    : { code, name: `Payable to coach ${owner}`, type: 'liability', ownerUserId: owner };
+}
+
+/**
+ * Assets and expenses grow with debits; everything else with credits
+ */
+export function isDebitNormal(type: LedgerAccountType): boolean {
+  return type === 'asset' || type === 'expense';
+}
+
+export interface JournalLine {
+  accountCode: string;
+  debitCents: number;
+  creditCents: number;
+  memo?: string;
+}
+
+function debit(accountCode: string, cents: number, memo?: string): JournalLine {
+  return { accountCode, debitCents: cents, creditCents: 0, memo };
+}
+
+function credit(accountCode: string, cents: number, memo?: string): JournalLine {
+  return { accountCode, debitCents: 0, creditCents: cents, memo };
+}
+
+/**
+ * A business operation that moves money
+ */
+export type LedgerOperation =
+  | { kind: 'wallet_top_up', userId: number, paidCents: number, bonusCents: number }
+  | { kind: 'gift_card_sale', amountCents: number }
+  | { kind: 'gift_card_redemption', userId: number, amountCents: number }
+  | { kind: 'wallet_charge', userId: number, amountCents: number }
+  | { kind: 'wallet_refund', userId: number, amountCents: number }
+  | { kind: 'cancellation_fee', userId: number, amountCents: number }
+  | { kind: 'coach_payout_accrual', coachId: number, amountCents: number }
+  | { kind: 'coach_payout_settlement', coachId: number, amountCents: number }
+  | { kind: 'coach_payout_reversal', coachId: number, amountCents: number };
+
+export type LedgerEntryType = LedgerOperation['kind'] | 'opening_balance';
+
+/**
+ * The journal lines an operation posts. Zero-amount lines are left out.
+ *
+ * - Top-ups: the payment lands in Wise clearing and any bonus is an expense
+ * - Gift cards are a liability until redeemed into a wallet
+ * - Wallet spending is platform revenue; refunds reverse it
+ * - Coach earnings are owed when a payout is run, paid from Wise clearing
+ *   when the transfer settles, and released again when it fails
+ */
+export function journalLinesFor(operation: LedgerOperation): JournalLine[] {
+  const { WISE_CLEARING, GIFT_CARD_LIABILITY, PLATFORM_REVENUE, CREDIT_BONUS_EXPENSE, COACH_EARNINGS_EXPENSE } = SYSTEM_LEDGER_ACCOUNTS;
+  let lines: JournalLine[];
+
+  switch (operation.kind) {
+    case 'wallet_top_up':
+      lines = [
+        debit(WISE_CLEARING, operation.paidCents, 'Payment received'),
+        debit(CREDIT_BONUS_EXPENSE, operation.bonusCents, 'Top-up bonus'),
+        credit(walletAccountCode(operation.userId), operation.paidCents + operation.bonusCents)
+      ];
+      break;
+    case 'gift_card_sale':
+      lines = [debit(WISE_CLEARING, operation.amountCents), credit(GIFT_CARD_LIABILITY, operation.amountCents)];
+      break;
+    case 'gift_card_redemption':
+      lines = [debit(GIFT_CARD_LIABILITY, operation.amountCents), credit(walletAccountCode(operation.userId), operation.amountCents)];
+      break;
+    case 'wallet_charge':
+    case 'cancellation_fee':
+      lines = [debit(walletAccountCode(operation.userId), operation.amountCents), credit(PLATFORM_REVENUE, operation.amountCents)];
+      break;
+    case 'wallet_refund':
+      lines = [debit(PLATFORM_REVENUE, operation.amountCents), credit(walletAccountCode(operation.userId), operation.amountCents)];
+      break;
+    case 'coach_payout_accrual':
+      lines = [debit(COACH_EARNINGS_EXPENSE, operation.amountCents), credit(coachPayableAccountCode(operation.coachId), operation.amountCents)];
+      break;
+    case 'coach_payout_settlement':
+      lines = [debit(coachPayableAccountCode(operation.coachId), operation.amountCents), credit(WISE_CLEARING, operation.amountCents)];
+      break;
+    case 'coach_payout_reversal':
+      lines = [debit(coachPayableAccountCode(operation.coachId), operation.amountCents), credit(COACH_EARNINGS_EXPENSE, operation.amountCents)];
+      break;
+  }
+
+  return lines.filter(line => line.debitCents !== 0 || line.creditCents !== 0);
+}
+
+/**
+ * Checks that an entry has at least two lines, each a whole positive amount
+ * on exactly one side, and that debits equal credits
+ */
+export function validateJournalLines(lines: JournalLine[]): { isValid: boolean, errors: string[] } {
+  const errors: string[] = [];
+
+  if (lines.length < 2) {
+    errors.push('A journal entry needs at least two lines');
+  }
+
+  lines.forEach((line, index) => {
+    const amounts = [line.debitCents, line.creditCents];
+    if (amounts.some(amount => !Number.isInteger(amount) || amount < 0)) {
+      errors.push(`Line ${index + 1} (${line.accountCode}) must use whole, non-negative cents`);
+    } else if ((line.debitCents > 0) === (line.creditCents > 0)) {
+      errors.push(`Line ${index + 1} (${line.accountCode}) must be either a debit or a credit`);
+    }
+    try {
+      describeLedgerAccount(line.accountCode);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  });
+
+  const debits = lines.reduce((sum, line) => sum + line.debitCents, 0);
+  const credits = lines.reduce((sum, line) => sum + line.creditCents, 0);
+  if (debits !== credits) {
+    errors.push(`Debits (${debits}) do not equal credits (${credits})`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Balance of an account on its normal side, e.g. what a wallet holds
+ */
+export function accountBalanceCents(type: LedgerAccountType, debitCents: number, creditCents: number): number {
+  return isDebitNormal(type) ? debitCents - creditCents : creditCents - debitCents;
+}
+
+export interface AccountTotals {
+  code: string;
+  debitCents: number;
+  creditCents: number;
+}
+
+export interface TrialBalanceRow extends LedgerAccountDefinition {
+  debitCents: number;
+  creditCents: number;
+  balanceCents: number; // On the account's normal side
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totalsByType: Record<LedgerAccountType, number>;
+  totalDebitCents: number;
+  totalCreditCents: number;
+  balanced: boolean;
+}
+
+/**
+ * Trial balance from each account's debit and credit totals, system accounts
+ * first and then by code
+ */
+export function buildTrialBalance(totals: AccountTotals[]): TrialBalance {
+  const rows = totals
+    .map(total => {
+      const account = describeLedgerAccount(total.code);
+      return {
+        ...account,
+        debitCents: total.debitCents,
+        creditCents: total.creditCents,
+        balanceCents: accountBalanceCents(account.type, total.debitCents, total.creditCents)
+      };
+    })
+    .sort((a, b) => (a.ownerUserId === null ? 0 : 1) - (b.ownerUserId === null ? 0 : 1) || a.code.localeCompare(b.code, 'en', { numeric: true }));
+
+  const totalsByType = Object.fromEntries(LEDGER_ACCOUNT_TYPES.map(type => [type, 0])) as Record<LedgerAccountType, number>;
+  for (const row of rows) {
+    totalsByType[row.type] += row.balanceCents;
+  }
+
+  const totalDebitCents = rows.reduce((sum, row) => sum + row.debitCents, 0);
+  const totalCreditCents = rows.reduce((sum, row) => sum + row.creditCents, 0);
+  return { rows, totalsByType, totalDebitCents, totalCreditCents, balanced: totalDebitCents === totalCreditCents };
+}
+
+export interface BalanceMismatch {
+  code: string;
+  expectedCents: number; // Balance stored outside the ledger
+  ledgerCents: number;
+  differenceCents: number; // Ledger minus expected
+}
+
+/**
+ * Accounts whose ledger balance differs from the balance stored elsewhere.
+ * Accounts missing on either side count as zero.
+ */
+export function findBalanceMismatches(expected: Map<string, number>, ledger: Map<string, number>): BalanceMismatch[] {
+  const codes = new Set([...Array.from(expected.keys()), ...Array.from(ledger.keys())]);
+  return Array.from(codes)
+    .map(code => {
+      const expectedCents = expected.get(code) ?? 0;
+      const ledgerCents = ledger.get(code) ?? 0;
+      return { code, expectedCents, ledgerCents, differenceCents: ledgerCents - expectedCents };
+    })
+    .filter(mismatch => mismatch.differenceCents !== 0)
+    .sort((a, b) => a.code.localeCompare(b.code, 'en', { numeric: true }));
+}
+
+/**
+ * Splits the credits of a top-up into the amount paid and the bonus.
+ * Pending top-ups only store the credited total, so the paid part is found
+ * from the bonus tiers; totals no tier produces are treated as fully paid.
+ */
+export function splitTopUpCredits(totalCredits: number): { paidCents: number, bonusCents: number } {
+  const rates = [PICKLE_CREDITS_CONSTANTS.BONUS_RATE_TIER_2, PICKLE_CREDITS_CONSTANTS.BONUS_RATE_TIER_1, 0];
+  for (const rate of rates) {
+    const estimate = Math.floor(totalCredits / (1 + rate));
+    for (const paid of [estimate, estimate + 1]) {
+      const bonus = calculateTopUpBonus(paid);
+      if (bonus.totalCredits === totalCredits) {
+        return { paidCents: paid, bonusCents: bonus.bonusAmount };
+      }
+    }
+  }
+  return { paidCents: totalCredits, bonusCents: 0 };
+}
+
+/**
+ * The next time at or after `now` that the nightly check runs
+ */
+export function nextNightlyRun(now: Date, hourUtc: number): Date {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hourUtc));
+  return next.getTime() <= now.getTime() ? new Date(next.getTime() + DAY_MS) : next;
+}
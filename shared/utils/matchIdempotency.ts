@@ -1,68 +1,121 @@
 // CRITICAL FIX 2: Match Processing Idempotency System
-// Prevents double-processing of matches in additive ranking system
+// Prevents double-processing of matches in additive ranking system.
+// Every entry point records matches through the match ingestion service,
+// which stores this key under a unique constraint.
 
 import crypto from 'crypto';
+import {
+  calculatePointsWithRules,
+  DEFAULT_POINTS_RULESET,
+  type PointsRuleset
+} from './pointsRuleEngine';
+
+// Identity of a match for duplicate detection. Players are identified by
+// normalized passport code so the same match keys the same way whichever
+// entry point records it.
+export interface MatchGameScore {
+  team1: number;
+  team2: number;
+}
 
 export interface MatchSignature {
-  tournamentId: number;
-  player1: string;
-  player2: string;
-  player3: string | null;
-  player4: string | null;
-  scoreP1: string;
-  scoreP2: string;
-  matchDate: string;
+  team1: string[];
+  team2: string[];
+  team1Score: string | null; // null for a scheduled match without a result
+  team2Score: string | null;
+  games?: MatchGameScore[] | null; // Points per game, when the result was recorded game by game
+  matchDate: Date | string;
+  event?: string | null; // Event the match was played at, e.g. "tournament:Spring Open"
+  sourceReference?: string | null; // Natural ID from the entry point, e.g. "bracket-match:42"
 }
 
-export function generateMatchIdempotencyKey(match: MatchSignature): string {
-  // Create deterministic hash from match details
-  const matchData = `${match.tournamentId}-${match.player1}-${match.player2}-${match.player3 || ''}-${match.player4 || ''}-${match.scoreP1}-${match.scoreP2}-${match.matchDate}`;
-  return crypto.createHash('sha256').update(matchData).digest('hex').substring(0, 16);
+// Results recorded within this many minutes of each other are the same match;
+// a real rematch is played later than this
+export const MATCH_RESULT_WINDOW_MINUTES = 5;
+
+// Passport code in the form used for matching: uppercase alphanumerics
+// without the PKL- prefix or separators
+export function normalizeMatchPassportCode(passportCode: string): string {
+  return passportCode.trim().toUpperCase().replace(/^PKL-/, '').replace(/[^A-Z0-9]/g, '');
 }
 
-export function validateMatchUniqueness(idempotencyKey: string, existingKeys: Set<string>): boolean {
-  return !existingKeys.has(idempotencyKey);
+// Deterministic idempotency key for a match (32 hex characters).
+// - With a source reference, the reference alone identifies the match.
+// - A result is keyed by both teams, the score, the game scores and the
+//   5-minute window it was played in; team order, partner order and score
+//   order do not matter. Results just across a window boundary get different
+//   keys, so the ingestion service also looks for the adjacent window keys.
+// - A scheduled match is keyed by both teams and its start time.
+// - Either is scoped to the match's event when it has one, so the same
+//   result at two events is two matches.
+export function generateMatchIdempotencyKey(match: MatchSignature): string {
+  let signature: string;
+
+  if (match.sourceReference) {
+    signature = `ref|${match.sourceReference}`;
+  } else {
+    let team1 = [...match.team1].sort().join(',');
+    let team2 = [...match.team2].sort().join(',');
+    let team1Score = match.team1Score;
+    let team2Score = match.team2Score;
+    let games = (match.games ?? []).map(game => [game.team1, game.team2]);
+
+    if (team2 < team1) {
+      [team1, team2] = [team2, team1];
+      [team1Score, team2Score] = [team2Score, team1Score];
+      games = games.map(([first, second]) => [second, first]);
+    }
+
+    const matchDate = new Date(match.matchDate);
+    const windowMs = MATCH_RESULT_WINDOW_MINUTES * 60 * 1000;
+    const windowStart = new Date(Math.floor(matchDate.getTime() / windowMs) * windowMs).toISOString();
+    signature = team1Score === null || team2Score === null
+      ? `scheduled|${team1}|${team2}|${matchDate.toISOString().substring(0, 16)}`
+      : `result|${team1}|${team2}|${team1Score}-${team2Score}|${games.map(game => game.join('-')).join(',')}|${windowStart}`;
+
+    if (match.event) {
+      signature += `|event|${match.event}`;
+    }
+  }
+
+  return crypto.createHash('sha256').update(signature).digest('hex').substring(0, 32);
 }
 
-// Gender bonus algorithm specification (CRITICAL FIX 3)
-export interface GenderBonusConfig {
-  readonly BASE_WIN_POINTS: number;
-  readonly BASE_LOSS_POINTS: number;
-  readonly FEMALE_CROSS_GENDER_MULTIPLIER: number;
-  readonly POINTS_THRESHOLD: number;
-  readonly PRECISION_DECIMALS: number;
+// Keys the same result would have in the windows before and after this one.
+// A result recorded within MATCH_RESULT_WINDOW_MINUTES of the match but
+// across a window boundary has one of them. Empty for scheduled matches and
+// matches with a source reference, whose keys do not depend on a window.
+export function getAdjacentMatchIdempotencyKeys(match: MatchSignature): string[] {
+  if (match.sourceReference || match.team1Score === null || match.team2Score === null) {
+    return [];
+  }
+
+  const windowMs = MATCH_RESULT_WINDOW_MINUTES * 60 * 1000;
+  const matchTime = new Date(match.matchDate).getTime();
+  return [matchTime - windowMs, matchTime + windowMs]
+    .map(at => generateMatchIdempotencyKey({ ...match, matchDate: new Date(at) }));
 }
 
-export const OFFICIAL_PCP_CONFIG: GenderBonusConfig = {
-  BASE_WIN_POINTS: 3.0,
-  BASE_LOSS_POINTS: 1.0, 
-  FEMALE_CROSS_GENDER_MULTIPLIER: 1.15,
-  POINTS_THRESHOLD: 1000.0,
-  PRECISION_DECIMALS: 2
-};
+export function validateMatchUniqueness(idempotencyKey: string, existingKeys: Set<string>): boolean {
+  return !existingKeys.has(idempotencyKey);
+}
 
+// Points are calculated by the shared points rule engine (CRITICAL FIX 3):
+// who receives the gender bonus, the points threshold and whether it needs a
+// cross-gender match are all part of the versioned points ruleset
 export function calculateMatchPoints(
   isWinner: boolean,
   playerGender: string,
   currentRankingPoints: number,
   isCrossGenderMatch: boolean,
-  config: GenderBonusConfig = OFFICIAL_PCP_CONFIG
+  ruleset: PointsRuleset = DEFAULT_POINTS_RULESET
 ): number {
-  const basePoints = isWinner ? config.BASE_WIN_POINTS : config.BASE_LOSS_POINTS;
-  
-  // Apply gender bonus: 1.15x for females <1000 pts in cross-gender matches
-  const shouldApplyGenderBonus = 
-    !isWinner && 
-    playerGender === 'female' && 
-    currentRankingPoints < config.POINTS_THRESHOLD && 
-    isCrossGenderMatch;
-  
-  const finalPoints = shouldApplyGenderBonus 
-    ? basePoints * config.FEMALE_CROSS_GENDER_MULTIPLIER 
-    : basePoints;
-  
-  // Round to specified precision (2 decimal places per UDF standards)
-  return Math.round(finalPoints * Math.pow(10, config.PRECISION_DECIMALS)) / Math.pow(10, config.PRECISION_DECIMALS);
+  return calculatePointsWithRules(ruleset, {
+    isWin: isWinner,
+    gender: playerGender,
+    currentRankingPoints,
+    isCrossGender: isCrossGenderMatch
+  }).rankingPoints;
 }
 
 export function isCrossGenderMatch(p1Gender: string, p2Gender: string, p3Gender?: string, p4Gender?: string): boolean {
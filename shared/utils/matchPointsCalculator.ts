@@ -10,7 +10,14 @@
  * - This preserves complete tournament and match history
  */
 
-import { calculateOfficialPoints, validatePointCalculation, logCalculationBreakdown, type MatchResult } from './algorithmValidation';
+import { calculateOfficialPoints, type MatchResult } from './algorithmValidation';
+import {
+  calculatePointsWithRules,
+  isCrossGenderMatch,
+  DEFAULT_POINTS_RULESET,
+  type PointsRuleset,
+  type PointsCalculationBreakdown
+} from './pointsRuleEngine';
 
 export interface PlayerMatchData {
   playerId: number;
@@ -31,40 +38,37 @@ export interface MatchPointsResult {
   totalRankingPoints: number;
   totalPicklePoints: number;
   calculationDetails: string;
+  rulesetVersion: number; // Points ruleset that produced this calculation
+  multipliers: { age: number, gender: number, event: number, pickle: number };
 }
 
 /**
- * Calculate points for all players in a match using official algorithm
+ * Calculate points for all players in a match using the given points ruleset
+ * (the built-in System B rules unless the caller passes the active ruleset)
  */
 export function calculateMatchPoints(
   players: PlayerMatchData[],
-  matchType: 'singles' | 'doubles' = 'doubles'
+  matchType: 'singles' | 'doubles' = 'doubles',
+  ruleset: PointsRuleset = DEFAULT_POINTS_RULESET
 ): MatchPointsResult[] {
   
   const results: MatchPointsResult[] = [];
+  const isCrossGender = isCrossGenderMatch(players.map(player => player.gender));
   
   for (const player of players) {
-    // Determine multipliers based on player data
-    const ageMultiplier = getAgeMultiplier(player.ageGroup);
-    const genderMultiplier = getGenderMultiplier(player.gender, player.currentRankingPoints || 0);
-    const eventMultiplier = player.eventMultiplier || getEventMultiplier(player.eventType);
-    
-    // Create match result for official calculation
-    const matchResult: MatchResult = {
-      playerId: player.playerId,
+    const calculation = calculatePointsWithRules(ruleset, {
       isWin: player.isWin,
-      basePoints: player.isWin ? 3 : 1, // System B
-      ageMultiplier,
-      genderMultiplier,
-      eventMultiplier
-    };
-    
-    // Calculate using official algorithm
-    const calculation = calculateOfficialPoints(matchResult);
+      ageGroup: player.ageGroup,
+      gender: player.gender,
+      currentRankingPoints: player.currentRankingPoints,
+      eventType: player.eventType,
+      eventMultiplier: player.eventMultiplier,
+      isCrossGender
+    });
     
     // Log calculation for verification
     if (process.env.NODE_ENV === 'development') {
-      logCalculationBreakdown(matchResult);
+      console.log(`[Points] ${player.username} (${matchType}): ${formatCalculationDetails(player.isWin, calculation)}`);
     }
     
     results.push({
@@ -74,62 +78,25 @@ export function calculateMatchPoints(
       picklePointsEarned: calculation.picklePoints,
       totalRankingPoints: (player.currentRankingPoints || 0) + calculation.rankingPoints,
       totalPicklePoints: 0, // Will be calculated during DB update
-      calculationDetails: formatCalculationDetails(matchResult, calculation)
+      calculationDetails: formatCalculationDetails(player.isWin, calculation),
+      rulesetVersion: calculation.rulesetVersion,
+      multipliers: {
+        age: calculation.ageMultiplier,
+        gender: calculation.genderMultiplier,
+        event: calculation.eventMultiplier,
+        pickle: ruleset.rules.picklePointsMultiplier
+      }
     });
   }
   
   return results;
 }
 
-/**
- * Age group multipliers per official algorithm
- */
-function getAgeMultiplier(ageGroup?: string): number {
-  const multipliers: Record<string, number> = {
-    'Pro': 1.0,
-    'Open': 1.0,
-    'U12': 1.0,
-    'U14': 1.0, 
-    'U16': 1.0,
-    'U18': 1.0,
-    '35+': 1.2,
-    '50+': 1.3,
-    '60+': 1.5,
-    '70+': 1.6
-  };
-  
-  return multipliers[ageGroup || 'Open'] || 1.0;
-}
-
-/**
- * Gender multipliers for cross-gender matches (women under 1000 points)
- */
-function getGenderMultiplier(gender?: 'male' | 'female', currentPoints: number = 0): number {
-  // Women under 1000 points get 1.15x bonus in cross-gender matches
-  if (gender === 'female' && currentPoints < 1000) {
-    return 1.15;
-  }
-  return 1.0;
-}
-
-/**
- * Event type multipliers
- */
-function getEventMultiplier(eventType?: string): number {
-  const multipliers: Record<string, number> = {
-    'tournament': 1.0,
-    'league': 1.0,
-    'casual': 1.0
-  };
-  
-  return multipliers[eventType || 'casual'] || 1.0;
-}
-
 /**
  * Format calculation details for audit trail
  */
-function formatCalculationDetails(matchResult: MatchResult, calculation: any): string {
-  return `${matchResult.isWin ? 'WIN' : 'LOSS'}: ${matchResult.isWin ? 3 : 1} base × ${matchResult.ageMultiplier || 1.0} age × ${matchResult.genderMultiplier || 1.0} gender × ${matchResult.eventMultiplier || 1.0} event = ${calculation.rankingPoints} ranking, ${calculation.picklePoints} pickle (1.5x)`;
+export function formatCalculationDetails(isWin: boolean, calculation: PointsCalculationBreakdown): string {
+  return `${isWin ? 'WIN' : 'LOSS'}: ${calculation.basePoints} base × ${calculation.ageMultiplier} age × ${calculation.genderMultiplier} gender × ${calculation.eventMultiplier} event = ${calculation.rankingPoints} ranking, ${calculation.picklePoints} pickle [rules v${calculation.rulesetVersion}]`;
 }
 
 /**
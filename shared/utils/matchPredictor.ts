@@ -0,0 +1,236 @@
+/**
+ * Match Outcome Predictor
+ * Win probability, expected scoreline and a fair handicap for a match
+ * between two rated sides.
+ *
+ * A skill rating win probability is read as the chance of winning one
+ * reference game (to 11, win by 2). It is converted to the chance of winning
+ * a single rally, from which any game length, starting score and
+ * best-of series can be played out exactly.
+ */
+
+import { z } from 'zod';
+import { winProbability, type Glicko2Rating } from './glicko2';
+
+export const matchFormatOptionsSchema = z.object({
+  pointsToWin: z.number().int().min(5).max(25),
+  winByTwo: z.boolean(),
+  gamesToWin: z.number().int().min(1).max(3) // 1 single game, 2 best of 3, 3 best of 5
+});
+
+export type MatchFormatOptions = z.infer<typeof matchFormatOptionsSchema>;
+
+export const DEFAULT_MATCH_FORMAT: MatchFormatOptions = {
+  pointsToWin: 11,
+  winByTwo: true,
+  gamesToWin: 1
+};
+
+/**
+ * Game the skill rating win probability refers to
+ */
+const REFERENCE_GAME: MatchFormatOptions = DEFAULT_MATCH_FORMAT;
+
+/**
+ * Points each side has when a game starts (a handicap starts the underdog ahead)
+ */
+export interface GameStart {
+  team1: number;
+  team2: number;
+}
+
+/**
+ * Outcome of one game played out from a starting score
+ */
+export interface GameOutcome {
+  team1WinProbability: number;
+  expectedPoints: { team1: number; team2: number }; // Over all outcomes
+  expectedScore: { team1: number; team2: number }; // Scoreline when the more likely winner wins
+}
+
+/**
+ * Starting points for the underdog that bring the match closest to even
+ */
+export interface HandicapSuggestion {
+  team: 1 | 2 | null; // null when no handicap is needed
+  points: number;
+  team1WinProbability: number; // Match win probability with the handicap
+}
+
+export interface MatchPrediction {
+  format: MatchFormatOptions;
+  team1WinProbability: number; // Whole match
+  gameWinProbability: number; // One game, no handicap
+  rallyWinProbability: number;
+  expectedScore: { team1: number; team2: number }; // Per game
+  handicap: HandicapSuggestion;
+}
+
+interface GameState {
+  win: number; // P(team 1 wins)
+  team1: number; // E[team 1 final points]
+  team2: number;
+  team1IfWin: number; // E[team 1 final points; team 1 wins]
+  team2IfWin: number;
+}
+
+/**
+ * Play out a game rally by rally from a starting score.
+ * Tied scores past the target under win by two are closed-form: each pair of
+ * rallies either decides the game or returns to a tie.
+ */
+function playGame(q: number, format: Pick<MatchFormatOptions, 'pointsToWin' | 'winByTwo'>, start: GameStart): GameState {
+  const target = format.pointsToWin;
+  const memo = new Map<string, GameState>();
+
+  const decided = (a: number, b: number): number | null => {
+    if (format.winByTwo) {
+      if (a >= target && a - b >= 2) return 1;
+      if (b >= target && b - a >= 2) return 0;
+      return null;
+    }
+    if (a >= target) return 1;
+    if (b >= target) return 0;
+    return null;
+  };
+
+  const state = (a: number, b: number): GameState => {
+    const result = decided(a, b);
+    if (result !== null) {
+      return result === 1
+        ? { win: 1, team1: a, team2: b, team1IfWin: a, team2IfWin: b }
+        : { win: 0, team1: a, team2: b, team1IfWin: 0, team2IfWin: 0 };
+    }
+
+    if (format.winByTwo && a === b && a >= target - 1) {
+      const decisive = q * q + (1 - q) * (1 - q);
+      const win = (q * q) / decisive;
+      const ties = (1 - decisive) / decisive; // Extra tied pairs before the decisive pair
+      return {
+        win,
+        team1: a + ties + 2 * win,
+        team2: a + ties + 2 * (1 - win),
+        team1IfWin: win * (a + ties + 2),
+        team2IfWin: win * (a + ties)
+      };
+    }
+
+    const key = `${a}:${b}`;
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const won = state(a + 1, b);
+    const lost = state(a, b + 1);
+    const combined: GameState = {
+      win: q * won.win + (1 - q) * lost.win,
+      team1: q * won.team1 + (1 - q) * lost.team1,
+      team2: q * won.team2 + (1 - q) * lost.team2,
+      team1IfWin: q * won.team1IfWin + (1 - q) * lost.team1IfWin,
+      team2IfWin: q * won.team2IfWin + (1 - q) * lost.team2IfWin
+    };
+    memo.set(key, combined);
+    return combined;
+  };
+
+  return state(start.team1, start.team2);
+}
+
+/**
+ * Probability and expected scores of one game for a rally win probability
+ */
+export function predictGame(
+  rallyWinProbability: number,
+  format: Pick<MatchFormatOptions, 'pointsToWin' | 'winByTwo'>,
+  start: GameStart = { team1: 0, team2: 0 }
+): GameOutcome {
+  const game = playGame(rallyWinProbability, format, start);
+
+  const team1Favoured = game.win >= 0.5 - 1e-9; // Even games read from team 1's side
+  const expectedScore = team1Favoured
+    ? { team1: game.team1IfWin / game.win, team2: game.team2IfWin / game.win }
+    : { team1: (game.team1 - game.team1IfWin) / (1 - game.win), team2: (game.team2 - game.team2IfWin) / (1 - game.win) };
+
+  return {
+    team1WinProbability: game.win,
+    expectedPoints: { team1: game.team1, team2: game.team2 },
+    expectedScore
+  };
+}
+
+/**
+ * Probability of winning a first-to-N-games series from a game win probability
+ */
+export function seriesWinProbability(gameWinProbability: number, gamesToWin: number): number {
+  const p = gameWinProbability;
+  let total = 0;
+  let combinations = 1; // C(gamesToWin - 1 + losses, losses)
+
+  for (let losses = 0; losses < gamesToWin; losses++) {
+    if (losses > 0) combinations = (combinations * (gamesToWin - 1 + losses)) / losses;
+    total += combinations * Math.pow(p, gamesToWin) * Math.pow(1 - p, losses);
+  }
+
+  return total;
+}
+
+/**
+ * Rally win probability that gives a reference game win probability
+ */
+export function rallyWinProbabilityFor(gameWinProbability: number): number {
+  const target = Math.min(0.999, Math.max(0.001, gameWinProbability));
+  let low = 0.001;
+  let high = 0.999;
+
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (playGame(mid, REFERENCE_GAME, { team1: 0, team2: 0 }).win < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Starting points for the underdog that bring the match win probability
+ * closest to 50%. Never starts a side within two points of the target.
+ */
+export function suggestHandicap(rallyWinProbability: number, format: MatchFormatOptions): HandicapSuggestion {
+  const matchProbability = (start: GameStart) =>
+    seriesWinProbability(playGame(rallyWinProbability, format, start).win, format.gamesToWin);
+
+  const even = matchProbability({ team1: 0, team2: 0 });
+  const underdog: 1 | 2 = even > 0.5 ? 2 : 1;
+
+  let best: HandicapSuggestion = { team: null, points: 0, team1WinProbability: even };
+  for (let points = 1; points <= format.pointsToWin - 2; points++) {
+    const probability = matchProbability(underdog === 2 ? { team1: 0, team2: points } : { team1: points, team2: 0 });
+    if (Math.abs(probability - 0.5) >= Math.abs(best.team1WinProbability - 0.5)) break;
+    best = { team: underdog, points, team1WinProbability: probability };
+  }
+
+  return best;
+}
+
+/**
+ * Predict a match between two rated sides (doubles sides as team composites)
+ */
+export function predictOutcome(
+  team1: Glicko2Rating,
+  team2: Glicko2Rating,
+  format: MatchFormatOptions = DEFAULT_MATCH_FORMAT
+): MatchPrediction {
+  const rallyWinProbability = rallyWinProbabilityFor(winProbability(team1, team2));
+  const game = predictGame(rallyWinProbability, format);
+
+  return {
+    format,
+    team1WinProbability: seriesWinProbability(game.team1WinProbability, format.gamesToWin),
+    gameWinProbability: game.team1WinProbability,
+    rallyWinProbability,
+    expectedScore: game.expectedScore,
+    handicap: suggestHandicap(rallyWinProbability, format)
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Multi-Currency Wallet
+ * Per-currency sub-balances ("pockets") of a digital credits wallet and the
+ * exchange rate arithmetic behind them.
+ *
+ * The wallet balance stays in USD cents, which is what bookings, classes and
+ * the ledger spend from. Credits bought in another currency sit in a pocket
+ * holding the native amount and the USD value it was bought at; the USD
+ * pocket is whatever part of the balance no other pocket accounts for.
+ * Spending takes from the USD pocket first and then from the other pockets,
+ * largest first, at the rate each was bought at.
+ *
+ * All amounts are in minor units (cents, fen).
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+export type FxRateSourceKind = 'identity' | 'provider' | 'manual' | 'fallback';
+
+/**
+ * A rate with where it came from, as stored with every conversion
+ */
+export interface FxRateQuote {
+  from: string;
+  to: string;
+  rate: number; // Units of `to` per unit of `from`
+  source: string;
+  sourceKind: FxRateSourceKind;
+  fetchedAt: Date;
+}
+
+export interface CurrencyPocket {
+  currency: string;
+  balanceMinor: number;
+  usdCents: number; // USD value at the rates the credits were bought at
+}
+
+/**
+ * Converts an amount in minor units at a rate, to the nearest minor unit
+ */
+export function convertMinor(amountMinor: number, rate: number): number {
+  return Math.round(amountMinor * rate);
+}
+
+/**
+ * Rate between two currencies from rates quoted per one USD
+ */
+export function crossRate(usdRates: Record<string, number>, from: string, to: string): number | null {
+  if (from === to) {
+    return 1;
+  }
+  const fromRate = from === BASE_CURRENCY ? 1 : usdRates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : usdRates[to];
+  if (!(fromRate > 0) || !(toRate > 0)) {
+    return null;
+  }
+  return toRate / fromRate;
+}
+
+/**
+ * Reads the rate table of a provider response at a dotted path, e.g.
+ * "rates" or "data.conversion_rates". Non-numeric and non-positive rates
+ * are dropped.
+ */
+export function ratesFromPayload(payload: unknown, path: string): Record<string, number> {
+  let node: any = payload;
+  for (const key of path.split('.').filter(Boolean)) {
+    node = node?.[key];
+  }
+
+  const rates: Record<string, number> = {};
+  if (node && typeof node === 'object') {
+    for (const [currency, value] of Object.entries(node)) {
+      const rate = Number(value);
+      if (Number.isFinite(rate) && rate > 0) {
+        rates[currency.toUpperCase()] = rate;
+      }
+    }
+  }
+  return rates;
+}
+
+/**
+ * Native amount of the credits a native payment buys, bonus included: the
+ * payment scaled by the credits its USD value earns
+ */
+export function nativeCreditsFor(paidMinor: number, paidUsdCents: number, creditedUsdCents: number): number {
+  if (paidUsdCents <= 0) {
+    return 0;
+  }
+  return Math.round(paidMinor * creditedUsdCents / paidUsdCents);
+}
+
+/**
+ * Every pocket of a wallet, the USD pocket first. Pockets that are empty
+ * are left out.
+ */
+export function walletPockets(totalUsdCents: number, stored: CurrencyPocket[]): CurrencyPocket[] {
+  const foreign = stored.filter(pocket => pocket.currency !== BASE_CURRENCY && (pocket.balanceMinor !== 0 || pocket.usdCents !== 0));
+  const usdCents = totalUsdCents - foreign.reduce((sum, pocket) => sum + pocket.usdCents, 0);
+  const pockets = [...foreign].sort((a, b) => a.currency.localeCompare(b.currency));
+  return usdCents !== 0 || pockets.length === 0
+    ? [{ currency: BASE_CURRENCY, balanceMinor: usdCents, usdCents }, ...pockets]
+    : pockets;
+}
+
+/**
+ * Changes to the foreign pockets when the wallet is debited in USD: only the
+ * part the USD pocket cannot cover is taken from them. Returns negative
+ * deltas per pocket.
+ */
+export function planPocketDebit(totalUsdCents: number, stored: CurrencyPocket[], debitUsdCents: number): CurrencyPocket[] {
+  const foreign = stored.filter(pocket => pocket.currency !== BASE_CURRENCY && pocket.usdCents > 0);
+  const usdPocket = totalUsdCents - foreign.reduce((sum, pocket) => sum + pocket.usdCents, 0);
+  let shortfall = debitUsdCents - Math.max(usdPocket, 0);
+
+  const deltas: CurrencyPocket[] = [];
+  for (const pocket of [...foreign].sort((a, b) => b.usdCents - a.usdCents || a.currency.localeCompare(b.currency))) {
+    if (shortfall <= 0) {
+      break;
+    }
+    const usdTaken = Math.min(pocket.usdCents, shortfall);
+    const minorTaken = usdTaken === pocket.usdCents
+      ? pocket.balanceMinor
+      : Math.round(pocket.balanceMinor * usdTaken / pocket.usdCents);
+    deltas.push({ currency: pocket.currency, balanceMinor: -minorTaken, usdCents: -usdTaken });
+    shortfall -= usdTaken;
+  }
+  return deltas;
+}
+
+/**
+ * Formats minor units as a major amount with two decimals, e.g. 12345 -> "123.45"
+ */
+export function formatMinor(amountMinor: number): string {
+  return (amountMinor / 100).toFixed(2);
+}
@@ -0,0 +1,125 @@
+/**
+ * OAuth Authorization Grant Helpers
+ *
+ * Pure helpers for the OAuth2 authorization code flow: PKCE (RFC 7636),
+ * scope parameters, and the redirect URIs a client may register and be sent
+ * back to.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Only S256; the plain method gives no protection if the challenge leaks
+export const PKCE_METHODS = ['S256'] as const;
+export type PkceMethod = typeof PKCE_METHODS[number];
+
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9\-_]{43}$/;
+
+export function isValidCodeVerifier(verifier: string): boolean {
+  return CODE_VERIFIER_PATTERN.test(verifier);
+}
+
+export function isValidCodeChallenge(challenge: string): boolean {
+  return CODE_CHALLENGE_PATTERN.test(challenge);
+}
+
+/**
+ * The S256 challenge for a code verifier
+ */
+export function pkceChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+/**
+ * Whether a code verifier answers the challenge sent with the authorization
+ * request
+ */
+export function verifyPkce(verifier: string, challenge: string, method: string): boolean {
+  if (method !== 'S256' || !isValidCodeVerifier(verifier)) {
+    return false;
+  }
+  const expected = Buffer.from(pkceChallenge(verifier));
+  const actual = Buffer.from(challenge);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Split a space-delimited scope parameter, dropping blanks and duplicates
+ */
+export function parseScopeParam(scope: unknown): string[] {
+  if (typeof scope !== 'string') {
+    return [];
+  }
+  return Array.from(new Set(scope.split(/\s+/).filter(Boolean)));
+}
+
+export interface ScopeResolution {
+  granted: string[];
+  unknown: string[]; // Not in the scope catalogue
+  notAllowed: string[]; // Known, but not registered for the client
+}
+
+/**
+ * Sort requested scopes into those the client may be granted and those it may
+ * not
+ */
+export function resolveRequestedScopes(
+  requested: string[],
+  allowed: string[],
+  known: string[]
+): ScopeResolution {
+  const resolution: ScopeResolution = { granted: [], unknown: [], notAllowed: [] };
+  for (const scope of requested) {
+    if (!known.includes(scope)) {
+      resolution.unknown.push(scope);
+    } else if (!allowed.includes(scope)) {
+      resolution.notAllowed.push(scope);
+    } else {
+      resolution.granted.push(scope);
+    }
+  }
+  return resolution;
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether a URI may be registered as a redirect URI: absolute, without a
+ * fragment, and HTTPS unless it points at the developer's own machine
+ */
+export function isValidRedirectUri(uri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (url.hash || url.username || url.password) {
+    return false;
+  }
+  if (url.protocol === 'https:') {
+    return true;
+  }
+  return url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname);
+}
+
+/**
+ * Redirect URIs must match a registered one exactly, so a client can never be
+ * sent codes at a path it did not register
+ */
+export function isRegisteredRedirectUri(registered: string[], uri: string): boolean {
+  return registered.includes(uri);
+}
+
+/**
+ * Add response parameters to a redirect URI, keeping its own query
+ */
+export function buildRedirectUrl(redirectUri: string, params: Record<string, string | undefined>): string {
+  const url = new URL(redirectUri);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value);
+    }
+  }
+  return url.toString();
+}
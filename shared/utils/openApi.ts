@@ -0,0 +1,168 @@
+/**
+ * OpenAPI Schemas from Zod
+ * Turns the zod schemas routes validate requests with into OpenAPI 3.0
+ * schemas, so published API documentation is generated from the same
+ * definitions the server enforces. Covers the zod types request schemas use:
+ * strings, numbers, booleans, dates, enums, literals, arrays, objects,
+ * records and unions, with optional, nullable, default and refined wrappers.
+ * Refinements and transforms are documented as the type they accept.
+ */
+
+import { z } from 'zod';
+
+export interface OpenApiSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: OpenApiSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  oneOf?: OpenApiSchema[];
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: OpenApiSchema;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time'
+};
+
+function stringSchema(schema: z.ZodString): OpenApiSchema {
+  const result: OpenApiSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') result.minLength = check.value;
+    else if (check.kind === 'max') result.maxLength = check.value;
+    else if (check.kind === 'length') result.minLength = result.maxLength = check.value;
+    else if (check.kind === 'regex') result.pattern = check.regex.source;
+    else if (STRING_FORMATS[check.kind]) result.format = STRING_FORMATS[check.kind];
+  }
+  return result;
+}
+
+function numberSchema(schema: z.ZodNumber): OpenApiSchema {
+  const result: OpenApiSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') {
+      result.type = 'integer';
+    } else if (check.kind === 'min') {
+      result.minimum = check.value;
+      if (!check.inclusive) result.exclusiveMinimum = true;
+    } else if (check.kind === 'max') {
+      result.maximum = check.value;
+      if (!check.inclusive) result.exclusiveMaximum = true;
+    }
+  }
+  return result;
+}
+
+function objectSchema(schema: z.ZodObject<z.ZodRawShape>): OpenApiSchema {
+  const properties: Record<string, OpenApiSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    properties[key] = zodToOpenApi(value);
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    ...(schema._def.unknownKeys === 'strict' && { additionalProperties: false })
+  };
+}
+
+function convert(schema: z.ZodTypeAny): OpenApiSchema {
+  if (schema instanceof z.ZodOptional) return zodToOpenApi(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return { ...zodToOpenApi(schema.unwrap()), nullable: true };
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToOpenApi(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) return zodToOpenApi(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return zodToOpenApi(schema._def.in);
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    return { type: typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string', enum: [value] };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength, exactLength } = schema._def;
+    return {
+      type: 'array',
+      items: zodToOpenApi(schema.element),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value }),
+      ...(exactLength && { minItems: exactLength.value, maxItems: exactLength.value })
+    };
+  }
+  if (schema instanceof z.ZodObject) return objectSchema(schema);
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: zodToOpenApi(schema.valueSchema) };
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: (schema.options as z.ZodTypeAny[]).map(option => zodToOpenApi(option)) };
+  }
+
+  // Anything else (any, unknown) accepts any value
+  return {};
+}
+
+/**
+ * OpenAPI schema for a zod schema, with its .describe() text as the description
+ */
+export function zodToOpenApi(schema: z.ZodTypeAny): OpenApiSchema {
+  const result = convert(schema);
+  return schema.description && !result.description
+    ? { ...result, description: schema.description }
+    : result;
+}
+
+/**
+ * One OpenAPI parameter per property of a query or path schema
+ */
+export function zodToOpenApiParameters(schema: z.ZodObject<z.ZodRawShape>, location: 'path' | 'query'): OpenApiParameter[] {
+  return Object.entries(schema.shape).map(([name, value]) => {
+    const { description, ...parameterSchema } = zodToOpenApi(value);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !value.isOptional(),
+      ...(description && { description }),
+      schema: parameterSchema
+    };
+  });
+}
+
+/**
+ * An Express route path in OpenAPI form: /tournaments/:id becomes /tournaments/{id}
+ */
+export function toOpenApiPath(expressPath: string): string {
+  return expressPath.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, '{$1}');
+}
@@ -0,0 +1,308 @@
+/**
+ * Coach Payout Calculator
+ * Works out what a coach is paid for a payout period: session revenue less
+ * the platform commission for their PCP level, plus approved adjustments.
+ * Totals below the coach's minimum are carried forward to the next run, and
+ * Wise transfer outcomes are reconciled against what was sent.
+ *
+ * All amounts are in cents.
+ */
+
+import { splitSessionRevenue } from './cancellationPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PayoutFrequency = 'weekly' | 'bi_weekly' | 'monthly';
+
+// Platform commission by PCP level when a coach has no rates of their own
+export const DEFAULT_LEVEL_COMMISSION_RATES: Record<number, number> = { 1: 15, 2: 13, 3: 12, 4: 10, 5: 8 };
+
+export interface PayoutSessionInput {
+  id: number;
+  sessionDate: Date;
+  sessionType: string;
+  grossCents: number;
+  pcpLevel: number; // Coach's level when the session took place
+  recordedCommissionRate: number; // Rate stored on the transaction
+}
+
+export type PayoutAdjustmentType = 'bonus' | 'penalty' | 'correction' | 'refund' | 'chargeback';
+
+export interface PayoutAdjustmentInput {
+  id: number;
+  type: string;
+  amountCents: number; // Negative for deductions
+  reason: string;
+}
+
+export interface PayoutLine {
+  kind: 'session' | 'adjustment';
+  referenceId: number;
+  date: Date | null;
+  description: string;
+  grossCents: number;
+  commissionRate: number | null;
+  platformFeeCents: number;
+  netCents: number;
+}
+
+export interface CoachPayoutCalculation {
+  sessions: number;
+  grossRevenueCents: number;
+  platformFeesCents: number;
+  netPayoutCents: number; // Session earnings after commission
+  bonusesCents: number;
+  penaltiesCents: number; // Stored as a positive amount
+  otherAdjustmentsCents: number; // Corrections, refunds and chargebacks
+  finalAmountCents: number;
+  payable: boolean; // False when the total is carried forward
+  lines: PayoutLine[];
+}
+
+/**
+ * Parses a coach's level commission table, e.g. {"1": 15, "2": 13}
+ */
+export function parseLevelCommissionRates(raw: string | null | undefined): Record<number, number> {
+  if (!raw) {
+    return { ...DEFAULT_LEVEL_COMMISSION_RATES };
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const rates: Record<number, number> = {};
+    for (const [level, rate] of Object.entries(parsed)) {
+      const value = Number(rate);
+      if (Number.isInteger(Number(level)) && Number.isFinite(value) && value >= 0 && value <= 100) {
+        rates[Number(level)] = value;
+      }
+    }
+    return Object.keys(rates).length > 0 ? rates : { ...DEFAULT_LEVEL_COMMISSION_RATES };
+  } catch {
+    return { ...DEFAULT_LEVEL_COMMISSION_RATES };
+  }
+}
+
+/**
+ * The commission for the coach's PCP level at the time of the session,
+ * falling back to the rate recorded on the transaction
+ */
+export function commissionRateFor(session: PayoutSessionInput, levelRates: Record<number, number>): number {
+  return levelRates[session.pcpLevel] ?? session.recordedCommissionRate;
+}
+
+/**
+ * Totals a coach's unpaid sessions and adjustments for one payout run
+ */
+export function calculateCoachPayout(
+  sessions: PayoutSessionInput[],
+  adjustments: PayoutAdjustmentInput[],
+  options: { levelRates: Record<number, number>, minimumPayoutCents: number }
+): CoachPayoutCalculation {
+  const lines: PayoutLine[] = [];
+  let grossRevenueCents = 0;
+  let platformFeesCents = 0;
+
+  const ordered = [...sessions].sort((a, b) => a.sessionDate.getTime() - b.sessionDate.getTime() || a.id - b.id);
+  for (const session of ordered) {
+    const rate = commissionRateFor(session, options.levelRates);
+    const revenue = splitSessionRevenue(session.grossCents, rate);
+    grossRevenueCents += revenue.grossCents;
+    platformFeesCents += revenue.platformFeeCents;
+    lines.push({
+      kind: 'session',
+      referenceId: session.id,
+      date: session.sessionDate,
+      description: `${session.sessionType} session (PCP level ${session.pcpLevel})`,
+      grossCents: revenue.grossCents,
+      commissionRate: rate,
+      platformFeeCents: revenue.platformFeeCents,
+      netCents: revenue.coachEarningsCents
+    });
+  }
+
+  let bonusesCents = 0;
+  let penaltiesCents = 0;
+  let otherAdjustmentsCents = 0;
+  for (const adjustment of [...adjustments].sort((a, b) => a.id - b.id)) {
+    if (adjustment.type === 'bonus') {
+      bonusesCents += adjustment.amountCents;
+    } else if (adjustment.type === 'penalty') {
+      penaltiesCents += Math.abs(adjustment.amountCents);
+    } else {
+      otherAdjustmentsCents += adjustment.amountCents;
+    }
+    lines.push({
+      kind: 'adjustment',
+      referenceId: adjustment.id,
+      date: null,
+      description: `${adjustment.type}: ${adjustment.reason}`,
+      grossCents: 0,
+      commissionRate: null,
+      platformFeeCents: 0,
+      netCents: adjustment.type === 'penalty' ? -Math.abs(adjustment.amountCents) : adjustment.amountCents
+    });
+  }
+
+  const netPayoutCents = grossRevenueCents - platformFeesCents;
+  const finalAmountCents = netPayoutCents + bonusesCents - penaltiesCents + otherAdjustmentsCents;
+
+  return {
+    sessions: sessions.length,
+    grossRevenueCents,
+    platformFeesCents,
+    netPayoutCents,
+    bonusesCents,
+    penaltiesCents,
+    otherAdjustmentsCents,
+    finalAmountCents,
+    payable: finalAmountCents > 0 && finalAmountCents >= options.minimumPayoutCents,
+    lines
+  };
+}
+
+/**
+ * Whether a coach's payout frequency calls for a payout at the end of this
+ * period, given the end of the last period they were paid for
+ */
+export function isPayoutDue(frequency: string | null | undefined, lastPaidPeriodEnd: Date | null, periodEnd: Date): boolean {
+  if (!lastPaidPeriodEnd) {
+    return true;
+  }
+
+  switch (frequency) {
+    case 'monthly':
+      return periodEnd.getUTCFullYear() * 12 + periodEnd.getUTCMonth()
+        > lastPaidPeriodEnd.getUTCFullYear() * 12 + lastPaidPeriodEnd.getUTCMonth();
+    case 'bi_weekly':
+      return periodEnd.getTime() - lastPaidPeriodEnd.getTime() >= 14 * DAY_MS;
+    default:
+      return periodEnd.getTime() - lastPaidPeriodEnd.getTime() >= 7 * DAY_MS;
+  }
+}
+
+export type PayoutTransferOutcome = 'processing' | 'completed' | 'failed';
+
+// Wise transfer states, https://docs.wise.com/api-docs/api-reference/transfer
+const COMPLETED_TRANSFER_STATES = ['outgoing_payment_sent'];
+const FAILED_TRANSFER_STATES = ['cancelled', 'funds_refunded', 'bounced_back', 'charged_back'];
+
+export interface TransferReconciliation {
+  outcome: PayoutTransferOutcome;
+  discrepancyCents: number; // Sent minus owed; non-zero needs a manual check
+}
+
+/**
+ * Compares a Wise transfer with the payout it was meant to settle
+ */
+export function reconcileTransfer(
+  owedCents: number,
+  transfer: { status: string, sourceAmount: number }
+): TransferReconciliation {
+  const status = transfer.status.toLowerCase();
+  const outcome: PayoutTransferOutcome = COMPLETED_TRANSFER_STATES.includes(status)
+    ? 'completed'
+    : FAILED_TRANSFER_STATES.includes(status) ? 'failed' : 'processing';
+
+  return {
+    outcome,
+    discrepancyCents: outcome === 'failed' ? 0 : Math.round(transfer.sourceAmount * 100) - owedCents
+  };
+}
+
+export interface PayoutStatement {
+  statementNumber: string;
+  coachName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  status: string;
+  calculation: Omit<CoachPayoutCalculation, 'payable' | 'sessions'> & { sessions: number };
+}
+
+function money(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function day(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : '';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One CSV row per session and adjustment, followed by the totals
+ */
+export function renderStatementCsv(statement: PayoutStatement): string {
+  const { calculation } = statement;
+  const rows: string[][] = [
+    ['Date', 'Type', 'Reference', 'Description', 'Gross', 'Commission %', 'Platform fee', 'Net']
+  ];
+
+  for (const line of calculation.lines) {
+    rows.push([
+      day(line.date),
+      line.kind,
+      String(line.referenceId),
+      line.description,
+      money(line.grossCents),
+      line.commissionRate === null ? '' : String(line.commissionRate),
+      money(line.platformFeeCents),
+      money(line.netCents)
+    ]);
+  }
+
+  rows.push([]);
+  rows.push(['', 'total', '', 'Gross revenue', money(calculation.grossRevenueCents), '', money(calculation.platformFeesCents), money(calculation.netPayoutCents)]);
+  rows.push(['', 'total', '', 'Bonuses', '', '', '', money(calculation.bonusesCents)]);
+  rows.push(['', 'total', '', 'Penalties', '', '', '', money(-calculation.penaltiesCents)]);
+  rows.push(['', 'total', '', 'Other adjustments', '', '', '', money(calculation.otherAdjustmentsCents)]);
+  rows.push(['', 'total', '', `Final amount (${statement.currency})`, '', '', '', money(calculation.finalAmountCents)]);
+
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * The statement as plain text lines, for printing or a PDF page
+ */
+export function statementTextLines(statement: PayoutStatement): string[] {
+  const { calculation } = statement;
+  const lines = [
+    `Statement ${statement.statementNumber}`,
+    `Coach: ${statement.coachName}`,
+    `Period: ${day(statement.periodStart)} to ${day(statement.periodEnd)}`,
+    `Status: ${statement.status.replace(/_/g, ' ')}`,
+    '',
+    `Sessions (${calculation.sessions})`
+  ];
+
+  for (const line of calculation.lines.filter(l => l.kind === 'session')) {
+    lines.push(`  ${day(line.date)}  ${line.description}  gross ${money(line.grossCents)}  fee ${line.commissionRate}% ${money(line.platformFeeCents)}  net ${money(line.netCents)}`);
+  }
+
+  const adjustments = calculation.lines.filter(l => l.kind === 'adjustment');
+  if (adjustments.length > 0) {
+    lines.push('', 'Adjustments');
+    for (const line of adjustments) {
+      lines.push(`  ${line.description}  ${money(line.netCents)}`);
+    }
+  }
+
+  lines.push(
+    '',
+    `Gross revenue: ${money(calculation.grossRevenueCents)}`,
+    `Platform fees: ${money(calculation.platformFeesCents)}`,
+    `Net session earnings: ${money(calculation.netPayoutCents)}`,
+    `Bonuses: ${money(calculation.bonusesCents)}`,
+    `Penalties: ${money(-calculation.penaltiesCents)}`,
+    `Other adjustments: ${money(calculation.otherAdjustmentsCents)}`,
+    `Final amount: ${money(calculation.finalAmountCents)} ${statement.currency}`
+  );
+
+  if (statement.status === 'carried_forward') {
+    lines.push('', 'Below the minimum payout; carried forward to the next payout run.');
+  }
+
+  return lines;
+}
@@ -0,0 +1,198 @@
+/**
+ * Points Rule Engine
+ * Applies a versioned points ruleset (base points, age/gender/event multipliers,
+ * thresholds and rounding) to a single player's match result.
+ * References: PICKLE_PLUS_ALGORITHM_DOCUMENT.md
+ *
+ * Rulesets are stored in the points_rulesets table so a season's rules can
+ * change without a deploy. DEFAULT_POINTS_RULESET mirrors the official
+ * algorithm and is used until a ruleset has been activated.
+ */
+
+import { z } from 'zod';
+
+export const pointsRuleDefinitionSchema = z.object({
+  basePoints: z.object({
+    win: z.number().min(0),
+    loss: z.number().min(0)
+  }),
+  // Keyed by age group: Open, U19, 35+, 50+, 60+, 70+ ...
+  ageMultipliers: z.record(z.number().positive()),
+  genderBonus: z.object({
+    multiplier: z.number().positive(),
+    eligibleGender: z.enum(['male', 'female']),
+    pointsThreshold: z.number().min(0), // Players at or above this total receive no bonus
+    appliesTo: z.enum(['winner', 'loser', 'both']),
+    crossGenderOnly: z.boolean()
+  }),
+  // Keyed by event type: tournament, league, casual
+  eventMultipliers: z.record(z.number().positive()),
+  picklePointsMultiplier: z.number().min(0),
+  rounding: z.object({
+    decimals: z.number().int().min(0).max(4),
+    mode: z.enum(['round', 'floor', 'ceil'])
+  })
+});
+
+export type PointsRuleDefinition = z.infer<typeof pointsRuleDefinitionSchema>;
+
+export interface PointsRuleset {
+  version: number;
+  name: string;
+  rules: PointsRuleDefinition;
+}
+
+/**
+ * System B rules from the official algorithm document
+ */
+export const DEFAULT_POINTS_RULES: PointsRuleDefinition = {
+  basePoints: { win: 3, loss: 1 },
+  ageMultipliers: {
+    'Pro': 1.0,
+    'Open': 1.0,
+    'U12': 1.0,
+    'U14': 1.0,
+    'U16': 1.0,
+    'U18': 1.0,
+    'U19': 1.0,
+    '35+': 1.2,
+    '50+': 1.3,
+    '60+': 1.5,
+    '70+': 1.6
+  },
+  genderBonus: {
+    multiplier: 1.15,
+    eligibleGender: 'female',
+    pointsThreshold: 1000,
+    appliesTo: 'both',
+    crossGenderOnly: true
+  },
+  eventMultipliers: {
+    'tournament': 1.0,
+    'league': 1.0,
+    'casual': 1.0
+  },
+  picklePointsMultiplier: 1.5,
+  rounding: { decimals: 2, mode: 'round' }
+};
+
+/**
+ * Built-in ruleset used when no ruleset has been activated (version 0)
+ */
+export const DEFAULT_POINTS_RULESET: PointsRuleset = {
+  version: 0,
+  name: 'System B (built-in)',
+  rules: DEFAULT_POINTS_RULES
+};
+
+export interface PointsCalculationInput {
+  isWin: boolean;
+  ageGroup?: string;
+  gender?: string;
+  currentRankingPoints?: number;
+  eventType?: string;
+  eventMultiplier?: number; // Explicit override of the ruleset's event multiplier
+  isCrossGender?: boolean;
+}
+
+export interface PointsCalculationBreakdown {
+  rulesetVersion: number;
+  basePoints: number;
+  ageMultiplier: number;
+  genderMultiplier: number;
+  eventMultiplier: number;
+  rankingPoints: number;
+  picklePoints: number;
+}
+
+/**
+ * Validate a ruleset definition
+ *
+ * @returns List of validation errors (empty when valid)
+ */
+export function validatePointsRules(rules: unknown): string[] {
+  const result = pointsRuleDefinitionSchema.safeParse(rules);
+  if (result.success) return [];
+  return result.error.errors.map(error => `${error.path.join('.') || 'rules'}: ${error.message}`);
+}
+
+/**
+ * Round a value using the ruleset's rounding settings
+ */
+export function applyRounding(value: number, rounding: PointsRuleDefinition['rounding']): number {
+  const factor = Math.pow(10, rounding.decimals);
+  const scaled = value * factor;
+  const rounded = rounding.mode === 'floor'
+    ? Math.floor(scaled + 1e-9)
+    : rounding.mode === 'ceil'
+      ? Math.ceil(scaled - 1e-9)
+      : Math.round(scaled);
+  return rounded / factor;
+}
+
+/**
+ * Gender multiplier for a player under the given rules
+ */
+export function getGenderMultiplier(rules: PointsRuleDefinition, input: PointsCalculationInput): number {
+  const bonus = rules.genderBonus;
+
+  if (input.gender !== bonus.eligibleGender) return 1.0;
+  if ((input.currentRankingPoints || 0) >= bonus.pointsThreshold) return 1.0;
+  if (bonus.crossGenderOnly && !input.isCrossGender) return 1.0;
+  if (bonus.appliesTo === 'winner' && !input.isWin) return 1.0;
+  if (bonus.appliesTo === 'loser' && input.isWin) return 1.0;
+
+  return bonus.multiplier;
+}
+
+/**
+ * Calculate a player's points for one match under a ruleset
+ */
+export function calculatePointsWithRules(
+  ruleset: PointsRuleset,
+  input: PointsCalculationInput
+): PointsCalculationBreakdown {
+  const rules = ruleset.rules;
+
+  const basePoints = input.isWin ? rules.basePoints.win : rules.basePoints.loss;
+  const ageMultiplier = rules.ageMultipliers[input.ageGroup || 'Open'] ?? 1.0;
+  const genderMultiplier = getGenderMultiplier(rules, input);
+  const eventMultiplier = input.eventMultiplier ?? rules.eventMultipliers[input.eventType || 'casual'] ?? 1.0;
+
+  const rankingPoints = applyRounding(basePoints * ageMultiplier * genderMultiplier * eventMultiplier, rules.rounding);
+  const picklePoints = applyRounding(rankingPoints * rules.picklePointsMultiplier, rules.rounding);
+
+  return {
+    rulesetVersion: ruleset.version,
+    basePoints,
+    ageMultiplier,
+    genderMultiplier,
+    eventMultiplier,
+    rankingPoints,
+    picklePoints
+  };
+}
+
+/**
+ * True when the match has players of more than one (known) gender
+ */
+export function isCrossGenderMatch(genders: Array<string | null | undefined>): boolean {
+  const known = new Set(genders.filter(gender => gender === 'male' || gender === 'female'));
+  return known.size > 1;
+}
+
+/**
+ * Age group (as used by ageMultipliers) of a player on a given date
+ */
+export function getAgeGroupAt(dateOfBirth: Date | string, at: Date = new Date()): string {
+  const birthDate = typeof dateOfBirth === 'string' ? new Date(dateOfBirth) : dateOfBirth;
+  const age = at.getFullYear() - birthDate.getFullYear() -
+    (at < new Date(at.getFullYear(), birthDate.getMonth(), birthDate.getDate()) ? 1 : 0);
+
+  if (age >= 70) return '70+';
+  if (age >= 60) return '60+';
+  if (age >= 50) return '50+';
+  if (age >= 35) return '35+';
+  if (age < 19) return 'U19';
+  return 'Open';
+}
@@ -0,0 +1,278 @@
+/**
+ * Promo Codes
+ * Discounts for session bookings, class enrollments and tournament entry.
+ *
+ * A campaign holds the discount and who it is for; its codes carry the
+ * usage limits. A code applies when the campaign is active and in its date
+ * window, the purchase is of the kind the campaign targets (a coach, a
+ * tournament, a first booking), the code has uses left overall and for the
+ * user, and the way the rest is paid is one the campaign stacks with.
+ *
+ * All amounts are in cents.
+ */
+
+export const PROMO_TARGET_TYPES = ['session_booking', 'class_enrollment', 'tournament_entry'] as const;
+
+export type PromoTargetType = typeof PROMO_TARGET_TYPES[number];
+export type PromoDiscountType = 'percentage' | 'fixed' | 'free_session';
+export type PromoPaymentMethod = 'credits' | 'gift_card' | 'external';
+export type PromoCodeUsage = 'single_use' | 'multi_use';
+
+const TARGET_LABELS: Record<PromoTargetType, string> = {
+  session_booking: 'session bookings',
+  class_enrollment: 'classes',
+  tournament_entry: 'tournament entry'
+};
+
+/**
+ * The discount and eligibility rules of a campaign
+ */
+export interface PromoCampaignTerms {
+  status: string; // active, paused, ended
+  discountType: PromoDiscountType;
+  discountValue: number; // Percent for percentage, cents for fixed; unused for free sessions
+  maxDiscountCents: number | null;
+  appliesTo: PromoTargetType | 'any';
+  firstBookingOnly: boolean;
+  coachIds: number[] | null;
+  tournamentIds: number[] | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  minAmountCents: number;
+  stacksWithCredits: boolean;
+  stacksWithGiftCards: boolean;
+}
+
+export interface PromoCodeUsageLimits {
+  active: boolean;
+  maxRedemptions: number | null; // Null for unlimited
+  redemptionCount: number;
+  perUserLimit: number;
+}
+
+/**
+ * The purchase a code is applied to
+ */
+export interface PromoPurchase {
+  targetType: PromoTargetType;
+  priceCents: number;
+  coachId: number | null;
+  tournamentId: number | null;
+  paymentMethod: PromoPaymentMethod;
+  now: Date;
+  priorBookings: number; // Earlier bookings and enrollments of the user
+  userRedemptions: number; // Earlier uses of this code by the user
+}
+
+export interface PromoEvaluation {
+  eligible: boolean;
+  reasons: string[];
+  originalCents: number;
+  discountCents: number;
+  finalCents: number;
+}
+
+export interface PromoRedemptionRow {
+  userId: number;
+  codeId: number;
+  targetType: string;
+  originalAmountCents: number;
+  discountCents: number;
+  finalAmountCents: number;
+  status: string; // applied, reversed
+  redeemedAt: Date;
+}
+
+export interface PromoRedemptionSummary {
+  redemptions: number;
+  uniqueUsers: number;
+  grossCents: number;
+  discountCents: number;
+  netCents: number;
+  reversed: number;
+  byTarget: Record<string, { redemptions: number, discountCents: number }>;
+  byDay: { date: string, redemptions: number, discountCents: number }[];
+}
+
+// Letters and digits without the ones that are easy to misread (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Random code of unambiguous characters after an optional prefix, e.g.
+ * "SPRING-7KQ2M9XD"
+ *
+ * @param randomIndex - Returns an integer in [0, max); injectable for tests
+ */
+export function generatePromoCode(
+  prefix: string = '',
+  length: number = 8,
+  randomIndex: (max: number) => number = max => Math.floor(Math.random() * max)
+): string {
+  let body = '';
+  for (let i = 0; i < length; i++) {
+    body += CODE_ALPHABET.charAt(randomIndex(CODE_ALPHABET.length));
+  }
+  const head = normalizePromoCode(prefix);
+  return head ? `${head}-${body}` : body;
+}
+
+/**
+ * Codes are matched case-insensitively and without surrounding spaces
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Checks the terms of a new or changed campaign
+ */
+export function validatePromoCampaign(terms: Partial<PromoCampaignTerms>): string[] {
+  const errors: string[] = [];
+
+  if (terms.discountType === 'percentage' && (terms.discountValue === undefined || terms.discountValue <= 0 || terms.discountValue > 100)) {
+    errors.push('A percentage discount must be between 1 and 100');
+  }
+  if (terms.discountType === 'fixed' && (terms.discountValue === undefined || terms.discountValue <= 0)) {
+    errors.push('A fixed discount must be more than zero');
+  }
+  if (terms.maxDiscountCents !== undefined && terms.maxDiscountCents !== null && terms.maxDiscountCents <= 0) {
+    errors.push('The discount cap must be more than zero');
+  }
+  if (terms.startsAt && terms.endsAt && terms.endsAt <= terms.startsAt) {
+    errors.push('The campaign must end after it starts');
+  }
+  if (terms.tournamentIds?.length && terms.appliesTo !== 'tournament_entry') {
+    errors.push('Tournament restrictions need a tournament entry campaign');
+  }
+  if (terms.discountType === 'free_session' && terms.appliesTo === 'tournament_entry') {
+    errors.push('Free sessions do not apply to tournament entry');
+  }
+
+  return errors;
+}
+
+/**
+ * Discount on a price, never more than the price or the campaign cap
+ */
+export function calculatePromoDiscount(
+  terms: Pick<PromoCampaignTerms, 'discountType' | 'discountValue' | 'maxDiscountCents'>,
+  priceCents: number
+): number {
+  let discount: number;
+  switch (terms.discountType) {
+    case 'percentage':
+      discount = Math.round(priceCents * terms.discountValue / 100);
+      break;
+    case 'fixed':
+      discount = terms.discountValue;
+      break;
+    case 'free_session':
+      discount = priceCents;
+      break;
+  }
+
+  if (terms.maxDiscountCents !== null) {
+    discount = Math.min(discount, terms.maxDiscountCents);
+  }
+  return Math.max(0, Math.min(discount, priceCents));
+}
+
+/**
+ * Whether a code applies to a purchase and what it takes off
+ */
+export function evaluatePromo(terms: PromoCampaignTerms, code: PromoCodeUsageLimits, purchase: PromoPurchase): PromoEvaluation {
+  const reasons: string[] = [];
+
+  if (!code.active || terms.status !== 'active') {
+    reasons.push('This promo code is not active');
+  }
+  if (terms.startsAt && purchase.now < terms.startsAt) {
+    reasons.push('This promo code is not valid yet');
+  }
+  if (terms.endsAt && purchase.now > terms.endsAt) {
+    reasons.push('This promo code has expired');
+  }
+  if (code.maxRedemptions !== null && code.redemptionCount >= code.maxRedemptions) {
+    reasons.push('This promo code has been used up');
+  }
+  if (purchase.userRedemptions >= code.perUserLimit) {
+    reasons.push('You have already used this promo code');
+  }
+
+  if (terms.appliesTo !== 'any' && terms.appliesTo !== purchase.targetType) {
+    reasons.push(`This promo code is for ${TARGET_LABELS[terms.appliesTo]} only`);
+  }
+  if (terms.discountType === 'free_session' && purchase.targetType === 'tournament_entry') {
+    reasons.push('Free sessions do not apply to tournament entry');
+  }
+  if (terms.firstBookingOnly && purchase.priorBookings > 0) {
+    reasons.push('This promo code is for a first booking only');
+  }
+  if (terms.coachIds?.length && (purchase.coachId === null || !terms.coachIds.includes(purchase.coachId))) {
+    reasons.push('This promo code does not apply to this coach');
+  }
+  if (terms.tournamentIds?.length && (purchase.tournamentId === null || !terms.tournamentIds.includes(purchase.tournamentId))) {
+    reasons.push('This promo code does not apply to this tournament');
+  }
+  if (purchase.priceCents < terms.minAmountCents) {
+    reasons.push(`This promo code needs a purchase of at least ${(terms.minAmountCents / 100).toFixed(2)}`);
+  }
+
+  const discountCents = reasons.length === 0 ? calculatePromoDiscount(terms, purchase.priceCents) : 0;
+  const finalCents = purchase.priceCents - discountCents;
+
+  // Stacking only matters when something is left to pay
+  if (reasons.length === 0 && finalCents > 0) {
+    if (purchase.paymentMethod === 'credits' && !terms.stacksWithCredits) {
+      reasons.push('This promo code cannot be combined with credits');
+    }
+    if (purchase.paymentMethod === 'gift_card' && !terms.stacksWithGiftCards) {
+      reasons.push('This promo code cannot be combined with gift cards');
+    }
+  }
+
+  const eligible = reasons.length === 0;
+  return {
+    eligible,
+    reasons,
+    originalCents: purchase.priceCents,
+    discountCents: eligible ? discountCents : 0,
+    finalCents: eligible ? finalCents : purchase.priceCents
+  };
+}
+
+/**
+ * Redemption totals for campaign dashboards. Reversed redemptions are
+ * counted separately and left out of the totals.
+ */
+export function summarizePromoRedemptions(rows: PromoRedemptionRow[]): PromoRedemptionSummary {
+  const applied = rows.filter(row => row.status !== 'reversed');
+  const byTarget: PromoRedemptionSummary['byTarget'] = {};
+  const byDay = new Map<string, { date: string, redemptions: number, discountCents: number }>();
+
+  for (const row of applied) {
+    const target = byTarget[row.targetType] ?? { redemptions: 0, discountCents: 0 };
+    target.redemptions += 1;
+    target.discountCents += row.discountCents;
+    byTarget[row.targetType] = target;
+
+    const date = row.redeemedAt.toISOString().slice(0, 10);
+    const day = byDay.get(date) ?? { date, redemptions: 0, discountCents: 0 };
+    day.redemptions += 1;
+    day.discountCents += row.discountCents;
+    byDay.set(date, day);
+  }
+
+  const grossCents = applied.reduce((sum, row) => sum + row.originalAmountCents, 0);
+  const discountCents = applied.reduce((sum, row) => sum + row.discountCents, 0);
+  return {
+    redemptions: applied.length,
+    uniqueUsers: new Set(applied.map(row => row.userId)).size,
+    grossCents,
+    discountCents,
+    netCents: grossCents - discountCents,
+    reversed: rows.length - applied.length,
+    byTarget,
+    byDay: Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * API Rate Limit Algorithms
+ * Decides whether a request fits a limit given the limit's stored state, and
+ * returns the new state to store. Stores keep the state (in Postgres or in
+ * memory) and apply these functions under a lock, so the results hold
+ * across restarts and instances.
+ *
+ * Sliding window weights the previous fixed window's count by how much of it
+ * still overlaps the window ending now, which smooths out the burst a plain
+ * fixed window allows at each boundary. Token bucket refills `limit` tokens
+ * per window into a bucket of `burst` tokens, allowing short bursts above the
+ * average rate.
+ */
+
+export const RATE_LIMIT_ALGORITHMS = ['sliding_window', 'token_bucket'] as const;
+export type RateLimitAlgorithm = typeof RATE_LIMIT_ALGORITHMS[number];
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number; // Requests (or cost units) per window
+  windowSeconds: number;
+  burst?: number | null; // Token bucket capacity; defaults to limit
+}
+
+export interface SlidingWindowState {
+  windowStart: number; // Epoch ms of the current fixed window
+  count: number;
+  previousCount: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number; // Epoch ms of the last refill
+}
+
+export type RateLimitState = SlidingWindowState | TokenBucketState;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date; // When the limit is fully available again
+  retryAfterSeconds: number | null; // Set when the request was refused
+}
+
+export interface RateLimitResult {
+  decision: RateLimitDecision;
+  state: RateLimitState;
+}
+
+/**
+ * Apply a request of the given cost to a limit. Refused requests leave the
+ * state unchanged apart from rolling the window or refilling the bucket.
+ */
+export function applyRateLimit(rule: RateLimitRule, state: RateLimitState | null, now: Date, cost: number = 1): RateLimitResult {
+  return rule.algorithm === 'token_bucket'
+    ? applyTokenBucket(rule, state as TokenBucketState | null, now, cost)
+    : applySlidingWindow(rule, state as SlidingWindowState | null, now, cost);
+}
+
+function applySlidingWindow(rule: RateLimitRule, state: SlidingWindowState | null, now: Date, cost: number): RateLimitResult {
+  const windowMs = rule.windowSeconds * 1000;
+  const at = now.getTime();
+  const windowStart = Math.floor(at / windowMs) * windowMs;
+
+  let current = { windowStart, count: 0, previousCount: 0 };
+  if (state && state.windowStart === windowStart) {
+    current = { ...state };
+  } else if (state && state.windowStart === windowStart - windowMs) {
+    current.previousCount = state.count;
+  }
+
+  const overlap = 1 - (at - windowStart) / windowMs;
+  const weighted = (count: number) => current.previousCount * overlap + count;
+  const allowed = weighted(current.count + cost) <= rule.limit;
+  if (allowed) {
+    current.count += cost;
+  }
+
+  // Until the previous window's weight has drained enough to fit this cost
+  let retryAfterSeconds: number | null = null;
+  if (!allowed) {
+    const spare = rule.limit - current.count - cost;
+    const waitMs = spare < 0 || current.previousCount === 0
+      ? windowStart + windowMs - at
+      : (overlap - spare / current.previousCount) * windowMs;
+    retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+  }
+
+  return {
+    decision: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - weighted(current.count))),
+      resetAt: new Date(current.count > 0 ? windowStart + 2 * windowMs : windowStart + windowMs),
+      retryAfterSeconds
+    },
+    state: current
+  };
+}
+
+function applyTokenBucket(rule: RateLimitRule, state: TokenBucketState | null, now: Date, cost: number): RateLimitResult {
+  const capacity = rule.burst ?? rule.limit;
+  const perMs = rule.limit / (rule.windowSeconds * 1000);
+  const at = now.getTime();
+
+  const elapsed = state ? Math.max(0, at - state.updatedAt) : 0;
+  let tokens = state ? Math.min(capacity, state.tokens + elapsed * perMs) : capacity;
+  const allowed = tokens >= cost;
+  if (allowed) {
+    tokens -= cost;
+  }
+
+  return {
+    decision: {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetAt: new Date(at + Math.ceil((capacity - tokens) / perMs)),
+      retryAfterSeconds: allowed ? null : Math.max(1, Math.ceil((cost - tokens) / perMs / 1000))
+    },
+    state: { tokens, updatedAt: at }
+  };
+}
+
+/**
+ * How long a limit's state matters after its last use; stores may drop it then
+ */
+export function rateLimitStateTtlMs(rule: RateLimitRule): number {
+  return rule.windowSeconds * 1000 * 2;
+}
+
+/**
+ * The calendar month (UTC) a monthly quota is counted in
+ */
+export function quotaPeriod(now: Date): { start: Date, end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+/**
+ * The most restrictive of several decisions: any refusal, else the one with
+ * the fewest requests left
+ */
+export function mostRestrictive(decisions: RateLimitDecision[]): RateLimitDecision {
+  return decisions.reduce((worst, decision) => {
+    if (worst.allowed !== decision.allowed) {
+      return decision.allowed ? worst : decision;
+    }
+    return decision.remaining < worst.remaining ? decision : worst;
+  });
+}
+
+/**
+ * X-RateLimit-* headers for a decision; Reset is in epoch seconds
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(decision.resetAt.getTime() / 1000))
+  };
+  if (decision.retryAfterSeconds !== null) {
+    headers['Retry-After'] = String(decision.retryAfterSeconds);
+  }
+  return headers;
+}
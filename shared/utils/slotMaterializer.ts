@@ -0,0 +1,329 @@
+/**
+ * Slot Materializer
+ * Turns weekly coach availability rules into concrete booking slots and
+ * reconciles them with the slots already stored.
+ *
+ * Rules are wall-clock windows in the coach's time zone, so a 09:00 session
+ * stays at 09:00 local time across daylight saving changes. Start times that
+ * do not exist locally (skipped by a DST change) produce no slot.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Timing and placement of one availability rule
+ */
+export interface AvailabilityRule {
+  id: number;
+  dayOfWeek: number; // 0=Sunday
+  startTime: string; // HH:MM or HH:MM:SS, local to timeZone
+  endTime: string;
+  sessionDuration: number; // Minutes
+  isRecurring: boolean; // Otherwise only the first matching day on or after effectiveDate
+  effectiveDate: Date | null;
+  expiryDate: Date | null;
+  timeZone: string; // IANA time zone
+  location: string | null;
+  courtNumber: string | null;
+}
+
+export interface TimeOffPeriod {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * A slot already stored, with its live booking count
+ */
+export interface ExistingSlot {
+  id: number;
+  availabilityId: number | null; // Null for slots the coach created by hand
+  startTime: Date;
+  endTime: Date;
+  bookingCount: number;
+  status: string | null;
+  location: string | null;
+  courtNumber: string | null;
+}
+
+/**
+ * A slot the availability rules call for
+ */
+export interface PlannedSlot {
+  availabilityId: number;
+  localDate: string; // YYYY-MM-DD in the rule's time zone
+  startTime: Date;
+  endTime: Date;
+}
+
+export type SkippedSlotReason = 'time_off' | 'booking_conflict' | 'slot_overlap' | 'court_conflict';
+
+export interface SlotMaterializationPlan {
+  create: PlannedSlot[];
+  update: Array<{ slotId: number, slot: PlannedSlot }>; // Unbooked slots kept, refreshed from their rule
+  keep: number[]; // Booked slots still matching their rule, left untouched
+  remove: number[]; // Unbooked slots no longer called for
+  preserved: Array<{ slotId: number, reason: 'booked' }>; // Booked slots no longer called for
+  skipped: Array<{ slot: PlannedSlot, reason: SkippedSlotReason, conflictSlotId?: number }>;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the runtime knows an IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function toZonedParts(date: Date, timeZone: string): {
+  year: number, month: number, day: number, hour: number, minute: number
+} {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+function offsetMinutes(instant: number, timeZone: string): number {
+  const local = toZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return Math.round((asUtc - Math.floor(instant / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+/**
+ * Instant of a wall-clock time in a time zone, or null when that time is
+ * skipped by a daylight saving change. Repeated times resolve to the first.
+ */
+export function zonedTimeToUtc(localDate: string, minutesOfDay: number, timeZone: string): Date | null {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const naive = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+
+  // Try the offsets either side of the wall time, earliest instant first
+  const candidates = Array.from(new Set([
+    offsetMinutes(naive - DAY_MS / 2, timeZone),
+    offsetMinutes(naive + DAY_MS / 2, timeZone)
+  ])).map(offset => naive - offset * MINUTE_MS).sort((a, b) => a - b);
+
+  for (const instant of candidates) {
+    const local = toZonedParts(new Date(instant), timeZone);
+    if (Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) === naive) {
+      return new Date(instant);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Minutes since midnight of an HH:MM[:SS] time
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function localDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function overlaps(a: { startTime: Date, endTime: Date }, b: { startTime: Date, endTime: Date }): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+function slotKey(availabilityId: number | null, startTime: Date): string {
+  return `${availabilityId}|${startTime.toISOString()}`;
+}
+
+/**
+ * Slots one rule calls for that start within [from, to)
+ */
+export function expandAvailabilityRule(rule: AvailabilityRule, from: Date, to: Date): PlannedSlot[] {
+  const windowStart = parseTimeOfDay(rule.startTime);
+  const windowEnd = parseTimeOfDay(rule.endTime);
+  const duration = rule.sessionDuration;
+  const slots: PlannedSlot[] = [];
+
+  if (duration <= 0 || windowEnd <= windowStart) {
+    return slots;
+  }
+
+  // Walk local calendar days, with a day's margin for time zone offsets
+  const first = toZonedParts(new Date(from.getTime() - DAY_MS), rule.timeZone);
+  const last = toZonedParts(new Date(to.getTime() + DAY_MS), rule.timeZone);
+  const firstDay = Date.UTC(first.year, first.month - 1, first.day);
+  const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+
+  // A one-off rule covers the first matching day on or after its effective date
+  let oneOffDate: string | null = null;
+  if (!rule.isRecurring && rule.effectiveDate) {
+    const effective = toZonedParts(rule.effectiveDate, rule.timeZone);
+    let day = Date.UTC(effective.year, effective.month - 1, effective.day);
+    while (new Date(day).getUTCDay() !== rule.dayOfWeek) day += DAY_MS;
+    const date = new Date(day);
+    oneOffDate = localDateString(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    const date = new Date(day);
+    if (date.getUTCDay() !== rule.dayOfWeek) continue;
+
+    const localDate = localDateString(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+    if (oneOffDate && localDate !== oneOffDate) continue;
+
+    for (let start = windowStart; start + duration <= windowEnd; start += duration) {
+      const startTime = zonedTimeToUtc(localDate, start, rule.timeZone);
+      if (!startTime || startTime < from || startTime >= to) continue;
+      if (rule.effectiveDate && startTime < rule.effectiveDate) continue;
+      if (rule.expiryDate && startTime >= rule.expiryDate) continue;
+
+      slots.push({
+        availabilityId: rule.id,
+        localDate,
+        startTime,
+        endTime: new Date(startTime.getTime() + duration * MINUTE_MS)
+      });
+    }
+  }
+
+  if (!rule.isRecurring && !oneOffDate && slots.length > 0) {
+    // Without an effective date, the first day in the window
+    return slots.filter(slot => slot.localDate === slots[0].localDate);
+  }
+
+  return slots;
+}
+
+/**
+ * Reconciles the slots the rules call for with the coach's stored slots in
+ * [from, to). Booked slots are never removed; new slots never overlap the
+ * coach's time off, their other slots, or another coach's slot on the same court.
+ *
+ * @param existingSlots - The coach's stored slots starting in the window
+ * @param courtSlots - Other coaches' slots on the courts the rules use
+ */
+export function planSlotMaterialization(input: {
+  rules: AvailabilityRule[],
+  timeOff: TimeOffPeriod[],
+  existingSlots: ExistingSlot[],
+  courtSlots: ExistingSlot[],
+  from: Date,
+  to: Date
+}): SlotMaterializationPlan {
+  const plan: SlotMaterializationPlan = { create: [], update: [], keep: [], remove: [], preserved: [], skipped: [] };
+  const rulesById = new Map(input.rules.map(rule => [rule.id, rule]));
+
+  const wanted: PlannedSlot[] = [];
+  for (const rule of [...input.rules].sort((a, b) => a.id - b.id)) {
+    for (const slot of expandAvailabilityRule(rule, input.from, input.to)) {
+      if (input.timeOff.some(period => overlaps(slot, { startTime: period.startsAt, endTime: period.endsAt }))) {
+        plan.skipped.push({ slot, reason: 'time_off' });
+      } else {
+        wanted.push(slot);
+      }
+    }
+  }
+
+  const existingByKey = new Map(input.existingSlots
+    .filter(slot => slot.availabilityId !== null)
+    .map(slot => [slotKey(slot.availabilityId, slot.startTime), slot]));
+  const matched = new Set<number>();
+
+  // Slots that stay where they are claim their time first
+  for (const slot of wanted) {
+    const existing = existingByKey.get(slotKey(slot.availabilityId, slot.startTime));
+    if (!existing) continue;
+
+    matched.add(existing.id);
+    if (existing.bookingCount > 0) {
+      plan.keep.push(existing.id);
+    } else {
+      plan.update.push({ slotId: existing.id, slot });
+    }
+  }
+
+  for (const existing of input.existingSlots) {
+    if (existing.availabilityId === null || matched.has(existing.id)) continue;
+
+    if (existing.bookingCount > 0) {
+      plan.preserved.push({ slotId: existing.id, reason: 'booked' });
+    } else {
+      plan.remove.push(existing.id);
+    }
+  }
+
+  const removed = new Set(plan.remove);
+  const occupied = input.existingSlots.filter(slot => !removed.has(slot.id) && slot.status !== 'cancelled');
+  const courtTaken = input.courtSlots.filter(slot => slot.status !== 'cancelled' && slot.courtNumber);
+
+  const toCreate = wanted
+    .filter(slot => !existingByKey.has(slotKey(slot.availabilityId, slot.startTime)))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  for (const slot of toCreate) {
+    const conflict = occupied.find(other => overlaps(slot, other));
+    if (conflict) {
+      plan.skipped.push({
+        slot,
+        reason: conflict.bookingCount > 0 ? 'booking_conflict' : 'slot_overlap',
+        conflictSlotId: conflict.id || undefined // 0 for a slot created in this plan
+      });
+      continue;
+    }
+
+    const rule = rulesById.get(slot.availabilityId);
+    const courtConflict = rule?.courtNumber
+      ? courtTaken.find(other =>
+          other.courtNumber === rule.courtNumber && other.location === rule.location && overlaps(slot, other))
+      : undefined;
+
+    if (courtConflict) {
+      plan.skipped.push({ slot, reason: 'court_conflict', conflictSlotId: courtConflict.id });
+      continue;
+    }
+
+    plan.create.push(slot);
+    // Later slots from other rules must not overlap this one
+    occupied.push({
+      id: 0,
+      availabilityId: slot.availabilityId,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      bookingCount: 0,
+      status: 'available',
+      location: rule?.location ?? null,
+      courtNumber: rule?.courtNumber ?? null
+    });
+  }
+
+  return plan;
+}
@@ -0,0 +1,158 @@
+/**
+ * Sponsor Analytics
+ * Golden ticket funnels for the sponsor portal and the fulfilment list
+ * sponsors download for claimed rewards.
+ *
+ * The funnel runs impressions (the ticket was shown) → claims → approved →
+ * fulfilled. Impressions count on the day they were shown; claims and what
+ * became of them count on the day they were claimed, so a day's row shows
+ * how that day's claims have progressed since.
+ */
+
+export const UNKNOWN_SEGMENT = 'unknown';
+
+export interface FunnelCounts {
+  impressions: number;
+  claims: number;
+  approved: number; // Approved or already fulfilled
+  fulfilled: number;
+  claimRate: number; // Claims per impression, 0-1
+  fulfilmentRate: number; // Fulfilled per claim, 0-1
+}
+
+export interface ImpressionRow {
+  shownAt: Date;
+  region: string | null;
+  tier: string | null;
+}
+
+export interface ClaimFunnelRow {
+  claimedAt: Date;
+  status: string; // pending, approved, fulfilled, rejected, expired
+  region: string | null;
+  tier: string | null;
+}
+
+export interface SponsorFunnel {
+  totals: FunnelCounts;
+  byDay: (FunnelCounts & { date: string })[];
+  byRegion: Record<string, FunnelCounts>;
+  byTier: Record<string, FunnelCounts>;
+}
+
+export interface FulfilmentRow {
+  claimId: number;
+  ticketTitle: string;
+  campaignId: string;
+  rewardDescription: string;
+  rewardType: string | null;
+  claimStatus: string;
+  claimedAt: Date;
+  recipientName: string;
+  recipientEmail: string | null;
+  shippingAddress: string | null;
+  shippingTrackingCode: string | null;
+}
+
+type Tally = Omit<FunnelCounts, 'claimRate' | 'fulfilmentRate'>;
+
+function emptyTally(): Tally {
+  return { impressions: 0, claims: 0, approved: 0, fulfilled: 0 };
+}
+
+function withRates(tally: Tally): FunnelCounts {
+  const rate = (part: number, whole: number) => whole > 0 ? Math.round(part / whole * 10000) / 10000 : 0;
+  return {
+    ...tally,
+    claimRate: rate(tally.claims, tally.impressions),
+    fulfilmentRate: rate(tally.fulfilled, tally.claims)
+  };
+}
+
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Funnel totals by day, region and player tier. Rejected and expired claims
+ * are left out of the claim counts.
+ */
+export function buildSponsorFunnel(impressions: ImpressionRow[], claims: ClaimFunnelRow[]): SponsorFunnel {
+  const totals = emptyTally();
+  const byDay = new Map<string, Tally>();
+  const byRegion = new Map<string, Tally>();
+  const byTier = new Map<string, Tally>();
+
+  const tallies = (date: string, region: string | null, tier: string | null): Tally[] => {
+    const pick = (map: Map<string, Tally>, key: string) => {
+      const tally = map.get(key) ?? emptyTally();
+      map.set(key, tally);
+      return tally;
+    };
+    return [totals, pick(byDay, date), pick(byRegion, region || UNKNOWN_SEGMENT), pick(byTier, tier || UNKNOWN_SEGMENT)];
+  };
+
+  for (const row of impressions) {
+    for (const tally of tallies(dayOf(row.shownAt), row.region, row.tier)) {
+      tally.impressions += 1;
+    }
+  }
+
+  for (const row of claims) {
+    if (row.status === 'rejected' || row.status === 'expired') continue;
+    for (const tally of tallies(dayOf(row.claimedAt), row.region, row.tier)) {
+      tally.claims += 1;
+      if (row.status === 'approved' || row.status === 'fulfilled') tally.approved += 1;
+      if (row.status === 'fulfilled') tally.fulfilled += 1;
+    }
+  }
+
+  const segments = (map: Map<string, Tally>) => {
+    const result: Record<string, FunnelCounts> = {};
+    Array.from(map.keys()).sort().forEach(key => {
+      result[key] = withRates(map.get(key)!);
+    });
+    return result;
+  };
+
+  return {
+    totals: withRates(totals),
+    byDay: Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, tally]) => ({ date, ...withRates(tally) })),
+    byRegion: segments(byRegion),
+    byTier: segments(byTier)
+  };
+}
+
+// Quotes fields that need it and defuses values a spreadsheet would run as a
+// formula, since names and addresses are typed by players
+function csvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * One CSV row per claimed reward for the sponsor to ship or send
+ */
+export function renderFulfilmentCsv(rows: FulfilmentRow[]): string {
+  const header = [
+    'Claim ID', 'Campaign', 'Ticket', 'Reward', 'Reward Type', 'Status', 'Claimed At',
+    'Recipient', 'Email', 'Shipping Address', 'Tracking Code'
+  ];
+  const lines = rows.map(row => [
+    String(row.claimId),
+    row.campaignId,
+    row.ticketTitle,
+    row.rewardDescription,
+    row.rewardType ?? '',
+    row.claimStatus,
+    row.claimedAt.toISOString(),
+    row.recipientName,
+    row.recipientEmail ?? '',
+    row.shippingAddress ?? '',
+    row.shippingTrackingCode ?? ''
+  ]);
+
+  return [header, ...lines].map(line => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
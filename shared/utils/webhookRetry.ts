@@ -0,0 +1,105 @@
+/**
+ * Webhook Retry Policy
+ * Decides what happens after each webhook delivery attempt: done, try again
+ * later with exponential backoff, or dead-letter; and when an endpoint has
+ * failed for long enough that it should be switched off.
+ *
+ * Backoff doubles from one minute up to 6 hours with ±20% jitter, so a
+ * delivery keeps being attempted for most of a day before it is
+ * dead-lettered. A Retry-After header from the endpoint can push the next
+ * attempt later but never past the cap.
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 12;
+export const BASE_RETRY_DELAY_MS = 60 * 1000;
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const RETRY_JITTER = 0.2;
+
+// Endpoints are disabled once every attempt for a day has failed, and after
+// at least this many attempts so a single slow retry chain can't do it alone
+export const ENDPOINT_DISABLE_FAILURES = 20;
+export const ENDPOINT_DISABLE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'succeeded' | 'dead';
+
+export interface AttemptResult {
+  attemptCount: number; // Attempts made so far, including this one
+  statusCode: number | null; // null when the request never got a response
+  retryAfter?: string | null; // Retry-After header, if the endpoint sent one
+}
+
+export type AttemptOutcome =
+  | { status: 'succeeded' }
+  | { status: 'retrying', nextAttemptAt: Date }
+  | { status: 'dead', reason: string, disableEndpoint: boolean };
+
+export function isSuccessStatus(statusCode: number | null): boolean {
+  return statusCode !== null && statusCode >= 200 && statusCode < 300;
+}
+
+/**
+ * Delay before the next attempt after the given number of failed attempts
+ */
+export function retryDelayMs(failedAttempts: number, random: () => number = Math.random): number {
+  const exponential = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, failedAttempts - 1));
+  const jitter = 1 + (random() * 2 - 1) * RETRY_JITTER;
+  return Math.min(MAX_RETRY_DELAY_MS, Math.round(Math.min(exponential, MAX_RETRY_DELAY_MS) * jitter));
+}
+
+/**
+ * Milliseconds asked for by a Retry-After header (seconds or an HTTP date),
+ * or null if it is missing or unreadable
+ */
+export function parseRetryAfter(header: string | null | undefined, now: Date): number | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now.getTime());
+}
+
+/**
+ * What to do with a delivery after an attempt. 410 Gone means the partner
+ * has removed the endpoint, so the delivery is dead-lettered straight away
+ * and the endpoint disabled.
+ */
+export function planNextAttempt(result: AttemptResult, now: Date, random: () => number = Math.random): AttemptOutcome {
+  if (isSuccessStatus(result.statusCode)) {
+    return { status: 'succeeded' };
+  }
+  if (result.statusCode === 410) {
+    return { status: 'dead', reason: 'Endpoint responded 410 Gone', disableEndpoint: true };
+  }
+  if (result.attemptCount >= MAX_DELIVERY_ATTEMPTS) {
+    return { status: 'dead', reason: `Gave up after ${result.attemptCount} attempts`, disableEndpoint: false };
+  }
+
+  const backoff = retryDelayMs(result.attemptCount, random);
+  const requested = parseRetryAfter(result.retryAfter, now);
+  const delay = requested === null ? backoff : Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, requested));
+  return { status: 'retrying', nextAttemptAt: new Date(now.getTime() + delay) };
+}
+
+/**
+ * Whether an endpoint has failed persistently enough to be disabled
+ */
+export function shouldDisableEndpoint(
+  endpoint: { failureCount: number, failingSince: Date | null },
+  now: Date
+): boolean {
+  if (!endpoint.failingSince || endpoint.failureCount < ENDPOINT_DISABLE_FAILURES) {
+    return false;
+  }
+  return now.getTime() - endpoint.failingSince.getTime() >= ENDPOINT_DISABLE_AFTER_MS;
+}
+
+/**
+ * Whether a comma-separated subscription list includes an event ('*' subscribes
+ * to everything)
+ */
+export function isSubscribedTo(events: string | null, eventType: string): boolean {
+  const subscribed = (events ?? '').split(',').map(event => event.trim());
+  return subscribed.includes('*') || subscribed.includes(eventType);
+}